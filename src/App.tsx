@@ -15,11 +15,16 @@ import ProtectedRoute from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import Scanner from "./pages/Scanner";
 import Portfolio from "./pages/Portfolio";
+import PortfolioAnalytics from "./pages/PortfolioAnalytics";
 import Admin from "./pages/Admin";
 import AdminAnalytics from "./pages/AdminAnalytics";
 import UserSettings from "./pages/UserSettings";
 import MemeSniperSettings from "./pages/MemeSniperSettings";
 import RiskCompliance from "./pages/RiskCompliance";
+import Backtest from "./pages/Backtest";
+import CopyTrading from "./pages/CopyTrading";
+import BotLogs from "./pages/BotLogs";
+import BotRunner from "./pages/BotRunner";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import Notifications from "./pages/Notifications";
@@ -66,6 +71,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/portfolio/analytics"
+              element={
+                <ProtectedRoute>
+                  <PortfolioAnalytics />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/settings"
               element={
@@ -90,6 +103,38 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/backtest"
+              element={
+                <ProtectedRoute>
+                  <Backtest />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/copy-trading"
+              element={
+                <ProtectedRoute>
+                  <CopyTrading />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/bot-logs"
+              element={
+                <ProtectedRoute>
+                  <BotLogs />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/bot-runner"
+              element={
+                <ProtectedRoute>
+                  <BotRunner />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/notifications"
               element={
@@ -17,7 +17,12 @@ const Header = () => {
       { label: "Dashboard", path: "/" },
       { label: "Scanner", path: "/scanner" },
       { label: "Portfolio", path: "/portfolio" },
+      { label: "Performance", path: "/portfolio/analytics" },
       { label: "Risk", path: "/risk" },
+      { label: "Backtest", path: "/backtest" },
+      { label: "Copy Trading", path: "/copy-trading" },
+      { label: "Bot Logs", path: "/bot-logs" },
+      { label: "Bot Runner", path: "/bot-runner" },
       { label: "Sniper Settings", path: "/sniper-settings" },
     ];
 
@@ -11,7 +11,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useApiConfigurations, ApiConfiguration, ApiType, ApiStatus } from '@/hooks/useApiConfigurations';
 import { useApiSecrets } from '@/hooks/useApiSecrets';
-import { Plus, Pencil, Trash2, RefreshCw, Loader2, HelpCircle, CheckCircle2, AlertCircle, Info, Key, ShieldCheck, ShieldAlert, Eye, EyeOff, TestTube2, Zap } from 'lucide-react';
+import { Plus, Pencil, Trash2, RefreshCw, Loader2, HelpCircle, CheckCircle2, AlertCircle, Info, Key, ShieldCheck, ShieldAlert, Eye, EyeOff, TestTube2, Zap, KeyRound } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 // API Documentation with requirement levels, help notes, example keys, and error solutions
@@ -248,7 +248,7 @@ const defaultFormData: ApiFormData = {
 
 export function ApiSettingsModule() {
   const { configurations, loading, addConfiguration, updateConfiguration, deleteConfiguration, toggleEnabled, fetchConfigurations } = useApiConfigurations();
-  const { secretStatus, loading: secretsLoading, fetchSecretStatus, validateSecret, validateAllSecrets, saveApiKey, deleteApiKey, getApiKeyInfo } = useApiSecrets();
+  const { secretStatus, loading: secretsLoading, fetchSecretStatus, validateSecret, validateAllSecrets, saveApiKey, deleteApiKey, rotateEncryption, getApiKeyInfo } = useApiSecrets();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingConfig, setEditingConfig] = useState<ApiConfiguration | null>(null);
   const [formData, setFormData] = useState<ApiFormData>(defaultFormData);
@@ -258,6 +258,7 @@ export function ApiSettingsModule() {
   const [showApiKey, setShowApiKey] = useState(false);
   const [existingMaskedKey, setExistingMaskedKey] = useState<string | null>(null);
   const [isValidatingAll, setIsValidatingAll] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
 
   const handleOpenDialog = async (config?: ApiConfiguration) => {
     if (config) {
@@ -363,6 +364,16 @@ export function ApiSettingsModule() {
     }
   };
 
+  const handleRotateEncryption = async () => {
+    if (!confirm('Re-encrypt all stored API keys under the active master key?')) return;
+    setIsRotating(true);
+    try {
+      await rotateEncryption();
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
   const handleDeleteApiKey = async (apiType: ApiType) => {
     if (confirm(`Are you sure you want to delete the API key for ${API_INFO[apiType]?.label || apiType}?`)) {
       await deleteApiKey(apiType);
@@ -414,6 +425,19 @@ export function ApiSettingsModule() {
               )}
               Test All APIs
             </Button>
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={handleRotateEncryption}
+              disabled={isRotating}
+            >
+              {isRotating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <KeyRound className="h-4 w-4 mr-2" />
+              )}
+              Rotate Encryption
+            </Button>
             <Button variant="outline" size="sm" onClick={() => { fetchConfigurations(); fetchSecretStatus(); }}>
               <RefreshCw className="h-4 w-4 mr-2" />
               Refresh
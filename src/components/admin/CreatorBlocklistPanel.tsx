@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Ban, Download, Upload, Trash2, Plus, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { formatBlocklistCsv, parseBlocklist } from "@shared/creator-reputation";
+
+interface BlocklistRow {
+  id: string;
+  creator: string;
+  reason: string | null;
+  source: string;
+  created_at: string;
+}
+
+export function CreatorBlocklistPanel() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<BlocklistRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState("");
+  const [newCreator, setNewCreator] = useState("");
+  const [newReason, setNewReason] = useState("");
+  const [importText, setImportText] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("creator_blocklist")
+      .select("id, creator, reason, source, created_at")
+      .order("created_at", { ascending: false });
+    if (error) {
+      toast.error(`Failed to load blocklist: ${error.message}`);
+    } else {
+      setEntries(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const importEntries = async (text: string, source: "manual" | "import") => {
+    let parsed: ReturnType<typeof parseBlocklist>;
+    try {
+      parsed = parseBlocklist(text);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : "Could not parse blocklist");
+      return false;
+    }
+    if (parsed.entries.length === 0) {
+      toast.error(parsed.invalid.length ? `No valid addresses (${parsed.invalid.length} invalid)` : "Nothing to import");
+      return false;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("creator_blocklist").upsert(
+      parsed.entries.map((entry) => ({ creator: entry.creator, reason: entry.reason, source, added_by: user?.id ?? null })),
+      { onConflict: "creator" }
+    );
+    setSaving(false);
+    if (error) {
+      toast.error(`Import failed: ${error.message}`);
+      return false;
+    }
+
+    toast.success(
+      `Blocklisted ${parsed.entries.length} creator${parsed.entries.length === 1 ? "" : "s"}` +
+      (parsed.invalid.length ? ` (${parsed.invalid.length} invalid skipped)` : "")
+    );
+    fetchEntries();
+    return true;
+  };
+
+  const handleAdd = async () => {
+    const line = newReason.trim() ? `${newCreator.trim()},${newReason.trim()}` : newCreator.trim();
+    if (await importEntries(line, "manual")) {
+      setNewCreator("");
+      setNewReason("");
+    }
+  };
+
+  const handleImport = async () => {
+    if (await importEntries(importText, "import")) setImportText("");
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    await importEntries(await file.text(), "import");
+    event.target.value = "";
+  };
+
+  const handleRemove = async (id: string) => {
+    const { error } = await supabase.from("creator_blocklist").delete().eq("id", id);
+    if (error) {
+      toast.error(`Failed to remove: ${error.message}`);
+      return;
+    }
+    setEntries((prev) => prev.filter((e) => e.id !== id));
+  };
+
+  const handleExport = (format: "csv" | "json") => {
+    const data = entries.map((e) => ({ creator: e.creator, reason: e.reason }));
+    const content = format === "csv" ? formatBlocklistCsv(data) : JSON.stringify(data, null, 2);
+    const blob = new Blob([content], { type: format === "csv" ? "text/csv" : "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `creator-blocklist-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const filtered = entries.filter((e) => {
+    const q = search.trim().toLowerCase();
+    return !q || e.creator.toLowerCase().includes(q) || (e.reason ?? "").toLowerCase().includes(q);
+  });
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="w-5 h-5 text-destructive" />
+            Creator Blocklist
+          </CardTitle>
+          <CardDescription>
+            Tokens deployed by these wallets are rejected at discovery (CREATOR_BLACKLISTED)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              placeholder="Creator wallet address"
+              value={newCreator}
+              onChange={(e) => setNewCreator(e.target.value)}
+              className="font-mono"
+            />
+            <Input placeholder="Reason (optional)" value={newReason} onChange={(e) => setNewReason(e.target.value)} />
+            <Button onClick={handleAdd} disabled={saving || !newCreator.trim()}>
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Textarea
+              placeholder={"Paste CSV (address,reason per line) or a JSON array"}
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              rows={4}
+              className="font-mono text-xs"
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleImport} disabled={saving || !importText.trim()}>
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import Pasted
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saving}>
+                <Upload className="w-4 h-4" />
+                Import File
+              </Button>
+              <input ref={fileInputRef} type="file" accept=".csv,.json,.txt" className="hidden" onChange={handleFile} />
+              <Button variant="outline" onClick={() => handleExport("csv")} disabled={entries.length === 0}>
+                <Download className="w-4 h-4" />
+                Export CSV
+              </Button>
+              <Button variant="outline" onClick={() => handleExport("json")} disabled={entries.length === 0}>
+                <Download className="w-4 h-4" />
+                Export JSON
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-base">{entries.length} blocklisted creators</CardTitle>
+            <Input
+              placeholder="Search address or reason"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="ml-auto max-w-xs"
+            />
+            <Button variant="ghost" size="sm" onClick={fetchEntries} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No blocklisted creators</p>
+          ) : (
+            <div className="space-y-2">
+              {filtered.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/30">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-mono text-sm truncate">{entry.creator}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {entry.reason || "No reason given"} · {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="capitalize">{entry.source}</Badge>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(entry.id)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
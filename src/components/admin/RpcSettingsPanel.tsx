@@ -8,8 +8,18 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import { clearBundleConfigCache } from '@/lib/jitoBundle';
+import {
+  DEFAULT_JITO_BUNDLE_SETTINGS,
+  JITO_CONFIG,
+  parseJitoBundleSettings,
+  type JitoBundleSettings,
+} from '@shared/jito-bundle';
 import { 
   Server, 
+  Layers, 
   Zap, 
   Check, 
   X, 
@@ -53,6 +63,8 @@ export function RpcSettingsPanel() {
     signalExpiry: 300,
     maxPendingSignals: 10,
   });
+  const [jitoSettings, setJitoSettings] = useState<JitoBundleSettings>(DEFAULT_JITO_BUNDLE_SETTINGS);
+  const [jitoTest, setJitoTest] = useState<{ status: 'checking' | 'online' | 'offline'; detail: string } | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [endpointStatus, setEndpointStatus] = useState<Record<string, EndpointStatus>>({});
@@ -65,7 +77,7 @@ export function RpcSettingsPanel() {
         const { data, error } = await supabase
           .from('admin_settings')
           .select('*')
-          .in('setting_key', ['rpc_endpoints', 'trade_execution']);
+          .in('setting_key', ['rpc_endpoints', 'trade_execution', 'jito_bundles']);
 
         if (error) throw error;
 
@@ -74,6 +86,8 @@ export function RpcSettingsPanel() {
             setRpcSettings(setting.setting_value);
           } else if (setting.setting_key === 'trade_execution') {
             setTradeSettings(setting.setting_value);
+          } else if (setting.setting_key === 'jito_bundles') {
+            setJitoSettings(parseJitoBundleSettings(setting.setting_value));
           }
         });
       } catch (error: any) {
@@ -138,6 +152,22 @@ export function RpcSettingsPanel() {
     await Promise.all(endpoints.map(e => testEndpoint(e.name, e.url!)));
   };
 
+  // Test the saved block engine through the jito-bundle function (browsers cannot call it directly)
+  const testBlockEngine = async () => {
+    setJitoTest({ status: 'checking', detail: '' });
+    const { data, error } = await supabase.functions.invoke('jito-bundle', {
+      body: { action: 'tip_accounts' },
+    });
+    if (error || !data?.success) {
+      setJitoTest({ status: 'offline', detail: error ? await getFunctionErrorMessage(error) : data?.error || 'Unreachable' });
+      return;
+    }
+    setJitoTest({
+      status: 'online',
+      detail: `${data.latencyMs}ms - ${data.tipAccounts?.length ?? 0} tip accounts (${data.blockEngineUrl})`,
+    });
+  };
+
   // Save settings
   const saveSettings = async () => {
     setSaving(true);
@@ -168,9 +198,23 @@ export function RpcSettingsPanel() {
 
       if (tradeError) throw tradeError;
 
+      const { error: jitoError } = await supabase
+        .from('admin_settings')
+        .upsert(
+          {
+            setting_key: 'jito_bundles',
+            setting_value: parseJitoBundleSettings(jitoSettings) as unknown as Json,
+            category: 'trading',
+          }, 
+          { onConflict: 'setting_key' }
+        );
+
+      if (jitoError) throw jitoError;
+      clearBundleConfigCache();
+
       toast({
         title: 'Settings Saved',
-        description: 'RPC and trade execution settings updated.',
+        description: 'RPC, trade execution and bundle settings updated.',
       });
     } catch (error: any) {
       toast({
@@ -206,6 +250,8 @@ export function RpcSettingsPanel() {
           <CardDescription>
             Configure Solana RPC endpoints for faster transaction speeds. 
             Helius and QuickNode offer lower latency for production sniping.
+            Edge functions pool every endpoint set here, route reads to the healthiest one and
+            fail over on rate limits; transactions are broadcast to several at once.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -356,6 +402,95 @@ export function RpcSettingsPanel() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Jito Bundles
+            {jitoSettings.enabled && <Badge variant="secondary">Enabled</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Submit manual buys and sells as a bundle: the swap plus a tip transfer, landing together
+            in one slot or not at all. Point the block engine at a local mock server to test.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+            <div>
+              <p className="font-medium">Bundle Submission</p>
+              <p className="text-sm text-muted-foreground">
+                Wallet signs swap and tip together; the block engine broadcasts them
+              </p>
+            </div>
+            <Switch
+              checked={jitoSettings.enabled}
+              onCheckedChange={checked => setJitoSettings(prev => ({ ...prev, enabled: checked }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Block Engine URL</Label>
+            <div className="flex gap-2">
+              <Input
+                value={jitoSettings.blockEngineUrl}
+                onChange={e => setJitoSettings(prev => ({ ...prev, blockEngineUrl: e.target.value }))}
+                placeholder={JITO_CONFIG.DEFAULT_BLOCK_ENGINE_URL}
+              />
+              <Button variant="outline" size="icon" onClick={testBlockEngine} title="Test saved endpoint">
+                {jitoTest?.status === 'checking' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+            {jitoTest && jitoTest.status !== 'checking' && (
+              <div className="flex items-center gap-2 text-sm">
+                {jitoTest.status === 'online' ? (
+                  <>
+                    <Check className="h-4 w-4 text-green-500" />
+                    <span className="text-green-600">Online - {jitoTest.detail}</span>
+                  </>
+                ) : (
+                  <>
+                    <X className="h-4 w-4 text-red-500" />
+                    <span className="text-red-600">{jitoTest.detail}</span>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tip (lamports)</Label>
+              <Input
+                type="number"
+                value={jitoSettings.tipLamports}
+                onChange={e => setJitoSettings(prev => ({ 
+                  ...prev, 
+                  tipLamports: parseInt(e.target.value) || JITO_CONFIG.DEFAULT_TIP_LAMPORTS 
+                }))}
+                min={JITO_CONFIG.MIN_TIP_LAMPORTS}
+                max={JITO_CONFIG.MAX_TIP_LAMPORTS}
+              />
+              <p className="text-xs text-muted-foreground">
+                = {(jitoSettings.tipLamports / 1e9).toFixed(6)} SOL per bundle
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Auth UUID (optional)</Label>
+              <Input
+                value={jitoSettings.authUuid || ''}
+                onChange={e => setJitoSettings(prev => ({ ...prev, authUuid: e.target.value || null }))}
+                placeholder="x-jito-auth key"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -57,7 +57,7 @@ export default function ModeSwitcher() {
             <p className="text-xs text-muted-foreground mt-1">
               {isLive 
                 ? 'Connected to real APIs and wallet. Trades will execute with real funds.'
-                : 'Using simulated data. No real trades will be executed. Perfect for testing strategies.'}
+                : 'Paper trading: trades fill against real quotes with slippage, fees and failed landings, but nothing is signed. Perfect for testing strategies.'}
             </p>
           </div>
           
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Send, Loader2, Plus, Trash2, AlertTriangle, Radio } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useNotificationChannels } from "@/hooks/useNotificationChannels";
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENT_TYPES,
+  type ChannelConfig,
+  type ChannelKind,
+} from "@shared/notification-channels";
+
+const KIND_LABELS: Record<ChannelKind, string> = {
+  telegram: "Telegram",
+  discord: "Discord",
+  webhook: "Webhook",
+};
+
+interface ChannelForm {
+  kind: ChannelKind;
+  label: string;
+  botToken: string;
+  chatId: string;
+  url: string;
+  secret: string;
+}
+
+const EMPTY_FORM: ChannelForm = { kind: "telegram", label: "", botToken: "", chatId: "", url: "", secret: "" };
+
+function toConfig(form: ChannelForm): ChannelConfig {
+  switch (form.kind) {
+    case "telegram":
+      return { bot_token: form.botToken.trim(), chat_id: form.chatId.trim() };
+    case "discord":
+      return { webhook_url: form.url.trim() };
+    case "webhook":
+      return { url: form.url.trim(), secret: form.secret.trim() || null };
+  }
+}
+
+/**
+ * External delivery channels and the event → channel routing matrix.
+ * In-app notifications are always on; routes only add destinations.
+ */
+export default function NotificationChannelsPanel() {
+  const { channels, routes, loading, addChannel, setChannelEnabled, removeChannel, toggleRoute, testChannel } =
+    useNotificationChannels();
+  const [form, setForm] = useState<ChannelForm>(EMPTY_FORM);
+  const [adding, setAdding] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    const created = await addChannel(form.kind, form.label.trim() || null, toConfig(form));
+    setAdding(false);
+    if (created) setForm(EMPTY_FORM);
+  };
+
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    await testChannel(id);
+    setTestingId(null);
+  };
+
+  const isRouted = (event: string, channelId: string) =>
+    routes.some((r) => r.event === event && r.channel_id === channelId);
+
+  return (
+    <Card className="border-0 bg-gradient-to-br from-card/90 to-card/60 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Radio className="w-4 h-4 text-primary" />
+          Delivery Channels
+        </CardTitle>
+        <CardDescription>
+          Send chosen alerts to Telegram, Discord or your own webhook. Every notification also appears here on all your devices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Add channel */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Type</Label>
+            <Select value={form.kind} onValueChange={(v) => setForm({ ...EMPTY_FORM, label: form.label, kind: v as ChannelKind })}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(KIND_LABELS) as ChannelKind[]).map((kind) => (
+                  <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Label</Label>
+            <Input
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder="e.g. Phone"
+              className="h-9"
+            />
+          </div>
+          {form.kind === "telegram" ? (
+            <>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Bot token</Label>
+                <Input
+                  type="password"
+                  value={form.botToken}
+                  onChange={(e) => setForm({ ...form, botToken: e.target.value })}
+                  placeholder="123456:ABC..."
+                  className="h-9 font-mono"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Chat id</Label>
+                <Input
+                  value={form.chatId}
+                  onChange={(e) => setForm({ ...form, chatId: e.target.value })}
+                  placeholder="-100123... or @channel"
+                  className="h-9 font-mono"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className={form.kind === "discord" ? "space-y-1.5 md:col-span-2" : "space-y-1.5"}>
+                <Label className="text-xs">{form.kind === "discord" ? "Webhook URL" : "URL"}</Label>
+                <Input
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  placeholder={form.kind === "discord" ? "https://discord.com/api/webhooks/..." : "https://example.com/hooks/sniper"}
+                  className="h-9 font-mono"
+                />
+              </div>
+              {form.kind === "webhook" && (
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Signing secret (optional)</Label>
+                  <Input
+                    type="password"
+                    value={form.secret}
+                    onChange={(e) => setForm({ ...form, secret: e.target.value })}
+                    placeholder="HMAC-SHA256 key"
+                    className="h-9"
+                  />
+                </div>
+              )}
+            </>
+          )}
+          <div className="md:col-span-4 flex justify-end">
+            <Button size="sm" onClick={handleAdd} disabled={adding}>
+              {adding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add channel
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No channels yet - notifications are in-app only
+          </p>
+        ) : (
+          <>
+            {/* Channels */}
+            <div className="space-y-2">
+              {channels.map((channel) => (
+                <div key={channel.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary/30 border border-border/50">
+                  <Badge variant="outline" className="text-[10px]">{KIND_LABELS[channel.kind]}</Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{channel.label || KIND_LABELS[channel.kind]}</p>
+                    {channel.last_error ? (
+                      <p className="text-xs text-destructive flex items-center gap-1 truncate">
+                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                        {channel.last_error}
+                      </p>
+                    ) : channel.last_delivery_at ? (
+                      <p className="text-xs text-muted-foreground">
+                        Last delivered {formatDistanceToNow(new Date(channel.last_delivery_at), { addSuffix: true })}
+                      </p>
+                    ) : null}
+                  </div>
+                  <Switch
+                    checked={channel.is_enabled}
+                    onCheckedChange={(checked) => setChannelEnabled(channel.id, checked)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleTest(channel.id)}
+                    disabled={testingId === channel.id}
+                    title="Send test message"
+                  >
+                    {testingId === channel.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeChannel(channel.id)}
+                    title="Remove channel"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Routing */}
+            <div>
+              <h4 className="text-sm font-medium mb-2">Routing</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    {channels.map((channel) => (
+                      <TableHead key={channel.id} className="text-center text-xs">
+                        {channel.label || KIND_LABELS[channel.kind]}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {NOTIFICATION_EVENT_TYPES.map((event) => (
+                    <TableRow key={event}>
+                      <TableCell className="text-sm">{NOTIFICATION_EVENT_LABELS[event]}</TableCell>
+                      {channels.map((channel) => (
+                        <TableCell key={channel.id} className="text-center">
+                          <Checkbox
+                            checked={isRouted(event, channel.id)}
+                            onCheckedChange={() => toggleRoute(event, channel.id)}
+                            disabled={!channel.is_enabled}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -50,6 +50,8 @@ import {
 import { format, subDays, subWeeks, subMonths, subYears, isAfter, isBefore, startOfDay, endOfDay } from 'date-fns';
 import { TradeHistoryEntry } from '@/hooks/useTradeHistory';
 import { isPlaceholderTokenText } from '@/lib/dexscreener';
+import { getExitReasonShortLabel } from '@/lib/exitPlan';
+import { isGuardianExitReason } from '@shared/position-guardian';
 import { useDisplayUnit } from '@/contexts/DisplayUnitContext';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
@@ -176,7 +178,7 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
 
     setExporting(true);
     try {
-      const headers = ['Date', 'Type', 'Token Symbol', 'Token Name', 'Token Address', 'Amount', 'Price (SOL)', 'Price (USD)', 'Status', 'TX Hash'];
+      const headers = ['Date', 'Type', 'Token Symbol', 'Token Name', 'Token Address', 'Amount', 'Price (SOL)', 'Price (USD)', 'Status', 'Exit Reason', 'TX Hash'];
       const rows = filteredTrades.map(trade => [
         format(new Date(trade.created_at), 'yyyy-MM-dd HH:mm:ss'),
         trade.trade_type.toUpperCase(),
@@ -187,6 +189,7 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
         trade.price_sol?.toFixed(8) || '',
         trade.price_usd?.toFixed(4) || '',
         trade.status || 'pending',
+        trade.exit_reason || '',
         trade.tx_hash || '',
       ]);
 
@@ -315,6 +318,7 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
                 <th>Price (SOL)</th>
                 <th>Price (USD)</th>
                 <th>Status</th>
+                <th>Exit Reason</th>
                 <th>TX Hash</th>
               </tr>
             </thead>
@@ -328,6 +332,7 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
                   <td>${trade.price_sol?.toFixed(6) || '-'}</td>
                   <td>${trade.price_usd ? '$' + trade.price_usd.toFixed(4) : '-'}</td>
                   <td class="status-${trade.status || 'pending'}">${trade.status || 'pending'}</td>
+                  <td>${trade.exit_reason ? getExitReasonShortLabel(trade.exit_reason) : '-'}</td>
                   <td>${trade.tx_hash ? shortAddress(trade.tx_hash) : '-'}</td>
                 </tr>
               `).join('')}
@@ -633,6 +638,15 @@ export function TransactionHistory({ trades, loading, onRefetch, onForceSync }:
                           <Badge variant="outline" className={`capitalize font-medium ${trade.trade_type === 'buy' ? 'border-success/30 text-success' : 'border-destructive/30 text-destructive'}`}>
                             {trade.trade_type}
                           </Badge>
+                          {trade.exit_reason && (
+                            <Badge
+                              variant="outline"
+                              className={`text-xs ${isGuardianExitReason(trade.exit_reason) ? 'bg-destructive/10 border-destructive/30 text-destructive' : 'text-muted-foreground'}`}
+                              title={trade.exit_reason}
+                            >
+                              {getExitReasonShortLabel(trade.exit_reason)}
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -0,0 +1,128 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Zap, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { BREAKER_LEVEL_LABELS, type CircuitBreakerStatus, type CircuitBreakerTripLog } from "@/hooks/useRiskCompliance";
+import type { BreakerLevel, BreakerTrigger, BreakerUnit, WindowLoss } from "@shared/circuit-breaker";
+
+const LEVEL_CLASSES: Record<BreakerLevel, string> = {
+  none: "bg-green-500/20 text-green-400 border-green-500/30",
+  reduce_size: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  pause_entries: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+  emergency_stop: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+const TRIGGER_LABELS: Record<BreakerTrigger, string> = {
+  hourly_loss: "Hourly limit",
+  daily_loss: "Daily limit",
+  strategy_loss: "Strategy limit",
+  loss_streak: "Loss streak",
+  approaching_limit: "Near limit",
+};
+
+function formatLoss(value: number, unit: BreakerUnit) {
+  return unit === "usd" ? `$${value.toFixed(2)}` : `${value.toFixed(3)} SOL`;
+}
+
+function WindowSummary({ label, window, limit, unit }: { label: string; window: WindowLoss; limit: number | null; unit: BreakerUnit }) {
+  return (
+    <div className="p-3 bg-secondary/30 rounded-lg">
+      <p className="text-xs text-muted-foreground">{label} loss</p>
+      <p className="font-mono font-semibold">
+        {formatLoss(window.loss, unit)}
+        {limit !== null && <span className="text-muted-foreground font-normal"> / {formatLoss(limit, unit)}</span>}
+      </p>
+      <p className="text-[11px] text-muted-foreground">
+        realized {formatLoss(window.realized, unit)} · open {formatLoss(window.unrealized, unit)}
+      </p>
+    </div>
+  );
+}
+
+interface CircuitBreakerTripsProps {
+  status: CircuitBreakerStatus | null;
+  trips: CircuitBreakerTripLog[];
+  hourlyLimit: number | null;
+  dailyLimit: number | null;
+  unit: BreakerUnit;
+  onRefresh: () => void;
+}
+
+/** Current breaker measurements and every logged trip with the positions behind it */
+export default function CircuitBreakerTrips({ status, trips, hourlyLimit, dailyLimit, unit, onRefresh }: CircuitBreakerTripsProps) {
+  const level = status?.level ?? "none";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Zap className="w-5 h-5" />
+            Circuit Breaker Trips
+          </CardTitle>
+          <CardDescription>Loss measured against your limits, and each time the breaker escalated</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onRefresh}>
+          <RefreshCw className="w-4 h-4 mr-1" /> Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status?.evaluation && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <WindowSummary label="Last hour" window={status.evaluation.hourly} limit={hourlyLimit} unit={unit} />
+            <WindowSummary label="Last 24h" window={status.evaluation.daily} limit={dailyLimit} unit={unit} />
+            <div className="p-3 bg-secondary/30 rounded-lg">
+              <p className="text-xs text-muted-foreground">Status</p>
+              <Badge className={LEVEL_CLASSES[level]}>{BREAKER_LEVEL_LABELS[level]}</Badge>
+              <p className="text-[11px] text-muted-foreground mt-1">
+                {status.evaluation.streak} losing trade{status.evaluation.streak === 1 ? "" : "s"} in a row
+                {status.pausedStrategies.length > 0 && ` · paused: ${status.pausedStrategies.join(", ")}`}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {trips.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Zap className="w-10 h-10 mx-auto mb-2 opacity-50" />
+            <p>The circuit breaker has not tripped</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {trips.map((trip) => (
+              <div key={trip.id} className="p-3 bg-secondary/30 rounded-lg space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge className={LEVEL_CLASSES[trip.level]}>{BREAKER_LEVEL_LABELS[trip.level]}</Badge>
+                    <Badge variant="outline" className="text-xs">{TRIGGER_LABELS[trip.trigger]}</Badge>
+                    {trip.strategy && <Badge variant="outline" className="text-xs capitalize">{trip.strategy.replace("_", " ")}</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(trip.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+                <p className="text-sm">{trip.message}</p>
+                {trip.positions.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {trip.positions.map((position) => (
+                      <Badge key={position.id} variant="outline" className="text-[10px] font-mono">
+                        {position.token_symbol}
+                        {position.profit_loss_percent !== null && (
+                          <span className="text-red-400 ml-1">{position.profit_loss_percent.toFixed(1)}%</span>
+                        )}
+                        {position.entry_sol !== null && (
+                          <span className="text-muted-foreground ml-1">on {position.entry_sol} SOL</span>
+                        )}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,17 @@
 import { memo, useMemo, useCallback, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { TrendingUp, MoreVertical, ExternalLink, RefreshCw, ChevronDown, ChevronUp, Trash2 } from "lucide-react";
+import { TrendingUp, MoreVertical, ExternalLink, RefreshCw, ChevronDown, ChevronUp, Trash2, SlidersHorizontal, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import ExitPlanEditor from "@/components/trading/ExitPlanEditor";
+import { describeExitPlan, validateExitPlan, type ExitPlan } from "@/lib/exitPlan";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import {
   DropdownMenu,
@@ -31,13 +41,19 @@ interface Position {
   profit_loss_value: number | null;
   profit_take_percent?: number;
   stop_loss_percent?: number;
+  exit_plan?: ExitPlan | null;
+  peak_price?: number | null;
+  exit_tiers_filled?: number[];
 }
 
 interface ActivePositionsPanelProps {
   positions: Position[];
   loading?: boolean;
+  // User's default plan - shown for positions without their own
+  defaultExitPlan?: ExitPlan | null;
   onClosePosition?: (positionId: string, currentPrice: number) => void;
   onForceClose?: (positionId: string) => void;
+  onUpdateExitPlan?: (positionId: string, exitPlan: ExitPlan | null) => Promise<boolean> | void;
   onRefresh?: () => void;
 }
 
@@ -65,13 +81,17 @@ const formatTokenAmount = (amount: number) => {
 const PositionRow = memo(({ 
   position, 
   colorIndex, 
+  defaultExitPlan,
   onClosePosition,
-  onForceClose
+  onForceClose,
+  onEditExitPlan
 }: { 
   position: Position; 
   colorIndex: number;
+  defaultExitPlan?: ExitPlan | null;
   onClosePosition?: (positionId: string, currentPrice: number) => void;
   onForceClose?: (positionId: string) => void;
+  onEditExitPlan?: (position: Position) => void;
 }) => {
   // CRITICAL: Use pre-calculated values from usePositions hook - DO NOT RECALCULATE
   // The hook already computes accurate P&L using entry_price_usd vs current_price (USD to USD)
@@ -99,6 +119,13 @@ const PositionRow = memo(({
   const handleForceClose = useCallback(() => {
     onForceClose?.(position.id);
   }, [onForceClose, position.id]);
+
+  const handleEditExitPlan = useCallback(() => {
+    onEditExitPlan?.(position);
+  }, [onEditExitPlan, position]);
+
+  const effectiveExitPlan = position.exit_plan ?? defaultExitPlan ?? null;
+  const tiersFilled = position.exit_tiers_filled?.length ?? 0;
   
   // Format USD value with appropriate precision
   const formatUsdValue = (val: number) => {
@@ -161,7 +188,17 @@ const PositionRow = memo(({
                 <p className={cn("tabular-nums font-medium", isPositive ? 'text-success' : 'text-destructive')}>
                   P&L: {isPositive ? '+' : ''}{pnlPercent.toFixed(2)}%
                 </p>
-                {position.profit_take_percent && (
+                {effectiveExitPlan ? (
+                  <>
+                    <p className="text-success">Exit Plan{position.exit_plan ? '' : ' (default)'}: {describeExitPlan(effectiveExitPlan)}</p>
+                    {effectiveExitPlan.tiers.length > 0 && (
+                      <p className="tabular-nums text-muted-foreground">Tiers filled: {tiersFilled}/{effectiveExitPlan.tiers.length}</p>
+                    )}
+                    {position.peak_price && (
+                      <p className="tabular-nums text-muted-foreground">Peak: {formatPrice(position.peak_price)}</p>
+                    )}
+                  </>
+                ) : position.profit_take_percent && (
                   <p className="text-success">TP Target: +{position.profit_take_percent}%</p>
                 )}
                 {position.stop_loss_percent && (
@@ -190,6 +227,15 @@ const PositionRow = memo(({
                   Sell & Close
                 </DropdownMenuItem>
               )}
+              {onEditExitPlan && (
+                <DropdownMenuItem 
+                  onClick={handleEditExitPlan}
+                  className="cursor-pointer"
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5 mr-2" />
+                  Edit Exit Plan
+                </DropdownMenuItem>
+              )}
               {onForceClose && (
                 <>
                   <DropdownMenuSeparator />
@@ -258,6 +304,10 @@ const PositionRow = memo(({
     prevProps.position.profit_loss_percent === nextProps.position.profit_loss_percent &&
     prevProps.position.token_name === nextProps.position.token_name &&
     prevProps.position.token_symbol === nextProps.position.token_symbol &&
+    prevProps.position.exit_plan === nextProps.position.exit_plan &&
+    prevProps.position.peak_price === nextProps.position.peak_price &&
+    prevProps.position.exit_tiers_filled?.length === nextProps.position.exit_tiers_filled?.length &&
+    prevProps.defaultExitPlan === nextProps.defaultExitPlan &&
     prevProps.colorIndex === nextProps.colorIndex
   );
 });
@@ -289,12 +339,35 @@ PositionSkeleton.displayName = 'PositionSkeleton';
 export default function ActivePositionsPanel({ 
   positions, 
   loading = false,
+  defaultExitPlan,
   onClosePosition,
   onForceClose,
+  onUpdateExitPlan,
   onRefresh,
 }: ActivePositionsPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [showAll, setShowAll] = useState(false);
+  const [editingPosition, setEditingPosition] = useState<Position | null>(null);
+  const [draftExitPlan, setDraftExitPlan] = useState<ExitPlan | null>(null);
+  const [savingExitPlan, setSavingExitPlan] = useState(false);
+
+  const openExitPlanEditor = useCallback((position: Position) => {
+    setEditingPosition(position);
+    setDraftExitPlan(position.exit_plan ?? defaultExitPlan ?? null);
+  }, [defaultExitPlan]);
+
+  const draftValid = !draftExitPlan || validateExitPlan(draftExitPlan).valid;
+
+  const saveExitPlan = async (plan: ExitPlan | null) => {
+    if (!editingPosition || !onUpdateExitPlan) return;
+    setSavingExitPlan(true);
+    try {
+      const ok = await onUpdateExitPlan(editingPosition.id, plan);
+      if (ok !== false) setEditingPosition(null);
+    } finally {
+      setSavingExitPlan(false);
+    }
+  };
   
   // Display all or first 5
   const displayedPositions = useMemo(() => 
@@ -410,8 +483,10 @@ export default function ActivePositionsPanel({
                   key={position.id}
                   position={position}
                   colorIndex={index}
+                  defaultExitPlan={defaultExitPlan}
                   onClosePosition={onClosePosition}
                   onForceClose={onForceClose}
+                  onEditExitPlan={onUpdateExitPlan ? openExitPlanEditor : undefined}
                 />
               ))}
               
@@ -444,6 +519,37 @@ export default function ActivePositionsPanel({
           )}
         </CardContent>
       )}
+
+      <Dialog open={!!editingPosition} onOpenChange={(open) => !open && setEditingPosition(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Exit Plan</DialogTitle>
+            <DialogDescription>
+              {editingPosition
+                ? `${getTokenDisplaySymbol(editingPosition.token_symbol, editingPosition.token_address || '')} - overrides your default plan for this position only`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {editingPosition && (
+            <ExitPlanEditor
+              plan={draftExitPlan}
+              onChange={setDraftExitPlan}
+              fallbackLabel={`Fixed TP +${editingPosition.profit_take_percent ?? 100}% / SL -${editingPosition.stop_loss_percent ?? 20}%`}
+            />
+          )}
+          <DialogFooter className="gap-2">
+            {editingPosition?.exit_plan && (
+              <Button variant="ghost" onClick={() => saveExitPlan(null)} disabled={savingExitPlan}>
+                Use Default
+              </Button>
+            )}
+            <Button onClick={() => saveExitPlan(draftExitPlan)} disabled={savingExitPlan || !draftValid}>
+              {savingExitPlan && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
@@ -2,8 +2,9 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, CheckCircle, XCircle, Clock, Wifi, WifiOff, AlertTriangle } from "lucide-react";
+import { RefreshCw, CheckCircle, XCircle, Clock, Wifi, WifiOff, AlertTriangle, PauseCircle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { PROBE_CONFIG, type ProbeEntryGate, type ProbeSummary } from "@shared/api-probes";
 
 interface ApiStatus {
   name: string;
@@ -28,6 +29,8 @@ export default function ApiHealthWidget({ isDemo = false }: ApiHealthWidgetProps
       lastCheck: null,
     }))
   );
+  const [probes, setProbes] = useState<ProbeSummary[]>([]);
+  const [entryGate, setEntryGate] = useState<ProbeEntryGate | null>(null);
   const [checking, setChecking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const checkingRef = useRef(false);
@@ -54,6 +57,8 @@ export default function ApiHealthWidget({ isDemo = false }: ApiHealthWidgetProps
           lastError: s.lastError,
         })));
       }
+      setProbes(data?.probes || []);
+      setEntryGate(data?.entryGate ?? null);
     } catch (err: any) {
       console.error('[ApiHealthWidget] Error:', err);
       setError(err.message || 'Health check failed');
@@ -85,7 +90,7 @@ export default function ApiHealthWidget({ isDemo = false }: ApiHealthWidgetProps
 
   const overallStatus = statuses.every(s => s.status === 'online')
     ? 'online'
-    : statuses.some(s => s.status === 'offline')
+    : statuses.some(s => s.status === 'offline' || s.status === 'degraded')
       ? 'degraded'
       : statuses.every(s => s.status === 'unknown')
         ? 'unknown'
@@ -150,6 +155,46 @@ export default function ApiHealthWidget({ isDemo = false }: ApiHealthWidgetProps
           })}
         </div>
         
+        {entryGate?.paused && (
+          <div className="flex items-start gap-1 text-[10px] text-warning mt-2 p-1.5 bg-warning/10 rounded">
+            <PauseCircle className="w-3 h-3 flex-shrink-0 mt-px" />
+            <span>Auto-entry paused: {entryGate.reasons.join('; ')}</span>
+          </div>
+        )}
+
+        {/* Synthetic probe history - latency per run, failed runs in red */}
+        {probes.some(p => p.history.length > 0) && (
+          <div className="mt-2 space-y-1.5">
+            {probes.map((probe) => {
+              const config = statusConfig[probe.status];
+              const maxLatency = Math.max(PROBE_CONFIG.DEGRADED_LATENCY_MS, ...probe.history.map(h => h.latencyMs));
+              return (
+                <div key={probe.probe}>
+                  <div className="flex items-center justify-between text-[10px]">
+                    <span>
+                      <span className="font-medium">{probe.api}</span>
+                      <span className="text-muted-foreground"> · {probe.description}</span>
+                    </span>
+                    <span className={config.color}>
+                      {probe.medianLatencyMs !== null ? `${probe.medianLatencyMs}ms` : probe.status}
+                      {probe.successRate !== null && ` · ${Math.round(probe.successRate * 100)}%`}
+                    </span>
+                  </div>
+                  <div className="flex items-end gap-px h-4 mt-0.5" title={probe.lastError ?? undefined}>
+                    {probe.history.map((point) => (
+                      <div
+                        key={point.at}
+                        className={`flex-1 rounded-sm ${point.success ? 'bg-success/60' : 'bg-destructive/70'}`}
+                        style={{ height: `${point.success ? Math.max(10, (point.latencyMs / maxLatency) * 100) : 100}%` }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {statuses[0]?.lastCheck && (
           <p className="text-[9px] text-muted-foreground text-center mt-2">
             Last check: {statuses[0].lastCheck.toLocaleTimeString()}
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { useAuth } from "@/contexts/AuthContext";
+import { queueBotLogForSync } from "@/lib/botLogSync";
+import { Link } from "react-router-dom";
 import { 
   Activity, 
   CheckCircle, 
@@ -14,6 +16,7 @@ import {
   Trash2,
   ChevronDown,
   ChevronRight,
+  History,
 } from "lucide-react";
 
 export type LogLevel = 'info' | 'success' | 'warning' | 'error' | 'skip';
@@ -111,8 +114,12 @@ export function addBotLog(entry: Omit<BotLogEntry, 'id' | 'timestamp'>): void {
   persistUserLogs(currentUserId);
   
   getSubscribers(currentUserId).forEach(cb => cb());
+
+  // Server copy for history and audits - batched, signed-in users only
+  if (currentUserId) queueBotLogForSync(currentUserId, newEntry);
 }
 
+// Clears the live view only; the server history is kept until retention removes it
 export function clearBotLogs(): void {
   const key = getLogStorageKey(currentUserId);
   userLogStores.set(key, []);
@@ -365,6 +372,17 @@ export default function BotActivityLog({ maxEntries = 100 }: BotActivityLogProps
                     {stats.error}
                   </span>
                 </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  asChild
+                  title="Log history"
+                >
+                  <Link to="/bot-logs" onClick={(e) => e.stopPropagation()}>
+                    <History className="w-3.5 h-3.5" />
+                  </Link>
+                </Button>
                 <Button 
                   variant="ghost" 
                   size="icon" 
@@ -158,6 +158,15 @@ const PoolRow = memo(({ pool, colorIndex, isNew, onViewDetails }: { pool: Scanne
           >
             {isPumpFun ? '🎉 Pump' : pool.source || 'DEX'}
           </Badge>
+          {pool.curve && (
+            <Badge
+              variant="outline"
+              className="text-[9px] px-1.5 py-0 h-5 border-orange-500/40 text-orange-400 bg-orange-500/10 tabular-nums"
+              title={`Bonding curve ${pool.curve.progress.toFixed(1)}% sold · ${pool.curve.priceSol.toExponential(2)} SOL/token`}
+            >
+              {pool.curve.complete ? 'Migrated' : `Curve ${pool.curve.progress.toFixed(0)}%`}
+            </Badge>
+          )}
           <Badge 
             variant="outline" 
             className={cn(
@@ -2,6 +2,7 @@ import { useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useSellLocks } from "@/hooks/useSellLocks";
 import { 
   RefreshCw, 
   Zap, 
@@ -11,8 +12,23 @@ import {
   AlertTriangle,
   XCircle,
   Wallet,
+  Lock,
 } from "lucide-react";
 
+const SELL_SOURCE_LABELS: Record<string, string> = {
+  auto_exit: 'Auto-exit',
+  manual_sell: 'Manual sell',
+  liquidity_worker: 'Liquidity retry',
+  partial_retry: 'Partial retry',
+};
+
+// browser:<tab id> / edge:<function>:<isolate id>
+function describeHolder(holder: string, isLocal: boolean): string {
+  if (isLocal) return 'this tab';
+  const [kind, name] = holder.split(':');
+  return kind === 'edge' ? `server (${name})` : 'another tab or device';
+}
+
 interface RecoveryControlsProps {
   onForceScan: () => void;
   onForceEvaluate: () => void;
@@ -48,6 +64,7 @@ export default function RecoveryControls({
 }: RecoveryControlsProps) {
   const [scanCooldown, setScanCooldown] = useState(false);
   const [evalCooldown, setEvalCooldown] = useState(false);
+  const { locks: sellLocks } = useSellLocks();
 
   const handleForceScan = useCallback(() => {
     if (scanCooldown) return;
@@ -165,6 +182,25 @@ export default function RecoveryControls({
           </Button>
         )}
         
+        {/* Active sell locks - held by this tab, other tabs/devices or the server */}
+        {sellLocks.length > 0 && (
+          <div className="mt-2 rounded-md border border-border/50 p-2 space-y-1">
+            <div className="flex items-center gap-1.5 text-[10px] font-medium text-muted-foreground">
+              <Lock className="w-3 h-3" />
+              {sellLocks.length} sell{sellLocks.length > 1 ? 's' : ''} in progress
+            </div>
+            {sellLocks.map((lock) => (
+              <div key={lock.positionId} className="flex items-center justify-between text-[10px]">
+                <span className="font-mono">{lock.tokenAddress.slice(0, 4)}...{lock.tokenAddress.slice(-4)}</span>
+                <span className="text-muted-foreground">
+                  {SELL_SOURCE_LABELS[lock.source] ?? lock.source} · {describeHolder(lock.holder, lock.isLocal)} · expires{' '}
+                  {new Date(lock.expiresAt).toLocaleTimeString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <p className="text-[10px] text-muted-foreground mt-2 text-center">
           Use if bot appears stuck or not trading.
         </p>
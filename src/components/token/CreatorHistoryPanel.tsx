@@ -0,0 +1,120 @@
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { UserCircle, Ban, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useCreatorReputation } from '@/hooks/useCreatorReputation';
+import type { CreatorOutcome } from '@shared/creator-reputation';
+import { CREATOR_RULES } from '@shared/snipe-rules';
+
+interface CreatorHistoryPanelProps {
+  tokenAddress: string;
+}
+
+const OUTCOME_STYLES: Record<CreatorOutcome, string> = {
+  rugged: 'text-destructive bg-destructive/10 border-destructive/30',
+  honeypot: 'text-destructive bg-destructive/10 border-destructive/30',
+  survived: 'text-success bg-success/10 border-success/30',
+  pending: 'text-muted-foreground bg-secondary/50 border-border',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+export function CreatorHistoryPanel({ tokenAddress }: CreatorHistoryPanelProps) {
+  const { creator, reputation, launches, loading, error, refetch } = useCreatorReputation(tokenAddress);
+
+  const scoreColor = !reputation
+    ? 'text-muted-foreground'
+    : reputation.blacklisted || reputation.score >= CREATOR_RULES.REJECT_SCORE
+      ? 'text-destructive'
+      : reputation.score > 0 ? 'text-warning' : 'text-success';
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <UserCircle className="w-5 h-5" />
+          Creator History
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={refetch} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!loading && !error && !creator && (
+          <p className="text-sm text-muted-foreground">Creator could not be determined for this token</p>
+        )}
+
+        {creator && reputation && (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-xs text-muted-foreground">Deployer</p>
+                <a
+                  href={`https://solscan.io/account/${creator.creator}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-sm flex items-center gap-1 hover:text-primary"
+                >
+                  {shortAddress(creator.creator)}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              </div>
+              <div className="text-right">
+                <p className="text-xs text-muted-foreground">Reputation risk</p>
+                <p className={`font-mono font-bold ${scoreColor}`}>{reputation.score}/100</p>
+              </div>
+            </div>
+
+            {reputation.blacklisted && (
+              <div className="flex items-center gap-2 p-3 rounded-lg border text-destructive bg-destructive/10 border-destructive/30 text-sm">
+                <Ban className="w-4 h-4 flex-shrink-0" />
+                Blacklisted{reputation.blacklistReason ? `: ${reputation.blacklistReason}` : ''}
+              </div>
+            )}
+
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {[
+                { label: 'Launches', value: reputation.launches },
+                { label: 'Rugged', value: reputation.rugged },
+                { label: 'Honeypot', value: reputation.honeypots },
+                { label: 'Survived', value: reputation.survived },
+              ].map((stat) => (
+                <div key={stat.label} className="p-2 rounded-lg bg-secondary/30">
+                  <p className="font-mono font-bold">{stat.value}</p>
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {launches.map((launch) => (
+                <div key={launch.mint} className="flex items-center justify-between p-2 rounded-lg bg-secondary/20 text-sm">
+                  <div className="min-w-0">
+                    {launch.mint === tokenAddress ? (
+                      <span className="font-mono">{shortAddress(launch.mint)} (this token)</span>
+                    ) : (
+                      <Link to={`/token/${launch.mint}`} className="font-mono hover:text-primary">
+                        {shortAddress(launch.mint)}
+                      </Link>
+                    )}
+                    <p className="text-xs text-muted-foreground truncate">
+                      {formatDistanceToNow(new Date(launch.launched_at), { addSuffix: true })}
+                      {launch.outcome_reason ? ` · ${launch.outcome_reason}` : ''}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className={`capitalize ${OUTCOME_STYLES[launch.outcome]}`}>
+                    {launch.outcome}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,70 +1,93 @@
 import { useState, useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { ComposedChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceDot } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
+import { TrendingUp, TrendingDown, BarChart3, Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useTokenCandles, type CandleTimeframe } from '@/hooks/useTokenCandles';
+import { placeFills, toChartPoints, type ChartPoint, type PlacedFill } from '@/lib/candleChart';
 
 interface TokenPriceChartProps {
   token: {
+    address: string;
     priceUsd: number;
     priceChange24h: number;
     symbol: string;
+    pairAddress?: string;
   };
 }
 
-type TimeFrame = '1H' | '4H' | '24H' | '7D';
+const UP_COLOR = 'hsl(160, 100%, 50%)';
+const DOWN_COLOR = 'hsl(0, 72%, 51%)';
+const BUY_COLOR = 'hsl(210, 100%, 60%)';
+const SELL_COLOR = 'hsl(40, 100%, 55%)';
+
+const formatPrice = (price: number): string => {
+  if (price < 0.0001) return price.toExponential(2);
+  if (price < 0.01) return price.toFixed(6);
+  if (price < 1) return price.toFixed(4);
+  return price.toFixed(2);
+};
+
+const formatVolume = (volume: number): string => {
+  if (volume >= 1_000_000) return `$${(volume / 1_000_000).toFixed(2)}M`;
+  if (volume >= 1_000) return `$${(volume / 1_000).toFixed(1)}K`;
+  return `$${volume.toFixed(0)}`;
+};
+
+const formatTime = (unixSeconds: number, timeframe: CandleTimeframe): string => {
+  const date = new Date(unixSeconds * 1000);
+  return timeframe === '7D'
+    ? date.toLocaleDateString('en-US', { weekday: 'short', hour: '2-digit' })
+    : date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+};
+
+// Candle body + wick drawn inside the [low, high] bar recharts lays out for us
+const CandleShape = (props: { x?: number; y?: number; width?: number; height?: number; payload?: ChartPoint }) => {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props;
+  if (!payload) return null;
+
+  const { open, close, high, low, up } = payload;
+  const color = up ? UP_COLOR : DOWN_COLOR;
+  const span = high - low;
+  const toY = (value: number) => (span > 0 ? y + ((high - value) / span) * height : y);
+
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(toY(open) - toY(close)));
+  const bodyWidth = Math.max(1, width * 0.7);
+  const centerX = x + width / 2;
+
+  return (
+    <g>
+      <line x1={centerX} x2={centerX} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={centerX - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
 
 export function TokenPriceChart({ token }: TokenPriceChartProps) {
-  const [timeframe, setTimeframe] = useState<TimeFrame>('24H');
-  
-  // Generate mock price data based on current price and change
-  const chartData = useMemo(() => {
-    const points: { time: string; price: number; volume: number }[] = [];
-    const basePrice = token.priceUsd;
-    const changePercent = token.priceChange24h / 100;
-    
-    const numPoints = timeframe === '1H' ? 12 : timeframe === '4H' ? 24 : timeframe === '24H' ? 24 : 7 * 24;
-    const interval = timeframe === '1H' ? 5 : timeframe === '4H' ? 10 : timeframe === '24H' ? 60 : 360;
-    
-    // Calculate starting price based on change
-    const startPrice = basePrice / (1 + changePercent);
-    
-    for (let i = 0; i < numPoints; i++) {
-      const progress = i / numPoints;
-      // Add some randomness but trend towards current price
-      const noise = (Math.random() - 0.5) * 0.02 * basePrice;
-      const trendPrice = startPrice + (basePrice - startPrice) * progress;
-      const price = trendPrice + noise;
-      
-      const time = new Date(Date.now() - (numPoints - i) * interval * 60 * 1000);
-      const timeStr = timeframe === '7D' 
-        ? time.toLocaleDateString('en-US', { weekday: 'short' })
-        : time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-      
-      points.push({
-        time: timeStr,
-        price: Math.max(0, price),
-        volume: Math.floor(Math.random() * 10000) + 1000,
-      });
-    }
-    
-    return points;
-  }, [token.priceUsd, token.priceChange24h, timeframe]);
+  const [timeframe, setTimeframe] = useState<CandleTimeframe>('24H');
+  const { candles, fills, source, stale, loading, error, refresh } = useTokenCandles(
+    token.address,
+    timeframe,
+    token.pairAddress
+  );
 
-  const isPositive = token.priceChange24h >= 0;
-  const chartColor = isPositive ? 'hsl(160, 100%, 50%)' : 'hsl(0, 72%, 51%)';
+  const chartData: ChartPoint[] = useMemo(() => toChartPoints(candles), [candles]);
 
-  const formatPrice = (price: number): string => {
-    if (price < 0.0001) return price.toExponential(2);
-    if (price < 0.01) return price.toFixed(6);
-    if (price < 1) return price.toFixed(4);
-    return price.toFixed(2);
-  };
+  // Snap each of our fills to the candle it happened in
+  const placedFills: PlacedFill[] = useMemo(
+    () => placeFills(chartData, fills, timeframe),
+    [chartData, fills, timeframe]
+  );
+
+  const isPositive = token.priceChange24h >= 0;
 
-  const minPrice = Math.min(...chartData.map(d => d.price));
-  const maxPrice = Math.max(...chartData.map(d => d.price));
+  const maxPrice = chartData.length ? Math.max(...chartData.map((d) => d.high), ...placedFills.map((f) => f.price)) : token.priceUsd;
+  const minPrice = chartData.length ? Math.min(...chartData.map((d) => d.low), ...placedFills.map((f) => f.price)) : token.priceUsd;
   const priceRange = maxPrice - minPrice;
+  const maxVolume = chartData.length ? Math.max(...chartData.map((d) => d.volume)) : 0;
+  const totalVolume = chartData.reduce((sum, d) => sum + d.volume, 0);
 
   return (
     <Card className="glass">
@@ -75,17 +98,25 @@ export function TokenPriceChart({ token }: TokenPriceChartProps) {
             Price Chart
           </CardTitle>
           <div className="flex items-center gap-2">
+            {source && (
+              <Badge variant="outline" className="text-[10px] capitalize">
+                {stale ? 'cached · ' : ''}{source}
+              </Badge>
+            )}
             <Badge className={isPositive ? 'bg-success/10 text-success' : 'bg-destructive/10 text-destructive'}>
               {isPositive ? <TrendingUp className="w-3 h-3 mr-1" /> : <TrendingDown className="w-3 h-3 mr-1" />}
               {isPositive ? '+' : ''}{token.priceChange24h.toFixed(2)}%
             </Badge>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={refresh}>
+              <RefreshCw className="w-3.5 h-3.5" />
+            </Button>
           </div>
         </div>
       </CardHeader>
       <CardContent>
         {/* Timeframe Selector */}
         <div className="flex gap-1 mb-4">
-          {(['1H', '4H', '24H', '7D'] as TimeFrame[]).map((tf) => (
+          {(['1H', '4H', '24H', '7D'] as CandleTimeframe[]).map((tf) => (
             <Button
               key={tf}
               variant={timeframe === tf ? 'default' : 'ghost'}
@@ -100,53 +131,98 @@ export function TokenPriceChart({ token }: TokenPriceChartProps) {
 
         {/* Chart */}
         <div className="h-64">
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-              <defs>
-                <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={chartColor} stopOpacity={0.3} />
-                  <stop offset="95%" stopColor={chartColor} stopOpacity={0} />
-                </linearGradient>
-              </defs>
-              <XAxis 
-                dataKey="time" 
-                axisLine={false}
-                tickLine={false}
-                tick={{ fill: 'hsl(215, 20%, 55%)', fontSize: 10 }}
-                interval="preserveStartEnd"
-              />
-              <YAxis 
-                domain={[minPrice - priceRange * 0.1, maxPrice + priceRange * 0.1]}
-                axisLine={false}
-                tickLine={false}
-                tick={{ fill: 'hsl(215, 20%, 55%)', fontSize: 10 }}
-                tickFormatter={(value) => `$${formatPrice(value)}`}
-                width={60}
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: 'hsl(220, 20%, 10%)',
-                  border: '1px solid hsl(220, 15%, 20%)',
-                  borderRadius: '8px',
-                  color: 'hsl(210, 40%, 98%)',
-                }}
-                formatter={(value: number) => [`$${formatPrice(value)}`, 'Price']}
-                labelStyle={{ color: 'hsl(215, 20%, 55%)' }}
-              />
-              <Area
-                type="monotone"
-                dataKey="price"
-                stroke={chartColor}
-                strokeWidth={2}
-                fillOpacity={1}
-                fill="url(#colorPrice)"
-              />
-            </AreaChart>
-          </ResponsiveContainer>
+          {loading && chartData.length === 0 ? (
+            <div className="h-full flex items-center justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : chartData.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center gap-2 text-center">
+              <AlertTriangle className="w-6 h-6 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">No candle data available</p>
+              {error && <p className="text-xs text-muted-foreground/70 max-w-xs">{error}</p>}
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <XAxis
+                  dataKey="time"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: 'hsl(215, 20%, 55%)', fontSize: 10 }}
+                  tickFormatter={(value: number) => formatTime(value, timeframe)}
+                  interval="preserveStartEnd"
+                  minTickGap={24}
+                />
+                <YAxis
+                  yAxisId="price"
+                  domain={[minPrice - priceRange * 0.1, maxPrice + priceRange * 0.1]}
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: 'hsl(215, 20%, 55%)', fontSize: 10 }}
+                  tickFormatter={(value) => `$${formatPrice(value)}`}
+                  width={60}
+                />
+                {/* Volume uses the bottom quarter of the chart */}
+                <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4]} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(220, 20%, 10%)',
+                    border: '1px solid hsl(220, 15%, 20%)',
+                    borderRadius: '8px',
+                    color: 'hsl(210, 40%, 98%)',
+                  }}
+                  labelStyle={{ color: 'hsl(215, 20%, 55%)' }}
+                  labelFormatter={(value: number) => formatTime(value, timeframe)}
+                  formatter={(value: number | [number, number], name: string, item: { payload?: ChartPoint }) => {
+                    if (name === 'volume') return [formatVolume(value as number), 'Volume'];
+                    const p = item.payload;
+                    if (!p) return [value, name];
+                    return [
+                      `O $${formatPrice(p.open)} H $${formatPrice(p.high)} L $${formatPrice(p.low)} C $${formatPrice(p.close)}`,
+                      'Price',
+                    ];
+                  }}
+                />
+                <Bar yAxisId="volume" dataKey="volume" fill="hsl(215, 20%, 55%)" fillOpacity={0.25} isAnimationActive={false} />
+                <Bar yAxisId="price" dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                {placedFills.map((fill) => (
+                  <ReferenceDot
+                    key={fill.id}
+                    yAxisId="price"
+                    x={fill.candleTime}
+                    y={fill.price}
+                    r={5}
+                    fill={fill.side === 'buy' ? BUY_COLOR : SELL_COLOR}
+                    stroke="hsl(220, 20%, 10%)"
+                    strokeWidth={2}
+                    label={{
+                      value: fill.side === 'buy' ? 'B' : 'S',
+                      position: fill.side === 'buy' ? 'bottom' : 'top',
+                      fill: fill.side === 'buy' ? BUY_COLOR : SELL_COLOR,
+                      fontSize: 10,
+                    }}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
         </div>
 
+        {placedFills.length > 0 && (
+          <div className="flex items-center gap-4 mt-2 text-[11px] text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: BUY_COLOR }} />
+              Bot buys ({placedFills.filter((f) => f.side === 'buy').length})
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SELL_COLOR }} />
+              Bot sells ({placedFills.filter((f) => f.side === 'sell').length})
+            </span>
+          </div>
+        )}
+
         {/* Price Stats */}
-        <div className="grid grid-cols-3 gap-4 mt-4 pt-4 border-t border-border/50">
+        <div className="grid grid-cols-4 gap-4 mt-4 pt-4 border-t border-border/50">
           <div className="text-center">
             <p className="text-xs text-muted-foreground">High</p>
             <p className="font-mono text-sm font-medium text-success">
@@ -159,6 +235,12 @@ export function TokenPriceChart({ token }: TokenPriceChartProps) {
               ${formatPrice(minPrice)}
             </p>
           </div>
+          <div className="text-center">
+            <p className="text-xs text-muted-foreground">Volume</p>
+            <p className="font-mono text-sm font-medium">
+              {formatVolume(totalVolume)}
+            </p>
+          </div>
           <div className="text-center">
             <p className="text-xs text-muted-foreground">Current</p>
             <p className="font-mono text-sm font-medium">
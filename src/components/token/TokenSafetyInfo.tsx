@@ -1,8 +1,9 @@
-import { Shield, AlertTriangle, Check, X, Info, Lock, Unlock, Users, Clock, Droplets } from 'lucide-react';
+import { Shield, AlertTriangle, Check, X, Info, Lock, Unlock, Users, Clock, Droplets, Network, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
+import type { HolderAnalysis } from '@shared/holder-clusters';
 
 interface TokenSafetyInfoProps {
   token: {
@@ -21,6 +22,8 @@ interface TokenSafetyInfoProps {
     canBuy?: boolean;
     canSell?: boolean;
   };
+  holderAnalysis?: HolderAnalysis | null;
+  holderAnalysisLoading?: boolean;
 }
 
 interface SafetyCheck {
@@ -30,7 +33,9 @@ interface SafetyCheck {
   icon: typeof Check;
 }
 
-export function TokenSafetyInfo({ token }: TokenSafetyInfoProps) {
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+export function TokenSafetyInfo({ token, holderAnalysis, holderAnalysisLoading }: TokenSafetyInfoProps) {
   const getRiskLevel = (score: number): { label: string; color: string; bgColor: string } => {
     if (score <= 30) return { label: 'Low Risk', color: 'text-success', bgColor: 'bg-success' };
     if (score <= 60) return { label: 'Medium Risk', color: 'text-warning', bgColor: 'bg-warning' };
@@ -68,7 +73,9 @@ export function TokenSafetyInfo({ token }: TokenSafetyInfoProps) {
     {
       label: 'Holder Distribution',
       status: token.holders > 100 ? 'pass' : token.holders > 30 ? 'warning' : 'fail',
-      description: `${token.holders.toLocaleString()} holders`,
+      description: holderAnalysis?.status === 'analyzed'
+        ? `${token.holders.toLocaleString()} holders · top holder ${holderAnalysis.topHolderPercent.toFixed(1)}%`
+        : `${token.holders.toLocaleString()} holders`,
       icon: Users,
     },
     {
@@ -87,6 +94,20 @@ export function TokenSafetyInfo({ token }: TokenSafetyInfoProps) {
     },
   ];
 
+  // Wallets funded by one source in one slot are effectively one holder
+  if (holderAnalysis?.status === 'analyzed') {
+    safetyChecks.push({
+      label: 'Bundled Wallets',
+      status: holderAnalysis.effectiveTopHolderPercent > 50
+        ? 'fail'
+        : holderAnalysis.clusters.length > 0 ? 'warning' : 'pass',
+      description: holderAnalysis.clusters.length > 0
+        ? `${holderAnalysis.clusters.length} funding cluster(s) · effective top holder ${holderAnalysis.effectiveTopHolderPercent.toFixed(1)}%`
+        : `No shared funding among top ${holderAnalysis.holdersAnalyzed} holders`,
+      icon: Network,
+    });
+  }
+
   const passedChecks = safetyChecks.filter(c => c.status === 'pass').length;
   const totalChecks = safetyChecks.length;
   const safetyScore = Math.round((passedChecks / totalChecks) * 100);
@@ -164,6 +185,41 @@ export function TokenSafetyInfo({ token }: TokenSafetyInfoProps) {
           </div>
         </div>
 
+        {/* Bundled wallet clusters */}
+        {holderAnalysisLoading && !holderAnalysis && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Tracing holder funding sources...
+          </div>
+        )}
+        {holderAnalysis?.status === 'analyzed' && holderAnalysis.clusters.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 font-medium">
+                  <Network className="w-4 h-4" />
+                  Wallet Clusters
+                </span>
+                <span className="text-muted-foreground">
+                  {holderAnalysis.clusteredPercent.toFixed(1)}% of supply
+                </span>
+              </div>
+              {holderAnalysis.clusters.slice(0, 5).map((cluster) => (
+                <div key={cluster.members[0]} className="p-3 rounded-lg bg-secondary/30 text-xs space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{cluster.members.length} wallets</span>
+                    <span className="font-mono">{cluster.percent.toFixed(1)}%</span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    Funded by {cluster.links.map((link) => `${shortAddress(link.funder)}${link.slot !== null ? ` (slot ${link.slot})` : ''}`).join(', ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
         {/* Safety Reasons from Scanner */}
         {token.safetyReasons && token.safetyReasons.length > 0 && (
           <>
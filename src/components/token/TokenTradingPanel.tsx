@@ -32,7 +32,7 @@ interface TokenTradingPanelProps {
 const QUICK_AMOUNTS = [0.1, 0.25, 0.5, 1.0, 2.0];
 
 export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
-  const { wallet, signAndSendTransaction } = useWallet();
+  const { wallet, signAndSendTransaction, signAllTransactions } = useWallet();
   const { mode, isDemo } = useAppMode();
   const { toast } = useToast();
   const { settings } = useSniperSettings();
@@ -447,6 +447,7 @@ export function TokenTradingPanel({ token }: TokenTradingPanelProps) {
           amountSol={parseFloat(buyAmount) || 0.1}
           walletAddress={wallet.address}
           signAndSend={handleSignAndSend}
+          signAll={signAllTransactions}
           onSuccess={handleTradeSuccess}
         />
       )}
@@ -0,0 +1,51 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { CurveEntryConfig } from "@shared/pump-curve";
+
+interface CurveEntrySettingsEditorProps {
+  config: CurveEntryConfig;
+  onChange: (config: CurveEntryConfig) => void;
+}
+
+const FIELDS: { key: Exclude<keyof CurveEntryConfig, 'enabled'>; label: string; hint: string; step: number }[] = [
+  { key: 'minProgress', label: 'Min progress %', hint: 'Skip brand-new curves', step: 1 },
+  { key: 'maxProgress', label: 'Max progress %', hint: 'Migration happens at 100%', step: 1 },
+  { key: 'maxBuyImpactPercent', label: 'Max buy impact %', hint: 'Includes the 1% curve fee', step: 0.5 },
+];
+
+export default function CurveEntrySettingsEditor({ config, onChange }: CurveEntrySettingsEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label className="text-sm font-medium">Buy on the bonding curve</Label>
+          <p className="text-xs text-muted-foreground">
+            Enters Pump.fun launches before they migrate to an AMM. Exits switch to the AMM automatically after migration.
+          </p>
+        </div>
+        <Switch checked={config.enabled} onCheckedChange={(enabled) => onChange({ ...config, enabled })} />
+      </div>
+
+      {config.enabled && (
+        <div className="grid grid-cols-3 gap-3">
+          {FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label className="text-xs text-muted-foreground">{field.label}</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step={field.step}
+                value={config[field.key]}
+                onChange={(e) => onChange({ ...config, [field.key]: Number(e.target.value) })}
+                className="h-8 text-sm tabular-nums"
+              />
+              <p className="text-[10px] text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Plus, X, AlertTriangle, Loader2 } from "lucide-react";
+import {
+  MAX_ENTRY_RULES,
+  RULE_FIELDS,
+  buildRuleContext,
+  evaluateRule,
+  parseRule,
+  type EntryRule,
+  type RuleContext,
+} from "@shared/rule-dsl";
+import type { RecentDiscovery } from "@/hooks/useRecentDiscoveries";
+
+interface EntryRulesEditorProps {
+  rules: EntryRule[];
+  onChange: (rules: EntryRule[]) => void;
+  // Recently scanned tokens used to preview how many each rule would let through
+  samples: RecentDiscovery[];
+  samplesLoading?: boolean;
+}
+
+const EXAMPLE_RULE = 'liquidity > 50 && buyerPosition <= 4 && !name.matches(/inu/i) && holders >= 30';
+
+interface RulePreview {
+  passed: number;
+  failed: number;
+  unknown: number;
+}
+
+export default function EntryRulesEditor({ rules, onChange, samples, samplesLoading }: EntryRulesEditorProps) {
+  const contexts = useMemo<RuleContext[]>(
+    () => samples.map((s) => buildRuleContext(s.token, s.discoveredAt)),
+    [samples]
+  );
+
+  const parsed = useMemo(() => rules.map((rule) => parseRule(rule.expression)), [rules]);
+
+  const previews = useMemo<(RulePreview | null)[]>(
+    () =>
+      parsed.map((result) => {
+        if (result.ok === false) return null;
+        const preview = { passed: 0, failed: 0, unknown: 0 };
+        for (const context of contexts) {
+          const { result: verdict } = evaluateRule(result.ast, context);
+          if (verdict === true) preview.passed++;
+          else if (verdict === false) preview.failed++;
+          else preview.unknown++;
+        }
+        return preview;
+      }),
+    [parsed, contexts]
+  );
+
+  // Tokens that would clear every enabled rule (unknown counts as a miss, like the bot)
+  const combinedMatches = useMemo(() => {
+    const active = parsed.filter((p, i) => rules[i].enabled && p.ok);
+    if (active.length === 0) return null;
+    return samples.filter((_, index) =>
+      active.every((p) => p.ok && evaluateRule(p.ast, contexts[index]).result === true)
+    );
+  }, [parsed, rules, samples, contexts]);
+
+  const updateRule = (index: number, patch: Partial<EntryRule>) => {
+    onChange(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const addRule = () => {
+    if (rules.length >= MAX_ENTRY_RULES) return;
+    onChange([...rules, { id: crypto.randomUUID(), expression: rules.length === 0 ? EXAMPLE_RULE : '', enabled: true }]);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {rules.length === 0 && (
+        <p className="text-xs text-muted-foreground py-2">
+          No custom rules - tokens only need to pass the built-in checks
+        </p>
+      )}
+
+      {rules.map((rule, index) => {
+        const result = parsed[index];
+        const preview = previews[index];
+        return (
+          <div key={rule.id} className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <Switch checked={rule.enabled} onCheckedChange={(checked) => updateRule(index, { enabled: checked })} />
+              <Input
+                value={rule.expression}
+                onChange={(e) => updateRule(index, { expression: e.target.value })}
+                placeholder={EXAMPLE_RULE}
+                spellCheck={false}
+                className={`h-8 font-mono text-xs ${result.ok ? '' : 'border-destructive/60'}`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                onClick={() => removeRule(index)}
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+
+            {result.ok === false ? (
+              <div className="ml-11 flex items-start gap-2 p-2 rounded-md bg-destructive/10 border border-destructive/20">
+                <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                <div className="min-w-0 text-xs text-destructive">
+                  <p>Column {result.error.position + 1}: {result.error.message}</p>
+                  {rule.expression && (
+                    <pre className="mt-1 font-mono text-[11px] leading-tight overflow-x-auto">
+                      {rule.expression}
+                      {'\n'}
+                      {' '.repeat(result.error.position)}
+                      {'^'.repeat(Math.max(1, result.error.length))}
+                    </pre>
+                  )}
+                </div>
+              </div>
+            ) : (
+              preview && contexts.length > 0 && (
+                <p className="ml-11 text-[11px] text-muted-foreground">
+                  Passes {preview.passed} of {contexts.length} recent tokens
+                  {preview.unknown > 0 && ` · ${preview.unknown} missing data (${result.fields.join(', ')})`}
+                </p>
+              )
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={addRule}
+        disabled={rules.length >= MAX_ENTRY_RULES}
+      >
+        <Plus className="w-3.5 h-3.5 mr-1" />
+        Add rule
+      </Button>
+
+      <div className="space-y-2 pt-2 border-t border-border/30">
+        <Label className="text-xs text-muted-foreground">Preview against recent scans</Label>
+        {samplesLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        ) : samples.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No scanned tokens yet - run the scanner to preview rules.</p>
+        ) : combinedMatches === null ? (
+          <p className="text-xs text-muted-foreground">Enable a valid rule to see which of the last {samples.length} tokens would pass.</p>
+        ) : (
+          <div className="space-y-1.5">
+            <p className="text-xs text-foreground">
+              {combinedMatches.length} of {samples.length} recent tokens pass all enabled rules
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {combinedMatches.slice(0, 12).map((s) => (
+                <Badge key={`${s.token.address}-${s.discoveredAt}`} variant="secondary" className="text-[10px] font-mono">
+                  {s.token.symbol}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Fields</Label>
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(RULE_FIELDS).map(([name, field]) => (
+            <Badge key={name} variant="outline" className="text-[10px] font-mono" title={`${field.description} (${field.type})`}>
+              {name}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Operators: && || ! == != &lt; &lt;= &gt; &gt;= + - * /. Text: .matches(/re/i), .includes('x'), .startsWith('x'), .endsWith('x').
+          Rules with missing data reject the token.
+        </p>
+      </div>
+    </div>
+  );
+}
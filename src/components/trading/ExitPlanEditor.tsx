@@ -0,0 +1,161 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, X, AlertTriangle } from "lucide-react";
+import {
+  DEFAULT_EXIT_PLAN,
+  MAX_EXIT_PLAN_TIERS,
+  describeExitPlan,
+  validateExitPlan,
+  type ExitPlan,
+  type ExitPlanTier,
+} from "@/lib/exitPlan";
+
+interface ExitPlanEditorProps {
+  plan: ExitPlan | null;
+  onChange: (plan: ExitPlan | null) => void;
+  // Shown when the plan is disabled (e.g. "Fixed TP +100% / SL -20%")
+  fallbackLabel?: string;
+}
+
+export default function ExitPlanEditor({ plan, onChange, fallbackLabel }: ExitPlanEditorProps) {
+  const enabled = plan !== null;
+  const validation = plan ? validateExitPlan(plan) : { valid: true, errors: [] };
+
+  const updateTier = (index: number, field: keyof ExitPlanTier, value: string) => {
+    if (!plan) return;
+    const tiers = plan.tiers.map((t, i) => (i === index ? { ...t, [field]: Number(value) } : t));
+    onChange({ ...plan, tiers });
+  };
+
+  const addTier = () => {
+    if (!plan || plan.tiers.length >= MAX_EXIT_PLAN_TIERS) return;
+    const lastGain = plan.tiers[plan.tiers.length - 1]?.gainPercent ?? 0;
+    onChange({ ...plan, tiers: [...plan.tiers, { gainPercent: lastGain + 100, sellPercent: 25 }] });
+  };
+
+  const removeTier = (index: number) => {
+    if (!plan) return;
+    onChange({ ...plan, tiers: plan.tiers.filter((_, i) => i !== index) });
+  };
+
+  const toggleTrailing = (checked: boolean) => {
+    if (!plan) return;
+    onChange({ ...plan, trailingStopPercent: checked ? DEFAULT_EXIT_PLAN.trailingStopPercent : null });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label className="text-sm font-medium">Use exit plan</Label>
+          <p className="text-xs text-muted-foreground">
+            {enabled ? describeExitPlan(plan) : (fallbackLabel || 'Fixed take-profit / stop-loss')}
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? { ...DEFAULT_EXIT_PLAN, tiers: [...DEFAULT_EXIT_PLAN.tiers] } : null)}
+        />
+      </div>
+
+      {plan && (
+        <>
+          {/* Take-profit ladder */}
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Take-profit ladder (% of original position)</Label>
+            {plan.tiers.length === 0 && (
+              <p className="text-xs text-muted-foreground py-2">No tiers - the trailing stop manages the whole position</p>
+            )}
+            {plan.tiers.map((tier, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground w-8 shrink-0">Sell</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={tier.sellPercent}
+                  onChange={(e) => updateTier(index, 'sellPercent', e.target.value)}
+                  className="h-8 w-20 text-sm tabular-nums"
+                />
+                <span className="text-xs text-muted-foreground shrink-0">% at +</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={tier.gainPercent}
+                  onChange={(e) => updateTier(index, 'gainPercent', e.target.value)}
+                  className="h-8 w-24 text-sm tabular-nums"
+                />
+                <span className="text-xs text-muted-foreground shrink-0">%</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 ml-auto text-muted-foreground hover:text-destructive"
+                  onClick={() => removeTier(index)}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={addTier}
+              disabled={plan.tiers.length >= MAX_EXIT_PLAN_TIERS}
+            >
+              <Plus className="w-3.5 h-3.5 mr-1" />
+              Add tier
+            </Button>
+          </div>
+
+          {/* Trailing stop */}
+          <div className="space-y-2 pt-2 border-t border-border/30">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Trailing stop on the rest</Label>
+              <Switch checked={plan.trailingStopPercent !== null} onCheckedChange={toggleTrailing} />
+            </div>
+            {plan.trailingStopPercent !== null && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-xs text-muted-foreground">Trail</span>
+                <Input
+                  type="number"
+                  min={1}
+                  max={99}
+                  value={plan.trailingStopPercent}
+                  onChange={(e) => onChange({ ...plan, trailingStopPercent: Number(e.target.value) })}
+                  className="h-8 w-20 text-sm tabular-nums"
+                />
+                <span className="text-xs text-muted-foreground">% below peak, once up +</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={plan.trailingActivationPercent}
+                  onChange={(e) => onChange({ ...plan, trailingActivationPercent: Number(e.target.value) })}
+                  className="h-8 w-20 text-sm tabular-nums"
+                />
+                <span className="text-xs text-muted-foreground">%</span>
+              </div>
+            )}
+          </div>
+
+          <p className="text-[11px] text-muted-foreground">
+            The stop-loss still applies from entry. The ladder replaces the fixed take-profit.
+          </p>
+
+          {!validation.valid && (
+            <div className="flex items-start gap-2 p-2 rounded-md bg-destructive/10 border border-destructive/20">
+              <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+              <ul className="text-xs text-destructive space-y-0.5">
+                {validation.errors.map((err) => (
+                  <li key={err}>{err}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { GuardianConfig } from "@shared/position-guardian";
+
+interface GuardianSettingsEditorProps {
+  config: GuardianConfig;
+  onChange: (config: GuardianConfig) => void;
+}
+
+const FIELDS: { key: Exclude<keyof GuardianConfig, 'enabled'>; label: string; hint: string; step: number }[] = [
+  { key: 'liquidityDropPercent', label: 'Liquidity drop %', hint: 'Pool value lost within the window', step: 1 },
+  { key: 'dropWindowSlots', label: 'Window (slots)', hint: '~0.4s per slot', step: 50 },
+  { key: 'devSellPercent', label: 'Dev sell % of supply', hint: 'Moved out of the creator wallet', step: 0.5 },
+  { key: 'holderDumpPercent', label: 'Holder dump % of supply', hint: 'Top holders combined', step: 1 },
+];
+
+export default function GuardianSettingsEditor({ config, onChange }: GuardianSettingsEditorProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label className="text-sm font-medium">Emergency exits</Label>
+          <p className="text-xs text-muted-foreground">
+            Sells the whole position, ignoring the stop loss, when the pool is pulled or insiders dump
+          </p>
+        </div>
+        <Switch checked={config.enabled} onCheckedChange={(enabled) => onChange({ ...config, enabled })} />
+      </div>
+
+      {config.enabled && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label className="text-xs text-muted-foreground">{field.label}</Label>
+              <Input
+                type="number"
+                min={0}
+                step={field.step}
+                value={config[field.key]}
+                onChange={(e) => onChange({ ...config, [field.key]: Number(e.target.value) })}
+                className="h-8 text-sm tabular-nums"
+              />
+              <p className="text-[10px] text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
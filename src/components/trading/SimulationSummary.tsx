@@ -0,0 +1,89 @@
+import { FlaskConical, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import {
+  SIMULATION_FAILURE_LABELS,
+  type SwapSimulationReport,
+} from '@shared/tx-simulation';
+
+interface SimulationSummaryProps {
+  simulation: SwapSimulationReport;
+  adjustedSlippageBps?: number | null;
+}
+
+/**
+ * Result of the pre-flight simulateTransaction run on the built swap
+ */
+export function SimulationSummary({ simulation, adjustedSlippageBps }: SimulationSummaryProps) {
+  const failed = simulation.status === 'failed' && simulation.failure;
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg p-3 space-y-2 text-sm border',
+        failed ? 'bg-destructive/10 border-destructive/30' :
+        simulation.status === 'ok' ? 'bg-green-500/10 border-green-500/30' :
+        'bg-muted/50 border-border'
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <FlaskConical className="h-4 w-4 text-muted-foreground" />
+        <span className="font-medium">Pre-flight simulation</span>
+        <span className="ml-auto flex items-center gap-1">
+          {failed ? (
+            <>
+              <XCircle className="h-4 w-4 text-destructive" />
+              <span className="text-destructive">{SIMULATION_FAILURE_LABELS[simulation.failure!.kind]}</span>
+            </>
+          ) : simulation.status === 'ok' ? (
+            <>
+              <CheckCircle2 className="h-4 w-4 text-green-500" />
+              <span className="text-green-500">Passed</span>
+            </>
+          ) : (
+            <>
+              <AlertTriangle className="h-4 w-4 text-yellow-500" />
+              <span className="text-yellow-500">Unavailable</span>
+            </>
+          )}
+        </span>
+      </div>
+
+      {simulation.unitsConsumed !== null && (
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Compute units</span>
+          <span className="font-mono">{simulation.unitsConsumed.toLocaleString()}</span>
+        </div>
+      )}
+
+      {adjustedSlippageBps != null && (
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Slippage auto-raised to</span>
+          <Badge variant="outline" className="font-mono text-[10px] text-yellow-500 border-yellow-500/40">
+            {(adjustedSlippageBps / 100).toFixed(1)}%
+          </Badge>
+        </div>
+      )}
+
+      {failed && (
+        <>
+          <p className="text-xs text-destructive">
+            {simulation.failure!.message}
+            {simulation.failure!.programError && (
+              <span className="font-mono"> ({simulation.failure!.programError})</span>
+            )}
+          </p>
+          {simulation.failure!.logExcerpt.length > 0 && (
+            <pre className="text-[10px] leading-tight font-mono text-muted-foreground whitespace-pre-wrap break-all max-h-24 overflow-y-auto">
+              {simulation.failure!.logExcerpt.join('\n')}
+            </pre>
+          )}
+        </>
+      )}
+
+      {simulation.status === 'unavailable' && simulation.error && (
+        <p className="text-xs text-muted-foreground">RPC could not simulate: {simulation.error}</p>
+      )}
+    </div>
+  );
+}
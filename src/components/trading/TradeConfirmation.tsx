@@ -15,12 +15,14 @@ import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { TransactionStatus } from './TransactionStatus';
+import { SimulationSummary } from './SimulationSummary';
 import { 
   useTradeExecution, 
   SOL_MINT,
   type TradeParams,
   type PriorityLevel,
   type TransactionStatus as TxStatus,
+  type SignAllTransactions,
 } from '@/hooks/useTradeExecution';
 
 interface TradeConfirmationProps {
@@ -32,6 +34,7 @@ interface TradeConfirmationProps {
   amountSol: number;
   walletAddress: string;
   signAndSend: (transaction: VersionedTransaction) => Promise<{ signature: string; success: boolean; error?: string }>;
+  signAll?: SignAllTransactions; // Enables Jito bundle submission when configured
   onSuccess?: (result: { signature: string; positionId?: string }) => void;
 }
 
@@ -51,6 +54,7 @@ export function TradeConfirmation({
   amountSol,
   walletAddress,
   signAndSend,
+  signAll,
   onSuccess,
 }: TradeConfirmationProps) {
   const [slippageBps, setSlippageBps] = useState(100); // 1%
@@ -63,6 +67,9 @@ export function TradeConfirmation({
     currentQuote,
     error,
     txSignature,
+    bundleStatus,
+    simulation,
+    adjustedSlippageBps,
     isDemo,
     executeTrade,
     reset,
@@ -84,7 +91,7 @@ export function TradeConfirmation({
       stopLossPercent: stopLoss,
     };
 
-    const result = await executeTrade(params, walletAddress, signAndSend);
+    const result = await executeTrade(params, walletAddress, signAndSend, signAll);
 
     if (result.success && onSuccess) {
       onSuccess({
@@ -124,12 +131,18 @@ export function TradeConfirmation({
             quote={currentQuote}
             signature={txSignature}
             error={error}
+            bundle={bundleStatus}
             tokenSymbol={tokenSymbol}
             onRetry={handleExecute}
             onClose={handleClose}
           />
         )}
 
+        {/* Pre-flight simulation verdict (blocked trades never reach the wallet) */}
+        {status !== 'idle' && simulation && (
+          <SimulationSummary simulation={simulation} adjustedSlippageBps={adjustedSlippageBps} />
+        )}
+
         {/* Show configuration when idle */}
         {status === 'idle' && (
           <div className="space-y-6">
@@ -9,9 +9,14 @@ import {
   LayoutDashboard,
   Briefcase,
   Shield,
+  FlaskConical,
   Settings,
   Crown,
   BarChart3,
+  Users,
+  ScrollText,
+  Server,
+  LineChart,
 } from "lucide-react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
@@ -64,7 +69,12 @@ const TradingHeader = forwardRef<HTMLElement, TradingHeaderProps>(function Tradi
       { label: "Dashboard", path: "/", icon: LayoutDashboard },
       { label: "Token Scanner", path: "/scanner", icon: Zap },
       { label: "Portfolio", path: "/portfolio", icon: Briefcase },
+      { label: "Performance", path: "/portfolio/analytics", icon: LineChart },
       { label: "Risk", path: "/risk", icon: Shield },
+      { label: "Backtest", path: "/backtest", icon: FlaskConical },
+      { label: "Copy", path: "/copy-trading", icon: Users },
+      { label: "Logs", path: "/bot-logs", icon: ScrollText },
+      { label: "Runner", path: "/bot-runner", icon: Server },
       { label: "Settings", path: "/sniper-settings", icon: Settings },
     ];
 
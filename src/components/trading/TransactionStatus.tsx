@@ -9,19 +9,22 @@ import {
   Wallet,
   Search,
   Zap,
-  RefreshCw
+  RefreshCw,
+  Layers
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import type { TransactionStatus as TxStatus, TradeQuote } from '@/hooks/useTradeExecution';
+import type { BundleStatusResult } from '@shared/jito-bundle';
 
 interface TransactionStatusProps {
   status: TxStatus;
   quote?: TradeQuote | null;
   signature?: string | null;
   error?: string | null;
+  bundle?: BundleStatusResult | null;
   tokenSymbol?: string;
   onRetry?: () => void;
   onClose?: () => void;
@@ -63,6 +66,18 @@ const STATUS_CONFIG: Record<TxStatus, {
     color: 'text-primary',
     progress: 70,
   },
+  bundling: {
+    label: 'Approve swap + tip bundle in wallet',
+    icon: Layers,
+    color: 'text-yellow-500',
+    progress: 55,
+  },
+  bundle_pending: {
+    label: 'Waiting for bundle to land...',
+    icon: Loader2,
+    color: 'text-primary',
+    progress: 75,
+  },
   confirming: {
     label: 'Confirming transaction...',
     icon: Loader2,
@@ -94,6 +109,7 @@ export function TransactionStatus({
   quote,
   signature,
   error,
+  bundle,
   tokenSymbol = 'TOKEN',
   onRetry,
   onClose,
@@ -139,7 +155,7 @@ export function TransactionStatus({
               className={cn(
                 'h-6 w-6',
                 config.color,
-                isLoading && status !== 'awaiting_signature' && 'animate-spin'
+                isLoading && status !== 'awaiting_signature' && status !== 'bundling' && 'animate-spin'
               )} 
             />
           </div>
@@ -200,8 +216,44 @@ export function TransactionStatus({
           </div>
         )}
 
+        {/* Jito Bundle */}
+        {bundle && (
+          <div className="bg-muted/50 rounded-lg p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Bundle</span>
+              <a
+                href={`https://explorer.jito.wtf/bundle/${bundle.bundleId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 font-mono text-xs text-primary hover:underline"
+              >
+                {bundle.bundleId.slice(0, 8)}...{bundle.bundleId.slice(-6)}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Status</span>
+              <span className={cn(
+                'font-mono capitalize',
+                bundle.status === 'landed' ? 'text-green-500' :
+                bundle.status === 'pending' ? 'text-yellow-500' :
+                'text-destructive'
+              )}>
+                {bundle.status}
+                {bundle.confirmationStatus && ` · ${bundle.confirmationStatus}`}
+              </span>
+            </div>
+            {bundle.slot !== null && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Slot</span>
+                <span className="font-mono">{bundle.slot.toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Wallet Prompt */}
-        {status === 'awaiting_signature' && (
+        {(status === 'awaiting_signature' || status === 'bundling') && (
           <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 text-center">
             <p className="text-sm text-yellow-600 dark:text-yellow-400">
               Please check your wallet extension and approve the transaction
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTradingWallets, type TradingWalletInput } from "@/hooks/useTradingWallets";
+import {
+  WALLET_STRATEGY_LABELS,
+  getWalletUsage,
+  type WalletPositionRecord,
+  type WalletStrategy,
+} from "@/lib/walletAllocation";
+import { isValidSolanaAddress } from "@/lib/sniperValidation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Wallet, Plus, Trash2, Link2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const EMPTY_FORM: TradingWalletInput = {
+  address: "",
+  label: "",
+  budget_sol: 1,
+  max_open_positions: 5,
+  strategy: "any",
+};
+
+const STRATEGIES = Object.keys(WALLET_STRATEGY_LABELS) as WalletStrategy[];
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+/**
+ * Registry of the wallets the bot may trade from. New positions are opened from a wallet
+ * whose strategy, budget and position cap allow it; exits sign from the opening wallet.
+ */
+export function TradingWalletsManager() {
+  const { user } = useAuth();
+  const { wallets, loading, signableAddresses, addWallet, updateWallet, removeWallet, linkWallet } = useTradingWallets();
+  const [form, setForm] = useState<TradingWalletInput>(EMPTY_FORM);
+  const [adding, setAdding] = useState(false);
+  const [openPositions, setOpenPositions] = useState<WalletPositionRecord[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("positions")
+      .select("token_address, status, wallet_address, entry_sol")
+      .eq("user_id", user.id)
+      .in("status", ["open", "pending", "waiting_for_liquidity"])
+      .then(({ data }) => setOpenPositions((data as WalletPositionRecord[]) || []));
+  }, [user, wallets.length]);
+
+  const unregistered = signableAddresses.filter((a) => !wallets.some((w) => w.address === a));
+
+  const handleAdd = async () => {
+    const address = form.address.trim();
+    if (!isValidSolanaAddress(address)) {
+      toast.error("Invalid Solana wallet address");
+      return;
+    }
+    if (!(form.budget_sol > 0)) {
+      toast.error("Budget must be greater than 0 SOL");
+      return;
+    }
+    if (!(form.max_open_positions >= 1)) {
+      toast.error("Allow at least one open position");
+      return;
+    }
+
+    setAdding(true);
+    const created = await addWallet({ ...form, address, label: form.label?.trim() || null });
+    setAdding(false);
+    if (created) setForm(EMPTY_FORM);
+  };
+
+  return (
+    <div className="glass rounded-xl p-5 mb-6">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold text-foreground">Trading Wallets</h2>
+        </div>
+        <div className="flex gap-1.5">
+          {(["phantom", "solflare", "backpack"] as const).map((type) => (
+            <Button key={type} variant="outline" size="sm" className="h-7 text-xs capitalize" onClick={() => linkWallet(type)}>
+              <Link2 className="w-3 h-3 mr-1" />
+              {type}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Split risk across wallets. Each extension you connect can sign on its own; positions always exit from the wallet that opened them.
+        With no wallets registered, the bot trades from your connected wallet.
+      </p>
+
+      {/* Add wallet */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end mb-4">
+        <div className="col-span-2 space-y-1">
+          <Label className="text-xs text-muted-foreground">Address</Label>
+          <Input
+            value={form.address}
+            onChange={(e) => setForm({ ...form, address: e.target.value })}
+            placeholder="Wallet address..."
+            className="h-9 font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Label</Label>
+          <Input
+            value={form.label ?? ""}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            placeholder="Optional"
+            className="h-9 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Budget (SOL)</Label>
+          <Input
+            type="number"
+            step="0.1"
+            min={0}
+            value={form.budget_sol}
+            onChange={(e) => setForm({ ...form, budget_sol: Number(e.target.value) })}
+            className="h-9 tabular-nums"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Max positions</Label>
+          <Input
+            type="number"
+            min={1}
+            value={form.max_open_positions}
+            onChange={(e) => setForm({ ...form, max_open_positions: Math.floor(Number(e.target.value)) })}
+            className="h-9 tabular-nums"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Strategy</Label>
+          <Select value={form.strategy} onValueChange={(value) => setForm({ ...form, strategy: value as WalletStrategy })}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STRATEGIES.map((s) => (
+                <SelectItem key={s} value={s}>{WALLET_STRATEGY_LABELS[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Button size="sm" onClick={handleAdd} disabled={adding || !form.address.trim()}>
+          {adding ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          Add wallet
+        </Button>
+        {unregistered.map((address) => (
+          <Button
+            key={address}
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs font-mono"
+            onClick={() => setForm({ ...form, address })}
+          >
+            Use connected {shortAddress(address)}
+          </Button>
+        ))}
+      </div>
+
+      {/* Registered wallets */}
+      <div className="space-y-2">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : wallets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No trading wallets registered</p>
+        ) : (
+          wallets.map((w) => {
+            const usage = getWalletUsage(w, openPositions);
+            const signable = signableAddresses.includes(w.address);
+            return (
+              <div key={w.id} className="p-3 rounded-lg border border-border/50 bg-secondary/20 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-sm">{w.label || shortAddress(w.address)}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{shortAddress(w.address)}</span>
+                  <Badge
+                    variant="outline"
+                    className={cn("text-[10px]", signable ? "text-success border-success/40" : "text-muted-foreground")}
+                  >
+                    {signable ? "Connected" : "Not connected"}
+                  </Badge>
+                  <div className="ml-auto flex items-center gap-2">
+                    <Select
+                      value={w.strategy}
+                      onValueChange={(value) => updateWallet(w.id, { strategy: value as WalletStrategy })}
+                    >
+                      <SelectTrigger className="h-7 w-[140px] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STRATEGIES.map((s) => (
+                          <SelectItem key={s} value={s}>{WALLET_STRATEGY_LABELS[s]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Switch checked={w.is_active} onCheckedChange={(checked) => updateWallet(w.id, { is_active: checked })} />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeWallet(w.id)}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <Progress value={Math.min(100, (usage.deployedSol / w.budget_sol) * 100)} className="h-1.5 flex-1" />
+                  <span className="tabular-nums whitespace-nowrap">
+                    {usage.deployedSol.toFixed(3)} / {w.budget_sol} SOL
+                  </span>
+                  <span className="tabular-nums whitespace-nowrap">
+                    {usage.openPositions}/{w.max_open_positions} positions
+                  </span>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TradingWalletsManager;
@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, ReactNode, useCallback, useEffect, useRef } from 'react';
 import { useAppMode } from './AppModeContext';
+import { supabase } from '@/integrations/supabase/client';
 
 // Demo position matching the real Position interface
 export interface DemoPosition {
@@ -25,6 +26,8 @@ export interface DemoPosition {
   created_at: string;
   updated_at: string;
   closed_at: string | null;
+  // Server-side paper position this demo position was filled into, if any
+  paper_position_id?: string | null;
 }
 
 interface PortfolioData {
@@ -300,6 +303,16 @@ export function DemoPortfolioProvider({ children }: { children: ReactNode }) {
   }, []);
   
   const closeDemoPosition = useCallback((id: string, exitPrice: number, exitReason: string) => {
+    // The paper ledger closes against a real sell quote, so it stays comparable with live trades
+    const paperPositionId = demoPositions.find(p => p.id === id)?.paper_position_id;
+    if (paperPositionId) {
+      supabase.functions
+        .invoke('trade-execution', { body: { action: 'paper_sell', positionId: paperPositionId, exitReason } })
+        .then(({ error }) => {
+          if (error) console.error('Failed to close paper position:', error);
+        });
+    }
+
     setDemoPositions(prev => prev.map(p => {
       if (p.id === id) {
         const currentValue = p.amount * exitPrice;
@@ -322,7 +335,7 @@ export function DemoPortfolioProvider({ children }: { children: ReactNode }) {
       return p;
     }));
     takeSnapshot(); // Take snapshot on trade close
-  }, [takeSnapshot]);
+  }, [demoPositions, takeSnapshot]);
   
   const getCurrentPortfolioData = useCallback(() => {
     return portfolioHistory[selectedPeriod] || portfolioHistory['24H'];
@@ -173,6 +173,36 @@ export function useApiSecrets() {
     }
   };
 
+  // Re-encrypt every stored key under the active master key (also upgrades legacy values)
+  const rotateEncryption = async (): Promise<{ success: boolean; message: string }> => {
+    if (!isAdmin) return { success: false, message: 'Admin access required' };
+
+    try {
+      const { data, error } = await supabase.functions.invoke('api-secrets', {
+        body: { action: 'rotate_encryption' },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: data.success ? 'API Keys Re-encrypted' : 'Rotation Incomplete',
+        description: data.message,
+        variant: data.success ? 'default' : 'destructive',
+      });
+
+      return { success: data.success, message: data.message };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Rotation failed';
+      console.error('Error rotating API key encryption:', error);
+      toast({
+        title: 'Error rotating API key encryption',
+        description: message,
+        variant: 'destructive',
+      });
+      return { success: false, message };
+    }
+  };
+
   const listRequiredSecrets = async () => {
     if (!isAdmin) return [];
 
@@ -202,6 +232,7 @@ export function useApiSecrets() {
     validateAllSecrets,
     saveApiKey,
     deleteApiKey,
+    rotateEncryption,
     listRequiredSecrets,
   };
 }
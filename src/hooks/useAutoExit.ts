@@ -2,27 +2,45 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useNotifications } from '@/hooks/useNotifications';
-import { useWallet } from '@/hooks/useWallet';
+import { useWallet, getSignableSolanaAddresses, getSolanaProviderForAddress } from '@/hooks/useWallet';
 import { addBotLog } from '@/components/scanner/BotActivityLog';
 import { fetchJupiterQuote } from '@/lib/jupiterQuote';
-import { acquireSellLock, releaseSellLock, isSellLocked } from '@/lib/sellLock';
+import { sendSwapAsBundle } from '@/lib/jitoBundle';
+import { simulateSwap } from '@/lib/swapSimulation';
+import { acquireSellLock, releaseSellLock, holdsSellLock, type SellLease } from '@/lib/sellLock';
+import { getExitActionLabel, type ExitAction } from '@/lib/exitPlan';
+import { isGuardianExitReason } from '@shared/position-guardian';
+import type { ExitRoute } from '@shared/pump-curve';
+import { formatSimulationFailure } from '@shared/tx-simulation';
 export interface ExitResult {
   positionId: string;
   symbol: string;
-  action: 'hold' | 'take_profit' | 'stop_loss';
+  action: ExitAction;
+  // What the position guardian saw, for emergency exits
+  guardianDetail?: string;
   currentPrice: number;
   profitLossPercent: number;
+  // Fraction of the remaining balance to sell (ladder rungs < 1, full exits = 1)
+  sellFraction?: number;
+  tierIndexes?: number[];
   executed: boolean;
   txId?: string;
   error?: string;
   pendingSignature?: boolean;
+  // Slippage the server's pre-flight simulation passed at
+  slippageBps?: number;
+  // pump_curve = sell into the Pump.fun bonding curve instead of an AMM
+  exitRoute?: ExitRoute;
 }
 
 export interface AutoExitSummary {
   total: number;
   holding: number;
   takeProfitTriggered: number;
+  partialTakeProfitTriggered?: number;
+  trailingStopTriggered?: number;
   stopLossTriggered: number;
+  emergencyTriggered?: number;
   executed: number;
 }
 
@@ -35,20 +53,12 @@ export function useAutoExit() {
   const isRunningRef = useRef(false);
   const { toast } = useToast();
   const { addNotification } = useNotifications();
-  const { wallet, signAndSendTransaction, refreshBalance } = useWallet();
+  const { wallet, signAndSendTransactionAs, signAllTransactionsAs, refreshBalance } = useWallet();
 
   // Execute a single pending exit via Jupiter
   const executePendingExit = useCallback(async (result: ExitResult): Promise<boolean> => {
-    if (!wallet.isConnected || !wallet.address) {
-      toast({
-        title: 'Wallet Not Connected',
-        description: 'Connect wallet to execute auto-exit',
-        variant: 'destructive',
-      });
-      return false;
-    }
-
-    const actionLabel = result.action === 'take_profit' ? '💰 TAKE PROFIT' : '🛑 STOP LOSS';
+    const actionLabel = getExitActionLabel(result.action);
+    const isPartial = result.action === 'partial_take_profit' && (result.sellFraction ?? 1) < 1;
     // Note: At this point we don't have position details yet, so we use symbol
     // Full token name will be logged after DB fetch
     addBotLog({
@@ -56,9 +66,11 @@ export function useAutoExit() {
       category: 'exit',
       message: `${actionLabel} triggered: ${result.symbol}`,
       tokenSymbol: result.symbol,
-      details: `🪙 Token: ${result.symbol}\nCurrent P&L: ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(2)}% | Price: $${result.currentPrice.toFixed(8)}`,
+      details: `🪙 Token: ${result.symbol}\nCurrent P&L: ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(2)}% | Price: $${result.currentPrice.toFixed(8)}` +
+        (result.guardianDetail ? `\n🚨 ${result.guardianDetail}` : ''),
     });
 
+    let lease: SellLease | null = null;
     try {
       // Get the position details from DB
       const { data: position, error: posError } = await supabase
@@ -72,14 +84,37 @@ export function useAutoExit() {
         return false;
       }
 
+      // Exits always sign from the wallet that opened the position
+      const ownerAddress = position.wallet_address || wallet.address;
+      if (!ownerAddress) {
+        toast({
+          title: 'Wallet Not Connected',
+          description: 'Connect wallet to execute auto-exit',
+          variant: 'destructive',
+        });
+        return false;
+      }
+      if (ownerAddress !== wallet.address && !getSolanaProviderForAddress(ownerAddress)) {
+        addBotLog({
+          level: 'warning',
+          category: 'exit',
+          message: `👛 Exit waiting for wallet: ${result.symbol}`,
+          tokenSymbol: result.symbol,
+          tokenAddress: position.token_address,
+          details: `Position was opened from ${ownerAddress.slice(0, 4)}...${ownerAddress.slice(-4)}, which is not connected.\nConnect that wallet to let the exit go through.`,
+        });
+        return false;
+      }
+
       // CRITICAL: Acquire sell lock to prevent duplicate transactions
-      if (!acquireSellLock(position.token_address, 'auto_exit')) {
+      lease = await acquireSellLock(position, 'auto_exit');
+      if (!lease) {
         addBotLog({
           level: 'warning',
           category: 'exit',
           message: `⏳ Sell already in progress: ${result.symbol}`,
           tokenSymbol: result.symbol,
-          details: 'Another sell transaction is being processed. Skipping duplicate.',
+          details: 'Another tab, device or the server is selling this position. Skipping duplicate.',
         });
         return false;
       }
@@ -98,7 +133,7 @@ export function useAutoExit() {
       let tokenDecimals = 6;
       try {
         const { data: meta, error: metaError } = await supabase.functions.invoke('token-metadata', {
-          body: { mint: position.token_address, owner: wallet.address },
+          body: { mint: position.token_address, owner: ownerAddress },
         });
         const bal = Number((meta as any)?.balanceUi);
         const dec = Number((meta as any)?.decimals);
@@ -117,169 +152,236 @@ export function useAutoExit() {
         return false;
       }
 
+      // Ladder rungs only sell a slice of the current balance
+      const balanceBeforeSell = tokenAmountToSell;
+      if (isPartial) {
+        tokenAmountToSell = balanceBeforeSell * (result.sellFraction as number);
+      }
+
       const amountInSmallestUnit = toBaseUnits(tokenAmountToSell, tokenDecimals);
       
       // Get Jupiter quote with automatic retry on rate limits
       // Exit slippage is intentionally higher (15%) to ensure positions can close
-      const EXIT_SLIPPAGE_BPS = 1500; // 15% - higher for exits to ensure execution
+      // If the server had to raise it for the sell to simulate cleanly, start from there
+      const EXIT_SLIPPAGE_BPS = Math.max(1500, result.slippageBps ?? 0); // 15% - higher for exits to ensure execution
       
-      let quote: any = null;
-      let swapSource: 'jupiter' | 'raydium' = 'jupiter';
-      
-      // Try Jupiter first
-      const quoteResult = await fetchJupiterQuote({
-        inputMint: position.token_address,
-        outputMint: SOL_MINT,
-        amount: amountInSmallestUnit,
-        slippageBps: EXIT_SLIPPAGE_BPS,
-      });
-
-      if (quoteResult.ok === true) {
-        quote = quoteResult.quote;
-        swapSource = 'jupiter';
-      } else {
-        // Jupiter failed - try Raydium as fallback
-        addBotLog({
-          level: 'info',
-          category: 'exit',
-          message: `⚡ Jupiter unavailable for ${result.symbol}, trying Raydium...`,
-          tokenSymbol: result.symbol,
-          details: quoteResult.kind === 'RATE_LIMITED' ? 'Jupiter rate limited' : 'No Jupiter route',
-        });
-        
-        try {
-          const raydiumUrl = `https://transaction-v1.raydium.io/compute/swap-base-in?inputMint=${position.token_address}&outputMint=${SOL_MINT}&amount=${amountInSmallestUnit}&slippageBps=${EXIT_SLIPPAGE_BPS}&txVersion=V0`;
-          const raydiumRes = await fetch(raydiumUrl, { signal: AbortSignal.timeout(10000) });
-          
-          if (raydiumRes.ok) {
-            const raydiumData = await raydiumRes.json();
-            if (raydiumData?.success) {
-              quote = raydiumData;
-              swapSource = 'raydium';
-              addBotLog({
-                level: 'success',
-                category: 'exit',
-                message: `✅ Raydium route found for ${result.symbol}`,
-                tokenSymbol: result.symbol,
-              });
-            }
-          }
-        } catch (raydiumErr) {
-          console.error('[AutoExit] Raydium fallback error:', raydiumErr);
-        }
-      }
-      
-      // If still no quote, report failure
-      if (!quote) {
-        if (quoteResult.ok === false) {
-          if (quoteResult.kind === 'NO_ROUTE') {
-            toast({
-              title: 'No Route Available',
-              description: `Cannot sell ${result.symbol} - no Jupiter or Raydium route`,
-              variant: 'destructive',
-            });
-          } else if (quoteResult.kind === 'RATE_LIMITED') {
-            toast({
-              title: 'Rate Limited',
-              description: 'Jupiter API is busy. Auto-retry in next cycle.',
-              variant: 'destructive',
-            });
-          } else {
-            toast({
-              title: 'Exit Failed',
-              description: quoteResult.message || 'Could not get quote for sell',
-              variant: 'destructive',
-            });
-          }
-        }
-        return false;
-      }
-
       // Build swap transaction based on source
       let txBytes: Uint8Array;
-      
-      if (swapSource === 'jupiter') {
-        // Jupiter swap
-        const swapRes = await fetch('https://lite-api.jup.ag/swap/v1/swap', {
+
+      if (result.exitRoute === 'pump_curve') {
+        // Still on its Pump.fun bonding curve - no AMM route exists yet, sell into the curve
+        const curveRes = await fetch('https://pumpportal.fun/api/trade-local', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            quoteResponse: quote,
-            userPublicKey: wallet.address,
-            wrapAndUnwrapSol: true,
-            dynamicComputeUnitLimit: true,
-            dynamicSlippage: true,
-            priorityLevelWithMaxLamports: { maxLamports: 5000000, priorityLevel: 'high' },
+            publicKey: ownerAddress,
+            action: 'sell',
+            mint: position.token_address,
+            amount: tokenAmountToSell,
+            denominatedInSol: 'false',
+            slippage: EXIT_SLIPPAGE_BPS / 100,
+            priorityFee: 0.0005,
+            pool: 'pump',
           }),
+          signal: AbortSignal.timeout(10000),
         });
 
-        if (!swapRes.ok) {
-          releaseSellLock(position.token_address);
+        if (!curveRes.ok) {
           toast({
             title: 'Swap Build Failed',
-            description: 'Could not build Jupiter swap transaction',
+            description: 'Could not build Pump.fun curve sell transaction',
             variant: 'destructive',
           });
           return false;
         }
 
-        const swapData = await swapRes.json();
-        
-        if (!swapData.swapTransaction) {
-          releaseSellLock(position.token_address);
-          toast({
-            title: 'Transaction Error',
-            description: 'Jupiter did not return transaction data',
-            variant: 'destructive',
-          });
-          return false;
-        }
-        
-        txBytes = Uint8Array.from(atob(swapData.swapTransaction), c => c.charCodeAt(0));
+        txBytes = new Uint8Array(await curveRes.arrayBuffer());
       } else {
-        // Raydium swap
-        const swapRes = await fetch('https://transaction-v1.raydium.io/transaction/swap-base-in', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            swapResponse: quote,
-            wallet: wallet.address,
-            txVersion: 'V0',
-            wrapSol: false,
-            unwrapSol: true,
-            computeUnitPriceMicroLamports: '500000',
-          }),
+        let quote: any = null;
+        let swapSource: 'jupiter' | 'raydium' = 'jupiter';
+      
+        // Try Jupiter first
+        const quoteResult = await fetchJupiterQuote({
+          inputMint: position.token_address,
+          outputMint: SOL_MINT,
+          amount: amountInSmallestUnit,
+          slippageBps: EXIT_SLIPPAGE_BPS,
         });
 
-        if (!swapRes.ok) {
-          toast({
-            title: 'Swap Build Failed',
-            description: 'Could not build Raydium swap transaction',
-            variant: 'destructive',
+        if (quoteResult.ok === true) {
+          quote = quoteResult.quote;
+          swapSource = 'jupiter';
+        } else {
+          // Jupiter failed - try Raydium as fallback
+          addBotLog({
+            level: 'info',
+            category: 'exit',
+            message: `⚡ Jupiter unavailable for ${result.symbol}, trying Raydium...`,
+            tokenSymbol: result.symbol,
+            details: quoteResult.kind === 'RATE_LIMITED' ? 'Jupiter rate limited' : 'No Jupiter route',
           });
+        
+          try {
+            const raydiumUrl = `https://transaction-v1.raydium.io/compute/swap-base-in?inputMint=${position.token_address}&outputMint=${SOL_MINT}&amount=${amountInSmallestUnit}&slippageBps=${EXIT_SLIPPAGE_BPS}&txVersion=V0`;
+            const raydiumRes = await fetch(raydiumUrl, { signal: AbortSignal.timeout(10000) });
+          
+            if (raydiumRes.ok) {
+              const raydiumData = await raydiumRes.json();
+              if (raydiumData?.success) {
+                quote = raydiumData;
+                swapSource = 'raydium';
+                addBotLog({
+                  level: 'success',
+                  category: 'exit',
+                  message: `✅ Raydium route found for ${result.symbol}`,
+                  tokenSymbol: result.symbol,
+                });
+              }
+            }
+          } catch (raydiumErr) {
+            console.error('[AutoExit] Raydium fallback error:', raydiumErr);
+          }
+        }
+      
+        // If still no quote, report failure
+        if (!quote) {
+          if (quoteResult.ok === false) {
+            if (quoteResult.kind === 'NO_ROUTE') {
+              toast({
+                title: 'No Route Available',
+                description: `Cannot sell ${result.symbol} - no Jupiter or Raydium route`,
+                variant: 'destructive',
+              });
+            } else if (quoteResult.kind === 'RATE_LIMITED') {
+              toast({
+                title: 'Rate Limited',
+                description: 'Jupiter API is busy. Auto-retry in next cycle.',
+                variant: 'destructive',
+              });
+            } else {
+              toast({
+                title: 'Exit Failed',
+                description: quoteResult.message || 'Could not get quote for sell',
+                variant: 'destructive',
+              });
+            }
+          }
           return false;
         }
 
-        const swapData = await swapRes.json();
+      
+        if (swapSource === 'jupiter') {
+          // Jupiter swap
+          const swapRes = await fetch('https://lite-api.jup.ag/swap/v1/swap', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              quoteResponse: quote,
+              userPublicKey: ownerAddress,
+              wrapAndUnwrapSol: true,
+              dynamicComputeUnitLimit: true,
+              dynamicSlippage: true,
+              priorityLevelWithMaxLamports: { maxLamports: 5000000, priorityLevel: 'high' },
+            }),
+          });
+
+          if (!swapRes.ok) {
+            toast({
+              title: 'Swap Build Failed',
+              description: 'Could not build Jupiter swap transaction',
+              variant: 'destructive',
+            });
+            return false;
+          }
+
+          const swapData = await swapRes.json();
         
-        if (!swapData.success || !swapData.data?.transaction) {
-          toast({
-            title: 'Transaction Error',
-            description: swapData.msg || 'Raydium did not return transaction data',
-            variant: 'destructive',
+          if (!swapData.swapTransaction) {
+            toast({
+              title: 'Transaction Error',
+              description: 'Jupiter did not return transaction data',
+              variant: 'destructive',
+            });
+            return false;
+          }
+        
+          txBytes = Uint8Array.from(atob(swapData.swapTransaction), c => c.charCodeAt(0));
+        } else {
+          // Raydium swap
+          const swapRes = await fetch('https://transaction-v1.raydium.io/transaction/swap-base-in', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              swapResponse: quote,
+              wallet: ownerAddress,
+              txVersion: 'V0',
+              wrapSol: false,
+              unwrapSol: true,
+              computeUnitPriceMicroLamports: '500000',
+            }),
           });
-          return false;
-        }
+
+          if (!swapRes.ok) {
+            toast({
+              title: 'Swap Build Failed',
+              description: 'Could not build Raydium swap transaction',
+              variant: 'destructive',
+            });
+            return false;
+          }
+
+          const swapData = await swapRes.json();
+        
+          if (!swapData.success || !swapData.data?.transaction) {
+            toast({
+              title: 'Transaction Error',
+              description: swapData.msg || 'Raydium did not return transaction data',
+              variant: 'destructive',
+            });
+            return false;
+          }
         
-        txBytes = Uint8Array.from(atob(swapData.data.transaction), c => c.charCodeAt(0));
+          txBytes = Uint8Array.from(atob(swapData.data.transaction), c => c.charCodeAt(0));
+        }
       }
 
       // Decode and sign transaction
       const { VersionedTransaction } = await import('@solana/web3.js');
       const transaction = VersionedTransaction.deserialize(txBytes);
 
-      // Sign and send via wallet
-      const signResult = await signAndSendTransaction(transaction);
+      // This sell was built here, not by the server - simulate it before asking for a signature
+      const simulation = await simulateSwap(transaction);
+      if (simulation.status === 'failed' && simulation.failure) {
+        addBotLog({
+          level: 'warning',
+          category: 'exit',
+          message: `🧪 ${actionLabel} blocked by simulation: ${result.symbol}`,
+          tokenSymbol: result.symbol,
+          details: `${formatSimulationFailure(simulation.failure)}\nPosition kept OPEN - the sell would revert on-chain.`,
+        });
+        toast({
+          title: 'Exit Blocked',
+          description: formatSimulationFailure(simulation.failure),
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      // Building the swap can outlast the lease - never broadcast over whoever took it over
+      if (!(await holdsSellLock(lease))) {
+        addBotLog({
+          level: 'warning',
+          category: 'exit',
+          message: `⏳ Sell lock lost: ${result.symbol}`,
+          tokenSymbol: result.symbol,
+          details: 'The lock expired while the swap was being built and another seller took over. Skipping.',
+        });
+        return false;
+      }
+
+      // Sign and send via wallet - as a Jito bundle when bundle mode is on
+      const signResult = (await sendSwapAsBundle(transaction, ownerAddress, (txs) => signAllTransactionsAs(ownerAddress, txs)))
+        || await signAndSendTransactionAs(ownerAddress, transaction);
 
       if (!signResult.success) {
         toast({
@@ -307,7 +409,7 @@ export function useAutoExit() {
       let remainingBalance: number | null = null;
       try {
         const { data: meta2 } = await supabase.functions.invoke('token-metadata', {
-          body: { mint: position.token_address, owner: wallet.address },
+          body: { mint: position.token_address, owner: ownerAddress },
         });
         const bal = Number((meta2 as any)?.balanceUi);
         if (Number.isFinite(bal)) remainingBalance = bal;
@@ -315,32 +417,50 @@ export function useAutoExit() {
         // ignore
       }
 
+      // RPC may not reflect the partial sell yet - fall back to the expected remainder
+      if (isPartial && (remainingBalance === null || remainingBalance >= balanceBeforeSell * 0.999)) {
+        remainingBalance = balanceBeforeSell - tokenAmountToSell;
+      }
+
       // FIXED: Use percentage-based threshold to avoid false "Partial Exit" scenarios
       // Close position if remaining is <1% of original (accounts for rounding errors)
       const DUST = 1e-6;
-      const remainingPercent = tokenAmountToSell > 0 && remainingBalance !== null 
-        ? (remainingBalance / tokenAmountToSell) * 100 
+      const remainingPercent = balanceBeforeSell > 0 && remainingBalance !== null 
+        ? (remainingBalance / balanceBeforeSell) * 100 
         : 0;
       const shouldClose = remainingBalance === null || remainingBalance <= DUST || remainingPercent <= 1;
 
-      await supabase
-        .from('positions')
-        .update({
-          ...(shouldClose
-            ? {
-                status: 'closed',
-                closed_at: new Date().toISOString(),
-              }
-            : {
-                status: 'open',
-                amount: remainingBalance,
-              }),
-          exit_reason: result.action,
-          exit_price: result.currentPrice,
-          exit_tx_id: signResult.signature,
-          profit_loss_percent: result.profitLossPercent,
-        })
-        .eq('id', result.positionId);
+      if (isPartial && !shouldClose) {
+        // Ladder rung filled - record it and keep trailing the rest
+        const filled = Array.isArray(position.exit_tiers_filled) ? (position.exit_tiers_filled as number[]) : [];
+        await supabase
+          .from('positions')
+          .update({
+            status: 'open',
+            amount: remainingBalance,
+            exit_tiers_filled: [...new Set([...filled, ...(result.tierIndexes || [])])],
+          })
+          .eq('id', result.positionId);
+      } else {
+        await supabase
+          .from('positions')
+          .update({
+            ...(shouldClose
+              ? {
+                  status: 'closed',
+                  closed_at: new Date().toISOString(),
+                }
+              : {
+                  status: 'open',
+                  amount: remainingBalance,
+                }),
+            exit_reason: result.action,
+            exit_price: result.currentPrice,
+            exit_tx_id: signResult.signature,
+            profit_loss_percent: result.profitLossPercent,
+          })
+          .eq('id', result.positionId);
+      }
 
       // Log sell to trade_history
       const { data: { user } } = await supabase.auth.getUser();
@@ -358,11 +478,12 @@ export function useAutoExit() {
             price_usd: null,
             status: 'confirmed',
             tx_hash: signResult.signature,
+            exit_reason: result.action,
           });
       }
 
       // Success notification & detailed log with position data
-      const exitLabel = result.action === 'take_profit' ? '💰 TAKE PROFIT' : '🛑 STOP LOSS';
+      const isProfitExit = result.action === 'take_profit' || result.action === 'partial_take_profit' || result.profitLossPercent >= 0;
       const pnlText = result.profitLossPercent >= 0 ? `+${result.profitLossPercent.toFixed(2)}%` : `${result.profitLossPercent.toFixed(2)}%`;
       const entryPrice = position.entry_price_usd || position.entry_price || 0;
       const exitValue = result.currentPrice * tokenAmountToSell;
@@ -371,23 +492,24 @@ export function useAutoExit() {
       const tokenName = position.token_name || result.symbol;
       
       addBotLog({
-        level: result.action === 'take_profit' ? 'success' : 'warning',
+        level: isProfitExit ? 'success' : 'warning',
         category: 'exit',
-        message: `✅ SELL FILLED: ${tokenName} (${result.symbol})`,
+        message: isPartial
+          ? `✅ PARTIAL SELL FILLED: ${tokenName} (${result.symbol}) - ${((result.sellFraction ?? 1) * 100).toFixed(0)}%`
+          : `✅ SELL FILLED: ${tokenName} (${result.symbol})`,
         tokenSymbol: result.symbol,
         details: `🪙 Token: ${tokenName} (${result.symbol})\n📊 Entry: $${entryPrice.toFixed(8)} → Exit: $${result.currentPrice.toFixed(8)}\nP&L: ${pnlText} ($${pnlValue >= 0 ? '+' : ''}${pnlValue.toFixed(4)}) | Reason: ${result.action.replace('_', ' ')}\nTokens Sold: ${tokenAmountToSell.toLocaleString()} | Exit Value: $${exitValue.toFixed(4)}\n🔗 TX: ${signResult.signature}`,
       });
 
       toast({
-        title: result.action === 'take_profit' ? '💰 Take Profit Executed!' : '🛑 Stop Loss Executed!',
-        description: `${result.symbol} sold at ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(1)}%`,
-        variant: result.action === 'take_profit' ? 'default' : 'destructive',
+        title: `${actionLabel} Executed!`,
+        description: isPartial
+          ? `${result.symbol}: sold ${((result.sellFraction ?? 1) * 100).toFixed(0)}% at +${result.profitLossPercent.toFixed(1)}%, trailing the rest`
+          : `${result.symbol} sold at ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(1)}%`,
+        variant: isProfitExit ? 'default' : 'destructive',
       });
 
       refreshBalance();
-      
-      // Release the sell lock after successful exit
-      releaseSellLock(position.token_address);
       return true;
 
     } catch (error: any) {
@@ -410,21 +532,9 @@ export function useAutoExit() {
       return false;
     } finally {
       // Always release lock, even on error (if we had acquired one)
-      // Re-fetch position to get the token_address
-      try {
-        const { data: pos } = await supabase
-          .from('positions')
-          .select('token_address')
-          .eq('id', result.positionId)
-          .single();
-        if (pos?.token_address) {
-          releaseSellLock(pos.token_address);
-        }
-      } catch {
-        // Ignore - lock will timeout anyway
-      }
+      await releaseSellLock(lease);
     }
-  }, [wallet, signAndSendTransaction, refreshBalance, toast]);
+  }, [wallet, signAndSendTransactionAs, signAllTransactionsAs, refreshBalance, toast]);
 
   const checkExitConditions = useCallback(async (executeExits: boolean = true): Promise<{
     results: ExitResult[];
@@ -485,6 +595,19 @@ export function useAutoExit() {
         r => r.action !== 'hold' && !r.executed && r.error?.includes('PENDING_SIGNATURE')
       );
 
+      // Exits whose sell failed pre-flight simulation (frozen account, transfer hook, tax) - never signed
+      exitResults
+        .filter(r => r.action !== 'hold' && !r.executed && r.error?.startsWith('SIMULATION_FAILED'))
+        .forEach((result) => {
+          addBotLog({
+            level: 'warning',
+            category: 'exit',
+            message: `🧪 ${getExitActionLabel(result.action)} blocked by simulation: ${result.symbol}`,
+            tokenSymbol: result.symbol,
+            details: `${result.error!.replace('SIMULATION_FAILED: ', '')}\nPosition kept OPEN - the sell would revert on-chain.`,
+          });
+        });
+
       // Handle exits blocked due to no route - show warning but keep position open
       const noRouteExits = exitResults.filter(
         r => r.action !== 'hold' && !r.executed && r.error?.includes('NO_ROUTE')
@@ -492,7 +615,7 @@ export function useAutoExit() {
       
       // Log illiquid position warnings
       noRouteExits.forEach((result) => {
-        const actionLabel = result.action === 'take_profit' ? '💰 TAKE PROFIT' : '🛑 STOP LOSS';
+        const actionLabel = getExitActionLabel(result.action);
         addBotLog({
           level: 'warning',
           category: 'exit',
@@ -512,7 +635,7 @@ export function useAutoExit() {
         });
       }
 
-      if (pendingSignatureExits.length > 0 && executeExits && wallet.isConnected) {
+      if (pendingSignatureExits.length > 0 && executeExits && (wallet.isConnected || getSignableSolanaAddresses().length > 0)) {
         console.log(`[AutoExit] ${pendingSignatureExits.length} exits need wallet signature`);
         setPendingExits(pendingSignatureExits);
 
@@ -523,7 +646,7 @@ export function useAutoExit() {
             category: 'exit',
             message: `🔐 Requesting wallet signature: ${exitResult.symbol}`,
             tokenSymbol: exitResult.symbol,
-            details: `${exitResult.action === 'take_profit' ? 'Take Profit' : 'Stop Loss'} triggered - awaiting user confirmation\nP&L: ${exitResult.profitLossPercent >= 0 ? '+' : ''}${exitResult.profitLossPercent.toFixed(2)}%`,
+            details: `${exitResult.action.replace(/_/g, ' ')} triggered - awaiting user confirmation\nP&L: ${exitResult.profitLossPercent >= 0 ? '+' : ''}${exitResult.profitLossPercent.toFixed(2)}%`,
           });
           
           const success = await executePendingExit(exitResult);
@@ -535,7 +658,13 @@ export function useAutoExit() {
       }
 
       // Notify on exits (only for non-force-closed)
-      if ((summary.takeProfitTriggered || 0) > 0 || (summary.stopLossTriggered || 0) > 0) {
+      if (
+        (summary.takeProfitTriggered || 0) > 0 ||
+        (summary.partialTakeProfitTriggered || 0) > 0 ||
+        (summary.trailingStopTriggered || 0) > 0 ||
+        (summary.stopLossTriggered || 0) > 0 ||
+        (summary.emergencyTriggered || 0) > 0
+      ) {
         exitResults.forEach((result) => {
           // Skip force-closed - already handled above
           if (result.txId === 'force_closed_no_route') return;
@@ -549,6 +678,19 @@ export function useAutoExit() {
               title: `Take Profit: ${result.symbol}`,
               message: `Closed at +${result.profitLossPercent.toFixed(1)}% profit`,
               type: 'trade',
+              event: 'take_profit',
+              metadata: { positionId: result.positionId, action: result.action },
+            });
+          } else if (result.executed && result.action === 'trailing_stop') {
+            toast({
+              title: '📉 Trailing Stop Hit',
+              description: `${result.symbol} closed at ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(1)}%`,
+            });
+            addNotification({
+              title: `Trailing Stop: ${result.symbol}`,
+              message: `Closed at ${result.profitLossPercent >= 0 ? '+' : ''}${result.profitLossPercent.toFixed(1)}% after pulling back from the peak`,
+              type: result.profitLossPercent >= 0 ? 'trade' : 'error',
+              event: 'trailing_stop',
               metadata: { positionId: result.positionId, action: result.action },
             });
           } else if (result.executed && result.action === 'stop_loss') {
@@ -561,6 +703,21 @@ export function useAutoExit() {
               title: `Stop Loss: ${result.symbol}`,
               message: `Closed at ${result.profitLossPercent.toFixed(1)}% loss`,
               type: 'error',
+              event: 'stop_loss',
+              metadata: { positionId: result.positionId, action: result.action },
+            });
+          } else if (result.executed && isGuardianExitReason(result.action)) {
+            toast({
+              title: getExitActionLabel(result.action),
+              description: `${result.symbol} emergency exit at ${result.profitLossPercent.toFixed(1)}%${result.guardianDetail ? ` - ${result.guardianDetail}` : ''}`,
+              variant: 'destructive',
+            });
+            // Delivered on the stop-loss channel: it is the exit that replaced the stop loss
+            addNotification({
+              title: `Emergency Exit: ${result.symbol}`,
+              message: `${result.guardianDetail || getExitActionLabel(result.action)} - closed at ${result.profitLossPercent.toFixed(1)}%`,
+              type: 'error',
+              event: 'stop_loss',
               metadata: { positionId: result.positionId, action: result.action },
             });
           }
@@ -16,6 +16,10 @@ export interface TokenData {
   riskScore: number;
   categories: string[];
   priceUsd?: number;
+  holders?: number;
+  marketCap?: number;
+  volume24h?: number;
+  createdAt?: string;
   // Scanner validation flags - CRITICAL for trade execution
   isPumpFun?: boolean;      // True if on Pump.fun bonding curve
   isTradeable?: boolean;    // True if scanner verified tradability
@@ -186,6 +190,7 @@ export function useAutoSniper() {
               title: `Trade Executed: ${trade.token}`,
               message: `Auto-sniper bought ${trade.token}. Position ID: ${trade.positionId?.slice(0, 8) || 'N/A'}`,
               type: 'trade',
+              event: 'trade_executed',
               metadata: {
                 token: trade.token,
                 txId: trade.txId,
@@ -199,6 +204,7 @@ export function useAutoSniper() {
               title: `Trade Failed: ${trade.token}`,
               message: trade.error,
               type: 'error',
+              event: 'trade_failed',
             });
           }
         });
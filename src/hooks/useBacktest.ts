@@ -0,0 +1,151 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { BacktestSnapshot, PriceCandle } from '@/lib/backtest';
+import type { DiscoverySnapshot } from '@/hooks/useTokenStateManager';
+
+// Finer candles win when a token was cached at several resolutions
+const TIMEFRAME_PRIORITY = ['1H', '4H', '24H', '7D'];
+// Backfill is sequential and rate-limited by the providers behind token-ohlcv
+const MAX_BACKFILL_TOKENS = 25;
+const CANDLE_QUERY_CHUNK = 100;
+
+export function useBacktest() {
+  const { user } = useAuth();
+  const [snapshots, setSnapshots] = useState<BacktestSnapshot[]>([]);
+  const [candlesByToken, setCandlesByToken] = useState<Map<string, PriceCandle[]>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [backfilling, setBackfilling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCandles = useCallback(async (addresses: string[]) => {
+    const rows: { token_address: string; timeframe: string; bucket_start: string; open: number; high: number; low: number; close: number }[] = [];
+
+    for (let i = 0; i < addresses.length; i += CANDLE_QUERY_CHUNK) {
+      const { data, error: candleError } = await supabase
+        .from('token_ohlcv_cache')
+        .select('token_address, timeframe, bucket_start, open, high, low, close')
+        .in('token_address', addresses.slice(i, i + CANDLE_QUERY_CHUNK))
+        .order('bucket_start', { ascending: true });
+      if (candleError) throw candleError;
+      rows.push(...(data || []));
+    }
+
+    // Group by token, keeping only the finest timeframe available for each. Keyed by the exact
+    // address - base58 is case-sensitive, so lowercasing can merge two different mints
+    const grouped = new Map<string, Map<string, PriceCandle[]>>();
+    for (const row of rows) {
+      const addr = row.token_address;
+      const byTimeframe = grouped.get(addr) || new Map<string, PriceCandle[]>();
+      const list = byTimeframe.get(row.timeframe) || [];
+      list.push({
+        time: Math.floor(new Date(row.bucket_start).getTime() / 1000),
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+      });
+      byTimeframe.set(row.timeframe, list);
+      grouped.set(addr, byTimeframe);
+    }
+
+    const result = new Map<string, PriceCandle[]>();
+    grouped.forEach((byTimeframe, addr) => {
+      const best = TIMEFRAME_PRIORITY.find(tf => byTimeframe.has(tf));
+      if (best) result.set(addr, byTimeframe.get(best)!);
+    });
+    return result;
+  }, []);
+
+  /**
+   * Load recorded discoveries from the last `lookbackDays` and their cached price series
+   */
+  const loadDataset = useCallback(async (lookbackDays: number) => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data, error: statesError } = await supabase
+        .from('token_processing_states')
+        .select('token_address, token_name, token_symbol, source, discovered_at, liquidity_at_discovery, risk_score_at_discovery, buyer_position_at_discovery, price_usd_at_discovery, discovery_snapshot')
+        .eq('user_id', user.id)
+        .gte('discovered_at', since)
+        .order('discovered_at', { ascending: true })
+        .limit(2000);
+
+      if (statesError) throw statesError;
+
+      const loaded: BacktestSnapshot[] = (data || []).map(row => {
+        const extra = (row.discovery_snapshot || {}) as Partial<DiscoverySnapshot>;
+        return {
+          address: extra.address || row.token_address,
+          name: row.token_name || '',
+          symbol: row.token_symbol || row.token_address.slice(0, 6),
+          source: row.source || 'unknown',
+          discoveredAt: new Date(row.discovered_at).getTime(),
+          liquidity: Number(row.liquidity_at_discovery) || 0,
+          riskScore: Number(row.risk_score_at_discovery) || 0,
+          buyerPosition: row.buyer_position_at_discovery,
+          entryPriceUsd: row.price_usd_at_discovery ?? extra.priceUsd ?? null,
+          holders: extra.holders ?? null,
+          createdAt: extra.createdAt ?? null,
+          freezeAuthority: extra.freezeAuthority ?? null,
+          hasSwapRoute: extra.hasSwapRoute ?? null,
+        };
+      });
+
+      setSnapshots(loaded);
+      setCandlesByToken(await loadCandles([...new Set(loaded.map(s => s.address))]));
+    } catch (err: unknown) {
+      console.error('[Backtest] Failed to load dataset:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load backtest data');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, loadCandles]);
+
+  /**
+   * Fetch candles through token-ohlcv for discoveries that have no cached series yet
+   */
+  const backfillMissing = useCallback(async (): Promise<number> => {
+    const missing = snapshots
+      .filter(s => !candlesByToken.has(s.address))
+      .slice(0, MAX_BACKFILL_TOKENS);
+    if (missing.length === 0) return 0;
+
+    setBackfilling(true);
+    let filled = 0;
+    try {
+      for (const snapshot of missing) {
+        // 15m candles only reach back a day - older discoveries get 4h candles
+        const timeframe = Date.now() - snapshot.discoveredAt < 20 * 60 * 60 * 1000 ? '24H' : '7D';
+        const { data, error: fnError } = await supabase.functions.invoke('token-ohlcv', {
+          body: { tokenAddress: snapshot.address, timeframe },
+        });
+        if (!fnError && Array.isArray(data?.candles) && data.candles.length > 0) filled++;
+      }
+      setCandlesByToken(await loadCandles([...new Set(snapshots.map(s => s.address))]));
+    } catch (err) {
+      console.error('[Backtest] Backfill failed:', err);
+    } finally {
+      setBackfilling(false);
+    }
+    return filled;
+  }, [snapshots, candlesByToken, loadCandles]);
+
+  const missingPriceData = snapshots.filter(s => !candlesByToken.has(s.address)).length;
+
+  return {
+    snapshots,
+    candlesByToken,
+    missingPriceData,
+    loading,
+    backfilling,
+    error,
+    loadDataset,
+    backfillMissing,
+  };
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { flushBotLogs } from '@/lib/botLogSync';
+import type { BotLogEntry, LogLevel } from '@/components/scanner/BotActivityLog';
+
+export type BotLogCategory = BotLogEntry['category'];
+
+export interface BotLogRecord {
+  id: string;
+  client_id: string;
+  logged_at: string;
+  level: LogLevel;
+  category: BotLogCategory;
+  message: string;
+  details: string | null;
+  token_symbol: string | null;
+  token_address: string | null;
+}
+
+export interface BotLogFilters {
+  category: BotLogCategory | 'all';
+  level: LogLevel | 'all';
+  token: string;      // symbol (partial) or mint address (exact)
+  search: string;     // full-text over message and details
+  from: string | null; // ISO timestamps
+  to: string | null;
+}
+
+export const DEFAULT_BOT_LOG_FILTERS: BotLogFilters = {
+  category: 'all',
+  level: 'all',
+  token: '',
+  search: '',
+  from: null,
+  to: null,
+};
+
+const PAGE_SIZE = 50;
+// PostgREST caps a single response at 1000 rows
+const EXPORT_CHUNK_SIZE = 1000;
+const EXPORT_MAX_ROWS = 10_000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+const RECORD_COLUMNS = 'id, client_id, logged_at, level, category, message, details, token_symbol, token_address';
+const MINT_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export function buildBotLogQuery(userId: string, filters: BotLogFilters, count = false) {
+  let query = supabase
+    .from('bot_activity_logs')
+    .select(RECORD_COLUMNS, count ? { count: 'exact' } : undefined)
+    .eq('user_id', userId);
+
+  if (filters.category !== 'all') query = query.eq('category', filters.category);
+  if (filters.level !== 'all') query = query.eq('level', filters.level);
+  if (filters.from) query = query.gte('logged_at', filters.from);
+  if (filters.to) query = query.lte('logged_at', filters.to);
+
+  const token = filters.token.trim();
+  if (MINT_ADDRESS_PATTERN.test(token)) {
+    query = query.eq('token_address', token);
+  } else if (token) {
+    query = query.ilike('token_symbol', `%${token.replace(/^\$/, '').replace(/[%_]/g, '')}%`);
+  }
+
+  const search = filters.search.trim();
+  if (search) query = query.textSearch('search_vector', search, { type: 'websearch', config: 'simple' });
+
+  // id breaks ties so offset pages do not overlap or skip rows logged in the same instant
+  return query.order('logged_at', { ascending: false }).order('id', { ascending: false });
+}
+
+/** One page of the viewer plus the total matching the filters */
+export async function fetchBotLogPage(userId: string, filters: BotLogFilters, page: number) {
+  const { data, error, count } = await buildBotLogQuery(userId, filters, true)
+    .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+  if (error) throw error;
+  return { entries: (data as unknown as BotLogRecord[]) || [], total: count ?? 0 };
+}
+
+/**
+ * Every row matching the filters (up to EXPORT_MAX_ROWS), newest first. Rows the bot logs
+ * during the export shift later chunks down, so a row can come back twice - keep the first.
+ */
+export async function fetchBotLogSlice(userId: string, filters: BotLogFilters): Promise<BotLogRecord[]> {
+  const rows: BotLogRecord[] = [];
+  const seen = new Set<string>();
+  for (let offset = 0; offset < EXPORT_MAX_ROWS; offset += EXPORT_CHUNK_SIZE) {
+    const { data, error } = await buildBotLogQuery(userId, filters)
+      .range(offset, offset + EXPORT_CHUNK_SIZE - 1);
+    if (error) throw error;
+    const chunk = (data as unknown as BotLogRecord[]) || [];
+    for (const row of chunk) {
+      if (seen.has(row.id)) continue;
+      seen.add(row.id);
+      rows.push(row);
+    }
+    if (chunk.length < EXPORT_CHUNK_SIZE) break;
+  }
+  return rows;
+}
+
+export function useBotLogHistory(filters: BotLogFilters) {
+  const [entries, setEntries] = useState<BotLogRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_RETENTION_DAYS);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // New filters start from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [filters]);
+
+  const fetchPage = useCallback(async () => {
+    if (!user) {
+      setEntries([]);
+      setTotal(0);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      // Include whatever the bot logged in the last few seconds
+      await flushBotLogs();
+      const result = await fetchBotLogPage(user.id, filters, page);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error loading bot logs',
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, filters, page, toast]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  // Retention setting, and apply it so expired rows never show up in the viewer
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from('profiles')
+      .select('bot_log_retention_days')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data?.bot_log_retention_days) setRetentionDays(data.bot_log_retention_days);
+      });
+    supabase.rpc('cleanup_old_bot_activity_logs').then(({ error }) => {
+      if (error) console.warn('[BotLogHistory] Retention cleanup failed:', error.message);
+    });
+  }, [user]);
+
+  const updateRetention = useCallback(async (days: number) => {
+    if (!user) return false;
+    const { error } = await supabase
+      .from('profiles')
+      .update({ bot_log_retention_days: days })
+      .eq('user_id', user.id);
+
+    if (error) {
+      toast({ title: 'Error saving retention', description: error.message, variant: 'destructive' });
+      return false;
+    }
+    setRetentionDays(days);
+    await supabase.rpc('cleanup_old_bot_activity_logs');
+    await fetchPage();
+    toast({ title: 'Retention updated', description: `Bot logs are kept for ${days} days` });
+    return true;
+  }, [user, toast, fetchPage]);
+
+  // Every row matching the current filters, for export
+  const fetchSlice = useCallback(async (): Promise<BotLogRecord[]> => {
+    if (!user) return [];
+    return fetchBotLogSlice(user.id, filters);
+  }, [user, filters]);
+
+  return {
+    entries,
+    total,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+    setPage,
+    loading,
+    refetch: fetchPage,
+    fetchSlice,
+    retentionDays,
+    updateRetention,
+  };
+}
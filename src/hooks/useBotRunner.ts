@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { BOT_STAGES, type BotStage, type StageStatus } from '@shared/bot-cycle';
+
+export interface BotRunnerSession {
+  is_enabled: boolean;
+  auto_entry: boolean;
+  auto_exit: boolean;
+  max_trade_sol: number;
+  session_public_key: string | null;
+  session_expires_at: string | null;
+  lease_holder: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  last_cycle_id: string | null;
+  last_cycle_started_at: string | null;
+  last_cycle_finished_at: string | null;
+  last_error: string | null;
+}
+
+export interface BotStageRunRecord {
+  id: string;
+  cycle_id: string;
+  stage: BotStage;
+  status: StageStatus;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  summary: Record<string, unknown>;
+  error: string | null;
+}
+
+export interface BotRunnerSettings {
+  enabled?: boolean;
+  autoEntry?: boolean;
+  autoExit?: boolean;
+  maxTradeSol?: number;
+}
+
+// The scheduler ticks every minute; a heartbeat older than this means the runner is not reaching the user
+export const HEARTBEAT_STALE_MS = 3 * 60 * 1000;
+
+export function useBotRunner() {
+  const [session, setSession] = useState<BotRunnerSession | null>(null);
+  const [runs, setRuns] = useState<BotStageRunRecord[]>([]);
+  const [keystoreConfigured, setKeystoreConfigured] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchStatus = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const { data, error } = await supabase.functions.invoke('bot-runner', { body: { action: 'status' } });
+      if (error) throw error;
+      setSession(data.session ?? null);
+      setRuns(data.runs || []);
+      setKeystoreConfigured(data.keystoreConfigured !== false);
+    } catch (err: unknown) {
+      console.error('Failed to fetch bot runner status:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  useEffect(() => {
+    if (!user) return;
+    const channel = supabase
+      .channel(`bot-runner-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'bot_runner_sessions', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType !== 'DELETE') setSession(payload.new as BotRunnerSession);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'bot_stage_runs', filter: `user_id=eq.${user.id}` },
+        (payload) => setRuns((prev) => [payload.new as BotStageRunRecord, ...prev].slice(0, 40))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const callAction = useCallback(async (body: Record<string, unknown>, success?: string) => {
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('bot-runner', { body });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      if (success) toast({ title: success });
+      return data;
+    } catch (err: unknown) {
+      toast({
+        title: 'Bot runner',
+        description: err instanceof Error ? err.message : 'Request failed',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, [toast]);
+
+  const configure = useCallback(async (settings: BotRunnerSettings) => {
+    const data = await callAction({ action: 'configure', ...settings });
+    if (data?.session) setSession(data.session);
+  }, [callAction]);
+
+  const createSessionKey = useCallback(async (ttlHours: number) => {
+    const data = await callAction({ action: 'create_session_key', ttlHours }, 'Session key created');
+    if (data) await fetchStatus();
+    return data as { publicKey: string; expiresAt: string } | null;
+  }, [callAction, fetchStatus]);
+
+  const revokeSessionKey = useCallback(async (sweepTo: string | null) => {
+    const data = await callAction(
+      { action: 'revoke_session_key', ...(sweepTo ? { sweepTo } : {}) },
+      sweepTo ? 'Session key revoked and balance returned' : 'Session key revoked'
+    );
+    if (data) await fetchStatus();
+  }, [callAction, fetchStatus]);
+
+  const runNow = useCallback(async () => {
+    await callAction({ action: 'run_now' }, 'Cycle finished');
+  }, [callAction]);
+
+  // Newest run of each stage
+  const latestByStage = useMemo(() => {
+    const latest = {} as Partial<Record<BotStage, BotStageRunRecord>>;
+    for (const run of runs) {
+      if (!latest[run.stage]) latest[run.stage] = run;
+    }
+    return BOT_STAGES.map((stage) => ({ stage, run: latest[stage] ?? null }));
+  }, [runs]);
+
+  return {
+    session,
+    runs,
+    latestByStage,
+    keystoreConfigured,
+    loading,
+    busy,
+    refetch: fetchStatus,
+    configure,
+    createSessionKey,
+    revokeSessionKey,
+    runNow,
+  };
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { CopySizingMode, LeaderStats } from '@shared/copy-trading';
+
+export interface CopyTradeLeader {
+  id: string;
+  user_id: string;
+  leader_address: string;
+  label: string | null;
+  is_active: boolean;
+  sizing_mode: CopySizingMode;
+  fixed_sol_amount: number;
+  leader_percent: number;
+  max_sol_per_token: number | null;
+  last_signature: string | null;
+  last_polled_at: string | null;
+  stats: Partial<LeaderStats>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CopyTradeLeaderInput = Pick<
+  CopyTradeLeader,
+  'leader_address' | 'label' | 'sizing_mode' | 'fixed_sol_amount' | 'leader_percent' | 'max_sol_per_token'
+>;
+
+// getSignaturesForAddress is cheap but public RPCs rate-limit hard below ~15s
+const POLL_INTERVAL_MS = 20_000;
+
+export function useCopyTradeLeaders() {
+  const [leaders, setLeaders] = useState<CopyTradeLeader[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [polling, setPolling] = useState(false);
+  const [watching, setWatching] = useState(false);
+  const [lastPollAt, setLastPollAt] = useState<Date | null>(null);
+  const pollInFlight = useRef(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchLeaders = useCallback(async () => {
+    if (!user) {
+      setLeaders([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('copy_trade_leaders')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setLeaders((data as unknown as CopyTradeLeader[]) || []);
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error fetching leaders',
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  const addLeader = useCallback(async (input: CopyTradeLeaderInput) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('copy_trade_leaders')
+        .insert({ ...input, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      const leader = data as unknown as CopyTradeLeader;
+      setLeaders(prev => [...prev, leader]);
+      toast({ title: 'Leader added', description: 'New trades will be copied from the next poll.' });
+      return leader;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error adding leader',
+        description: err.message.includes('duplicate') ? 'You already follow this wallet' : err.message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [user, toast]);
+
+  const updateLeader = useCallback(async (id: string, updates: Partial<CopyTradeLeaderInput & { is_active: boolean }>) => {
+    try {
+      const { data, error } = await supabase
+        .from('copy_trade_leaders')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setLeaders(prev => prev.map(l => (l.id === id ? (data as unknown as CopyTradeLeader) : l)));
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error updating leader',
+        description: err.message,
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  const removeLeader = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase.from('copy_trade_leaders').delete().eq('id', id);
+      if (error) throw error;
+      setLeaders(prev => prev.filter(l => l.id !== id));
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error removing leader',
+        description: err.message,
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  /**
+   * Run one copy-trade-worker pass over the active leaders
+   */
+  const pollNow = useCallback(async () => {
+    if (!user || pollInFlight.current) return;
+
+    pollInFlight.current = true;
+    setPolling(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('copy-trade-worker', { body: {} });
+      if (error) throw error;
+
+      setLastPollAt(new Date());
+      if (data?.signals > 0) {
+        toast({
+          title: '🎯 Copy Trade Signal',
+          description: `${data.signals} leader buy${data.signals === 1 ? '' : 's'} passed risk checks`,
+        });
+      }
+      await fetchLeaders();
+    } catch (error: unknown) {
+      console.error('[CopyTrade] Poll failed:', error);
+    } finally {
+      pollInFlight.current = false;
+      setPolling(false);
+    }
+  }, [user, toast, fetchLeaders]);
+
+  useEffect(() => {
+    fetchLeaders();
+  }, [fetchLeaders]);
+
+  // Poll while the user has watching switched on and at least one leader is active
+  const hasActiveLeader = leaders.some(l => l.is_active);
+  useEffect(() => {
+    if (!watching || !hasActiveLeader) return;
+
+    pollNow();
+    const interval = setInterval(pollNow, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [watching, hasActiveLeader, pollNow]);
+
+  return {
+    leaders,
+    loading,
+    polling,
+    watching,
+    setWatching,
+    lastPollAt,
+    addLeader,
+    updateLeader,
+    removeLeader,
+    pollNow,
+    refetch: fetchLeaders,
+  };
+}
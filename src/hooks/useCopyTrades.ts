@@ -6,6 +6,7 @@ import { useToast } from '@/hooks/use-toast';
 export interface CopyTrade {
   id: string;
   user_id: string;
+  leader_id?: string | null;
   leader_address: string;
   leader_name: string | null;
   token_address: string;
@@ -13,8 +14,14 @@ export interface CopyTrade {
   action: 'buy' | 'sell';
   amount: number;
   price: number;
+  sol_amount?: number | null;        // Leader's SOL size
+  copy_amount_sol?: number | null;   // Our size when the buy was signaled
+  signal_id?: string | null;
+  block_time?: string | null;
+  reasons?: string[] | null;
   tx_id: string | null;
-  status: 'pending' | 'executed' | 'failed';
+  // signaled/skipped are set by copy-trade-worker
+  status: 'pending' | 'signaled' | 'skipped' | 'executed' | 'failed';
   created_at: string;
 }
 
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { CreatorOutcome, CreatorReputation } from '@shared/creator-reputation';
+
+export interface CreatorLaunchRow {
+  mint: string;
+  creator: string;
+  creation_signature: string | null;
+  launched_at: string;
+  outcome: CreatorOutcome;
+  outcome_reason: string | null;
+  outcome_at: string | null;
+}
+
+export function useCreatorReputation(tokenAddress: string | undefined) {
+  const [creator, setCreator] = useState<CreatorLaunchRow | null>(null);
+  const [reputation, setReputation] = useState<CreatorReputation | null>(null);
+  const [launches, setLaunches] = useState<CreatorLaunchRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses for a token the user already navigated away from
+  const requestIdRef = useRef(0);
+
+  const fetchReputation = useCallback(async () => {
+    if (!tokenAddress) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('creator-reputation', {
+        body: { action: 'lookup', tokenAddress },
+      });
+      if (requestId !== requestIdRef.current) return;
+      if (fnError) throw fnError;
+
+      setCreator((data?.creator as CreatorLaunchRow | null) ?? null);
+      setReputation((data?.reputation as CreatorReputation | null) ?? null);
+      setLaunches((data?.launches as CreatorLaunchRow[]) || []);
+      setError(null);
+    } catch (err: unknown) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load creator history');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [tokenAddress]);
+
+  useEffect(() => {
+    setCreator(null);
+    setReputation(null);
+    setLaunches([]);
+    fetchReputation();
+  }, [fetchReputation]);
+
+  return { creator, reputation, launches, loading, error, refetch: fetchReputation };
+}
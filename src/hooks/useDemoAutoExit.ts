@@ -72,6 +72,7 @@ export function useDemoAutoExit() {
           title: `Take Profit: ${position.token_symbol}`,
           message: `Position closed at +${pnlPercent.toFixed(1)}% profit`,
           type: 'success',
+          event: 'take_profit',
           metadata: { pnl: pnlPercent, token: position.token_symbol },
         });
       }
@@ -101,6 +102,7 @@ export function useDemoAutoExit() {
           title: `Stop Loss: ${position.token_symbol}`,
           message: `Position closed at ${pnlPercent.toFixed(1)}% loss`,
           type: 'error',
+          event: 'stop_loss',
           metadata: { pnl: pnlPercent, token: position.token_symbol },
         });
       }
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { HolderAnalysis } from '@shared/holder-clusters';
+
+export function useHolderAnalysis(tokenAddress: string | undefined) {
+  const [analysis, setAnalysis] = useState<HolderAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses for a token the user already navigated away from
+  const requestIdRef = useRef(0);
+
+  const fetchAnalysis = useCallback(async () => {
+    if (!tokenAddress) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('risk-check', {
+        body: { action: 'analyze_holders', tokens: [{ address: tokenAddress }] },
+      });
+      if (requestId !== requestIdRef.current) return;
+      if (fnError) throw fnError;
+
+      const result = (data?.analysis as HolderAnalysis | null) ?? null;
+      setAnalysis(result);
+      setError(result?.status === 'unavailable' ? result.error ?? 'Holder analysis unavailable' : null);
+    } catch (err: unknown) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to analyze holders');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [tokenAddress]);
+
+  useEffect(() => {
+    setAnalysis(null);
+    fetchAnalysis();
+  }, [fetchAnalysis]);
+
+  return { analysis, loading, error, refetch: fetchAnalysis };
+}
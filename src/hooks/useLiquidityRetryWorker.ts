@@ -1,10 +1,10 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { useWallet } from '@/hooks/useWallet';
+import { useWallet, getSolanaProviderForAddress } from '@/hooks/useWallet';
 import { addBotLog } from '@/components/scanner/BotActivityLog';
 import { fetchJupiterQuote } from '@/lib/jupiterQuote';
-import { acquireSellLock, releaseSellLock, isSellLocked } from '@/lib/sellLock';
+import { acquireSellLock, holdsSellLock, releaseSellLock, isSellLocked, type SellLease } from '@/lib/sellLock';
 
 export interface WaitingPosition {
   id: string;
@@ -19,6 +19,7 @@ export interface WaitingPosition {
   liquidity_check_count: number;
   waiting_for_liquidity_since: string | null;
   status: string;
+  wallet_address?: string | null;
 }
 
 interface RouteCheckResult {
@@ -36,7 +37,7 @@ export function useLiquidityRetryWorker() {
   const [checking, setChecking] = useState(false);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
-  const { wallet, signAndSendTransaction, refreshBalance } = useWallet();
+  const { wallet, signAndSendTransactionAs, refreshBalance } = useWallet();
 
   // Fetch positions waiting for liquidity
   const fetchWaitingPositions = useCallback(async () => {
@@ -116,14 +117,14 @@ export function useLiquidityRetryWorker() {
   };
 
   // Check routes for a position (Jupiter first, then Raydium)
-  const checkRoutes = async (position: WaitingPosition): Promise<RouteCheckResult> => {
+  const checkRoutes = async (position: WaitingPosition, ownerAddress: string): Promise<RouteCheckResult> => {
     // Get on-chain balance and decimals
     let decimals = 6;
     let balanceUi = position.amount;
     
     try {
       const { data } = await supabase.functions.invoke('token-metadata', {
-        body: { mint: position.token_address, owner: wallet.address },
+        body: { mint: position.token_address, owner: ownerAddress },
       });
       if (data?.decimals) decimals = data.decimals;
       if (data?.balanceUi && data.balanceUi > 0) balanceUi = data.balanceUi;
@@ -163,18 +164,14 @@ export function useLiquidityRetryWorker() {
   };
 
   // Execute swap via Jupiter
-  const executeJupiterSwap = async (quote: any): Promise<{ success: boolean; signature?: string; error?: string }> => {
-    if (!wallet.address) {
-      return { success: false, error: 'Wallet not connected' };
-    }
-
+  const executeJupiterSwap = async (quote: any, ownerAddress: string, lease: SellLease | null): Promise<{ success: boolean; signature?: string; error?: string }> => {
     try {
       const swapRes = await fetch('https://lite-api.jup.ag/swap/v1/swap', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           quoteResponse: quote,
-          userPublicKey: wallet.address,
+          userPublicKey: ownerAddress,
           wrapAndUnwrapSol: true,
           dynamicComputeUnitLimit: true,
           dynamicSlippage: true,
@@ -196,7 +193,12 @@ export function useLiquidityRetryWorker() {
       const { VersionedTransaction } = await import('@solana/web3.js');
       const transaction = VersionedTransaction.deserialize(txBytes);
 
-      const result = await signAndSendTransaction(transaction);
+      // Building the swap can outlast the lease - never broadcast over whoever took it over
+      if (lease && !(await holdsSellLock(lease))) {
+        return { success: false, error: 'Sell lock lost while building the swap - another seller took over' };
+      }
+
+      const result = await signAndSendTransactionAs(ownerAddress, transaction);
       return result.success 
         ? { success: true, signature: result.signature }
         : { success: false, error: result.error };
@@ -206,18 +208,14 @@ export function useLiquidityRetryWorker() {
   };
 
   // Execute swap via Raydium
-  const executeRaydiumSwap = async (quoteResponse: any): Promise<{ success: boolean; signature?: string; error?: string }> => {
-    if (!wallet.address) {
-      return { success: false, error: 'Wallet not connected' };
-    }
-
+  const executeRaydiumSwap = async (quoteResponse: any, ownerAddress: string, lease: SellLease | null): Promise<{ success: boolean; signature?: string; error?: string }> => {
     try {
       const response = await fetch('https://transaction-v1.raydium.io/transaction/swap-base-in', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           swapResponse: quoteResponse,
-          wallet: wallet.address,
+          wallet: ownerAddress,
           txVersion: 'V0',
           wrapSol: false,
           unwrapSol: true,
@@ -239,7 +237,12 @@ export function useLiquidityRetryWorker() {
       const { VersionedTransaction } = await import('@solana/web3.js');
       const transaction = VersionedTransaction.deserialize(txBytes);
 
-      const result = await signAndSendTransaction(transaction);
+      // Building the swap can outlast the lease - never broadcast over whoever took it over
+      if (lease && !(await holdsSellLock(lease))) {
+        return { success: false, error: 'Sell lock lost while building the swap - another seller took over' };
+      }
+
+      const result = await signAndSendTransactionAs(ownerAddress, transaction);
       return result.success 
         ? { success: true, signature: result.signature }
         : { success: false, error: result.error };
@@ -250,13 +253,9 @@ export function useLiquidityRetryWorker() {
 
   // Check and execute a single waiting position
   const checkAndExecutePosition = useCallback(async (position: WaitingPosition): Promise<boolean> => {
-    if (!wallet.isConnected || !wallet.address) {
-      return false;
-    }
-
-    // CRITICAL: Check if another system is already selling this token
-    if (isSellLocked(position.token_address)) {
-      console.log(`[LiquidityRetry] Skipping ${position.token_symbol} - already being sold by another system`);
+    // Sell from the wallet that opened the position; skip until that wallet is connected
+    const ownerAddress = position.wallet_address || wallet.address;
+    if (!ownerAddress || (ownerAddress !== wallet.address && !getSolanaProviderForAddress(ownerAddress))) {
       return false;
     }
 
@@ -264,6 +263,13 @@ export function useLiquidityRetryWorker() {
     // Wallet tokens have synthetic IDs starting with "wallet-" which are NOT valid UUIDs
     const isWalletToken = typeof position.id === 'string' && position.id.startsWith('wallet-');
 
+    // CRITICAL: Check if another system is already selling this position
+    // Wallet tokens have no position row, so there is nothing for other sellers to lock
+    if (!isWalletToken && await isSellLocked(position.id)) {
+      console.log(`[LiquidityRetry] Skipping ${position.token_symbol} - already being sold by another system`);
+      return false;
+    }
+
     addBotLog({
       level: 'info',
       category: 'exit',
@@ -272,7 +278,7 @@ export function useLiquidityRetryWorker() {
       details: isWalletToken ? 'Wallet token (no DB record)' : `Check #${(position.liquidity_check_count || 0) + 1}`,
     });
 
-    const routeResult = await checkRoutes(position);
+    const routeResult = await checkRoutes(position, ownerAddress);
 
     // Only update DB for real positions (valid UUID IDs)
     // Wallet tokens have synthetic IDs like "wallet-<mint>" which would cause UUID parse errors
@@ -306,7 +312,8 @@ export function useLiquidityRetryWorker() {
     });
 
     // CRITICAL: Acquire sell lock before executing swap
-    if (!acquireSellLock(position.token_address, 'liquidity_worker')) {
+    const lease = isWalletToken ? null : await acquireSellLock(position, 'liquidity_worker');
+    if (!isWalletToken && !lease) {
       addBotLog({
         level: 'warning',
         category: 'exit',
@@ -323,8 +330,8 @@ export function useLiquidityRetryWorker() {
     });
 
     const swapResult = routeResult.source === 'jupiter'
-      ? await executeJupiterSwap(routeResult.quote)
-      : await executeRaydiumSwap(routeResult.quote);
+      ? await executeJupiterSwap(routeResult.quote, ownerAddress, lease)
+      : await executeRaydiumSwap(routeResult.quote, ownerAddress, lease);
 
     if (swapResult.success && swapResult.signature) {
       // CRITICAL: Only update DB for real positions (not wallet tokens)
@@ -372,7 +379,7 @@ export function useLiquidityRetryWorker() {
       });
 
       refreshBalance();
-      releaseSellLock(position.token_address);
+      await releaseSellLock(lease);
       return true;
     } else {
       addBotLog({
@@ -382,10 +389,10 @@ export function useLiquidityRetryWorker() {
         tokenSymbol: position.token_symbol,
         details: swapResult.error,
       });
-      releaseSellLock(position.token_address);
+      await releaseSellLock(lease);
       return false;
     }
-  }, [wallet, signAndSendTransaction, refreshBalance, toast]);
+  }, [wallet, signAndSendTransactionAs, refreshBalance, toast]);
 
   // Run the retry worker once with parallel processing
   const runRetryCheck = useCallback(async () => {
@@ -3,17 +3,19 @@
  * 
  * This hook unifies the entire trading flow for live trading:
  * 1. Receives approved tokens from auto-sniper evaluation
- * 2. Validates wallet connection and balance
+ * 2. Validates wallet connection and balance, picking a trading wallet with budget left
  * 3. Executes trades using the 3-stage trading engine
- * 4. Persists positions to the database
+ * 4. Persists positions to the database, tagged with the wallet that opened them
  * 5. Monitors for auto-exit conditions
  * 
  * This is the SINGLE ENTRY POINT for all live trades.
  */
 
 import { useCallback, useRef, useState, useEffect } from 'react';
+import type { VersionedTransaction } from '@solana/web3.js';
 import { supabase } from '@/integrations/supabase/client';
-import { useWallet } from '@/hooks/useWallet';
+import { useWallet, type SignTransactionResult } from '@/hooks/useWallet';
+import { useTradingWallets } from '@/hooks/useTradingWallets';
 import { useWalletModal } from '@/hooks/useWalletModal';
 import { useTradingEngine } from '@/hooks/useTradingEngine';
 import { usePositions } from '@/hooks/usePositions';
@@ -22,7 +24,9 @@ import { useToast } from '@/hooks/use-toast';
 import { useTokenStateManager } from '@/hooks/useTokenStateManager';
 import { addBotLog } from '@/components/scanner/BotActivityLog';
 import { isPlaceholderText } from '@/lib/formatters';
+import type { SignAllTransactions } from '@/lib/jitoBundle';
 import { validateSwapRoute } from '@/lib/routeValidator';
+import { describeSkippedWallets, selectTradingWallet } from '@/lib/walletAllocation';
 import type { TradingFlowResult } from '@/lib/trading-engine';
 
 // Approved token from auto-sniper
@@ -53,6 +57,15 @@ export interface LiveTradeResult {
   source?: 'trading-engine' | 'edge-function';
 }
 
+// Wallet a trade is signed from - either a registered trading wallet or the connected one
+interface TradeWallet {
+  address: string;
+  label: string | null;
+  signAndSend: (tx: VersionedTransaction) => Promise<SignTransactionResult>;
+  // Signs the swap together with a Jito tip when bundle mode is on
+  signAll: SignAllTransactions;
+}
+
 // Orchestrator state - executedTokens moved to ref for stable closure access
 interface OrchestratorState {
   isExecuting: boolean;
@@ -66,7 +79,8 @@ const TRADE_COOLDOWN_MS = 2000; // Minimum 2 seconds between trades (system limi
 const MAX_CONCURRENT_TRADES = 1; // Execute one at a time for wallet safety
 
 export function useLiveTradingOrchestrator() {
-  const { wallet, signAndSendTransaction, refreshBalance } = useWallet();
+  const { wallet, signAndSendTransaction, signAndSendTransactionAs, signAllTransactionsAs, refreshBalance } = useWallet();
+  const { wallets: tradingWallets, refreshSignable } = useTradingWallets();
   const { openModal: openWalletModal } = useWalletModal();
   const tradingEngine = useTradingEngine();
   const { snipeToken, exitPosition, createConfig } = tradingEngine;
@@ -113,6 +127,11 @@ export function useLiveTradingOrchestrator() {
    * Validate prerequisites for live trading
    */
   const validatePrerequisites = useCallback((): { valid: boolean; error?: string } => {
+    // Registered trading wallets carry their own budgets - capacity is checked per trade
+    if (tradingWallets.length > 0) {
+      return settings ? { valid: true } : { valid: false, error: 'Trading settings not loaded' };
+    }
+
     // Check wallet connection
     if (!wallet.isConnected || wallet.network !== 'solana' || !wallet.address) {
       return { valid: false, error: 'Solana wallet not connected' };
@@ -132,18 +151,54 @@ export function useLiveTradingOrchestrator() {
     }
 
     return { valid: true };
-  }, [wallet, settings]);
+  }, [wallet, settings, tradingWallets.length]);
+
+  /**
+   * Pick the wallet a new sniper buy is opened from. Without registered trading wallets
+   * this is the connected wallet; otherwise the one with sniper assignment and budget left.
+   */
+  const resolveTradeWallet = useCallback((tradeSol: number): { wallet: TradeWallet | null; error?: string } => {
+    if (tradingWallets.length === 0) {
+      if (!wallet.address) return { wallet: null, error: 'No wallet address' };
+      const connected = wallet.address;
+      return {
+        wallet: {
+          address: connected,
+          label: null,
+          signAndSend: signAndSendTransaction,
+          signAll: (txs) => signAllTransactionsAs(connected, txs),
+        },
+      };
+    }
+
+    const selection = selectTradingWallet(tradingWallets, openPositions, {
+      strategy: 'sniper',
+      tradeSol,
+      signableAddresses: refreshSignable(),
+    });
+    if (!selection.wallet) {
+      return { wallet: null, error: describeSkippedWallets(selection.skipped) || 'No trading wallet assigned to the sniper' };
+    }
+
+    const address = selection.wallet.address;
+    return {
+      wallet: {
+        address,
+        label: selection.wallet.label,
+        signAndSend: (tx) => signAndSendTransactionAs(address, tx),
+        signAll: (txs) => signAllTransactionsAs(address, txs),
+      },
+    };
+  }, [tradingWallets, openPositions, wallet.address, signAndSendTransaction, signAndSendTransactionAs, signAllTransactionsAs, refreshSignable]);
 
   /**
    * Execute a single trade with the trading engine
    */
   const executeSingleTrade = useCallback(async (
     token: ApprovedToken,
-    settings: SniperSettings
+    settings: SniperSettings,
+    tradeWallet: TradeWallet
   ): Promise<LiveTradeResult> => {
-    if (!wallet.address) {
-      return { success: false, error: 'No wallet address' };
-    }
 
     // CRITICAL: Pre-validate token is sellable before executing buy
     if (token.isTradeable === false || token.canBuy === false) {
@@ -169,7 +224,7 @@ export function useLiveTradingOrchestrator() {
       message: `🚀 Executing BUY: ${token.name} (${token.symbol})`,
       tokenSymbol: token.symbol,
       tokenAddress: token.address,
-      details: `🪙 Token: ${token.name} (${token.symbol})\n💧 Liquidity: ${liquidityText} | 👤 Buyer Pos: ${buyerPosText} | 🛡️ Safety: ${safetyScoreText}\n⚙️ User Settings: ${settings.trade_amount} SOL | Slippage: ${settings.slippage_tolerance || 15}% | Priority: ${settings.priority} | TP: ${settings.profit_take_percentage}% | SL: ${settings.stop_loss_percentage}%`,
+      details: `🪙 Token: ${token.name} (${token.symbol})\n💧 Liquidity: ${liquidityText} | 👤 Buyer Pos: ${buyerPosText} | 🛡️ Safety: ${safetyScoreText}\n👛 Wallet: ${tradeWallet.label || `${tradeWallet.address.slice(0, 4)}...${tradeWallet.address.slice(-4)}`}\n⚙️ User Settings: ${settings.trade_amount} SOL | Slippage: ${settings.slippage_tolerance || 15}% | Priority: ${settings.priority} | TP: ${settings.profit_take_percentage}% | SL: ${settings.stop_loss_percentage}%`,
     });
 
     try {
@@ -208,9 +263,10 @@ export function useLiveTradingOrchestrator() {
       // Execute via 3-stage trading engine
       const result = await snipeToken(
         token.address,
-        wallet.address,
-        signAndSendTransaction,
-        config
+        tradeWallet.address,
+        tradeWallet.signAndSend,
+        config,
+        tradeWallet.signAll
       );
 
       if (!result) {
@@ -249,7 +305,8 @@ export function useLiveTradingOrchestrator() {
             position.entryPrice,
             position.tokenAmount,
             settings.profit_take_percentage,
-            settings.stop_loss_percentage
+            settings.stop_loss_percentage,
+            { walletAddress: tradeWallet.address, entrySol: position.solSpent }
           );
 
           // Log comprehensive trade details with liquidity, safety, position info
@@ -311,7 +368,7 @@ export function useLiveTradingOrchestrator() {
 
       return { success: false, error: errorMessage, source: 'trading-engine' };
     }
-  }, [wallet.address, signAndSendTransaction, snipeToken, createPosition, createConfig]);
+  }, [snipeToken, createPosition, createConfig]);
 
   /**
    * Process the pending trade queue
@@ -372,6 +429,22 @@ export function useLiveTradingOrchestrator() {
         continue;
       }
 
+      // Pick the trading wallet before spending time on route checks
+      const walletChoice = resolveTradeWallet(settings!.trade_amount);
+      if (!walletChoice.wallet) {
+        addBotLog({
+          level: 'warning',
+          category: 'trade',
+          message: `👛 No wallet capacity: ${token.symbol} - skipped`,
+          tokenSymbol: token.symbol,
+          tokenAddress: token.address,
+          details: walletChoice.error,
+        });
+        await markPending(token.address, 'no_wallet_capacity');
+        executedTokensRef.current.add(token.address); // Prevent immediate retry
+        continue;
+      }
+
       // Enforce cooldown
       const timeSinceLastTrade = Date.now() - state.lastTradeTime;
       if (timeSinceLastTrade < TRADE_COOLDOWN_MS) {
@@ -443,7 +516,7 @@ export function useLiveTradingOrchestrator() {
         currentToken: token.address,
       }));
 
-      const result = await executeSingleTrade(token, settings!);
+      const result = await executeSingleTrade(token, settings!, walletChoice.wallet);
 
       // Mark as executed regardless of result - use ref for immediate effect
       executedTokensRef.current.add(token.address);
@@ -491,7 +564,7 @@ export function useLiveTradingOrchestrator() {
     }));
     
     executingRef.current = false;
-  }, [validatePrerequisites, state.lastTradeTime, settings, executeSingleTrade, toast, refreshBalance, fetchPositions, openWalletModal, tokenStatesInitialized, canTradeToken, markTraded, markPending, markRejected]);
+  }, [validatePrerequisites, resolveTradeWallet, state.lastTradeTime, settings, executeSingleTrade, toast, refreshBalance, fetchPositions, openWalletModal, tokenStatesInitialized, canTradeToken, markTraded, markPending, markRejected]);
 
   /**
    * Queue approved tokens for execution
@@ -553,8 +626,13 @@ export function useLiveTradingOrchestrator() {
       return { success: false, error: prerequisites.error };
     }
 
-    return executeSingleTrade(token, settings!);
-  }, [validatePrerequisites, settings, executeSingleTrade, openWalletModal]);
+    const walletChoice = resolveTradeWallet(settings!.trade_amount);
+    if (!walletChoice.wallet) {
+      return { success: false, error: walletChoice.error };
+    }
+
+    return executeSingleTrade(token, settings!, walletChoice.wallet);
+  }, [validatePrerequisites, resolveTradeWallet, settings, executeSingleTrade, openWalletModal]);
 
   /**
    * Clear the execution queue
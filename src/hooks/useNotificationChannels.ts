@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  validateChannelConfig,
+  type ChannelConfig,
+  type ChannelKind,
+  type NotificationEventType,
+} from '@shared/notification-channels';
+
+export interface NotificationChannelRecord {
+  id: string;
+  kind: ChannelKind;
+  label: string | null;
+  config: ChannelConfig;
+  is_enabled: boolean;
+  last_delivery_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface NotificationRoute {
+  id: string;
+  event: NotificationEventType;
+  channel_id: string;
+}
+
+export function useNotificationChannels() {
+  const [channels, setChannels] = useState<NotificationChannelRecord[]>([]);
+  const [routes, setRoutes] = useState<NotificationRoute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchAll = useCallback(async () => {
+    if (!user) {
+      setChannels([]);
+      setRoutes([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [channelsRes, routesRes] = await Promise.all([
+        supabase
+          .from('notification_channels')
+          .select('id, kind, label, config, is_enabled, last_delivery_at, last_error, created_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('notification_routes')
+          .select('id, event, channel_id')
+          .eq('user_id', user.id),
+      ]);
+      if (channelsRes.error) throw channelsRes.error;
+      if (routesRes.error) throw routesRes.error;
+      setChannels((channelsRes.data as unknown as NotificationChannelRecord[]) || []);
+      setRoutes((routesRes.data as unknown as NotificationRoute[]) || []);
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error loading notification channels',
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const addChannel = useCallback(async (kind: ChannelKind, label: string | null, config: ChannelConfig) => {
+    if (!user) return null;
+    const invalid = validateChannelConfig(kind, config);
+    if (invalid) {
+      toast({ title: 'Invalid channel', description: invalid, variant: 'destructive' });
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('notification_channels')
+      .insert({ user_id: user.id, kind, label, config: config as unknown as Json })
+      .select('id, kind, label, config, is_enabled, last_delivery_at, last_error, created_at')
+      .single();
+    if (error) {
+      toast({ title: 'Error adding channel', description: error.message, variant: 'destructive' });
+      return null;
+    }
+    const created = data as unknown as NotificationChannelRecord;
+    setChannels((prev) => [...prev, created]);
+    toast({ title: 'Channel added', description: 'Route event types to it below' });
+    return created;
+  }, [user, toast]);
+
+  const setChannelEnabled = useCallback(async (id: string, isEnabled: boolean) => {
+    setChannels((prev) => prev.map((c) => (c.id === id ? { ...c, is_enabled: isEnabled } : c)));
+    const { error } = await supabase.from('notification_channels').update({ is_enabled: isEnabled }).eq('id', id);
+    if (error) {
+      toast({ title: 'Error updating channel', description: error.message, variant: 'destructive' });
+      fetchAll();
+    }
+  }, [toast, fetchAll]);
+
+  const removeChannel = useCallback(async (id: string) => {
+    const { error } = await supabase.from('notification_channels').delete().eq('id', id);
+    if (error) {
+      toast({ title: 'Error removing channel', description: error.message, variant: 'destructive' });
+      return;
+    }
+    // Routes go with it (ON DELETE CASCADE)
+    setChannels((prev) => prev.filter((c) => c.id !== id));
+    setRoutes((prev) => prev.filter((r) => r.channel_id !== id));
+  }, [toast]);
+
+  const toggleRoute = useCallback(async (event: NotificationEventType, channelId: string) => {
+    if (!user) return;
+    const existing = routes.find((r) => r.event === event && r.channel_id === channelId);
+
+    if (existing) {
+      setRoutes((prev) => prev.filter((r) => r.id !== existing.id));
+      const { error } = await supabase.from('notification_routes').delete().eq('id', existing.id);
+      if (error) {
+        toast({ title: 'Error updating routing', description: error.message, variant: 'destructive' });
+        fetchAll();
+      }
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('notification_routes')
+      .insert({ user_id: user.id, event, channel_id: channelId })
+      .select('id, event, channel_id')
+      .single();
+    if (error) {
+      toast({ title: 'Error updating routing', description: error.message, variant: 'destructive' });
+      return;
+    }
+    setRoutes((prev) => [...prev, data as unknown as NotificationRoute]);
+  }, [user, routes, toast, fetchAll]);
+
+  const testChannel = useCallback(async (id: string) => {
+    const { data, error } = await supabase.functions.invoke('notify', {
+      body: { action: 'test_channel', channelId: id },
+    });
+    if (error || !data?.success) {
+      const message = error ? await getFunctionErrorMessage(error) : data?.error || 'Delivery failed';
+      toast({ title: 'Test failed', description: message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Test sent', description: 'Check the channel for the test message' });
+    }
+    fetchAll();
+  }, [toast, fetchAll]);
+
+  return {
+    channels,
+    routes,
+    loading,
+    addChannel,
+    setChannelEnabled,
+    removeChannel,
+    toggleRoute,
+    testChannel,
+    refetch: fetchAll,
+  };
+}
@@ -1,115 +1,247 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import type { Json } from '@/integrations/supabase/types';
+import type { NotificationEventType } from '@shared/notification-channels';
 
 export interface Notification {
   id: string;
   title: string;
   message: string;
   type: 'info' | 'success' | 'warning' | 'error' | 'trade';
+  event: NotificationEventType;
   read: boolean;
   created_at: string;
   metadata?: Record<string, any>;
 }
 
-const NOTIFICATIONS_STORAGE_KEY_PREFIX = 'meme_sniper_notifications_';
+export type NewNotification = Omit<Notification, 'id' | 'created_at' | 'read' | 'event'> & {
+  event?: NotificationEventType;
+};
+
+// Pre-server notifications, imported once per user then removed
+const LEGACY_STORAGE_KEY_PREFIX = 'meme_sniper_notifications_';
 const MAX_NOTIFICATIONS = 50;
 
-// Get user-specific storage key
-const getStorageKey = (userId: string | null): string => {
-  return userId ? `${NOTIFICATIONS_STORAGE_KEY_PREFIX}${userId}` : `${NOTIFICATIONS_STORAGE_KEY_PREFIX}anonymous`;
-};
+// One store and one realtime channel per signed-in user, shared by every useNotifications()
+// caller (bell, dashboard, pages and the trading hooks all mount it).
+interface NotificationStore {
+  userId: string;
+  notifications: Notification[];
+  loading: boolean;
+  channel: RealtimeChannel | null;
+  refCount: number;
+}
+
+let store: NotificationStore | null = null;
+const subscribers = new Set<() => void>();
 
-// Load notifications from localStorage for specific user
-const loadFromStorage = (userId: string | null): Notification[] => {
+function emit() {
+  subscribers.forEach((cb) => cb());
+}
+
+function setStoreNotifications(update: (prev: Notification[]) => Notification[]) {
+  if (!store) return;
+  store.notifications = update(store.notifications).slice(0, MAX_NOTIFICATIONS);
+  emit();
+}
+
+function toNotification(row: Record<string, unknown>): Notification {
+  return {
+    id: row.id as string,
+    title: row.title as string,
+    message: row.message as string,
+    type: ((row.type as string) || 'info') as Notification['type'],
+    event: ((row.event as string) || 'system') as NotificationEventType,
+    read: Boolean(row.read),
+    created_at: row.created_at as string,
+    metadata: (row.metadata as Notification['metadata'] | null) ?? undefined,
+  };
+}
+
+async function importLegacyNotifications(userId: string) {
+  const key = `${LEGACY_STORAGE_KEY_PREFIX}${userId}`;
   try {
-    const key = getStorageKey(userId);
     const stored = localStorage.getItem(key);
-    if (stored) {
-      return JSON.parse(stored);
+    if (!stored) return;
+    const legacy = JSON.parse(stored) as Partial<Notification>[];
+    if (legacy.length > 0) {
+      const { error } = await supabase.from('notifications').upsert(
+        legacy.slice(0, MAX_NOTIFICATIONS).map((n) => ({
+          id: n.id,
+          user_id: userId,
+          title: n.title || 'Notification',
+          message: n.message || '',
+          type: n.type || 'info',
+          read: n.read ?? true,
+          metadata: (n.metadata ?? null) as Json,
+          created_at: n.created_at,
+          // Old alerts must not fire external channels now
+          dispatched_at: new Date().toISOString(),
+        })),
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+      if (error) throw error;
     }
+    localStorage.removeItem(key);
   } catch (error) {
-    console.error('Failed to load notifications from storage:', error);
+    console.error('Failed to import stored notifications:', error);
   }
-  return [];
-};
+}
 
-// Save notifications to localStorage for specific user
-const saveToStorage = (notifications: Notification[], userId: string | null) => {
-  try {
-    // Keep only the most recent notifications
-    const trimmed = notifications.slice(0, MAX_NOTIFICATIONS);
-    const key = getStorageKey(userId);
-    localStorage.setItem(key, JSON.stringify(trimmed));
-  } catch (error) {
-    console.error('Failed to save notifications to storage:', error);
+async function loadNotifications(userId: string) {
+  await importLegacyNotifications(userId);
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('id, title, message, type, event, read, created_at, metadata')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_NOTIFICATIONS);
+
+  if (!store || store.userId !== userId) return;
+  if (error) console.error('Failed to load notifications:', error);
+  store.notifications = (data || []).map((row) => toNotification(row as Record<string, unknown>));
+  store.loading = false;
+  emit();
+}
+
+function acquireStore(userId: string) {
+  if (store && store.userId !== userId) releaseStore(true);
+  if (!store) {
+    store = { userId, notifications: [], loading: true, channel: null, refCount: 0 };
+    store.channel = supabase
+      .channel(`notifications_${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const inserted = toNotification(payload.new as Record<string, unknown>);
+            // Our own inserts are already in the list (optimistic add)
+            setStoreNotifications((prev) => prev.some((n) => n.id === inserted.id) ? prev : [inserted, ...prev]);
+          } else if (payload.eventType === 'UPDATE') {
+            const updated = toNotification(payload.new as Record<string, unknown>);
+            setStoreNotifications((prev) => prev.map((n) => n.id === updated.id ? updated : n));
+          } else if (payload.eventType === 'DELETE') {
+            const deleted = payload.old as { id: string };
+            setStoreNotifications((prev) => prev.filter((n) => n.id !== deleted.id));
+          }
+        }
+      )
+      .subscribe();
+    void loadNotifications(userId);
   }
-};
+  store.refCount++;
+}
+
+function releaseStore(force = false) {
+  if (!store) return;
+  store.refCount--;
+  if (force || store.refCount <= 0) {
+    if (store.channel) supabase.removeChannel(store.channel);
+    store = null;
+  }
+}
 
 export function useNotifications() {
   const { user } = useAuth();
   const userId = user?.id ?? null;
-  
-  // Initialize with user-specific notifications
   const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(false);
 
-  // CRITICAL: Load user-specific notifications when user changes
   useEffect(() => {
-    setNotifications(loadFromStorage(userId));
-  }, [userId]);
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
 
-  // Calculate unread count
-  useEffect(() => {
-    setUnreadCount(notifications.filter(n => !n.read).length);
-  }, [notifications]);
+    acquireStore(userId);
+    const sync = () => {
+      setNotifications(store?.userId === userId ? store.notifications : []);
+      setLoading(store?.loading ?? false);
+    };
+    subscribers.add(sync);
+    sync();
 
-  // Persist to user-specific localStorage whenever notifications change
-  useEffect(() => {
-    saveToStorage(notifications, userId);
-  }, [notifications, userId]);
+    return () => {
+      subscribers.delete(sync);
+      releaseStore();
+    };
+  }, [userId]);
+
+  const unreadCount = notifications.filter(n => !n.read).length;
 
   // Mark notification as read
-  const markAsRead = useCallback((notificationId: string) => {
-    setNotifications(prev => 
-      prev.map(n => 
-        n.id === notificationId ? { ...n, read: true } : n
-      )
-    );
+  const markAsRead = useCallback(async (notificationId: string) => {
+    setStoreNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, read: true } : n));
+    await supabase.from('notifications').update({ read: true }).eq('id', notificationId);
   }, []);
 
   // Mark all as read
-  const markAllAsRead = useCallback(() => {
-    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
-  }, []);
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+    setStoreNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    await supabase.from('notifications').update({ read: true }).eq('user_id', userId).eq('read', false);
+  }, [userId]);
 
-  // Add a new notification
-  const addNotification = useCallback((notification: Omit<Notification, 'id' | 'created_at' | 'read'>) => {
+  /**
+   * Store a notification (every signed-in device sees it through realtime) and hand it to
+   * the notify function, which forwards it to the channels routed for its event type.
+   */
+  const addNotification = useCallback((notification: NewNotification) => {
     const newNotification: Notification = {
       ...notification,
+      event: notification.event ?? 'system',
       id: crypto.randomUUID(),
       created_at: new Date().toISOString(),
       read: false,
     };
-    setNotifications(prev => [newNotification, ...prev].slice(0, MAX_NOTIFICATIONS));
+    if (!userId) return newNotification;
+
+    setStoreNotifications(prev => [newNotification, ...prev]);
+    void (async () => {
+      const { error } = await supabase.from('notifications').insert({
+        id: newNotification.id,
+        user_id: userId,
+        title: newNotification.title,
+        message: newNotification.message,
+        type: newNotification.type,
+        event: newNotification.event,
+        metadata: (newNotification.metadata ?? null) as Json,
+        created_at: newNotification.created_at,
+      });
+      if (error) {
+        console.error('Failed to save notification:', error);
+        return;
+      }
+      const { error: dispatchError } = await supabase.functions.invoke('notify', {
+        body: { action: 'dispatch', notificationId: newNotification.id },
+      });
+      if (dispatchError) console.warn('[Notifications] Channel dispatch failed:', dispatchError.message);
+    })();
     return newNotification;
-  }, []);
+  }, [userId]);
 
   // Delete a notification
-  const deleteNotification = useCallback((notificationId: string) => {
-    setNotifications(prev => prev.filter(n => n.id !== notificationId));
+  const deleteNotification = useCallback(async (notificationId: string) => {
+    setStoreNotifications(prev => prev.filter(n => n.id !== notificationId));
+    await supabase.from('notifications').delete().eq('id', notificationId);
   }, []);
 
   // Clear all notifications
-  const clearAll = useCallback(() => {
-    setNotifications([]);
-  }, []);
+  const clearAll = useCallback(async () => {
+    if (!userId) return;
+    setStoreNotifications(() => []);
+    await supabase.from('notifications').delete().eq('user_id', userId);
+  }, [userId]);
 
-  // Refresh (reload from storage)
-  const refresh = useCallback(() => {
-    setLoading(true);
-    setNotifications(loadFromStorage(userId));
-    setLoading(false);
+  // Refresh (reload from the server)
+  const refresh = useCallback(async () => {
+    if (!userId || !store) return;
+    store.loading = true;
+    emit();
+    await loadNotifications(userId);
   }, [userId]);
 
   return {
@@ -0,0 +1,93 @@
+/**
+ * Streaming Pool Discovery Hook
+ *
+ * Keeps a logsSubscribe stream open on the pool programs while enabled and hands new pools
+ * to the token scanner in small batches. Needs a WebSocket-capable RPC (VITE_HELIUS_WS_URL,
+ * or VITE_HELIUS_RPC_URL which is converted to wss://); without one the hook stays idle and
+ * discovery falls back to polling only.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createPoolStream,
+  type LiquidityInfo,
+  type PoolStreamStats,
+  type PoolStreamStatus,
+  type StreamTransaction,
+} from '@/lib/trading-engine';
+
+interface UsePoolStreamOptions {
+  enabled: boolean;
+  /** Receives each batch of new pools (at most one call per batch interval) */
+  onPools: (pools: LiquidityInfo[]) => void | Promise<unknown>;
+  /** Mints already tracked in token_processing_states */
+  isKnown?: (tokenAddress: string) => boolean;
+  /** Batch window in ms (default: 2000) */
+  batchMs?: number;
+}
+
+const RPC_URL: string | undefined = import.meta.env.VITE_HELIUS_RPC_URL;
+const WS_URL: string | undefined = import.meta.env.VITE_HELIUS_WS_URL || RPC_URL?.replace(/^http/, 'ws');
+
+async function fetchTransaction(signature: string): Promise<StreamTransaction | null> {
+  if (!RPC_URL) return null;
+  const response = await fetch(RPC_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'getTransaction',
+      params: [signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }],
+    }),
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  return data.result ?? null;
+}
+
+export function usePoolStream({ enabled, onPools, isKnown, batchMs = 2000 }: UsePoolStreamOptions) {
+  const [status, setStatus] = useState<PoolStreamStatus>('closed');
+  const [stats, setStats] = useState<PoolStreamStats | null>(null);
+
+  // Latest callbacks without restarting the socket on every render
+  const onPoolsRef = useRef(onPools);
+  const isKnownRef = useRef(isKnown);
+  onPoolsRef.current = onPools;
+  isKnownRef.current = isKnown;
+
+  const pendingRef = useRef<LiquidityInfo[]>([]);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    flushTimerRef.current = null;
+    const batch = pendingRef.current.splice(0, pendingRef.current.length);
+    if (batch.length > 0) void onPoolsRef.current(batch);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !WS_URL) return;
+
+    const stream = createPoolStream({
+      wsUrl: WS_URL,
+      fetchTransaction,
+      isKnown: (mint) => isKnownRef.current?.(mint) ?? false,
+      onStatus: setStatus,
+      onPool: (pool) => {
+        pendingRef.current.push(pool);
+        setStats(stream.stats());
+        if (!flushTimerRef.current) flushTimerRef.current = setTimeout(flush, batchMs);
+      },
+    });
+    stream.start();
+
+    return () => {
+      stream.stop();
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+      flushTimerRef.current = null;
+      pendingRef.current = [];
+    };
+  }, [enabled, batchMs, flush]);
+
+  return { status, stats, available: !!WS_URL };
+}
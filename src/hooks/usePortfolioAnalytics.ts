@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAppMode } from '@/contexts/AppModeContext';
+import { useDemoPortfolio } from '@/contexts/DemoPortfolioContext';
+import { useDisplayUnit } from '@/contexts/DisplayUnitContext';
+import {
+  buildPortfolioAnalytics,
+  type AnalyticsPosition,
+  type AnalyticsTrade,
+  type DiscoveryContext,
+} from '@/lib/portfolioAnalytics';
+
+const POSITION_LIMIT = 2000;
+const DISCOVERY_QUERY_CHUNK = 100;
+
+/**
+ * Performance analytics over the user's positions and trade history. In demo mode the same
+ * metrics are built from the demo positions instead.
+ */
+export function usePortfolioAnalytics() {
+  const { user } = useAuth();
+  const { isDemo } = useAppMode();
+  const { demoPositions } = useDemoPortfolio();
+  const { solPrice } = useDisplayUnit();
+  const [positions, setPositions] = useState<AnalyticsPosition[]>([]);
+  const [trades, setTrades] = useState<AnalyticsTrade[]>([]);
+  const [discoveries, setDiscoveries] = useState<DiscoveryContext[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDiscoveries = useCallback(async (userId: string, addresses: string[]) => {
+    const result: DiscoveryContext[] = [];
+    for (let i = 0; i < addresses.length; i += DISCOVERY_QUERY_CHUNK) {
+      const { data, error: statesError } = await supabase
+        .from('token_processing_states')
+        .select('position_id, token_address, source, buyer_position_at_discovery')
+        .eq('user_id', userId)
+        .in('token_address', addresses.slice(i, i + DISCOVERY_QUERY_CHUNK));
+      if (statesError) throw statesError;
+      result.push(...(data || []).map(row => ({
+        positionId: row.position_id,
+        tokenAddress: row.token_address,
+        source: row.source,
+        buyerPosition: row.buyer_position_at_discovery,
+      })));
+    }
+    return result;
+  }, []);
+
+  const fetchData = useCallback(async () => {
+    if (!user || isDemo) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const [positionsResult, tradesResult] = await Promise.all([
+        supabase
+          .from('positions')
+          .select('id, token_address, token_symbol, status, exit_reason, entry_price, entry_price_usd, entry_sol, entry_value, profit_loss_percent, profit_loss_value, created_at, closed_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(POSITION_LIMIT),
+        supabase
+          .from('trade_history')
+          .select('token_address, trade_type, amount, price_sol, price_usd, exit_reason, created_at')
+          .eq('user_id', user.id)
+          .eq('trade_type', 'sell')
+          .eq('exit_reason', 'partial_take_profit'),
+      ]);
+      if (positionsResult.error) throw positionsResult.error;
+      if (tradesResult.error) throw tradesResult.error;
+
+      const loadedPositions = positionsResult.data || [];
+      const addresses = [...new Set(loadedPositions.map(p => p.token_address))];
+      setDiscoveries(await loadDiscoveries(user.id, addresses));
+      setPositions(loadedPositions);
+      setTrades(tradesResult.data || []);
+    } catch (err: unknown) {
+      console.error('Failed to load portfolio analytics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, isDemo, loadDiscoveries]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    if (!user || isDemo) return;
+    const channel = supabase
+      .channel(`portfolio-analytics-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'positions', filter: `user_id=eq.${user.id}` },
+        () => fetchData()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, isDemo, fetchData]);
+
+  const analytics = useMemo(() => {
+    if (isDemo) {
+      return buildPortfolioAnalytics({
+        positions: demoPositions.map(p => ({ ...p, entry_price_usd: p.entry_price, entry_sol: null })),
+        trades: [],
+        discoveries: [],
+        solPrice,
+        now: Date.now(),
+      });
+    }
+    return buildPortfolioAnalytics({ positions, trades, discoveries, solPrice, now: Date.now() });
+  }, [isDemo, demoPositions, positions, trades, discoveries, solPrice]);
+
+  return { analytics, loading: loading && !isDemo, error, refetch: fetchData };
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { fetchDexScreenerPrices, fetchDexScreenerTokenMetadata, isLikelyRealSolanaMint } from '@/lib/dexscreener';
 import { isPlaceholderText } from '@/lib/formatters';
+import type { ExitAction, ExitPlan } from '@/lib/exitPlan';
 export interface Position {
   id: string;
   user_id: string;
@@ -29,12 +31,20 @@ export interface Position {
   created_at: string;
   updated_at: string;
   closed_at: string | null;
+  // Exit plan state (null exit_plan = user's default plan)
+  exit_plan?: ExitPlan | null;
+  peak_price?: number | null;
+  initial_amount?: number | null;
+  exit_tiers_filled?: number[];
+  // Trading wallet that opened the position (null = legacy, exits use the connected wallet)
+  wallet_address?: string | null;
+  entry_sol?: number | null;
 }
 
 export interface ExitResult {
   positionId: string;
   symbol: string;
-  action: 'hold' | 'take_profit' | 'stop_loss';
+  action: ExitAction;
   currentPrice: number;
   profitLossPercent: number;
   executed: boolean;
@@ -220,7 +230,8 @@ export function usePositions() {
     entryPrice: number,
     amount: number,
     profitTakePercent: number,
-    stopLossPercent: number
+    stopLossPercent: number,
+    origin?: { walletAddress?: string | null; entrySol?: number | null }
   ): Promise<Position | null> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -243,6 +254,8 @@ export function usePositions() {
           current_value: entryValue,
           profit_take_percent: profitTakePercent,
           stop_loss_percent: stopLossPercent,
+          wallet_address: origin?.walletAddress ?? null,
+          entry_sol: origin?.entrySol ?? null,
         })
         .select()
         .single();
@@ -345,6 +358,33 @@ export function usePositions() {
 
   // Close a position manually
   // CRITICAL: Now accepts optional exitTxId to record the on-chain transaction hash
+  // Set or clear (null = inherit the user's default) the exit plan of one position
+  const updatePositionExitPlan = useCallback(async (positionId: string, exitPlan: ExitPlan | null): Promise<boolean> => {
+    try {
+      const { error } = await supabase
+        .from('positions')
+        .update({ exit_plan: exitPlan as unknown as Json })
+        .eq('id', positionId);
+
+      if (error) throw error;
+
+      setPositions(prev => prev.map(p => (p.id === positionId ? { ...p, exit_plan: exitPlan } : p)));
+      toast({
+        title: 'Exit Plan Updated',
+        description: exitPlan ? 'Position will follow its own exit plan' : 'Position now uses your default exit plan',
+      });
+      return true;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error updating exit plan',
+        description: err.message,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [toast]);
+
   const closePosition = useCallback(async (
     positionId: string, 
     exitPrice: number,
@@ -713,6 +753,7 @@ export function usePositions() {
     createPosition,
     checkExitConditions,
     closePosition,
+    updatePositionExitPlan,
     updatePricesFromDexScreener,
   };
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { RuleTokenInput } from '@shared/rule-dsl';
+import type { DiscoverySnapshot } from '@/hooks/useTokenStateManager';
+
+export interface RecentDiscovery {
+  token: RuleTokenInput;
+  discoveredAt: number;   // unix ms - rules see token age as of this moment
+}
+
+/**
+ * The user's most recently scanned tokens, shaped for entry rule previews
+ */
+export function useRecentDiscoveries(limit = 50) {
+  const { user } = useAuth();
+  const [discoveries, setDiscoveries] = useState<RecentDiscovery[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchDiscoveries = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('token_processing_states')
+        .select('token_address, token_name, token_symbol, discovered_at, liquidity_at_discovery, risk_score_at_discovery, buyer_position_at_discovery, price_usd_at_discovery, discovery_snapshot')
+        .eq('user_id', user.id)
+        .order('discovered_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      setDiscoveries((data || []).map(row => {
+        const extra = (row.discovery_snapshot || {}) as Partial<DiscoverySnapshot>;
+        return {
+          discoveredAt: new Date(row.discovered_at).getTime(),
+          token: {
+            address: extra.address || row.token_address,
+            name: row.token_name || '',
+            symbol: row.token_symbol || row.token_address.slice(0, 6),
+            liquidity: Number(row.liquidity_at_discovery) || 0,
+            liquidityLocked: extra.liquidityLocked ?? null,
+            buyerPosition: row.buyer_position_at_discovery,
+            riskScore: row.risk_score_at_discovery,
+            holders: extra.holders ?? null,
+            priceUsd: row.price_usd_at_discovery ?? extra.priceUsd ?? null,
+            createdAt: extra.createdAt ?? null,
+          },
+        };
+      }));
+    } catch (err) {
+      console.error('[RecentDiscoveries] Failed to load:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, limit]);
+
+  useEffect(() => {
+    fetchDiscoveries();
+  }, [fetchDiscoveries]);
+
+  return { discoveries, loading, refetch: fetchDiscoveries };
+}
@@ -2,13 +2,26 @@ import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_BREAKER_CONFIG,
+  parseBreakerConfig,
+  type BreakerEvaluation,
+  type BreakerLevel,
+  type BreakerStrategy,
+  type BreakerTrigger,
+  type BreakerUnit,
+  type CircuitBreakerConfig,
+} from '@shared/circuit-breaker';
 
 export interface RiskSettings {
   emergency_stop_active: boolean;
   circuit_breaker_enabled: boolean;
-  circuit_breaker_loss_threshold: number;
+  // Cooldown: how long a tripped level holds after losses recover
   circuit_breaker_time_window_minutes: number;
   circuit_breaker_triggered_at: string | null;
+  circuit_breaker_config: CircuitBreakerConfig;
+  circuit_breaker_level: BreakerLevel;
+  circuit_breaker_paused_strategies: BreakerStrategy[];
   max_risk_score: number;
   require_ownership_renounced: boolean;
   require_liquidity_locked: boolean;
@@ -24,7 +37,7 @@ export interface RiskCheckResult {
     blacklist: { passed: boolean; blacklisted: boolean };
     ownershipRenounced: { passed: boolean; renounced: boolean };
     liquidityLocked: { passed: boolean; locked: boolean; percentage: number | null };
-    taxCheck: { passed: boolean; buyTax: number; sellTax: number };
+    taxCheck: { passed: boolean; buyTax: number; sellTax: number; source: 'simulation' | 'api' | 'default' };
   };
   rejectionReasons: string[];
   circuitBreakerTriggered: boolean;
@@ -43,29 +56,77 @@ export interface RiskCheckLog {
   lock_percentage: number | null;
   buy_tax: number;
   sell_tax: number;
+  tax_source: 'simulation' | 'api' | 'default';
   risk_score: number;
   passed_checks: boolean;
   rejection_reasons: string[];
   checked_at: string;
 }
 
+export interface CircuitBreakerStatus {
+  level: BreakerLevel;
+  sizeFactor: number;
+  pausedStrategies: BreakerStrategy[];
+  reason: string | null;
+  triggeredAt: string | null;
+  cooldownUntil: string | null;
+  evaluation: BreakerEvaluation | null;
+}
+
+export interface CircuitBreakerTripLog {
+  id: string;
+  level: Exclude<BreakerLevel, 'none'>;
+  trigger: BreakerTrigger;
+  strategy: BreakerStrategy | null;
+  loss_amount: number;
+  limit_value: number;
+  unit: BreakerUnit;
+  position_ids: string[];
+  message: string;
+  created_at: string;
+  // Resolved from position_ids for display
+  positions: { id: string; token_symbol: string; entry_sol: number | null; profit_loss_percent: number | null }[];
+}
+
+export const BREAKER_LEVEL_LABELS: Record<BreakerLevel, string> = {
+  none: 'Ready',
+  reduce_size: 'Reducing size',
+  pause_entries: 'Entries paused',
+  emergency_stop: 'Emergency stop',
+};
+
 const defaultSettings: RiskSettings = {
   emergency_stop_active: false,
   circuit_breaker_enabled: true,
-  circuit_breaker_loss_threshold: 20,
   circuit_breaker_time_window_minutes: 60,
   circuit_breaker_triggered_at: null,
+  circuit_breaker_config: DEFAULT_BREAKER_CONFIG,
+  circuit_breaker_level: 'none',
+  circuit_breaker_paused_strategies: [],
   max_risk_score: 70,
   require_ownership_renounced: true,
   require_liquidity_locked: true,
   max_tax_percent: 10,
 };
 
+// The config column defaults to {} - fill in the defaults the server evaluates with
+function normalizeSettings(raw: Record<string, unknown>): RiskSettings {
+  return {
+    ...defaultSettings,
+    ...raw,
+    circuit_breaker_config: parseBreakerConfig(raw.circuit_breaker_config),
+    circuit_breaker_level: (raw.circuit_breaker_level as BreakerLevel) || 'none',
+    circuit_breaker_paused_strategies: (raw.circuit_breaker_paused_strategies as BreakerStrategy[]) || [],
+  } as RiskSettings;
+}
+
 export function useRiskCompliance() {
   const [settings, setSettings] = useState<RiskSettings>(defaultSettings);
   const [loading, setLoading] = useState(false);
   const [checkLoading, setCheckLoading] = useState(false);
   const [logs, setLogs] = useState<RiskCheckLog[]>([]);
+  const [breakerStatus, setBreakerStatus] = useState<CircuitBreakerStatus | null>(null);
+  const [breakerTrips, setBreakerTrips] = useState<CircuitBreakerTripLog[]>([]);
   const { toast } = useToast();
   const { user } = useAuth();
 
@@ -77,7 +138,7 @@ export function useRiskCompliance() {
         body: { action: 'get_settings' },
       });
       if (error) throw error;
-      if (data.settings) setSettings(data.settings);
+      if (data.settings) setSettings(normalizeSettings(data.settings));
     } catch (err: any) {
       console.error('Failed to fetch risk settings:', err);
     } finally {
@@ -93,7 +154,7 @@ export function useRiskCompliance() {
         body: { action: 'update_settings', updates },
       });
       if (error) throw error;
-      if (data.settings) setSettings(data.settings);
+      if (data.settings) setSettings(normalizeSettings(data.settings));
       toast({ title: 'Settings Updated', description: 'Risk settings saved successfully' });
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
@@ -131,7 +192,13 @@ export function useRiskCompliance() {
         body: { action: 'reset_circuit_breaker' },
       });
       if (error) throw error;
-      setSettings(prev => ({ ...prev, circuit_breaker_triggered_at: null }));
+      setSettings(prev => ({
+        ...prev,
+        circuit_breaker_triggered_at: null,
+        circuit_breaker_level: 'none',
+        circuit_breaker_paused_strategies: [],
+      }));
+      setBreakerStatus(prev => prev && { ...prev, level: 'none', sizeFactor: 1, pausedStrategies: [], reason: null });
       toast({ title: 'Circuit Breaker Reset', description: 'Trading can now resume' });
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
@@ -176,22 +243,65 @@ export function useRiskCompliance() {
     }
   }, [user]);
 
+  // Re-evaluates server-side, so a trip shows up here as soon as the losses that cause it exist
+  const fetchBreakerStatus = useCallback(async (limit = 20) => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase.functions.invoke('risk-check', {
+        body: { action: 'get_breaker_status', limit },
+      });
+      if (error) throw error;
+      setBreakerStatus(data.status || null);
+
+      const trips = (data.trips || []) as Omit<CircuitBreakerTripLog, 'positions'>[];
+      const positionIds = [...new Set(trips.flatMap(t => t.position_ids))];
+      const { data: positions } = positionIds.length > 0
+        ? await supabase
+            .from('positions')
+            .select('id, token_symbol, entry_sol, profit_loss_percent')
+            .in('id', positionIds)
+        : { data: [] };
+      const byId = new Map((positions || []).map(p => [p.id, p]));
+      setBreakerTrips(trips.map(t => ({
+        ...t,
+        positions: t.position_ids.flatMap(id => byId.get(id) ?? []),
+      })));
+    } catch (err: unknown) {
+      console.error('Failed to fetch circuit breaker status:', err);
+    }
+  }, [user]);
+
+  const updateBreakerConfig = useCallback(async (changes: Partial<CircuitBreakerConfig>) => {
+    const circuit_breaker_config = { ...settings.circuit_breaker_config, ...changes };
+    setSettings(prev => ({ ...prev, circuit_breaker_config }));
+    await updateSettings({ circuit_breaker_config });
+    fetchBreakerStatus();
+  }, [settings.circuit_breaker_config, updateSettings, fetchBreakerStatus]);
+
   useEffect(() => {
     fetchSettings();
   }, [fetchSettings]);
 
+  useEffect(() => {
+    fetchBreakerStatus();
+  }, [fetchBreakerStatus]);
+
   return {
     settings,
     loading,
     checkLoading,
     logs,
+    breakerStatus,
+    breakerTrips,
     fetchSettings,
     updateSettings,
+    updateBreakerConfig,
     toggleEmergencyStop,
     resetCircuitBreaker,
     checkTokens,
     fetchLogs,
+    fetchBreakerStatus,
     isEmergencyStopActive: settings.emergency_stop_active,
-    isCircuitBreakerTriggered: !!settings.circuit_breaker_triggered_at,
+    isCircuitBreakerTriggered: (breakerStatus?.level ?? settings.circuit_breaker_level) !== 'none',
   };
 }
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { listActiveSellLocks, type SellLockInfo } from '@/lib/sellLock';
+
+// Leases run out on their own without a row change - re-read this often to drop them
+const EXPIRY_SWEEP_MS = 5_000;
+
+/** Sell locks currently held on the user's positions, by any tab, device or edge function */
+export function useSellLocks() {
+  const [locks, setLocks] = useState<SellLockInfo[]>([]);
+  const { user } = useAuth();
+
+  const fetchLocks = useCallback(async () => {
+    if (!user) {
+      setLocks([]);
+      return;
+    }
+    try {
+      setLocks(await listActiveSellLocks());
+    } catch (err: unknown) {
+      console.error('Failed to fetch sell locks:', err);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchLocks();
+  }, [fetchLocks]);
+
+  useEffect(() => {
+    if (!user) return;
+    const channel = supabase
+      .channel(`sell-locks-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sell_locks', filter: `user_id=eq.${user.id}` },
+        () => fetchLocks()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchLocks]);
+
+  useEffect(() => {
+    if (locks.length === 0) return;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      setLocks((prev) => prev.filter((lock) => new Date(lock.expiresAt).getTime() > now));
+    }, EXPIRY_SWEEP_MS);
+    return () => clearInterval(timer);
+  }, [locks.length]);
+
+  return { locks, refetch: fetchLocks };
+}
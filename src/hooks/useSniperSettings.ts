@@ -2,6 +2,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { parseExitPlan, type ExitPlan } from '@/lib/exitPlan';
+import { parseEntryRules, type EntryRule } from '@shared/rule-dsl';
+import { DEFAULT_GUARDIAN_CONFIG, parseGuardianConfig, type GuardianConfig } from '@shared/position-guardian';
+import { DEFAULT_CURVE_ENTRY_CONFIG, parseCurveEntryConfig, type CurveEntryConfig } from '@shared/pump-curve';
 
 export type SnipingPriority = 'normal' | 'fast' | 'turbo';
 
@@ -22,6 +26,14 @@ export interface SniperSettings {
   slippage_tolerance?: number;
   // Optional max risk score threshold (0-100)
   max_risk_score?: number;
+  // Default trailing stop / take-profit ladder for new positions (null = fixed TP/SL)
+  exit_plan?: ExitPlan | null;
+  // Custom filter expressions every approved token must also pass (see @shared/rule-dsl)
+  entry_rules?: EntryRule[];
+  // Emergency-exit thresholds for the position guardian (see @shared/position-guardian)
+  guardian_config?: GuardianConfig;
+  // Buying Pump.fun tokens while still on their bonding curve (see @shared/pump-curve)
+  curve_entry?: CurveEntryConfig;
 }
 
 const defaultSettings: Omit<SniperSettings, 'user_id'> = {
@@ -37,6 +49,10 @@ const defaultSettings: Omit<SniperSettings, 'user_id'> = {
   target_buyer_positions: [1, 2, 3, 4, 5], // Allow all buyer positions 1-5
   slippage_tolerance: 15, // 15% default for meme coins
   max_risk_score: 70, // Default max risk score
+  exit_plan: null, // Fixed TP/SL until the user configures a ladder
+  entry_rules: [],
+  guardian_config: DEFAULT_GUARDIAN_CONFIG,
+  curve_entry: DEFAULT_CURVE_ENTRY_CONFIG,
 };
 
 export function useSniperSettings() {
@@ -79,6 +95,10 @@ export function useSniperSettings() {
           target_buyer_positions: (typedData.target_buyer_positions as number[]) || [2, 3],
           slippage_tolerance: (typedData.slippage_tolerance as number) ?? defaultSettings.slippage_tolerance,
           max_risk_score: (typedData.max_risk_score as number) ?? defaultSettings.max_risk_score,
+          exit_plan: parseExitPlan(typedData.exit_plan),
+          entry_rules: parseEntryRules(typedData.entry_rules),
+          guardian_config: parseGuardianConfig(typedData.guardian_config),
+          curve_entry: parseCurveEntryConfig(typedData.curve_entry),
         });
       } else {
         // Return default settings for new users
@@ -134,6 +154,10 @@ export function useSniperSettings() {
         target_buyer_positions: (typedData.target_buyer_positions as number[]) || [2, 3],
         slippage_tolerance: (typedData.slippage_tolerance as number) ?? defaultSettings.slippage_tolerance,
         max_risk_score: (typedData.max_risk_score as number) ?? defaultSettings.max_risk_score,
+        exit_plan: parseExitPlan(typedData.exit_plan),
+        entry_rules: parseEntryRules(typedData.entry_rules),
+        guardian_config: parseGuardianConfig(typedData.guardian_config),
+        curve_entry: parseCurveEntryConfig(typedData.curve_entry),
       });
 
       toast({ title: 'Settings saved successfully' });
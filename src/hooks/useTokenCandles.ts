@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { OHLCV_TIMEFRAMES, type OhlcvCandle } from '@shared/ohlcv';
+import type { OhlcvTimeframe } from '@shared/validation';
+
+export type CandleTimeframe = OhlcvTimeframe;
+export type Candle = OhlcvCandle;
+
+// One of our own fills from trade_history, placed on the chart
+export interface TradeFill {
+  id: string;
+  time: number; // unix seconds
+  side: 'buy' | 'sell';
+  priceUsd: number | null;
+  amount: number;
+  txHash: string | null;
+}
+
+export function useTokenCandles(tokenAddress: string | undefined, timeframe: CandleTimeframe, pairAddress?: string) {
+  const { user } = useAuth();
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [fills, setFills] = useState<TradeFill[]>([]);
+  const [source, setSource] = useState<string | null>(null);
+  const [stale, setStale] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses for a timeframe/token the user already switched away from
+  const requestIdRef = useRef(0);
+
+  const fetchCandles = useCallback(async () => {
+    if (!tokenAddress) return;
+    const requestId = ++requestIdRef.current;
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('token-ohlcv', {
+        body: { tokenAddress, timeframe, pairAddress: pairAddress || undefined },
+      });
+      if (requestId !== requestIdRef.current) return;
+      if (fnError) throw fnError;
+
+      setCandles((data?.candles as Candle[]) || []);
+      setSource(data?.source ?? null);
+      setStale(!!data?.stale);
+      setError(data?.error ?? null);
+    } catch (err: unknown) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load candles');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [tokenAddress, timeframe, pairAddress]);
+
+  const fetchFills = useCallback(async () => {
+    if (!tokenAddress || !user) {
+      setFills([]);
+      return;
+    }
+
+    const { data, error: historyError } = await supabase
+      .from('trade_history')
+      .select('id, created_at, trade_type, price_usd, amount, tx_hash, status')
+      .eq('user_id', user.id)
+      .eq('token_address', tokenAddress)
+      .order('created_at', { ascending: true })
+      .limit(200);
+
+    if (historyError) {
+      console.error('[TokenCandles] Failed to load fills:', historyError);
+      return;
+    }
+
+    setFills(
+      (data || [])
+        .filter((t) => t.status !== 'failed' && (t.trade_type === 'buy' || t.trade_type === 'sell'))
+        .map((t) => ({
+          id: t.id,
+          time: Math.floor(new Date(t.created_at).getTime() / 1000),
+          side: t.trade_type as 'buy' | 'sell',
+          priceUsd: t.price_usd,
+          amount: Number(t.amount),
+          txHash: t.tx_hash,
+        }))
+    );
+  }, [tokenAddress, user]);
+
+  useEffect(() => {
+    setLoading(true);
+    setCandles([]);
+    fetchCandles();
+    // Refresh cadence follows the server cache TTL for the candle resolution
+    const interval = setInterval(fetchCandles, OHLCV_TIMEFRAMES[timeframe].cacheTtlMs);
+    return () => clearInterval(interval);
+  }, [fetchCandles, timeframe]);
+
+  useEffect(() => {
+    fetchFills();
+  }, [fetchFills]);
+
+  const refresh = useCallback(() => {
+    fetchCandles();
+    fetchFills();
+  }, [fetchCandles, fetchFills]);
+
+  return { candles, fills, source, stale, loading, error, refresh };
+}
@@ -4,9 +4,12 @@ import { useToast } from '@/hooks/use-toast';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { fetchDexScreenerPrices, isLikelyRealSolanaMint } from '@/lib/dexscreener';
 import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import type { CreatorReputation } from '@shared/creator-reputation';
+import type { CurveSnapshot } from '@shared/pump-curve';
+import type { LiquidityInfo } from '@/lib/trading-engine';
 
-// Token lifecycle stages (Raydium-only - no bonding curve tokens)
-export type TokenStage = 'LP_LIVE' | 'INDEXING' | 'LISTED';
+// Token lifecycle stages - BONDING_CURVE trades on its Pump.fun curve, MIGRATED just left it for an AMM
+export type TokenStage = 'BONDING_CURVE' | 'MIGRATED' | 'LP_LIVE' | 'INDEXING' | 'LISTED';
 
 export interface TokenStatus {
   tradable: boolean;
@@ -49,6 +52,10 @@ export interface ScannedToken {
   safetyReasons?: string[];  // Array of safety check results
   // NEW: Token lifecycle status
   tokenStatus?: TokenStatus;
+  // Deployer reputation from token-scanner; null when the creator could not be resolved
+  creator?: CreatorReputation | null;
+  // Decoded Pump.fun curve for curve launches (price, progress, reserves)
+  curve?: CurveSnapshot | null;
 }
 
 export interface ApiError {
@@ -459,7 +466,7 @@ export function useTokenScanner() {
         setLastScanStats({
           total: result.stats.total,
           tradeable: result.stats.tradeable,
-          pumpFun: 0, // No Pump.fun tokens in Raydium-only pipeline
+          pumpFun: result.stats.pumpFun || 0,
           filtered: result.stats.filtered,
           stages: result.stats.stages || {
             lpLive: 0,
@@ -507,6 +514,43 @@ export function useTokenScanner() {
     }
   }, [toast, isDemo, isLive, mergeTokens, checkRateLimit, isInitialLoad]);
 
+  // Validate pools pushed by the log stream (usePoolStream) and merge the tradable ones.
+  // Bypasses the scan rate limit - the stream batches, and no polling sources are hit.
+  const validateStreamedPools = useCallback(async (pools: LiquidityInfo[]): Promise<ScannedToken[]> => {
+    if (isDemo || pools.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase.functions.invoke('token-scanner', {
+        body: {
+          chains: ['solana'],
+          streamed: pools.slice(0, 20).map((pool) => ({
+            address: pool.tokenAddress,
+            poolAddress: pool.poolAddress,
+            poolType: pool.poolType,
+            liquidity: pool.liquidityAmount,
+            name: pool.tokenName,
+            symbol: pool.tokenSymbol,
+            detectedAtSlot: pool.blockHeight,
+          })),
+        },
+      });
+
+      if (error) {
+        throw new Error(await getFunctionErrorMessage(error));
+      }
+
+      const result = data as ScanResult;
+      if (result.tokens && result.tokens.length > 0) {
+        mergeTokens(result.tokens);
+        setLastScan(result.timestamp);
+      }
+      return result.tokens || [];
+    } catch (error: unknown) {
+      console.error('Streamed pool validation error:', error);
+      return [];
+    }
+  }, [isDemo, mergeTokens]);
+
   const getTopOpportunities = useCallback((limit: number = 5) => {
     return tokens
       .filter(t => t.buyerPosition && t.buyerPosition <= 5 && t.riskScore < 70)
@@ -628,6 +672,7 @@ export function useTokenScanner() {
     rateLimit,
     lastScanStats,
     scanTokens,
+    validateStreamedPools,
     getTopOpportunities,
     filterByChain,
     filterByRisk,
@@ -13,6 +13,7 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 
 export type TokenState = 'NEW' | 'PENDING' | 'TRADED' | 'REJECTED';
 
@@ -28,6 +29,8 @@ export interface TokenStateRecord {
   liquidity_at_discovery: number | null;
   risk_score_at_discovery: number | null;
   buyer_position_at_discovery: number | null;
+  price_usd_at_discovery: number | null;
+  discovery_snapshot: Json | null; // DiscoverySnapshot shape
   pending_since: string | null;
   pending_reason: string | null;
   retry_count: number;
@@ -50,6 +53,45 @@ export interface DiscoveredToken {
   liquidity?: number;
   riskScore?: number;
   buyerPosition?: number | null;
+  // Extra scanner fields kept for backtesting
+  priceUsd?: number;
+  holders?: number;
+  createdAt?: string;
+  freezeAuthority?: string | null;
+  mintAuthority?: string | null;
+  hasSwapRoute?: boolean;
+  liquidityLocked?: boolean;
+  pairAddress?: string;
+  isPumpFun?: boolean;
+}
+
+// Scanner fields at discovery time that have no dedicated column (replayed by the backtester)
+export interface DiscoverySnapshot {
+  address: string;          // Original-case mint (token_address is lowercased)
+  priceUsd: number | null;
+  holders: number | null;
+  createdAt: string | null;
+  freezeAuthority: string | null;
+  mintAuthority: string | null;
+  hasSwapRoute: boolean | null;
+  liquidityLocked: boolean | null;
+  pairAddress: string | null;
+  isPumpFun: boolean | null;
+}
+
+function buildDiscoverySnapshot(token: DiscoveredToken): DiscoverySnapshot {
+  return {
+    address: token.address,
+    priceUsd: token.priceUsd || null,
+    holders: token.holders ?? null,
+    createdAt: token.createdAt || null,
+    freezeAuthority: token.freezeAuthority ?? null,
+    mintAuthority: token.mintAuthority ?? null,
+    hasSwapRoute: token.hasSwapRoute ?? null,
+    liquidityLocked: token.liquidityLocked ?? null,
+    pairAddress: token.pairAddress || null,
+    isPumpFun: token.isPumpFun ?? null,
+  };
 }
 
 // Default retry window: 5 minutes for PENDING tokens
@@ -194,6 +236,8 @@ export function useTokenStateManager() {
           liquidity_at_discovery: token.liquidity || null,
           risk_score_at_discovery: token.riskScore || null,
           buyer_position_at_discovery: token.buyerPosition || null,
+          price_usd_at_discovery: token.priceUsd || null,
+          discovery_snapshot: buildDiscoverySnapshot(token) as unknown as Json,
         }, {
           onConflict: 'user_id,token_address',
           ignoreDuplicates: true, // Don't update if already exists
@@ -243,6 +287,8 @@ export function useTokenStateManager() {
         liquidity_at_discovery: token.liquidity || null,
         risk_score_at_discovery: token.riskScore || null,
         buyer_position_at_discovery: token.buyerPosition || null,
+        price_usd_at_discovery: token.priceUsd || null,
+        discovery_snapshot: buildDiscoverySnapshot(token) as unknown as Json,
       }));
 
       const { data, error } = await supabase
@@ -9,18 +9,28 @@ import {
   SLIPPAGE_RETRY_CONFIG,
   getRetryDelay,
 } from '@/lib/tradeSafety';
-import { acquireSellLock, releaseSellLock, isSellLocked } from '@/lib/sellLock';
+import { acquireSellLock, holdsSellLock, releaseSellLock } from '@/lib/sellLock';
+import { sendSwapAsBundle, type SignAllTransactions } from '@/lib/jitoBundle';
+import type { BundleStatusResult } from '@shared/jito-bundle';
+import type { SwapSimulationReport } from '@shared/tx-simulation';
+import type { PaperFill } from '@shared/paper-fill';
+import { getFunctionErrorBody, getFunctionErrorMessage } from '@/lib/functionErrors';
 
 // Common token addresses
 export const SOL_MINT = 'So11111111111111111111111111111111111111112';
 export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
 
+// Times a buy is rebuilt with the slippage the simulator suggests before giving up
+const MAX_SIMULATION_SLIPPAGE_ADJUSTMENTS = 2;
+
 export type TransactionStatus = 
   | 'idle' 
   | 'fetching_quote' 
   | 'building_tx' 
   | 'awaiting_signature' 
   | 'broadcasting' 
+  | 'bundling'       // Signing swap + tip and submitting to the block engine
+  | 'bundle_pending' // Waiting for the bundle to land
   | 'confirming' 
   | 'confirmed' 
   | 'failed'
@@ -50,6 +60,15 @@ export interface TradeParams {
   stopLossPercent?: number;
 }
 
+// How a paper trade filled against its real quote
+export interface PaperTradeDetails {
+  fill: PaperFill;
+  quotedOutputAmount: number;
+  entryPriceUsd?: number | null;
+  exitSol?: number;
+  profitLossSol?: number;
+}
+
 export interface TradeResult {
   success: boolean;
   signature?: string;
@@ -58,6 +77,8 @@ export interface TradeResult {
   error?: string;
   explorerUrl?: string;
   retryCount?: number; // Track retry attempts
+  simulation?: SwapSimulationReport | null;
+  paper?: PaperTradeDetails;
 }
 
 interface SignAndSendResult {
@@ -66,6 +87,25 @@ interface SignAndSendResult {
   error?: string;
 }
 
+export type { SignAllTransactions };
+
+interface SimulationBlock {
+  message: string;
+  simulation: SwapSimulationReport;
+  suggestedSlippageBps: number | null;
+}
+
+// trade-execution rejects swaps that fail pre-flight simulation with a 422 and the parsed report
+async function readSimulationBlock(fnError: unknown): Promise<SimulationBlock | null> {
+  const body = await getFunctionErrorBody(fnError);
+  if (body?.errorCode !== 'SIMULATION_FAILED') return null;
+  return {
+    message: typeof body.error === 'string' ? body.error : 'Swap simulation failed',
+    simulation: body.simulation as SwapSimulationReport,
+    suggestedSlippageBps: typeof body.suggestedSlippageBps === 'number' ? body.suggestedSlippageBps : null,
+  };
+}
+
 function base64ToBytes(base64: string): Uint8Array {
   // Browser-safe base64 decode (avoids Node's Buffer)
   const bin = globalThis.atob(base64);
@@ -79,6 +119,10 @@ export function useTradeExecution() {
   const [currentQuote, setCurrentQuote] = useState<TradeQuote | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [txSignature, setTxSignature] = useState<string | null>(null);
+  const [bundleStatus, setBundleStatus] = useState<BundleStatusResult | null>(null);
+  const [simulation, setSimulation] = useState<SwapSimulationReport | null>(null);
+  // Slippage the buy was rebuilt with after a slippage simulation failure
+  const [adjustedSlippageBps, setAdjustedSlippageBps] = useState<number | null>(null);
   const { toast } = useToast();
   const { mode } = useAppMode();
 
@@ -86,26 +130,7 @@ export function useTradeExecution() {
 
   // Get a quote without building transaction
   const getQuote = useCallback(async (params: Omit<TradeParams, 'priorityLevel'>): Promise<TradeQuote | null> => {
-    if (isDemo) {
-      // Return simulated quote in demo mode
-      // NOTE: Demo uses raw lamport values for amounts, no implicit scaling
-      const inputLamports = parseInt(params.amount);
-      const outputLamports = Math.floor(inputLamports * 0.95);
-      const mockQuote: TradeQuote = {
-        inputAmount: inputLamports,
-        outputAmount: outputLamports,
-        // Decimals: SOL = 9 for input, assume 6 for output (USDC-like)
-        // Real implementation would fetch actual token decimals
-        inputAmountDecimal: inputLamports / 1e9,
-        outputAmountDecimal: outputLamports / 1e6, // Demo assumes 6 decimals for output
-        priceImpactPct: 0.12,
-        slippageBps: params.slippageBps || 100,
-        route: 'SOL → Token (Simulated)',
-      };
-      setCurrentQuote(mockQuote);
-      return mockQuote;
-    }
-
+    // Quotes are read-only, so demo mode uses the real ones too
     setStatus('fetching_quote');
     setError(null);
 
@@ -143,79 +168,65 @@ export function useTradeExecution() {
       });
       return null;
     }
-  }, [isDemo, toast]);
-
-  // Execute a full trade (quote -> swap -> sign -> confirm)
-  const executeTrade = useCallback(async (
-    params: TradeParams,
+  }, [toast]);
+
+  /**
+   * Broadcast a signed swap. With bundle mode enabled (and a wallet that can sign without
+   * sending) the swap is paired with a tip transfer and submitted as a Jito bundle;
+   * otherwise the wallet sends it as a single transaction.
+   */
+  const broadcastSwap = useCallback(async (
+    transaction: VersionedTransaction,
     walletAddress: string,
-    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>
-  ): Promise<TradeResult> => {
-    // Demo mode simulation
-    if (isDemo) {
-      setStatus('fetching_quote');
-      await new Promise(r => setTimeout(r, 500));
-      
-      setStatus('building_tx');
-      await new Promise(r => setTimeout(r, 300));
-      
-      setStatus('awaiting_signature');
-      await new Promise(r => setTimeout(r, 1000));
-      
-      setStatus('broadcasting');
-      await new Promise(r => setTimeout(r, 500));
-      
-      setStatus('confirming');
-      await new Promise(r => setTimeout(r, 1500));
-      
-      const mockSignature = 'demo_' + Math.random().toString(36).substring(7);
-      setTxSignature(mockSignature);
-      setStatus('confirmed');
-
-      toast({
-        title: '🎉 Demo Trade Executed!',
-        description: `Simulated swap of ${params.tokenSymbol || 'token'}`,
-      });
-
-      // Demo quote: raw lamport values, no implicit scaling
-      const inputLamports = parseInt(params.amount);
-      const outputLamports = Math.floor(inputLamports * 0.95);
-      return {
-        success: true,
-        signature: mockSignature,
-        positionId: 'demo_position_' + Date.now(),
-        quote: {
-          inputAmount: inputLamports,
-          outputAmount: outputLamports,
-          inputAmountDecimal: inputLamports / 1e9, // SOL = 9 decimals
-          outputAmountDecimal: outputLamports / 1e6, // Demo assumes 6 decimals for output
-          priceImpactPct: 0.12,
-          slippageBps: params.slippageBps || 100,
+    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>,
+    signAll?: SignAllTransactions
+  ): Promise<SignAndSendResult> => {
+    if (signAll) {
+      const bundled = await sendSwapAsBundle(transaction, walletAddress, signAll, {
+        onSigning: () => setStatus('bundling'),
+        onSubmitted: (bundleId) => {
+          setStatus('bundle_pending');
+          setBundleStatus({
+            bundleId,
+            status: 'pending',
+            slot: null,
+            confirmationStatus: null,
+            transactions: [],
+            error: null,
+          });
         },
-      };
+        onUpdate: setBundleStatus,
+      });
+      if (bundled) return bundled;
     }
 
+    setStatus('broadcasting');
+    return signAndSend(transaction);
+  }, []);
+
+  /**
+   * Paper trade: trade-execution runs the live checks and quote, then stops before signing and
+   * fills against the quote with slippage, fees and the observed failure rate. The fill is
+   * recorded server-side as a paper position.
+   */
+  const executePaperTrade = useCallback(async (params: TradeParams): Promise<TradeResult> => {
     setStatus('fetching_quote');
     setError(null);
     setTxSignature(null);
+    setBundleStatus(null);
+    setSimulation(null);
+    setAdjustedSlippageBps(null);
 
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        throw new Error('Please sign in to trade');
-      }
-
-      // Step 1: Get quote and build transaction
       setStatus('building_tx');
-      
       const { data, error: fnError } = await supabase.functions.invoke('trade-execution', {
         body: {
           action: 'execute',
+          paper: true,
           inputMint: params.inputMint,
           outputMint: params.outputMint,
           amount: params.amount,
           slippageBps: params.slippageBps || 100,
-          userPublicKey: walletAddress,
           priorityLevel: params.priorityLevel || 'medium',
           tokenSymbol: params.tokenSymbol,
           tokenName: params.tokenName,
@@ -223,9 +234,154 @@ export function useTradeExecution() {
           stopLossPercent: params.stopLossPercent,
         },
       });
+      if (fnError) throw new Error(await getFunctionErrorMessage(fnError));
+
+      const quote = data.quote as TradeQuote;
+      const paper: PaperTradeDetails = {
+        fill: data.fill,
+        quotedOutputAmount: data.quotedOutputAmount,
+        entryPriceUsd: data.entryPriceUsd,
+      };
+      setCurrentQuote(quote);
+
+      if (!data.success) {
+        const failError = data.error || 'Paper trade failed';
+        setError(failError);
+        setStatus('failed');
+        toast({
+          title: 'Paper Trade Failed',
+          description: failError,
+          variant: 'destructive',
+        });
+        return { success: false, error: failError, positionId: data.positionId, quote, paper };
+      }
+
+      setStatus('confirmed');
+      toast({
+        title: '🧪 Paper Trade Filled',
+        description: `Bought ${params.tokenSymbol || 'token'} with ${paper.fill.slippageBps} bps slippage`,
+      });
+      return { success: true, positionId: data.positionId, quote, paper };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Paper trade failed';
+      setError(message);
+      setStatus('failed');
+      toast({
+        title: 'Paper Trade Failed',
+        description: message,
+        variant: 'destructive',
+      });
+      return { success: false, error: message };
+    }
+  }, [toast]);
+
+  // Close a paper position against a real sell quote
+  const sellPaperPosition = useCallback(async (positionId: string): Promise<TradeResult> => {
+    setStatus('fetching_quote');
+    setError(null);
+
+    try {
+      const { slippageBps } = calculateDynamicSlippage({ isSell: true, isRetry: false, retryCount: 0 });
+      setStatus('building_tx');
+      const { data, error: fnError } = await supabase.functions.invoke('trade-execution', {
+        body: { action: 'paper_sell', positionId, slippageBps, priorityLevel: 'high' },
+      });
+      if (fnError) throw new Error(await getFunctionErrorMessage(fnError));
+
+      const paper: PaperTradeDetails = {
+        fill: data.fill,
+        quotedOutputAmount: data.quotedOutputAmount,
+        exitSol: data.exitSol,
+        profitLossSol: data.profitLossSol,
+      };
+      if (!data.success) throw new Error(data.error || 'Paper sell failed');
+
+      setStatus('confirmed');
+      toast({
+        title: '🧪 Paper Position Closed',
+        description: `Received ${paper.exitSol?.toFixed(4)} SOL after fees`,
+      });
+      return { success: true, positionId, quote: data.quote, paper };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Paper sell failed';
+      setError(message);
+      setStatus('failed');
+      toast({
+        title: 'Paper Sell Failed',
+        description: message,
+        variant: 'destructive',
+      });
+      return { success: false, error: message };
+    }
+  }, [toast]);
+
+  // Execute a full trade (quote -> swap -> sign -> confirm)
+  const executeTrade = useCallback(async (
+    params: TradeParams,
+    walletAddress: string,
+    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>,
+    signAll?: SignAllTransactions
+  ): Promise<TradeResult> => {
+    // Demo mode paper-trades: same pipeline, filled instead of signed
+    if (isDemo) return executePaperTrade(params);
+
+    setStatus('fetching_quote');
+    setError(null);
+    setTxSignature(null);
+    setBundleStatus(null);
+    setSimulation(null);
+    setAdjustedSlippageBps(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Please sign in to trade');
+      }
+
+      // Step 1: Get quote and build transaction (simulated server-side before it reaches us)
+      setStatus('building_tx');
+
+      let slippageBps = params.slippageBps || 100;
+      let adjustments = 0;
+      let data;
+      for (;;) {
+        const response = await supabase.functions.invoke('trade-execution', {
+          body: {
+            action: 'execute',
+            inputMint: params.inputMint,
+            outputMint: params.outputMint,
+            amount: params.amount,
+            slippageBps,
+            userPublicKey: walletAddress,
+            priorityLevel: params.priorityLevel || 'medium',
+            tokenSymbol: params.tokenSymbol,
+            tokenName: params.tokenName,
+            profitTakePercent: params.profitTakePercent,
+            stopLossPercent: params.stopLossPercent,
+          },
+        });
+        if (!response.error) {
+          data = response.data;
+          break;
+        }
+
+        const blocked = await readSimulationBlock(response.error);
+        if (!blocked) throw response.error;
+        setSimulation(blocked.simulation);
+
+        // Only a slippage revert is fixable - rebuild with the suggested tolerance
+        if (blocked.suggestedSlippageBps === null || adjustments >= MAX_SIMULATION_SLIPPAGE_ADJUSTMENTS) {
+          throw new Error(blocked.message);
+        }
+        adjustments++;
+        console.log(`[Trade] Simulation hit slippage at ${slippageBps} bps, rebuilding at ${blocked.suggestedSlippageBps} bps`);
+        slippageBps = blocked.suggestedSlippageBps;
+        setAdjustedSlippageBps(slippageBps);
+        setStatus('retrying');
+      }
 
-      if (fnError) throw fnError;
       if (data.error) throw new Error(data.error);
+      setSimulation(data.simulation ?? null);
 
       const quote = data.quote as TradeQuote;
       setCurrentQuote(quote);
@@ -236,9 +392,8 @@ export function useTradeExecution() {
       const swapTransactionBytes = base64ToBytes(data.swapTransaction);
       const transaction = VersionedTransaction.deserialize(swapTransactionBytes);
 
-      // Step 3: Sign and send
-      setStatus('broadcasting');
-      const signResult = await signAndSend(transaction);
+      // Step 3: Sign and send (single transaction or Jito bundle)
+      const signResult = await broadcastSwap(transaction, walletAddress, signAndSend, signAll);
 
       if (!signResult.success) {
         throw new Error(signResult.error || 'Transaction rejected');
@@ -275,6 +430,7 @@ export function useTradeExecution() {
           positionId: data.positionId,
           quote,
           explorerUrl: `https://solscan.io/tx/${signResult.signature}`,
+          simulation: data.simulation ?? null,
         };
       } else {
         setStatus('failed');
@@ -310,7 +466,7 @@ export function useTradeExecution() {
         error: message,
       };
     }
-  }, [isDemo, toast]);
+  }, [isDemo, toast, broadcastSwap, executePaperTrade]);
 
   // Sell/close a position with automatic slippage retry
   const sellPosition = useCallback(async (
@@ -318,19 +474,14 @@ export function useTradeExecution() {
     amount: string,
     positionId: string,
     walletAddress: string,
-    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>
+    signAndSend: (transaction: VersionedTransaction) => Promise<SignAndSendResult>,
+    signAll?: SignAllTransactions
   ): Promise<TradeResult> => {
-    if (isDemo) {
-      setStatus('confirmed');
-      toast({
-        title: '🎉 Demo Position Closed!',
-        description: 'Simulated sell executed',
-      });
-      return { success: true, signature: 'demo_sell_' + Date.now() };
-    }
+    if (isDemo) return sellPaperPosition(positionId);
 
-    // CRITICAL: Check if this token is already being sold
-    if (isSellLocked(tokenMint)) {
+    // CRITICAL: Hold the position's sell lock - auto-exit, another tab or another device may be selling it
+    const lease = await acquireSellLock({ id: positionId, token_address: tokenMint }, 'manual_sell');
+    if (!lease) {
       toast({
         title: 'Sell Already In Progress',
         description: 'This token is already being sold by another process.',
@@ -339,153 +490,171 @@ export function useTradeExecution() {
       return { success: false, error: 'Sell already in progress' };
     }
 
-    // Retry loop for slippage errors
-    let retryCount = 0;
-    let lastError: string | null = null;
+    try {
+      // Retry loop for slippage errors
+      let retryCount = 0;
+      let lastError: string | null = null;
     
-    while (retryCount <= SLIPPAGE_RETRY_CONFIG.maxRetries) {
-      try {
-        if (retryCount > 0) {
-          setStatus('retrying');
-          // Wait before retry with exponential backoff
-          const delay = getRetryDelay(retryCount - 1);
-          console.log(`[Sell] Retrying with higher slippage (attempt ${retryCount + 1}), waiting ${delay}ms`);
-          await new Promise(r => setTimeout(r, delay));
-        }
+      while (retryCount <= SLIPPAGE_RETRY_CONFIG.maxRetries) {
+        try {
+          if (retryCount > 0) {
+            setStatus('retrying');
+            // Wait before retry with exponential backoff
+            const delay = getRetryDelay(retryCount - 1);
+            console.log(`[Sell] Retrying with higher slippage (attempt ${retryCount + 1}), waiting ${delay}ms`);
+            await new Promise(r => setTimeout(r, delay));
+          }
         
-        setStatus('fetching_quote');
-        setError(null);
+          setStatus('fetching_quote');
+          setError(null);
 
-        const { data: { session } } = await supabase.auth.getSession();
-        if (!session) {
-          throw new Error('Please sign in to trade');
-        }
+          const { data: { session } } = await supabase.auth.getSession();
+          if (!session) {
+            throw new Error('Please sign in to trade');
+          }
 
-        // Calculate dynamic slippage based on retry count
-        const { slippageBps, reason } = calculateDynamicSlippage({
-          isSell: true,
-          isRetry: retryCount > 0,
-          retryCount,
-        });
+          // Calculate dynamic slippage based on retry count
+          const { slippageBps, reason } = calculateDynamicSlippage({
+            isSell: true,
+            isRetry: retryCount > 0,
+            retryCount,
+          });
         
-        console.log(`[Sell] Using slippage: ${slippageBps} bps (${reason})`);
+          console.log(`[Sell] Using slippage: ${slippageBps} bps (${reason})`);
 
-        // Get quote for selling token back to SOL
-        setStatus('building_tx');
+          // Get quote for selling token back to SOL
+          setStatus('building_tx');
         
-        const { data, error: fnError } = await supabase.functions.invoke('trade-execution', {
-          body: {
-            action: 'execute',
-            inputMint: tokenMint,
-            outputMint: SOL_MINT,
-            amount,
-            slippageBps,
-            userPublicKey: walletAddress,
-            priorityLevel: 'high', // Fast exit
-          },
-        });
+          const { data, error: fnError } = await supabase.functions.invoke('trade-execution', {
+            body: {
+              action: 'execute',
+              inputMint: tokenMint,
+              outputMint: SOL_MINT,
+              amount,
+              slippageBps,
+              userPublicKey: walletAddress,
+              priorityLevel: 'high', // Fast exit
+            },
+          });
 
-        if (fnError) throw fnError;
-        if (data.error) throw new Error(data.error);
+          if (fnError) {
+            // A slippage simulation failure reads as a slippage error, so the loop retries higher
+            const blocked = await readSimulationBlock(fnError);
+            if (!blocked) throw fnError;
+            setSimulation(blocked.simulation);
+            throw new Error(blocked.message);
+          }
+          if (data.error) throw new Error(data.error);
+          setSimulation(data.simulation ?? null);
 
-        // Sign and send
-        setStatus('awaiting_signature');
-        const swapTransactionBytes = base64ToBytes(data.swapTransaction);
-        const transaction = VersionedTransaction.deserialize(swapTransactionBytes);
+          // Sign and send
+          setStatus('awaiting_signature');
+          const swapTransactionBytes = base64ToBytes(data.swapTransaction);
+          const transaction = VersionedTransaction.deserialize(swapTransactionBytes);
 
-        setStatus('broadcasting');
-        const signResult = await signAndSend(transaction);
+          // Quoting and retries can outlast the lease - never broadcast over whoever took it over
+          if (!(await holdsSellLock(lease))) {
+            throw new Error('Sell lock lost - another process took over this sell');
+          }
 
-        if (!signResult.success) {
-          throw new Error(signResult.error || 'Transaction rejected');
-        }
+          const signResult = await broadcastSwap(transaction, walletAddress, signAndSend, signAll);
 
-        setTxSignature(signResult.signature);
-        setStatus('confirming');
+          if (!signResult.success) {
+            throw new Error(signResult.error || 'Transaction rejected');
+          }
 
-        // Confirm and update position
-        const { data: confirmData } = await supabase.functions.invoke('confirm-transaction', {
-          body: {
-            signature: signResult.signature,
-            positionId,
-            action: 'sell',
-          },
-        });
+          setTxSignature(signResult.signature);
+          setStatus('confirming');
 
-        if (confirmData?.confirmed) {
-          setStatus('confirmed');
-          toast({
-            title: '💰 Position Closed!',
-            description: retryCount > 0 
-              ? `Successfully sold after ${retryCount + 1} attempts` 
-              : 'Successfully sold your position',
+          // Confirm and update position
+          const { data: confirmData } = await supabase.functions.invoke('confirm-transaction', {
+            body: {
+              signature: signResult.signature,
+              positionId,
+              action: 'sell',
+            },
           });
 
-          return {
-            success: true,
-            signature: signResult.signature,
-            positionId,
-            quote: data.quote,
-            explorerUrl: `https://solscan.io/tx/${signResult.signature}`,
-            retryCount,
-          };
-        } else {
+          if (confirmData?.confirmed) {
+            setStatus('confirmed');
+            toast({
+              title: '💰 Position Closed!',
+              description: retryCount > 0 
+                ? `Successfully sold after ${retryCount + 1} attempts` 
+                : 'Successfully sold your position',
+            });
+
+            return {
+              success: true,
+              signature: signResult.signature,
+              positionId,
+              quote: data.quote,
+              explorerUrl: `https://solscan.io/tx/${signResult.signature}`,
+              retryCount,
+            };
+          } else {
+            // Check if this is a slippage error that should trigger retry
+            const errorMsg = confirmData?.error || 'Failed to confirm sell';
+            if (isSlippageError(errorMsg) && retryCount < SLIPPAGE_RETRY_CONFIG.maxRetries) {
+              lastError = errorMsg;
+              retryCount++;
+              continue; // Retry with higher slippage
+            }
+            throw new Error(errorMsg);
+          }
+        } catch (err: any) {
+          const message = err.message || 'Sell failed';
+        
           // Check if this is a slippage error that should trigger retry
-          const errorMsg = confirmData?.error || 'Failed to confirm sell';
-          if (isSlippageError(errorMsg) && retryCount < SLIPPAGE_RETRY_CONFIG.maxRetries) {
-            lastError = errorMsg;
+          if (isSlippageError(message) && retryCount < SLIPPAGE_RETRY_CONFIG.maxRetries) {
+            lastError = message;
             retryCount++;
+            toast({
+              title: 'Slippage Exceeded',
+              description: `Retrying with higher slippage (attempt ${retryCount + 1}/${SLIPPAGE_RETRY_CONFIG.maxRetries + 1})...`,
+            });
             continue; // Retry with higher slippage
           }
-          throw new Error(errorMsg);
-        }
-      } catch (err: any) {
-        const message = err.message || 'Sell failed';
         
-        // Check if this is a slippage error that should trigger retry
-        if (isSlippageError(message) && retryCount < SLIPPAGE_RETRY_CONFIG.maxRetries) {
-          lastError = message;
-          retryCount++;
+          // Non-retryable error or max retries reached
+          setError(message);
+          setStatus('failed');
+
           toast({
-            title: 'Slippage Exceeded',
-            description: `Retrying with higher slippage (attempt ${retryCount + 1}/${SLIPPAGE_RETRY_CONFIG.maxRetries + 1})...`,
+            title: retryCount > 0 ? 'Sell Failed After Retries' : 'Sell Failed',
+            description: message,
+            variant: 'destructive',
           });
-          continue; // Retry with higher slippage
-        }
-        
-        // Non-retryable error or max retries reached
-        setError(message);
-        setStatus('failed');
 
-        toast({
-          title: retryCount > 0 ? 'Sell Failed After Retries' : 'Sell Failed',
-          description: message,
-          variant: 'destructive',
-        });
-
-        return {
-          success: false,
-          error: message,
-          retryCount,
-        };
+          return {
+            success: false,
+            error: message,
+            retryCount,
+          };
+        }
       }
-    }
     
-    // Should not reach here, but handle edge case
-    setError(lastError || 'Max retries exceeded');
-    setStatus('failed');
-    return {
-      success: false,
-      error: lastError || 'Max retries exceeded',
-      retryCount,
-    };
-  }, [isDemo, toast]);
+      // Should not reach here, but handle edge case
+      setError(lastError || 'Max retries exceeded');
+      setStatus('failed');
+      return {
+        success: false,
+        error: lastError || 'Max retries exceeded',
+        retryCount,
+      };
+    } finally {
+      await releaseSellLock(lease);
+    }
+  }, [isDemo, toast, broadcastSwap, sellPaperPosition]);
 
   const reset = useCallback(() => {
     setStatus('idle');
     setCurrentQuote(null);
     setError(null);
     setTxSignature(null);
+    setBundleStatus(null);
+    setSimulation(null);
+    setAdjustedSlippageBps(null);
   }, []);
 
   return {
@@ -493,6 +662,9 @@ export function useTradeExecution() {
     currentQuote,
     error,
     txSignature,
+    bundleStatus,
+    simulation,
+    adjustedSlippageBps,
     isDemo,
     getQuote,
     executeTrade,
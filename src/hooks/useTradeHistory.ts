@@ -16,6 +16,8 @@ export interface TradeHistoryEntry {
   price_usd: number | null;
   status: string | null;
   tx_hash: string | null;
+  // Automated sells only: take_profit, stop_loss, emergency_lp_removed, ...
+  exit_reason: string | null;
   created_at: string;
 }
 
@@ -36,6 +38,7 @@ type PositionBackfillRow = {
   closed_at: string | null;
   exit_price: number | null;
   exit_tx_id: string | null;
+  exit_reason: string | null;
 };
 
 // NOTE: PostgREST has a default max of 1000 rows per request.
@@ -71,7 +74,7 @@ export function useTradeHistory(limit: number = 1000) {
     const { data: positionsData, error: positionsError } = await supabase
       .from('positions')
       .select(
-        'token_address, token_symbol, token_name, amount, entry_price, entry_price_usd, status, created_at, closed_at, exit_price, exit_tx_id'
+        'token_address, token_symbol, token_name, amount, entry_price, entry_price_usd, status, created_at, closed_at, exit_price, exit_tx_id, exit_reason'
       )
       .eq('user_id', user.id)
       .order('created_at', { ascending: false });
@@ -115,6 +118,7 @@ export function useTradeHistory(limit: number = 1000) {
         price_usd: null,
         status: 'confirmed',
         tx_hash: p.exit_tx_id!, // Now guaranteed non-null
+        exit_reason: p.exit_reason,
         created_at: p.closed_at ?? p.created_at,
       }));
 
@@ -3,8 +3,10 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { useWallet } from '@/hooks/useWallet';
+import { useTradingWallets } from '@/hooks/useTradingWallets';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { describeSkippedWallets, selectTradingWallet, type WalletPositionRecord } from '@/lib/walletAllocation';
 
 export interface TradeSignal {
   id: string;
@@ -36,7 +38,8 @@ export function useTradeSignals() {
   const [executing, setExecuting] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
-  const { wallet, signAndSendTransaction } = useWallet();
+  const { wallet, signAndSendTransactionAs } = useWallet();
+  const { wallets: tradingWallets, refreshSignable } = useTradingWallets();
   const { mode } = useAppMode();
   const isDemo = mode === 'demo';
 
@@ -112,9 +115,32 @@ export function useTradeSignals() {
     };
   }, [user, fetchSignals, toast]);
 
+  /**
+   * Wallet a signal buys from: the connected wallet, or - once trading wallets are
+   * registered - the one assigned to the signal's strategy with budget left
+   */
+  const resolveSignalWallet = useCallback(async (signal: TradeSignal): Promise<{ address: string | null; error?: string }> => {
+    if (tradingWallets.length === 0) return { address: wallet.address };
+
+    const { data: openPositions } = await supabase
+      .from('positions')
+      .select('token_address, status, wallet_address, entry_sol')
+      .eq('user_id', user!.id)
+      .in('status', ['open', 'pending', 'waiting_for_liquidity']);
+
+    const selection = selectTradingWallet(tradingWallets, (openPositions as WalletPositionRecord[]) || [], {
+      strategy: signal.metadata?.origin === 'copy_trade' ? 'copy_trade' : 'sniper',
+      tradeSol: signal.trade_amount,
+      signableAddresses: refreshSignable(),
+    });
+    return selection.wallet
+      ? { address: selection.wallet.address }
+      : { address: null, error: describeSkippedWallets(selection.skipped) || 'No trading wallet assigned to this strategy' };
+  }, [user, wallet.address, tradingWallets, refreshSignable]);
+
   // Execute a trade signal
   const executeSignal = useCallback(async (signal: TradeSignal) => {
-    if (!user || !wallet.isConnected) {
+    if (!user || (!wallet.isConnected && tradingWallets.length === 0)) {
       toast({
         title: 'Wallet Required',
         description: 'Please connect your wallet to execute trades.',
@@ -145,6 +171,11 @@ export function useTradeSignals() {
     setExecuting(signal.id);
 
     try {
+      const signalWallet = await resolveSignalWallet(signal);
+      if (!signalWallet.address) {
+        throw new Error(signalWallet.error || 'Wallet not connected');
+      }
+
       // Step 1: Get quote and build transaction from trade-execution edge function
       const { data: tradeData, error: tradeError } = await supabase.functions.invoke('trade-execution', {
         body: {
@@ -153,7 +184,7 @@ export function useTradeSignals() {
           outputMint: signal.token_address,
           amount: String(Math.floor(signal.trade_amount * 1e9)), // Convert to lamports
           slippageBps: signal.slippage * 100,
-          userPublicKey: wallet.address,
+          userPublicKey: signalWallet.address,
           tokenSymbol: signal.token_symbol,
           tokenName: signal.token_name,
           priorityLevel: signal.priority,
@@ -171,7 +202,7 @@ export function useTradeSignals() {
       const transaction = VersionedTransaction.deserialize(txBytes);
 
       // Step 3: Sign and send via wallet
-      const signResult = await signAndSendTransaction(transaction);
+      const signResult = await signAndSendTransactionAs(signalWallet.address, transaction);
 
       if (signResult.error) {
         throw new Error(signResult.error);
@@ -225,7 +256,7 @@ export function useTradeSignals() {
     } finally {
       setExecuting(null);
     }
-  }, [user, wallet, signAndSendTransaction, isDemo, toast]);
+  }, [user, wallet.isConnected, tradingWallets.length, resolveSignalWallet, signAndSendTransactionAs, isDemo, toast]);
 
   // Cancel a signal
   const cancelSignal = useCallback(async (signalId: string) => {
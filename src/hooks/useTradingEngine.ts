@@ -12,6 +12,9 @@ import { VersionedTransaction } from '@solana/web3.js';
 import { useToast } from '@/hooks/use-toast';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { supabase } from '@/integrations/supabase/client';
+import { sendSwapAsBundle, type SignAllTransactions } from '@/lib/jitoBundle';
+import { simulateSwap } from '@/lib/swapSimulation';
+import { formatSimulationFailure } from '@shared/tx-simulation';
 
 // Extended config with TP/SL settings for position persistence
 export interface TradingEngineConfig {
@@ -86,15 +89,25 @@ export function useTradingEngine() {
   const abortControllerRef = useRef<AbortController | null>(null);
   const isExecutingRef = useRef(false);
 
-  // Convert wallet signAndSend to engine format
+  // Convert wallet signAndSend to engine format. The swap is simulated before the wallet
+  // prompt; with signAll it goes out as a Jito bundle when bundle mode is enabled, and falls
+  // back to walletSignAndSend otherwise.
   const createSignTransaction = useCallback((
-    walletSignAndSend: (tx: VersionedTransaction) => Promise<SignAndSendResult>
+    walletSignAndSend: (tx: VersionedTransaction) => Promise<SignAndSendResult>,
+    bundle?: { walletAddress: string; signAll: SignAllTransactions }
   ) => {
     return async (unsignedTx: UnsignedTransaction): Promise<{ signature: string; error?: string }> => {
       try {
+        // The engine builds its swaps in the browser, so they skip the server's pre-flight check
+        const simulation = await simulateSwap(unsignedTx.serializedTransaction);
+        if (simulation.status === 'failed' && simulation.failure) {
+          return { signature: '', error: `SIMULATION_FAILED: ${formatSimulationFailure(simulation.failure)}` };
+        }
+
         const txBytes = base64ToBytes(unsignedTx.serializedTransaction);
         const transaction = VersionedTransaction.deserialize(txBytes);
-        const result = await walletSignAndSend(transaction);
+        const result = (bundle && await sendSwapAsBundle(transaction, bundle.walletAddress, bundle.signAll))
+          || await walletSignAndSend(transaction);
         
         if (!result.success) {
           return { signature: '', error: result.error || 'Transaction rejected' };
@@ -173,7 +186,8 @@ export function useTradingEngine() {
     tokenAddress: string,
     walletAddress: string,
     walletSignAndSend: (tx: VersionedTransaction) => Promise<SignAndSendResult>,
-    config?: TradingEngineConfig
+    config?: TradingEngineConfig,
+    signAll?: SignAllTransactions
   ): Promise<TradingFlowResult | null> => {
     if (isExecutingRef.current) {
       console.log('[TradingEngine] Already executing, skipping');
@@ -243,7 +257,7 @@ export function useTradingEngine() {
     try {
       const result = await quickSnipe(tokenAddress, {
         walletAddress,
-        signTransaction: createSignTransaction(walletSignAndSend),
+        signTransaction: createSignTransaction(walletSignAndSend, signAll ? { walletAddress, signAll } : undefined),
         config,
         onEvent: handleEvent,
         abortSignal: abortControllerRef.current.signal,
@@ -301,6 +315,8 @@ export function useTradingEngine() {
                 profit_take_percent: profitTakePercent,
                 stop_loss_percent: stopLossPercent,
                 status: 'open',
+                wallet_address: walletAddress,
+                entry_sol: position.solSpent,
               })
               .select()
               .single();
@@ -375,7 +391,8 @@ export function useTradingEngine() {
     tokenAmount: number,
     walletAddress: string,
     walletSignAndSend: (tx: VersionedTransaction) => Promise<SignAndSendResult>,
-    config?: Partial<TradingConfig>
+    config?: Partial<TradingConfig>,
+    signAll?: SignAllTransactions
   ): Promise<{ success: boolean; txHash: string | null; solReceived: number | null; error?: string }> => {
     if (isDemo) {
       await new Promise(r => setTimeout(r, 1000));
@@ -395,7 +412,7 @@ export function useTradingEngine() {
     try {
       const result = await executeExit(tokenAddress, tokenAmount, {
         walletAddress,
-        signTransaction: createSignTransaction(walletSignAndSend),
+        signTransaction: createSignTransaction(walletSignAndSend, signAll ? { walletAddress, signAll } : undefined),
         config,
         onEvent: handleEvent,
       });
@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getSignableSolanaAddresses, linkSolanaWallet, type WalletType } from '@/hooks/useWallet';
+import type { TradingWallet } from '@/lib/walletAllocation';
+
+export type TradingWalletInput = Pick<
+  TradingWallet,
+  'address' | 'label' | 'budget_sol' | 'max_open_positions' | 'strategy'
+>;
+
+const LINKABLE_WALLET_TYPES: WalletType[] = ['phantom', 'solflare', 'backpack'];
+
+export function useTradingWallets() {
+  const [wallets, setWallets] = useState<TradingWallet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [signableAddresses, setSignableAddresses] = useState<string[]>([]);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const refreshSignable = useCallback(() => {
+    const next = getSignableSolanaAddresses();
+    setSignableAddresses(prev => (prev.join(',') === next.join(',') ? prev : next));
+    return next;
+  }, []);
+
+  const fetchWallets = useCallback(async () => {
+    if (!user) {
+      setWallets([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('trading_wallets')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setWallets((data as unknown as TradingWallet[]) || []);
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error fetching trading wallets',
+        description: err.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  const addWallet = useCallback(async (input: TradingWalletInput) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('trading_wallets')
+        .insert({ ...input, user_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      const wallet = data as unknown as TradingWallet;
+      setWallets(prev => [...prev, wallet]);
+      toast({ title: 'Trading wallet added', description: input.label || `${input.address.slice(0, 6)}...${input.address.slice(-4)}` });
+      return wallet;
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error adding wallet',
+        description: err.message.includes('duplicate') ? 'This wallet is already registered' : err.message,
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [user, toast]);
+
+  const updateWallet = useCallback(async (id: string, updates: Partial<TradingWalletInput & { is_active: boolean }>) => {
+    try {
+      const { data, error } = await supabase
+        .from('trading_wallets')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setWallets(prev => prev.map(w => (w.id === id ? (data as unknown as TradingWallet) : w)));
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error updating wallet',
+        description: err.message,
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  const removeWallet = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase.from('trading_wallets').delete().eq('id', id);
+      if (error) throw error;
+      setWallets(prev => prev.filter(w => w.id !== id));
+    } catch (error: unknown) {
+      const err = error as Error;
+      toast({
+        title: 'Error removing wallet',
+        description: err.message,
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  /**
+   * Connect a browser extension so its wallet can sign alongside the primary one
+   */
+  const linkWallet = useCallback(async (walletType: WalletType) => {
+    const address = await linkSolanaWallet(walletType);
+    if (!address) {
+      toast({
+        title: 'Could not connect wallet',
+        description: `Is the ${walletType} extension installed and unlocked?`,
+        variant: 'destructive',
+      });
+      return null;
+    }
+    refreshSignable();
+    return address;
+  }, [toast, refreshSignable]);
+
+  useEffect(() => {
+    fetchWallets();
+  }, [fetchWallets]);
+
+  // Silently reconnect extensions the user already trusted so registered wallets stay signable
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(LINKABLE_WALLET_TYPES.map(type => linkSolanaWallet(type, true))).then(() => {
+      if (!cancelled) refreshSignable();
+    });
+    const interval = setInterval(refreshSignable, 5000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [refreshSignable]);
+
+  return {
+    wallets,
+    loading,
+    signableAddresses,
+    addWallet,
+    updateWallet,
+    removeWallet,
+    linkWallet,
+    refreshSignable,
+    refetch: fetchWallets,
+  };
+}
@@ -70,6 +70,59 @@ const ETH_CHAIN_ID = '0x1';
 
 const WALLET_STORAGE_KEY = 'connected_wallet';
 
+const SOLANA_WALLET_TYPES: WalletType[] = ['phantom', 'solflare', 'backpack'];
+
+function getInstalledSolanaProvider(walletType: WalletType): SolanaProvider | null {
+  switch (walletType) {
+    case 'phantom':
+      return window.solana?.isPhantom ? window.solana : null;
+    case 'solflare':
+      return window.solflare?.isSolflare ? window.solflare : null;
+    case 'backpack':
+      return window.backpack?.isBackpack ? window.backpack : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find the browser wallet extension currently connected as `address`.
+ * Each extension (Phantom, Solflare, Backpack) holds its own session, so several
+ * trading wallets can be signable side by side.
+ */
+export function getSolanaProviderForAddress(address: string): SolanaProvider | null {
+  for (const walletType of SOLANA_WALLET_TYPES) {
+    const provider = getInstalledSolanaProvider(walletType);
+    if (provider?.publicKey && provider.publicKey.toBase58() === address) return provider;
+  }
+  return null;
+}
+
+// Addresses of every Solana extension that can sign right now
+export function getSignableSolanaAddresses(): string[] {
+  const addresses: string[] = [];
+  for (const walletType of SOLANA_WALLET_TYPES) {
+    const key = getInstalledSolanaProvider(walletType)?.publicKey;
+    if (key && !addresses.includes(key.toBase58())) addresses.push(key.toBase58());
+  }
+  return addresses;
+}
+
+/**
+ * Connect an extension as an additional trading wallet without replacing the primary
+ * wallet. With onlyIfTrusted the extension reconnects silently or not at all.
+ */
+export async function linkSolanaWallet(walletType: WalletType, onlyIfTrusted = false): Promise<string | null> {
+  const provider = getInstalledSolanaProvider(walletType);
+  if (!provider) return null;
+  try {
+    const response = await provider.connect(onlyIfTrusted ? { onlyIfTrusted: true } : undefined);
+    return response.publicKey.toBase58();
+  } catch {
+    return null;
+  }
+}
+
 export function useWallet() {
   const [wallet, setWallet] = useState<WalletState>({
     isConnected: false,
@@ -159,16 +212,7 @@ export function useWallet() {
 
   // Get the Solana provider based on wallet type
   const getSolanaProvider = useCallback((walletType: WalletType): SolanaProvider | null => {
-    switch (walletType) {
-      case 'phantom':
-        return window.solana?.isPhantom ? window.solana : null;
-      case 'solflare':
-        return window.solflare?.isSolflare ? window.solflare : null;
-      case 'backpack':
-        return window.backpack?.isBackpack ? window.backpack : null;
-      default:
-        return null;
-    }
+    return getInstalledSolanaProvider(walletType);
   }, []);
 
   // Save wallet connection to localStorage
@@ -570,6 +614,106 @@ export function useWallet() {
     }
   }, [wallet, toast, getSolanaProvider, refreshBalance]);
 
+  // Sign and send from a specific trading wallet (positions exit from the wallet that opened them)
+  const signAndSendTransactionAs = useCallback(async (
+    address: string,
+    transaction: Transaction | VersionedTransaction,
+    options?: SendOptions
+  ): Promise<SignTransactionResult> => {
+    if (wallet.network === 'solana' && wallet.address === address) {
+      return signAndSendTransaction(transaction, options);
+    }
+
+    const provider = getSolanaProviderForAddress(address);
+    if (!provider) {
+      return {
+        signature: '',
+        success: false,
+        error: `Wallet ${formatAddress(address)} is not connected`,
+      };
+    }
+
+    try {
+      const result = await provider.signAndSendTransaction(transaction, options);
+
+      toast({
+        title: 'Transaction sent',
+        description: `${formatAddress(address)} · Signature: ${result.signature.slice(0, 8)}...`,
+      });
+
+      return {
+        signature: result.signature,
+        success: true,
+      };
+    } catch (error: unknown) {
+      const err = error as { code?: number; message?: string };
+      const errorMessage = err.code === 4001
+        ? 'Transaction rejected by user'
+        : err.message || 'Transaction failed';
+
+      toast({
+        title: 'Transaction failed',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+
+      return {
+        signature: '',
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }, [wallet.network, wallet.address, signAndSendTransaction, formatAddress, toast]);
+
+  // Sign several transactions in one wallet prompt without sending them (bundle submission)
+  const signAllTransactions = useCallback(async (
+    transactions: VersionedTransaction[]
+  ): Promise<VersionedTransaction[] | null> => {
+    if (!wallet.isConnected || !wallet.walletType || wallet.network !== 'solana') {
+      return null;
+    }
+
+    const provider = getSolanaProvider(wallet.walletType);
+    if (!provider) return null;
+
+    try {
+      return await provider.signAllTransactions(transactions);
+    } catch (error: unknown) {
+      const err = error as { code?: number; message?: string };
+      toast({
+        title: 'Signing failed',
+        description: err.code === 4001 ? 'Transaction rejected by user' : err.message || 'Signing failed',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [wallet, toast, getSolanaProvider]);
+
+  // Bundle signing from a specific trading wallet, like signAndSendTransactionAs
+  const signAllTransactionsAs = useCallback(async (
+    address: string,
+    transactions: VersionedTransaction[]
+  ): Promise<VersionedTransaction[] | null> => {
+    if (wallet.network === 'solana' && wallet.address === address) {
+      return signAllTransactions(transactions);
+    }
+
+    const provider = getSolanaProviderForAddress(address);
+    if (!provider) return null;
+
+    try {
+      return await provider.signAllTransactions(transactions);
+    } catch (error: unknown) {
+      const err = error as { code?: number; message?: string };
+      toast({
+        title: 'Signing failed',
+        description: err.code === 4001 ? 'Transaction rejected by user' : err.message || 'Signing failed',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  }, [wallet.network, wallet.address, signAllTransactions, toast]);
+
   // Sign a message (for verification purposes)
   const signMessage = useCallback(async (message: string): Promise<Uint8Array | null> => {
     if (!wallet.isConnected || !wallet.walletType || wallet.network !== 'solana') {
@@ -782,6 +926,9 @@ export function useWallet() {
     refreshBalance,
     signTransaction,
     signAndSendTransaction,
+    signAndSendTransactionAs,
+    signAllTransactions,
+    signAllTransactionsAs,
     signMessage,
     getSolanaConnection,
   };
@@ -119,15 +119,297 @@ export type Database = {
         }
         Relationships: []
       }
+      bot_activity_logs: {
+        Row: {
+          category: string
+          client_id: string
+          created_at: string
+          details: string | null
+          id: string
+          level: string
+          logged_at: string
+          message: string
+          search_vector: unknown | null
+          token_address: string | null
+          token_symbol: string | null
+          user_id: string
+        }
+        Insert: {
+          category: string
+          client_id: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          level: string
+          logged_at: string
+          message: string
+          search_vector?: never
+          token_address?: string | null
+          token_symbol?: string | null
+          user_id: string
+        }
+        Update: {
+          category?: string
+          client_id?: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          level?: string
+          logged_at?: string
+          message?: string
+          search_vector?: never
+          token_address?: string | null
+          token_symbol?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bot_runner_sessions: {
+        Row: {
+          auto_entry: boolean
+          auto_exit: boolean
+          created_at: string
+          heartbeat_at: string | null
+          id: string
+          is_enabled: boolean
+          last_cycle_finished_at: string | null
+          last_cycle_id: string | null
+          last_cycle_started_at: string | null
+          last_error: string | null
+          lease_expires_at: string | null
+          lease_holder: string | null
+          max_trade_sol: number
+          session_expires_at: string | null
+          session_public_key: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_entry?: boolean
+          auto_exit?: boolean
+          created_at?: string
+          heartbeat_at?: string | null
+          id?: string
+          is_enabled?: boolean
+          last_cycle_finished_at?: string | null
+          last_cycle_id?: string | null
+          last_cycle_started_at?: string | null
+          last_error?: string | null
+          lease_expires_at?: string | null
+          lease_holder?: string | null
+          max_trade_sol?: number
+          session_expires_at?: string | null
+          session_public_key?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_entry?: boolean
+          auto_exit?: boolean
+          created_at?: string
+          heartbeat_at?: string | null
+          id?: string
+          is_enabled?: boolean
+          last_cycle_finished_at?: string | null
+          last_cycle_id?: string | null
+          last_cycle_started_at?: string | null
+          last_error?: string | null
+          lease_expires_at?: string | null
+          lease_holder?: string | null
+          max_trade_sol?: number
+          session_expires_at?: string | null
+          session_public_key?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bot_session_keys: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          iv: string
+          public_key: string
+          revoked_at: string | null
+          sealed_secret: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          iv: string
+          public_key: string
+          revoked_at?: string | null
+          sealed_secret: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          iv?: string
+          public_key?: string
+          revoked_at?: string | null
+          sealed_secret?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bot_stage_runs: {
+        Row: {
+          created_at: string
+          cycle_id: string
+          duration_ms: number
+          error: string | null
+          finished_at: string
+          id: string
+          stage: string
+          started_at: string
+          status: string
+          summary: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          cycle_id: string
+          duration_ms: number
+          error?: string | null
+          finished_at: string
+          id?: string
+          stage: string
+          started_at: string
+          status: string
+          summary?: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          cycle_id?: string
+          duration_ms?: number
+          error?: string | null
+          finished_at?: string
+          id?: string
+          stage?: string
+          started_at?: string
+          status?: string
+          summary?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      circuit_breaker_trips: {
+        Row: {
+          created_at: string
+          id: string
+          level: string
+          limit_value: number
+          loss_amount: number
+          message: string
+          position_ids: string[]
+          strategy: string | null
+          trigger: string
+          unit: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          level: string
+          limit_value: number
+          loss_amount: number
+          message: string
+          position_ids?: string[]
+          strategy?: string | null
+          trigger: string
+          unit: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          level?: string
+          limit_value?: number
+          loss_amount?: number
+          message?: string
+          position_ids?: string[]
+          strategy?: string | null
+          trigger?: string
+          unit?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      copy_trade_leaders: {
+        Row: {
+          created_at: string
+          fixed_sol_amount: number
+          id: string
+          is_active: boolean
+          label: string | null
+          last_polled_at: string | null
+          last_signature: string | null
+          leader_address: string
+          leader_percent: number
+          max_sol_per_token: number | null
+          sizing_mode: string
+          stats: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          fixed_sol_amount?: number
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          last_polled_at?: string | null
+          last_signature?: string | null
+          leader_address: string
+          leader_percent?: number
+          max_sol_per_token?: number | null
+          sizing_mode?: string
+          stats?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          fixed_sol_amount?: number
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          last_polled_at?: string | null
+          last_signature?: string | null
+          leader_address?: string
+          leader_percent?: number
+          max_sol_per_token?: number | null
+          sizing_mode?: string
+          stats?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       copy_trades: {
         Row: {
           action: string
           amount: number
+          block_time: string | null
+          copy_amount_sol: number | null
           created_at: string
           id: string
           leader_address: string
+          leader_id: string | null
           leader_name: string | null
           price: number
+          reasons: string[] | null
+          signal_id: string | null
+          sol_amount: number | null
           status: string | null
           token_address: string
           token_symbol: string
@@ -137,11 +419,17 @@ export type Database = {
         Insert: {
           action: string
           amount: number
+          block_time?: string | null
+          copy_amount_sol?: number | null
           created_at?: string
           id?: string
           leader_address: string
+          leader_id?: string | null
           leader_name?: string | null
           price: number
+          reasons?: string[] | null
+          signal_id?: string | null
+          sol_amount?: number | null
           status?: string | null
           token_address: string
           token_symbol: string
@@ -151,11 +439,17 @@ export type Database = {
         Update: {
           action?: string
           amount?: number
+          block_time?: string | null
+          copy_amount_sol?: number | null
           created_at?: string
           id?: string
           leader_address?: string
+          leader_id?: string | null
           leader_name?: string | null
           price?: number
+          reasons?: string[] | null
+          signal_id?: string | null
+          sol_amount?: number | null
           status?: string | null
           token_address?: string
           token_symbol?: string
@@ -164,6 +458,36 @@ export type Database = {
         }
         Relationships: []
       }
+      creator_blocklist: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          creator: string
+          id: string
+          reason: string | null
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          creator: string
+          id?: string
+          reason?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          creator?: string
+          id?: string
+          reason?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       disclaimer_acknowledgments: {
         Row: {
           acknowledged_at: string
@@ -185,11 +509,77 @@ export type Database = {
         }
         Relationships: []
       }
+      notification_channels: {
+        Row: {
+          config: Json
+          created_at: string
+          id: string
+          is_enabled: boolean
+          kind: string
+          label: string | null
+          last_delivery_at: string | null
+          last_error: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          kind: string
+          label?: string | null
+          last_delivery_at?: string | null
+          last_error?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          kind?: string
+          label?: string | null
+          last_delivery_at?: string | null
+          last_error?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_routes: {
+        Row: {
+          channel_id: string
+          created_at: string
+          event: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          channel_id: string
+          created_at?: string
+          event: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          channel_id?: string
+          created_at?: string
+          event?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string
+          dispatched_at: string | null
+          event: string
           id: string
           message: string
+          metadata: Json | null
           read: boolean | null
           title: string
           type: string | null
@@ -197,8 +587,11 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          dispatched_at?: string | null
+          event?: string
           id?: string
           message: string
+          metadata?: Json | null
           read?: boolean | null
           title: string
           type?: string | null
@@ -206,8 +599,11 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          dispatched_at?: string | null
+          event?: string
           id?: string
           message?: string
+          metadata?: Json | null
           read?: boolean | null
           title?: string
           type?: string | null
@@ -215,6 +611,102 @@ export type Database = {
         }
         Relationships: []
       }
+      paper_positions: {
+        Row: {
+          amount: number
+          closed_at: string | null
+          created_at: string
+          entry_fee_lamports: number
+          entry_price_usd: number | null
+          entry_slippage_bps: number | null
+          entry_sol: number
+          exit_fee_lamports: number | null
+          exit_price_usd: number | null
+          exit_reason: string | null
+          exit_slippage_bps: number | null
+          exit_sol: number | null
+          failed_exit_attempts: number
+          failure_reason: string | null
+          id: string
+          profit_loss_percent: number | null
+          profit_loss_sol: number | null
+          profit_take_percent: number | null
+          sol_price_usd: number | null
+          source: string | null
+          status: string
+          stop_loss_percent: number | null
+          token_address: string
+          token_amount_raw: string
+          token_decimals: number
+          token_name: string | null
+          token_symbol: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          closed_at?: string | null
+          created_at?: string
+          entry_fee_lamports?: number
+          entry_price_usd?: number | null
+          entry_slippage_bps?: number | null
+          entry_sol: number
+          exit_fee_lamports?: number | null
+          exit_price_usd?: number | null
+          exit_reason?: string | null
+          exit_slippage_bps?: number | null
+          exit_sol?: number | null
+          failed_exit_attempts?: number
+          failure_reason?: string | null
+          id?: string
+          profit_loss_percent?: number | null
+          profit_loss_sol?: number | null
+          profit_take_percent?: number | null
+          sol_price_usd?: number | null
+          source?: string | null
+          status?: string
+          stop_loss_percent?: number | null
+          token_address: string
+          token_amount_raw?: string
+          token_decimals: number
+          token_name?: string | null
+          token_symbol?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          closed_at?: string | null
+          created_at?: string
+          entry_fee_lamports?: number
+          entry_price_usd?: number | null
+          entry_slippage_bps?: number | null
+          entry_sol?: number
+          exit_fee_lamports?: number | null
+          exit_price_usd?: number | null
+          exit_reason?: string | null
+          exit_slippage_bps?: number | null
+          exit_sol?: number | null
+          failed_exit_attempts?: number
+          failure_reason?: string | null
+          id?: string
+          profit_loss_percent?: number | null
+          profit_loss_sol?: number | null
+          profit_take_percent?: number | null
+          sol_price_usd?: number | null
+          source?: string | null
+          status?: string
+          stop_loss_percent?: number | null
+          token_address?: string
+          token_amount_raw?: string
+          token_decimals?: number
+          token_name?: string | null
+          token_symbol?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       positions: {
         Row: {
           amount: number
@@ -225,13 +717,20 @@ export type Database = {
           current_value: number | null
           entry_price: number
           entry_price_usd: number | null
+          entry_sol: number | null
           entry_value: number | null
+          exit_plan: Json | null
           exit_price: number | null
           exit_reason: string | null
+          exit_route: string | null
+          exit_tiers_filled: Json
           exit_tx_id: string | null
+          guardian_state: Json | null
           id: string
+          initial_amount: number | null
           liquidity_check_count: number | null
           liquidity_last_checked_at: string | null
+          peak_price: number | null
           pnl_percentage: number | null
           profit_loss_percent: number | null
           profit_loss_value: number | null
@@ -240,10 +739,12 @@ export type Database = {
           stop_loss_percent: number | null
           token_address: string
           token_name: string | null
+          token_stage: string | null
           token_symbol: string | null
           updated_at: string
           user_id: string
           waiting_for_liquidity_since: string | null
+          wallet_address: string | null
         }
         Insert: {
           amount: number
@@ -254,13 +755,20 @@ export type Database = {
           current_value?: number | null
           entry_price: number
           entry_price_usd?: number | null
+          entry_sol?: number | null
           entry_value?: number | null
+          exit_plan?: Json | null
           exit_price?: number | null
           exit_reason?: string | null
+          exit_route?: string | null
+          exit_tiers_filled?: Json
           exit_tx_id?: string | null
+          guardian_state?: Json | null
           id?: string
+          initial_amount?: number | null
           liquidity_check_count?: number | null
           liquidity_last_checked_at?: string | null
+          peak_price?: number | null
           pnl_percentage?: number | null
           profit_loss_percent?: number | null
           profit_loss_value?: number | null
@@ -269,10 +777,12 @@ export type Database = {
           stop_loss_percent?: number | null
           token_address: string
           token_name?: string | null
+          token_stage?: string | null
           token_symbol?: string | null
           updated_at?: string
           user_id: string
           waiting_for_liquidity_since?: string | null
+          wallet_address?: string | null
         }
         Update: {
           amount?: number
@@ -283,13 +793,20 @@ export type Database = {
           current_value?: number | null
           entry_price?: number
           entry_price_usd?: number | null
+          entry_sol?: number | null
           entry_value?: number | null
+          exit_plan?: Json | null
           exit_price?: number | null
           exit_reason?: string | null
+          exit_route?: string | null
+          exit_tiers_filled?: Json
           exit_tx_id?: string | null
+          guardian_state?: Json | null
           id?: string
+          initial_amount?: number | null
           liquidity_check_count?: number | null
           liquidity_last_checked_at?: string | null
+          peak_price?: number | null
           pnl_percentage?: number | null
           profit_loss_percent?: number | null
           profit_loss_value?: number | null
@@ -298,16 +815,19 @@ export type Database = {
           stop_loss_percent?: number | null
           token_address?: string
           token_name?: string | null
+          token_stage?: string | null
           token_symbol?: string | null
           updated_at?: string
           user_id?: string
           waiting_for_liquidity_since?: string | null
+          wallet_address?: string | null
         }
         Relationships: []
       }
       profiles: {
         Row: {
           avatar_url: string | null
+          bot_log_retention_days: number
           created_at: string
           display_name: string | null
           email: string | null
@@ -321,6 +841,7 @@ export type Database = {
         }
         Insert: {
           avatar_url?: string | null
+          bot_log_retention_days?: number
           created_at?: string
           display_name?: string | null
           email?: string | null
@@ -334,6 +855,7 @@ export type Database = {
         }
         Update: {
           avatar_url?: string | null
+          bot_log_retention_days?: number
           created_at?: string
           display_name?: string | null
           email?: string | null
@@ -363,6 +885,7 @@ export type Database = {
           rejection_reasons: string[] | null
           risk_score: number | null
           sell_tax: number | null
+          tax_source: string
           token_address: string
           token_symbol: string | null
           user_id: string | null
@@ -382,6 +905,7 @@ export type Database = {
           rejection_reasons?: string[] | null
           risk_score?: number | null
           sell_tax?: number | null
+          tax_source?: string
           token_address: string
           token_symbol?: string | null
           user_id?: string | null
@@ -401,6 +925,7 @@ export type Database = {
           rejection_reasons?: string[] | null
           risk_score?: number | null
           sell_tax?: number | null
+          tax_source?: string
           token_address?: string
           token_symbol?: string | null
           user_id?: string | null
@@ -409,8 +934,11 @@ export type Database = {
       }
       risk_settings: {
         Row: {
+          circuit_breaker_config: Json
           circuit_breaker_enabled: boolean
+          circuit_breaker_level: string
           circuit_breaker_loss_threshold: number
+          circuit_breaker_paused_strategies: string[]
           circuit_breaker_time_window_minutes: number
           circuit_breaker_triggered_at: string | null
           created_at: string
@@ -424,8 +952,11 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          circuit_breaker_config?: Json
           circuit_breaker_enabled?: boolean
+          circuit_breaker_level?: string
           circuit_breaker_loss_threshold?: number
+          circuit_breaker_paused_strategies?: string[]
           circuit_breaker_time_window_minutes?: number
           circuit_breaker_triggered_at?: string | null
           created_at?: string
@@ -439,8 +970,11 @@ export type Database = {
           user_id: string
         }
         Update: {
+          circuit_breaker_config?: Json
           circuit_breaker_enabled?: boolean
+          circuit_breaker_level?: string
           circuit_breaker_loss_threshold?: number
+          circuit_breaker_paused_strategies?: string[]
           circuit_breaker_time_window_minutes?: number
           circuit_breaker_triggered_at?: string | null
           created_at?: string
@@ -455,6 +989,48 @@ export type Database = {
         }
         Relationships: []
       }
+      sell_locks: {
+        Row: {
+          acquired_at: string
+          created_at: string
+          expires_at: string
+          fencing_token: number
+          holder: string
+          id: string
+          position_id: string
+          source: string
+          token_address: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          acquired_at?: string
+          created_at?: string
+          expires_at: string
+          fencing_token: number
+          holder: string
+          id?: string
+          position_id: string
+          source: string
+          token_address: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          acquired_at?: string
+          created_at?: string
+          expires_at?: string
+          fencing_token?: number
+          holder?: string
+          id?: string
+          position_id?: string
+          source?: string
+          token_address?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       sniper_settings: {
         Row: {
           auto_buy_enabled: boolean | null
@@ -533,17 +1109,130 @@ export type Database = {
         }
         Relationships: []
       }
+      token_creators: {
+        Row: {
+          created_at: string
+          creation_signature: string | null
+          creation_slot: number | null
+          creator: string
+          id: string
+          launched_at: string
+          mint: string
+          outcome: string
+          outcome_at: string | null
+          outcome_reason: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          creation_signature?: string | null
+          creation_slot?: number | null
+          creator: string
+          id?: string
+          launched_at?: string
+          mint: string
+          outcome?: string
+          outcome_at?: string | null
+          outcome_reason?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          creation_signature?: string | null
+          creation_slot?: number | null
+          creator?: string
+          id?: string
+          launched_at?: string
+          mint?: string
+          outcome?: string
+          outcome_at?: string | null
+          outcome_reason?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      token_holder_analyses: {
+        Row: {
+          analysis: Json
+          analyzed_at: string
+          effective_top_holder_percent: number | null
+          id: string
+          token_address: string
+        }
+        Insert: {
+          analysis: Json
+          analyzed_at?: string
+          effective_top_holder_percent?: number | null
+          id?: string
+          token_address: string
+        }
+        Update: {
+          analysis?: Json
+          analyzed_at?: string
+          effective_top_holder_percent?: number | null
+          id?: string
+          token_address?: string
+        }
+        Relationships: []
+      }
+      token_ohlcv_cache: {
+        Row: {
+          bucket_start: string
+          close: number
+          fetched_at: string
+          high: number
+          id: string
+          low: number
+          open: number
+          pool_address: string | null
+          source: string
+          timeframe: string
+          token_address: string
+          volume: number
+        }
+        Insert: {
+          bucket_start: string
+          close: number
+          fetched_at?: string
+          high: number
+          id?: string
+          low: number
+          open: number
+          pool_address?: string | null
+          source: string
+          timeframe: string
+          token_address: string
+          volume?: number
+        }
+        Update: {
+          bucket_start?: string
+          close?: number
+          fetched_at?: string
+          high?: number
+          id?: string
+          low?: number
+          open?: number
+          pool_address?: string | null
+          source?: string
+          timeframe?: string
+          token_address?: string
+          volume?: number
+        }
+        Relationships: []
+      }
       token_processing_states: {
         Row: {
           buyer_position_at_discovery: number | null
           created_at: string
           discovered_at: string
+          discovery_snapshot: Json | null
           id: string
           liquidity_at_discovery: number | null
           max_retries: number
           pending_reason: string | null
           pending_since: string | null
           position_id: string | null
+          price_usd_at_discovery: number | null
           rejected_at: string | null
           rejection_reason: string | null
           retry_count: number
@@ -563,12 +1252,14 @@ export type Database = {
           buyer_position_at_discovery?: number | null
           created_at?: string
           discovered_at?: string
+          discovery_snapshot?: Json | null
           id?: string
           liquidity_at_discovery?: number | null
           max_retries?: number
           pending_reason?: string | null
           pending_since?: string | null
           position_id?: string | null
+          price_usd_at_discovery?: number | null
           rejected_at?: string | null
           rejection_reason?: string | null
           retry_count?: number
@@ -588,12 +1279,14 @@ export type Database = {
           buyer_position_at_discovery?: number | null
           created_at?: string
           discovered_at?: string
+          discovery_snapshot?: Json | null
           id?: string
           liquidity_at_discovery?: number | null
           max_retries?: number
           pending_reason?: string | null
           pending_since?: string | null
           position_id?: string | null
+          price_usd_at_discovery?: number | null
           rejected_at?: string | null
           rejection_reason?: string | null
           retry_count?: number
@@ -615,6 +1308,7 @@ export type Database = {
         Row: {
           amount: number
           created_at: string
+          exit_reason: string | null
           id: string
           price_sol: number | null
           price_usd: number | null
@@ -629,6 +1323,7 @@ export type Database = {
         Insert: {
           amount: number
           created_at?: string
+          exit_reason?: string | null
           id?: string
           price_sol?: number | null
           price_usd?: number | null
@@ -643,6 +1338,7 @@ export type Database = {
         Update: {
           amount?: number
           created_at?: string
+          exit_reason?: string | null
           id?: string
           price_sol?: number | null
           price_usd?: number | null
@@ -728,6 +1424,45 @@ export type Database = {
         }
         Relationships: []
       }
+      trading_wallets: {
+        Row: {
+          address: string
+          budget_sol: number
+          created_at: string
+          id: string
+          is_active: boolean
+          label: string | null
+          max_open_positions: number
+          strategy: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          budget_sol?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          max_open_positions?: number
+          strategy?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          budget_sol?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          label?: string | null
+          max_open_positions?: number
+          strategy?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_activity_logs: {
         Row: {
           activity_category: string
@@ -786,6 +1521,10 @@ export type Database = {
         Row: {
           category_filters: Json | null
           created_at: string
+          curve_entry: Json | null
+          entry_rules: Json
+          exit_plan: Json | null
+          guardian_config: Json | null
           id: string
           max_concurrent_trades: number | null
           max_risk_score: number | null
@@ -804,6 +1543,10 @@ export type Database = {
         Insert: {
           category_filters?: Json | null
           created_at?: string
+          curve_entry?: Json | null
+          entry_rules?: Json
+          exit_plan?: Json | null
+          guardian_config?: Json | null
           id?: string
           max_concurrent_trades?: number | null
           max_risk_score?: number | null
@@ -822,6 +1565,10 @@ export type Database = {
         Update: {
           category_filters?: Json | null
           created_at?: string
+          curve_entry?: Json | null
+          entry_rules?: Json
+          exit_plan?: Json | null
+          guardian_config?: Json | null
           id?: string
           max_concurrent_trades?: number | null
           max_risk_score?: number | null
@@ -844,7 +1591,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acquire_sell_lock: {
+        Args: {
+          p_holder: string
+          p_position_id: string
+          p_source: string
+          p_token_address: string
+          p_ttl_seconds: number
+          p_user_id: string
+        }
+        Returns: {
+          acquired: boolean
+          expires_at: string
+          fencing_token: number
+          holder: string
+          source: string
+        }[]
+      }
+      check_sell_lock: {
+        Args: { p_fencing_token: number; p_position_id: string }
+        Returns: boolean
+      }
+      claim_bot_lease: {
+        Args: { p_holder: string; p_ttl_seconds: number; p_user_id: string }
+        Returns: boolean
+      }
       cleanup_old_api_health_metrics: { Args: never; Returns: undefined }
+      cleanup_old_bot_activity_logs: { Args: never; Returns: undefined }
+      cleanup_old_bot_stage_runs: { Args: never; Returns: undefined }
+      cleanup_old_holder_analyses: { Args: never; Returns: undefined }
+      cleanup_old_ohlcv_cache: { Args: never; Returns: undefined }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -852,6 +1628,14 @@ export type Database = {
         }
         Returns: boolean
       }
+      release_bot_lease: {
+        Args: { p_holder: string; p_user_id: string }
+        Returns: undefined
+      }
+      release_sell_lock: {
+        Args: { p_fencing_token: number; p_position_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,149 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  runBacktest,
+  simulateTrade,
+  type BacktestParams,
+  type BacktestSnapshot,
+  type PriceCandle,
+} from "@/lib/backtest";
+import type { ExitPlan } from "@/lib/exitPlan";
+
+const T0 = 1_760_000_000; // unix seconds
+const MINUTE = 60;
+
+const PARAMS: BacktestParams = {
+  minLiquidity: 5,
+  maxRiskScore: 50,
+  profitTakePercent: 100,
+  stopLossPercent: 40,
+  targetBuyerPositions: [],
+  tradeAmountSol: 1,
+  maxConcurrentTrades: 2,
+  tokenBlacklist: [],
+  tokenWhitelist: [],
+  exitPlan: null,
+};
+
+function snapshot(address: string, discoveredSec: number, overrides: Partial<BacktestSnapshot> = {}): BacktestSnapshot {
+  return {
+    address,
+    name: `Token ${address}`,
+    symbol: address.toUpperCase(),
+    source: "pump.fun",
+    discoveredAt: discoveredSec * 1000,
+    liquidity: 10,
+    riskScore: 20,
+    buyerPosition: 3,
+    entryPriceUsd: null,
+    holders: 50,
+    createdAt: null,
+    freezeAuthority: null,
+    hasSwapRoute: true,
+    ...overrides,
+  };
+}
+
+// One-minute candles from `start`, each [open, high, low, close]; entry fills at the first close
+function candles(start: number, ohlc: [number, number, number, number][]): PriceCandle[] {
+  return ohlc.map(([open, high, low, close], i) => ({ time: start + i * MINUTE, open, high, low, close }));
+}
+
+// Entry at 1, then a green candle through +110%: take-profit at the high
+const winner = (start: number) => candles(start, [[1, 1, 1, 1], [1, 2.1, 0.9, 2]]);
+// Entry at 1, then a red candle down to 0.5: stop-loss at the low
+const loser = (start: number) => candles(start, [[1, 1, 1, 1], [1, 1.1, 0.5, 0.6]]);
+
+describe("simulateTrade", () => {
+  it("closes at the fixed take-profit and stop-loss without an exit plan", () => {
+    const win = simulateTrade(snapshot("a", T0), winner(T0), PARAMS);
+    expect(win).toMatchObject({ exitReason: "take_profit", partialExits: 0 });
+    expect(win?.pnlPercent).toBeCloseTo(110);
+
+    const loss = simulateTrade(snapshot("b", T0), loser(T0), PARAMS);
+    expect(loss?.exitReason).toBe("stop_loss");
+    expect(loss?.pnlSol).toBeCloseTo(-0.5);
+  });
+
+  it("replays the exit plan through the shared evaluator", () => {
+    const plan: ExitPlan = {
+      tiers: [{ gainPercent: 50, sellPercent: 50 }],
+      trailingStopPercent: 25,
+      trailingActivationPercent: 50,
+    };
+    // +60% fills the tier, the run to 2 arms the trailing stop, 1.4 is 30% off that peak
+    const path = candles(T0, [[1, 1, 1, 1], [1, 1.6, 1, 1.6], [1.6, 2, 1.4, 1.45]]);
+
+    const trade = simulateTrade(snapshot("a", T0), path, { ...PARAMS, exitPlan: plan });
+    expect(trade).toMatchObject({ exitReason: "trailing_stop", partialExits: 1 });
+    // Half sold at 1.6, half at 1.4
+    expect(trade?.pnlPercent).toBeCloseTo(50);
+
+    // The same path under fixed TP/SL takes the whole position at +100%
+    expect(simulateTrade(snapshot("a", T0), path, PARAMS)?.exitReason).toBe("take_profit");
+  });
+
+  it("marks a position still open when the data runs out to the last close", () => {
+    const trade = simulateTrade(snapshot("a", T0), candles(T0, [[1, 1, 1, 1], [1, 1.3, 0.9, 1.2]]), PARAMS);
+    expect(trade?.exitReason).toBe("end_of_data");
+    expect(trade?.pnlPercent).toBeCloseTo(20);
+  });
+
+  it("needs a candle at or after the discovery", () => {
+    expect(simulateTrade(snapshot("a", T0 + 10 * MINUTE), winner(T0), PARAMS)).toBeNull();
+  });
+});
+
+describe("runBacktest", () => {
+  it("reports win rate and the drawdown from peak realized equity", () => {
+    const snapshots = [snapshot("a", T0), snapshot("b", T0 + 10 * MINUTE), snapshot("c", T0 + 20 * MINUTE)];
+    const result = runBacktest(
+      snapshots,
+      new Map([
+        ["a", winner(T0)],
+        ["b", loser(T0 + 10 * MINUTE)],
+        ["c", loser(T0 + 20 * MINUTE)],
+      ]),
+      PARAMS
+    );
+
+    expect(result).toMatchObject({ evaluated: 3, approved: 3, rejected: 0, wins: 1, losses: 2 });
+    expect(result.winRate).toBeCloseTo(100 / 3);
+    // Equity 1.1 -> 0.6 -> 0.1
+    expect(result.totalPnlSol).toBeCloseTo(0.1);
+    expect(result.maxDrawdownSol).toBeCloseTo(1);
+    // Against a 2 SOL bankroll (1 SOL x 2 concurrent) plus the 1.1 SOL peak
+    expect(result.maxDrawdownPercent).toBeCloseTo((1 / 3.1) * 100);
+    expect(result.pnlCurve.map((p) => p.equitySol)).toEqual([0, expect.closeTo(1.1), expect.closeTo(0.6), expect.closeTo(0.1)]);
+  });
+
+  it("counts every rule a rejected token failed, plus concurrency and missing data", () => {
+    const snapshots = [
+      snapshot("open1", T0),
+      snapshot("thin", T0 + 1, { liquidity: 3 }),
+      snapshot("risky", T0 + 2, { riskScore: 80 }),
+      snapshot("banned", T0 + 3),
+      snapshot("open2", T0 + 4),
+      snapshot("nodata", T0 + 5 * MINUTE),
+    ];
+    // open1 is still holding when open2 is discovered, and only one trade may be open
+    const result = runBacktest(
+      snapshots,
+      new Map([
+        ["open1", candles(T0, [[1, 1, 1, 1], [1, 1.2, 0.9, 1.1], [1.1, 2.5, 1.1, 2.4]])],
+        ["open2", winner(T0)],
+      ]),
+      { ...PARAMS, maxConcurrentTrades: 1, tokenBlacklist: ["banned"] }
+    );
+
+    expect(result).toMatchObject({ evaluated: 6, approved: 1, rejected: 4, skippedNoPriceData: 1 });
+    expect(result.rejectionCounts).toEqual({
+      BELOW_MIN_LIQUIDITY: 1,
+      // Fails both the discovery ceiling (70) and the sniper's own (50)
+      HIGH_RISK: 1,
+      ABOVE_MAX_RISK: 1,
+      BLACKLISTED: 1,
+      MAX_CONCURRENT: 1,
+    });
+  });
+});
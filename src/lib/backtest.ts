@@ -0,0 +1,376 @@
+/**
+ * Backtest Module
+ * Replays recorded discoveries (token_processing_states snapshots + cached OHLCV candles)
+ * against a sniper parameter set: the discovery rules, the auto-sniper approval rules,
+ * then exits through the same decision as auto-exit: the shared exit-plan evaluator, or
+ * fixed TP/SL for positions without a plan.
+ * Pure - data loading lives in useBacktest.
+ */
+
+import {
+  validateDiscoveryCandidate,
+  checkBlacklistWhitelist,
+  checkLiquidity,
+  checkRiskScore,
+  checkBuyerPosition,
+  formatRuleReason,
+  type DiscoveryReason,
+  type DiscoveryRejectCode,
+} from '@shared/snipe-rules';
+import type { GuardianExitReason } from '@shared/position-guardian';
+import { evaluateExitPlan, type ExitPlanDecision, type ExitPlanPositionState } from '@shared/exit-plan';
+import type { ExitAction, ExitPlan } from './exitPlan';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BacktestParams {
+  minLiquidity: number;          // SOL
+  maxRiskScore: number;
+  profitTakePercent: number;
+  stopLossPercent: number;
+  targetBuyerPositions: number[]; // Empty = auto-sniper default (#2-#10)
+  tradeAmountSol: number;
+  maxConcurrentTrades: number;
+  tokenBlacklist: string[];
+  tokenWhitelist: string[];
+  exitPlan: ExitPlan | null;
+}
+
+// One recorded discovery, as the scanner saw it
+export interface BacktestSnapshot {
+  address: string;
+  name: string;
+  symbol: string;
+  source: string;
+  discoveredAt: number;           // unix ms
+  liquidity: number;              // SOL
+  riskScore: number;
+  buyerPosition: number | null;
+  entryPriceUsd: number | null;
+  holders: number | null;
+  createdAt: string | null;
+  freezeAuthority: string | null;
+  hasSwapRoute: boolean | null;   // null = recorded before snapshots existed
+}
+
+export interface PriceCandle {
+  time: number;                   // bucket start, unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type BacktestRejectCode = DiscoveryRejectCode | 'MAX_CONCURRENT';
+
+// The backtest replays prices only, so the guardian's emergency exits never happen here
+export type BacktestExitReason = Exclude<ExitAction, 'hold' | 'partial_take_profit' | GuardianExitReason> | 'end_of_data';
+
+export interface BacktestTrade {
+  address: string;
+  symbol: string;
+  entryTime: number;              // unix ms
+  exitTime: number;               // unix ms
+  entryPrice: number;
+  avgExitPrice: number;
+  pnlPercent: number;
+  pnlSol: number;
+  exitReason: BacktestExitReason;
+  partialExits: number;
+}
+
+export interface EquityPoint {
+  time: number;                   // unix ms
+  equitySol: number;              // Cumulative realized P&L
+}
+
+export interface BacktestResult {
+  evaluated: number;
+  approved: number;
+  rejected: number;
+  skippedNoPriceData: number;
+  trades: BacktestTrade[];
+  wins: number;
+  losses: number;
+  winRate: number;                // 0-100
+  totalPnlSol: number;
+  avgPnlPercent: number;
+  maxDrawdownSol: number;
+  maxDrawdownPercent: number;     // Of bankroll (trade amount x max concurrent) plus peak equity
+  pnlCurve: EquityPoint[];
+  // A token can fail several rules, so these can add up to more than `rejected`
+  rejectionCounts: Partial<Record<BacktestRejectCode, number>>;
+}
+
+export interface SnapshotVerdict {
+  approved: boolean;
+  rejectCodes: BacktestRejectCode[];
+  reasons: string[];
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Run a recorded discovery through the shared discovery rules and the auto-sniper approval rules
+ * (black/whitelist, min liquidity, risk threshold, buyer position)
+ */
+export function evaluateSnapshot(snapshot: BacktestSnapshot, params: BacktestParams): SnapshotVerdict {
+  const discovery = validateDiscoveryCandidate(
+    {
+      address: snapshot.address,
+      name: snapshot.name,
+      symbol: snapshot.symbol,
+      liquidity: snapshot.liquidity,
+      createdAt: snapshot.createdAt || new Date(snapshot.discoveredAt).toISOString(),
+      buyerPosition: snapshot.buyerPosition,
+      riskScore: snapshot.riskScore,
+      holders: snapshot.holders ?? 0,
+      freezeAuthority: snapshot.freezeAuthority,
+      mintAuthority: null,
+      // Older rows have no route flag - they were only recorded once the scanner listed them as tradeable
+      hasSwapRoute: snapshot.hasSwapRoute ?? true,
+      source: snapshot.source,
+    },
+    snapshot.discoveredAt
+  );
+
+  const verdicts: DiscoveryReason[] = [
+    ...discovery.reasons,
+    checkBlacklistWhitelist(snapshot, { token_blacklist: params.tokenBlacklist, token_whitelist: params.tokenWhitelist }),
+    checkLiquidity(snapshot, { min_liquidity: params.minLiquidity }),
+    checkRiskScore(snapshot.riskScore, params.maxRiskScore),
+    checkBuyerPosition(snapshot, params.targetBuyerPositions),
+  ];
+  const rejections = verdicts.filter(r => r.severity === 'reject');
+
+  return {
+    approved: rejections.length === 0,
+    rejectCodes: rejections.map(r => r.code as DiscoveryRejectCode),
+    reasons: rejections.map(formatRuleReason),
+  };
+}
+
+// ============================================================================
+// EXIT SIMULATION
+// ============================================================================
+
+// Assumed intra-candle path: a green candle dips first, a red candle spikes first
+function candleTicks(candle: PriceCandle): number[] {
+  return candle.close >= candle.open
+    ? [candle.open, candle.low, candle.high, candle.close]
+    : [candle.open, candle.high, candle.low, candle.close];
+}
+
+/**
+ * Simulate one entry at discovery and walk the candles until the exit plan (or fixed TP/SL) closes it.
+ * Returns null when there is no price data from the discovery onwards.
+ */
+export function simulateTrade(
+  snapshot: BacktestSnapshot,
+  candles: PriceCandle[],
+  params: BacktestParams
+): BacktestTrade | null {
+  const discoveredSec = Math.floor(snapshot.discoveredAt / 1000);
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  const bucketSeconds = sorted.length > 1 ? sorted[1].time - sorted[0].time : 60;
+  const startIndex = sorted.findIndex(c => c.time + bucketSeconds > discoveredSec);
+  if (startIndex === -1) return null;
+
+  const entryCandle = sorted[startIndex];
+  const entryPrice = snapshot.entryPriceUsd && snapshot.entryPriceUsd > 0 ? snapshot.entryPriceUsd : entryCandle.open;
+  if (!(entryPrice > 0)) return null;
+
+  // Position normalized to 1 unit of token bought at entryPrice
+  let amount = 1;
+  let proceeds = 0;
+  let peakPrice: number | null = null;
+  let partialExits = 0;
+  const tiersFilled: number[] = [];
+
+  for (let i = startIndex; i < sorted.length; i++) {
+    const candle = sorted[i];
+    // The entry candle's path before our buy is unknown - only its close counts
+    const ticks = i === startIndex ? [candle.close] : candleTicks(candle);
+
+    for (const price of ticks) {
+      const decision = decideExit(params.exitPlan, {
+        entryPrice,
+        currentAmount: amount,
+        initialAmount: 1,
+        peakPrice,
+        tiersFilled,
+        stopLossPercent: params.stopLossPercent,
+        profitTakePercent: params.profitTakePercent,
+      }, price);
+      peakPrice = decision.peakPrice;
+
+      if (decision.action === 'hold') continue;
+
+      const sold = amount * decision.sellFraction;
+      proceeds += sold * price;
+      amount -= sold;
+      tiersFilled.push(...decision.tierIndexes);
+
+      if (decision.action === 'partial_take_profit' && amount > 1e-9) {
+        partialExits++;
+        continue;
+      }
+
+      return buildTrade(snapshot, entryPrice, proceeds, candle.time * 1000, decision.action, partialExits, params);
+    }
+  }
+
+  // Still open when the data runs out - mark to the last close
+  const last = sorted[sorted.length - 1];
+  proceeds += amount * last.close;
+  return buildTrade(snapshot, entryPrice, proceeds, last.time * 1000, 'end_of_data', partialExits, params);
+}
+
+// Mirrors checkExitConditions in auto-exit: the plan when there is one, else take-profit
+// then stop-loss at the fixed thresholds
+function decideExit(plan: ExitPlan | null, state: ExitPlanPositionState, price: number): ExitPlanDecision {
+  const profitLossPercent = ((price - state.entryPrice) / state.entryPrice) * 100;
+  if (plan) return evaluateExitPlan(plan, state, price, profitLossPercent);
+
+  const peakPrice = Math.max(state.peakPrice ?? state.entryPrice, price);
+  const base = { tierIndexes: [], peakPrice, drawdownFromPeakPercent: ((peakPrice - price) / peakPrice) * 100 };
+  if (profitLossPercent >= state.profitTakePercent) return { ...base, action: 'take_profit', sellFraction: 1 };
+  if (profitLossPercent <= -state.stopLossPercent) return { ...base, action: 'stop_loss', sellFraction: 1 };
+  return { ...base, action: 'hold', sellFraction: 0 };
+}
+
+function buildTrade(
+  snapshot: BacktestSnapshot,
+  entryPrice: number,
+  proceeds: number,
+  exitTime: number,
+  exitReason: BacktestExitReason | ExitAction,
+  partialExits: number,
+  params: BacktestParams
+): BacktestTrade {
+  const pnlPercent = (proceeds / entryPrice - 1) * 100;
+  return {
+    address: snapshot.address,
+    symbol: snapshot.symbol,
+    entryTime: snapshot.discoveredAt,
+    exitTime: Math.max(exitTime, snapshot.discoveredAt),
+    entryPrice,
+    avgExitPrice: proceeds,
+    pnlPercent,
+    pnlSol: (params.tradeAmountSol * pnlPercent) / 100,
+    exitReason: exitReason === 'partial_take_profit' ? 'take_profit' : (exitReason as BacktestExitReason),
+    partialExits,
+  };
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Replay all snapshots in discovery order under one parameter set
+ */
+export function runBacktest(
+  snapshots: BacktestSnapshot[],
+  candlesByToken: Map<string, PriceCandle[]>,
+  params: BacktestParams
+): BacktestResult {
+  const ordered = [...snapshots].sort((a, b) => a.discoveredAt - b.discoveredAt);
+  const rejectionCounts: Partial<Record<BacktestRejectCode, number>> = {};
+  const trades: BacktestTrade[] = [];
+  let openExitTimes: number[] = [];
+  let approved = 0;
+  let rejected = 0;
+  let skippedNoPriceData = 0;
+
+  const countRejection = (code: BacktestRejectCode) => {
+    rejectionCounts[code] = (rejectionCounts[code] || 0) + 1;
+  };
+
+  for (const snapshot of ordered) {
+    const verdict = evaluateSnapshot(snapshot, params);
+    if (!verdict.approved) {
+      rejected++;
+      verdict.rejectCodes.forEach(countRejection);
+      continue;
+    }
+
+    openExitTimes = openExitTimes.filter(t => t > snapshot.discoveredAt);
+    if (openExitTimes.length >= params.maxConcurrentTrades) {
+      rejected++;
+      countRejection('MAX_CONCURRENT');
+      continue;
+    }
+
+    const trade = simulateTrade(snapshot, candlesByToken.get(snapshot.address) || [], params);
+    if (!trade) {
+      skippedNoPriceData++;
+      continue;
+    }
+
+    approved++;
+    trades.push(trade);
+    openExitTimes.push(trade.exitTime);
+  }
+
+  // Equity curve over realized exits
+  const byExit = [...trades].sort((a, b) => a.exitTime - b.exitTime);
+  const pnlCurve: EquityPoint[] = ordered.length > 0 ? [{ time: ordered[0].discoveredAt, equitySol: 0 }] : [];
+  let equity = 0;
+  let peakEquity = 0;
+  let maxDrawdownSol = 0;
+  let maxDrawdownPercent = 0;
+  const bankroll = params.tradeAmountSol * Math.max(1, params.maxConcurrentTrades);
+
+  for (const trade of byExit) {
+    equity += trade.pnlSol;
+    pnlCurve.push({ time: trade.exitTime, equitySol: equity });
+    peakEquity = Math.max(peakEquity, equity);
+    const drawdown = peakEquity - equity;
+    if (drawdown > maxDrawdownSol) {
+      maxDrawdownSol = drawdown;
+      maxDrawdownPercent = bankroll + peakEquity > 0 ? (drawdown / (bankroll + peakEquity)) * 100 : 0;
+    }
+  }
+
+  const wins = trades.filter(t => t.pnlSol > 0).length;
+
+  return {
+    evaluated: ordered.length,
+    approved,
+    rejected,
+    skippedNoPriceData,
+    trades,
+    wins,
+    losses: trades.length - wins,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    totalPnlSol: equity,
+    avgPnlPercent: trades.length > 0 ? trades.reduce((sum, t) => sum + t.pnlPercent, 0) / trades.length : 0,
+    maxDrawdownSol,
+    maxDrawdownPercent,
+    pnlCurve,
+    rejectionCounts,
+  };
+}
+
+export function getRejectCodeLabel(code: BacktestRejectCode): string {
+  switch (code) {
+    case 'BELOW_MIN_LIQUIDITY': return 'Below min liquidity';
+    case 'ABOVE_MAX_RISK': return 'Risk score too high';
+    case 'BAD_POSITION': return 'Buyer position not targeted';
+    case 'BLACKLISTED': return 'Blacklisted';
+    case 'NOT_WHITELISTED': return 'Not whitelisted';
+    case 'MAX_CONCURRENT': return 'Max concurrent trades';
+    case 'LOW_LIQUIDITY': return 'Discovery: low liquidity';
+    case 'HIGH_RISK': return 'Discovery: high risk';
+    case 'NO_SWAP_ROUTE': return 'Discovery: no swap route';
+    case 'FREEZE_AUTHORITY': return 'Discovery: freeze authority';
+    case 'HIGH_TAX': return 'Discovery: high tax';
+    case 'SUSPICIOUS_NAME': return 'Discovery: suspicious name';
+    default: return code.replace(/_/g, ' ').toLowerCase();
+  }
+}
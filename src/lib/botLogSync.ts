@@ -0,0 +1,89 @@
+/**
+ * Batched upload of bot activity log entries to `bot_activity_logs`
+ *
+ * addBotLog runs on every scan tick, so entries are queued and written in one insert per
+ * flush instead of one per line. Failed batches go back on the queue; client ids make the
+ * retry idempotent.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { BotLogEntry } from '@/components/scanner/BotActivityLog';
+
+const FLUSH_INTERVAL_MS = 5_000;
+const MAX_BATCH_SIZE = 100;
+// Entries kept while the server is unreachable; oldest are dropped beyond this
+const MAX_QUEUE_SIZE = 1_000;
+
+interface QueuedLog {
+  userId: string;
+  entry: BotLogEntry;
+}
+
+let queue: QueuedLog[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
+
+function scheduleFlush(delayMs = FLUSH_INTERVAL_MS) {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushBotLogs();
+  }, delayMs);
+}
+
+export function queueBotLogForSync(userId: string, entry: BotLogEntry): void {
+  queue.push({ userId, entry });
+  if (queue.length > MAX_QUEUE_SIZE) queue = queue.slice(-MAX_QUEUE_SIZE);
+  scheduleFlush(queue.length >= MAX_BATCH_SIZE ? 0 : FLUSH_INTERVAL_MS);
+}
+
+/**
+ * Write queued entries now. Entries queued for a user other than the signed-in one are
+ * dropped - RLS would reject them anyway.
+ */
+export async function flushBotLogs(): Promise<void> {
+  if (flushing || queue.length === 0) return;
+  flushing = true;
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const sessionUserId = session?.user.id;
+    queue = queue.filter((q) => q.userId === sessionUserId);
+
+    while (queue.length > 0) {
+      const batch = queue.slice(0, MAX_BATCH_SIZE);
+      const { error } = await supabase
+        .from('bot_activity_logs')
+        .upsert(
+          batch.map(({ userId, entry }) => ({
+            user_id: userId,
+            client_id: entry.id,
+            logged_at: entry.timestamp.toISOString(),
+            level: entry.level,
+            category: entry.category,
+            message: entry.message,
+            details: entry.details ?? null,
+            token_symbol: entry.tokenSymbol ?? null,
+            token_address: entry.tokenAddress ?? null,
+          })),
+          { onConflict: 'user_id,client_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.warn('[BotLogSync] Batch upload failed, will retry:', error.message);
+        scheduleFlush(FLUSH_INTERVAL_MS * 2);
+        return;
+      }
+      queue = queue.slice(batch.length);
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+// Last chance to upload when the tab is hidden or closed
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flushBotLogs();
+  });
+}
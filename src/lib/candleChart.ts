@@ -0,0 +1,42 @@
+/**
+ * Candle Chart Module
+ * Turns normalized candles (@shared/ohlcv) into chart points and snaps the user's own fills
+ * onto the candle they happened in.
+ * Pure - data loading lives in useTokenCandles.
+ */
+
+import { OHLCV_TIMEFRAMES, type OhlcvCandle } from '@shared/ohlcv';
+import type { CandleTimeframe, TradeFill } from '@/hooks/useTokenCandles';
+
+export interface ChartPoint extends OhlcvCandle {
+  range: [number, number];
+  up: boolean;
+}
+
+export interface PlacedFill extends TradeFill {
+  candleTime: number;
+  price: number;
+}
+
+export function toChartPoints(candles: OhlcvCandle[]): ChartPoint[] {
+  return candles.map((c) => ({ ...c, range: [c.low, c.high], up: c.close >= c.open }));
+}
+
+/**
+ * Place each fill on the last candle that opened at or before it. Fills outside the charted
+ * range are dropped; a fill without a USD price is drawn at its candle's close. The bucket
+ * comes from the timeframe, so gaps in the series do not stretch it.
+ */
+export function placeFills(points: ChartPoint[], fills: TradeFill[], timeframe: CandleTimeframe): PlacedFill[] {
+  if (points.length === 0) return [];
+  const first = points[0].time;
+  const last = points[points.length - 1].time + OHLCV_TIMEFRAMES[timeframe].bucketSeconds;
+
+  return fills
+    .filter((f) => f.time >= first && f.time < last)
+    .map((f) => {
+      const candle = points.reduce((best, c) => (c.time <= f.time && c.time > best.time ? c : best), points[0]);
+      const price = f.priceUsd && f.priceUsd > 0 ? f.priceUsd : candle.close;
+      return { ...f, candleTime: candle.time, price };
+    });
+}
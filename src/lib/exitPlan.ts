@@ -0,0 +1,129 @@
+/**
+ * Exit Plan Module
+ * Trailing stop-loss + tiered take-profit ladder configuration.
+ * Parsing and evaluation are shared with the auto-exit edge function (@shared/exit-plan);
+ * this module owns the client-side defaults, validation and labels for the editors.
+ */
+
+import type { GuardianExitReason } from '@shared/position-guardian';
+import type { ExitPlan, ExitPlanAction } from '@shared/exit-plan';
+
+export { parseExitPlan, type ExitPlan, type ExitPlanTier } from '@shared/exit-plan';
+
+// Emergency exits come from the position guardian (@shared/position-guardian), not the plan
+export type ExitAction = ExitPlanAction | GuardianExitReason;
+
+// "Sell 30% at +50%, 30% at +150%, trail the rest at 25%"
+export const DEFAULT_EXIT_PLAN: ExitPlan = {
+  tiers: [
+    { gainPercent: 50, sellPercent: 30 },
+    { gainPercent: 150, sellPercent: 30 },
+  ],
+  trailingStopPercent: 25,
+  trailingActivationPercent: 50,
+};
+
+export const MAX_EXIT_PLAN_TIERS = 6;
+
+export interface ExitPlanValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate an exit plan before it is saved
+ */
+export function validateExitPlan(plan: ExitPlan): ExitPlanValidation {
+  const errors: string[] = [];
+
+  if (plan.tiers.length > MAX_EXIT_PLAN_TIERS) {
+    errors.push(`At most ${MAX_EXIT_PLAN_TIERS} take-profit tiers are allowed`);
+  }
+
+  plan.tiers.forEach((tier, i) => {
+    if (!Number.isFinite(tier.gainPercent) || tier.gainPercent <= 0) {
+      errors.push(`Tier ${i + 1}: gain must be greater than 0%`);
+    }
+    if (!Number.isFinite(tier.sellPercent) || tier.sellPercent <= 0 || tier.sellPercent > 100) {
+      errors.push(`Tier ${i + 1}: sell amount must be between 1% and 100%`);
+    }
+  });
+
+  const gains = plan.tiers.map(t => t.gainPercent);
+  if (new Set(gains).size !== gains.length) {
+    errors.push('Two tiers cannot trigger at the same gain');
+  }
+
+  const totalSell = plan.tiers.reduce((sum, t) => sum + t.sellPercent, 0);
+  if (totalSell > 100) {
+    errors.push(`Tiers sell ${totalSell}% of the position - the total cannot exceed 100%`);
+  }
+
+  if (plan.trailingStopPercent !== null) {
+    if (!Number.isFinite(plan.trailingStopPercent) || plan.trailingStopPercent <= 0 || plan.trailingStopPercent >= 100) {
+      errors.push('Trailing stop must be between 1% and 99%');
+    }
+    if (!Number.isFinite(plan.trailingActivationPercent) || plan.trailingActivationPercent < 0) {
+      errors.push('Trailing activation cannot be negative');
+    }
+  }
+
+  if (plan.tiers.length === 0 && plan.trailingStopPercent === null) {
+    errors.push('Add at least one take-profit tier or a trailing stop');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Human-readable one-liner, e.g. "30% @ +50% → 30% @ +150% → trail 25%"
+ */
+export function describeExitPlan(plan: ExitPlan | null): string {
+  if (!plan) return 'Fixed TP/SL';
+  const parts = [...plan.tiers]
+    .sort((a, b) => a.gainPercent - b.gainPercent)
+    .map(t => `${t.sellPercent}% @ +${t.gainPercent}%`);
+  if (plan.trailingStopPercent !== null) {
+    parts.push(
+      plan.trailingActivationPercent > 0
+        ? `trail ${plan.trailingStopPercent}% after +${plan.trailingActivationPercent}%`
+        : `trail ${plan.trailingStopPercent}%`
+    );
+  }
+  return parts.join(' → ');
+}
+
+export function getExitActionLabel(action: ExitAction): string {
+  switch (action) {
+    case 'take_profit': return '💰 TAKE PROFIT';
+    case 'partial_take_profit': return '🪜 LADDER TAKE PROFIT';
+    case 'trailing_stop': return '📉 TRAILING STOP';
+    case 'stop_loss': return '🛑 STOP LOSS';
+    case 'emergency_liquidity_drop': return '🚨 LIQUIDITY DROP';
+    case 'emergency_lp_removed': return '🚨 LP REMOVED';
+    case 'emergency_dev_sell': return '🚨 DEV SELL';
+    case 'emergency_holder_dump': return '🚨 HOLDER DUMP';
+    default: return 'HOLD';
+  }
+}
+
+// Compact badge label, e.g. "TP", "TP tier", "Trail", "SL"
+export function getExitActionShortLabel(action: ExitAction): string {
+  switch (action) {
+    case 'take_profit': return 'TP';
+    case 'partial_take_profit': return 'TP tier';
+    case 'trailing_stop': return 'Trail';
+    case 'stop_loss': return 'SL';
+    case 'emergency_liquidity_drop': return 'Liq drop';
+    case 'emergency_lp_removed': return 'LP pulled';
+    case 'emergency_dev_sell': return 'Dev sell';
+    case 'emergency_holder_dump': return 'Holder dump';
+    default: return 'Hold';
+  }
+}
+
+// Badge label for a stored exit_reason, which can also be a non-plan value (sold_externally, ...)
+export function getExitReasonShortLabel(reason: string): string {
+  const label = getExitActionShortLabel(reason as ExitAction);
+  return label === 'Hold' && reason !== 'hold' ? reason.replace(/_/g, ' ') : label;
+}
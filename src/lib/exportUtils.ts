@@ -269,3 +269,62 @@ export function exportTradesToJSON(trades: TradeRecord[], filename?: string): vo
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 }
+
+export interface BotLogExportRecord {
+  logged_at: string;
+  level: string;
+  category: string;
+  message: string;
+  details: string | null;
+  token_symbol: string | null;
+  token_address: string | null;
+}
+
+/**
+ * Export a slice of the bot activity log (CSV or JSON) for incident reviews
+ */
+export function exportBotLogs(logs: BotLogExportRecord[], fileFormat: 'csv' | 'json', filename?: string): void {
+  if (!logs || logs.length === 0) {
+    throw new Error('No logs to export');
+  }
+
+  let content: string;
+  if (fileFormat === 'json') {
+    content = JSON.stringify(logs, null, 2);
+  } else {
+    const escapeCSV = (value: string): string => {
+      if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+        return `"${value.replace(/"/g, '""')}"`;
+      }
+      return value;
+    };
+    const headers = ['Time', 'Level', 'Category', 'Token', 'Token Address', 'Message', 'Details'];
+    const rows = logs.map((log) => [
+      format(new Date(log.logged_at), 'yyyy-MM-dd HH:mm:ss'),
+      log.level,
+      log.category,
+      log.token_symbol || '',
+      log.token_address || '',
+      log.message,
+      log.details || '',
+    ]);
+    content = [
+      headers.join(','),
+      ...rows.map((row) => row.map((cell) => escapeCSV(String(cell))).join(',')),
+    ].join('\n');
+  }
+
+  const blob = new Blob([content], {
+    type: fileFormat === 'json' ? 'application/json' : 'text/csv;charset=utf-8;',
+  });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename || `bot_logs_${format(new Date(), 'yyyy-MM-dd_HHmm')}.${fileFormat}`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
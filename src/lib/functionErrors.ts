@@ -29,3 +29,18 @@ export async function getFunctionErrorMessage(err: unknown): Promise<string> {
   if (typeof anyErr?.message === "string" && anyErr.message.trim()) return anyErr.message;
   return "Request failed";
 }
+
+/**
+ * Parsed JSON body of a failed backend function invocation, for functions that answer
+ * blocked requests with structured details (error codes, reports) alongside the message.
+ */
+export async function getFunctionErrorBody(err: unknown): Promise<Record<string, unknown> | null> {
+  const ctx = (err as { context?: Response } | null)?.context;
+  if (!ctx || typeof ctx.clone !== "function") return null;
+  try {
+    const json = await ctx.clone().json();
+    return json && typeof json === "object" ? (json as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
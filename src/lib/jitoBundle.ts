@@ -0,0 +1,202 @@
+/**
+ * Jito bundle submission from the browser
+ *
+ * The wallet signs the swap and a tip transfer together; both are sent as one bundle through
+ * the `jito-bundle` edge function, which holds the block-engine URL and auth key.
+ */
+
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import { JITO_CONFIG, type BundleStatusResult } from '@shared/jito-bundle';
+import { encodeBase58 } from '@shared/base58';
+
+export interface BundleConfig {
+  enabled: boolean;
+  tipLamports: number;
+  tipAccount: string;
+}
+
+const CONFIG_CACHE_MS = 60_000;
+let cachedConfig: { value: BundleConfig; fetchedAt: number } | null = null;
+
+/**
+ * Whether bundle mode is on, the tip to pay and a tip account to pay it to.
+ * Cached briefly so every trade does not cost an extra round trip.
+ */
+export async function fetchBundleConfig(force = false): Promise<BundleConfig | null> {
+  if (!force && cachedConfig && Date.now() - cachedConfig.fetchedAt < CONFIG_CACHE_MS) {
+    return cachedConfig.value;
+  }
+
+  const { data, error } = await supabase.functions.invoke('jito-bundle', {
+    body: { action: 'config' },
+  });
+  if (error || !data || typeof data.enabled !== 'boolean') {
+    console.warn('[Jito] Bundle config unavailable, using single-transaction mode');
+    return null;
+  }
+
+  const value = data as BundleConfig;
+  cachedConfig = { value, fetchedAt: Date.now() };
+  return value;
+}
+
+export function clearBundleConfigCache() {
+  cachedConfig = null;
+}
+
+/**
+ * SOL transfer to a tip account, built on the swap's blockhash so both expire together
+ */
+export function buildTipTransaction(
+  payer: string,
+  tipAccount: string,
+  lamports: number,
+  recentBlockhash: string
+): VersionedTransaction {
+  const payerKey = new PublicKey(payer);
+  const message = new TransactionMessage({
+    payerKey,
+    recentBlockhash,
+    instructions: [
+      SystemProgram.transfer({
+        fromPubkey: payerKey,
+        toPubkey: new PublicKey(tipAccount),
+        lamports,
+      }),
+    ],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return globalThis.btoa(bin);
+}
+
+// First signature of a signed transaction - the id the chain knows it by
+export function getTransactionSignature(transaction: VersionedTransaction): string {
+  return encodeBase58(transaction.signatures[0]);
+}
+
+/**
+ * Submit signed transactions as one bundle, tip transaction last
+ */
+export async function submitBundle(
+  signedTransactions: VersionedTransaction[]
+): Promise<{ success: boolean; bundleId?: string; error?: string }> {
+  const { data, error } = await supabase.functions.invoke('jito-bundle', {
+    body: {
+      action: 'send',
+      transactions: signedTransactions.map((tx) => bytesToBase64(tx.serialize())),
+    },
+  });
+  if (error) return { success: false, error: await getFunctionErrorMessage(error) };
+  if (!data?.success || !data.bundleId) return { success: false, error: data?.error || 'Bundle rejected' };
+  return { success: true, bundleId: data.bundleId };
+}
+
+/**
+ * Poll until the bundle lands, fails, or times out. Pending updates are passed to onUpdate.
+ */
+export async function pollBundleStatus(
+  bundleId: string,
+  onUpdate?: (status: BundleStatusResult) => void,
+  options: { timeoutMs?: number; intervalMs?: number } = {}
+): Promise<BundleStatusResult> {
+  const timeoutMs = options.timeoutMs ?? JITO_CONFIG.STATUS_POLL_TIMEOUT_MS;
+  const intervalMs = options.intervalMs ?? JITO_CONFIG.STATUS_POLL_INTERVAL_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  let last: BundleStatusResult = {
+    bundleId,
+    status: 'pending',
+    slot: null,
+    confirmationStatus: null,
+    transactions: [],
+    error: null,
+  };
+
+  while (Date.now() < deadline) {
+    await new Promise((r) => setTimeout(r, intervalMs));
+
+    const { data, error } = await supabase.functions.invoke('jito-bundle', {
+      body: { action: 'status', bundleId },
+    });
+    if (error || !data?.success) {
+      // Transient (rate limit, cold start) - keep polling until the deadline
+      console.warn('[Jito] Bundle status check failed:', error ? await getFunctionErrorMessage(error) : data?.error);
+      continue;
+    }
+
+    last = data as BundleStatusResult;
+    onUpdate?.(last);
+    if (last.status !== 'pending') return last;
+  }
+
+  return { ...last, status: 'invalid', error: `Bundle did not land within ${Math.round(timeoutMs / 1000)}s` };
+}
+
+// Signs without sending - required for bundle mode, where the block engine broadcasts
+export type SignAllTransactions = (transactions: VersionedTransaction[]) => Promise<VersionedTransaction[] | null>;
+
+export interface BundleSendResult {
+  signature: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Sign a swap together with a tip transfer in one wallet prompt and submit both as a bundle,
+ * then wait for it to land. Returns null when bundle mode is off (or its config cannot be
+ * read) - the caller sends the swap on its own as before.
+ */
+export async function sendSwapAsBundle(
+  transaction: VersionedTransaction,
+  walletAddress: string,
+  signAll: SignAllTransactions,
+  hooks: {
+    onSigning?: () => void;
+    onSubmitted?: (bundleId: string) => void;
+    onUpdate?: (status: BundleStatusResult) => void;
+  } = {}
+): Promise<BundleSendResult | null> {
+  const bundleConfig = await fetchBundleConfig();
+  if (!bundleConfig?.enabled) return null;
+
+  hooks.onSigning?.();
+  const tipTransaction = buildTipTransaction(
+    walletAddress,
+    bundleConfig.tipAccount,
+    bundleConfig.tipLamports,
+    transaction.message.recentBlockhash
+  );
+
+  // Tip goes last so it is only paid if the swap lands with it
+  const signed = await signAll([transaction, tipTransaction]);
+  if (!signed || signed.length !== 2) {
+    return { signature: '', success: false, error: 'Transaction rejected' };
+  }
+
+  const submitted = await submitBundle(signed);
+  if (!submitted.success) {
+    return { signature: '', success: false, error: `Bundle rejected: ${submitted.error}` };
+  }
+
+  hooks.onSubmitted?.(submitted.bundleId!);
+  const result = await pollBundleStatus(submitted.bundleId!, hooks.onUpdate);
+  hooks.onUpdate?.(result);
+  console.log(`[Jito] Bundle ${submitted.bundleId} ${result.status}${result.slot ? ` in slot ${result.slot}` : ''}`);
+
+  if (result.status !== 'landed') {
+    return { signature: '', success: false, error: result.error || `Bundle ${result.status}` };
+  }
+  return { signature: result.transactions[0] || getTransactionSignature(signed[0]), success: true };
+}
@@ -0,0 +1,361 @@
+/**
+ * Portfolio Analytics Module
+ * Performance of the user's real trades: realized P&L from closed positions and from partial
+ * take-profit sells (trade_history) on positions that are still open, unrealized P&L from open
+ * positions, an equity curve, and trade statistics overall and split by discovery source, exit
+ * reason and buyer position at discovery.
+ * Pure - data loading lives in usePortfolioAnalytics.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AnalyticsPosition {
+  id: string;
+  token_address: string;
+  token_symbol: string | null;
+  status: string | null;
+  exit_reason: string | null;
+  entry_price: number;
+  entry_price_usd: number | null;
+  entry_sol: number | null;
+  entry_value: number | null;
+  profit_loss_percent: number | null;
+  profit_loss_value: number | null;
+  created_at: string;
+  closed_at: string | null;
+}
+
+export interface AnalyticsTrade {
+  token_address: string;
+  trade_type: string;
+  amount: number;
+  price_sol: number | null;
+  price_usd: number | null;
+  exit_reason: string | null;
+  created_at: string;
+}
+
+// What the scanner recorded when the token was discovered (token_processing_states)
+export interface DiscoveryContext {
+  positionId: string | null;
+  tokenAddress: string;
+  source: string | null;
+  buyerPosition: number | null;
+}
+
+export interface PnlAmount {
+  usd: number;
+  sol: number;
+}
+
+export interface ClosedTrade {
+  positionId: string;
+  tokenAddress: string;
+  symbol: string;
+  openedAt: number;               // unix ms
+  closedAt: number;               // unix ms
+  holdMs: number;
+  pnl: PnlAmount;
+  pnlPercent: number;
+  exitReason: string;
+  source: string;
+  buyerBucket: BuyerBucket;
+}
+
+export interface PerformanceStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;         // 0-1, null without trades
+  profitFactor: number | null;    // gross profit / gross loss (USD), null without losing trades
+  realized: PnlAmount;
+  avgHoldMs: number | null;
+  best: ClosedTrade | null;
+  worst: ClosedTrade | null;
+}
+
+export interface GroupStats extends PerformanceStats {
+  key: string;
+  label: string;
+}
+
+export interface EquityPoint {
+  time: number;                   // unix ms
+  usd: number;
+  sol: number;
+}
+
+export interface PortfolioAnalytics {
+  overall: PerformanceStats;
+  // Closed positions plus partial sells on open ones
+  realized: PnlAmount;
+  partialRealized: PnlAmount;
+  unrealized: PnlAmount;
+  openPositions: number;
+  // Cumulative realized P&L at each exit; the last point adds the unrealized P&L of open positions
+  equityCurve: EquityPoint[];
+  bySource: GroupStats[];
+  byExitReason: GroupStats[];
+  byBuyerBucket: GroupStats[];
+}
+
+export type BuyerBucket = '1-5' | '6-10' | '11-20' | '21-50' | '51+' | 'unknown';
+
+const BUYER_BUCKETS: { key: BuyerBucket; max: number }[] = [
+  { key: '1-5', max: 5 },
+  { key: '6-10', max: 10 },
+  { key: '11-20', max: 20 },
+  { key: '21-50', max: 50 },
+  { key: '51+', max: Infinity },
+];
+
+const BUCKET_ORDER: BuyerBucket[] = [...BUYER_BUCKETS.map(b => b.key), 'unknown'];
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+export function getBuyerBucket(buyerPosition: number | null): BuyerBucket {
+  if (buyerPosition === null || !Number.isFinite(buyerPosition) || buyerPosition < 1) return 'unknown';
+  return BUYER_BUCKETS.find(b => buyerPosition <= b.max)!.key;
+}
+
+export function getBuyerBucketLabel(bucket: BuyerBucket): string {
+  return bucket === 'unknown' ? 'Unknown' : `Buyer #${bucket}`;
+}
+
+// Closed positions without an exit_reason were closed by hand before reasons were recorded
+export function getExitReasonLabel(reason: string): string {
+  switch (reason) {
+    case 'manual': return 'Manual';
+    case 'take_profit': return 'Take Profit';
+    case 'partial_take_profit': return 'Take Profit Tier';
+    case 'trailing_stop': return 'Trailing Stop';
+    case 'stop_loss': return 'Stop Loss';
+    case 'sold_externally': return 'External Sale';
+    case 'force_closed_manual':
+    case 'force_closed_cleanup': return 'Force Closed';
+    case 'force_closed_dead_token': return 'Dead Token';
+    case 'emergency_liquidity_drop': return 'Liquidity Drop';
+    case 'emergency_lp_removed': return 'LP Removed';
+    case 'emergency_dev_sell': return 'Dev Sell';
+    case 'emergency_holder_dump': return 'Holder Dump';
+    default: return reason.replace(/_/g, ' ');
+  }
+}
+
+function getSourceLabel(source: string): string {
+  return source === 'unknown' ? 'Unknown' : source.replace(/[_-]/g, ' ');
+}
+
+// ============================================================================
+// P&L
+// ============================================================================
+
+const ZERO: PnlAmount = { usd: 0, sol: 0 };
+
+const add = (a: PnlAmount, b: PnlAmount): PnlAmount => ({ usd: a.usd + b.usd, sol: a.sol + b.sol });
+
+/**
+ * Signed P&L of a position. USD is the stored profit_loss_value (entry value × percent when
+ * missing); SOL is entry size × percent like the circuit breaker, converted from USD at the
+ * current SOL price for positions recorded without entry_sol.
+ */
+export function positionPnl(position: AnalyticsPosition, solPrice: number): PnlAmount {
+  const percent = Number(position.profit_loss_percent) || 0;
+  const usd = position.profit_loss_value !== null
+    ? Number(position.profit_loss_value) || 0
+    : ((Number(position.entry_value) || 0) * percent) / 100;
+  const entrySol = Number(position.entry_sol) || 0;
+  const sol = entrySol > 0 ? (entrySol * percent) / 100 : solPrice > 0 ? usd / solPrice : 0;
+  return { usd, sol };
+}
+
+const isClosed = (position: AnalyticsPosition) => position.status === 'closed';
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+export function computeStats(trades: ClosedTrade[]): PerformanceStats {
+  let wins = 0;
+  let losses = 0;
+  let grossProfit = 0;
+  let grossLoss = 0;
+  let holdTotal = 0;
+  let realized = ZERO;
+  let best: ClosedTrade | null = null;
+  let worst: ClosedTrade | null = null;
+
+  for (const trade of trades) {
+    if (trade.pnl.usd > 0) {
+      wins++;
+      grossProfit += trade.pnl.usd;
+    } else if (trade.pnl.usd < 0) {
+      losses++;
+      grossLoss -= trade.pnl.usd;
+    }
+    holdTotal += trade.holdMs;
+    realized = add(realized, trade.pnl);
+    if (!best || trade.pnl.usd > best.pnl.usd) best = trade;
+    if (!worst || trade.pnl.usd < worst.pnl.usd) worst = trade;
+  }
+
+  return {
+    trades: trades.length,
+    wins,
+    losses,
+    winRate: trades.length > 0 ? wins / trades.length : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    realized,
+    avgHoldMs: trades.length > 0 ? holdTotal / trades.length : null,
+    best,
+    worst,
+  };
+}
+
+function groupStats(
+  trades: ClosedTrade[],
+  keyOf: (trade: ClosedTrade) => string,
+  labelOf: (key: string) => string
+): GroupStats[] {
+  const groups = new Map<string, ClosedTrade[]>();
+  for (const trade of trades) {
+    const key = keyOf(trade);
+    const list = groups.get(key) || [];
+    list.push(trade);
+    groups.set(key, list);
+  }
+  return [...groups.entries()].map(([key, list]) => ({ key, label: labelOf(key), ...computeStats(list) }));
+}
+
+const byTradesDesc = (a: GroupStats, b: GroupStats) => b.trades - a.trades || a.label.localeCompare(b.label);
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+
+export interface PortfolioAnalyticsInput {
+  positions: AnalyticsPosition[];
+  trades: AnalyticsTrade[];
+  discoveries: DiscoveryContext[];
+  solPrice: number;
+  now: number;
+}
+
+function discoveryLookup(discoveries: DiscoveryContext[]) {
+  const byPosition = new Map<string, DiscoveryContext>();
+  const byToken = new Map<string, DiscoveryContext>();
+  for (const d of discoveries) {
+    if (d.positionId) byPosition.set(d.positionId, d);
+    const token = d.tokenAddress.toLowerCase();
+    if (!byToken.has(token)) byToken.set(token, d);
+  }
+  return (position: AnalyticsPosition) =>
+    byPosition.get(position.id) ?? byToken.get(position.token_address.toLowerCase()) ?? null;
+}
+
+/**
+ * Realized P&L of partial take-profit sells on positions that are still open. trade_history
+ * has no position id, so a sell is matched by token and only counted when exactly one open
+ * position holds that token. Closed positions already carry their full P&L.
+ */
+function partialSellPnl(
+  trades: AnalyticsTrade[],
+  openPositions: AnalyticsPosition[],
+  solPrice: number
+): { time: number; pnl: PnlAmount }[] {
+  const openByToken = new Map<string, AnalyticsPosition[]>();
+  for (const position of openPositions) {
+    const token = position.token_address.toLowerCase();
+    openByToken.set(token, [...(openByToken.get(token) || []), position]);
+  }
+
+  const result: { time: number; pnl: PnlAmount }[] = [];
+  for (const trade of trades) {
+    if (trade.trade_type !== 'sell' || trade.exit_reason !== 'partial_take_profit') continue;
+    const holders = openByToken.get(trade.token_address.toLowerCase());
+    if (!holders || holders.length !== 1) continue;
+
+    const position = holders[0];
+    const time = new Date(trade.created_at).getTime();
+    // Sells are logged with the token's USD price; older rows only filled price_sol
+    const exitPrice = Number(trade.price_usd ?? trade.price_sol) || 0;
+    const entryPrice = Number(position.entry_price_usd ?? position.entry_price) || 0;
+    if (exitPrice <= 0 || entryPrice <= 0 || !Number.isFinite(time) || time < new Date(position.created_at).getTime()) continue;
+
+    const usd = (Number(trade.amount) || 0) * (exitPrice - entryPrice);
+    result.push({ time, pnl: { usd, sol: solPrice > 0 ? usd / solPrice : 0 } });
+  }
+  return result;
+}
+
+export function buildPortfolioAnalytics(input: PortfolioAnalyticsInput): PortfolioAnalytics {
+  const { positions, trades, discoveries, solPrice, now } = input;
+  const discoveryFor = discoveryLookup(discoveries);
+
+  const closedTrades: ClosedTrade[] = [];
+  const open: AnalyticsPosition[] = [];
+  for (const position of positions) {
+    if (!isClosed(position)) {
+      open.push(position);
+      continue;
+    }
+    const openedAt = new Date(position.created_at).getTime();
+    const closedAt = new Date(position.closed_at ?? '').getTime();
+    if (!Number.isFinite(openedAt) || !Number.isFinite(closedAt)) continue;
+
+    const discovery = discoveryFor(position);
+    closedTrades.push({
+      positionId: position.id,
+      tokenAddress: position.token_address,
+      symbol: position.token_symbol || position.token_address.slice(0, 6),
+      openedAt,
+      closedAt,
+      holdMs: Math.max(0, closedAt - openedAt),
+      pnl: positionPnl(position, solPrice),
+      pnlPercent: Number(position.profit_loss_percent) || 0,
+      exitReason: position.exit_reason || 'manual',
+      source: discovery?.source || 'unknown',
+      buyerBucket: getBuyerBucket(discovery?.buyerPosition ?? null),
+    });
+  }
+  closedTrades.sort((a, b) => a.closedAt - b.closedAt);
+
+  const partials = partialSellPnl(trades, open, solPrice);
+  const partialRealized = partials.reduce((sum, p) => add(sum, p.pnl), ZERO);
+  const unrealized = open.reduce((sum, p) => add(sum, positionPnl(p, solPrice)), ZERO);
+
+  const overall = computeStats(closedTrades);
+  const realized = add(overall.realized, partialRealized);
+
+  const events = [
+    ...closedTrades.map(t => ({ time: t.closedAt, pnl: t.pnl })),
+    ...partials,
+  ].sort((a, b) => a.time - b.time);
+
+  const equityCurve: EquityPoint[] = [];
+  let running = ZERO;
+  for (const event of events) {
+    running = add(running, event.pnl);
+    equityCurve.push({ time: event.time, ...running });
+  }
+  if (open.length > 0 || equityCurve.length > 0) {
+    equityCurve.push({ time: now, ...add(running, unrealized) });
+  }
+
+  return {
+    overall,
+    realized,
+    partialRealized,
+    unrealized,
+    openPositions: open.length,
+    equityCurve,
+    bySource: groupStats(closedTrades, t => t.source, getSourceLabel).sort(byTradesDesc),
+    byExitReason: groupStats(closedTrades, t => t.exitReason, getExitReasonLabel).sort(byTradesDesc),
+    byBuyerBucket: groupStats(closedTrades, t => t.buyerBucket, key => getBuyerBucketLabel(key as BuyerBucket))
+      .sort((a, b) => BUCKET_ORDER.indexOf(a.key as BuyerBucket) - BUCKET_ORDER.indexOf(b.key as BuyerBucket)),
+  };
+}
@@ -1,100 +1,151 @@
 /**
  * Global Sell Lock Manager
- * Prevents duplicate sell orders for the same token from concurrent systems
- * (auto-exit, manual sell, liquidity retry worker)
+ * Prevents duplicate sell orders for the same position from concurrent systems
+ * (auto-exit, manual sell, liquidity retry worker) - across tabs, devices and the
+ * auto-exit edge function. Locks are leases in the sell_locks table, one per
+ * (user, position); every acquisition gets a new fencing token, and only the
+ * holder of the current token may sell or release.
  */
-
-// In-memory lock registry with timestamps
-const activeSellLocks = new Map<string, { startedAt: number; source: string }>();
+import { supabase } from '@/integrations/supabase/client';
 
 // Lock timeout: If a sell hasn't completed in 60 seconds, allow retry
-const LOCK_TIMEOUT_MS = 60_000;
+const LOCK_TTL_SECONDS = 60;
+
+// Identifies this tab as the lock holder
+const TAB_HOLDER = `browser:${crypto.randomUUID()}`;
 
 export type SellSource = 'auto_exit' | 'manual_sell' | 'liquidity_worker' | 'partial_retry';
 
-/**
- * Attempt to acquire a sell lock for a token
- * @returns true if lock acquired, false if already locked
- */
-export function acquireSellLock(tokenAddress: string, source: SellSource): boolean {
-  const key = tokenAddress.toLowerCase();
-  const existing = activeSellLocks.get(key);
-  
-  if (existing) {
-    // Check if lock is stale (timed out)
-    const elapsed = Date.now() - existing.startedAt;
-    if (elapsed < LOCK_TIMEOUT_MS) {
-      console.log(`[SellLock] BLOCKED: ${tokenAddress.slice(0, 8)}... already locked by ${existing.source} (${Math.round(elapsed / 1000)}s ago)`);
-      return false;
-    }
-    // Lock is stale, we can take over
-    console.log(`[SellLock] Stale lock from ${existing.source} expired, ${source} taking over`);
-  }
-  
-  activeSellLocks.set(key, { startedAt: Date.now(), source });
-  console.log(`[SellLock] ACQUIRED: ${tokenAddress.slice(0, 8)}... by ${source}`);
-  return true;
+export interface SellLease {
+  positionId: string;
+  // Base58 - case-sensitive, never normalized
+  tokenAddress: string;
+  source: SellSource;
+  fencingToken: number;
+  expiresAt: string;
 }
 
+export interface SellLockInfo {
+  positionId: string;
+  tokenAddress: string;
+  holder: string;
+  source: SellSource;
+  acquiredAt: string;
+  expiresAt: string;
+  // Held by this tab
+  isLocal: boolean;
+}
+
+const short = (address: string) => `${address.slice(0, 8)}...`;
+
 /**
- * Release a sell lock after transaction completes (success or failure)
+ * Attempt to acquire the sell lock for a position
+ * @returns the lease if acquired, null if another seller holds it (or the lock could not be reached)
  */
-export function releaseSellLock(tokenAddress: string): void {
-  const key = tokenAddress.toLowerCase();
-  const removed = activeSellLocks.delete(key);
-  if (removed) {
-    console.log(`[SellLock] RELEASED: ${tokenAddress.slice(0, 8)}...`);
+export async function acquireSellLock(
+  position: { id: string; token_address: string },
+  source: SellSource
+): Promise<SellLease | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+
+  const { data, error } = await supabase.rpc('acquire_sell_lock', {
+    p_user_id: session.user.id,
+    p_position_id: position.id,
+    p_token_address: position.token_address,
+    p_holder: TAB_HOLDER,
+    p_source: source,
+    p_ttl_seconds: LOCK_TTL_SECONDS,
+  });
+
+  const lock = data?.[0];
+  if (error || !lock) {
+    // Fail closed - selling without the lock is what this guards against
+    console.error('[SellLock] Could not reach lock table:', error?.message);
+    return null;
   }
+
+  if (!lock.acquired) {
+    const remaining = Math.max(0, Math.round((new Date(lock.expires_at).getTime() - Date.now()) / 1000));
+    console.log(`[SellLock] BLOCKED: ${short(position.token_address)} already locked by ${lock.source} (${lock.holder}, expires in ${remaining}s)`);
+    return null;
+  }
+
+  console.log(`[SellLock] ACQUIRED: ${short(position.token_address)} by ${source} (fencing token ${lock.fencing_token})`);
+  return {
+    positionId: position.id,
+    tokenAddress: position.token_address,
+    source,
+    fencingToken: lock.fencing_token,
+    expiresAt: lock.expires_at,
+  };
 }
 
 /**
- * Check if a token is currently being sold
+ * Check the lease is still ours right before broadcasting - a sell that stalled past the
+ * TTL may have been taken over by another seller
  */
-export function isSellLocked(tokenAddress: string): boolean {
-  const key = tokenAddress.toLowerCase();
-  const existing = activeSellLocks.get(key);
-  
-  if (!existing) return false;
-  
-  const elapsed = Date.now() - existing.startedAt;
-  return elapsed < LOCK_TIMEOUT_MS;
+export async function holdsSellLock(lease: SellLease): Promise<boolean> {
+  const { data, error } = await supabase.rpc('check_sell_lock', {
+    p_position_id: lease.positionId,
+    p_fencing_token: lease.fencingToken,
+  });
+  if (error) {
+    console.error('[SellLock] Could not verify lease:', error.message);
+    return false;
+  }
+  if (!data) console.warn(`[SellLock] LOST: ${short(lease.tokenAddress)} (fencing token ${lease.fencingToken})`);
+  return data === true;
 }
 
 /**
- * Get current lock status for debugging
+ * Release a sell lock after transaction completes (success or failure).
+ * Releasing twice, or after someone else took over, is a no-op.
  */
-export function getSellLockStatus(tokenAddress: string): { locked: boolean; source?: string; elapsedMs?: number } {
-  const key = tokenAddress.toLowerCase();
-  const existing = activeSellLocks.get(key);
-  
-  if (!existing) return { locked: false };
-  
-  const elapsed = Date.now() - existing.startedAt;
-  return {
-    locked: elapsed < LOCK_TIMEOUT_MS,
-    source: existing.source,
-    elapsedMs: elapsed,
-  };
+export async function releaseSellLock(lease: SellLease | null): Promise<void> {
+  if (!lease) return;
+  const { error } = await supabase.rpc('release_sell_lock', {
+    p_position_id: lease.positionId,
+    p_fencing_token: lease.fencingToken,
+  });
+  if (error) {
+    // The lease still expires on its own
+    console.error('[SellLock] Release failed:', error.message);
+    return;
+  }
+  console.log(`[SellLock] RELEASED: ${short(lease.tokenAddress)}`);
 }
 
 /**
- * Clear all locks (for testing/reset scenarios)
+ * Check if a position is currently being sold by anyone
  */
-export function clearAllSellLocks(): void {
-  activeSellLocks.clear();
-  console.log('[SellLock] All locks cleared');
+export async function isSellLocked(positionId: string): Promise<boolean> {
+  const { count } = await supabase
+    .from('sell_locks')
+    .select('id', { count: 'exact', head: true })
+    .eq('position_id', positionId)
+    .gt('expires_at', new Date().toISOString());
+  return (count ?? 0) > 0;
 }
 
 /**
- * Get count of active locks (for debugging)
+ * Unexpired locks for the signed-in user, for the recovery controls
  */
-export function getActiveLockCount(): number {
-  // Clean up stale locks first
-  const now = Date.now();
-  for (const [key, lock] of activeSellLocks.entries()) {
-    if (now - lock.startedAt >= LOCK_TIMEOUT_MS) {
-      activeSellLocks.delete(key);
-    }
-  }
-  return activeSellLocks.size;
+export async function listActiveSellLocks(): Promise<SellLockInfo[]> {
+  const { data, error } = await supabase
+    .from('sell_locks')
+    .select('position_id, token_address, holder, source, acquired_at, expires_at')
+    .gt('expires_at', new Date().toISOString())
+    .order('acquired_at', { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map((lock) => ({
+    positionId: lock.position_id,
+    tokenAddress: lock.token_address,
+    holder: lock.holder,
+    source: lock.source as SellSource,
+    acquiredAt: lock.acquired_at,
+    expiresAt: lock.expires_at,
+    isLocal: lock.holder === TAB_HOLDER,
+  }));
 }
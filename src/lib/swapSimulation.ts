@@ -0,0 +1,39 @@
+/**
+ * Pre-flight simulation for swaps built in the browser
+ *
+ * Swaps from `trade-execution`'s execute action are simulated server-side before they are
+ * returned. Bot snipes and pending exits build their own transactions, so they go through
+ * the same check here before the wallet is asked to sign.
+ */
+
+import { VersionedTransaction } from '@solana/web3.js';
+import { supabase } from '@/integrations/supabase/client';
+import type { SwapSimulationReport } from '@shared/tx-simulation';
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return globalThis.btoa(bin);
+}
+
+/**
+ * Simulate an unsigned swap. A missing verdict comes back as 'unavailable', which callers
+ * treat as non-blocking - the same as the server-side check.
+ */
+export async function simulateSwap(transaction: VersionedTransaction | string): Promise<SwapSimulationReport> {
+  const serialized = typeof transaction === 'string' ? transaction : bytesToBase64(transaction.serialize());
+
+  const { data, error } = await supabase.functions.invoke('trade-execution', {
+    body: { action: 'simulate', transaction: serialized },
+  });
+  if (error || !data?.simulation) {
+    return {
+      status: 'unavailable',
+      unitsConsumed: null,
+      failure: null,
+      logs: [],
+      error: error?.message || 'Simulation unavailable',
+    };
+  }
+  return data.simulation as SwapSimulationReport;
+}
@@ -87,6 +87,25 @@ export {
 } from './rpc-pool-validator';
 export type { PoolReadinessResult, SwapSimulationResult as RpcSwapSimulationResult } from './rpc-pool-validator';
 
+// Streaming pool discovery (logsSubscribe on pool programs)
+export {
+  createPoolStream,
+  replayPoolStream,
+  classifyPoolInitLogs,
+  buildLiquidityInfo,
+  POOL_STREAM_CONFIG,
+} from './pool-stream';
+export type {
+  PoolProgram,
+  PoolInitEvent,
+  PoolStreamOptions,
+  PoolStreamHandle,
+  PoolStreamStats,
+  PoolStreamStatus,
+  PoolStreamFixture,
+  StreamTransaction,
+} from './pool-stream';
+
 // Stage 2: Raydium Sniping
 export {
   executeRaydiumSnipe,
@@ -17,6 +17,8 @@ import type {
   RiskAssessment,
   TradingEventCallback,
 } from './types';
+import { supabase } from '@/integrations/supabase/client';
+import type { HolderAnalysis } from '@shared/holder-clusters';
 import { API_ENDPOINTS, SOL_MINT, USDC_MINT } from './config';
 
 // ============================================
@@ -202,6 +204,8 @@ export async function detectLiquidity(
         hasFreezeAuthority: false,
         holderCount: 100,
         topHolderPercent: 10,
+        effectiveTopHolderPercent: null,
+        bundledClusters: 0,
         passed: true,
         reasons: ['Pre-verified by scanner'],
       };
@@ -290,6 +294,21 @@ export async function detectLiquidity(
 // RISK ASSESSMENT
 // ============================================
 
+// Bundled-wallet analysis from risk-check; null when it could not run
+async function fetchHolderAnalysis(
+  tokenAddress: string
+): Promise<{ analysis: HolderAnalysis; points: number; reasons: string[] } | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('risk-check', {
+      body: { action: 'analyze_holders', tokens: [{ address: tokenAddress }] },
+    });
+    if (error || data?.analysis?.status !== 'analyzed') return null;
+    return { analysis: data.analysis, points: data.score?.points ?? 0, reasons: data.score?.reasons ?? [] };
+  } catch {
+    return null;
+  }
+}
+
 async function assessRisk(
   tokenAddress: string,
   config: TradingConfig
@@ -302,6 +321,10 @@ async function assessRisk(
   let hasFreezeAuthority = false;
   let holderCount = 0;
   let topHolderPercent = 0;
+  let effectiveTopHolderPercent: number | null = null;
+  let bundledClusters = 0;
+
+  const holderAnalysisPromise = fetchHolderAnalysis(tokenAddress);
   
   try {
     // Check RugCheck API
@@ -362,6 +385,18 @@ async function assessRisk(
     reasons.push('Could not verify token safety (RugCheck unavailable)');
     overallScore = 50;
   }
+
+  // Wallets funded by one source in one slot are one holder
+  const holderAnalysis = await holderAnalysisPromise;
+  if (holderAnalysis) {
+    effectiveTopHolderPercent = holderAnalysis.analysis.effectiveTopHolderPercent;
+    bundledClusters = holderAnalysis.analysis.clusters.length;
+    overallScore = Math.min(100, overallScore + holderAnalysis.points);
+    reasons.push(...holderAnalysis.reasons);
+    if (effectiveTopHolderPercent > config.riskFilters.maxOwnershipPercent && effectiveTopHolderPercent > topHolderPercent) {
+      reasons.push(`Bundled wallets own ${effectiveTopHolderPercent.toFixed(1)}% combined (max: ${config.riskFilters.maxOwnershipPercent}%)`);
+    }
+  }
   
   const passed = 
     overallScore <= config.maxRiskScore &&
@@ -370,7 +405,7 @@ async function assessRisk(
     (!config.riskFilters.checkMintAuthority || !hasMintAuthority) &&
     (!config.riskFilters.checkFreezeAuthority || !hasFreezeAuthority) &&
     holderCount >= config.riskFilters.minHolders &&
-    topHolderPercent <= config.riskFilters.maxOwnershipPercent;
+    Math.max(topHolderPercent, effectiveTopHolderPercent ?? 0) <= config.riskFilters.maxOwnershipPercent;
   
   return {
     overallScore,
@@ -380,6 +415,8 @@ async function assessRisk(
     hasFreezeAuthority,
     holderCount,
     topHolderPercent,
+    effectiveTopHolderPercent,
+    bundledClusters,
     passed,
     reasons,
   };
@@ -0,0 +1,523 @@
+/**
+ * Streaming pool discovery (WebSocket, RPC logsSubscribe)
+ *
+ * The scanner's HTTP sources see a new pool seconds to minutes after it opens. This stream
+ * subscribes to the logs of every pool program in PROGRAM_IDS and turns pool-init events into
+ * LiquidityInfo as they confirm:
+ * - Pump.fun:      CreateEvent in the program data log (no extra RPC call)
+ * - Raydium AMM:   ray_log Init record, mints/pool from the initialize2 instruction
+ * - Raydium CLMM:  CreatePool instruction
+ * - Orca:          InitializePool / InitializePoolV2 instruction
+ *
+ * The socket and transaction fetcher are injected, so a recorded stream replays through the
+ * exact same decoding path (replayPoolStream) in tests.
+ */
+
+import type { LiquidityInfo } from './types';
+import { PROGRAM_IDS, SOL_MINT, USDC_MINT } from './config';
+import { encodeBase58 } from '@shared/base58';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PoolProgram = keyof typeof PROGRAM_IDS;
+
+export const POOL_STREAM_CONFIG = {
+  RECONNECT_BASE_MS: 1_000,
+  RECONNECT_MAX_MS: 30_000,
+  // getTransaction can lag the log notification by a slot or two
+  TX_FETCH_RETRIES: 2,
+  TX_FETCH_RETRY_MS: 400,
+  // Mints remembered for in-stream dedupe
+  SEEN_LIMIT: 5_000,
+} as const;
+
+export type PoolInitKind = 'pump_create' | 'raydium_init' | 'clmm_create' | 'orca_init' | 'orca_init_v2';
+
+/** A log notification recognised as a pool being created. */
+export interface PoolInitEvent {
+  program: PoolProgram;
+  kind: PoolInitKind;
+  signature: string;
+  slot: number;
+  // Decoded straight from the logs where the program emits it
+  pumpCreate?: PumpCreateEvent;
+  raydiumInit?: RaydiumInitLog;
+}
+
+export interface PumpCreateEvent {
+  name: string;
+  symbol: string;
+  uri: string;
+  mint: string;
+  bondingCurve: string;
+  user: string;
+}
+
+export interface RaydiumInitLog {
+  pcDecimals: number;
+  coinDecimals: number;
+  pcAmount: bigint;
+  coinAmount: bigint;
+  market: string;
+}
+
+/** Minimal WebSocket surface; the browser WebSocket satisfies it. */
+export interface StreamSocket {
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+interface RawInstruction {
+  programId: string;
+  accounts?: string[];
+}
+
+/** The parts of a jsonParsed getTransaction result the decoders read. */
+export interface StreamTransaction {
+  slot: number;
+  blockTime?: number | null;
+  transaction: { message: { instructions: RawInstruction[] } };
+  meta?: { err?: unknown; innerInstructions?: { instructions: RawInstruction[] }[] } | null;
+}
+
+export type PoolStreamStatus = 'connecting' | 'open' | 'closed';
+
+export interface PoolStreamStats {
+  received: number;
+  decoded: number;
+  duplicates: number;
+  lastSlot: number | null;
+}
+
+export interface PoolStreamOptions {
+  wsUrl: string;
+  programs?: PoolProgram[];
+  fetchTransaction: (signature: string) => Promise<StreamTransaction | null>;
+  onPool: (pool: LiquidityInfo, event: PoolInitEvent) => void;
+  // Already-processed mints (token_processing_states) - never re-emitted
+  isKnown?: (tokenAddress: string) => boolean;
+  onStatus?: (status: PoolStreamStatus) => void;
+  createSocket?: (url: string) => StreamSocket;
+  now?: () => number;
+}
+
+export interface PoolStreamHandle {
+  start: () => void;
+  stop: () => void;
+  stats: () => PoolStreamStats;
+  // Resolves once every notification received so far has been processed
+  idle: () => Promise<void>;
+}
+
+// ============================================
+// LOG DECODING
+// ============================================
+
+// sha256("event:CreateEvent")[0..8] - Anchor event discriminator
+const PUMP_CREATE_DISCRIMINATOR = [27, 114, 169, 77, 222, 235, 99, 118];
+// Raydium AMM LogType::Init
+const RAY_LOG_INIT = 0;
+
+const PROGRAM_BY_ID = new Map<string, PoolProgram>(
+  (Object.entries(PROGRAM_IDS) as [PoolProgram, string][]).map(([program, id]) => [id, program])
+);
+
+function base64ToBytes(base64: string): Uint8Array {
+  const bin = atob(base64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+class ByteReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  u64(): bigint {
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  pubkey(): string {
+    const key = this.bytes.slice(this.offset, this.offset + 32);
+    if (key.length < 32) throw new Error('Truncated pubkey');
+    this.offset += 32;
+    return encodeBase58(key);
+  }
+
+  string(): string {
+    const length = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    const value = new TextDecoder().decode(this.bytes.slice(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  skip(count: number): this {
+    this.offset += count;
+    return this;
+  }
+}
+
+export function decodePumpCreateEvent(base64: string): PumpCreateEvent | null {
+  try {
+    const bytes = base64ToBytes(base64);
+    if (!PUMP_CREATE_DISCRIMINATOR.every((b, i) => bytes[i] === b)) return null;
+    const reader = new ByteReader(bytes).skip(8);
+    return {
+      name: reader.string(),
+      symbol: reader.string(),
+      uri: reader.string(),
+      mint: reader.pubkey(),
+      bondingCurve: reader.pubkey(),
+      user: reader.pubkey(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function decodeRaydiumInitLog(base64: string): RaydiumInitLog | null {
+  try {
+    const reader = new ByteReader(base64ToBytes(base64));
+    if (reader.u8() !== RAY_LOG_INIT) return null;
+    reader.skip(8); // open time
+    const pcDecimals = reader.u8();
+    const coinDecimals = reader.u8();
+    reader.skip(16); // lot sizes
+    return { pcDecimals, coinDecimals, pcAmount: reader.u64(), coinAmount: reader.u64(), market: reader.pubkey() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Recognise a pool-init in one transaction's logs. Swaps and every other instruction of the
+ * same programs return null, so most notifications are dropped here without an RPC call.
+ */
+export function classifyPoolInitLogs(
+  program: PoolProgram,
+  logs: string[],
+  signature: string,
+  slot: number
+): PoolInitEvent | null {
+  const base = { program, signature, slot };
+  const has = (line: string) => logs.includes(line);
+
+  switch (program) {
+    case 'pumpFun': {
+      if (!has('Program log: Instruction: Create')) return null;
+      for (const line of logs) {
+        if (!line.startsWith('Program data: ')) continue;
+        const pumpCreate = decodePumpCreateEvent(line.slice('Program data: '.length));
+        if (pumpCreate) return { ...base, kind: 'pump_create', pumpCreate };
+      }
+      return null;
+    }
+    case 'raydiumAmm': {
+      for (const line of logs) {
+        const match = line.match(/ray_log: ([A-Za-z0-9+/=]+)/);
+        const raydiumInit = match ? decodeRaydiumInitLog(match[1]) : null;
+        if (raydiumInit) return { ...base, kind: 'raydium_init', raydiumInit };
+      }
+      return null;
+    }
+    case 'raydiumClmm':
+      return has('Program log: Instruction: CreatePool') ? { ...base, kind: 'clmm_create' } : null;
+    case 'orca':
+      if (has('Program log: Instruction: InitializePoolV2')) return { ...base, kind: 'orca_init_v2' };
+      return has('Program log: Instruction: InitializePool') ? { ...base, kind: 'orca_init' } : null;
+  }
+}
+
+// ============================================
+// TRANSACTION DECODING
+// ============================================
+
+// Account positions of [pool, mint A, mint B] in each init instruction
+const INIT_ACCOUNT_LAYOUT: Record<Exclude<PoolInitKind, 'pump_create'>, { pool: number; mintA: number; mintB: number; lpMint?: number }> = {
+  raydium_init: { pool: 4, lpMint: 7, mintA: 8, mintB: 9 }, // coin, pc
+  clmm_create: { pool: 2, mintA: 3, mintB: 4 },
+  orca_init: { pool: 4, mintA: 1, mintB: 2 },
+  orca_init_v2: { pool: 6, mintA: 1, mintB: 2 },
+};
+
+const isQuoteMint = (mint: string) => mint === SOL_MINT || mint === USDC_MINT;
+
+function findInitInstruction(tx: StreamTransaction, programId: string, minAccounts: number): RawInstruction | null {
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+  return instructions.find((ix) => ix.programId === programId && (ix.accounts?.length ?? 0) > minAccounts) ?? null;
+}
+
+/**
+ * LiquidityInfo for a recognised pool-init. Pump.fun needs only the event; the AMMs read the
+ * pool and mints from the init instruction. Null for failed transactions and token/token pools.
+ */
+export function buildLiquidityInfo(
+  event: PoolInitEvent,
+  tx: StreamTransaction | null,
+  now: number = Date.now()
+): LiquidityInfo | null {
+  if (event.kind === 'pump_create') {
+    const create = event.pumpCreate!;
+    return {
+      tokenAddress: create.mint,
+      tokenName: create.name,
+      tokenSymbol: create.symbol,
+      poolAddress: create.bondingCurve,
+      poolType: 'pump_fun',
+      baseMint: SOL_MINT,
+      quoteMint: create.mint,
+      // Nothing is bought on the curve yet
+      liquidityAmount: 0,
+      lpTokenMint: null,
+      timestamp: now,
+      blockHeight: event.slot,
+    };
+  }
+
+  if (!tx || tx.meta?.err) return null;
+  const layout = INIT_ACCOUNT_LAYOUT[event.kind];
+  const ix = findInitInstruction(tx, PROGRAM_IDS[event.program], Math.max(layout.pool, layout.mintA, layout.mintB));
+  if (!ix?.accounts) return null;
+
+  const mintA = ix.accounts[layout.mintA];
+  const mintB = ix.accounts[layout.mintB];
+  if (isQuoteMint(mintA) === isQuoteMint(mintB)) return null;
+  const [baseMint, tokenAddress] = isQuoteMint(mintA) ? [mintA, mintB] : [mintB, mintA];
+
+  // Only Raydium AMM reports the opening reserves; concentrated pools open empty
+  let liquidityAmount = 0;
+  const init = event.raydiumInit;
+  if (init && baseMint === SOL_MINT) {
+    const solSide = mintB === SOL_MINT ? init.pcAmount : init.coinAmount;
+    liquidityAmount = (Number(solSide) / 1e9) * 2;
+  }
+
+  return {
+    tokenAddress,
+    tokenName: '',
+    tokenSymbol: '',
+    poolAddress: ix.accounts[layout.pool],
+    poolType: event.program === 'orca' ? 'orca' : 'raydium',
+    baseMint,
+    quoteMint: tokenAddress,
+    liquidityAmount,
+    lpTokenMint: layout.lpMint !== undefined ? ix.accounts[layout.lpMint] : null,
+    timestamp: tx.blockTime ? tx.blockTime * 1000 : now,
+    blockHeight: tx.slot,
+  };
+}
+
+// ============================================
+// STREAM
+// ============================================
+
+interface LogsNotification {
+  method?: string;
+  id?: number;
+  result?: unknown;
+  params?: {
+    subscription: number;
+    result: { context: { slot: number }; value: { signature: string; err: unknown; logs: string[] | null } };
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Subscribe to pool-program logs and emit each new pool once. Reconnects with backoff;
+ * notifications are processed in order so replays are deterministic.
+ */
+export function createPoolStream(options: PoolStreamOptions): PoolStreamHandle {
+  const programs = options.programs ?? (Object.keys(PROGRAM_IDS) as PoolProgram[]);
+  const createSocket = options.createSocket ?? ((url: string) => new WebSocket(url) as unknown as StreamSocket);
+  const now = options.now ?? Date.now;
+
+  const stats: PoolStreamStats = { received: 0, decoded: 0, duplicates: 0, lastSlot: null };
+  const seen = new Set<string>();
+  // JSON-RPC request id -> program, then subscription id -> program
+  const pendingSubscriptions = new Map<number, PoolProgram>();
+  const subscriptions = new Map<number, PoolProgram>();
+  let socket: StreamSocket | null = null;
+  let running = false;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let queue: Promise<void> = Promise.resolve();
+
+  const fetchTransaction = async (signature: string) => {
+    for (let i = 0; i <= POOL_STREAM_CONFIG.TX_FETCH_RETRIES; i++) {
+      const tx = await options.fetchTransaction(signature).catch(() => null);
+      if (tx) return tx;
+      if (i < POOL_STREAM_CONFIG.TX_FETCH_RETRIES) await sleep(POOL_STREAM_CONFIG.TX_FETCH_RETRY_MS);
+    }
+    return null;
+  };
+
+  const handleNotification = async (program: PoolProgram, notification: NonNullable<LogsNotification['params']>['result']) => {
+    const { signature, err, logs } = notification.value;
+    if (err || !logs) return;
+    const event = classifyPoolInitLogs(program, logs, signature, notification.context.slot);
+    if (!event) return;
+
+    const tx = event.kind === 'pump_create' ? null : await fetchTransaction(signature);
+    const pool = buildLiquidityInfo(event, tx, now());
+    if (!pool) return;
+
+    if (seen.has(pool.tokenAddress) || options.isKnown?.(pool.tokenAddress)) {
+      stats.duplicates++;
+      return;
+    }
+    if (seen.size >= POOL_STREAM_CONFIG.SEEN_LIMIT) seen.clear();
+    seen.add(pool.tokenAddress);
+    stats.decoded++;
+    options.onPool(pool, event);
+  };
+
+  const handleMessage = (raw: unknown) => {
+    let message: LogsNotification;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+
+    // Subscription confirmation
+    if (message.id !== undefined && typeof message.result === 'number') {
+      const program = pendingSubscriptions.get(message.id);
+      if (program) subscriptions.set(message.result, program);
+      pendingSubscriptions.delete(message.id);
+      return;
+    }
+    if (message.method !== 'logsNotification' || !message.params) return;
+
+    const program = subscriptions.get(message.params.subscription);
+    if (!program) return;
+    stats.received++;
+    stats.lastSlot = message.params.result.context.slot;
+    const notification = message.params.result;
+    queue = queue.then(() => handleNotification(program, notification)).catch((error) => {
+      console.error('[PoolStream] Failed to process notification:', error);
+    });
+  };
+
+  const connect = () => {
+    options.onStatus?.('connecting');
+    const ws = createSocket(options.wsUrl);
+    socket = ws;
+
+    ws.onopen = () => {
+      attempt = 0;
+      options.onStatus?.('open');
+      pendingSubscriptions.clear();
+      subscriptions.clear();
+      programs.forEach((program, index) => {
+        const id = index + 1;
+        pendingSubscriptions.set(id, program);
+        ws.send(JSON.stringify({
+          jsonrpc: '2.0',
+          id,
+          method: 'logsSubscribe',
+          params: [{ mentions: [PROGRAM_IDS[program]] }, { commitment: 'confirmed' }],
+        }));
+      });
+    };
+    ws.onmessage = (event) => handleMessage(event.data);
+    ws.onerror = (error) => console.warn('[PoolStream] Socket error:', error);
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      options.onStatus?.('closed');
+      if (!running) return;
+      const delay = Math.min(POOL_STREAM_CONFIG.RECONNECT_MAX_MS, POOL_STREAM_CONFIG.RECONNECT_BASE_MS * 2 ** attempt++);
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      connect();
+    },
+    stop: () => {
+      running = false;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      const ws = socket;
+      socket = null;
+      ws?.close();
+      options.onStatus?.('closed');
+    },
+    stats: () => ({ ...stats }),
+    idle: () => queue,
+  };
+}
+
+// ============================================
+// FIXTURE REPLAY
+// ============================================
+
+/** A recorded stream: raw socket messages in arrival order plus the transactions they reference. */
+export interface PoolStreamFixture {
+  messages: unknown[];
+  transactions: Record<string, StreamTransaction>;
+}
+
+/**
+ * Play a recorded stream through createPoolStream and collect the pools it emits. The fixture's
+ * subscription confirmations must use request ids in `programs` order (1-based).
+ */
+export async function replayPoolStream(
+  fixture: PoolStreamFixture,
+  options: Pick<PoolStreamOptions, 'programs' | 'isKnown' | 'now'> = {}
+): Promise<{ pools: LiquidityInfo[]; events: PoolInitEvent[]; stats: PoolStreamStats }> {
+  const pools: LiquidityInfo[] = [];
+  const events: PoolInitEvent[] = [];
+  const replaySocket: StreamSocket = {
+    send: () => undefined,
+    close: () => undefined,
+    onopen: null,
+    onmessage: null,
+    onclose: null,
+    onerror: null,
+  };
+
+  const stream = createPoolStream({
+    ...options,
+    wsUrl: 'replay://fixture',
+    fetchTransaction: async (signature) => fixture.transactions[signature] ?? null,
+    onPool: (pool, event) => {
+      pools.push(pool);
+      events.push(event);
+    },
+    createSocket: () => replaySocket,
+  });
+
+  stream.start();
+  replaySocket.onopen?.({});
+  for (const message of fixture.messages) {
+    replaySocket.onmessage?.({ data: typeof message === 'string' ? message : JSON.stringify(message) });
+  }
+  await stream.idle();
+  stream.stop();
+  return { pools, events, stats: stream.stats() };
+}
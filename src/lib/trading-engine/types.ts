@@ -73,6 +73,9 @@ export interface RiskAssessment {
   hasFreezeAuthority: boolean;
   holderCount: number;
   topHolderPercent: number;
+  // Largest holder after merging wallets funded by the same source; null when not analyzed
+  effectiveTopHolderPercent: number | null;
+  bundledClusters: number;
   passed: boolean;
   reasons: string[];
 }
@@ -0,0 +1,139 @@
+/**
+ * Wallet Allocation Module
+ * Picks which registered trading wallet a new position is opened from, respecting each
+ * wallet's SOL budget, open-position cap and strategy assignment. Exits never come
+ * through here - they always sign from the position's own wallet_address.
+ */
+
+export type WalletStrategy = 'any' | 'sniper' | 'copy_trade' | 'manual';
+
+export interface TradingWallet {
+  id: string;
+  user_id: string;
+  address: string;
+  label: string | null;
+  is_active: boolean;
+  budget_sol: number;
+  max_open_positions: number;
+  strategy: WalletStrategy;
+  created_at: string;
+  updated_at: string;
+}
+
+// Minimal position shape needed to measure what a wallet already has deployed
+export interface WalletPositionRecord {
+  token_address: string;
+  status: string | null;
+  wallet_address?: string | null;
+  entry_sol?: number | null;
+}
+
+export interface WalletUsage {
+  openPositions: number;
+  deployedSol: number;
+  remainingSol: number;
+  slotsLeft: number;
+}
+
+export interface WalletSelection {
+  wallet: TradingWallet | null;
+  // Why each skipped wallet was passed over, keyed by address
+  skipped: Record<string, string>;
+}
+
+export const WALLET_STRATEGY_LABELS: Record<WalletStrategy, string> = {
+  any: 'Any strategy',
+  sniper: 'Auto-sniper',
+  copy_trade: 'Copy trading',
+  manual: 'Manual trades',
+};
+
+const OPEN_STATUSES = new Set(['open', 'pending', 'waiting_for_liquidity']);
+
+/**
+ * Open positions and SOL currently deployed from one wallet. Rows are de-duplicated by
+ * token so a token bought once but recorded twice does not eat the budget twice.
+ */
+export function getWalletUsage(wallet: TradingWallet, positions: WalletPositionRecord[]): WalletUsage {
+  const byToken = new Map<string, number>();
+  for (const p of positions) {
+    if (!p.status || !OPEN_STATUSES.has(p.status)) continue;
+    if (p.wallet_address !== wallet.address) continue;
+    const sol = Number(p.entry_sol) || 0;
+    byToken.set(p.token_address, Math.max(byToken.get(p.token_address) || 0, sol));
+  }
+
+  let deployedSol = 0;
+  byToken.forEach(sol => { deployedSol += sol; });
+  deployedSol = Math.round(deployedSol * 1e4) / 1e4;
+
+  return {
+    openPositions: byToken.size,
+    deployedSol,
+    remainingSol: Math.max(0, Math.round((wallet.budget_sol - deployedSol) * 1e4) / 1e4),
+    slotsLeft: Math.max(0, wallet.max_open_positions - byToken.size),
+  };
+}
+
+export function walletServesStrategy(wallet: TradingWallet, strategy: Exclude<WalletStrategy, 'any'>): boolean {
+  return wallet.strategy === 'any' || wallet.strategy === strategy;
+}
+
+/**
+ * Choose the wallet for a new `tradeSol` buy. Only wallets that can sign right now
+ * (`signableAddresses`) are eligible; among those, dedicated strategy wallets win over
+ * 'any' wallets, then the one with the most budget left.
+ */
+export function selectTradingWallet(
+  wallets: TradingWallet[],
+  positions: WalletPositionRecord[],
+  options: {
+    strategy: Exclude<WalletStrategy, 'any'>;
+    tradeSol: number;
+    signableAddresses: string[];
+  }
+): WalletSelection {
+  const skipped: Record<string, string> = {};
+  const candidates: { wallet: TradingWallet; usage: WalletUsage }[] = [];
+
+  for (const wallet of wallets) {
+    if (!wallet.is_active) {
+      skipped[wallet.address] = 'paused';
+      continue;
+    }
+    if (!walletServesStrategy(wallet, options.strategy)) {
+      skipped[wallet.address] = `assigned to ${WALLET_STRATEGY_LABELS[wallet.strategy].toLowerCase()}`;
+      continue;
+    }
+    if (!options.signableAddresses.includes(wallet.address)) {
+      skipped[wallet.address] = 'not connected in this browser';
+      continue;
+    }
+
+    const usage = getWalletUsage(wallet, positions);
+    if (usage.slotsLeft <= 0) {
+      skipped[wallet.address] = `${usage.openPositions}/${wallet.max_open_positions} positions open`;
+      continue;
+    }
+    if (usage.remainingSol < options.tradeSol) {
+      skipped[wallet.address] = `budget ${usage.remainingSol.toFixed(3)} SOL left < ${options.tradeSol} SOL`;
+      continue;
+    }
+    candidates.push({ wallet, usage });
+  }
+
+  candidates.sort((a, b) => {
+    const aDedicated = a.wallet.strategy === options.strategy ? 1 : 0;
+    const bDedicated = b.wallet.strategy === options.strategy ? 1 : 0;
+    if (aDedicated !== bDedicated) return bDedicated - aDedicated;
+    return b.usage.remainingSol - a.usage.remainingSol;
+  });
+
+  return { wallet: candidates[0]?.wallet ?? null, skipped };
+}
+
+export function describeSkippedWallets(skipped: Record<string, string>): string {
+  return Object.entries(skipped)
+    .map(([address, reason]) => `${address.slice(0, 4)}...${address.slice(-4)}: ${reason}`)
+    .join('\n');
+}
@@ -23,10 +23,12 @@ import {
   Play,
   RefreshCw,
   Loader2,
+  Ban,
 } from "lucide-react";
 import { toast } from "sonner";
 import { ApiSettingsModule } from "@/components/admin/ApiSettingsModule";
 import { UserManagementPanel } from "@/components/admin/UserManagementPanel";
+import { CreatorBlocklistPanel } from "@/components/admin/CreatorBlocklistPanel";
 
 const Admin = forwardRef<HTMLDivElement, object>(function Admin(_props, ref) {
   const { isAdmin, user } = useAuth();
@@ -93,6 +95,7 @@ const Admin = forwardRef<HTMLDivElement, object>(function Admin(_props, ref) {
     { id: "scanner", label: "Market Scanner", icon: Search },
     { id: "liquidity", label: "Liquidity Rules", icon: Droplets },
     { id: "risk", label: "Risk Filters", icon: AlertTriangle },
+    { id: "creators", label: "Creator Blocklist", icon: Ban },
     { id: "engine", label: "Trading Engine", icon: Zap },
     { id: "copytrade", label: "Copy Trading", icon: Copy },
     { id: "users", label: "User Management", icon: Users },
@@ -498,6 +501,9 @@ const Admin = forwardRef<HTMLDivElement, object>(function Admin(_props, ref) {
                   </div>
                 )}
 
+                {/* Creator Blocklist Tab */}
+                {activeTab === "creators" && <CreatorBlocklistPanel />}
+
                 {/* User Management Tab */}
                 {activeTab === "users" && <UserManagementPanel />}
 
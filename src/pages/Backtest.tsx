@@ -0,0 +1,432 @@
+import React, { forwardRef, useEffect, useMemo, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { FlaskConical, Loader2, Database, Copy, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import ExitPlanEditor from "@/components/trading/ExitPlanEditor";
+import { useBacktest } from "@/hooks/useBacktest";
+import { useSniperSettings } from "@/hooks/useSniperSettings";
+import { runBacktest, getRejectCodeLabel, type BacktestParams, type BacktestRejectCode, type BacktestResult } from "@/lib/backtest";
+import { cn } from "@/lib/utils";
+
+type SetKey = "A" | "B";
+
+const SET_COLORS: Record<SetKey, string> = {
+  A: "hsl(160, 100%, 50%)",
+  B: "hsl(210, 100%, 60%)",
+};
+
+const FALLBACK_PARAMS: BacktestParams = {
+  minLiquidity: 5,
+  maxRiskScore: 70,
+  profitTakePercent: 100,
+  stopLossPercent: 20,
+  targetBuyerPositions: [1, 2, 3, 4, 5],
+  tradeAmountSol: 0.1,
+  maxConcurrentTrades: 3,
+  tokenBlacklist: [],
+  tokenWhitelist: [],
+  exitPlan: null,
+};
+
+const formatSol = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(4)} SOL`;
+
+const parsePositions = (raw: string): number[] =>
+  raw
+    .split(/[\s,]+/)
+    .map((p) => parseInt(p, 10))
+    .filter((p) => Number.isInteger(p) && p > 0);
+
+function ParamSetEditor({
+  label,
+  params,
+  onChange,
+}: {
+  label: SetKey;
+  params: BacktestParams;
+  onChange: (params: BacktestParams) => void;
+}) {
+  const [positionsText, setPositionsText] = useState(params.targetBuyerPositions.join(", "));
+
+  useEffect(() => {
+    setPositionsText(params.targetBuyerPositions.join(", "));
+  }, [params.targetBuyerPositions]);
+
+  const numberField = (key: keyof BacktestParams, title: string, step = "1") => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{title}</Label>
+      <Input
+        type="number"
+        step={step}
+        value={params[key] as number}
+        onChange={(e) => onChange({ ...params, [key]: parseFloat(e.target.value) || 0 })}
+        className="h-8 font-mono"
+      />
+    </div>
+  );
+
+  return (
+    <Card className="glass">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SET_COLORS[label] }} />
+          Parameter Set {label}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {numberField("minLiquidity", "Min liquidity (SOL)", "0.5")}
+          {numberField("maxRiskScore", "Max risk score")}
+          {numberField("profitTakePercent", "Take profit %")}
+          {numberField("stopLossPercent", "Stop loss %")}
+          {numberField("tradeAmountSol", "Trade amount (SOL)", "0.01")}
+          {numberField("maxConcurrentTrades", "Max concurrent")}
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Target buyer positions (empty = #2-#10)</Label>
+          <Input
+            value={positionsText}
+            onChange={(e) => setPositionsText(e.target.value)}
+            onBlur={() => onChange({ ...params, targetBuyerPositions: parsePositions(positionsText) })}
+            placeholder="2, 3, 4"
+            className="h-8 font-mono"
+          />
+        </div>
+        <ExitPlanEditor
+          plan={params.exitPlan}
+          onChange={(exitPlan) => onChange({ ...params, exitPlan })}
+          fallbackLabel={`Fixed TP ${params.profitTakePercent}% / SL ${params.stopLossPercent}%`}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function StatRow({ label, a, b, better }: { label: string; a: string; b: string; better?: SetKey | null }) {
+  return (
+    <TableRow>
+      <TableCell className="text-muted-foreground">{label}</TableCell>
+      <TableCell className={cn("font-mono text-right", better === "A" && "text-success font-semibold")}>{a}</TableCell>
+      <TableCell className={cn("font-mono text-right", better === "B" && "text-success font-semibold")}>{b}</TableCell>
+    </TableRow>
+  );
+}
+
+const pickBetter = (a: number, b: number, higherIsBetter = true): SetKey | null => {
+  if (a === b) return null;
+  return (a > b) === higherIsBetter ? "A" : "B";
+};
+
+const Backtest = forwardRef<HTMLDivElement, object>(function Backtest(_props, ref) {
+  const { settings } = useSniperSettings();
+  const { snapshots, candlesByToken, missingPriceData, loading, backfilling, error, loadDataset, backfillMissing } = useBacktest();
+
+  const [lookbackDays, setLookbackDays] = useState("7");
+  const [paramSets, setParamSets] = useState<Record<SetKey, BacktestParams>>({ A: FALLBACK_PARAMS, B: FALLBACK_PARAMS });
+  const [results, setResults] = useState<Record<SetKey, BacktestResult> | null>(null);
+
+  // Both sets start from the user's live settings
+  useEffect(() => {
+    if (!settings) return;
+    const fromSettings: BacktestParams = {
+      minLiquidity: settings.min_liquidity,
+      maxRiskScore: settings.max_risk_score ?? 70,
+      profitTakePercent: settings.profit_take_percentage,
+      stopLossPercent: settings.stop_loss_percentage,
+      targetBuyerPositions: settings.target_buyer_positions || [],
+      tradeAmountSol: settings.trade_amount,
+      maxConcurrentTrades: settings.max_concurrent_trades,
+      tokenBlacklist: settings.token_blacklist,
+      tokenWhitelist: settings.token_whitelist,
+      exitPlan: settings.exit_plan ?? null,
+    };
+    setParamSets({ A: fromSettings, B: fromSettings });
+  }, [settings]);
+
+  useEffect(() => {
+    loadDataset(parseInt(lookbackDays, 10));
+  }, [loadDataset, lookbackDays]);
+
+  const handleRun = () => {
+    if (snapshots.length === 0) {
+      toast.error("No recorded discoveries in this period");
+      return;
+    }
+    setResults({
+      A: runBacktest(snapshots, candlesByToken, paramSets.A),
+      B: runBacktest(snapshots, candlesByToken, paramSets.B),
+    });
+  };
+
+  const handleBackfill = async () => {
+    const filled = await backfillMissing();
+    toast.success(`Fetched price history for ${filled} token${filled === 1 ? "" : "s"}`);
+  };
+
+  // Merge both equity curves onto one time axis
+  const curveData = useMemo(() => {
+    if (!results) return [];
+    const points: { time: number; A?: number; B?: number }[] = [];
+    (["A", "B"] as SetKey[]).forEach((key) => {
+      results[key].pnlCurve.forEach((p) => points.push({ time: p.time, [key]: p.equitySol }));
+    });
+    points.sort((x, y) => x.time - y.time);
+    let lastA = 0;
+    let lastB = 0;
+    return points.map((p) => {
+      lastA = p.A ?? lastA;
+      lastB = p.B ?? lastB;
+      return { time: p.time, A: lastA, B: lastB };
+    });
+  }, [results]);
+
+  const rejectionCodes = useMemo(() => {
+    if (!results) return [];
+    const codes = new Set<BacktestRejectCode>([
+      ...(Object.keys(results.A.rejectionCounts) as BacktestRejectCode[]),
+      ...(Object.keys(results.B.rejectionCounts) as BacktestRejectCode[]),
+    ]);
+    return [...codes].sort(
+      (x, y) =>
+        (results.A.rejectionCounts[y] || 0) + (results.B.rejectionCounts[y] || 0) -
+        ((results.A.rejectionCounts[x] || 0) + (results.B.rejectionCounts[x] || 0))
+    );
+  }, [results]);
+
+  return (
+    <AppLayout>
+      <div ref={ref} className="container mx-auto px-4 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 border border-primary/10">
+              <FlaskConical className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Backtest</h1>
+              <p className="text-sm text-muted-foreground">
+                Replay recorded discoveries against two sniper parameter sets
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={lookbackDays} onValueChange={setLookbackDays}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Last 24h</SelectItem>
+                <SelectItem value="3">Last 3 days</SelectItem>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="14">Last 14 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRun} disabled={loading} className="gap-2">
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+              Run
+            </Button>
+          </div>
+        </div>
+
+        {/* Dataset */}
+        <Card className="glass">
+          <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex items-center gap-3 text-sm">
+              <Database className="w-4 h-4 text-muted-foreground" />
+              <span>
+                <span className="font-semibold">{snapshots.length}</span> discoveries,{" "}
+                <span className="font-semibold">{snapshots.length - missingPriceData}</span> with price history
+              </span>
+              {error && <Badge variant="destructive">{error}</Badge>}
+            </div>
+            <div className="flex items-center gap-2">
+              {missingPriceData > 0 && (
+                <Button variant="outline" size="sm" onClick={handleBackfill} disabled={backfilling} className="gap-2">
+                  {backfilling ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+                  Fetch missing prices
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setParamSets((prev) => ({ ...prev, B: prev.A }))}
+                className="gap-2"
+              >
+                <Copy className="w-3.5 h-3.5" />
+                Copy A → B
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Parameter sets */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {(["A", "B"] as SetKey[]).map((key) => (
+            <ParamSetEditor
+              key={key}
+              label={key}
+              params={paramSets[key]}
+              onChange={(params) => setParamSets((prev) => ({ ...prev, [key]: params }))}
+            />
+          ))}
+        </div>
+
+        {results && (
+          <>
+            {/* P&L curve */}
+            <Card className="glass">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Cumulative P&L</CardTitle>
+                <CardDescription>Realized SOL P&L at each simulated exit</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={curveData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <XAxis
+                        dataKey="time"
+                        type="number"
+                        domain={["dataMin", "dataMax"]}
+                        tickFormatter={(value: number) => format(new Date(value), "MMM d HH:mm")}
+                        tick={{ fill: "hsl(215, 20%, 55%)", fontSize: 10 }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <YAxis
+                        tickFormatter={(value: number) => value.toFixed(2)}
+                        tick={{ fill: "hsl(215, 20%, 55%)", fontSize: 10 }}
+                        axisLine={false}
+                        tickLine={false}
+                        width={50}
+                      />
+                      <ReferenceLine y={0} stroke="hsl(215, 20%, 35%)" strokeDasharray="3 3" />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: "hsl(220, 20%, 10%)",
+                          border: "1px solid hsl(220, 15%, 20%)",
+                          borderRadius: "8px",
+                        }}
+                        labelFormatter={(value: number) => format(new Date(value), "MMM d, HH:mm")}
+                        formatter={(value: number, name: string) => [formatSol(value), `Set ${name}`]}
+                      />
+                      {(["A", "B"] as SetKey[]).map((key) => (
+                        <Line
+                          key={key}
+                          type="stepAfter"
+                          dataKey={key}
+                          stroke={SET_COLORS[key]}
+                          strokeWidth={2}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {/* Summary */}
+              <Card className="glass">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Results</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Metric</TableHead>
+                        <TableHead className="text-right">Set A</TableHead>
+                        <TableHead className="text-right">Set B</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <StatRow label="Discoveries replayed" a={`${results.A.evaluated}`} b={`${results.B.evaluated}`} />
+                      <StatRow label="Trades" a={`${results.A.trades.length}`} b={`${results.B.trades.length}`} />
+                      <StatRow
+                        label="Win rate"
+                        a={`${results.A.winRate.toFixed(1)}%`}
+                        b={`${results.B.winRate.toFixed(1)}%`}
+                        better={pickBetter(results.A.winRate, results.B.winRate)}
+                      />
+                      <StatRow
+                        label="Total P&L"
+                        a={formatSol(results.A.totalPnlSol)}
+                        b={formatSol(results.B.totalPnlSol)}
+                        better={pickBetter(results.A.totalPnlSol, results.B.totalPnlSol)}
+                      />
+                      <StatRow
+                        label="Avg trade"
+                        a={`${results.A.avgPnlPercent.toFixed(1)}%`}
+                        b={`${results.B.avgPnlPercent.toFixed(1)}%`}
+                        better={pickBetter(results.A.avgPnlPercent, results.B.avgPnlPercent)}
+                      />
+                      <StatRow
+                        label="Max drawdown"
+                        a={`${results.A.maxDrawdownSol.toFixed(4)} SOL (${results.A.maxDrawdownPercent.toFixed(1)}%)`}
+                        b={`${results.B.maxDrawdownSol.toFixed(4)} SOL (${results.B.maxDrawdownPercent.toFixed(1)}%)`}
+                        better={pickBetter(results.A.maxDrawdownSol, results.B.maxDrawdownSol, false)}
+                      />
+                      <StatRow label="Rejected" a={`${results.A.rejected}`} b={`${results.B.rejected}`} />
+                      <StatRow
+                        label="Skipped (no prices)"
+                        a={`${results.A.skippedNoPriceData}`}
+                        b={`${results.B.skippedNoPriceData}`}
+                      />
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {/* Rejections */}
+              <Card className="glass">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Rejections by rule</CardTitle>
+                  <CardDescription>A token can fail several rules at once</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {rejectionCodes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-6 text-center">No discoveries were rejected</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Rule</TableHead>
+                          <TableHead className="text-right">Set A</TableHead>
+                          <TableHead className="text-right">Set B</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rejectionCodes.map((code) => (
+                          <StatRow
+                            key={code}
+                            label={getRejectCodeLabel(code)}
+                            a={`${results.A.rejectionCounts[code] || 0}`}
+                            b={`${results.B.rejectionCounts[code] || 0}`}
+                          />
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+});
+
+Backtest.displayName = 'Backtest';
+
+export default Backtest;
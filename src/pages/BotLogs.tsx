@@ -0,0 +1,343 @@
+import React, { forwardRef, useMemo, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollText, Loader2, RefreshCw, Download, ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  useBotLogHistory,
+  DEFAULT_BOT_LOG_FILTERS,
+  type BotLogCategory,
+  type BotLogFilters,
+} from "@/hooks/useBotLogHistory";
+import type { LogLevel } from "@/components/scanner/BotActivityLog";
+import { useDebounce } from "@/hooks/useDebounce";
+import { exportBotLogs } from "@/lib/exportUtils";
+import { cn } from "@/lib/utils";
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  info: "text-blue-400 border-blue-500/30",
+  success: "text-success border-success/30",
+  warning: "text-warning border-warning/30",
+  error: "text-destructive border-destructive/30",
+  skip: "text-muted-foreground border-border",
+};
+
+const CATEGORY_OPTIONS: { value: BotLogCategory | "all"; label: string }[] = [
+  { value: "all", label: "All categories" },
+  { value: "scan", label: "Scan" },
+  { value: "evaluate", label: "Evaluate" },
+  { value: "trade", label: "Trade" },
+  { value: "exit", label: "Exit" },
+  { value: "system", label: "System" },
+];
+
+const LEVEL_OPTIONS: { value: LogLevel | "all"; label: string }[] = [
+  { value: "all", label: "All levels" },
+  { value: "info", label: "Info" },
+  { value: "success", label: "Success" },
+  { value: "warning", label: "Warning" },
+  { value: "error", label: "Error" },
+  { value: "skip", label: "Skip" },
+];
+
+// Hours back from now; "custom" uses the from/to inputs
+const RANGE_PRESETS: Record<string, number | null> = {
+  "1h": 1,
+  "24h": 24,
+  "7d": 24 * 7,
+  "30d": 24 * 30,
+  all: null,
+};
+
+const RETENTION_OPTIONS = [7, 14, 30, 90, 180, 365];
+
+const BotLogs = forwardRef<HTMLDivElement, object>(function BotLogs(_props, ref) {
+  const [category, setCategory] = useState<BotLogFilters["category"]>("all");
+  const [level, setLevel] = useState<BotLogFilters["level"]>("all");
+  const [token, setToken] = useState("");
+  const [search, setSearch] = useState("");
+  const [range, setRange] = useState("24h");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const debouncedToken = useDebounce(token, 400);
+  const debouncedSearch = useDebounce(search, 400);
+
+  const filters = useMemo<BotLogFilters>(() => {
+    let from: string | null = null;
+    let to: string | null = null;
+    if (range === "custom") {
+      from = customFrom ? new Date(customFrom).toISOString() : null;
+      to = customTo ? new Date(customTo).toISOString() : null;
+    } else if (RANGE_PRESETS[range]) {
+      from = new Date(Date.now() - RANGE_PRESETS[range]! * 3_600_000).toISOString();
+    }
+    return {
+      ...DEFAULT_BOT_LOG_FILTERS,
+      category,
+      level,
+      token: debouncedToken,
+      search: debouncedSearch,
+      from,
+      to,
+    };
+  }, [category, level, debouncedToken, debouncedSearch, range, customFrom, customTo]);
+
+  const {
+    entries,
+    total,
+    page,
+    pageCount,
+    setPage,
+    loading,
+    refetch,
+    fetchSlice,
+    retentionDays,
+    updateRetention,
+  } = useBotLogHistory(filters);
+
+  const handleExport = async (fileFormat: "csv" | "json") => {
+    setExporting(true);
+    try {
+      const rows = await fetchSlice();
+      exportBotLogs(rows, fileFormat);
+      toast.success(`Exported ${rows.length} log entries`);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div ref={ref} className="container mx-auto px-4 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 border border-primary/10">
+              <ScrollText className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Bot Log History</h1>
+              <p className="text-sm text-muted-foreground">
+                Every bot decision, kept on the server for {retentionDays} days
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={loading}>
+              <RefreshCw className={cn("w-4 h-4 mr-2", loading && "animate-spin")} />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={exporting || total === 0}>
+              {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("json")} disabled={exporting || total === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Filters</CardTitle>
+            <CardDescription>Exports include every entry matching these filters</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            <div className="space-y-1.5 lg:col-span-2">
+              <Label className="text-xs">Search details</Label>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder='e.g. slippage -"rate limit"'
+                  className="pl-8 h-9"
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Token</Label>
+              <Input
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="Symbol or mint"
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Category</Label>
+              <Select value={category} onValueChange={(v) => setCategory(v as BotLogFilters["category"])}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_OPTIONS.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Level</Label>
+              <Select value={level} onValueChange={(v) => setLevel(v as BotLogFilters["level"])}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEVEL_OPTIONS.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Time range</Label>
+              <Select value={range} onValueChange={setRange}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1h">Last hour</SelectItem>
+                  <SelectItem value="24h">Last 24h</SelectItem>
+                  <SelectItem value="7d">Last 7 days</SelectItem>
+                  <SelectItem value="30d">Last 30 days</SelectItem>
+                  <SelectItem value="all">All retained</SelectItem>
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {range === "custom" && (
+              <>
+                <div className="space-y-1.5 lg:col-span-2">
+                  <Label className="text-xs">From</Label>
+                  <Input type="datetime-local" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} className="h-9" />
+                </div>
+                <div className="space-y-1.5 lg:col-span-2">
+                  <Label className="text-xs">To</Label>
+                  <Input type="datetime-local" value={customTo} onChange={(e) => setCustomTo(e.target.value)} className="h-9" />
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card>
+          <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="text-base">Entries</CardTitle>
+              <CardDescription>{total.toLocaleString()} matching</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">Keep logs for</Label>
+              <Select value={String(retentionDays)} onValueChange={(v) => updateRetention(Number(v))}>
+                <SelectTrigger className="h-8 w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETENTION_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading && entries.length === 0 ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-10">No log entries match these filters</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[170px]">Time</TableHead>
+                    <TableHead className="w-[90px]">Level</TableHead>
+                    <TableHead className="w-[90px]">Category</TableHead>
+                    <TableHead className="w-[110px]">Token</TableHead>
+                    <TableHead>Message</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <React.Fragment key={entry.id}>
+                      <TableRow
+                        className={cn(entry.details && "cursor-pointer")}
+                        onClick={() => entry.details && setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      >
+                        <TableCell className="font-mono text-xs whitespace-nowrap">
+                          {format(new Date(entry.logged_at), "yyyy-MM-dd HH:mm:ss")}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={cn("text-[10px]", LEVEL_STYLES[entry.level])}>
+                            {entry.level}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs capitalize">{entry.category}</TableCell>
+                        <TableCell className="text-xs font-medium">
+                          {entry.token_symbol ? `$${entry.token_symbol}` : "—"}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          <span className="flex items-center gap-1">
+                            {entry.details && (
+                              <ChevronRight className={cn("w-3 h-3 shrink-0 transition-transform", expandedId === entry.id && "rotate-90")} />
+                            )}
+                            {entry.message}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                      {expandedId === entry.id && entry.details && (
+                        <TableRow>
+                          <TableCell colSpan={5}>
+                            <pre className="text-[11px] font-mono text-muted-foreground whitespace-pre-wrap break-words bg-muted/30 p-2 rounded-md">
+                              {entry.details}
+                            </pre>
+                            {entry.token_address && (
+                              <p className="text-[10px] font-mono text-muted-foreground mt-1">{entry.token_address}</p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {pageCount > 1 && (
+              <div className="flex items-center justify-end gap-2 pt-4">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  Page {page + 1} of {pageCount}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || loading}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+});
+
+export default BotLogs;
@@ -0,0 +1,392 @@
+import { forwardRef, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Server, Loader2, RefreshCw, Play, KeyRound, Copy, HeartPulse, AlertTriangle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useBotRunner, HEARTBEAT_STALE_MS, type BotStageRunRecord } from "@/hooks/useBotRunner";
+import { useWallet } from "@/hooks/useWallet";
+import { useToast } from "@/hooks/use-toast";
+import type { BotStage, StageStatus } from "@shared/bot-cycle";
+import { cn } from "@/lib/utils";
+
+const STAGE_LABELS: Record<BotStage, string> = {
+  scan: "Scan",
+  evaluate: "Evaluate",
+  execute: "Execute",
+  exit: "Auto-exit",
+};
+
+const STATUS_STYLES: Record<StageStatus, string> = {
+  ok: "text-success border-success/30",
+  skipped: "text-muted-foreground border-border",
+  failed: "text-destructive border-destructive/30",
+};
+
+const TTL_OPTIONS = [
+  { hours: 6, label: "6 hours" },
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+];
+
+function ago(value: string | null) {
+  return value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : "never";
+}
+
+function StageSummary({ run }: { run: BotStageRunRecord }) {
+  const entries = Object.entries(run.summary).filter(([key]) => key !== "failures");
+  const failures = Array.isArray(run.summary.failures) ? (run.summary.failures as string[]) : [];
+  return (
+    <div className="space-y-1">
+      {entries.map(([key, value]) => (
+        <p key={key} className="text-[11px] text-muted-foreground">
+          {key}: <span className="text-foreground">{value === null ? "—" : String(value)}</span>
+        </p>
+      ))}
+      {failures.map((failure) => (
+        <p key={failure} className="text-[11px] text-destructive">{failure}</p>
+      ))}
+      {run.error && <p className="text-[11px] text-destructive">{run.error}</p>}
+    </div>
+  );
+}
+
+const BotRunner = forwardRef<HTMLDivElement, object>(function BotRunner(_props, ref) {
+  const {
+    session,
+    runs,
+    latestByStage,
+    keystoreConfigured,
+    loading,
+    busy,
+    refetch,
+    configure,
+    createSessionKey,
+    revokeSessionKey,
+    runNow,
+  } = useBotRunner();
+  const { wallet } = useWallet();
+  const { toast } = useToast();
+  const [ttlHours, setTtlHours] = useState("24");
+  const [confirmRevoke, setConfirmRevoke] = useState(false);
+
+  const heartbeatAge = session?.heartbeat_at ? Date.now() - new Date(session.heartbeat_at).getTime() : null;
+  const leaseActive = !!session?.lease_expires_at && new Date(session.lease_expires_at).getTime() > Date.now();
+  const keyExpired = !!session?.session_expires_at && new Date(session.session_expires_at).getTime() <= Date.now();
+  const sweepTo = wallet.network === "solana" ? wallet.address : null;
+
+  const copyAddress = async () => {
+    if (!session?.session_public_key) return;
+    await navigator.clipboard.writeText(session.session_public_key);
+    toast({ title: "Session address copied" });
+  };
+
+  return (
+    <AppLayout>
+      <div ref={ref} className="container mx-auto px-4 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 border border-primary/10">
+              <Server className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Headless Bot Runner</h1>
+              <p className="text-sm text-muted-foreground">
+                Scans, snipes and exits on the server every minute - no open tab needed
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={loading}>
+              <RefreshCw className={cn("w-4 h-4 mr-2", loading && "animate-spin")} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={runNow} disabled={busy || !session}>
+              {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run cycle now
+            </Button>
+          </div>
+        </div>
+
+        {loading && !session ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Runner */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <HeartPulse className="w-4 h-4" />
+                  Runner
+                </CardTitle>
+                <CardDescription>Uses your sniper settings, risk checks and exit plans</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label>Run on schedule</Label>
+                  <Switch
+                    checked={session?.is_enabled ?? false}
+                    onCheckedChange={(enabled) => configure({ enabled })}
+                    disabled={busy || !session?.session_public_key}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label>Open new positions</Label>
+                  <Switch
+                    checked={session?.auto_entry ?? true}
+                    onCheckedChange={(autoEntry) => configure({ autoEntry })}
+                    disabled={busy}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label>Run exits</Label>
+                  <Switch
+                    checked={session?.auto_exit ?? true}
+                    onCheckedChange={(autoExit) => configure({ autoExit })}
+                    disabled={busy}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <Label>Max SOL per trade</Label>
+                  <Input
+                    key={session?.max_trade_sol ?? "default"}
+                    type="number"
+                    step="0.01"
+                    min="0.001"
+                    defaultValue={session?.max_trade_sol ?? 0.1}
+                    onBlur={(e) => {
+                      const value = Number(e.target.value);
+                      if (value > 0 && value !== Number(session?.max_trade_sol)) configure({ maxTradeSol: value });
+                    }}
+                    className="h-8 w-28 text-right font-mono"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 pt-2">
+                  <div className="p-3 bg-secondary/30 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Heartbeat</p>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          "w-2 h-2 rounded-full",
+                          heartbeatAge === null
+                            ? "bg-muted-foreground"
+                            : heartbeatAge < HEARTBEAT_STALE_MS
+                              ? "bg-success"
+                              : "bg-warning"
+                        )}
+                      />
+                      <p className="text-sm">{ago(session?.heartbeat_at ?? null)}</p>
+                    </div>
+                  </div>
+                  <div className="p-3 bg-secondary/30 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Lease</p>
+                    <p className="text-sm">
+                      {leaseActive ? `Cycle running, held until ${format(new Date(session!.lease_expires_at!), "HH:mm:ss")}` : "Free"}
+                    </p>
+                  </div>
+                  <div className="p-3 bg-secondary/30 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Last cycle started</p>
+                    <p className="text-sm">{ago(session?.last_cycle_started_at ?? null)}</p>
+                  </div>
+                  <div className="p-3 bg-secondary/30 rounded-lg">
+                    <p className="text-xs text-muted-foreground">Last cycle finished</p>
+                    <p className="text-sm">{ago(session?.last_cycle_finished_at ?? null)}</p>
+                  </div>
+                </div>
+
+                {session?.last_error && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-xs">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{session.last_error}</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Session key */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <KeyRound className="w-4 h-4" />
+                  Session Key
+                </CardTitle>
+                <CardDescription>
+                  A short-lived key the runner signs with. Fund it with only what the bot may trade.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!keystoreConfigured && (
+                  <p className="text-xs text-warning">
+                    The server keystore is not configured - set BOT_KEYSTORE_SECRET to enable session keys.
+                  </p>
+                )}
+
+                {session?.session_public_key ? (
+                  <>
+                    <div className="p-3 bg-secondary/30 rounded-lg space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-mono text-xs break-all">{session.session_public_key}</p>
+                        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={copyAddress}>
+                          <Copy className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {keyExpired ? (
+                          <Badge variant="outline" className="text-[10px] text-warning border-warning/30">Expired</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-[10px] text-success border-success/30">Active</Badge>
+                        )}
+                        <span className="text-[11px] text-muted-foreground">
+                          {keyExpired ? "expired" : "expires"} {ago(session.session_expires_at)}
+                        </span>
+                      </div>
+                    </div>
+                    {keyExpired && (
+                      <p className="text-xs text-muted-foreground">
+                        An expired key opens no new positions but still exits the ones it holds.
+                      </p>
+                    )}
+                    <Button variant="destructive" size="sm" onClick={() => setConfirmRevoke(true)} disabled={busy}>
+                      Revoke session key
+                    </Button>
+                  </>
+                ) : (
+                  <div className="flex items-end gap-3">
+                    <div className="space-y-1.5">
+                      <Label className="text-xs">Valid for</Label>
+                      <Select value={ttlHours} onValueChange={setTtlHours}>
+                        <SelectTrigger className="h-9 w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TTL_OPTIONS.map((o) => (
+                            <SelectItem key={o.hours} value={String(o.hours)}>{o.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button size="sm" onClick={() => createSessionKey(Number(ttlHours))} disabled={busy || !keystoreConfigured}>
+                      Create session key
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Stages */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Last run of each stage</CardTitle>
+            <CardDescription>A failing stage is recorded and the cycle moves on to the next one</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+            {latestByStage.map(({ stage, run }) => (
+              <div key={stage} className="p-3 bg-secondary/30 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-sm">{STAGE_LABELS[stage]}</p>
+                  {run && (
+                    <Badge variant="outline" className={cn("text-[10px]", STATUS_STYLES[run.status])}>
+                      {run.status}
+                    </Badge>
+                  )}
+                </div>
+                {run ? (
+                  <>
+                    <p className="text-[11px] text-muted-foreground">
+                      {ago(run.started_at)} · {(run.duration_ms / 1000).toFixed(1)}s
+                    </p>
+                    <StageSummary run={run} />
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Not run yet</p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* History */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Recent stage runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">The runner has not run a cycle yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[150px]">Started</TableHead>
+                    <TableHead className="w-[100px]">Stage</TableHead>
+                    <TableHead className="w-[90px]">Status</TableHead>
+                    <TableHead className="w-[80px]">Duration</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="font-mono text-xs whitespace-nowrap">
+                        {format(new Date(run.started_at), "MM-dd HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-xs">{STAGE_LABELS[run.stage]}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={cn("text-[10px]", STATUS_STYLES[run.status])}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">{(run.duration_ms / 1000).toFixed(1)}s</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {run.error ?? (typeof run.summary.reason === "string"
+                          ? run.summary.reason
+                          : Object.entries(run.summary)
+                              .filter(([key]) => key !== "failures")
+                              .map(([key, value]) => `${key} ${value}`)
+                              .join(" · "))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <ConfirmDialog
+          open={confirmRevoke}
+          onOpenChange={setConfirmRevoke}
+          title="Revoke session key?"
+          description={
+            sweepTo
+              ? `The key's remaining SOL is sent back to ${sweepTo.slice(0, 4)}...${sweepTo.slice(-4)}, then the key is destroyed and the runner stops.`
+              : "Connect your wallet first to get the key's remaining SOL back - a revoked key can never sign again."
+          }
+          confirmLabel="Revoke"
+          variant="destructive"
+          loading={busy}
+          onConfirm={async () => {
+            await revokeSessionKey(sweepTo);
+            setConfirmRevoke(false);
+          }}
+        />
+      </div>
+    </AppLayout>
+  );
+});
+
+export default BotRunner;
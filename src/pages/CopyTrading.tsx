@@ -0,0 +1,346 @@
+import React, { forwardRef, useState } from "react";
+import AppLayout from "@/components/layout/AppLayout";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Users, Loader2, Plus, RefreshCw, Trash2, Radio } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { useCopyTradeLeaders, type CopyTradeLeader, type CopyTradeLeaderInput } from "@/hooks/useCopyTradeLeaders";
+import { useCopyTrades } from "@/hooks/useCopyTrades";
+import { isValidSolanaAddress } from "@/lib/sniperValidation";
+import { cn } from "@/lib/utils";
+import type { CopySizingMode } from "@shared/copy-trading";
+
+const EMPTY_FORM: CopyTradeLeaderInput = {
+  leader_address: "",
+  label: "",
+  sizing_mode: "fixed_sol",
+  fixed_sol_amount: 0.1,
+  leader_percent: 10,
+  max_sol_per_token: null,
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`;
+
+function describeSizing(leader: Pick<CopyTradeLeader, "sizing_mode" | "fixed_sol_amount" | "leader_percent" | "max_sol_per_token">): string {
+  const base = leader.sizing_mode === "fixed_sol"
+    ? `${leader.fixed_sol_amount} SOL per buy`
+    : `${leader.leader_percent}% of leader size`;
+  return leader.max_sol_per_token ? `${base}, max ${leader.max_sol_per_token} SOL/token` : base;
+}
+
+const CopyTrading = forwardRef<HTMLDivElement, object>(function CopyTrading(_props, ref) {
+  const { leaders, loading, polling, watching, setWatching, lastPollAt, addLeader, updateLeader, removeLeader, pollNow } = useCopyTradeLeaders();
+  const { trades, loading: tradesLoading } = useCopyTrades();
+  const [form, setForm] = useState<CopyTradeLeaderInput>(EMPTY_FORM);
+  const [adding, setAdding] = useState(false);
+
+  const handleAdd = async () => {
+    const address = form.leader_address.trim();
+    if (!isValidSolanaAddress(address)) {
+      toast.error("Invalid Solana wallet address");
+      return;
+    }
+    if (form.sizing_mode === "fixed_sol" && !(form.fixed_sol_amount > 0)) {
+      toast.error("Fixed size must be greater than 0 SOL");
+      return;
+    }
+    if (form.sizing_mode === "percent_of_leader" && !(form.leader_percent > 0 && form.leader_percent <= 100)) {
+      toast.error("Percent of leader size must be between 0 and 100");
+      return;
+    }
+
+    setAdding(true);
+    const created = await addLeader({
+      ...form,
+      leader_address: address,
+      label: form.label?.trim() || null,
+      max_sol_per_token: form.max_sol_per_token && form.max_sol_per_token > 0 ? form.max_sol_per_token : null,
+    });
+    setAdding(false);
+    if (created) setForm(EMPTY_FORM);
+  };
+
+  return (
+    <AppLayout>
+      <div ref={ref} className="container mx-auto px-4 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 border border-primary/10">
+              <Users className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Copy Trading</h1>
+              <p className="text-sm text-muted-foreground">
+                Follow leader wallets - their buys become risk-checked trade signals
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2">
+              <Switch id="watch-leaders" checked={watching} onCheckedChange={setWatching} />
+              <Label htmlFor="watch-leaders" className="text-sm flex items-center gap-1.5">
+                <Radio className={cn("w-3.5 h-3.5", watching ? "text-success animate-pulse" : "text-muted-foreground")} />
+                Watch leaders
+              </Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={pollNow} disabled={polling || leaders.length === 0}>
+              {polling ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Poll now
+            </Button>
+          </div>
+        </div>
+
+        {lastPollAt && (
+          <p className="text-xs text-muted-foreground -mt-3">
+            Last polled {formatDistanceToNow(lastPollAt, { addSuffix: true })}. Polling runs only while this page is open.
+          </p>
+        )}
+
+        {/* Add leader */}
+        <Card className="glass">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Plus className="w-4 h-4 text-primary" />
+              Follow a wallet
+            </CardTitle>
+            <CardDescription>
+              Only trades made after you add a wallet are copied. Sells are recorded for stats; exits follow your own TP/SL.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-[2fr_1fr] gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Leader wallet</Label>
+                <Input
+                  value={form.leader_address}
+                  onChange={(e) => setForm({ ...form, leader_address: e.target.value })}
+                  placeholder="Wallet address..."
+                  className="h-9 font-mono text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Label (optional)</Label>
+                <Input
+                  value={form.label ?? ""}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  placeholder="e.g. Dev wallet"
+                  className="h-9 text-sm"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Sizing</Label>
+                <Select
+                  value={form.sizing_mode}
+                  onValueChange={(value) => setForm({ ...form, sizing_mode: value as CopySizingMode })}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed_sol">Fixed SOL</SelectItem>
+                    <SelectItem value="percent_of_leader">% of leader</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.sizing_mode === "fixed_sol" ? (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">SOL per buy</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={form.fixed_sol_amount}
+                    onChange={(e) => setForm({ ...form, fixed_sol_amount: Number(e.target.value) })}
+                    className="h-9 tabular-nums"
+                  />
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">% of leader size</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={form.leader_percent}
+                    onChange={(e) => setForm({ ...form, leader_percent: Number(e.target.value) })}
+                    className="h-9 tabular-nums"
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Max SOL per token</Label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  value={form.max_sol_per_token ?? ""}
+                  onChange={(e) => setForm({ ...form, max_sol_per_token: e.target.value ? Number(e.target.value) : null })}
+                  placeholder="No cap"
+                  className="h-9 tabular-nums"
+                />
+              </div>
+              <Button onClick={handleAdd} disabled={adding || !form.leader_address.trim()} variant="glow">
+                {adding ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Follow
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Leaders */}
+        <Card className="glass">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Leaders</CardTitle>
+            <CardDescription>Performance is computed from the leader's own swaps since you started following</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : leaders.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Not following any wallets yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Leader</TableHead>
+                    <TableHead>Sizing</TableHead>
+                    <TableHead className="text-right">Buys / Sells</TableHead>
+                    <TableHead className="text-right">Win rate</TableHead>
+                    <TableHead className="text-right">Realized PnL</TableHead>
+                    <TableHead className="text-right">Last poll</TableHead>
+                    <TableHead className="text-right">Active</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaders.map((leader) => {
+                    const pnl = leader.stats.realizedPnlSol ?? 0;
+                    return (
+                      <TableRow key={leader.id}>
+                        <TableCell>
+                          <div className="font-medium">{leader.label || shortAddress(leader.leader_address)}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{shortAddress(leader.leader_address)}</div>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{describeSizing(leader)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {leader.stats.buys ?? 0} / {leader.stats.sells ?? 0}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {leader.stats.winRate != null ? `${leader.stats.winRate.toFixed(0)}%` : "—"}
+                        </TableCell>
+                        <TableCell className={cn("text-right font-mono", pnl > 0 ? "text-success" : pnl < 0 ? "text-destructive" : "")}>
+                          {pnl >= 0 ? "+" : ""}{pnl.toFixed(3)} SOL
+                        </TableCell>
+                        <TableCell className="text-right text-xs text-muted-foreground">
+                          {leader.last_polled_at ? formatDistanceToNow(new Date(leader.last_polled_at), { addSuffix: true }) : "never"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Switch
+                            checked={leader.is_active}
+                            onCheckedChange={(checked) => updateLeader(leader.id, { is_active: checked })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            onClick={() => removeLeader(leader.id)}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Recent leader activity */}
+        <Card className="glass">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Recent leader trades</CardTitle>
+            <CardDescription>Signaled buys appear in the trade signal panel on the scanner</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {tradesLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : trades.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No leader trades detected yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Leader</TableHead>
+                    <TableHead>Token</TableHead>
+                    <TableHead className="text-right">Leader size</TableHead>
+                    <TableHead className="text-right">Copy size</TableHead>
+                    <TableHead>Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trades.map((trade) => (
+                    <TableRow key={trade.id}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatDistanceToNow(new Date(trade.block_time || trade.created_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-xs">{trade.leader_name || shortAddress(trade.leader_address)}</TableCell>
+                      <TableCell>
+                        <Badge variant={trade.action === "buy" ? "default" : "secondary"} className="mr-2 text-[10px] uppercase">
+                          {trade.action}
+                        </Badge>
+                        <span className="font-medium">{trade.token_symbol}</span>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {trade.sol_amount != null ? `${Number(trade.sol_amount).toFixed(3)} SOL` : "—"}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {trade.copy_amount_sol != null ? `${Number(trade.copy_amount_sol).toFixed(3)} SOL` : "—"}
+                      </TableCell>
+                      <TableCell className="text-xs max-w-[280px]">
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            "text-[10px] mr-2",
+                            trade.status === "signaled" || trade.status === "executed" ? "text-success border-success/40" : "text-muted-foreground"
+                          )}
+                        >
+                          {trade.status}
+                        </Badge>
+                        <span className="text-muted-foreground">
+                          {trade.reasons?.length ? trade.reasons[trade.reasons.length - 1] : ""}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+});
+
+CopyTrading.displayName = 'CopyTrading';
+
+export default CopyTrading;
@@ -7,6 +7,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useSniperSettings } from "@/hooks/useSniperSettings";
 import { useWallet } from "@/hooks/useWallet";
 import { isValidSolanaAddress } from "@/lib/sniperValidation";
+import { validateExitPlan } from "@/lib/exitPlan";
+import ExitPlanEditor from "@/components/trading/ExitPlanEditor";
+import EntryRulesEditor from "@/components/trading/EntryRulesEditor";
+import GuardianSettingsEditor from "@/components/trading/GuardianSettingsEditor";
+import { DEFAULT_GUARDIAN_CONFIG } from "@shared/position-guardian";
+import CurveEntrySettingsEditor from "@/components/trading/CurveEntrySettingsEditor";
+import { DEFAULT_CURVE_ENTRY_CONFIG } from "@shared/pump-curve";
+import { useRecentDiscoveries } from "@/hooks/useRecentDiscoveries";
+import { parseRule } from "@shared/rule-dsl";
 import {
   Save,
   Loader2,
@@ -16,12 +25,17 @@ import {
   Star,
   Info,
   ListFilter,
+  TrendingUp,
+  Filter,
+  Siren,
+  Rocket,
 } from "lucide-react";
 import { toast } from "sonner";
 
 const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSniperSettings(_props, ref) {
   const { settings, loading, saving, saveSettings, updateField } = useSniperSettings();
   const { wallet, connectPhantom, disconnect } = useWallet();
+  const { discoveries, loading: discoveriesLoading } = useRecentDiscoveries();
   const [newBlacklistToken, setNewBlacklistToken] = useState('');
   const [newWhitelistToken, setNewWhitelistToken] = useState('');
 
@@ -35,6 +49,18 @@ const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSnipe
 
   const handleSave = async () => {
     if (!settings) return;
+    if (settings.exit_plan) {
+      const { valid, errors } = validateExitPlan(settings.exit_plan);
+      if (!valid) {
+        toast.error(errors[0]);
+        return;
+      }
+    }
+    const invalidRule = (settings.entry_rules || []).find(r => r.enabled && !parseRule(r.expression).ok);
+    if (invalidRule) {
+      toast.error(`Fix or disable the invalid entry rule: ${invalidRule.expression || '(empty)'}`);
+      return;
+    }
     try {
       await saveSettings(settings);
     } catch {
@@ -269,6 +295,85 @@ const MemeSniperSettings = forwardRef<HTMLDivElement, object>(function MemeSnipe
               </CardContent>
             </Card>
         </div>
+
+          {/* Exit Plan */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5 text-primary" />
+                Exit Plan
+              </CardTitle>
+              <CardDescription>
+                Trailing stop and take-profit ladder applied to new positions. Each position can override it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ExitPlanEditor
+                plan={settings.exit_plan ?? null}
+                onChange={(plan) => updateField('exit_plan', plan)}
+                fallbackLabel={`Fixed TP +${settings.profit_take_percentage}% / SL -${settings.stop_loss_percentage}%`}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Position Guardian */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Siren className="h-5 w-5 text-destructive" />
+                Position Guardian
+              </CardTitle>
+              <CardDescription>
+                Watches each open position's pool, creator wallet and top holders, and exits before a rug shows up in the price.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <GuardianSettingsEditor
+                config={settings.guardian_config ?? DEFAULT_GUARDIAN_CONFIG}
+                onChange={(config) => updateField('guardian_config', config)}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Bonding-curve entries */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Rocket className="h-5 w-5 text-primary" />
+                Pump.fun Curve Entries
+              </CardTitle>
+              <CardDescription>
+                Buys tokens still on their bonding curve when progress and price impact are inside these limits.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CurveEntrySettingsEditor
+                config={settings.curve_entry ?? DEFAULT_CURVE_ENTRY_CONFIG}
+                onChange={(config) => updateField('curve_entry', config)}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Entry Rules */}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="h-5 w-5 text-primary" />
+                Entry Rules
+              </CardTitle>
+              <CardDescription>
+                Custom conditions a token must meet, on top of the built-in checks, before the bot buys it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EntryRulesEditor
+                rules={settings.entry_rules || []}
+                onChange={(rules) => updateField('entry_rules', rules)}
+                samples={discoveries}
+                samplesLoading={discoveriesLoading}
+              />
+            </CardContent>
+          </Card>
       </div>
     </AppLayout>
   );
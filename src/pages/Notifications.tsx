@@ -18,6 +18,7 @@ import {
   Filter,
 } from "lucide-react";
 import { useNotifications, Notification } from "@/hooks/useNotifications";
+import NotificationChannelsPanel from "@/components/notifications/NotificationChannelsPanel";
 import { formatDistanceToNow, format } from "date-fns";
 import { cn } from "@/lib/utils";
 
@@ -246,6 +247,10 @@ const Notifications = forwardRef<HTMLDivElement, object>(function Notifications(
             )}
           </TabsContent>
         </Tabs>
+
+        <div className="mt-8">
+          <NotificationChannelsPanel />
+        </div>
       </div>
     </AppLayout>
   );
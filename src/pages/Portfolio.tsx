@@ -1,4 +1,5 @@
 import React, { useState, useMemo } from "react";
+import { Link } from "react-router-dom";
 import AppLayout from "@/components/layout/AppLayout";
 import { useWallet } from "@/hooks/useWallet";
 import { Button } from "@/components/ui/button";
@@ -13,6 +14,7 @@ import { useDisplayUnit } from "@/contexts/DisplayUnitContext";
 import SolTradesBanner from "@/components/dashboard/SolTradesBanner";
 import { TransactionHistory } from "@/components/portfolio/TransactionHistory";
 import { isPlaceholderTokenText } from "@/lib/dexscreener";
+import { getExitActionShortLabel } from "@/lib/exitPlan";
 import { 
   TrendingUp, 
   TrendingDown,
@@ -58,11 +60,16 @@ const getExitReasonDisplay = (reason: string | null | undefined) => {
   if (!reason) return { label: 'Manual', icon: XCircle, color: 'text-muted-foreground' };
   switch (reason) {
     case 'take_profit': return { label: 'Take Profit', icon: CheckCircle, color: 'text-green-500' };
+    case 'trailing_stop': return { label: 'Trailing Stop', icon: CheckCircle, color: 'text-green-500' };
     case 'stop_loss': return { label: 'Stop Loss', icon: AlertTriangle, color: 'text-red-500' };
     case 'sold_externally': return { label: 'External Sale', icon: ArrowUpRight, color: 'text-blue-500' };
     case 'force_closed_manual': 
     case 'force_closed_cleanup': return { label: 'Force Closed', icon: XCircle, color: 'text-orange-500' };
     case 'force_closed_dead_token': return { label: 'Dead Token', icon: AlertTriangle, color: 'text-red-500' };
+    case 'emergency_liquidity_drop': return { label: 'Liquidity Drop', icon: AlertTriangle, color: 'text-red-500' };
+    case 'emergency_lp_removed': return { label: 'LP Removed', icon: AlertTriangle, color: 'text-red-500' };
+    case 'emergency_dev_sell': return { label: 'Dev Sell', icon: AlertTriangle, color: 'text-red-500' };
+    case 'emergency_holder_dump': return { label: 'Holder Dump', icon: AlertTriangle, color: 'text-red-500' };
     default: return { label: reason.replace(/_/g, ' '), icon: XCircle, color: 'text-muted-foreground' };
   }
 };
@@ -309,15 +316,23 @@ function Portfolio() {
               {lastExitCheck && ` • Last check: ${formatDistanceToNow(new Date(lastExitCheck), { addSuffix: true })}`}
             </p>
           </div>
-          <Button
-            variant="glow"
-            onClick={() => fetchPositions(true)}
-            disabled={loading}
-            className="shrink-0 h-9 md:h-10"
-          >
-            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
-            Refresh
-          </Button>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button variant="outline" asChild className="h-9 md:h-10">
+              <Link to="/portfolio/analytics">
+                <BarChart3 className="w-4 h-4" />
+                Performance
+              </Link>
+            </Button>
+            <Button
+              variant="glow"
+              onClick={() => fetchPositions(true)}
+              disabled={loading}
+              className="h-9 md:h-10"
+            >
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* SOL Trades Banner */}
@@ -484,7 +499,7 @@ function Portfolio() {
                 <div className="flex flex-wrap gap-2">
                   {pendingExits.map((exit, idx) => (
                     <Badge key={idx} className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
-                      {exit.symbol}: {exit.action === 'take_profit' ? 'TP' : 'SL'} @ {exit.profitLossPercent.toFixed(2)}%
+                      {exit.symbol}: {getExitActionShortLabel(exit.action)} @ {exit.profitLossPercent.toFixed(2)}%
                     </Badge>
                   ))}
                 </div>
@@ -499,12 +514,12 @@ function Portfolio() {
                   {recentExits.map((exit, idx) => (
                     <Badge
                       key={idx}
-                      className={exit.action === 'take_profit' 
+                      className={exit.action === 'take_profit' || exit.action === 'partial_take_profit' || exit.profitLossPercent >= 0
                         ? 'bg-green-500/20 text-green-400 border-green-500/30'
                         : 'bg-red-500/20 text-red-400 border-red-500/30'
                       }
                     >
-                      {exit.symbol}: {exit.action === 'take_profit' ? 'TP' : 'SL'} @ {exit.profitLossPercent.toFixed(2)}%
+                      {exit.symbol}: {getExitActionShortLabel(exit.action)} @ {exit.profitLossPercent.toFixed(2)}%
                       {exit.executed && ' ✓'}
                     </Badge>
                   ))}
@@ -0,0 +1,287 @@
+import { forwardRef } from "react";
+import { Link } from "react-router-dom";
+import AppLayout from "@/components/layout/AppLayout";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { BarChart3, Loader2, RefreshCw, ArrowLeft } from "lucide-react";
+import { format } from "date-fns";
+import { usePortfolioAnalytics } from "@/hooks/usePortfolioAnalytics";
+import { useDisplayUnit } from "@/contexts/DisplayUnitContext";
+import type { ClosedTrade, GroupStats, PnlAmount } from "@/lib/portfolioAnalytics";
+import { cn } from "@/lib/utils";
+
+function formatHold(ms: number | null) {
+  if (ms === null) return "—";
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${(rate * 100).toFixed(1)}%`);
+
+const formatFactor = (factor: number | null, wins: number) => {
+  if (factor !== null) return factor.toFixed(2);
+  return wins > 0 ? "∞" : "—";
+};
+
+const pnlClass = (value: number) => (value > 0 ? "text-success" : value < 0 ? "text-destructive" : "text-muted-foreground");
+
+function MetricCard({ label, value, detail, className }: { label: string; value: string; detail?: string; className?: string }) {
+  return (
+    <Card className="glass">
+      <CardContent className="p-4">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className={cn("text-xl font-bold font-mono mt-1", className)}>{value}</p>
+        {detail && <p className="text-xs text-muted-foreground mt-0.5 truncate">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BreakdownTable({
+  groups,
+  groupLabel,
+  money,
+}: {
+  groups: GroupStats[];
+  groupLabel: string;
+  money: (amount: PnlAmount) => { primary: string; secondary: string };
+}) {
+  if (groups.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">No closed trades yet</p>;
+  }
+
+  const tradeCell = (trade: ClosedTrade | null) =>
+    trade ? (
+      <span className={pnlClass(trade.pnl.usd)}>
+        {trade.symbol} {money(trade.pnl).primary}
+      </span>
+    ) : (
+      "—"
+    );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{groupLabel}</TableHead>
+          <TableHead className="text-right">Trades</TableHead>
+          <TableHead className="text-right">Win rate</TableHead>
+          <TableHead className="text-right">Profit factor</TableHead>
+          <TableHead className="text-right">Realized</TableHead>
+          <TableHead className="text-right">Avg hold</TableHead>
+          <TableHead className="text-right">Best</TableHead>
+          <TableHead className="text-right">Worst</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map((group) => (
+          <TableRow key={group.key}>
+            <TableCell className="capitalize">{group.label}</TableCell>
+            <TableCell className="font-mono text-right">{group.trades}</TableCell>
+            <TableCell className="font-mono text-right">{formatRate(group.winRate)}</TableCell>
+            <TableCell className="font-mono text-right">{formatFactor(group.profitFactor, group.wins)}</TableCell>
+            <TableCell className={cn("font-mono text-right", pnlClass(group.realized.usd))}>
+              {money(group.realized).primary}
+            </TableCell>
+            <TableCell className="font-mono text-right">{formatHold(group.avgHoldMs)}</TableCell>
+            <TableCell className="font-mono text-right text-xs">{tradeCell(group.best)}</TableCell>
+            <TableCell className="font-mono text-right text-xs">{tradeCell(group.worst)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+const PortfolioAnalytics = forwardRef<HTMLDivElement, object>(function PortfolioAnalytics(_props, ref) {
+  const { analytics, loading, error, refetch } = usePortfolioAnalytics();
+  const { displayUnit, formatDualValue, formatSolNativeValue } = useDisplayUnit();
+
+  // SOL figures come from each position's entry size, not from converting the USD P&L
+  const money = (amount: PnlAmount) => {
+    const usd = formatDualValue(amount.usd, { showSign: true });
+    const sol = formatSolNativeValue(amount.sol, { showSign: true });
+    return displayUnit === "SOL"
+      ? { primary: sol.primary, secondary: usd.secondary }
+      : { primary: usd.primary, secondary: sol.primary };
+  };
+
+  const curveKey = displayUnit === "SOL" ? "sol" : "usd";
+
+  const { overall, realized, partialRealized, unrealized } = analytics;
+  const realizedText = money(realized);
+  const unrealizedText = money(unrealized);
+
+  return (
+    <AppLayout>
+      <div ref={ref} className="container mx-auto px-4 space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 border border-primary/10">
+              <BarChart3 className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Performance</h1>
+              <p className="text-sm text-muted-foreground">
+                Equity curve and trade statistics from your positions and trade history
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {error && <Badge variant="destructive">{error}</Badge>}
+            <Button variant="outline" size="sm" asChild className="gap-2">
+              <Link to="/portfolio">
+                <ArrowLeft className="w-3.5 h-3.5" />
+                Portfolio
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={loading} className="gap-2">
+              {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <MetricCard
+            label="Realized P&L"
+            value={realizedText.primary}
+            detail={
+              partialRealized.usd !== 0
+                ? `${realizedText.secondary} · ${money(partialRealized).primary} from partial exits`
+                : realizedText.secondary
+            }
+            className={pnlClass(realized.usd)}
+          />
+          <MetricCard
+            label="Unrealized P&L"
+            value={unrealizedText.primary}
+            detail={`${unrealizedText.secondary} · ${analytics.openPositions} open`}
+            className={pnlClass(unrealized.usd)}
+          />
+          <MetricCard
+            label="Win rate"
+            value={formatRate(overall.winRate)}
+            detail={`${overall.wins}W / ${overall.losses}L of ${overall.trades} closed`}
+          />
+          <MetricCard label="Profit factor" value={formatFactor(overall.profitFactor, overall.wins)} detail="Gross profit / gross loss" />
+          <MetricCard label="Avg hold time" value={formatHold(overall.avgHoldMs)} />
+          <MetricCard
+            label="Best trade"
+            value={overall.best ? money(overall.best.pnl).primary : "—"}
+            detail={overall.best ? `${overall.best.symbol} · ${overall.best.pnlPercent.toFixed(1)}%` : undefined}
+            className={overall.best ? pnlClass(overall.best.pnl.usd) : undefined}
+          />
+          <MetricCard
+            label="Worst trade"
+            value={overall.worst ? money(overall.worst.pnl).primary : "—"}
+            detail={overall.worst ? `${overall.worst.symbol} · ${overall.worst.pnlPercent.toFixed(1)}%` : undefined}
+            className={overall.worst ? pnlClass(overall.worst.pnl.usd) : undefined}
+          />
+          <MetricCard label="Closed trades" value={`${overall.trades}`} />
+        </div>
+
+        {/* Equity curve */}
+        <Card className="glass">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Equity Curve</CardTitle>
+            <CardDescription>
+              Cumulative realized P&L in {displayUnit} at each exit; the last point includes open positions
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.equityCurve.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-16 text-center">No trades yet</p>
+            ) : (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={analytics.equityCurve} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      domain={["dataMin", "dataMax"]}
+                      tickFormatter={(value: number) => format(new Date(value), "MMM d")}
+                      tick={{ fill: "hsl(215, 20%, 55%)", fontSize: 10 }}
+                      axisLine={false}
+                      tickLine={false}
+                    />
+                    <YAxis
+                      tickFormatter={(value: number) => value.toFixed(displayUnit === "SOL" ? 2 : 0)}
+                      tick={{ fill: "hsl(215, 20%, 55%)", fontSize: 10 }}
+                      axisLine={false}
+                      tickLine={false}
+                      width={50}
+                    />
+                    <ReferenceLine y={0} stroke="hsl(215, 20%, 35%)" strokeDasharray="3 3" />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(220, 20%, 10%)",
+                        border: "1px solid hsl(220, 15%, 20%)",
+                        borderRadius: "8px",
+                      }}
+                      labelFormatter={(value: number) => format(new Date(value), "MMM d, HH:mm")}
+                      formatter={(value: number) => [
+                        displayUnit === "SOL"
+                          ? formatSolNativeValue(value, { showSign: true }).primary
+                          : formatDualValue(value, { showSign: true }).primary,
+                        "Equity",
+                      ]}
+                    />
+                    <Line
+                      type="stepAfter"
+                      dataKey={curveKey}
+                      stroke="hsl(160, 100%, 50%)"
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Breakdowns */}
+        <Card className="glass">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Breakdown</CardTitle>
+            <CardDescription>Closed trades split by how they were found and how they ended</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="source">
+              <TabsList>
+                <TabsTrigger value="source">Discovery source</TabsTrigger>
+                <TabsTrigger value="exit">Exit reason</TabsTrigger>
+                <TabsTrigger value="buyer">Buyer position</TabsTrigger>
+              </TabsList>
+              <TabsContent value="source">
+                <BreakdownTable groups={analytics.bySource} groupLabel="Source" money={money} />
+              </TabsContent>
+              <TabsContent value="exit">
+                <BreakdownTable groups={analytics.byExitReason} groupLabel="Exit reason" money={money} />
+              </TabsContent>
+              <TabsContent value="buyer">
+                <BreakdownTable groups={analytics.byBuyerBucket} groupLabel="Buyer position" money={money} />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+});
+
+PortfolioAnalytics.displayName = 'PortfolioAnalytics';
+
+export default PortfolioAnalytics;
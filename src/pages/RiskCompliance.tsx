@@ -9,7 +9,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useRiskCompliance, RiskCheckLog } from "@/hooks/useRiskCompliance";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRiskCompliance, RiskCheckLog, BREAKER_LEVEL_LABELS } from "@/hooks/useRiskCompliance";
+import CircuitBreakerTrips from "@/components/risk/CircuitBreakerTrips";
+import type { BreakerAction, BreakerStrategy, BreakerUnit } from "@shared/circuit-breaker";
 import { formatDistanceToNow } from "date-fns";
 import {
   Shield,
@@ -34,23 +37,88 @@ import {
   AlertOctagon,
 } from "lucide-react";
 
+const TAX_SOURCE_LABELS: Record<string, string> = {
+  simulation: "Simulated round trip",
+  api: "Reported by API",
+  default: "Not measured",
+};
+
+const BREAKER_ACTION_LABELS: Record<BreakerAction, string> = {
+  reduce_size: "Reduce size",
+  pause_entries: "Pause entries",
+  emergency_stop: "Emergency stop",
+};
+
+const STRATEGY_LIMIT_LABELS: Partial<Record<BreakerStrategy, string>> = {
+  sniper: "Auto-sniper",
+  copy_trade: "Copy trading",
+  manual: "Manual",
+};
+
+// Commits on blur so partially typed decimals ("0.") are not saved; empty disables the limit
+function LimitInput({ value, onCommit, disabled, placeholder = "Off" }: {
+  value: number | null;
+  onCommit: (value: number | null) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}) {
+  return (
+    <Input
+      key={value ?? "off"}
+      type="number"
+      min={0}
+      step="any"
+      defaultValue={value ?? ""}
+      placeholder={placeholder}
+      onBlur={(e) => {
+        const parsed = parseFloat(e.target.value);
+        const next = Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+        if (next !== value) onCommit(next);
+      }}
+      disabled={disabled}
+    />
+  );
+}
+
+function ActionSelect({ value, onChange, disabled }: { value: BreakerAction; onChange: (value: BreakerAction) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as BreakerAction)} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(BREAKER_ACTION_LABELS) as BreakerAction[]).map((action) => (
+          <SelectItem key={action} value={action}>{BREAKER_ACTION_LABELS[action]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskCompliance(_props, ref) {
   const {
     settings,
     loading,
     checkLoading,
     logs,
+    breakerStatus,
+    breakerTrips,
     updateSettings,
+    updateBreakerConfig,
     toggleEmergencyStop,
     resetCircuitBreaker,
     checkTokens,
     fetchLogs,
+    fetchBreakerStatus,
     isEmergencyStopActive,
     isCircuitBreakerTriggered,
   } = useRiskCompliance();
 
   const [tokenAddress, setTokenAddress] = useState("");
   const [checkResult, setCheckResult] = useState<any>(null);
+  const breakerConfig = settings.circuit_breaker_config;
+  const breakerLevel = breakerStatus?.level ?? settings.circuit_breaker_level;
+  const breakerDisabled = loading || !settings.circuit_breaker_enabled;
 
   const handleManualCheck = async () => {
     if (!tokenAddress.trim()) return;
@@ -133,8 +201,12 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                   <div className="flex items-center gap-3">
                     <Zap className="w-8 h-8 text-yellow-500" />
                     <div>
-                      <p className="font-bold text-yellow-500">Circuit Breaker Triggered</p>
-                      <p className="text-sm text-muted-foreground">Trading paused due to loss threshold</p>
+                      <p className="font-bold text-yellow-500">Circuit Breaker: {BREAKER_LEVEL_LABELS[breakerLevel]}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {breakerStatus?.reason || "Loss limit reached"}
+                        {breakerStatus?.cooldownUntil &&
+                          ` · holds until ${new Date(breakerStatus.cooldownUntil).toLocaleTimeString()}`}
+                      </p>
                     </div>
                   </div>
                   <Button 
@@ -180,7 +252,7 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                   <div>
                     <p className="text-xs text-muted-foreground">Circuit Breaker</p>
                     <p className="font-semibold text-foreground">
-                      {isCircuitBreakerTriggered ? 'Triggered' : 'Ready'}
+                      {BREAKER_LEVEL_LABELS[breakerLevel]}
                     </p>
                   </div>
                 </div>
@@ -227,6 +299,9 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
               <TabsTrigger value="logs" className="flex items-center gap-2">
                 <History className="w-4 h-4" /> Check History
               </TabsTrigger>
+              <TabsTrigger value="breaker" className="flex items-center gap-2">
+                <Zap className="w-4 h-4" /> Breaker Trips
+              </TabsTrigger>
             </TabsList>
 
             {/* Token Check Tab */}
@@ -306,6 +381,9 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                               <span className="text-muted-foreground text-xs">
                                 Buy: {checkResult.results[0].checks.taxCheck.buyTax}% | Sell: {checkResult.results[0].checks.taxCheck.sellTax}%
                               </span>
+                              <Badge variant="outline" className="text-[10px]">
+                                {TAX_SOURCE_LABELS[checkResult.results[0].checks.taxCheck.source] ?? 'Not measured'}
+                              </Badge>
                               <CheckIcon passed={checkResult.results[0].checks.taxCheck.passed} />
                             </span>
                           </div>
@@ -487,7 +565,7 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                       Circuit Breaker Settings
                     </CardTitle>
                     <CardDescription>
-                      Automatically pause trading after significant losses
+                      Measures realized and open losses in SOL or USD and responds in steps: smaller entries, paused entries, then a full emergency stop
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-6">
@@ -508,25 +586,137 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
 
                     <div className="grid md:grid-cols-2 gap-6">
                       <div className="space-y-3">
+                        <Label>Measure Losses In</Label>
+                        <Select
+                          value={breakerConfig.unit}
+                          onValueChange={(v) => updateBreakerConfig({ unit: v as BreakerUnit })}
+                          disabled={breakerDisabled}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="sol">SOL</SelectItem>
+                            <SelectItem value="usd">USD</SelectItem>
+                          </SelectContent>
+                        </Select>
                         <div className="flex items-center justify-between">
-                          <Label>Loss Threshold (%)</Label>
-                          <span className="font-mono text-red-500">{settings.circuit_breaker_loss_threshold}%</span>
+                          <p className="text-xs text-muted-foreground">Count open positions' unrealized loss</p>
+                          <Switch
+                            checked={breakerConfig.include_unrealized}
+                            onCheckedChange={(checked) => updateBreakerConfig({ include_unrealized: checked })}
+                            disabled={breakerDisabled}
+                          />
+                        </div>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>Hourly Loss Limit ({breakerConfig.unit.toUpperCase()})</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <LimitInput
+                            value={breakerConfig.hourly_loss_limit}
+                            onCommit={(v) => updateBreakerConfig({ hourly_loss_limit: v })}
+                            disabled={breakerDisabled}
+                          />
+                          <ActionSelect
+                            value={breakerConfig.hourly_action}
+                            onChange={(v) => updateBreakerConfig({ hourly_action: v })}
+                            disabled={breakerDisabled}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">Net loss over the last 60 minutes</p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>Daily Loss Limit ({breakerConfig.unit.toUpperCase()})</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <LimitInput
+                            value={breakerConfig.daily_loss_limit}
+                            onCommit={(v) => updateBreakerConfig({ daily_loss_limit: v })}
+                            disabled={breakerDisabled}
+                          />
+                          <ActionSelect
+                            value={breakerConfig.daily_action}
+                            onChange={(v) => updateBreakerConfig({ daily_action: v })}
+                            disabled={breakerDisabled}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">Net loss over the last 24 hours</p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>Consecutive Losses</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <LimitInput
+                            value={breakerConfig.max_consecutive_losses}
+                            onCommit={(v) => updateBreakerConfig({ max_consecutive_losses: v === null ? null : Math.round(v) })}
+                            disabled={breakerDisabled}
+                          />
+                          <ActionSelect
+                            value={breakerConfig.streak_action}
+                            onChange={(v) => updateBreakerConfig({ streak_action: v })}
+                            disabled={breakerDisabled}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">Losing closes in a row, of any size</p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <Label>Reduce Size Near Limits</Label>
+                          <span className="font-mono text-yellow-500">
+                            at {breakerConfig.reduce_at_percent}% → {Math.round(breakerConfig.reduce_size_factor * 100)}% size
+                          </span>
                         </div>
                         <Slider
-                          value={[settings.circuit_breaker_loss_threshold]}
-                          onValueChange={([value]) => updateSettings({ circuit_breaker_loss_threshold: value })}
+                          key={`at-${breakerConfig.reduce_at_percent}`}
+                          defaultValue={[breakerConfig.reduce_at_percent]}
+                          onValueCommit={([value]) => updateBreakerConfig({ reduce_at_percent: value })}
                           max={100}
-                          min={5}
+                          min={10}
                           step={5}
-                          disabled={loading || !settings.circuit_breaker_enabled}
+                          disabled={breakerDisabled}
+                        />
+                        <Slider
+                          key={`size-${breakerConfig.reduce_size_factor}`}
+                          defaultValue={[breakerConfig.reduce_size_factor * 100]}
+                          onValueCommit={([value]) => updateBreakerConfig({ reduce_size_factor: value / 100 })}
+                          max={100}
+                          min={10}
+                          step={5}
+                          disabled={breakerDisabled}
                         />
                         <p className="text-xs text-muted-foreground">
-                          Cumulative loss that triggers the circuit breaker
+                          Once losses reach this share of the hourly or daily limit, new entries are scaled down
                         </p>
                       </div>
 
                       <div className="space-y-3">
-                        <Label>Time Window (minutes)</Label>
+                        <Label>Per-Strategy Daily Limits ({breakerConfig.unit.toUpperCase()})</Label>
+                        <div className="grid grid-cols-3 gap-2">
+                          {(Object.keys(STRATEGY_LIMIT_LABELS) as BreakerStrategy[]).map((strategy) => (
+                            <div key={strategy} className="space-y-1">
+                              <p className="text-xs text-muted-foreground">{STRATEGY_LIMIT_LABELS[strategy]}</p>
+                              <LimitInput
+                                value={breakerConfig.strategy_loss_limits[strategy] ?? null}
+                                onCommit={(v) => {
+                                  const limits = { ...breakerConfig.strategy_loss_limits };
+                                  if (v === null) delete limits[strategy];
+                                  else limits[strategy] = v;
+                                  updateBreakerConfig({ strategy_loss_limits: limits });
+                                }}
+                                disabled={breakerDisabled}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Pauses only that strategy's entries; positions are attributed by trading wallet
+                        </p>
+                      </div>
+
+                      <div className="space-y-3">
+                        <Label>Cooldown (minutes)</Label>
                         <Input
                           type="number"
                           value={settings.circuit_breaker_time_window_minutes}
@@ -544,7 +734,7 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                           disabled={loading || !settings.circuit_breaker_enabled}
                         />
                         <p className="text-xs text-muted-foreground">
-                          Period over which losses are calculated
+                          How long a tripped level holds after losses recover
                         </p>
                       </div>
                     </div>
@@ -613,6 +803,18 @@ const RiskCompliance = forwardRef<HTMLDivElement, object>(function RiskComplianc
                 </CardContent>
               </Card>
             </TabsContent>
+
+            {/* Circuit Breaker Trips Tab */}
+            <TabsContent value="breaker">
+              <CircuitBreakerTrips
+                status={breakerStatus}
+                trips={breakerTrips}
+                hourlyLimit={breakerConfig.hourly_loss_limit}
+                dailyLimit={breakerConfig.daily_loss_limit}
+                unit={breakerConfig.unit}
+                onRefresh={() => fetchBreakerStatus()}
+              />
+            </TabsContent>
           </Tabs>
         </div>
       </AppLayout>
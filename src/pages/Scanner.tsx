@@ -38,18 +38,27 @@ import { useDemoPortfolio } from "@/contexts/DemoPortfolioContext";
 import { useBotContext } from "@/contexts/BotContext";
 import { useDisplayUnit } from "@/contexts/DisplayUnitContext";
 import { useTokenStateManager } from "@/hooks/useTokenStateManager";
+import { usePoolStream } from "@/hooks/usePoolStream";
 
 import { reconcilePositionsWithPools } from "@/lib/positionMetadataReconciler";
 import { fetchDexScreenerTokenMetadata } from "@/lib/dexscreener";
 import { isPlaceholderText } from "@/lib/formatters";
-import { acquireSellLock, releaseSellLock, isSellLocked } from "@/lib/sellLock";
+import { buildRuleContext, evaluateEntryRules } from "@shared/rule-dsl";
+import { acquireSellLock, releaseSellLock, holdsSellLock } from "@/lib/sellLock";
 import { Wallet, TrendingUp, Zap, Activity, AlertTriangle, X, FlaskConical, Coins, RotateCcw, DollarSign } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { ToastAction } from "@/components/ui/toast";
 
+// Sniper priority setting → trade-execution priority fee level
+const PRIORITY_LEVELS: Record<string, PriorityLevel> = {
+  normal: 'medium',
+  fast: 'high',
+  turbo: 'veryHigh',
+};
+
 const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref) {
-  const { tokens, loading, scanTokens, errors, apiErrors, isDemo, cleanup, lastScanStats } = useTokenScanner();
+  const { tokens, loading, scanTokens, validateStreamedPools, errors, apiErrors, isDemo, cleanup, lastScanStats } = useTokenScanner();
   const { settings, saving, saveSettings, updateField } = useSniperSettings();
   const { evaluateTokens, result: sniperResult, loading: sniperLoading } = useAutoSniper();
   const { startAutoExitMonitor, stopAutoExitMonitor, isMonitoring } = useAutoExit();
@@ -68,7 +77,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   const { tokens: walletTokens, loading: loadingWalletTokens, refetch: refetchWalletTokens } = useWalletTokens({ minValueUsd: 0.01 });
   const { executeTrade, sellPosition } = useTradeExecution();
   const { snipeToken, exitPosition, status: engineStatus, isExecuting: engineExecuting } = useTradingEngine();
-  const { wallet, connectPhantom, disconnect, signAndSendTransaction, refreshBalance } = useWallet();
+  const { wallet, connectPhantom, disconnect, signAndSendTransaction, signAllTransactions, refreshBalance } = useWallet();
   const { openModal: openWalletModal } = useWalletModal();
   const { openPositions: realOpenPositions, closedPositions: realClosedPositions, fetchPositions, closePosition: markPositionClosed } = usePositions();
   const { toast } = useToast();
@@ -130,6 +139,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     markRejected,
     cleanupExpiredPending,
     getStateCounts,
+    getTokenState,
   } = useTokenStateManager();
 
   // Local aliases from bot context for easier access
@@ -348,8 +358,9 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     const position = realOpenPositions.find((p) => p.id === positionId);
     if (!position || !wallet.address) return;
 
-    // CRITICAL: Check if this token is already being sold
-    if (isSellLocked(position.token_address)) {
+    // CRITICAL: Acquire sell lock - auto-exit, another tab or another device may be selling it
+    const lease = await acquireSellLock(position, 'manual_sell');
+    if (!lease) {
       toast({
         title: 'Sell Already In Progress',
         description: `${position.token_symbol} is already being sold by another process. Please wait.`,
@@ -358,16 +369,6 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       return;
     }
 
-    // Acquire sell lock to prevent duplicate transactions
-    if (!acquireSellLock(position.token_address, 'manual_sell')) {
-      toast({
-        title: 'Sell Already In Progress',
-        description: `${position.token_symbol} is already being sold. Please wait.`,
-        variant: 'destructive',
-      });
-      return;
-    }
-
     const safeExitPrice = Number.isFinite(currentPrice) && currentPrice > 0
       ? currentPrice
       : (position.current_price ?? position.entry_price);
@@ -422,8 +423,18 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         position.token_address,
         tokenAmountToSell,
         wallet.address,
-        (tx) => signAndSendTransaction(tx),
-        { slippage: 0.15 } // 15% slippage for exits
+        async (tx) => {
+          // Never broadcast if the lease expired while the route was being built
+          if (!(await holdsSellLock(lease))) {
+            return { signature: '', success: false, error: 'Sell lock lost - another process took over this sell' };
+          }
+          return signAndSendTransaction(tx);
+        },
+        { slippage: 0.15 }, // 15% slippage for exits
+        async (txs) => {
+          if (!(await holdsSellLock(lease))) return null;
+          return signAllTransactions(txs);
+        }
       );
 
       if (result.success) {
@@ -446,7 +457,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
             variant: 'destructive',
           });
           await fetchPositions(true);
-          releaseSellLock(position.token_address);
+          await releaseSellLock(lease);
           return;
         }
 
@@ -494,7 +505,8 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
               remainingBalance,
               wallet.address!,
               (tx) => signAndSendTransaction(tx),
-              { slippage: 0.20 } // Higher slippage for cleanup
+              { slippage: 0.20 }, // Higher slippage for cleanup
+              signAllTransactions
             );
 
             if (retryResult.success) {
@@ -524,7 +536,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
 
               await fetchPositions(true);
               refreshBalance();
-              releaseSellLock(position.token_address);
+              await releaseSellLock(lease);
               return;
             }
           } catch (retryErr) {
@@ -543,7 +555,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
 
             await fetchPositions(true);
             refreshBalance();
-            releaseSellLock(position.token_address);
+            await releaseSellLock(lease);
             return;
           }
         }
@@ -600,7 +612,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         await fetchPositions(true);
         refreshBalance();
         setTimeout(() => refreshBalance(), 8000);
-        releaseSellLock(position.token_address);
+        await releaseSellLock(lease);
         return;
       }
 
@@ -673,7 +685,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
             
             await fetchPositions(true);
             refreshBalance();
-            releaseSellLock(position.token_address);
+            await releaseSellLock(lease);
             return;
           }
         } catch (raydiumErr) {
@@ -691,23 +703,23 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
 
         setNoRoutePosition(position);
         setShowNoRouteModal(true);
-        releaseSellLock(position.token_address);
+        await releaseSellLock(lease);
       } else if (isAlreadySoldError) {
         showForceCloseToast(
           "Token Not Found",
           "This position may have been sold externally. Mark it as closed?"
         );
-        releaseSellLock(position.token_address);
+        await releaseSellLock(lease);
       } else {
         toast({
           title: "Error closing position",
           description: errorMessage,
           variant: "destructive",
         });
-        releaseSellLock(position.token_address);
+        await releaseSellLock(lease);
       }
     } catch (err) {
-      releaseSellLock(position.token_address);
+      await releaseSellLock(lease);
       const message = err instanceof Error ? err.message : String(err);
       
       const isNoRouteError =
@@ -738,13 +750,14 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       }
       
       // Always release lock on error paths
-      releaseSellLock(position.token_address);
+      await releaseSellLock(lease);
     }
   }, [
     realOpenPositions,
     wallet.address,
     exitPosition,
     signAndSendTransaction,
+    signAllTransactions,
     fetchPositions,
     refreshBalance,
     markPositionClosed,
@@ -894,6 +907,19 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
     return () => clearInterval(interval);
   }, [scanSpeed, isPaused, isPoolScanningPaused, settings?.min_liquidity, scanTokens, isDemo]);
 
+  // Streaming discovery - new pools straight from program logs, between polling scans
+  const { status: poolStreamStatus } = usePoolStream({
+    enabled: isBotActive && !isDemo && !isPaused && !isPoolScanningPaused,
+    isKnown: (address) => getTokenState(address) !== null,
+    onPools: validateStreamedPools,
+  });
+
+  useEffect(() => {
+    if (poolStreamStatus === 'open') {
+      addBotLog({ level: 'info', category: 'system', message: 'Pool stream connected (logsSubscribe)' });
+    }
+  }, [poolStreamStatus]);
+
   // Log scan stats to bot activity when they update
   useEffect(() => {
     if (!lastScanStats || !isBotActive) return;
@@ -1065,6 +1091,15 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         liquidity: t.liquidity,
         riskScore: t.riskScore,
         buyerPosition: t.buyerPosition,
+        priceUsd: t.priceUsd,
+        holders: t.holders,
+        createdAt: t.createdAt,
+        freezeAuthority: t.freezeAuthority,
+        mintAuthority: t.mintAuthority,
+        hasSwapRoute: t.isTradeable,
+        liquidityLocked: t.liquidityLocked,
+        pairAddress: t.pairAddress,
+        isPumpFun: t.isPumpFun,
       })));
     }
 
@@ -1083,6 +1118,10 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       riskScore: t.riskScore,
       categories: [],
       priceUsd: t.priceUsd,
+      holders: t.holders,
+      marketCap: t.marketCap,
+      volume24h: t.volume24h,
+      createdAt: t.createdAt,
       isPumpFun: t.isPumpFun,
       isTradeable: t.isTradeable,
       canBuy: t.canBuy,
@@ -1106,6 +1145,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
       const targetPositions = settings.target_buyer_positions || [1, 2, 3, 4, 5];
       const minLiq = settings.min_liquidity || 5;
       const maxRisk = settings.max_risk_score || 70;
+      const entryRules = settings.entry_rules || [];
       
       const approvedToken = tokenData.find(t => 
         // Check buyer position OR allow if position is unknown (null)
@@ -1114,19 +1154,51 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         t.liquidity >= minLiq &&
         t.isTradeable !== false && // Must be tradeable
         t.canBuy !== false && // Must be buyable
-        t.canSell !== false // CRITICAL: Must be sellable to avoid stuck positions
+        t.canSell !== false && // CRITICAL: Must be sellable to avoid stuck positions
+        evaluateEntryRules(entryRules, buildRuleContext(t)).approved
       );
       
       if (approvedToken && settings.trade_amount && demoBalance >= settings.trade_amount) {
         // CRITICAL: Mark token as traded BEFORE execution to prevent race conditions
         tradedTokensRef.current.add(approvedToken.address);
         
-        deductBalance(settings.trade_amount);
-        const tradeAmountInDollars = settings.trade_amount * solPrice;
-        const entryPrice = approvedToken.priceUsd || 0.0001;
-        const amount = tradeAmountInDollars / entryPrice;
+        // Paper fill against the real quote: slippage, fees and failed landings included
+        const paperResult = await executeTrade(
+          {
+            inputMint: SOL_MINT,
+            outputMint: approvedToken.address,
+            amount: String(Math.round(settings.trade_amount * 1e9)),
+            slippageBps: Math.round((settings.slippage_tolerance ?? 15) * 100),
+            priorityLevel: PRIORITY_LEVELS[settings.priority] ?? 'medium',
+            tokenSymbol: approvedToken.symbol,
+            tokenName: approvedToken.name,
+            profitTakePercent: settings.profit_take_percentage,
+            stopLossPercent: settings.stop_loss_percentage,
+          },
+          wallet.address || '',
+          signAndSendTransaction
+        );
+        const fill = paperResult.paper?.fill;
+        if (fill) deductBalance(-fill.solDeltaLamports / 1e9);
+
+        if (!paperResult.success || !fill || !paperResult.quote) {
+          addBotLog({
+            level: 'warning',
+            category: 'trade',
+            message: `Paper trade failed: ${approvedToken.symbol}`,
+            tokenSymbol: approvedToken.symbol,
+            details: paperResult.error,
+          });
+          return;
+        }
+
+        const solSpent = -fill.solDeltaLamports / 1e9;
+        const tradeAmountInDollars = solSpent * solPrice;
+        const amount = paperResult.quote.outputAmountDecimal;
+        const entryPrice = paperResult.paper?.entryPriceUsd || tradeAmountInDollars / amount;
         
         const newPosition = addDemoPosition({
+          paper_position_id: paperResult.positionId ?? null,
           token_address: approvedToken.address,
           token_symbol: approvedToken.symbol,
           token_name: approvedToken.name,
@@ -1152,7 +1224,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
           category: 'trade',
           message: `Demo trade executed: ${approvedToken.symbol}`,
           tokenSymbol: approvedToken.symbol,
-          details: `Entry: $${entryPrice.toFixed(6)} | Amount: ${settings.trade_amount} SOL`,
+          details: `Entry: $${entryPrice.toFixed(6)} | Spent: ${solSpent.toFixed(4)} SOL | Slippage: ${fill.slippageBps} bps`,
         });
         
         toast({
@@ -1177,11 +1249,11 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
           
           if (pnlPercent >= settings.profit_take_percentage) {
             closeDemoPosition(newPosition.id, newPrice, 'take_profit');
-            addBalance(settings.trade_amount + (pnlValue / solPrice));
+            addBalance(solSpent + (pnlValue / solPrice));
             toast({ title: '💰 Take Profit Hit!', description: `Closed ${approvedToken.symbol} at +${pnlPercent.toFixed(1)}%` });
           } else if (pnlPercent <= -settings.stop_loss_percentage) {
             closeDemoPosition(newPosition.id, newPrice, 'stop_loss');
-            addBalance(settings.trade_amount + (pnlValue / solPrice));
+            addBalance(solSpent + (pnlValue / solPrice));
             toast({ title: '🛑 Stop Loss Hit', description: `Closed ${approvedToken.symbol} at ${pnlPercent.toFixed(1)}%`, variant: 'destructive' });
           }
         }, 5000 + Math.random() * 10000);
@@ -1347,7 +1419,8 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
             // Pass user's TP/SL settings for position persistence
             profitTakePercent: settings.profit_take_percentage,
             stopLossPercent: settings.stop_loss_percentage,
-          }
+          },
+          signAllTransactions
         );
 
         if (result?.status === 'SUCCESS' && result.position) {
@@ -1413,8 +1486,8 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
   }, [
     tokens, isBotActive, autoEntryEnabled, settings, isDemo, openPositions.length,
     wallet.isConnected, wallet.network, wallet.address, wallet.balance,
-    demoBalance, solPrice, evaluateTokens, snipeToken, recordTrade,
-    signAndSendTransaction, refreshBalance, fetchPositions, toast,
+    demoBalance, solPrice, evaluateTokens, snipeToken, executeTrade, recordTrade,
+    signAndSendTransaction, signAllTransactions, refreshBalance, fetchPositions, toast,
     deductBalance, addBalance, addDemoPosition, updateDemoPosition, closeDemoPosition,
     // Persistent token state manager functions
     tokenStatesInitialized, canTradeToken, cleanupExpiredPending, registerTokensBatch,
@@ -1494,6 +1567,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
           ? `Liquidity bot started in demo mode with ${demoBalance.toFixed(0)} SOL balance`
           : 'Liquidity bot started - will auto-trade and auto-exit when conditions are met',
         type: 'success',
+        event: 'bot_status',
       });
     } else {
       // Stop auto-exit monitors
@@ -1507,6 +1581,7 @@ const Scanner = forwardRef<HTMLDivElement, object>(function Scanner(_props, ref)
         title: 'Bot Deactivated',
         message: 'Liquidity bot has been stopped',
         type: 'info',
+        event: 'bot_status',
       });
     }
     
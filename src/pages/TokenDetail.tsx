@@ -31,8 +31,10 @@ import { Skeleton } from '@/components/ui/skeleton';
 import AppLayout from '@/components/layout/AppLayout';
 import { TokenTradingPanel } from '@/components/token/TokenTradingPanel';
 import { TokenSafetyInfo } from '@/components/token/TokenSafetyInfo';
+import { CreatorHistoryPanel } from '@/components/token/CreatorHistoryPanel';
 import { TokenPriceChart } from '@/components/token/TokenPriceChart';
 import { useToast } from '@/hooks/use-toast';
+import { useHolderAnalysis } from '@/hooks/useHolderAnalysis';
 import { useAppMode } from '@/contexts/AppModeContext';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -75,6 +77,7 @@ export default function TokenDetail() {
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const { analysis: holderAnalysis, loading: holderAnalysisLoading } = useHolderAnalysis(address);
 
   useEffect(() => {
     // Try to get token data from URL params (passed from scanner)
@@ -543,8 +546,13 @@ export default function TokenDetail() {
                 <TokenPriceChart token={token} />
               </TabsContent>
 
-              <TabsContent value="safety" className="mt-4">
-                <TokenSafetyInfo token={token} />
+              <TabsContent value="safety" className="mt-4 space-y-4">
+                <TokenSafetyInfo
+                  token={token}
+                  holderAnalysis={holderAnalysis}
+                  holderAnalysisLoading={holderAnalysisLoading}
+                />
+                <CreatorHistoryPanel tokenAddress={token.address} />
               </TabsContent>
 
               <TabsContent value="info" className="mt-4">
@@ -4,6 +4,7 @@ import { useWallet } from "@/hooks/useWallet";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
 import { WalletConnect } from "@/components/WalletConnect";
+import { TradingWalletsManager } from "@/components/wallet/TradingWalletsManager";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { useSniperSettings } from "@/hooks/useSniperSettings";
@@ -177,6 +178,9 @@ const UserSettings = forwardRef<HTMLDivElement, object>(function UserSettings(_p
             </div>
           </div>
 
+          {/* Trading Wallets */}
+          <TradingWalletsManager />
+
           {/* Token Lists Grid */}
           <div className="grid md:grid-cols-2 gap-6">
             {/* Blacklist */}
@@ -0,0 +1,134 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  API_PROBES,
+  PROBE_CONFIG,
+  parseProbeRows,
+  probeEntryGate,
+  runProbe,
+  summarizeProbe,
+  summarizeProbes,
+  type ProbeId,
+  type ProbeSample,
+} from "@shared/api-probes";
+import type { FetchLike } from "@shared/rpc-pool";
+
+const NOW = 1_700_000_000_000;
+const probe = (id: ProbeId) => API_PROBES.find((p) => p.id === id)!;
+
+// One sample per minute, oldest first, ending at NOW
+function history(id: ProbeId, runs: (number | "fail")[]): ProbeSample[] {
+  return runs.map((run, i) => ({
+    probe: id,
+    latencyMs: run === "fail" ? 8000 : run,
+    success: run !== "fail",
+    statusCode: run === "fail" ? 503 : 200,
+    error: run === "fail" ? "HTTP 503" : null,
+    checkedAt: NOW - (runs.length - 1 - i) * 60_000,
+  }));
+}
+
+const noRpc = async () => {
+  throw new Error("unexpected rpc call");
+};
+
+describe("runProbe", () => {
+  it("fails a quote that answers 200 without a route", async () => {
+    const fetchImpl: FetchLike = async () => new Response(JSON.stringify({ outAmount: "0" }), { status: 200 });
+
+    const sample = await runProbe(probe("jupiter_quote"), { rpc: noRpc, fetchImpl });
+
+    expect(sample).toMatchObject({ success: false, statusCode: 200, error: "Quote returned no output amount" });
+  });
+
+  it("checks the known mint comes back from the lookup", async () => {
+    const fetchImpl: FetchLike = async (url) =>
+      new Response(JSON.stringify({ mint: String(url).split("/").pop() }), { status: 200 });
+
+    expect((await runProbe(probe("pumpfun_lookup"), { rpc: noRpc, fetchImpl })).success).toBe(true);
+  });
+
+  it("records RPC errors as failed samples instead of throwing", async () => {
+    let clock = NOW;
+    const sample = await runProbe(probe("rpc_slot"), {
+      rpc: async () => {
+        clock += 120;
+        throw new Error("All RPC endpoints failed");
+      },
+      now: () => clock,
+    });
+
+    expect(sample).toEqual({
+      probe: "rpc_slot",
+      latencyMs: 120,
+      success: false,
+      statusCode: 0,
+      error: "All RPC endpoints failed",
+      checkedAt: NOW,
+    });
+  });
+});
+
+describe("summarizeProbe", () => {
+  it("is online when recent runs pass quickly", () => {
+    const summary = summarizeProbe(probe("jupiter_quote"), history("jupiter_quote", [300, 400, 350]), NOW);
+
+    expect(summary.status).toBe("online");
+    expect(summary.medianLatencyMs).toBe(350);
+    expect(summary.successRate).toBe(1);
+    expect(summary.history).toHaveLength(3);
+  });
+
+  it("degrades on a failed latest run or slow answers, and goes offline after repeated failures", () => {
+    const jupiter = probe("jupiter_quote");
+    const slow = PROBE_CONFIG.DEGRADED_LATENCY_MS + 500;
+
+    expect(summarizeProbe(jupiter, history("jupiter_quote", [300, 300, 300, "fail"]), NOW).status).toBe("degraded");
+    expect(summarizeProbe(jupiter, history("jupiter_quote", [slow, slow, 300]), NOW).status).toBe("degraded");
+    expect(summarizeProbe(jupiter, history("jupiter_quote", [300, "fail", "fail", "fail"]), NOW)).toMatchObject({
+      status: "offline",
+      consecutiveFailures: 3,
+      lastError: "HTTP 503",
+    });
+  });
+
+  it("is unknown when the scheduler has not run lately", () => {
+    const samples = history("rpc_slot", [200]);
+
+    expect(summarizeProbe(probe("rpc_slot"), samples, NOW + PROBE_CONFIG.STALE_MS + 1).status).toBe("unknown");
+  });
+});
+
+describe("probeEntryGate", () => {
+  it("pauses entries only for degraded probes that gate them", () => {
+    const samples = [
+      ...history("jupiter_quote", [300, 300]),
+      ...history("raydium_quote", ["fail", "fail", "fail"]),
+      ...history("rpc_slot", [100, "fail"]),
+    ];
+
+    const gate = probeEntryGate(summarizeProbes(samples, NOW));
+
+    expect(gate.paused).toBe(true);
+    expect(gate.reasons).toEqual(["Solana RPC getSlot degraded (HTTP 503)"]);
+    expect(probeEntryGate(summarizeProbes(history("raydium_quote", ["fail", "fail", "fail"]), NOW)).paused).toBe(false);
+  });
+
+  it("never pauses on missing history", () => {
+    expect(probeEntryGate(summarizeProbes([], NOW))).toEqual({ paused: false, reasons: [] });
+  });
+});
+
+describe("parseProbeRows", () => {
+  it("keeps only probe rows", () => {
+    const samples = parseProbeRows([
+      { endpoint: "probe:jupiter_quote", response_time_ms: 410, status_code: 200, is_success: true, error_message: null, created_at: new Date(NOW).toISOString() },
+      { endpoint: "helius (rpc.example) getSlot", response_time_ms: 90, status_code: 200, is_success: true, error_message: null, created_at: new Date(NOW).toISOString() },
+      { endpoint: "probe:retired_probe", response_time_ms: 1, status_code: 200, is_success: true, error_message: null, created_at: new Date(NOW).toISOString() },
+    ]);
+
+    expect(samples).toEqual([
+      { probe: "jupiter_quote", latencyMs: 410, success: true, statusCode: 200, error: null, checkedAt: NOW },
+    ]);
+  });
+});
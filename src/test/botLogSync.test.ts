@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { supabase } from "@/integrations/supabase/client";
+import { flushBotLogs, queueBotLogForSync } from "@/lib/botLogSync";
+import {
+  DEFAULT_BOT_LOG_FILTERS,
+  fetchBotLogPage,
+  fetchBotLogSlice,
+  type BotLogRecord,
+} from "@/hooks/useBotLogHistory";
+import type { BotLogEntry } from "@/components/scanner/BotActivityLog";
+
+const NOW = 1_760_000_000_000;
+const MINT = "So1Ana7oken1111111111111111111111111111pump";
+
+function entry(i: number): BotLogEntry {
+  return { id: `e${i}`, timestamp: new Date(NOW + i), level: "info", category: "scan", message: `scan ${i}` };
+}
+
+function session(userId: string | null) {
+  vi.spyOn(supabase.auth, "getSession").mockResolvedValue({
+    data: { session: userId ? { user: { id: userId } } : null },
+    error: null,
+  } as never);
+}
+
+interface Upload {
+  rows: { user_id: string; client_id: string; logged_at: string }[];
+  options: unknown;
+}
+
+// bot_activity_logs upserts; the first `failures` calls fail
+function logUploads(failures = 0) {
+  const uploads: Upload[] = [];
+  vi.spyOn(supabase, "from").mockImplementation((() => ({
+    upsert: (rows: Upload["rows"], options: unknown) => {
+      if (failures > 0) {
+        failures--;
+        return Promise.resolve({ error: { message: "network down" } });
+      }
+      uploads.push({ rows, options });
+      return Promise.resolve({ error: null });
+    },
+  })) as never);
+  return uploads;
+}
+
+describe("bot log sync", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    // Drain the module-level queue so tests do not see each other's entries
+    session(null);
+    await flushBotLogs();
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("uploads queued entries in batches of 100, keyed by client id", async () => {
+    session("user-1");
+    const uploads = logUploads();
+    for (let i = 0; i < 150; i++) queueBotLogForSync("user-1", entry(i));
+
+    await flushBotLogs();
+
+    expect(uploads.map((u) => u.rows.length)).toEqual([100, 50]);
+    expect(uploads[0].rows[0]).toMatchObject({
+      user_id: "user-1",
+      client_id: "e0",
+      logged_at: new Date(NOW).toISOString(),
+    });
+    // A retried batch that already landed is a no-op
+    expect(uploads[0].options).toEqual({ onConflict: "user_id,client_id", ignoreDuplicates: true });
+  });
+
+  it("keeps a failed batch queued and retries the same entries", async () => {
+    session("user-1");
+    const uploads = logUploads(1);
+    queueBotLogForSync("user-1", entry(1));
+    queueBotLogForSync("user-1", entry(2));
+
+    await flushBotLogs();
+    expect(uploads).toHaveLength(0);
+
+    await flushBotLogs();
+    expect(uploads.flatMap((u) => u.rows.map((r) => r.client_id))).toEqual(["e1", "e2"]);
+
+    // Nothing left to send
+    await flushBotLogs();
+    expect(uploads).toHaveLength(1);
+  });
+
+  it("drops entries queued for a user who is no longer signed in", async () => {
+    session("user-2");
+    const uploads = logUploads();
+    queueBotLogForSync("user-1", entry(1));
+    queueBotLogForSync("user-2", entry(2));
+
+    await flushBotLogs();
+
+    expect(uploads.flatMap((u) => u.rows.map((r) => r.client_id))).toEqual(["e2"]);
+  });
+
+  it("keeps only the newest 1000 entries while uploads are failing", async () => {
+    session("user-1");
+    const uploads = logUploads();
+    for (let i = 0; i < 1005; i++) queueBotLogForSync("user-1", entry(i));
+
+    await flushBotLogs();
+
+    const sent = uploads.flatMap((u) => u.rows.map((r) => r.client_id));
+    expect(sent).toHaveLength(1000);
+    expect(sent[0]).toBe("e5");
+  });
+});
+
+function record(i: number): BotLogRecord {
+  return {
+    id: `r${i}`,
+    client_id: `e${i}`,
+    logged_at: new Date(NOW - i * 1000).toISOString(),
+    level: "info",
+    category: "scan",
+    message: `scan ${i}`,
+    details: null,
+    token_symbol: null,
+    token_address: null,
+  };
+}
+
+// Query builder over bot_activity_logs that records the filters applied and serves ranges
+// from `rows`; `afterRange` runs after each range is served
+function logTable(rows: BotLogRecord[], afterRange: () => void = () => {}) {
+  const calls: unknown[][] = [];
+  const ranges: [number, number][] = [];
+  vi.spyOn(supabase, "from").mockImplementation((() => {
+    const builder: Record<string, unknown> = {};
+    for (const method of ["select", "eq", "gte", "lte", "ilike", "textSearch", "order"]) {
+      builder[method] = (...args: unknown[]) => {
+        calls.push([method, ...args]);
+        return builder;
+      };
+    }
+    builder.range = (from: number, to: number) => {
+      ranges.push([from, to]);
+      const data = rows.slice(from, to + 1);
+      afterRange();
+      return Promise.resolve({ data, error: null, count: rows.length });
+    };
+    return builder;
+  }) as never);
+  return { calls, ranges };
+}
+
+describe("bot log history", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("applies every filter and reads the requested page", async () => {
+    const table = logTable(Array.from({ length: 120 }, (_, i) => record(i)));
+
+    const page = await fetchBotLogPage(
+      "user-1",
+      {
+        category: "trade",
+        level: "error",
+        token: "$PE%P_E",
+        search: "rug pull",
+        from: "2026-01-01T00:00:00.000Z",
+        to: "2026-01-02T00:00:00.000Z",
+      },
+      1
+    );
+
+    expect(page.total).toBe(120);
+    expect(page.entries.map((e) => e.id)).toEqual(Array.from({ length: 50 }, (_, i) => `r${50 + i}`));
+    expect(table.ranges).toEqual([[50, 99]]);
+    expect(table.calls).toEqual(
+      expect.arrayContaining([
+        ["eq", "user_id", "user-1"],
+        ["eq", "category", "trade"],
+        ["eq", "level", "error"],
+        ["gte", "logged_at", "2026-01-01T00:00:00.000Z"],
+        ["lte", "logged_at", "2026-01-02T00:00:00.000Z"],
+        // $ and LIKE wildcards are stripped from a symbol search
+        ["ilike", "token_symbol", "%PEPE%"],
+        ["textSearch", "search_vector", "rug pull", { type: "websearch", config: "simple" }],
+        ["order", "logged_at", { ascending: false }],
+        ["order", "id", { ascending: false }],
+      ])
+    );
+  });
+
+  it("matches a mint address exactly instead of by symbol", async () => {
+    const table = logTable([]);
+
+    await fetchBotLogPage("user-1", { ...DEFAULT_BOT_LOG_FILTERS, token: MINT }, 0);
+
+    expect(table.calls).toContainEqual(["eq", "token_address", MINT]);
+    expect(table.calls.some(([method]) => method === "ilike")).toBe(false);
+  });
+
+  it("exports in 1000-row chunks until a short one, without the rows new logs push into the next chunk", async () => {
+    const rows = Array.from({ length: 1500 }, (_, i) => record(i));
+    let logged = false;
+    // The bot logs one line while the first chunk is being read
+    const table = logTable(rows, () => {
+      if (!logged) rows.unshift(record(-1));
+      logged = true;
+    });
+
+    const slice = await fetchBotLogSlice("user-1", DEFAULT_BOT_LOG_FILTERS);
+
+    expect(table.ranges).toEqual([[0, 999], [1000, 1999]]);
+    expect(slice).toHaveLength(1500);
+    expect(new Set(slice.map((r) => r.id)).size).toBe(1500);
+  });
+});
@@ -0,0 +1,200 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { decodeBase58, encodeBase58 } from "@shared/base58";
+import {
+  buildTransferTransaction,
+  createLocalKeystore,
+  createMemoryKeystore,
+  isSessionKeyActive,
+  type KeystoreStorage,
+  type SessionSigner,
+  type StoredSessionKey,
+} from "@shared/session-keys";
+import { runBotCycle, DEFAULT_BOT_CYCLE_OPTIONS, type BotCycleDeps, type StageRun } from "@shared/bot-cycle";
+
+const BLOCKHASH = encodeBase58(new Uint8Array(32).fill(7));
+const RECIPIENT = encodeBase58(new Uint8Array(32).fill(9));
+const HOUR = 60 * 60 * 1000;
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function newSigner(): Promise<SessionSigner> {
+  const keystore = createMemoryKeystore();
+  await keystore.create("user", new Date(Date.now() + HOUR).toISOString());
+  return (await keystore.open("user"))!.signer;
+}
+
+function memoryStorage(): KeystoreStorage & { rows: Map<string, StoredSessionKey> } {
+  const rows = new Map<string, StoredSessionKey>();
+  return {
+    rows,
+    load: async (userId) => rows.get(userId) ?? null,
+    save: async (userId, record) => void rows.set(userId, record),
+  };
+}
+
+describe("session key signing", () => {
+  it("signs in the session key's slot with a signature the public key verifies", async () => {
+    const signer = await newSigner();
+    const unsigned = buildTransferTransaction(signer.publicKey, RECIPIENT, 1_000_000n, BLOCKHASH);
+    const signed = fromBase64(await signer.signTransaction(unsigned));
+
+    const publicKey = await crypto.subtle.importKey("raw", decodeBase58(signer.publicKey), { name: "Ed25519" }, false, ["verify"]);
+    const valid = await crypto.subtle.verify({ name: "Ed25519" }, publicKey, signed.subarray(1, 65), signed.subarray(65));
+    expect(valid).toBe(true);
+    expect(signed.subarray(65)).toEqual(fromBase64(unsigned).subarray(65));
+  });
+
+  it("refuses a transaction built for another wallet", async () => {
+    const signer = await newSigner();
+    const foreign = buildTransferTransaction(RECIPIENT, signer.publicKey, 1n, BLOCKHASH);
+    await expect(signer.signTransaction(foreign)).rejects.toThrow(/not a signer/);
+  });
+});
+
+describe("createLocalKeystore", () => {
+  it("stores only the sealed seed and reopens the same key", async () => {
+    const storage = memoryStorage();
+    const keystore = createLocalKeystore(storage, "master-secret");
+    const publicKey = await keystore.create("user-1", new Date(Date.now() + HOUR).toISOString());
+
+    const stored = storage.rows.get("user-1")!;
+    expect(stored.public_key).toBe(publicKey);
+    expect(fromBase64(stored.sealed_secret)).toHaveLength(32 + 16); // seed + GCM tag
+    expect((await keystore.open("user-1"))?.signer.publicKey).toBe(publicKey);
+
+    await expect(createLocalKeystore(storage, "other-secret").open("user-1")).rejects.toThrow();
+    // Bound to its owner: the same row under another user does not open
+    storage.rows.set("user-2", stored);
+    await expect(keystore.open("user-2")).rejects.toThrow();
+  });
+
+  it("keeps an expired key for exits and drops a revoked one", async () => {
+    const keystore = createLocalKeystore(memoryStorage(), "master-secret");
+    await keystore.create("user-1", new Date(Date.now() - 1000).toISOString());
+
+    const expired = await keystore.open("user-1");
+    expect(expired).not.toBeNull();
+    expect(isSessionKeyActive(expired)).toBe(false);
+
+    await keystore.revoke("user-1");
+    expect(await keystore.open("user-1")).toBeNull();
+  });
+});
+
+describe("runBotCycle", () => {
+  async function harness(overrides: Partial<BotCycleDeps> = {}) {
+    const signer = await newSigner();
+    const calls: string[] = [];
+    const recorded: StageRun[] = [];
+    const settled: unknown[] = [];
+    const exits: string[] = [];
+    const sent: string[] = [];
+
+    const responses: Record<string, unknown> = {
+      "token-scanner": {
+        tokens: [
+          { address: "NewMint", symbol: "NEW", canSell: true },
+          { address: "HeldMint", symbol: "HELD", canSell: true },
+          { address: "StuckMint", symbol: "STUCK", canSell: false },
+        ],
+      },
+      "auto-sniper": { summary: { approved: 1, executed: 1, entriesBlocked: null } },
+      "trade-execution": {
+        success: true,
+        positionId: "pos-new",
+        swapTransaction: buildTransferTransaction(signer.publicKey, RECIPIENT, 1n, BLOCKHASH),
+      },
+      "auto-exit": {
+        results: [
+          { positionId: "pos-old", symbol: "OLD", action: "take_profit", currentPrice: 2, profitLossPercent: 100, executed: false,
+            error: "PENDING_SIGNATURE: Jupiter quote ready, requires wallet signature",
+            swapTransaction: buildTransferTransaction(signer.publicKey, RECIPIENT, 2n, BLOCKHASH) },
+          { positionId: "pos-hold", symbol: "HOLD", action: "hold", currentPrice: 1, profitLossPercent: 3, executed: false },
+        ],
+      },
+    };
+
+    const deps: BotCycleDeps = {
+      invoke: async <T,>(fn: string, body: Record<string, unknown>) => {
+        calls.push(fn);
+        if (fn === "auto-sniper") expect((body.tokens as { address: string }[]).map((t) => t.address)).toEqual(["NewMint"]);
+        if (fn === "trade-execution") expect(body.amount).toBe(String(0.05 * 1e9)); // capped
+        return responses[fn] as T;
+      },
+      signer,
+      sendTransaction: async (signed) => {
+        sent.push(signed);
+        return `sig${sent.length}`;
+      },
+      confirmTransaction: async () => ({ confirmed: true }),
+      heartbeat: async () => true,
+      recordStage: async (run) => void recorded.push(run),
+      knownTokens: async () => new Set(["HeldMint"]),
+      claimSignals: async () => [
+        { id: "sig-1", token_address: "NewMint", token_symbol: "NEW", token_name: null, trade_amount: 0.2, slippage: 5, priority: "normal", is_pump_fun: false },
+      ],
+      settleSignal: async (_signal, outcome) => void settled.push(outcome),
+      sessionPositions: async () => ["pos-old", "pos-hold"],
+      recordExit: async (exit, txSignature) => void exits.push(`${exit.positionId}:${txSignature}`),
+      ...overrides,
+    };
+    return { deps, calls, recorded, settled, exits, sent };
+  }
+
+  const options = { ...DEFAULT_BOT_CYCLE_OPTIONS, maxTradeSol: 0.05 };
+
+  it("runs scan, evaluate, execute and exit with the session key", async () => {
+    const h = await harness();
+    const result = await runBotCycle(h.deps, options);
+
+    expect(result.leaseLost).toBe(false);
+    expect(result.stages.map((s) => `${s.stage}:${s.status}`)).toEqual(["scan:ok", "evaluate:ok", "execute:ok", "exit:ok"]);
+    expect(h.calls).toEqual(["token-scanner", "auto-sniper", "trade-execution", "auto-exit"]);
+    expect(h.settled).toEqual([{ ok: true, txSignature: "sig1", positionId: "pos-new" }]);
+    expect(h.exits).toEqual(["pos-old:sig2"]);
+    expect(h.recorded).toHaveLength(4);
+  });
+
+  it("records a failing stage and still runs exits", async () => {
+    const h = await harness();
+    const invoke = h.deps.invoke;
+    h.deps.invoke = async <T,>(fn: string, body: Record<string, unknown>) => {
+      if (fn === "token-scanner") throw new Error("scanner down");
+      return invoke<T>(fn, body);
+    };
+    const result = await runBotCycle(h.deps, options);
+
+    expect(result.stages[0]).toMatchObject({ stage: "scan", status: "failed", error: "scanner down" });
+    expect(result.stages[1]).toMatchObject({ stage: "evaluate", status: "skipped" });
+    expect(h.exits).toEqual(["pos-old:sig2"]);
+  });
+
+  it("settles a signal as failed when its buy does not confirm", async () => {
+    const h = await harness({ confirmTransaction: async () => ({ confirmed: false, error: "slippage" }) });
+    const result = await runBotCycle(h.deps, { ...options, autoExit: false });
+
+    expect(result.stages[2]).toMatchObject({ stage: "execute", status: "failed" });
+    expect(h.settled).toEqual([{ ok: false, error: "slippage", positionId: "pos-new" }]);
+  });
+
+  it("opens nothing without entry permission but keeps exiting", async () => {
+    const h = await harness();
+    await runBotCycle(h.deps, { ...options, autoEntry: false });
+
+    expect(h.calls).toEqual(["auto-exit"]);
+    expect(h.settled).toEqual([]);
+  });
+
+  it("stops before the next stage once the lease is lost", async () => {
+    let beats = 0;
+    const h = await harness({ heartbeat: async () => ++beats <= 2 });
+    const result = await runBotCycle(h.deps, options);
+
+    expect(result.leaseLost).toBe(true);
+    expect(result.stages.map((s) => s.stage)).toEqual(["scan", "evaluate"]);
+    expect(h.calls).not.toContain("trade-execution");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BREAKER_CONFIG,
+  breakerAllowsEntry,
+  evaluateCircuitBreaker,
+  needsSolPrice,
+  parseBreakerConfig,
+  type BreakerPosition,
+  type CircuitBreakerConfig,
+} from "@shared/circuit-breaker";
+
+const NOW = Date.parse("2026-02-12T12:00:00.000Z");
+const minutesAgo = (m: number) => new Date(NOW - m * 60_000).toISOString();
+
+let seq = 0;
+function closed(entrySol: number, pnlPercent: number, closedMinutesAgo: number, wallet: string | null = null): BreakerPosition {
+  seq++;
+  return {
+    id: `p${seq}`,
+    status: "closed",
+    entry_sol: entrySol,
+    profit_loss_percent: pnlPercent,
+    profit_loss_value: entrySol * pnlPercent * 2, // $200/SOL
+    closed_at: minutesAgo(closedMinutesAgo),
+    wallet_address: wallet,
+  };
+}
+
+const config = (overrides: Partial<CircuitBreakerConfig> = {}): CircuitBreakerConfig => ({
+  ...DEFAULT_BREAKER_CONFIG,
+  max_consecutive_losses: null,
+  ...overrides,
+});
+
+describe("evaluateCircuitBreaker", () => {
+  it("weighs losses by position size, not percent", () => {
+    const dust = Array.from({ length: 5 }, (_, i) => closed(0.01, -10, 10 + i));
+    expect(evaluateCircuitBreaker(dust, {}, config(), NOW).level).toBe("none");
+
+    const real = Array.from({ length: 5 }, (_, i) => closed(5, -10, 10 + i));
+    const result = evaluateCircuitBreaker(real, {}, config(), NOW);
+    expect(result.hourly.loss).toBe(2.5);
+    expect(result.level).toBe("emergency_stop"); // daily 1.5 SOL limit
+    expect(result.trips.find((t) => t.trigger === "daily_loss")?.positionIds).toHaveLength(5);
+  });
+
+  it("counts unrealized loss and nets gains within the window", () => {
+    const open: BreakerPosition = { ...closed(2, -20, 0), status: "open", closed_at: null };
+    const positions = [open, closed(1, 10, 5)];
+    const result = evaluateCircuitBreaker(positions, {}, config(), NOW);
+    expect(result.hourly).toEqual({ realized: 0, unrealized: 0.4, loss: 0.3 });
+    expect(evaluateCircuitBreaker(positions, {}, config({ include_unrealized: false }), NOW).hourly.loss).toBe(0);
+  });
+
+  it("reduces size before a limit and escalates to the configured action at it", () => {
+    const near = evaluateCircuitBreaker([closed(3, -10, 30)], {}, config(), NOW);
+    expect(near.level).toBe("reduce_size");
+    expect(near.sizeFactor).toBe(0.5);
+    expect(near.trips[0].trigger).toBe("approaching_limit");
+
+    const over = evaluateCircuitBreaker([closed(3, -20, 30)], {}, config(), NOW);
+    expect(over.level).toBe("pause_entries");
+    expect(over.sizeFactor).toBe(1);
+  });
+
+  it("measures in USD when configured", () => {
+    const result = evaluateCircuitBreaker([closed(1, -30, 5)], {}, config({ unit: "usd", hourly_loss_limit: 50 }), NOW);
+    expect(result.hourly.loss).toBe(60);
+    expect(result.trips[0]).toMatchObject({ trigger: "hourly_loss", unit: "usd", limit: 50 });
+  });
+
+  it("converts the USD loss of positions without entry_sol at the current SOL price", () => {
+    // Legacy position: -$400 with no entry_sol is 2 SOL at $200/SOL
+    const legacy: BreakerPosition = { ...closed(2, -100, 10), entry_sol: null };
+    const result = evaluateCircuitBreaker([legacy], {}, config(), NOW, 200);
+    expect(result.hourly.loss).toBe(2);
+    expect(result.level).toBe("emergency_stop");
+    expect(needsSolPrice([legacy], config())).toBe(true);
+    expect(needsSolPrice([legacy], config({ unit: "usd" }))).toBe(false);
+
+    // Without a SOL price it cannot be measured in SOL
+    expect(evaluateCircuitBreaker([legacy], {}, config(), NOW).hourly.loss).toBe(0);
+  });
+
+  it("pauses only the strategy whose wallet lost past its limit", () => {
+    const positions = [closed(1, -50, 120, "SniperWallet"), closed(1, 20, 60, "CopyWallet")];
+    const result = evaluateCircuitBreaker(
+      positions,
+      { SniperWallet: "sniper", CopyWallet: "copy_trade" },
+      config({ daily_loss_limit: null, strategy_loss_limits: { sniper: 0.3 } }),
+      NOW
+    );
+    expect(result.level).toBe("none");
+    expect(result.pausedStrategies).toEqual(["sniper"]);
+    expect(breakerAllowsEntry(result.level, result.pausedStrategies, "sniper")).toBe(false);
+    expect(breakerAllowsEntry(result.level, result.pausedStrategies, "copy_trade")).toBe(true);
+  });
+
+  it("trips on a losing streak broken only by a winner", () => {
+    const positions = [closed(0.1, -5, 300), closed(0.1, -5, 200), closed(0.1, -5, 100), closed(0.1, 40, 400)];
+    const result = evaluateCircuitBreaker(positions, {}, config({ max_consecutive_losses: 3, streak_action: "pause_entries" }), NOW);
+    expect(result.streak).toBe(3);
+    expect(result.level).toBe("pause_entries");
+    expect(result.trips[0].positionIds).toHaveLength(3);
+  });
+});
+
+describe("parseBreakerConfig", () => {
+  it("fills defaults and drops invalid values", () => {
+    expect(parseBreakerConfig({})).toEqual(DEFAULT_BREAKER_CONFIG);
+    const parsed = parseBreakerConfig({
+      unit: "usd",
+      hourly_loss_limit: null,
+      daily_action: "explode",
+      reduce_size_factor: 5,
+      strategy_loss_limits: { sniper: 2, copy_trade: -1 },
+    });
+    expect(parsed.unit).toBe("usd");
+    expect(parsed.hourly_loss_limit).toBeNull();
+    expect(parsed.daily_action).toBe(DEFAULT_BREAKER_CONFIG.daily_action);
+    expect(parsed.reduce_size_factor).toBe(1);
+    expect(parsed.strategy_loss_limits).toEqual({ sniper: 2 });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  COPY_TRADING_CONFIG,
+  WSOL_MINT,
+  computeCopySize,
+  computeLeaderStats,
+  fetchSignaturesSince,
+  parseLeaderSwap,
+  type CopySizing,
+  type ParsedSolanaTransaction,
+} from "@shared/copy-trading";
+
+const LEADER = "Leader1111111111111111111111111111111111111";
+const MINT = "TokenMint111111111111111111111111111111111";
+const JUPITER = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+
+const swapTx = (overrides: {
+  solPre?: number;
+  solPost?: number;
+  tokenPre?: string | null;
+  tokenPost?: string | null;
+  programId?: string;
+  err?: unknown;
+} = {}): ParsedSolanaTransaction => {
+  const { solPre = 10e9, solPost = 8.995e9, tokenPre = null, tokenPost = "1000000", programId = JUPITER, err = null } = overrides;
+  const balance = (amount: string) => ({
+    accountIndex: 2,
+    mint: MINT,
+    owner: LEADER,
+    uiTokenAmount: { uiAmountString: amount, uiAmount: Number(amount) },
+  });
+  return {
+    blockTime: 1_770_000_000,
+    meta: {
+      err,
+      fee: 5_000_000,
+      preBalances: [solPre, 0, 0],
+      postBalances: [solPost, 0, 0],
+      preTokenBalances: tokenPre === null ? [] : [balance(tokenPre)],
+      postTokenBalances: tokenPost === null ? [] : [balance(tokenPost)],
+    },
+    transaction: {
+      signatures: ["sig1"],
+      message: {
+        accountKeys: [{ pubkey: LEADER }, { pubkey: JUPITER }, { pubkey: "LeaderAta" }],
+        instructions: [{ programId }],
+      },
+    },
+  };
+};
+
+describe("parseLeaderSwap", () => {
+  it("parses a buy and adds the network fee back", () => {
+    const event = parseLeaderSwap(swapTx(), LEADER);
+    expect(event).toMatchObject({ side: "buy", tokenMint: MINT, tokenAmount: 1_000_000, program: "jupiter" });
+    expect(event?.solAmount).toBeCloseTo(1);
+  });
+
+  it("parses a full exit where the token account is closed", () => {
+    const event = parseLeaderSwap(swapTx({ solPre: 5e9, solPost: 6.495e9, tokenPre: "1000000", tokenPost: null }), LEADER);
+    expect(event).toMatchObject({ side: "sell", tokenAmount: 1_000_000 });
+    expect(event?.solAmount).toBeCloseTo(1.5);
+  });
+
+  it("ignores failed transactions, non-swaps and unrelated wallets", () => {
+    expect(parseLeaderSwap(swapTx({ err: { InstructionError: [0, "Custom"] } }), LEADER)).toBeNull();
+    expect(parseLeaderSwap(swapTx({ programId: "11111111111111111111111111111111" }), LEADER)).toBeNull();
+    expect(parseLeaderSwap(swapTx(), "SomeoneElse1111111111111111111111111111111")).toBeNull();
+  });
+
+  it("treats wrapped SOL as SOL", () => {
+    const tx = swapTx({ solPost: 9.995e9 });
+    tx.meta!.preTokenBalances!.push({ accountIndex: 3, mint: WSOL_MINT, owner: LEADER, uiTokenAmount: { uiAmountString: "2", uiAmount: 2 } });
+    tx.meta!.postTokenBalances!.push({ accountIndex: 3, mint: WSOL_MINT, owner: LEADER, uiTokenAmount: { uiAmountString: "1", uiAmount: 1 } });
+    expect(parseLeaderSwap(tx, LEADER)?.solAmount).toBeCloseTo(1);
+  });
+});
+
+describe("computeCopySize", () => {
+  const sizing = (overrides: Partial<CopySizing> = {}): CopySizing => ({
+    sizing_mode: "fixed_sol",
+    fixed_sol_amount: 0.2,
+    leader_percent: 10,
+    max_sol_per_token: null,
+    ...overrides,
+  });
+
+  it("uses fixed or proportional sizing", () => {
+    expect(computeCopySize(sizing(), 5)).toEqual({ amount: 0.2, capped: false });
+    expect(computeCopySize(sizing({ sizing_mode: "percent_of_leader" }), 5)).toEqual({ amount: 0.5, capped: false });
+  });
+
+  it("caps total SOL copied into one token", () => {
+    expect(computeCopySize(sizing({ max_sol_per_token: 0.5 }), 5, 0.4)).toEqual({ amount: 0.1, capped: true });
+    expect(computeCopySize(sizing({ max_sol_per_token: 0.5 }), 5, 0.5)).toEqual({ amount: 0, capped: true });
+  });
+});
+
+describe("computeLeaderStats", () => {
+  it("realizes PnL on average cost and counts full exits", () => {
+    const stats = computeLeaderStats([
+      { action: "buy", token_address: "A", sol_amount: 1, amount: 100 },
+      { action: "buy", token_address: "A", sol_amount: 1, amount: 100 },
+      { action: "sell", token_address: "A", sol_amount: 1.5, amount: 100 },
+      { action: "sell", token_address: "A", sol_amount: 1.5, amount: 100 },
+      { action: "buy", token_address: "B", sol_amount: 1, amount: 50 },
+      { action: "sell", token_address: "B", sol_amount: 0.4, amount: 50 },
+      { action: "buy", token_address: "C", sol_amount: 2, amount: 10 },
+    ]);
+    expect(stats).toMatchObject({ buys: 4, sells: 3, wins: 1, losses: 1, winRate: 50, openTokens: 1 });
+    expect(stats.realizedPnlSol).toBeCloseTo(0.4);
+  });
+
+  it("skips PnL for sells without a tracked cost basis", () => {
+    const stats = computeLeaderStats([{ action: "sell", token_address: "A", sol_amount: 3, amount: 100 }]);
+    expect(stats).toMatchObject({ sells: 1, realizedPnlSol: 0, winRate: null });
+  });
+});
+
+describe("fetchSignaturesSince", () => {
+  // Leader history newest first, served like getSignaturesForAddress with until/before/limit
+  function history(count: number) {
+    const all = Array.from({ length: count }, (_, i) => ({ signature: `sig${count - i}`, err: null, blockTime: count - i }));
+    const requests: Record<string, unknown>[] = [];
+    const rpc = async (_method: string, params: unknown[]) => {
+      const options = params[1] as { limit: number; until?: string; before?: string };
+      requests.push(options);
+      const start = options.before ? all.findIndex((s) => s.signature === options.before) + 1 : 0;
+      const end = options.until ? all.findIndex((s) => s.signature === options.until) : all.length;
+      return all.slice(start, end).slice(0, options.limit);
+    };
+    return { rpc, requests };
+  }
+
+  it("pages back to the cursor when more than one page arrived since the last poll", async () => {
+    const { rpc, requests } = history(60);
+
+    const { signatures, complete } = await fetchSignaturesSince(rpc, LEADER, "sig15");
+
+    expect(complete).toBe(true);
+    expect(signatures.map((s) => s.signature)).toEqual(Array.from({ length: 45 }, (_, i) => `sig${60 - i}`));
+    expect(requests.map((r) => r.before ?? null)).toEqual([null, "sig41", "sig21"]);
+  });
+
+  it("reads only the newest page on the first poll", async () => {
+    const { rpc, requests } = history(60);
+
+    const { signatures, complete } = await fetchSignaturesSince(rpc, LEADER, null);
+
+    expect(complete).toBe(true);
+    expect(signatures).toHaveLength(COPY_TRADING_CONFIG.SIGNATURES_PER_POLL);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("stops at the page cap and reports the walk as incomplete", async () => {
+    const pageCount = COPY_TRADING_CONFIG.MAX_SIGNATURE_PAGES;
+    const { rpc } = history(COPY_TRADING_CONFIG.SIGNATURES_PER_POLL * (pageCount + 1) + 1);
+
+    const { signatures, complete } = await fetchSignaturesSince(rpc, LEADER, "sig1");
+
+    expect(complete).toBe(false);
+    expect(signatures).toHaveLength(COPY_TRADING_CONFIG.SIGNATURES_PER_POLL * pageCount);
+  });
+});
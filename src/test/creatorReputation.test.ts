@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  findMintCreator,
+  formatBlocklistCsv,
+  parseBlocklist,
+  resolveLaunchOutcome,
+  summarizeCreator,
+  type CreatorLaunch,
+  type CreatorOutcome,
+} from "@shared/creator-reputation";
+import { checkCreatorReputation, validateDiscoveryCandidate, type DiscoveryCandidate } from "@shared/snipe-rules";
+import type { RpcCall } from "@shared/holder-clusters";
+
+const CREATOR = "DevWa11et1111111111111111111111111111111111";
+const OTHER = "Anoth3rDev111111111111111111111111111111111";
+
+const launches = (...outcomes: CreatorOutcome[]): CreatorLaunch[] =>
+  outcomes.map((outcome, i) => ({ mint: `mint${i}`, outcome, createdAt: "2026-02-01T00:00:00Z" }));
+
+const candidate = (overrides: Partial<DiscoveryCandidate> = {}): DiscoveryCandidate => ({
+  address: "So1aNaTokenMint1111111111111111111111111111",
+  name: "Good Dog",
+  symbol: "GDOG",
+  liquidity: 25,
+  createdAt: new Date().toISOString(),
+  buyerPosition: 3,
+  riskScore: 40,
+  holders: 50,
+  freezeAuthority: null,
+  mintAuthority: null,
+  hasSwapRoute: true,
+  source: "Raydium V3 API",
+  ...overrides,
+});
+
+describe("summarizeCreator", () => {
+  it("scores a clean history at zero", () => {
+    const rep = summarizeCreator(CREATOR, launches("survived", "survived", "pending"));
+    expect(rep).toMatchObject({ launches: 3, survived: 2, pending: 1, score: 0, blacklisted: false });
+    expect(checkCreatorReputation(rep).code).toBe("CREATOR_OK");
+  });
+
+  it("only warns on a single bad launch", () => {
+    const rep = summarizeCreator(CREATOR, launches("rugged", "survived"));
+    expect(rep.score).toBe(33);
+    expect(checkCreatorReputation(rep)).toMatchObject({ code: "CREATOR_REPUTATION", severity: "warn" });
+  });
+
+  it("rejects serial ruggers even with survivals in between", () => {
+    const rep = summarizeCreator(CREATOR, launches("rugged", "honeypot", "survived", "survived", "survived"));
+    expect(rep.rugged + rep.honeypots).toBe(2);
+    expect(checkCreatorReputation(rep)).toMatchObject({ code: "CREATOR_REPUTATION", severity: "reject" });
+  });
+
+  it("rejects blocklisted creators regardless of history", () => {
+    const rep = summarizeCreator(CREATOR, [], { creator: CREATOR, reason: "Known farm" });
+    const reason = checkCreatorReputation(rep);
+    expect(reason).toMatchObject({ code: "CREATOR_BLACKLISTED", severity: "reject" });
+    expect(reason.message).toContain("Known farm");
+  });
+
+  it("feeds discovery so a bad creator makes the token ineligible", () => {
+    const rep = summarizeCreator(CREATOR, launches("rugged", "rugged"));
+    expect(validateDiscoveryCandidate(candidate({ creator: rep })).eligible).toBe(false);
+    expect(validateDiscoveryCandidate(candidate({ creator: null })).eligible).toBe(true);
+  });
+});
+
+describe("resolveLaunchOutcome", () => {
+  it("declares rugs immediately and survival only after the window", () => {
+    expect(resolveLaunchOutcome({ ageHours: 2, liquidityUsd: 100 })).toBe("rugged");
+    expect(resolveLaunchOutcome({ ageHours: 2, liquidityUsd: 50_000 })).toBe("pending");
+    expect(resolveLaunchOutcome({ ageHours: 30, liquidityUsd: 50_000 })).toBe("survived");
+    expect(resolveLaunchOutcome({ ageHours: 30, liquidityUsd: null })).toBe("pending");
+    expect(resolveLaunchOutcome({ ageHours: 1, liquidityUsd: 50_000, honeypot: true })).toBe("honeypot");
+  });
+});
+
+describe("findMintCreator", () => {
+  it("walks signature pages back to the first transaction's fee payer", async () => {
+    const calls: unknown[][] = [];
+    const rpc: RpcCall = async (method, params) => {
+      calls.push([method, ...params]);
+      if (method === "getSignaturesForAddress") {
+        const before = (params[1] as { before?: string }).before;
+        return before
+          ? [{ signature: "s1000", slot: 20 }, { signature: "first", slot: 10, blockTime: 1_700_000_000 }]
+          : Array.from({ length: 1000 }, (_, i) => ({ signature: `s${i + 1}`, slot: 100 - i }));
+      }
+      return { slot: 10, blockTime: 1_700_000_000, transaction: { message: { accountKeys: [{ pubkey: CREATOR }, { pubkey: "mint" }] } } };
+    };
+
+    expect(await findMintCreator(rpc, "mint")).toEqual({ creator: CREATOR, signature: "first", slot: 10, blockTime: 1_700_000_000 });
+    expect(calls[1][2]).toMatchObject({ before: "s1000" });
+  });
+});
+
+describe("blocklist import/export", () => {
+  it("parses CSV with reasons, skips comments and the header, and reports invalid rows", () => {
+    const { entries, invalid } = parseBlocklist(
+      `creator,reason\n# farm wallets\n${CREATOR},"Rugged 5 tokens, same day"\nnot-an-address\n${OTHER}`
+    );
+    expect(entries).toEqual([
+      { creator: CREATOR, reason: "Rugged 5 tokens, same day" },
+      { creator: OTHER, reason: null },
+    ]);
+    expect(invalid).toEqual(["not-an-address"]);
+  });
+
+  it("parses JSON arrays of strings or objects", () => {
+    const { entries } = parseBlocklist(JSON.stringify([CREATOR, { address: OTHER, reason: "bundler" }]));
+    expect(entries).toEqual([
+      { creator: CREATOR, reason: null },
+      { creator: OTHER, reason: "bundler" },
+    ]);
+  });
+
+  it("round-trips through the CSV export", () => {
+    const original = [{ creator: CREATOR, reason: 'Said "trust me", rugged' }, { creator: OTHER, reason: null }];
+    expect(parseBlocklist(formatBlocklistCsv(original)).entries).toEqual(original);
+  });
+});
@@ -0,0 +1,101 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { evaluateExitPlan, parseExitPlan, type ExitPlan, type ExitPlanPositionState } from "@shared/exit-plan";
+
+const ENTRY = 1;
+
+const LADDER: ExitPlan = {
+  tiers: [
+    { gainPercent: 50, sellPercent: 30 },
+    { gainPercent: 100, sellPercent: 30 },
+    { gainPercent: 200, sellPercent: 20 },
+  ],
+  trailingStopPercent: 25,
+  trailingActivationPercent: 50,
+};
+
+function state(overrides: Partial<ExitPlanPositionState> = {}): ExitPlanPositionState {
+  return {
+    entryPrice: ENTRY,
+    currentAmount: 1000,
+    initialAmount: 1000,
+    peakPrice: null,
+    tiersFilled: [],
+    stopLossPercent: 40,
+    profitTakePercent: 100,
+    ...overrides,
+  };
+}
+
+// Same P&L auto-exit passes in: gain from entry at this price
+function evaluate(plan: ExitPlan, position: ExitPlanPositionState, price: number) {
+  return evaluateExitPlan(plan, position, price, ((price - position.entryPrice) / position.entryPrice) * 100);
+}
+
+describe("evaluateExitPlan", () => {
+  it("combines every tier crossed in one move into a single sell", () => {
+    const decision = evaluate(LADDER, state(), 2.5);
+
+    expect(decision.action).toBe("partial_take_profit");
+    expect(decision.tierIndexes).toEqual([0, 1]);
+    expect(decision.sellFraction).toBeCloseTo(0.6);
+  });
+
+  it("sizes later tiers against the initial amount, not what is left", () => {
+    // Tier 0 already sold 30% of 1000, so 700 remain; tier 1 sells another 300 of them
+    const decision = evaluate(LADDER, state({ currentAmount: 700, tiersFilled: [0] }), 2);
+
+    expect(decision.tierIndexes).toEqual([1]);
+    expect(decision.sellFraction).toBeCloseTo(300 / 700);
+  });
+
+  it("sells everything on the last rung when there is no trailing stop to hand over to", () => {
+    const plan: ExitPlan = { ...LADDER, trailingStopPercent: null };
+    const decision = evaluate(plan, state({ currentAmount: 400, tiersFilled: [0, 1] }), 3);
+
+    expect(decision).toMatchObject({ action: "take_profit", sellFraction: 1, tierIndexes: [2] });
+  });
+
+  it("only arms the trailing stop once the peak reached the activation gain", () => {
+    // Peak +40% is below the +50% activation, so a 30% drawdown is not a trailing stop
+    expect(evaluate(LADDER, state({ peakPrice: 1.4 }), 0.98).action).toBe("hold");
+
+    // Peak +100% armed it; 30% off the peak closes the rest
+    const decision = evaluate(LADDER, state({ peakPrice: 2, tiersFilled: [0, 1] }), 1.4);
+    expect(decision).toMatchObject({ action: "trailing_stop", sellFraction: 1, peakPrice: 2 });
+    expect(decision.drawdownFromPeakPercent).toBeCloseTo(30);
+  });
+
+  it("keeps the hard stop-loss ahead of the plan", () => {
+    expect(evaluate(LADDER, state({ peakPrice: 2 }), 0.5)).toMatchObject({ action: "stop_loss", sellFraction: 1 });
+  });
+});
+
+describe("parseExitPlan", () => {
+  it("drops invalid tiers, sorts the rest and rejects out-of-range trailing stops", () => {
+    const plan = parseExitPlan({
+      tiers: [
+        { gainPercent: 150, sellPercent: 30 },
+        { gainPercent: "50", sellPercent: "30" },
+        { gainPercent: 0, sellPercent: 20 },
+        { gainPercent: 300, sellPercent: 120 },
+      ],
+      trailingStopPercent: 100,
+      trailingActivationPercent: -5,
+    });
+
+    expect(plan).toEqual({
+      tiers: [
+        { gainPercent: 50, sellPercent: 30 },
+        { gainPercent: 150, sellPercent: 30 },
+      ],
+      trailingStopPercent: null,
+      trailingActivationPercent: 0,
+    });
+  });
+
+  it("treats a plan without rules as no plan", () => {
+    expect(parseExitPlan({ tiers: [], trailingStopPercent: null })).toBeNull();
+    expect(parseExitPlan(null)).toBeNull();
+  });
+});
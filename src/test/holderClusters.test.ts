@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeHolderDistribution,
+  clusterHolders,
+  scoreHolderAnalysis,
+  traceFundingSource,
+  type FundingHop,
+  type RpcCall,
+  type TokenHolder,
+} from "@shared/holder-clusters";
+
+const SYSTEM = "11111111111111111111111111111111";
+
+const holder = (owner: string, percent: number): TokenHolder => ({
+  tokenAccount: `ata-${owner}`,
+  owner,
+  amount: String(percent * 10_000),
+  percent,
+});
+
+const hop = (funder: string, slot: number): FundingHop => ({ funder, slot, signature: `sig-${funder}-${slot}`, via: "transfer" });
+
+const transferTx = (slot: number, source: string, destination: string) => ({
+  slot,
+  transaction: {
+    message: {
+      accountKeys: [{ pubkey: source }],
+      instructions: [{ program: "system", parsed: { type: "transfer", info: { source, destination } } }],
+    },
+  },
+  meta: { innerInstructions: [] },
+});
+
+describe("clusterHolders", () => {
+  it("merges holders funded by the same wallet in the same slot", () => {
+    const holders = [holder("a", 10), holder("b", 12), holder("c", 15), holder("d", 20)];
+    const funding = new Map([
+      ["a", [hop("sniper", 100)]],
+      ["b", [hop("sniper", 100)]],
+      ["c", [hop("sniper", 100)]],
+      ["d", [hop("exchange", 90)]],
+    ]);
+
+    const { clusters, effectiveTopHolderPercent } = clusterHolders(holders, funding);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].members).toEqual(["a", "b", "c"]);
+    expect(clusters[0].percent).toBe(37);
+    expect(clusters[0].links).toEqual([{ funder: "sniper", slot: 100, hop: 1 }]);
+    expect(effectiveTopHolderPercent).toBe(37);
+  });
+
+  it("does not merge wallets funded by the same source in different slots", () => {
+    const holders = [holder("a", 10), holder("b", 12)];
+    const funding = new Map([
+      ["a", [hop("exchange", 100)]],
+      ["b", [hop("exchange", 250)]],
+    ]);
+
+    const { clusters, effectiveTopHolderPercent } = clusterHolders(holders, funding);
+    expect(clusters).toHaveLength(0);
+    expect(effectiveTopHolderPercent).toBe(12);
+  });
+
+  it("merges through a shared second hop and through holders funding each other", () => {
+    const holders = [holder("a", 5), holder("b", 6), holder("c", 7), holder("d", 8)];
+    const funding = new Map([
+      ["a", [hop("mid1", 200), hop("root", 150)]],
+      ["b", [hop("mid2", 210), hop("root", 150)]],
+      ["c", [hop("d", 300)]],
+      ["d", []],
+    ]);
+
+    const { clusters } = clusterHolders(holders, funding);
+    expect(clusters.map((c) => c.members)).toEqual([["c", "d"], ["a", "b"]]);
+    expect(clusters[1].links).toEqual([{ funder: "root", slot: 150, hop: 2 }]);
+  });
+});
+
+describe("traceFundingSource", () => {
+  it("returns the SOL transfer into the wallet's first transaction", async () => {
+    const rpc: RpcCall = async (method) => {
+      if (method === "getSignaturesForAddress") return [{ signature: "newest", slot: 500 }, { signature: "first", slot: 100 }];
+      if (method === "getTransaction") return transferTx(100, "funder", "wallet");
+      throw new Error(method);
+    };
+
+    expect(await traceFundingSource(rpc, "wallet")).toEqual({ funder: "funder", slot: 100, signature: "first", via: "transfer" });
+  });
+
+  it("treats wallets with a full page of history as established", async () => {
+    const rpc: RpcCall = async () => Array.from({ length: 1000 }, (_, i) => ({ signature: `s${i}`, slot: i }));
+    expect(await traceFundingSource(rpc, "wallet")).toBeNull();
+  });
+});
+
+describe("analyzeHolderDistribution", () => {
+  it("excludes pool accounts and reports the effective top holder", async () => {
+    const owners: Record<string, string> = { acc1: "pool", acc2: "w1", acc3: "w2", acc4: "w3" };
+    const rpc: RpcCall = async (method, params) => {
+      switch (method) {
+        case "getTokenLargestAccounts":
+          return { value: [
+            { address: "acc1", amount: "400" },
+            { address: "acc2", amount: "200" },
+            { address: "acc3", amount: "200" },
+            { address: "acc4", amount: "100" },
+          ] };
+        case "getTokenSupply":
+          return { value: { amount: "1000" } };
+        case "getMultipleAccounts": {
+          const keys = params[0] as string[];
+          return keys[0].startsWith("acc")
+            ? { value: keys.map((k) => ({ data: { parsed: { info: { owner: owners[k] } } } })) }
+            : { value: keys.map((k) => ({ owner: k === "pool" ? "AmmProgram" : SYSTEM })) };
+        }
+        case "getSignaturesForAddress":
+          return [{ signature: `first-${params[0]}`, slot: 1 }];
+        case "getTransaction": {
+          const wallet = (params[0] as string).replace("first-", "");
+          return wallet === "w3" ? transferTx(7, "cex", wallet) : transferTx(5, "dev", wallet);
+        }
+      }
+      throw new Error(method);
+    };
+
+    const analysis = await analyzeHolderDistribution(rpc, "mint", { hops: 1 });
+
+    expect(analysis.status).toBe("analyzed");
+    expect(analysis.excludedPercent).toBe(40);
+    expect(analysis.holdersAnalyzed).toBe(3);
+    expect(analysis.topHolderPercent).toBe(20);
+    expect(analysis.effectiveTopHolderPercent).toBe(40);
+    expect(analysis.clusters[0].members).toEqual(["w1", "w2"]);
+
+    const score = scoreHolderAnalysis(analysis);
+    expect(score.points).toBe(40);
+    expect(score.reasons[0]).toMatch(/1 bundled cluster \(2 wallets\) hold 40\.0%/);
+  });
+
+  it("reports unavailable instead of throwing when the RPC fails", async () => {
+    const analysis = await analyzeHolderDistribution(async () => { throw new Error("rate limited"); }, "mint");
+    expect(analysis.status).toBe("unavailable");
+    expect(analysis.error).toBe("rate limited");
+    expect(scoreHolderAnalysis(analysis)).toEqual({ points: 0, reasons: [] });
+  });
+});
@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  INTERNAL_TOKEN_MAX_AGE_MS,
+  signInternalToken,
+  timingSafeEqual,
+  verifyInternalToken,
+} from "@shared/internal-auth";
+
+const SECRET = "service-role-0123456789abcdef";
+const NOW = 1_760_000_000_000;
+
+describe("internal tokens", () => {
+  it("accepts a fresh token for the user it was signed for", async () => {
+    const token = await signInternalToken(SECRET, "user-1", NOW);
+
+    expect(await verifyInternalToken(SECRET, token, "user-1", NOW + 1_000)).toBe(true);
+  });
+
+  it("rejects the token for another user, another secret or without a user", async () => {
+    const token = await signInternalToken(SECRET, "user-1", NOW);
+
+    expect(await verifyInternalToken(SECRET, token, "user-2", NOW)).toBe(false);
+    expect(await verifyInternalToken(SECRET, token, null, NOW)).toBe(false);
+    expect(await verifyInternalToken("another-secret", token, "user-1", NOW)).toBe(false);
+  });
+
+  it("expires tokens and refuses ones dated in the future", async () => {
+    const token = await signInternalToken(SECRET, null, NOW);
+
+    expect(await verifyInternalToken(SECRET, token, null, NOW + INTERNAL_TOKEN_MAX_AGE_MS + 1)).toBe(false);
+    expect(await verifyInternalToken(SECRET, await signInternalToken(SECRET, null, NOW + 60_000), null, NOW)).toBe(false);
+  });
+
+  it("rejects malformed tokens and an unset secret", async () => {
+    const token = await signInternalToken(SECRET, null, NOW);
+
+    // The old fixed token derived from the public JWT prefix
+    expect(await verifyInternalToken(SECRET, "ZXlKaGJHY2lPaUpJVXpJMWludGVybmFs", null, NOW)).toBe(false);
+    expect(await verifyInternalToken(SECRET, `${token}.extra`, null, NOW)).toBe(false);
+    expect(await verifyInternalToken(SECRET, null, null, NOW)).toBe(false);
+    expect(await verifyInternalToken("", token, null, NOW)).toBe(false);
+  });
+});
+
+describe("timingSafeEqual", () => {
+  it("compares by content and length", () => {
+    expect(timingSafeEqual("abc", "abc")).toBe(true);
+    expect(timingSafeEqual("abc", "abd")).toBe(false);
+    expect(timingSafeEqual("abc", "abcd")).toBe(false);
+  });
+});
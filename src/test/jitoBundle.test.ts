@@ -0,0 +1,142 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  JITO_CONFIG,
+  createBlockEngineClient,
+  parseJitoBundleSettings,
+  type BlockEngineClient,
+} from "@shared/jito-bundle";
+
+/**
+ * Minimal block-engine mock: accepts bundles and reports whatever state the test sets.
+ */
+type MockBundle = { inflight: "Pending" | "Failed" | "Landed" | "Invalid"; landed?: { slot: number; err: object } };
+
+let server: Server;
+let client: BlockEngineClient;
+let bundles: Map<string, MockBundle & { transactions: string[] }>;
+let requests: { method: string; params: unknown[]; auth?: string }[];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { id, method, params } = JSON.parse(body);
+      requests.push({ method, params, auth: req.headers["x-jito-auth"] as string | undefined });
+      const reply = (result: unknown) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id, result }));
+      };
+
+      if (req.url !== "/api/v1/bundles") {
+        res.writeHead(404).end();
+      } else if (method === "sendBundle") {
+        const bundleId = `${bundles.size + 1}`.padStart(64, "a");
+        bundles.set(bundleId, { inflight: "Pending", transactions: params[0] });
+        reply(bundleId);
+      } else if (method === "getInflightBundleStatuses") {
+        const bundle = bundles.get(params[0][0]);
+        reply({
+          context: { slot: 100 },
+          value: [{ bundle_id: params[0][0], status: bundle?.inflight ?? "Invalid", landed_slot: bundle?.landed?.slot ?? null }],
+        });
+      } else if (method === "getBundleStatuses") {
+        const bundle = bundles.get(params[0][0]);
+        reply({
+          context: { slot: 100 },
+          value: [
+            bundle?.landed
+              ? {
+                  bundle_id: params[0][0],
+                  transactions: ["swapSig", "tipSig"],
+                  slot: bundle.landed.slot,
+                  confirmation_status: "confirmed",
+                  err: bundle.landed.err,
+                }
+              : null,
+          ],
+        });
+      } else if (method === "getTipAccounts") {
+        reply(["96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5"]);
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32601, message: "Method not found" } }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  client = createBlockEngineClient(`http://127.0.0.1:${port}/`, { authUuid: "test-uuid" });
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  bundles = new Map();
+  requests = [];
+});
+
+describe("block engine client", () => {
+  it("submits base64 transactions and follows the bundle from pending to landed", async () => {
+    const sent = await client.sendBundle(["c3dhcA==", "dGlw"]);
+    expect(sent.success).toBe(true);
+    expect(requests[0]).toEqual({ method: "sendBundle", params: [["c3dhcA==", "dGlw"], { encoding: "base64" }], auth: "test-uuid" });
+
+    const pending = await client.getBundleStatus(sent.bundleId!);
+    expect(pending.status).toBe("pending");
+
+    bundles.set(sent.bundleId!, { ...bundles.get(sent.bundleId!)!, inflight: "Landed", landed: { slot: 4242, err: { Ok: null } } });
+    const landed = await client.getBundleStatus(sent.bundleId!);
+    expect(landed).toMatchObject({ status: "landed", slot: 4242, confirmationStatus: "confirmed", transactions: ["swapSig", "tipSig"], error: null });
+  });
+
+  it("reports auction failures, on-chain errors and unknown bundles", async () => {
+    const { bundleId } = await client.sendBundle(["c3dhcA==", "dGlw"]);
+    bundles.get(bundleId!)!.inflight = "Failed";
+    expect((await client.getBundleStatus(bundleId!)).status).toBe("failed");
+
+    bundles.set(bundleId!, { ...bundles.get(bundleId!)!, inflight: "Landed", landed: { slot: 7, err: { InstructionError: [0, "Custom"] } } });
+    const errored = await client.getBundleStatus(bundleId!);
+    expect(errored.status).toBe("failed");
+    expect(errored.error).toMatch(/InstructionError/);
+
+    const unknown = await client.getBundleStatus("f".repeat(64));
+    expect(unknown.status).toBe("invalid");
+  });
+
+  it("rejects oversized bundles locally and lists tip accounts", async () => {
+    const tooMany = Array(JITO_CONFIG.MAX_BUNDLE_TRANSACTIONS + 1).fill("dHg=");
+    expect((await client.sendBundle(tooMany)).success).toBe(false);
+    expect(requests).toHaveLength(0);
+
+    expect(await client.getTipAccounts()).toHaveLength(1);
+  });
+});
+
+describe("parseJitoBundleSettings", () => {
+  it("defaults to disabled and clamps the tip", () => {
+    expect(parseJitoBundleSettings(null).enabled).toBe(false);
+
+    const parsed = parseJitoBundleSettings({
+      enabled: true,
+      blockEngineUrl: "http://localhost:8899/",
+      tipLamports: 10 ** 12,
+      authUuid: "  ",
+    });
+    expect(parsed).toEqual({
+      enabled: true,
+      blockEngineUrl: "http://localhost:8899",
+      tipLamports: JITO_CONFIG.MAX_TIP_LAMPORTS,
+      authUuid: null,
+    });
+    expect(parseJitoBundleSettings({ blockEngineUrl: "ftp://x", tipLamports: 1 })).toMatchObject({
+      blockEngineUrl: JITO_CONFIG.DEFAULT_BLOCK_ENGINE_URL,
+      tipLamports: JITO_CONFIG.MIN_TIP_LAMPORTS,
+    });
+  });
+});
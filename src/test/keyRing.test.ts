@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  ENVELOPE_PREFIX,
+  envelopeKeyId,
+  openWithKeyRing,
+  parseKeyRing,
+  rewrapWithKeyRing,
+  sealWithKeyRing,
+} from "@shared/key-ring";
+
+const SECRET = "birdeye-live-0123456789abcdef";
+
+describe("parseKeyRing", () => {
+  it("uses the first valid entry as the active key", async () => {
+    const ring = (await parseKeyRing("bad id:x, 2026-02:new-secret ,2025-10:old-secret,2026-02:dup"))!;
+
+    expect(ring.activeKeyId).toBe("2026-02");
+    expect([...ring.keys.keys()]).toEqual(["2026-02", "2025-10"]);
+  });
+
+  it("returns null when nothing usable is configured", async () => {
+    expect(await parseKeyRing(undefined)).toBeNull();
+    expect(await parseKeyRing("no-separator,k1:")).toBeNull();
+  });
+});
+
+describe("envelopes", () => {
+  it("round-trips with a fresh data key per value", async () => {
+    const ring = (await parseKeyRing("k1:master-one"))!;
+    const first = await sealWithKeyRing(ring, SECRET);
+    const second = await sealWithKeyRing(ring, SECRET);
+
+    expect(first.startsWith(`${ENVELOPE_PREFIX}k1:`)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(await openWithKeyRing(ring, first)).toBe(SECRET);
+  });
+
+  it("refuses tampered values, relabelled key ids and unknown keys", async () => {
+    const ring = (await parseKeyRing("k1:master-one,k0:master-zero"))!;
+    const sealed = await sealWithKeyRing(ring, SECRET);
+    const [, keyId, wrapped, value] = sealed.split(":");
+    const flipped = value.slice(0, 20) + (value[20] === "A" ? "B" : "A") + value.slice(21);
+
+    expect(await openWithKeyRing(ring, `gcm:${keyId}:${wrapped}:${flipped}`)).toBeNull();
+    expect(await openWithKeyRing(ring, `gcm:k0:${wrapped}:${value}`)).toBeNull();
+    expect(await openWithKeyRing((await parseKeyRing("k1:another-master"))!, sealed)).toBeNull();
+  });
+
+  it("rotates by re-wrapping the data key under the new master key", async () => {
+    const oldRing = (await parseKeyRing("k1:master-one"))!;
+    const sealed = await sealWithKeyRing(oldRing, SECRET);
+    const newRing = (await parseKeyRing("k2:master-two,k1:master-one"))!;
+
+    const rotated = (await rewrapWithKeyRing(newRing, sealed))!;
+
+    expect(envelopeKeyId(rotated)).toBe("k2");
+    expect(rotated.split(":")[3]).toBe(sealed.split(":")[3]);
+    expect(await openWithKeyRing((await parseKeyRing("k2:master-two"))!, rotated)).toBe(SECRET);
+    expect(await rewrapWithKeyRing(newRing, rotated)).toBe(rotated);
+    expect(await rewrapWithKeyRing(newRing, "aes:0011")).toBeNull();
+  });
+});
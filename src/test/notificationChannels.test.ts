@@ -0,0 +1,83 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { createHmac } from "node:crypto";
+import {
+  buildChannelRequest,
+  deliverNotification,
+  validateChannelConfig,
+  type DeliverableNotification,
+  type NotificationChannel,
+} from "@shared/notification-channels";
+
+const notification: DeliverableNotification = {
+  id: "6f1c2a9e-0d4b-4c8e-9a51-3b7e2f8d1c04",
+  event: "stop_loss",
+  type: "error",
+  title: "Stop Loss: BONK",
+  message: "Closed at -20.0% loss",
+  created_at: "2026-02-11T10:00:00.000Z",
+};
+
+const telegram: NotificationChannel = {
+  id: "tg",
+  kind: "telegram",
+  label: "Phone",
+  config: { bot_token: "123456789:AAHk1b2c3d4e5f6g7h8i9j0kLmNoPqRsTuV", chat_id: "-1001234567890" },
+  is_enabled: true,
+};
+
+describe("validateChannelConfig", () => {
+  it("accepts well-formed configs", () => {
+    expect(validateChannelConfig("telegram", telegram.config)).toBeNull();
+    expect(validateChannelConfig("discord", { webhook_url: "https://discord.com/api/webhooks/123/abc-DEF_1" })).toBeNull();
+    expect(validateChannelConfig("webhook", { url: "https://hooks.example.com/sniper", secret: "s3cret" })).toBeNull();
+  });
+
+  it("rejects malformed tokens and non-Discord URLs", () => {
+    expect(validateChannelConfig("telegram", { bot_token: "nope", chat_id: "1" })).toMatch(/bot token/);
+    expect(validateChannelConfig("discord", { webhook_url: "https://evil.example.com/api/webhooks/1/x" })).toMatch(/Discord/);
+  });
+
+  it("keeps generic webhooks off plain http and private addresses", () => {
+    for (const url of ["http://hooks.example.com", "https://localhost/x", "https://127.0.0.1/x", "https://10.0.0.5/x", "https://192.168.1.2/x"]) {
+      expect(validateChannelConfig("webhook", { url })).toMatch(/public https/);
+    }
+  });
+});
+
+describe("delivery", () => {
+  it("formats a Telegram message for the configured chat", () => {
+    const { url, body } = buildChannelRequest(telegram, notification);
+    expect(url).toBe("https://api.telegram.org/bot123456789:AAHk1b2c3d4e5f6g7h8i9j0kLmNoPqRsTuV/sendMessage");
+    expect(JSON.parse(body)).toMatchObject({ chat_id: "-1001234567890", text: "Stop Loss: BONK\nClosed at -20.0% loss" });
+  });
+
+  it("signs webhook bodies and skips disabled channels", async () => {
+    const calls: { url: string; init?: RequestInit }[] = [];
+    const fetchImpl = async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return new Response("ok");
+    };
+
+    const results = await deliverNotification(
+      [
+        { id: "wh", kind: "webhook", label: null, config: { url: "https://hooks.example.com/x", secret: "k" }, is_enabled: true },
+        { ...telegram, is_enabled: false },
+      ],
+      notification,
+      fetchImpl
+    );
+
+    expect(results).toEqual([{ channelId: "wh", ok: true }]);
+    expect(calls).toHaveLength(1);
+    const headers = calls[0].init?.headers as Record<string, string>;
+    const expected = createHmac("sha256", "k").update(String(calls[0].init?.body)).digest("hex");
+    expect(headers["X-Signature"]).toBe(`sha256=${expected}`);
+    expect(headers["X-Notification-Event"]).toBe("stop_loss");
+  });
+
+  it("reports HTTP failures per channel", async () => {
+    const [result] = await deliverNotification([telegram], notification, async () => new Response("chat not found", { status: 400 }));
+    expect(result).toEqual({ channelId: "tg", ok: false, error: "HTTP 400: chat not found" });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { estimateFailureRate, simulatePaperFill, PAPER_FILL_CONFIG, type PaperFillInput } from "@shared/paper-fill";
+
+// Draws: first decides failure, second the realized slippage
+const draws = (...values: number[]) => () => values.shift() ?? 0;
+
+const buy: PaperFillInput = {
+  side: "buy",
+  inAmount: 100_000_000, // 0.1 SOL
+  quotedOutAmount: 1_000_000,
+  slippageBps: 500,
+  priorityFeeLamports: 50_000,
+  failureRate: 0.1,
+};
+
+describe("simulatePaperFill", () => {
+  it("fills below the quote within the slippage tolerance and charges fees", () => {
+    const fill = simulatePaperFill(buy, draws(0.5, 0.5));
+
+    expect(fill.status).toBe("filled");
+    expect(fill.slippageBps).toBe(250);
+    expect(fill.outAmount).toBe(975_000);
+    expect(fill.solDeltaLamports).toBe(-(100_000_000 + 50_000 + PAPER_FILL_CONFIG.SIGNATURE_FEE_LAMPORTS));
+  });
+
+  it("never exceeds the configured tolerance", () => {
+    const fill = simulatePaperFill(buy, draws(0.99, 0.9999));
+    expect(fill.slippageBps).toBeLessThanOrEqual(500);
+    expect(fill.outAmount).toBeGreaterThanOrEqual(950_000);
+  });
+
+  it("nets fees out of sell proceeds", () => {
+    const fill = simulatePaperFill(
+      { ...buy, side: "sell", inAmount: 1_000_000, quotedOutAmount: 200_000_000 },
+      draws(0.5, 0)
+    );
+    expect(fill.outAmount).toBe(200_000_000);
+    expect(fill.solDeltaLamports).toBe(200_000_000 - 55_000);
+  });
+
+  it("charges only the fees when the transaction fails to land", () => {
+    const fill = simulatePaperFill(buy, draws(0.05));
+
+    expect(fill.status).toBe("failed");
+    expect(fill.outAmount).toBe(0);
+    expect(fill.solDeltaLamports).toBe(-55_000);
+    expect(fill.failureReason).toMatch(/10\.0% observed failure rate/);
+  });
+});
+
+describe("estimateFailureRate", () => {
+  it("uses the default until there is live history", () => {
+    expect(estimateFailureRate({ confirmed: 0, failed: 0 })).toBeCloseTo(PAPER_FILL_CONFIG.DEFAULT_FAILURE_RATE);
+  });
+
+  it("converges on the observed rate as confirmations accumulate", () => {
+    expect(estimateFailureRate({ confirmed: 1, failed: 1 })).toBeLessThan(0.2);
+    expect(estimateFailureRate({ confirmed: 600, failed: 400 })).toBeCloseTo(0.394, 2);
+  });
+
+  it("caps the rate so paper trades can still fill", () => {
+    expect(estimateFailureRate({ confirmed: 0, failed: 10_000 })).toBe(PAPER_FILL_CONFIG.MAX_FAILURE_RATE);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyPoolInitLogs,
+  decodeRaydiumInitLog,
+  replayPoolStream,
+  type PoolStreamFixture,
+} from "@/lib/trading-engine/pool-stream";
+import { SOL_MINT, USDC_MINT } from "@/lib/trading-engine/config";
+import fixture from "./fixtures/pool-stream.json";
+
+const recorded = fixture as PoolStreamFixture;
+const NOW = 1_760_000_000_000;
+
+describe("replayPoolStream", () => {
+  it("decodes one pool per program from the recorded stream", async () => {
+    const { pools, stats } = await replayPoolStream(recorded, { now: () => NOW });
+
+    expect(pools).toEqual([
+      expect.objectContaining({
+        tokenAddress: "tdDKPtF1TJTe1JxVwCYgXrX17EhBvXhLrp2HJ5FQJsU",
+        tokenName: "Stream Cat",
+        tokenSymbol: "SCAT",
+        poolAddress: "AzrfcWRu6dCVMTo9tvChPShXKvqPetUZAmkF6ouMHysp",
+        poolType: "pump_fun",
+        baseMint: SOL_MINT,
+        blockHeight: 300000001,
+      }),
+      expect.objectContaining({
+        tokenAddress: "tGbZd5T6aobU6VsNzo19zhcVP2E5Nk2KyLfi3PPntDR",
+        poolAddress: "46Farcft5VYEgw5HCLa5xKR7nZb9ySMd86tVmvsBo4gq",
+        lpTokenMint: "FGk2RdcKiZ63hjCJPm22ZfUh2YxixQo7Py8AuR9CjbBX",
+        poolType: "raydium",
+        baseMint: SOL_MINT,
+        liquidityAmount: 100,
+      }),
+      expect.objectContaining({
+        tokenAddress: "6iJotQ7V9TVCvcNfXokbMqDj2bbVAoGP8Vp6AEy8taH1",
+        poolAddress: "Cqf58ScqWuoKP7B822DnzT4s51AjMKzbN9tekVK72Cqn",
+        poolType: "raydium",
+        baseMint: USDC_MINT,
+        liquidityAmount: 0,
+      }),
+      expect.objectContaining({
+        tokenAddress: "BAfC2uU9rA9ZMXanMS4Qc8Z7u4sHVzGbZFjgD6dYrLoy",
+        poolAddress: "4cBcxzQAXXW8GaUFx5uyrZY4YsGWt7HvvMhWYxrAU6ho",
+        poolType: "orca",
+      }),
+    ]);
+    // Swap, failed tx and token/token pool are dropped; the repeated create is a duplicate
+    expect(stats).toEqual({ received: 8, decoded: 4, duplicates: 1, lastSlot: 300000008 });
+  });
+
+  it("skips mints that are already being processed", async () => {
+    const known = new Set(["tdDKPtF1TJTe1JxVwCYgXrX17EhBvXhLrp2HJ5FQJsU"]);
+    const { pools, stats } = await replayPoolStream(recorded, { isKnown: (mint) => known.has(mint) });
+
+    expect(pools.map((p) => p.poolType)).toEqual(["raydium", "raydium", "orca"]);
+    expect(stats.duplicates).toBe(2);
+  });
+
+  it("only subscribes to the requested programs", async () => {
+    const { pools } = await replayPoolStream(recorded, { programs: ["pumpFun"] });
+
+    expect(pools.map((p) => p.poolType)).toEqual(["pump_fun"]);
+  });
+});
+
+describe("log decoding", () => {
+  it("ignores non-init instructions", () => {
+    expect(classifyPoolInitLogs("raydiumClmm", ["Program log: Instruction: Swap"], "sig", 1)).toBeNull();
+    expect(classifyPoolInitLogs("pumpFun", ["Program log: Instruction: Create"], "sig", 1)).toBeNull();
+  });
+
+  it("rejects ray_log records other than Init", () => {
+    // LogType::SwapBaseIn
+    expect(decodeRaydiumInitLog(btoa(String.fromCharCode(3, ...new Array(60).fill(0))))).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPortfolioAnalytics,
+  getBuyerBucket,
+  positionPnl,
+  type AnalyticsPosition,
+  type AnalyticsTrade,
+  type DiscoveryContext,
+} from "@/lib/portfolioAnalytics";
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse("2026-02-01T00:00:00Z");
+const SOL_PRICE = 200;
+
+let nextId = 0;
+function position(overrides: Partial<AnalyticsPosition> & { pnlPercent: number; openedHour: number; closedHour?: number }): AnalyticsPosition {
+  const { pnlPercent, openedHour, closedHour, ...rest } = overrides;
+  const entrySol = rest.entry_sol ?? 1;
+  return {
+    id: `pos-${++nextId}`,
+    token_address: `Token${nextId}`,
+    token_symbol: `T${nextId}`,
+    status: closedHour === undefined ? "open" : "closed",
+    exit_reason: null,
+    entry_price: 0.001,
+    entry_price_usd: 0.001,
+    entry_sol: entrySol,
+    entry_value: entrySol * SOL_PRICE,
+    profit_loss_percent: pnlPercent,
+    profit_loss_value: entrySol * SOL_PRICE * (pnlPercent / 100),
+    created_at: new Date(START + openedHour * HOUR).toISOString(),
+    closed_at: closedHour === undefined ? null : new Date(START + closedHour * HOUR).toISOString(),
+    ...rest,
+  };
+}
+
+function build(positions: AnalyticsPosition[], trades: AnalyticsTrade[] = [], discoveries: DiscoveryContext[] = []) {
+  return buildPortfolioAnalytics({ positions, trades, discoveries, solPrice: SOL_PRICE, now: START + 100 * HOUR });
+}
+
+describe("positionPnl", () => {
+  it("uses entry size for SOL and the stored value for USD", () => {
+    expect(positionPnl(position({ pnlPercent: 50, openedHour: 0, entry_sol: 2 }), SOL_PRICE)).toEqual({ usd: 200, sol: 1 });
+  });
+
+  it("falls back to entry value and the SOL price for older rows", () => {
+    const older = position({ pnlPercent: -10, openedHour: 0, entry_sol: null, profit_loss_value: null, entry_value: 400 });
+    expect(positionPnl(older, SOL_PRICE)).toEqual({ usd: -40, sol: -0.2 });
+  });
+});
+
+describe("buildPortfolioAnalytics", () => {
+  it("computes win rate, profit factor, hold time and best/worst over closed positions", () => {
+    const win = position({ pnlPercent: 100, openedHour: 0, closedHour: 2, exit_reason: "take_profit" });
+    const loss = position({ pnlPercent: -25, openedHour: 1, closedHour: 5, exit_reason: "stop_loss" });
+    const small = position({ pnlPercent: 10, openedHour: 3, closedHour: 9 });
+
+    const { overall, realized } = build([win, loss, small]);
+
+    expect(overall.trades).toBe(3);
+    expect(overall.winRate).toBeCloseTo(2 / 3);
+    expect(overall.profitFactor).toBeCloseTo((200 + 20) / 50);
+    expect(overall.avgHoldMs).toBe(4 * HOUR);
+    expect(overall.best?.positionId).toBe(win.id);
+    expect(overall.worst?.positionId).toBe(loss.id);
+    expect(realized).toEqual({ usd: 170, sol: 0.85 });
+  });
+
+  it("has no profit factor without losing trades", () => {
+    expect(build([position({ pnlPercent: 20, openedHour: 0, closedHour: 1 })]).overall.profitFactor).toBeNull();
+  });
+
+  it("keeps open positions unrealized and ends the equity curve with them", () => {
+    const closed = position({ pnlPercent: 50, openedHour: 0, closedHour: 4 });
+    const open = position({ pnlPercent: -20, openedHour: 2 });
+
+    const analytics = build([closed, open]);
+
+    expect(analytics.openPositions).toBe(1);
+    expect(analytics.unrealized).toEqual({ usd: -40, sol: -0.2 });
+    expect(analytics.equityCurve).toEqual([
+      { time: START + 4 * HOUR, usd: 100, sol: 0.5 },
+      { time: START + 100 * HOUR, usd: 60, sol: 0.3 },
+    ]);
+  });
+
+  it("counts partial take-profit sells on open positions as realized", () => {
+    const open = position({ pnlPercent: 0, openedHour: 0, token_address: "Partial", entry_price_usd: 0.001 });
+    const sell: AnalyticsTrade = {
+      token_address: "partial",
+      trade_type: "sell",
+      amount: 100_000,
+      price_sol: 0.003,
+      price_usd: null,
+      exit_reason: "partial_take_profit",
+      created_at: new Date(START + 1 * HOUR).toISOString(),
+    };
+
+    const analytics = build([open], [sell]);
+
+    expect(analytics.partialRealized).toEqual({ usd: 200, sol: 1 });
+    expect(analytics.realized).toEqual({ usd: 200, sol: 1 });
+    expect(analytics.overall.trades).toBe(0);
+    expect(analytics.equityCurve[0]).toEqual({ time: START + HOUR, usd: 200, sol: 1 });
+  });
+
+  it("splits stats by discovery source, exit reason and buyer bucket", () => {
+    const a = position({ pnlPercent: 40, openedHour: 0, closedHour: 1, exit_reason: "take_profit" });
+    const b = position({ pnlPercent: -10, openedHour: 0, closedHour: 2 });
+    const c = position({ pnlPercent: 5, openedHour: 0, closedHour: 3, exit_reason: "take_profit" });
+    const discoveries: DiscoveryContext[] = [
+      { positionId: a.id, tokenAddress: a.token_address, source: "pumpfun", buyerPosition: 3 },
+      // No position link: matched by token
+      { positionId: null, tokenAddress: b.token_address.toUpperCase(), source: "raydium", buyerPosition: 14 },
+    ];
+
+    const analytics = build([a, b, c], [], discoveries);
+
+    expect(analytics.bySource.map((g) => [g.key, g.trades])).toEqual([
+      ["pumpfun", 1],
+      ["raydium", 1],
+      ["unknown", 1],
+    ]);
+    expect(analytics.byExitReason.map((g) => [g.label, g.trades, g.winRate])).toEqual([
+      ["Take Profit", 2, 1],
+      ["Manual", 1, 0],
+    ]);
+    expect(analytics.byBuyerBucket.map((g) => g.key)).toEqual(["1-5", "11-20", "unknown"]);
+  });
+});
+
+describe("getBuyerBucket", () => {
+  it("buckets buyer positions and treats missing ones as unknown", () => {
+    expect([1, 5, 6, 20, 21, 51].map(getBuyerBucket)).toEqual(["1-5", "1-5", "6-10", "11-20", "21-50", "51+"]);
+    expect(getBuyerBucket(null)).toBe("unknown");
+    expect(getBuyerBucket(0)).toBe("unknown");
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_GUARDIAN_CONFIG,
+  evaluateGuardian,
+  parseGuardianConfig,
+  parseGuardianState,
+  runGuardianCheck,
+  type GuardianSample,
+  type GuardianState,
+} from "@shared/position-guardian";
+import type { RpcCall } from "@shared/holder-clusters";
+
+const SUPPLY = 1_000_000;
+
+const baseState = (overrides: Partial<GuardianState> = {}): GuardianState => ({
+  supply: SUPPLY,
+  creator: "dev",
+  poolAccounts: ["pool"],
+  creatorAccounts: ["dev-ata"],
+  holderAccounts: ["h1", "h2"],
+  creatorPeak: 50_000,
+  holdersPeak: 100_000,
+  samples: [],
+  trigger: null,
+  ...overrides,
+});
+
+const sample = (slot: number, overrides: Partial<GuardianSample> = {}): GuardianSample => ({
+  slot,
+  at: new Date(slot * 400).toISOString(),
+  poolReserve: 400_000,
+  poolValue: 400_000,
+  creatorBalance: 50_000,
+  holdersBalance: 100_000,
+  ...overrides,
+});
+
+describe("evaluateGuardian", () => {
+  it("holds while pool, creator and holders are steady", () => {
+    const state = baseState({ samples: [sample(1000)] });
+    const { trigger, state: next } = evaluateGuardian(state, sample(1100));
+
+    expect(trigger).toBeNull();
+    expect(next.samples.map((s) => s.slot)).toEqual([1000, 1100]);
+  });
+
+  it("flags a liquidity drop within the window", () => {
+    const state = baseState({ samples: [sample(1000)] });
+    // Heavy selling: more tokens in the pool, much lower price
+    const { trigger } = evaluateGuardian(state, sample(1100, { poolReserve: 600_000, poolValue: 240_000 }));
+
+    expect(trigger?.reason).toBe("emergency_liquidity_drop");
+  });
+
+  it("ignores the same drop spread over more than the window", () => {
+    const state = baseState({ samples: [sample(1000)] });
+    const { trigger } = evaluateGuardian(state, sample(2000, { poolReserve: 600_000, poolValue: 240_000 }));
+
+    expect(trigger).toBeNull();
+  });
+
+  it("flags LP removal even when the previous sample is outside the window", () => {
+    const state = baseState({ samples: [sample(1000)] });
+    const { trigger } = evaluateGuardian(state, sample(5000, { poolReserve: 1_000, poolValue: 900 }));
+
+    expect(trigger?.reason).toBe("emergency_lp_removed");
+  });
+
+  it("does not mistake a large buy for LP removal", () => {
+    const state = baseState({ samples: [sample(1000)] });
+    // Reserve down 95% but the price rose far more - pool value went up
+    const { trigger } = evaluateGuardian(state, sample(1050, { poolReserve: 20_000, poolValue: 8_000_000 }));
+
+    expect(trigger).toBeNull();
+  });
+
+  it("flags the creator selling more than the threshold share of supply", () => {
+    const state = baseState({ samples: [sample(1000)] });
+    const { trigger } = evaluateGuardian(state, sample(1100, { creatorBalance: 20_000 }));
+
+    expect(trigger?.reason).toBe("emergency_dev_sell");
+    expect(trigger?.detail).toContain("3.00%");
+  });
+
+  it("flags top holders dumping together", () => {
+    const state = baseState({ holdersPeak: 200_000, samples: [sample(1000, { holdersBalance: 200_000 })] });
+    const { trigger } = evaluateGuardian(state, sample(1100, { holdersBalance: 50_000 }));
+
+    expect(trigger?.reason).toBe("emergency_holder_dump");
+  });
+
+  it("keeps a trigger until the position is closed", () => {
+    const first = evaluateGuardian(baseState({ samples: [sample(1000)] }), sample(1100, { creatorBalance: 0 }));
+    const second = evaluateGuardian(first.state, sample(1200, { creatorBalance: 0 }));
+
+    expect(second.trigger?.reason).toBe("emergency_dev_sell");
+  });
+});
+
+describe("parseGuardianConfig", () => {
+  it("falls back to defaults for missing or out-of-range values", () => {
+    expect(parseGuardianConfig(null)).toEqual(DEFAULT_GUARDIAN_CONFIG);
+    expect(parseGuardianConfig({ enabled: false, liquidityDropPercent: 150, devSellPercent: "5" })).toEqual({
+      ...DEFAULT_GUARDIAN_CONFIG,
+      enabled: false,
+      devSellPercent: 5,
+    });
+  });
+});
+
+describe("runGuardianCheck", () => {
+  it("sets up the watch list on first sight, excluding our own wallet", async () => {
+    const parsed = (owner: string, amount: number) => ({ owner, data: { parsed: { info: { owner, tokenAmount: { amount: String(amount) } } } } });
+    const tokenAccounts: Record<string, ReturnType<typeof parsed>> = {
+      pool: parsed("amm-authority", 400_000),
+      "ata-me": parsed("me", 100_000),
+      "ata-whale": parsed("whale", 80_000),
+      "dev-ata": parsed("dev", 50_000),
+    };
+    const owners: Record<string, { owner: string }> = {
+      "amm-authority": { owner: "AmmProgram" },
+      me: { owner: "11111111111111111111111111111111" },
+      whale: { owner: "11111111111111111111111111111111" },
+    };
+    const rpc: RpcCall = async (method, params) => {
+      switch (method) {
+        case "getTokenLargestAccounts":
+          return { value: [{ address: "pool", amount: "400000" }, { address: "ata-me", amount: "100000" }, { address: "ata-whale", amount: "80000" }] };
+        case "getTokenSupply":
+          return { value: { amount: String(SUPPLY) } };
+        case "getTokenAccountsByOwner":
+          return { value: [{ pubkey: "dev-ata" }] };
+        case "getMultipleAccounts": {
+          const keys = params[0] as string[];
+          const byKey = (key: string) => tokenAccounts[key] ?? owners[key] ?? null;
+          return { context: { slot: 1234 }, value: keys.map(byKey) };
+        }
+        default:
+          throw new Error(`unexpected ${method}`);
+      }
+    };
+
+    const { trigger, state } = await runGuardianCheck(rpc, {
+      mint: "mint",
+      owner: "me",
+      creator: "dev",
+      state: null,
+      priceUsd: 1,
+      config: DEFAULT_GUARDIAN_CONFIG,
+    });
+
+    expect(trigger).toBeNull();
+    expect(state.poolAccounts).toEqual(["pool"]);
+    expect(state.holderAccounts).toEqual(["ata-whale"]);
+    expect(state.creatorAccounts).toEqual(["dev-ata"]);
+    expect(state.samples).toEqual([expect.objectContaining({ slot: 1234, poolReserve: 400_000, creatorBalance: 50_000, holdersBalance: 80_000 })]);
+    expect(parseGuardianState(JSON.parse(JSON.stringify(state)))).toEqual(state);
+  });
+});
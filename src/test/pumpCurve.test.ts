@@ -0,0 +1,196 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import {
+  DEFAULT_CURVE_ENTRY_CONFIG,
+  PUMP_CURVE,
+  PUMP_FUN_PROGRAM_ID,
+  checkCurveEntry,
+  decodeBondingCurve,
+  detectMigrationVenue,
+  fetchBondingCurve,
+  findBondingCurveAddress,
+  getCurveProgress,
+  isOnCurve,
+  parseCurveEntryConfig,
+  quoteCurveBuy,
+  quoteCurveSell,
+  resolveCurveRoute,
+  toCurveSnapshot,
+  venueFromRouteLabels,
+  type BondingCurveState,
+  type RouteQuoteFetcher,
+} from "@shared/pump-curve";
+import type { RpcCall } from "@shared/holder-clusters";
+
+const MINT = "tdDKPtF1TJTe1JxVwCYgXrX17EhBvXhLrp2HJ5FQJsU";
+
+const freshCurve = (): BondingCurveState => ({
+  virtualTokenReserves: PUMP_CURVE.INITIAL_VIRTUAL_TOKEN_RESERVES,
+  virtualSolReserves: PUMP_CURVE.INITIAL_VIRTUAL_SOL_RESERVES,
+  realTokenReserves: PUMP_CURVE.INITIAL_REAL_TOKEN_RESERVES,
+  realSolReserves: 0,
+  tokenTotalSupply: 1_000_000_000_000_000,
+  complete: false,
+  creator: null,
+});
+
+// Curve after `solIn` SOL of buys (fees ignored)
+const curveAfterBuys = (solIn: number): BondingCurveState => {
+  const curve = freshCurve();
+  const lamports = solIn * 1e9;
+  const k = curve.virtualSolReserves * curve.virtualTokenReserves;
+  const tokensOut = curve.virtualTokenReserves - k / (curve.virtualSolReserves + lamports);
+  return {
+    ...curve,
+    virtualSolReserves: curve.virtualSolReserves + lamports,
+    virtualTokenReserves: curve.virtualTokenReserves - tokensOut,
+    realSolReserves: lamports,
+    realTokenReserves: curve.realTokenReserves - tokensOut,
+  };
+};
+
+function encodeCurve(state: BondingCurveState): Uint8Array {
+  const bytes = new Uint8Array(81);
+  bytes.set([23, 183, 248, 55, 96, 216, 172, 96]);
+  const view = new DataView(bytes.buffer);
+  [state.virtualTokenReserves, state.virtualSolReserves, state.realTokenReserves, state.realSolReserves, state.tokenTotalSupply]
+    .forEach((value, i) => view.setBigUint64(8 + i * 8, BigInt(Math.round(value)), true));
+  bytes[48] = state.complete ? 1 : 0;
+  bytes.set(new PublicKey(MINT).toBytes(), 49);
+  return bytes;
+}
+
+describe("curve math", () => {
+  it("prices a fresh curve at the launch price with no progress", () => {
+    const snapshot = toCurveSnapshot("curve", freshCurve());
+
+    expect(snapshot.priceSol).toBeCloseTo(30 / 1_073_000_000, 15);
+    expect(snapshot.progress).toBe(0);
+  });
+
+  it("reports progress from the real token reserves", () => {
+    expect(getCurveProgress(curveAfterBuys(20))).toBeGreaterThan(50);
+    expect(getCurveProgress(curveAfterBuys(20))).toBeLessThan(60);
+    expect(getCurveProgress({ ...curveAfterBuys(20), complete: true })).toBe(100);
+  });
+
+  it("quotes buys with fee and growing impact", () => {
+    const small = quoteCurveBuy(freshCurve(), 0.1)!;
+    const large = quoteCurveBuy(freshCurve(), 5)!;
+
+    expect(small.feeSol).toBeCloseTo(0.001, 9);
+    expect(small.priceImpactPercent).toBeGreaterThan(1); // the 1% fee alone
+    expect(small.priceImpactPercent).toBeLessThan(2);
+    expect(large.priceImpactPercent).toBeGreaterThan(15);
+    expect(quoteCurveBuy({ ...freshCurve(), complete: true }, 1)).toBeNull();
+  });
+
+  it("sells back for less than was paid", () => {
+    const buy = quoteCurveBuy(freshCurve(), 1)!;
+    const afterBuy = curveAfterBuys(0.99);
+    const sell = quoteCurveSell(afterBuy, buy.amountOut)!;
+
+    expect(sell.amountOut).toBeLessThan(1);
+    expect(sell.amountOut).toBeGreaterThan(0.97);
+  });
+
+  it("decodes the on-chain account layout", () => {
+    const state = { ...curveAfterBuys(3), virtualTokenReserves: 1_000_000_000_000_000, realTokenReserves: 700_000_000_000_000 };
+    const decoded = decodeBondingCurve(encodeCurve(state))!;
+
+    expect(decoded.virtualTokenReserves).toBe(1_000_000_000_000_000);
+    expect(decoded.realSolReserves).toBe(3_000_000_000);
+    expect(decoded.complete).toBe(false);
+    expect(decoded.creator).toBe(MINT);
+    expect(decodeBondingCurve(new Uint8Array(81))).toBeNull();
+  });
+});
+
+describe("address derivation", () => {
+  it("matches web3.js for the bonding-curve PDA", async () => {
+    const [expected] = PublicKey.findProgramAddressSync(
+      [new TextEncoder().encode("bonding-curve"), new PublicKey(MINT).toBytes()],
+      new PublicKey(PUMP_FUN_PROGRAM_ID)
+    );
+
+    expect(await findBondingCurveAddress(MINT)).toBe(expected.toBase58());
+  });
+
+  it("agrees with web3.js on which keys are on the curve", () => {
+    const keys = [MINT, PUMP_FUN_PROGRAM_ID, "So11111111111111111111111111111111111111112"];
+    for (const key of keys) {
+      const bytes = new PublicKey(key).toBytes();
+      expect(isOnCurve(bytes)).toBe(PublicKey.isOnCurve(bytes));
+    }
+  });
+
+  it("reads the curve account over RPC and ignores foreign owners", async () => {
+    const data = btoa(String.fromCharCode(...encodeCurve(curveAfterBuys(10))));
+    const rpc = (owner: string): RpcCall => async () => ({ value: { owner, data: [data, "base64"] } });
+
+    const curve = await fetchBondingCurve(rpc(PUMP_FUN_PROGRAM_ID), MINT, "curve-address");
+    expect(curve).toMatchObject({ address: "curve-address", complete: false });
+    expect(curve!.progress).toBeGreaterThan(10);
+    expect(await fetchBondingCurve(rpc("SomeOtherProgram"), MINT, "curve-address")).toBeNull();
+  });
+});
+
+describe("curve entry mode", () => {
+  const config = { ...DEFAULT_CURVE_ENTRY_CONFIG, enabled: true, minProgress: 10, maxProgress: 50 };
+
+  it("buys inside the progress window", () => {
+    const curve = toCurveSnapshot("curve", curveAfterBuys(15));
+    expect(checkCurveEntry(curve, config, 0.1)).toMatchObject({ code: "CURVE_OK", severity: "pass" });
+  });
+
+  it("rejects outside the window, on high impact, and when disabled", () => {
+    expect(checkCurveEntry(toCurveSnapshot("c", freshCurve()), config, 0.1).code).toBe("CURVE_WINDOW");
+    expect(checkCurveEntry(toCurveSnapshot("c", curveAfterBuys(15)), config, 10).code).toBe("CURVE_IMPACT");
+    expect(checkCurveEntry(toCurveSnapshot("c", curveAfterBuys(15)), DEFAULT_CURVE_ENTRY_CONFIG, 0.1).code).toBe("CURVE_ENTRY_DISABLED");
+  });
+
+  it("falls back to defaults for an inverted window", () => {
+    expect(parseCurveEntryConfig({ enabled: true, minProgress: 80, maxProgress: 20 })).toEqual({
+      ...DEFAULT_CURVE_ENTRY_CONFIG,
+      enabled: true,
+    });
+  });
+});
+
+describe("migration routing", () => {
+  it("sells into the curve until it completes, then through the AMM", () => {
+    expect(resolveCurveRoute({ complete: false })).toEqual({ stage: "BONDING_CURVE", exitRoute: "pump_curve" });
+    expect(resolveCurveRoute({ complete: true }, venueFromRouteLabels(["Pump.fun Amm"]))).toEqual({ stage: "MIGRATED", exitRoute: "pumpswap" });
+    expect(resolveCurveRoute({ complete: true }, venueFromRouteLabels(["Raydium CPMM"]))).toEqual({ stage: "MIGRATED", exitRoute: "raydium" });
+    expect(resolveCurveRoute({ complete: true })).toEqual({ stage: "MIGRATED", exitRoute: "jupiter" });
+    expect(resolveCurveRoute(null)).toEqual({ stage: null, exitRoute: "jupiter" });
+  });
+
+  it("finds the venue of a migrated token from a sell quote into SOL", async () => {
+    const requests: Parameters<RouteQuoteFetcher>[0][] = [];
+    const quoteVia = (labels: string[]): RouteQuoteFetcher => async (params) => {
+      requests.push(params);
+      return { ok: true, quote: { routePlan: labels.map((label) => ({ swapInfo: { label } })) } };
+    };
+
+    const venue = await detectMigrationVenue(MINT, quoteVia(["Pump.fun Amm"]), 1500);
+
+    expect(venue).toBe("pumpswap");
+    expect(resolveCurveRoute({ complete: true }, venue)).toEqual({ stage: "MIGRATED", exitRoute: "pumpswap" });
+    expect(requests[0]).toEqual({
+      inputMint: MINT,
+      outputMint: "So11111111111111111111111111111111111111112",
+      amount: "1000000",
+      slippageBps: 1500,
+    });
+    expect(await detectMigrationVenue(MINT, quoteVia(["Raydium CPMM", "Meteora DLMM"]), 1500)).toBe("raydium");
+  });
+
+  it("leaves the venue unknown while no route exists yet", async () => {
+    const venue = await detectMigrationVenue(MINT, async () => ({ ok: false }), 1500);
+
+    expect(venue).toBeNull();
+    expect(resolveCurveRoute({ complete: true }, venue)).toEqual({ stage: "MIGRATED", exitRoute: "jupiter" });
+  });
+});
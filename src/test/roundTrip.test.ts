@@ -0,0 +1,192 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { PublicKey } from "@solana/web3.js";
+import {
+  getWritableAccountKeys,
+  measureTaxPercent,
+  readTokenAccount,
+  simulateRoundTrip,
+  type SwapBuilder,
+} from "@shared/round-trip";
+
+const probe = new PublicKey("7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU");
+const tokenAccount = new PublicKey("9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM");
+const program = new PublicKey("JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4");
+const mint = new PublicKey("DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263");
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+
+// Legacy message: probe (signer, writable), token account (writable), program (readonly)
+function buildTransaction(): string {
+  const bytes = new Uint8Array(1 + 64 + 3 + 1 + 3 * 32);
+  bytes[0] = 1;
+  bytes.set([1, 0, 1, 3], 65);
+  [probe, tokenAccount, program].forEach((key, i) => bytes.set(key.toBytes(), 69 + i * 32));
+  return toBase64(bytes);
+}
+
+function tokenAccountData(amount: bigint): string {
+  const bytes = new Uint8Array(165);
+  bytes.set(mint.toBytes(), 0);
+  bytes.set(probe.toBytes(), 32);
+  new DataView(bytes.buffer).setBigUint64(64, amount, true);
+  return toBase64(bytes);
+}
+
+function mockRpc(handlers: Record<string, (params: unknown[]) => unknown>) {
+  return async (_url: string, init?: RequestInit) => {
+    const { method, params } = JSON.parse(String(init?.body));
+    return new Response(JSON.stringify({ result: handlers[method](params) }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+}
+
+const buildSwap: SwapBuilder = async (side) => ({
+  transaction: buildTransaction(),
+  expectedOut: side === "buy" ? "1000000" : "9800000",
+});
+
+const buySucceeds = {
+  simulateTransaction: () => ({
+    value: { err: null, logs: [], accounts: [null, { data: [tokenAccountData(950_000n), "base64"] }] },
+  }),
+  getAccountInfo: () => ({ value: null }),
+};
+
+describe("round-trip decoding", () => {
+  it("lists writable static keys and reads token accounts", () => {
+    expect(getWritableAccountKeys(buildTransaction())).toEqual([probe.toBase58(), tokenAccount.toBase58()]);
+    expect(readTokenAccount(tokenAccountData(42n))).toEqual({
+      mint: mint.toBase58(),
+      owner: probe.toBase58(),
+      amount: 42n,
+    });
+  });
+
+  it("measures tax as the missing share of the quote", () => {
+    expect(measureTaxPercent(1000n, 950n)).toBe(5);
+    expect(measureTaxPercent(1000n, 1200n)).toBe(0);
+    expect(measureTaxPercent(1000n, 0n)).toBe(100);
+  });
+});
+
+describe("simulateRoundTrip", () => {
+  const options = { rpcUrl: "http://rpc", mint: mint.toBase58(), probeWallet: probe.toBase58(), buildSwap };
+
+  it("measures buy and sell tax from balance deltas", async () => {
+    const result = await simulateRoundTrip({
+      ...options,
+      fetchImpl: mockRpc({
+        ...buySucceeds,
+        simulateBundle: () => ({
+          value: {
+            summary: "succeeded",
+            transactionResults: [
+              { err: null, logs: [], preExecutionAccounts: null, postExecutionAccounts: null },
+              {
+                err: null,
+                logs: [],
+                preExecutionAccounts: [{ lamports: 50_000_000 }],
+                // 8.82M back after the 5000 lamport fee -> 10% under the 9.8M quote
+                postExecutionAccounts: [{ lamports: 50_000_000 + 8_820_000 - 5_000 }],
+              },
+            ],
+          },
+        }),
+      }),
+    });
+
+    expect(result).toMatchObject({
+      status: "measured",
+      buyTaxPercent: 5,
+      sellTaxPercent: 10,
+      tokensReceived: "950000",
+      solReturned: "8820000",
+    });
+  });
+
+  it("flags a honeypot when the sell reverts", async () => {
+    const result = await simulateRoundTrip({
+      ...options,
+      fetchImpl: mockRpc({
+        ...buySucceeds,
+        simulateBundle: () => ({
+          value: {
+            summary: { failed: { error: "TransactionFailure", tx_signature: null } },
+            transactionResults: [
+              { err: null, logs: [], preExecutionAccounts: null, postExecutionAccounts: null },
+              {
+                err: { InstructionError: [2, { Custom: 17 }] },
+                logs: ["Program log: Error: Account is frozen"],
+                preExecutionAccounts: null,
+                postExecutionAccounts: null,
+              },
+            ],
+          },
+        }),
+      }),
+    });
+
+    expect(result).toMatchObject({ status: "honeypot", buyTaxPercent: 5, sellTaxPercent: 100 });
+    expect(result.failure?.kind).toBe("frozen_account");
+  });
+
+  it("is unavailable, not a honeypot, when the sell reverts for a non-token reason", async () => {
+    const result = await simulateRoundTrip({
+      ...options,
+      fetchImpl: mockRpc({
+        ...buySucceeds,
+        simulateBundle: () => ({
+          value: {
+            summary: { failed: { error: "TransactionFailure", tx_signature: null } },
+            transactionResults: [
+              { err: null, logs: [], preExecutionAccounts: null, postExecutionAccounts: null },
+              {
+                err: { InstructionError: [3, { Custom: 6001 }] },
+                logs: ["Program log: Error: SlippageToleranceExceeded"],
+                preExecutionAccounts: null,
+                postExecutionAccounts: null,
+              },
+            ],
+          },
+        }),
+      }),
+    });
+
+    expect(result).toMatchObject({ status: "unavailable", sellTaxPercent: null, buyTaxPercent: 5 });
+    expect(result.failure?.kind).toBe("slippage_exceeded");
+  });
+
+  it("is unavailable when the buy leg fails inside the bundle", async () => {
+    const result = await simulateRoundTrip({
+      ...options,
+      fetchImpl: mockRpc({
+        ...buySucceeds,
+        simulateBundle: () => ({
+          value: {
+            summary: { failed: { error: "BlockhashNotFound", tx_signature: null } },
+            transactionResults: [],
+          },
+        }),
+      }),
+    });
+
+    expect(result).toMatchObject({ status: "unavailable", sellTaxPercent: null });
+  });
+
+  it("is unavailable when the RPC cannot simulate bundles", async () => {
+    const result = await simulateRoundTrip({
+      ...options,
+      fetchImpl: async (url, init) => {
+        const { method } = JSON.parse(String(init?.body));
+        if (method === "simulateBundle") {
+          return new Response(JSON.stringify({ error: { code: -32601, message: "Method not found" } }));
+        }
+        return mockRpc(buySucceeds)(url, init);
+      },
+    });
+
+    expect(result).toMatchObject({ status: "unavailable", sellTaxPercent: null, error: "Method not found" });
+  });
+});
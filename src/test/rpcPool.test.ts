@@ -0,0 +1,174 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  RPC_POOL_CONFIG,
+  buildRpcEndpoints,
+  createRpcPool,
+  parseRpcEndpointSettings,
+  scoreEndpoint,
+  type FetchLike,
+  type RpcMetric,
+} from "@shared/rpc-pool";
+
+type Handler = (method: string, params: unknown[]) => { status?: number; result?: unknown; error?: string };
+
+// Mock endpoints keyed by URL; records which URL served each method
+function mockRpc(handlers: Record<string, Handler>) {
+  const calls: string[] = [];
+  const fetchImpl: FetchLike = async (url, init) => {
+    const { method, params } = JSON.parse(String(init?.body));
+    calls.push(`${url} ${method}`);
+    const reply = handlers[url](method, params);
+    if (reply.status && reply.status !== 200) return new Response("busy", { status: reply.status });
+    const body = reply.error ? { error: { code: -32602, message: reply.error } } : { result: reply.result };
+    return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, ...body }), { status: 200 });
+  };
+  return { calls, fetchImpl };
+}
+
+const ENDPOINTS = [
+  { name: "primary", url: "http://a" },
+  { name: "helius", url: "http://b" },
+];
+
+describe("endpoint settings", () => {
+  it("orders Helius first when enabled and drops duplicates", () => {
+    const settings = parseRpcEndpointSettings({
+      primary: "https://api.mainnet-beta.solana.com",
+      helius: "https://mainnet.helius-rpc.com/?api-key=x",
+      quicknode: "not a url",
+      useHelius: true,
+    });
+
+    expect(buildRpcEndpoints(settings, ["https://api.mainnet-beta.solana.com/", undefined]).map((e) => e.name)).toEqual([
+      "helius",
+      "primary",
+    ]);
+  });
+
+  it("falls back to the public RPC when nothing is configured", () => {
+    expect(buildRpcEndpoints(parseRpcEndpointSettings(null))).toEqual([
+      { name: "public", url: RPC_POOL_CONFIG.PUBLIC_RPC_URL },
+    ]);
+  });
+});
+
+describe("scoring", () => {
+  it("penalizes errors and slot lag on top of latency", () => {
+    const fresh = scoreEndpoint({ latencyMs: 300, errorRate: 0, slot: 1000, cooldownUntil: 0 }, 1000);
+    const lagging = scoreEndpoint({ latencyMs: 100, errorRate: 0, slot: 995, cooldownUntil: 0 }, 1000);
+    const flaky = scoreEndpoint({ latencyMs: 100, errorRate: 0.5, slot: 1000, cooldownUntil: 0 }, 1000);
+
+    expect(lagging.slotLag).toBe(5);
+    expect(fresh.score).toBeLessThan(lagging.score);
+    expect(fresh.score).toBeLessThan(flaky.score);
+  });
+});
+
+describe("createRpcPool", () => {
+  it("fails over on 429 and cools the endpoint down", async () => {
+    let clock = 1_000;
+    const metrics: RpcMetric[] = [];
+    const { calls, fetchImpl } = mockRpc({
+      "http://a": () => ({ status: 429 }),
+      "http://b": (method) => ({ result: method === "getSlot" ? 500 : { value: 42 } }),
+    });
+    const pool = createRpcPool(ENDPOINTS, { fetchImpl, now: () => clock, onMetric: (m) => metrics.push(m) });
+
+    expect(await pool.call("getBalance", ["wallet"])).toEqual({ value: 42 });
+    expect(pool.current().name).toBe("helius");
+    expect(metrics.filter((m) => m.method === "getBalance").map((m) => [m.endpoint, m.success, m.statusCode])).toEqual([
+      ["primary (a)", false, 429],
+      ["helius (b)", true, 200],
+    ]);
+
+    // Still cooling down - the next read goes straight to helius
+    calls.length = 0;
+    clock += 1_000;
+    await pool.call("getBalance", ["wallet"]);
+    expect(calls).toEqual(["http://b getBalance"]);
+  });
+
+  it("does not fail over on JSON-RPC errors", async () => {
+    const { calls, fetchImpl } = mockRpc({
+      "http://a": () => ({ error: "Invalid param" }),
+      "http://b": () => ({ result: 1 }),
+    });
+    const pool = createRpcPool(ENDPOINTS, { fetchImpl });
+
+    await expect(pool.call("getAccountInfo", ["x"])).rejects.toThrow("Invalid param");
+    expect(calls.filter((c) => c.endsWith("getAccountInfo"))).toEqual(["http://a getAccountInfo"]);
+  });
+
+  it("routes reads away from an endpoint that lags behind", async () => {
+    const { calls, fetchImpl } = mockRpc({
+      "http://a": (method) => ({ result: method === "getSlot" ? 900 : "a" }),
+      "http://b": (method) => ({ result: method === "getSlot" ? 1000 : "b" }),
+    });
+    const pool = createRpcPool(ENDPOINTS, { fetchImpl });
+    await pool.refreshSlots();
+    calls.length = 0;
+
+    expect(await pool.call("getLatestBlockhash", [])).toBe("b");
+    expect(pool.scores().map((s) => [s.name, s.slotLag])).toEqual([["helius", 0], ["primary", 100]]);
+  });
+
+  it("broadcasts sends and succeeds if any endpoint accepts", async () => {
+    const { calls, fetchImpl } = mockRpc({
+      "http://a": () => ({ status: 503 }),
+      "http://b": () => ({ result: "5igSig" }),
+    });
+    const pool = createRpcPool(ENDPOINTS, { fetchImpl });
+
+    const sent = await pool.broadcast("AAAA", { maxRetries: 3 });
+
+    expect(sent).toEqual({ signature: "5igSig", accepted: ["helius"], rejected: { primary: expect.stringContaining("503") } });
+    expect(calls.filter((c) => c.endsWith("sendTransaction"))).toHaveLength(2);
+  });
+
+  it("resolves with the first accepted send without waiting for a slow endpoint", async () => {
+    let releaseSlow: () => void = () => {};
+    const slow = new Promise<void>((resolve) => {
+      releaseSlow = resolve;
+    });
+    const fetchImpl: FetchLike = async (url) => {
+      if (url === "http://a") await slow;
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: url === "http://a" ? "slowSig" : "fastSig" }), { status: 200 });
+    };
+    const pool = createRpcPool(ENDPOINTS, { fetchImpl });
+
+    const sent = await pool.broadcast("AAAA");
+    releaseSlow();
+
+    expect(sent).toEqual({ signature: "fastSig", accepted: ["helius"], rejected: {} });
+  });
+
+  it("fails with every endpoint's error once all sends are rejected", async () => {
+    const { fetchImpl } = mockRpc({
+      "http://a": () => ({ status: 503 }),
+      "http://b": () => ({ error: "Blockhash not found" }),
+    });
+    const pool = createRpcPool(ENDPOINTS, { fetchImpl });
+
+    const error: Error = await pool.broadcast("AAAA").catch((e) => e);
+
+    expect(error.message).toMatch(/^sendTransaction failed on every endpoint/);
+    expect(error.message).toMatch(/primary: .*503/);
+    expect(error.message).toMatch(/helius: .*Blockhash not found/);
+  });
+
+  it("serves fetch-based helpers through the pool", async () => {
+    const { fetchImpl } = mockRpc({
+      "http://a": () => ({ status: 502 }),
+      "http://b": () => ({ result: { value: { err: null } } }),
+    });
+    const pool = createRpcPool(ENDPOINTS, { fetchImpl });
+
+    const res = await pool.fetch("http://ignored", {
+      method: "POST",
+      body: JSON.stringify({ jsonrpc: "2.0", id: 7, method: "simulateTransaction", params: ["AAAA"] }),
+    });
+
+    expect(await res.json()).toEqual({ jsonrpc: "2.0", id: 7, result: { value: { err: null } } });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRuleContext,
+  checkEntryRule,
+  evaluateEntryRules,
+  evaluateRule,
+  parseEntryRules,
+  parseRule,
+  type RuleContext,
+  type RuleTokenInput,
+} from "@shared/rule-dsl";
+
+const NOW = Date.parse("2026-02-06T12:00:00Z");
+
+const token = (overrides: Partial<RuleTokenInput> = {}): RuleTokenInput => ({
+  address: "So1aNaTokenMint1111111111111111111111111111",
+  name: "Good Dog",
+  symbol: "GDOG",
+  liquidity: 80,
+  buyerPosition: 3,
+  riskScore: 40,
+  holders: 45,
+  categories: ["Animals"],
+  createdAt: new Date(NOW - 12 * 60_000).toISOString(),
+  ...overrides,
+});
+
+const run = (expression: string, context: RuleContext = buildRuleContext(token(), NOW)) => {
+  const parsed = parseRule(expression);
+  if (parsed.ok === false) throw new Error(parsed.error.message);
+  return evaluateRule(parsed.ast, context).result;
+};
+
+const parseError = (expression: string) => {
+  const parsed = parseRule(expression);
+  if (parsed.ok === true) throw new Error(`expected "${expression}" to fail`);
+  return parsed.error;
+};
+
+describe("parseRule", () => {
+  it("accepts the documented example and lists its fields", () => {
+    const parsed = parseRule("liquidity > 50 && buyerPosition <= 4 && !name.matches(/inu/i) && holders >= 30");
+    expect(parsed.ok).toBe(true);
+    expect(parsed.ok && parsed.fields).toEqual(["liquidity", "buyerPosition", "name", "holders"]);
+  });
+
+  it("points at unknown fields and suggests the closest one", () => {
+    const error = parseError("liquidity > 5 && holdrs >= 30");
+    expect(error.message).toBe("Unknown field 'holdrs' - did you mean 'holders'?");
+    expect(error.position).toBe(17);
+    expect(error.length).toBe(6);
+  });
+
+  it.each([
+    ["liquidity = 5", "use '=='"],
+    ["liquidity > 5 and holders > 1", "Use '&&' instead of 'and'"],
+    ["(liquidity > 5", "Expected ')'"],
+    ["name.matches('inu')", "a regex like /inu/i"],
+    ["name > 5", "Expected a number, but 'name' is text"],
+    ["liquidity + 5", "must be a true/false condition"],
+    ["name.matches(/inu/g)", "Unsupported regex flag 'g'"],
+    ["name.contains('x')", "did you mean 'includes'?"],
+    ["", "Rule is empty"],
+  ])("rejects %j", (expression, message) => {
+    expect(parseError(expression).message).toContain(message);
+  });
+
+  it("treats / after a value as division", () => {
+    expect(run("marketCap / liquidity > 100", { marketCap: 20_000, liquidity: 100 })).toBe(true);
+  });
+});
+
+describe("evaluateRule", () => {
+  it("evaluates comparisons, string methods and list membership", () => {
+    expect(run("liquidity > 50 && buyerPosition <= 4 && !name.matches(/inu/i) && holders >= 30")).toBe(true);
+    expect(run("name.matches(/dog/i) && symbol.startsWith('G')")).toBe(true);
+    expect(run("categories.includes('animals')")).toBe(true);
+    expect(run("ageMinutes < 15")).toBe(true);
+  });
+
+  it("returns unknown when a field is missing, unless the rule tests for null", () => {
+    const context = buildRuleContext(token({ holders: null }), NOW);
+    expect(run("holders >= 30", context)).toBeNull();
+    expect(run("holders == null || holders >= 30", context)).toBe(true);
+    expect(run("liquidity < 10 && holders >= 30", context)).toBe(false);
+  });
+});
+
+describe("entry rules", () => {
+  const context = buildRuleContext(token({ holders: 12 }), NOW);
+
+  it("records the failing clause and the values it saw", () => {
+    const reason = checkEntryRule({ id: "r1", expression: "liquidity > 50 && holders >= 30", enabled: true }, context);
+    expect(reason).toEqual({
+      code: "ENTRY_RULE_FAILED",
+      message: 'Rule "liquidity > 50 && holders >= 30" failed at holders >= 30 (holders = 12)',
+      severity: "reject",
+    });
+  });
+
+  it("fails closed on invalid and unknown rules", () => {
+    expect(checkEntryRule({ id: "r1", expression: "holders >>= 3", enabled: true }, context).code).toBe("ENTRY_RULE_INVALID");
+    expect(checkEntryRule({ id: "r2", expression: "marketCap > 1000", enabled: true }, context).code).toBe("ENTRY_RULE_UNKNOWN");
+  });
+
+  it("skips disabled rules and requires every enabled one", () => {
+    const verdict = evaluateEntryRules(
+      [
+        { id: "a", expression: "liquidity > 50", enabled: true },
+        { id: "b", expression: "holders >= 30", enabled: false },
+      ],
+      context
+    );
+    expect(verdict.approved).toBe(true);
+    expect(verdict.reasons.map((r) => r.message)).toEqual(['Rule "liquidity > 50" passed']);
+  });
+
+  it("reads the settings column defensively", () => {
+    expect(parseEntryRules(null)).toEqual([]);
+    expect(parseEntryRules([{ expression: "liquidity > 1" }, { id: 3 }, "junk"])).toEqual([
+      { id: "rule-1", expression: "liquidity > 1", enabled: true },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as edgeLocks from "@shared/sell-lock-state";
+import { acquireSellLock, holdsSellLock, releaseSellLock } from "@/lib/sellLock";
+import { supabase } from "@/integrations/supabase/client";
+
+const NOW = 1_700_000_000_000;
+const TTL_MS = 60_000;
+const POSITION = { id: "position-1", token_address: "So1Ana7oken1111111111111111111111111111pump" };
+
+interface LockRow {
+  holder: string;
+  source: string;
+  fencing_token: number;
+  expires_at: number;
+}
+
+type RpcResult = { data: unknown; error: { message: string } | null };
+
+// In-memory stand-in for acquire_sell_lock / check_sell_lock / release_sell_lock, with a movable clock
+function lockTable() {
+  const rows = new Map<string, LockRow>();
+  let clock = NOW;
+  let sequence = 0;
+  let failing = false;
+
+  const rpc = async (fn: string, args: Record<string, unknown>): Promise<RpcResult> => {
+    if (failing) return { data: null, error: { message: "connection refused" } };
+    const positionId = args.p_position_id as string;
+    const row = rows.get(positionId);
+
+    switch (fn) {
+      case "acquire_sell_lock": {
+        if (row && row.expires_at >= clock) {
+          return { data: [{ acquired: false, ...row, expires_at: new Date(row.expires_at).toISOString() }], error: null };
+        }
+        const lease: LockRow = {
+          holder: args.p_holder as string,
+          source: args.p_source as string,
+          fencing_token: ++sequence,
+          expires_at: clock + (args.p_ttl_seconds as number) * 1000,
+        };
+        rows.set(positionId, lease);
+        return { data: [{ acquired: true, ...lease, expires_at: new Date(lease.expires_at).toISOString() }], error: null };
+      }
+      case "check_sell_lock":
+        return { data: !!row && row.fencing_token === args.p_fencing_token && row.expires_at > clock, error: null };
+      case "release_sell_lock":
+        if (row && row.fencing_token === args.p_fencing_token) rows.delete(positionId);
+        return { data: null, error: null };
+      default:
+        throw new Error(`unexpected rpc ${fn}`);
+    }
+  };
+
+  return {
+    rpc,
+    rows,
+    advance: (ms: number) => {
+      clock += ms;
+    },
+    fail: () => {
+      failing = true;
+    },
+  };
+}
+
+describe("edge sell locks", () => {
+  const client = (table: ReturnType<typeof lockTable>) => ({ rpc: table.rpc }) as unknown as Parameters<typeof edgeLocks.acquireSellLock>[0];
+
+  it("blocks a second seller until the lease expires, then hands out a newer fencing token", async () => {
+    const table = lockTable();
+    const db = client(table);
+
+    const first = await edgeLocks.acquireSellLock(db, "user-1", POSITION, "auto-exit", "auto_exit");
+    expect(first).toEqual({ positionId: POSITION.id, fencingToken: 1 });
+    expect(await edgeLocks.acquireSellLock(db, "user-1", POSITION, "auto-exit", "auto_exit")).toBeNull();
+
+    table.advance(TTL_MS + 1);
+    const second = await edgeLocks.acquireSellLock(db, "user-1", POSITION, "auto-exit", "auto_exit");
+    expect(second?.fencingToken).toBe(2);
+  });
+
+  it("reports a lost lease and ignores a late release from the stale holder", async () => {
+    const table = lockTable();
+    const db = client(table);
+
+    const stale = (await edgeLocks.acquireSellLock(db, "user-1", POSITION, "auto-exit", "auto_exit"))!;
+    expect(await edgeLocks.holdsSellLock(db, stale)).toBe(true);
+
+    table.advance(TTL_MS + 1);
+    const current = (await edgeLocks.acquireSellLock(db, "user-1", POSITION, "auto-exit", "auto_exit"))!;
+
+    expect(await edgeLocks.holdsSellLock(db, stale)).toBe(false);
+    await edgeLocks.releaseSellLock(db, stale);
+    expect(await edgeLocks.holdsSellLock(db, current)).toBe(true);
+
+    await edgeLocks.releaseSellLock(db, current);
+    expect(table.rows.size).toBe(0);
+  });
+
+  it("fails closed when the lock table cannot be reached", async () => {
+    const table = lockTable();
+    const db = client(table);
+    const lease = (await edgeLocks.acquireSellLock(db, "user-1", POSITION, "auto-exit", "auto_exit"))!;
+
+    table.fail();
+
+    expect(await edgeLocks.acquireSellLock(db, "user-1", { ...POSITION, id: "position-2" }, "auto-exit", "auto_exit")).toBeNull();
+    expect(await edgeLocks.holdsSellLock(db, lease)).toBe(false);
+  });
+});
+
+describe("browser sell locks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function signedIn(table: ReturnType<typeof lockTable>) {
+    vi.spyOn(supabase, "rpc").mockImplementation(table.rpc as never);
+    vi.spyOn(supabase.auth, "getSession").mockResolvedValue({
+      data: { session: { user: { id: "user-1" } } },
+      error: null,
+    } as never);
+  }
+
+  it("takes the lease for this tab and blocks other sellers while it is held", async () => {
+    const table = lockTable();
+    signedIn(table);
+
+    const lease = await acquireSellLock(POSITION, "manual_sell");
+    expect(lease).toMatchObject({ positionId: POSITION.id, tokenAddress: POSITION.token_address, source: "manual_sell", fencingToken: 1 });
+    expect(table.rows.get(POSITION.id)?.holder).toMatch(/^browser:/);
+
+    expect(await acquireSellLock(POSITION, "auto_exit")).toBeNull();
+
+    await releaseSellLock(lease);
+    expect(await acquireSellLock(POSITION, "auto_exit")).toMatchObject({ fencingToken: 2 });
+  });
+
+  it("loses the lease to a seller that took over after it expired", async () => {
+    const table = lockTable();
+    signedIn(table);
+
+    const stale = (await acquireSellLock(POSITION, "manual_sell"))!;
+    table.advance(TTL_MS + 1);
+    const current = (await acquireSellLock(POSITION, "auto_exit"))!;
+
+    expect(await holdsSellLock(stale)).toBe(false);
+    await releaseSellLock(stale);
+    expect(await holdsSellLock(current)).toBe(true);
+  });
+
+  it("does not lock without a session or when the lock table is unreachable", async () => {
+    const table = lockTable();
+    signedIn(table);
+    table.fail();
+    expect(await acquireSellLock(POSITION, "manual_sell")).toBeNull();
+
+    vi.spyOn(supabase.auth, "getSession").mockResolvedValue({ data: { session: null }, error: null } as never);
+    expect(await acquireSellLock(POSITION, "manual_sell")).toBeNull();
+  });
+});
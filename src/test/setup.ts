@@ -0,0 +1,17 @@
+// jsdom lacks matchMedia, which use-mobile and several Radix components read on mount.
+// Suites that opt into the node environment (local HTTP mocks) have no window at all.
+if (typeof window !== "undefined") {
+  Object.defineProperty(window, "matchMedia", {
+    writable: true,
+    value: (query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: () => {},
+      removeListener: () => {},
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      dispatchEvent: () => false,
+    }),
+  });
+}
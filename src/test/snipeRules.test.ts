@@ -0,0 +1,213 @@
+import { describe, it, expect } from "vitest";
+import {
+  DISCOVERY_CONFIG,
+  checkBlacklistWhitelist,
+  checkBuyerPosition,
+  checkCategoryMatch,
+  checkLiquidity,
+  checkLiquidityLock,
+  checkRiskScore,
+  checkSellable,
+  evaluateSniperRules,
+  formatRuleReason,
+  getTokenAgeMs,
+  isInAgeWindow,
+  isSuspiciousName,
+  isTargetPosition,
+  validateDiscoveryCandidate,
+  type DiscoveryCandidate,
+  type SniperRuleSettings,
+  type SniperRuleToken,
+} from "@shared/snipe-rules";
+
+const NOW = Date.parse("2026-02-06T12:00:00Z");
+const minutesAgo = (mins: number) => new Date(NOW - mins * 60_000).toISOString();
+
+const candidate = (overrides: Partial<DiscoveryCandidate> = {}): DiscoveryCandidate => ({
+  address: "So1aNaTokenMint1111111111111111111111111111",
+  name: "Good Dog",
+  symbol: "GDOG",
+  liquidity: 25,
+  createdAt: minutesAgo(30),
+  buyerPosition: 3,
+  riskScore: 40,
+  holders: 50,
+  freezeAuthority: null,
+  mintAuthority: null,
+  hasSwapRoute: true,
+  source: "Raydium V3 API",
+  ...overrides,
+});
+
+const token = (overrides: Partial<SniperRuleToken> = {}): SniperRuleToken => ({
+  address: "So1aNaTokenMint1111111111111111111111111111",
+  liquidity: 25,
+  liquidityLocked: false,
+  lockPercentage: null,
+  buyerPosition: 3,
+  categories: [],
+  ...overrides,
+});
+
+const settings = (overrides: Partial<SniperRuleSettings> = {}): SniperRuleSettings => ({
+  min_liquidity: 5,
+  category_filters: [],
+  token_blacklist: [],
+  token_whitelist: [],
+  ...overrides,
+});
+
+const codes = (reasons: { code: string }[]) => reasons.map((r) => r.code);
+
+describe("helpers", () => {
+  it("measures age against the given clock", () => {
+    expect(getTokenAgeMs(minutesAgo(10), NOW)).toBe(10 * 60_000);
+    expect(getTokenAgeMs("not a date", NOW)).toBe(0);
+  });
+
+  it("keeps tokens inside the age window", () => {
+    expect(isInAgeWindow(minutesAgo(30), NOW)).toBe(true);
+    expect(isInAgeWindow(minutesAgo(7 * 60), NOW)).toBe(false);
+  });
+
+  it("flags scam-looking names in name or symbol", () => {
+    expect(isSuspiciousName("Free Money Coin", "FMC")).toBe(true);
+    expect(isSuspiciousName("Good Dog", "RUG")).toBe(true);
+    expect(isSuspiciousName("Good Dog", "GDOG")).toBe(false);
+  });
+
+  it("treats unknown buyer positions as off-target for discovery", () => {
+    expect(isTargetPosition(null)).toBe(false);
+    expect(isTargetPosition(DISCOVERY_CONFIG.MIN_BUYER_POSITION)).toBe(true);
+    expect(isTargetPosition(DISCOVERY_CONFIG.MAX_BUYER_POSITION + 1)).toBe(false);
+  });
+
+  it("prefixes reasons by severity", () => {
+    expect(formatRuleReason({ code: "RISK_OK", message: "ok", severity: "pass" })).toBe("✓ ok");
+    expect(formatRuleReason({ code: "TOO_OLD", message: "old", severity: "warn" })).toBe("⚠ old");
+    expect(formatRuleReason({ code: "HIGH_RISK", message: "bad", severity: "reject" })).toBe("✗ bad");
+  });
+});
+
+describe("validateDiscoveryCandidate", () => {
+  it("accepts a clean candidate and ends with SAFE_TOKEN", () => {
+    const result = validateDiscoveryCandidate(candidate(), NOW);
+    expect(result.eligible).toBe(true);
+    expect(result.ageMins).toBe(30);
+    expect(codes(result.reasons)).toEqual(["AGE_OK", "POSITION_OK", "LIQUIDITY_OK", "RISK_OK", "ROUTE_OK", "SAFE_TOKEN"]);
+  });
+
+  it("only warns on old tokens and unknown positions", () => {
+    const result = validateDiscoveryCandidate(candidate({ createdAt: minutesAgo(8 * 60), buyerPosition: null }), NOW);
+    expect(result.eligible).toBe(true);
+    expect(result.reasons.filter((r) => r.severity === "warn").map((r) => r.code)).toEqual(["TOO_OLD", "BAD_POSITION"]);
+  });
+
+  it.each<[string, Partial<DiscoveryCandidate>, string]>([
+    ["low liquidity", { liquidity: DISCOVERY_CONFIG.MIN_LIQUIDITY_SOL - 0.5 }, "LOW_LIQUIDITY"],
+    ["high risk", { riskScore: DISCOVERY_CONFIG.MAX_RISK_SCORE + 1 }, "HIGH_RISK"],
+    ["no swap route", { hasSwapRoute: false }, "NO_SWAP_ROUTE"],
+    ["freeze authority", { freezeAuthority: "FreezeAuth111" }, "FREEZE_AUTHORITY"],
+    ["sell tax", { sellTax: DISCOVERY_CONFIG.MAX_SELL_TAX_PERCENT }, "HIGH_TAX"],
+    ["buy tax", { buyTax: 20 }, "HIGH_TAX"],
+    ["suspicious name", { name: "Airdrop Token" }, "SUSPICIOUS_NAME"],
+  ])("rejects on %s", (_label, overrides, code) => {
+    const result = validateDiscoveryCandidate(candidate(overrides), NOW);
+    expect(result.eligible).toBe(false);
+    expect(result.reasons).toContainEqual(expect.objectContaining({ code, severity: "reject" }));
+    expect(codes(result.reasons)).not.toContain("SAFE_TOKEN");
+  });
+
+  it("reports every failing rule, not just the first", () => {
+    const result = validateDiscoveryCandidate(candidate({ liquidity: 0.1, riskScore: 95, name: "Scam" }), NOW);
+    expect(result.reasons.filter((r) => r.severity === "reject").map((r) => r.code)).toEqual([
+      "LOW_LIQUIDITY",
+      "HIGH_RISK",
+      "SUSPICIOUS_NAME",
+    ]);
+  });
+});
+
+describe("approval rules", () => {
+  it("rejects tokens the scanner marked unsellable", () => {
+    expect(checkSellable(token({ canSell: false })).severity).toBe("reject");
+    expect(checkSellable(token()).severity).toBe("pass");
+  });
+
+  it("compares liquidity with the user's minimum", () => {
+    expect(checkLiquidity(token({ liquidity: 5 }), settings()).code).toBe("LIQUIDITY_OK");
+    const low = checkLiquidity(token({ liquidity: 4.99 }), settings());
+    expect(low.code).toBe("BELOW_MIN_LIQUIDITY");
+    expect(low.message).toBe("Liquidity 4.99 SOL below minimum 5 SOL");
+  });
+
+  it("never blocks on liquidity lock", () => {
+    expect(checkLiquidityLock(token({ liquidityLocked: false })).severity).toBe("warn");
+    expect(checkLiquidityLock(token({ liquidityLocked: true, lockPercentage: 90 })).message).toBe("Liquidity locked (90%)");
+  });
+
+  it("matches categories case-insensitively and skips when data is missing", () => {
+    const filters = settings({ category_filters: ["animals"] });
+    expect(checkCategoryMatch(token({ categories: ["Animals"] }), filters).code).toBe("CATEGORY_OK");
+    expect(checkCategoryMatch(token({ categories: ["utility"] }), filters).code).toBe("CATEGORY_MISMATCH");
+    expect(checkCategoryMatch(token({ categories: [] }), filters).severity).toBe("pass");
+  });
+
+  it("uses the #2-#10 window when no target positions are set", () => {
+    expect(checkBuyerPosition(token({ buyerPosition: null })).severity).toBe("pass");
+    expect(checkBuyerPosition(token({ buyerPosition: 1 })).message).toBe("Would be first buyer - waiting for others");
+    expect(checkBuyerPosition(token({ buyerPosition: 10 })).severity).toBe("pass");
+    expect(checkBuyerPosition(token({ buyerPosition: 11 })).code).toBe("BAD_POSITION");
+  });
+
+  it("uses explicit target positions when given", () => {
+    expect(checkBuyerPosition(token({ buyerPosition: 1 }), [1, 2]).severity).toBe("pass");
+    expect(checkBuyerPosition(token({ buyerPosition: 5 }), [1, 2]).code).toBe("BAD_POSITION");
+  });
+
+  it("lets the blacklist win over the whitelist", () => {
+    const address = token().address;
+    const both = settings({ token_blacklist: [address.toLowerCase()], token_whitelist: [address] });
+    expect(checkBlacklistWhitelist(token(), both).code).toBe("BLACKLISTED");
+    expect(checkBlacklistWhitelist(token(), settings({ token_whitelist: ["Other111"] })).code).toBe("NOT_WHITELISTED");
+    expect(checkBlacklistWhitelist(token(), settings({ token_whitelist: [address] })).code).toBe("LIST_OK");
+  });
+
+  it("checks the user's risk ceiling inclusively", () => {
+    expect(checkRiskScore(70, 70).severity).toBe("pass");
+    expect(checkRiskScore(71, 70).code).toBe("ABOVE_MAX_RISK");
+  });
+});
+
+describe("evaluateSniperRules", () => {
+  it("approves a token that passes every rule, in auto-sniper order", () => {
+    const verdict = evaluateSniperRules(token(), settings());
+    expect(verdict.approved).toBe(true);
+    expect(codes(verdict.reasons)).toEqual(["LIQUIDITY_OK", "LIQUIDITY_UNLOCKED", "CATEGORY_OK", "POSITION_OK", "LIST_OK"]);
+  });
+
+  it("stops at the first rejection by default", () => {
+    const verdict = evaluateSniperRules(token({ liquidity: 1, buyerPosition: 50 }), settings());
+    expect(verdict.approved).toBe(false);
+    expect(codes(verdict.reasons)).toEqual(["BELOW_MIN_LIQUIDITY"]);
+  });
+
+  it("rejects unsellable tokens before anything else", () => {
+    const verdict = evaluateSniperRules(token({ canSell: false }), settings());
+    expect(codes(verdict.reasons)).toEqual(["NOT_SELLABLE"]);
+  });
+
+  it("can collect every verdict for diagnostics", () => {
+    const verdict = evaluateSniperRules(token({ liquidity: 1, buyerPosition: 50 }), settings(), { stopOnReject: false });
+    expect(verdict.reasons.filter((r) => r.severity === "reject").map((r) => r.code)).toEqual([
+      "BELOW_MIN_LIQUIDITY",
+      "BAD_POSITION",
+    ]);
+  });
+
+  it("honours target positions only when asked to", () => {
+    const targeted = settings({ target_buyer_positions: [1] });
+    expect(evaluateSniperRules(token({ buyerPosition: 1 }), targeted).approved).toBe(false);
+    expect(evaluateSniperRules(token({ buyerPosition: 1 }), targeted, { useTargetPositions: true }).approved).toBe(true);
+  });
+});
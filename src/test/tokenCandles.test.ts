@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  OHLCV_TIMEFRAMES,
+  cacheRowsToCandles,
+  isCacheFresh,
+  normalizeCandles,
+  parseBirdeyeOhlcv,
+  parseGeckoOhlcv,
+  type OhlcvCacheRow,
+} from "@shared/ohlcv";
+import { placeFills, toChartPoints } from "@/lib/candleChart";
+import type { TradeFill } from "@/hooks/useTokenCandles";
+
+const T0 = 1_760_000_000;
+
+const candle = (time: number, close = 1, volume = 10) => ({ time, open: 1, high: Math.max(1, close), low: Math.min(1, close), close, volume });
+
+describe("candle normalization", () => {
+  it("sorts GeckoTerminal's newest-first rows and drops invalid ones", () => {
+    const candles = parseGeckoOhlcv([
+      [T0 + 120, "1.2", "1.3", "1.1", "1.25", "500"],
+      [T0 + 60, 1, 1.2, 0.9, 1.1, 300],
+      [T0, 0, 1, 1, 1, 1], // zero open
+      "not a row",
+      [T0 + 180, 1, 1, 1, 1, "NaN"],
+    ]);
+
+    expect(candles).toEqual([
+      { time: T0 + 60, open: 1, high: 1.2, low: 0.9, close: 1.1, volume: 300 },
+      { time: T0 + 120, open: 1.2, high: 1.3, low: 1.1, close: 1.25, volume: 500 },
+    ]);
+  });
+
+  it("maps Birdeye items and defaults a missing volume to 0", () => {
+    expect(parseBirdeyeOhlcv([{ unixTime: T0, o: 1, h: 2, l: 0.5, c: 1.5 }])).toEqual([
+      { time: T0, open: 1, high: 2, low: 0.5, close: 1.5, volume: 0 },
+    ]);
+  });
+
+  it("keeps the last copy of a repeated bucket", () => {
+    const candles = normalizeCandles([candle(T0, 1.1), candle(T0 + 60, 1.2), candle(T0, 1.3)]);
+
+    expect(candles.map((c) => [c.time, c.close])).toEqual([[T0, 1.3], [T0 + 60, 1.2]]);
+  });
+
+  it("reads cached rows back as unix-second buckets", () => {
+    const rows: OhlcvCacheRow[] = [
+      { bucket_start: new Date((T0 + 900) * 1000).toISOString(), open: 2, high: 2, low: 2, close: 2, volume: 0, source: "birdeye", fetched_at: "" },
+      { bucket_start: new Date(T0 * 1000).toISOString(), open: 1, high: 1, low: 1, close: 1, volume: 5, source: "birdeye", fetched_at: "" },
+    ];
+
+    expect(cacheRowsToCandles(rows).map((c) => c.time)).toEqual([T0, T0 + 900]);
+  });
+});
+
+describe("timeframes", () => {
+  it("covers the same span with candles of the timeframe's bucket size", () => {
+    expect(OHLCV_TIMEFRAMES["1H"].limit * OHLCV_TIMEFRAMES["1H"].bucketSeconds).toBe(3600);
+    expect(OHLCV_TIMEFRAMES["4H"].limit * OHLCV_TIMEFRAMES["4H"].bucketSeconds).toBe(4 * 3600);
+    expect(OHLCV_TIMEFRAMES["24H"].limit * OHLCV_TIMEFRAMES["24H"].bucketSeconds).toBe(24 * 3600);
+    expect(OHLCV_TIMEFRAMES["7D"].limit * OHLCV_TIMEFRAMES["7D"].bucketSeconds).toBe(7 * 24 * 3600);
+  });
+
+  it("serves the cache until the newest fetch is older than the TTL", () => {
+    const now = T0 * 1000;
+    const row = (fetchedAgoMs: number): OhlcvCacheRow => ({
+      bucket_start: new Date(now).toISOString(),
+      open: 1, high: 1, low: 1, close: 1, volume: 0,
+      source: "geckoterminal",
+      fetched_at: new Date(now - fetchedAgoMs).toISOString(),
+    });
+    const config = OHLCV_TIMEFRAMES["1H"]; // 30s TTL
+
+    expect(isCacheFresh([row(120_000), row(10_000)], config, now)).toBe(true);
+    expect(isCacheFresh([row(120_000), row(31_000)], config, now)).toBe(false);
+    expect(isCacheFresh([], config, now)).toBe(false);
+  });
+});
+
+describe("placeFills", () => {
+  const fill = (id: string, time: number, priceUsd: number | null = null): TradeFill => ({
+    id, time, side: "buy", priceUsd, amount: 100, txHash: null,
+  });
+
+  it("snaps fills to the candle they happened in and drops ones off the chart", () => {
+    // 15m candles with the middle bucket missing
+    const points = toChartPoints([candle(T0, 1.1), candle(T0 + 1800, 0.9)]);
+    const placed = placeFills(
+      points,
+      [fill("gap", T0 + 1000), fill("last", T0 + 2000, 0.95), fill("before", T0 - 1), fill("after", T0 + 2700)],
+      "24H"
+    );
+
+    expect(placed).toEqual([
+      // No candle for its bucket - drawn on the previous one at that candle's close
+      expect.objectContaining({ id: "gap", candleTime: T0, price: 1.1 }),
+      expect.objectContaining({ id: "last", candleTime: T0 + 1800, price: 0.95 }),
+    ]);
+  });
+
+  it("uses the timeframe's bucket for the last candle, not the gap between the first two", () => {
+    const points = toChartPoints([candle(T0), candle(T0 + 1800)]);
+
+    expect(placeFills(points, [fill("late", T0 + 1800 + 1000)], "24H")).toEqual([]);
+    expect(placeFills(points, [fill("late", T0 + 1800 + 1000)], "7D")).toHaveLength(1);
+  });
+
+  it("marks up candles", () => {
+    expect(toChartPoints([candle(T0, 1.2), candle(T0 + 60, 0.8)]).map((p) => [p.up, p.range])).toEqual([
+      [true, [1, 1.2]],
+      [false, [0.8, 1]],
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import {
+  classifySimulationFailure,
+  nextSlippageBps,
+  simulateSwapTransaction,
+  SIMULATION_CONFIG,
+} from "@shared/tx-simulation";
+
+const customError = (code: number) => ({ InstructionError: [3, { Custom: code }] });
+
+describe("classifySimulationFailure", () => {
+  it("recognises slippage reverts from Jupiter and pump.fun logs", () => {
+    const jupiter = classifySimulationFailure(customError(6001), [
+      "Program JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4 invoke [1]",
+      "Program log: AnchorError occurred. Error Code: SlippageToleranceExceeded. Error Number: 6001.",
+    ]);
+    expect(jupiter).toMatchObject({ kind: "slippage_exceeded", programError: "Custom(6001)" });
+    expect(jupiter.logExcerpt).toHaveLength(1);
+
+    const pump = classifySimulationFailure(customError(6002), ["Program log: Error Code: TooMuchSolRequired."]);
+    expect(pump.kind).toBe("slippage_exceeded");
+  });
+
+  it("prefers token-level reverts over the generic errors they surface as", () => {
+    expect(classifySimulationFailure(customError(17), ["Program log: Error: Account is frozen"]).kind).toBe("frozen_account");
+    expect(
+      classifySimulationFailure(customError(6001), [
+        "Program log: Transfer hook program rejected transfer",
+        "Program log: slippage exceeded",
+      ]).kind
+    ).toBe("transfer_hook");
+    expect(classifySimulationFailure(customError(5), ["Program log: Error: Calculated fee does not match expected fee"]).kind).toBe("token_tax");
+  });
+
+  it("reads insufficient funds from the transaction error or the token program log", () => {
+    expect(classifySimulationFailure("InsufficientFundsForFee", []).kind).toBe("insufficient_funds");
+    expect(classifySimulationFailure(customError(1), ["Program log: Error: insufficient funds"]).kind).toBe("insufficient_funds");
+  });
+
+  it("falls back to unknown with the tail of the logs", () => {
+    const logs = ["a", "b", "c", "d", "e", "f"];
+    const failure = classifySimulationFailure(customError(42), logs);
+    expect(failure).toMatchObject({ kind: "unknown", programError: "Custom(42)", logExcerpt: ["b", "c", "d", "e", "f"] });
+  });
+});
+
+describe("nextSlippageBps", () => {
+  it("doubles up to the cap, then stops", () => {
+    expect(nextSlippageBps(100)).toBe(200);
+    expect(nextSlippageBps(1500)).toBe(SIMULATION_CONFIG.MAX_AUTO_SLIPPAGE_BPS);
+    expect(nextSlippageBps(SIMULATION_CONFIG.MAX_AUTO_SLIPPAGE_BPS)).toBeNull();
+  });
+});
+
+describe("simulateSwapTransaction", () => {
+  const rpc = (body: unknown, status = 200) => async () =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  it("reports ok and failed simulations", async () => {
+    const ok = await simulateSwapTransaction("http://rpc", "AAAA", {
+      fetchImpl: rpc({ result: { value: { err: null, logs: ["x"], unitsConsumed: 81234 } } }),
+    });
+    expect(ok).toMatchObject({ status: "ok", unitsConsumed: 81234, failure: null });
+
+    const failed = await simulateSwapTransaction("http://rpc", "AAAA", {
+      fetchImpl: rpc({ result: { value: { err: customError(6001), logs: ["Error Code: SlippageToleranceExceeded"], unitsConsumed: 5000 } } }),
+    });
+    expect(failed.status).toBe("failed");
+    expect(failed.failure?.kind).toBe("slippage_exceeded");
+  });
+
+  it("is unavailable, not failed, when the RPC cannot simulate", async () => {
+    const down = await simulateSwapTransaction("http://rpc", "AAAA", { fetchImpl: rpc({}, 503) });
+    expect(down).toMatchObject({ status: "unavailable", failure: null });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  getWalletUsage,
+  selectTradingWallet,
+  type TradingWallet,
+  type WalletPositionRecord,
+} from "@/lib/walletAllocation";
+
+const wallet = (address: string, overrides: Partial<TradingWallet> = {}): TradingWallet => ({
+  id: `id-${address}`,
+  user_id: "user-1",
+  address,
+  label: null,
+  is_active: true,
+  budget_sol: 1,
+  max_open_positions: 3,
+  strategy: "any",
+  created_at: "2026-02-08T00:00:00Z",
+  updated_at: "2026-02-08T00:00:00Z",
+  ...overrides,
+});
+
+const position = (wallet_address: string, token_address: string, entry_sol: number, status = "open"): WalletPositionRecord => ({
+  wallet_address,
+  token_address,
+  entry_sol,
+  status,
+});
+
+describe("getWalletUsage", () => {
+  it("counts only open positions from the wallet, once per token", () => {
+    const usage = getWalletUsage(wallet("A"), [
+      position("A", "tok1", 0.2),
+      position("A", "tok1", 0.2), // duplicate row for the same buy
+      position("A", "tok2", 0.3, "waiting_for_liquidity"),
+      position("A", "tok3", 0.5, "closed"),
+      position("B", "tok4", 0.5),
+    ]);
+    expect(usage).toEqual({ openPositions: 2, deployedSol: 0.5, remainingSol: 0.5, slotsLeft: 1 });
+  });
+});
+
+describe("selectTradingWallet", () => {
+  const options = { strategy: "sniper" as const, tradeSol: 0.2, signableAddresses: ["A", "B", "C"] };
+
+  it("prefers a wallet dedicated to the strategy over an 'any' wallet", () => {
+    const result = selectTradingWallet([wallet("A", { budget_sol: 5 }), wallet("B", { strategy: "sniper" })], [], options);
+    expect(result.wallet?.address).toBe("B");
+  });
+
+  it("then picks the wallet with the most budget left", () => {
+    const result = selectTradingWallet(
+      [wallet("A"), wallet("B")],
+      [position("A", "tok1", 0.6)],
+      options
+    );
+    expect(result.wallet?.address).toBe("B");
+  });
+
+  it("skips paused, mis-assigned, disconnected, full and over-budget wallets", () => {
+    const result = selectTradingWallet(
+      [
+        wallet("A", { is_active: false }),
+        wallet("B", { strategy: "copy_trade" }),
+        wallet("D"),
+        wallet("C", { max_open_positions: 1 }),
+      ],
+      [position("C", "tok1", 0.1)],
+      options
+    );
+    expect(result.wallet).toBeNull();
+    expect(result.skipped).toEqual({
+      A: "paused",
+      B: "assigned to copy trading",
+      D: "not connected in this browser",
+      C: "1/1 positions open",
+    });
+
+    const broke = selectTradingWallet([wallet("A", { budget_sol: 0.3 })], [position("A", "tok1", 0.2)], options);
+    expect(broke.wallet).toBeNull();
+    expect(broke.skipped.A).toMatch(/^budget 0.100 SOL left/);
+  });
+});
@@ -2,6 +2,16 @@
 // This provides a single source of truth for API type to secret name mapping
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ENVELOPE_PREFIX,
+  envelopeKeyId,
+  openWithKeyRing,
+  parseKeyRing,
+  rewrapWithKeyRing,
+  sealWithKeyRing,
+  type MasterKeyRing,
+} from "./key-ring.ts";
+import { signInternalToken, verifyInternalToken } from "./internal-auth.ts";
 
 // Complete mapping of API types to their secret/environment variable names
 // Only includes APIs actually used in the application
@@ -18,7 +28,7 @@ export const API_SECRET_MAPPING: Record<string, string> = {
   rpc_provider: 'SOLANA_RPC_URL',
 };
 
-// Internal service token for edge-to-edge calls (validated via shared secret)
+// Secret that signs internal tokens for edge-to-edge calls; the full service role key when unset
 const INTERNAL_SERVICE_TOKEN = 'EDGE_INTERNAL_TOKEN';
 
 // API validation endpoints for testing connectivity
@@ -46,30 +56,21 @@ export const API_VALIDATION_ENDPOINTS: Record<string, {
   liquidity_lock: { url: 'https://api.team.finance/v1/lockups', method: 'GET', requiresKey: true, skipHttpTest: true },
 };
 
-// Simple XOR encryption with a key derived from service role key
-// This provides actual encryption (not just encoding) while staying compatible with edge functions
-const getEncryptionKey = (): string => {
-  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-  // Use last 32 chars of service role key as encryption key (always available in edge functions)
-  return serviceKey.slice(-32);
-};
+// Master keys for stored API keys: `id:secret,id:secret`, the first one encrypts new values.
+// Retired keys stay in the list until `rotate_encryption` has re-wrapped everything under them.
+const MASTER_KEYS_ENV = 'API_KEY_MASTER_KEYS';
 
-// XOR-based encryption - simple but effective when combined with RLS and service role access
-const xorEncrypt = (text: string, key: string): string => {
-  const textBytes = new TextEncoder().encode(text);
-  const keyBytes = new TextEncoder().encode(key);
-  const result = new Uint8Array(textBytes.length);
-  
-  for (let i = 0; i < textBytes.length; i++) {
-    result[i] = textBytes[i] ^ keyBytes[i % keyBytes.length];
-  }
-  
-  // Convert to hex string for storage
-  return Array.from(result).map(b => b.toString(16).padStart(2, '0')).join('');
+let keyRing: Promise<MasterKeyRing | null> | null = null;
+const getKeyRing = (): Promise<MasterKeyRing | null> => {
+  keyRing ??= parseKeyRing(Deno.env.get(MASTER_KEYS_ENV));
+  return keyRing;
 };
 
-const xorDecrypt = (hexString: string, key: string): string => {
-  // Convert hex string back to bytes
+// Legacy `aes:` values: XOR with the last 32 chars of the service role key (read-only -
+// they are re-encrypted on first use and by the rotation command)
+const legacyXorDecrypt = (hexString: string): string | null => {
+  const key = (Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '').slice(-32);
+  if (!key) return null;
   const bytes = new Uint8Array(hexString.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || []);
   const keyBytes = new TextEncoder().encode(key);
   const result = new Uint8Array(bytes.length);
@@ -81,27 +82,27 @@ const xorDecrypt = (hexString: string, key: string): string => {
   return new TextDecoder().decode(result);
 };
 
-// Encryption/decryption for API keys stored in database
-// Uses XOR encryption with service role key derivation
-export const encryptKey = (key: string): string => {
-  const encryptionKey = getEncryptionKey();
-  if (!encryptionKey) {
-    // Fallback to base64 if no encryption key available (shouldn't happen in edge functions)
-    return 'enc:' + btoa(key);
+// Encryption/decryption for API keys stored in database (envelope AES-GCM, see key-ring.ts)
+export const encryptKey = async (key: string): Promise<string> => {
+  const ring = await getKeyRing();
+  if (!ring) {
+    throw new Error(`${MASTER_KEYS_ENV} is not configured - refusing to store the API key unencrypted`);
   }
-  const encrypted = xorEncrypt(key, encryptionKey);
-  return 'aes:' + encrypted; // New prefix to distinguish from old base64 encoding
+  return sealWithKeyRing(ring, key);
 };
 
-export const decryptKey = (encrypted: string | null): string | null => {
+export const decryptKey = async (encrypted: string | null): Promise<string | null> => {
   if (!encrypted) return null;
   
-  // Handle new AES-style encryption
+  if (encrypted.startsWith(ENVELOPE_PREFIX)) {
+    const ring = await getKeyRing();
+    return ring ? openWithKeyRing(ring, encrypted) : null;
+  }
+  
+  // Legacy XOR values (labelled aes: but never were)
   if (encrypted.startsWith('aes:')) {
-    const encryptionKey = getEncryptionKey();
-    if (!encryptionKey) return null;
     try {
-      return xorDecrypt(encrypted.substring(4), encryptionKey);
+      return legacyXorDecrypt(encrypted.substring(4));
     } catch {
       return null;
     }
@@ -120,23 +121,101 @@ export const decryptKey = (encrypted: string | null): string | null => {
   return encrypted;
 };
 
-// Validate internal service token for edge-to-edge calls
-export const validateInternalToken = (token: string | null): boolean => {
-  if (!token) return false;
-  
-  // The internal token is derived from service role key hash
-  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-  if (!serviceKey) return false;
-  
-  // Create a simple hash of the service key for internal auth
-  const expectedToken = btoa(serviceKey.slice(0, 16) + 'internal').slice(0, 32);
-  return token === expectedToken;
+// True when a stored value is legacy or wrapped under a retired master key
+export const needsReencryption = async (encrypted: string): Promise<boolean> => {
+  const ring = await getKeyRing();
+  if (!ring) return false;
+  return envelopeKeyId(encrypted) !== ring.activeKeyId;
+};
+
+// Current-format ciphertext for a stored value; null when it can't be read with this key ring
+export const reencryptKey = async (encrypted: string): Promise<string | null> => {
+  const ring = await getKeyRing();
+  if (!ring) return null;
+  if (encrypted.startsWith(ENVELOPE_PREFIX)) return rewrapWithKeyRing(ring, encrypted);
+  const plaintext = await decryptKey(encrypted);
+  return plaintext ? sealWithKeyRing(ring, plaintext) : null;
+};
+
+// Upgrade one stored value in place (best effort - reads must not fail because of it)
+const upgradeStoredKey = async (apiType: string, encrypted: string): Promise<void> => {
+  try {
+    if (!(await needsReencryption(encrypted))) return;
+    const upgraded = await reencryptKey(encrypted);
+    if (!upgraded) return;
+    await getServiceClient()
+      .from('api_configurations')
+      .update({ api_key_encrypted: upgraded, updated_at: new Date().toISOString() })
+      .eq('api_type', apiType)
+      .eq('api_key_encrypted', encrypted);
+  } catch (error) {
+    console.warn(`[api-keys] Could not re-encrypt stored key for ${apiType}:`, error);
+  }
 };
 
-// Generate internal service token for edge-to-edge calls
-export const generateInternalToken = (): string => {
-  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-  return btoa(serviceKey.slice(0, 16) + 'internal').slice(0, 32);
+export interface KeyRotationReport {
+  activeKeyId: string;
+  total: number;
+  rotated: string[];
+  current: string[];
+  failed: string[];
+}
+
+// Re-encrypt every stored API key under the active master key. Rows that can't be read
+// (unknown key id, tampered value) are left untouched and reported as failed.
+export async function rotateStoredApiKeys(): Promise<KeyRotationReport> {
+  const ring = await getKeyRing();
+  if (!ring) throw new Error(`${MASTER_KEYS_ENV} is not configured`);
+
+  const supabase = getServiceClient();
+  const { data: configs, error } = await supabase
+    .from('api_configurations')
+    .select('id, api_type, api_key_encrypted')
+    .not('api_key_encrypted', 'is', null);
+  if (error) throw new Error(`Failed to load API configurations: ${error.message}`);
+
+  const report: KeyRotationReport = { activeKeyId: ring.activeKeyId, total: configs?.length ?? 0, rotated: [], current: [], failed: [] };
+
+  for (const config of configs ?? []) {
+    const stored = config.api_key_encrypted as string;
+    if (!(await needsReencryption(stored))) {
+      report.current.push(config.api_type);
+      continue;
+    }
+    const upgraded = await reencryptKey(stored);
+    if (!upgraded) {
+      report.failed.push(config.api_type);
+      continue;
+    }
+    const { error: updateError } = await supabase
+      .from('api_configurations')
+      .update({ api_key_encrypted: upgraded, updated_at: new Date().toISOString() })
+      .eq('id', config.id)
+      .eq('api_key_encrypted', stored);
+    (updateError ? report.failed : report.rotated).push(config.api_type);
+  }
+
+  return report;
+}
+
+const getInternalSecret = (): string =>
+  Deno.env.get(INTERNAL_SERVICE_TOKEN) || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+// Validate internal service token for edge-to-edge calls. userId is the user the call acts
+// for (x-bot-user-id), or null for calls that act for no user.
+export const validateInternalToken = (token: string | null, userId: string | null = null): Promise<boolean> =>
+  verifyInternalToken(getInternalSecret(), token, userId);
+
+// Generate internal service token for edge-to-edge calls (see internal-auth.ts)
+export const generateInternalToken = (userId: string | null = null): Promise<string> =>
+  signInternalToken(getInternalSecret(), userId);
+
+// Edge-to-edge call made on behalf of a user (the headless bot runner): an internal token
+// signed for the x-bot-user-id header. Returns null when the request is not such a call.
+export const resolveInternalUser = async (req: Request): Promise<string | null> => {
+  const userId = req.headers.get('x-bot-user-id');
+  if (!userId || !(await validateInternalToken(req.headers.get('x-internal-token'), userId))) return null;
+  return userId;
 };
 
 // Get Supabase client for service-level operations
@@ -159,8 +238,11 @@ export async function getApiKey(apiType: string): Promise<string | null> {
     .maybeSingle();
   
   if (config?.api_key_encrypted) {
-    const decrypted = decryptKey(config.api_key_encrypted);
-    if (decrypted) return decrypted;
+    const decrypted = await decryptKey(config.api_key_encrypted);
+    if (decrypted) {
+      await upgradeStoredKey(apiType, config.api_key_encrypted);
+      return decrypted;
+    }
   }
   
   // Fall back to environment variable
@@ -189,8 +271,9 @@ export async function getApiConfig(apiType: string): Promise<{
   }
   
   const apiKey = config.api_key_encrypted 
-    ? decryptKey(config.api_key_encrypted) 
+    ? await decryptKey(config.api_key_encrypted) 
     : Deno.env.get(API_SECRET_MAPPING[apiType]) || null;
+  if (apiKey && config.api_key_encrypted) await upgradeStoredKey(apiType, config.api_key_encrypted);
   
   return {
     baseUrl: config.base_url,
@@ -323,7 +406,7 @@ export async function getAllApiKeyStatus(): Promise<Record<string, {
   
   for (const [apiType, secretName] of Object.entries(API_SECRET_MAPPING)) {
     const dbKey = dbKeys.get(apiType);
-    const hasDbKey = dbKey && decryptKey(dbKey);
+    const hasDbKey = dbKey && await decryptKey(dbKey);
     const envValue = Deno.env.get(secretName);
     
     let source: 'database' | 'environment' | 'none' = 'none';
@@ -0,0 +1,76 @@
+// Probe persistence for edge functions: runs the synthetic probes (api-probes.ts) and stores
+// each result in api_health_metrics, and rebuilds per-probe status from that history. Used by
+// api-health (scheduled runs and the status widget) and auto-sniper (pausing auto-entry).
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  API_PROBES,
+  PROBE_CONFIG,
+  PROBE_ENDPOINT_PREFIX,
+  parseProbeRows,
+  probeEntryGate,
+  runProbe,
+  summarizeProbes,
+  type ProbeEntryGate,
+  type ProbeSample,
+  type ProbeSummary,
+} from "./api-probes.ts";
+import { getRpcPool } from "./rpc-pool-state.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// auto-sniper asks on every evaluation; the scheduler only writes every couple of minutes
+const SUMMARY_CACHE_MS = 30_000;
+
+let cachedSummaries: { summaries: ProbeSummary[]; loadedAt: number } | null = null;
+
+/** Run every probe once and store the results. Needs a service-role client. */
+export async function runScheduledProbes(supabase: SupabaseClient): Promise<ProbeSample[]> {
+  const pool = await getRpcPool();
+  const samples = await Promise.all(API_PROBES.map((probe) => runProbe(probe, { rpc: pool.call })));
+
+  const { error } = await supabase.from("api_health_metrics").insert(
+    samples.map((s) => ({
+      api_type: API_PROBES.find((p) => p.id === s.probe)!.apiType,
+      endpoint: `${PROBE_ENDPOINT_PREFIX}${s.probe}`,
+      response_time_ms: s.latencyMs,
+      status_code: s.statusCode,
+      is_success: s.success,
+      error_message: s.error,
+      created_at: new Date(s.checkedAt).toISOString(),
+    }))
+  );
+  if (error) console.error("[ApiProbes] Failed to store probe results:", error.message);
+
+  cachedSummaries = null;
+  return samples;
+}
+
+/** Per-probe status over the recent history. api_health_metrics is admin-only: use the service role. */
+export async function loadProbeSummaries(supabase: SupabaseClient): Promise<ProbeSummary[]> {
+  const now = Date.now();
+  if (cachedSummaries && now - cachedSummaries.loadedAt < SUMMARY_CACHE_MS) return cachedSummaries.summaries;
+
+  const { data, error } = await supabase
+    .from("api_health_metrics")
+    .select("endpoint, response_time_ms, status_code, is_success, error_message, created_at")
+    .like("endpoint", `${PROBE_ENDPOINT_PREFIX}%`)
+    .gte("created_at", new Date(now - PROBE_CONFIG.WINDOW_MS).toISOString())
+    .order("created_at", { ascending: true })
+    .limit(1000);
+  if (error) throw new Error(`Failed to load probe history: ${error.message}`);
+
+  const summaries = summarizeProbes(parseProbeRows(data || []), now);
+  cachedSummaries = { summaries, loadedAt: now };
+  return summaries;
+}
+
+/** Entry gate from the stored probes; a failure to read them does not pause trading. */
+export async function getProbeEntryGate(supabase: SupabaseClient): Promise<ProbeEntryGate> {
+  try {
+    return probeEntryGate(await loadProbeSummaries(supabase));
+  } catch (err: unknown) {
+    console.error("[ApiProbes]", err instanceof Error ? err.message : err);
+    return { paused: false, reasons: [] };
+  }
+}
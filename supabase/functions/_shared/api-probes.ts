@@ -0,0 +1,262 @@
+/**
+ * Synthetic health probes for the APIs trades depend on: a SOL→USDC quote on Jupiter and
+ * Raydium, a known-mint lookup on Pump.fun and an RPC `getSlot`. Each probe checks the
+ * payload, not just the HTTP status, so a 200 with an empty route still counts as a failure.
+ *
+ * Probe results are stored in api_health_metrics (endpoint `probe:<id>`) by the scheduled
+ * api-health run; the status of each probe is judged over its recent history, and probes that
+ * gate entries pause auto-entry while they are degraded.
+ *
+ * HTTP and RPC access are injected like rpc-pool.ts:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/api-probes.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/api-probes";
+ */
+
+import type { RpcCall } from './holder-clusters.ts';
+import type { FetchLike } from './rpc-pool.ts';
+
+export const PROBE_CONFIG = {
+  TIMEOUT_MS: 8_000,
+  // Status is judged over this much history
+  WINDOW_MS: 15 * 60_000,
+  // No sample newer than this: the scheduler is not running, status is unknown
+  STALE_MS: 6 * 60_000,
+  DEGRADED_LATENCY_MS: 2_500,
+  DEGRADED_FAILURE_RATE: 0.3,
+  OFFLINE_AFTER_FAILURES: 3,
+  // Latency points kept per probe for the widget's sparkline
+  HISTORY_POINTS: 30,
+  QUOTE_AMOUNT_LAMPORTS: 100_000_000,
+} as const;
+
+export const PROBE_ENDPOINT_PREFIX = 'probe:';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USDC_MINT = 'EPjFWJdxXDcFnWy7DXQSj3HgPJ6wGZ9nuzgNhTBcN8W9';
+// A long-lived Pump.fun launch the lookup must always find
+const PUMPFUN_KNOWN_MINT = '9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump';
+
+export type ProbeId = 'jupiter_quote' | 'raydium_quote' | 'pumpfun_lookup' | 'rpc_slot';
+export type ProbeStatus = 'online' | 'degraded' | 'offline' | 'unknown';
+
+export interface ProbeDefinition {
+  id: ProbeId;
+  // Display name, matching the api-health status list
+  api: string;
+  // api_health_metrics.api_type the samples are stored under
+  apiType: string;
+  description: string;
+  // While degraded, auto-entry is paused
+  gatesEntry: boolean;
+}
+
+export const API_PROBES: ProbeDefinition[] = [
+  { id: 'jupiter_quote', api: 'Jupiter', apiType: 'jupiter', description: 'SOL→USDC quote', gatesEntry: true },
+  { id: 'raydium_quote', api: 'Raydium', apiType: 'raydium', description: 'SOL→USDC quote', gatesEntry: false },
+  { id: 'pumpfun_lookup', api: 'Pump.fun', apiType: 'pumpfun', description: 'Known mint lookup', gatesEntry: false },
+  { id: 'rpc_slot', api: 'Solana RPC', apiType: 'rpc_provider', description: 'getSlot', gatesEntry: true },
+];
+
+export interface ProbeSample {
+  probe: ProbeId;
+  latencyMs: number;
+  success: boolean;
+  statusCode: number;
+  error: string | null;
+  checkedAt: number;
+}
+
+// ============================================================================
+// RUNNING PROBES
+// ============================================================================
+
+interface HttpProbe {
+  url: string;
+  // Error message when the payload is not a usable answer
+  check(body: Record<string, unknown>): string | null;
+}
+
+function httpProbe(id: Exclude<ProbeId, 'rpc_slot'>): HttpProbe {
+  const amount = PROBE_CONFIG.QUOTE_AMOUNT_LAMPORTS;
+  switch (id) {
+    case 'jupiter_quote':
+      return {
+        url: `https://lite-api.jup.ag/swap/v1/quote?inputMint=${SOL_MINT}&outputMint=${USDC_MINT}&amount=${amount}&slippageBps=50`,
+        check: (body) => (Number(body.outAmount) > 0 ? null : 'Quote returned no output amount'),
+      };
+    case 'raydium_quote':
+      return {
+        url: `https://transaction-v1.raydium.io/compute/swap-base-in?inputMint=${SOL_MINT}&outputMint=${USDC_MINT}&amount=${amount}&slippageBps=50&txVersion=V0`,
+        check: (body) => {
+          const data = body.data as { outputAmount?: unknown } | undefined;
+          return body.success === true && Number(data?.outputAmount) > 0 ? null : 'Quote returned no route';
+        },
+      };
+    case 'pumpfun_lookup':
+      return {
+        url: `https://frontend-api.pump.fun/coins/${PUMPFUN_KNOWN_MINT}`,
+        check: (body) => (body.mint === PUMPFUN_KNOWN_MINT ? null : 'Lookup did not return the known mint'),
+      };
+  }
+}
+
+export interface ProbeDeps {
+  rpc: RpcCall;
+  fetchImpl?: FetchLike;
+  now?: () => number;
+}
+
+/** Run one probe. Never throws - failures come back as unsuccessful samples. */
+export async function runProbe(probe: ProbeDefinition, deps: ProbeDeps): Promise<ProbeSample> {
+  const now = deps.now ?? Date.now;
+  const fetchImpl = deps.fetchImpl ?? fetch;
+  const started = now();
+  const sample = (success: boolean, statusCode: number, error: string | null): ProbeSample => ({
+    probe: probe.id,
+    latencyMs: Math.max(0, now() - started),
+    success,
+    statusCode,
+    error,
+    checkedAt: started,
+  });
+
+  try {
+    if (probe.id === 'rpc_slot') {
+      const slot = await deps.rpc('getSlot', [{ commitment: 'processed' }]);
+      return typeof slot === 'number' && slot > 0 ? sample(true, 200, null) : sample(false, 200, 'getSlot returned no slot');
+    }
+
+    const { url, check } = httpProbe(probe.id);
+    const res = await fetchImpl(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(PROBE_CONFIG.TIMEOUT_MS),
+    });
+    if (!res.ok) return sample(false, res.status, `HTTP ${res.status}`);
+    const body = await res.json().catch(() => null);
+    if (typeof body !== 'object' || body === null) return sample(false, res.status, 'Response was not JSON');
+    const error = check(body as Record<string, unknown>);
+    return sample(error === null, res.status, error);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? (err.name === 'TimeoutError' ? 'Timeout' : err.message) : String(err);
+    return sample(false, 0, message);
+  }
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+export interface ProbeSummary {
+  probe: ProbeId;
+  api: string;
+  description: string;
+  gatesEntry: boolean;
+  status: ProbeStatus;
+  latencyMs: number | null;
+  medianLatencyMs: number | null;
+  successRate: number | null;
+  consecutiveFailures: number;
+  lastCheck: string | null;
+  lastError: string | null;
+  // Oldest first
+  history: { at: string; latencyMs: number; success: boolean }[];
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+export function summarizeProbe(probe: ProbeDefinition, samples: ProbeSample[], now: number): ProbeSummary {
+  const recent = samples
+    .filter((s) => s.probe === probe.id && now - s.checkedAt <= PROBE_CONFIG.WINDOW_MS)
+    .sort((a, b) => a.checkedAt - b.checkedAt);
+  const latest = recent[recent.length - 1];
+
+  let consecutiveFailures = 0;
+  for (let i = recent.length - 1; i >= 0 && !recent[i].success; i--) consecutiveFailures++;
+
+  const successes = recent.filter((s) => s.success);
+  const failureRate = recent.length > 0 ? 1 - successes.length / recent.length : 0;
+  const medianLatencyMs = median(successes.map((s) => s.latencyMs));
+
+  let status: ProbeStatus;
+  if (!latest || now - latest.checkedAt > PROBE_CONFIG.STALE_MS) {
+    status = 'unknown';
+  } else if (consecutiveFailures >= PROBE_CONFIG.OFFLINE_AFTER_FAILURES) {
+    status = 'offline';
+  } else if (
+    !latest.success ||
+    failureRate >= PROBE_CONFIG.DEGRADED_FAILURE_RATE ||
+    (medianLatencyMs ?? 0) > PROBE_CONFIG.DEGRADED_LATENCY_MS
+  ) {
+    status = 'degraded';
+  } else {
+    status = 'online';
+  }
+
+  return {
+    probe: probe.id,
+    api: probe.api,
+    description: probe.description,
+    gatesEntry: probe.gatesEntry,
+    status,
+    latencyMs: latest?.latencyMs ?? null,
+    medianLatencyMs,
+    successRate: recent.length > 0 ? successes.length / recent.length : null,
+    consecutiveFailures,
+    lastCheck: latest ? new Date(latest.checkedAt).toISOString() : null,
+    lastError: [...recent].reverse().find((s) => !s.success)?.error ?? null,
+    history: recent.slice(-PROBE_CONFIG.HISTORY_POINTS).map((s) => ({
+      at: new Date(s.checkedAt).toISOString(),
+      latencyMs: s.latencyMs,
+      success: s.success,
+    })),
+  };
+}
+
+export function summarizeProbes(samples: ProbeSample[], now: number): ProbeSummary[] {
+  return API_PROBES.map((probe) => summarizeProbe(probe, samples, now));
+}
+
+export interface ProbeEntryGate {
+  paused: boolean;
+  reasons: string[];
+}
+
+/**
+ * Whether auto-entry may open new positions. Only probes that gate entries count, and only
+ * when degraded or offline - unknown (no recent samples) never pauses, so a project without
+ * the scheduler keeps trading as before.
+ */
+export function probeEntryGate(summaries: ProbeSummary[]): ProbeEntryGate {
+  const reasons = summaries
+    .filter((s) => s.gatesEntry && (s.status === 'degraded' || s.status === 'offline'))
+    .map((s) => `${s.api} ${s.description} ${s.status}${s.lastError ? ` (${s.lastError})` : ''}`);
+  return { paused: reasons.length > 0, reasons };
+}
+
+/** Rebuild samples from api_health_metrics rows written by the probe run */
+export function parseProbeRows(
+  rows: { endpoint: string; response_time_ms: number; status_code: number; is_success: boolean; error_message: string | null; created_at: string }[]
+): ProbeSample[] {
+  const ids = new Set<string>(API_PROBES.map((p) => p.id));
+  const samples: ProbeSample[] = [];
+  for (const row of rows) {
+    if (!row.endpoint.startsWith(PROBE_ENDPOINT_PREFIX)) continue;
+    const id = row.endpoint.slice(PROBE_ENDPOINT_PREFIX.length);
+    const checkedAt = Date.parse(row.created_at);
+    if (!ids.has(id) || !Number.isFinite(checkedAt)) continue;
+    samples.push({
+      probe: id as ProbeId,
+      latencyMs: row.response_time_ms,
+      success: row.is_success,
+      statusCode: row.status_code,
+      error: row.error_message,
+      checkedAt,
+    });
+  }
+  return samples;
+}
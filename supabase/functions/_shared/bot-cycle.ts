@@ -0,0 +1,361 @@
+/**
+ * One headless bot cycle for one user: scan → evaluate → execute → exit.
+ *
+ * The browser bot runs the same pipeline on setIntervals (BotContext, useAutoExit); this is
+ * the server-side equivalent the bot-runner function drives from a schedule, signing with
+ * the user's delegated session key. Every side effect is injected - edge function calls,
+ * signing, broadcasting, database writes and the lease heartbeat - so the cycle can run
+ * against fakes:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/bot-cycle.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/bot-cycle";
+ */
+
+import type { SessionSigner } from './session-keys.ts';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const BOT_STAGES = ['scan', 'evaluate', 'execute', 'exit'] as const;
+export type BotStage = typeof BOT_STAGES[number];
+
+export type StageStatus = 'ok' | 'skipped' | 'failed';
+
+export interface StageRun {
+  stage: BotStage;
+  status: StageStatus;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  summary: Record<string, unknown>;
+  error: string | null;
+}
+
+// token-scanner output, as much of it as auto-sniper needs
+export interface ScannerToken {
+  address: string;
+  name: string;
+  symbol: string;
+  chain: string;
+  liquidity: number;
+  liquidityLocked: boolean;
+  lockPercentage: number | null;
+  buyerPosition: number | null;
+  riskScore: number;
+  priceUsd?: number;
+  holders?: number;
+  marketCap?: number;
+  volume24h?: number;
+  createdAt?: string;
+  isPumpFun?: boolean;
+  isTradeable?: boolean;
+  canBuy?: boolean;
+  canSell?: boolean;
+  source?: string;
+  safetyReasons?: string[];
+}
+
+export interface PendingSignal {
+  id: string;
+  token_address: string;
+  token_symbol: string;
+  token_name: string | null;
+  trade_amount: number;
+  slippage: number;
+  priority: string;
+  is_pump_fun: boolean;
+}
+
+export type SignalOutcome =
+  | { ok: true; txSignature: string; positionId: string | null }
+  | { ok: false; error: string; positionId: string | null };
+
+// auto-exit result for a position whose exit is built and waiting for a signature
+export interface BotExitResult {
+  positionId: string;
+  symbol: string;
+  action: string;
+  currentPrice: number;
+  profitLossPercent: number;
+  sellFraction?: number;
+  tierIndexes?: number[];
+  executed: boolean;
+  error?: string;
+  swapTransaction?: string;
+  tokenAmount?: number;
+}
+
+export interface BotCycleDeps {
+  // Calls an edge function as the user; throws on transport or function errors
+  invoke<T>(fn: string, body: Record<string, unknown>): Promise<T>;
+  // Null when the user has no session key - entries and exits are skipped
+  signer: SessionSigner | null;
+  sendTransaction(signedBase64: string): Promise<string>;
+  confirmTransaction(signature: string): Promise<{ confirmed: boolean; error?: string }>;
+  // Renews the cycle's lease; false means another runner owns the user now
+  heartbeat(): Promise<boolean>;
+  recordStage(run: StageRun): Promise<void>;
+  // Tokens the user holds or already has a signal for - never re-evaluated
+  knownTokens(): Promise<Set<string>>;
+  // Atomically moves up to `limit` pending signals to executing
+  claimSignals(limit: number): Promise<PendingSignal[]>;
+  settleSignal(signal: PendingSignal, outcome: SignalOutcome): Promise<void>;
+  // Open positions held by the session key
+  sessionPositions(): Promise<string[]>;
+  recordExit(exit: BotExitResult, txSignature: string): Promise<void>;
+  now?: () => number;
+}
+
+export interface BotCycleOptions {
+  // Off also when the session key has expired - an expired key only closes what it opened
+  autoEntry: boolean;
+  autoExit: boolean;
+  minLiquidity: number;
+  // Per-trade cap for the session key, whatever the sniper settings say
+  maxTradeSol: number;
+  maxSignalsPerCycle: number;
+  // Candidates per auto-sniper call (matches the browser bot's batch)
+  evaluateBatchSize: number;
+}
+
+export interface BotCycleResult {
+  stages: StageRun[];
+  leaseLost: boolean;
+}
+
+export const DEFAULT_BOT_CYCLE_OPTIONS: BotCycleOptions = {
+  autoEntry: true,
+  autoExit: true,
+  minLiquidity: 300,
+  maxTradeSol: 0.1,
+  maxSignalsPerCycle: 3,
+  evaluateBatchSize: 20,
+};
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+interface StageOutcome {
+  status?: StageStatus;
+  summary: Record<string, unknown>;
+}
+
+// ============================================================================
+// STAGES
+// ============================================================================
+
+function skipped(reason: string, extra: Record<string, unknown> = {}): StageOutcome {
+  return { status: 'skipped', summary: { reason, ...extra } };
+}
+
+async function scanStage(deps: BotCycleDeps, options: BotCycleOptions, found: ScannerToken[]): Promise<StageOutcome> {
+  if (!options.autoEntry) return skipped('Auto entry is off');
+
+  const data = await deps.invoke<{ tokens?: ScannerToken[] }>('token-scanner', {
+    minLiquidity: options.minLiquidity,
+    chains: ['solana'],
+  });
+  const known = await deps.knownTokens();
+  const tokens = data.tokens || [];
+  for (const token of tokens) {
+    if (!token.address || known.has(token.address)) continue;
+    if (token.canSell === false) continue;
+    if (token.symbol?.toUpperCase() === 'SOL' && token.address !== SOL_MINT) continue;
+    found.push(token);
+  }
+  return { summary: { scanned: tokens.length, candidates: found.length } };
+}
+
+async function evaluateStage(deps: BotCycleDeps, options: BotCycleOptions, candidates: ScannerToken[]): Promise<StageOutcome> {
+  if (!options.autoEntry) return skipped('Auto entry is off');
+  if (candidates.length === 0) return skipped('No new candidates');
+
+  const batch = candidates.slice(0, options.evaluateBatchSize).map((t) => ({
+    address: t.address,
+    name: t.name,
+    symbol: t.symbol,
+    chain: t.chain,
+    liquidity: t.liquidity,
+    liquidityLocked: t.liquidityLocked,
+    lockPercentage: t.lockPercentage,
+    buyerPosition: t.buyerPosition,
+    riskScore: t.riskScore,
+    categories: [],
+    priceUsd: t.priceUsd,
+    holders: t.holders,
+    marketCap: t.marketCap,
+    volume24h: t.volume24h,
+    createdAt: t.createdAt,
+    isPumpFun: t.isPumpFun,
+    isTradeable: t.isTradeable,
+    canBuy: t.canBuy,
+    canSell: t.canSell,
+    source: t.source,
+    safetyReasons: t.safetyReasons,
+  }));
+
+  const data = await deps.invoke<{ summary?: Record<string, unknown> }>('auto-sniper', {
+    tokens: batch,
+    executeOnApproval: true,
+  });
+  const summary = data.summary || {};
+  return {
+    summary: {
+      evaluated: batch.length,
+      approved: summary.approved ?? 0,
+      signals: summary.executed ?? 0,
+      entriesBlocked: summary.entriesBlocked ?? null,
+    },
+  };
+}
+
+async function sendAndConfirm(deps: BotCycleDeps, signer: SessionSigner, transaction: string): Promise<string> {
+  const signed = await signer.signTransaction(transaction);
+  const signature = await deps.sendTransaction(signed);
+  const confirmation = await deps.confirmTransaction(signature);
+  if (!confirmation.confirmed) throw new Error(confirmation.error || `Transaction ${signature} did not confirm`);
+  return signature;
+}
+
+async function executeStage(deps: BotCycleDeps, options: BotCycleOptions): Promise<StageOutcome> {
+  if (!options.autoEntry) return skipped('Auto entry is off');
+  const signer = deps.signer;
+  if (!signer) return skipped('No active session key');
+
+  const signals = await deps.claimSignals(options.maxSignalsPerCycle);
+  if (signals.length === 0) return skipped('No pending signals');
+
+  let executed = 0;
+  const failures: string[] = [];
+  for (const signal of signals) {
+    let positionId: string | null = null;
+    try {
+      const tradeAmount = Math.min(signal.trade_amount, options.maxTradeSol);
+      const trade = await deps.invoke<{ success?: boolean; swapTransaction?: string; positionId?: string; error?: string }>(
+        'trade-execution',
+        {
+          action: 'execute',
+          inputMint: SOL_MINT,
+          outputMint: signal.token_address,
+          amount: String(Math.floor(tradeAmount * 1e9)),
+          slippageBps: signal.slippage * 100,
+          userPublicKey: signer.publicKey,
+          tokenSymbol: signal.token_symbol,
+          tokenName: signal.token_name,
+          priorityLevel: signal.priority,
+          isPumpFun: signal.is_pump_fun,
+        }
+      );
+      positionId = trade.positionId ?? null;
+      if (!trade.success || !trade.swapTransaction) throw new Error(trade.error || 'Failed to build transaction');
+
+      const txSignature = await sendAndConfirm(deps, signer, trade.swapTransaction);
+      await deps.settleSignal(signal, { ok: true, txSignature, positionId });
+      executed++;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`${signal.token_symbol}: ${message}`);
+      await deps.settleSignal(signal, { ok: false, error: message, positionId });
+    }
+  }
+
+  return {
+    status: executed === 0 ? 'failed' : 'ok',
+    summary: { claimed: signals.length, executed, failed: failures.length, ...(failures.length ? { failures } : {}) },
+  };
+}
+
+async function exitStage(deps: BotCycleDeps, options: BotCycleOptions): Promise<StageOutcome> {
+  if (!options.autoExit) return skipped('Auto exit is off');
+  const signer = deps.signer;
+  if (!signer) return skipped('No active session key');
+
+  const positionIds = await deps.sessionPositions();
+  if (positionIds.length === 0) return skipped('No open session positions');
+
+  const data = await deps.invoke<{ results?: BotExitResult[] }>('auto-exit', {
+    positionIds,
+    executeExits: true,
+    walletAddress: signer.publicKey,
+  });
+  const results = data.results || [];
+
+  let exited = 0;
+  let blocked = 0;
+  const failures: string[] = [];
+  for (const result of results) {
+    if (result.action === 'hold' || result.executed) continue;
+    if (!result.swapTransaction || !result.error?.startsWith('PENDING_SIGNATURE')) {
+      blocked++;
+      continue;
+    }
+    try {
+      const txSignature = await sendAndConfirm(deps, signer, result.swapTransaction);
+      await deps.recordExit(result, txSignature);
+      exited++;
+    } catch (error: unknown) {
+      failures.push(`${result.symbol}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    status: failures.length > 0 && exited === 0 ? 'failed' : 'ok',
+    summary: {
+      checked: results.length,
+      triggered: results.filter((r) => r.action !== 'hold').length,
+      exited,
+      blocked,
+      failed: failures.length,
+      ...(failures.length ? { failures } : {}),
+    },
+  };
+}
+
+// ============================================================================
+// CYCLE
+// ============================================================================
+
+/**
+ * Run every stage in order. A failing stage is recorded and the cycle moves on - a scanner
+ * outage must not stop exits - but a lost lease stops it before the next stage starts.
+ */
+export async function runBotCycle(deps: BotCycleDeps, options: BotCycleOptions = DEFAULT_BOT_CYCLE_OPTIONS): Promise<BotCycleResult> {
+  const now = deps.now ?? Date.now;
+  const candidates: ScannerToken[] = [];
+  const stages: StageRun[] = [];
+
+  const steps: Record<BotStage, () => Promise<StageOutcome>> = {
+    scan: () => scanStage(deps, options, candidates),
+    evaluate: () => evaluateStage(deps, options, candidates),
+    execute: () => executeStage(deps, options),
+    exit: () => exitStage(deps, options),
+  };
+
+  for (const stage of BOT_STAGES) {
+    if (!(await deps.heartbeat())) return { stages, leaseLost: true };
+
+    const started = now();
+    let outcome: StageOutcome;
+    let error: string | null = null;
+    try {
+      outcome = await steps[stage]();
+    } catch (err: unknown) {
+      error = err instanceof Error ? err.message : String(err);
+      outcome = { status: 'failed', summary: {} };
+    }
+    const finished = now();
+
+    const run: StageRun = {
+      stage,
+      status: outcome.status ?? 'ok',
+      startedAt: new Date(started).toISOString(),
+      finishedAt: new Date(finished).toISOString(),
+      durationMs: finished - started,
+      summary: outcome.summary,
+      error,
+    };
+    stages.push(run);
+    await deps.recordStage(run);
+  }
+
+  return { stages, leaseLost: false };
+}
@@ -0,0 +1,205 @@
+// Circuit breaker persistence for edge functions: loads the positions the breaker needs,
+// evaluates them (circuit-breaker.ts), and records escalations on risk_settings and
+// circuit_breaker_trips. Used by risk-check and auto-sniper.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  BREAKER_LEVEL_RANK,
+  evaluateCircuitBreaker,
+  needsSolPrice,
+  parseBreakerConfig,
+  type BreakerEvaluation,
+  type BreakerLevel,
+  type BreakerPosition,
+  type BreakerStrategy,
+  type BreakerTrip,
+} from "./circuit-breaker.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface BreakerSettings {
+  emergency_stop_active: boolean;
+  circuit_breaker_enabled: boolean;
+  circuit_breaker_time_window_minutes: number;
+  circuit_breaker_triggered_at: string | null;
+  circuit_breaker_level: string | null;
+  circuit_breaker_paused_strategies: string[] | null;
+  circuit_breaker_config: unknown;
+}
+
+export interface BreakerStatus {
+  // Effective level after cooldown - what entry paths must obey
+  level: BreakerLevel;
+  sizeFactor: number;
+  pausedStrategies: BreakerStrategy[];
+  reason: string | null;
+  triggeredAt: string | null;
+  cooldownUntil: string | null;
+  evaluation: BreakerEvaluation | null;
+}
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+const POSITION_COLUMNS = "id, token_symbol, status, entry_sol, profit_loss_percent, profit_loss_value, closed_at, wallet_address";
+
+async function loadBreakerPositions(supabase: SupabaseClient, userId: string, streakLength: number, now: number) {
+  const since = new Date(now - 24 * 60 * 60 * 1000).toISOString();
+  const [windowRes, recentRes, walletsRes] = await Promise.all([
+    supabase
+      .from("positions")
+      .select(POSITION_COLUMNS)
+      .eq("user_id", userId)
+      .or(`status.neq.closed,closed_at.gte.${since}`)
+      .limit(1000),
+    supabase
+      .from("positions")
+      .select(POSITION_COLUMNS)
+      .eq("user_id", userId)
+      .eq("status", "closed")
+      .not("closed_at", "is", null)
+      .order("closed_at", { ascending: false })
+      .limit(Math.max(1, streakLength)),
+    supabase
+      .from("trading_wallets")
+      .select("address, strategy")
+      .eq("user_id", userId),
+  ]);
+  if (windowRes.error) throw windowRes.error;
+
+  const byId = new Map<string, BreakerPosition>();
+  for (const row of [...(windowRes.data || []), ...(recentRes.data || [])]) {
+    const position = row as unknown as BreakerPosition;
+    byId.set(position.id, position);
+  }
+
+  const walletStrategies: Record<string, string> = {};
+  for (const wallet of (walletsRes.data || []) as { address: string; strategy: string }[]) {
+    walletStrategies[wallet.address] = wallet.strategy;
+  }
+
+  return { positions: [...byId.values()], walletStrategies };
+}
+
+// SOL/USD from DexScreener's deepest USDC pair; null when unavailable
+async function fetchSolPriceUsd(): Promise<number | null> {
+  try {
+    const res = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${SOL_MINT}`, {
+      signal: AbortSignal.timeout(3000),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    const pairs = (data?.pairs || []) as { chainId?: string; quoteToken?: { symbol?: string }; liquidity?: { usd?: number }; priceUsd?: string }[];
+    const pair = pairs
+      .filter((p) => p?.chainId === "solana" && p?.quoteToken?.symbol === "USDC")
+      .sort((a, b) => (b?.liquidity?.usd || 0) - (a?.liquidity?.usd || 0))[0];
+    const price = Number(pair?.priceUsd);
+    return Number.isFinite(price) && price > 0 ? price : null;
+  } catch (error) {
+    console.error("[CircuitBreaker] SOL price fetch failed:", error);
+    return null;
+  }
+}
+
+async function recordTrips(supabase: SupabaseClient, userId: string, trips: BreakerTrip[]) {
+  if (trips.length === 0) return;
+  const { error } = await supabase.from("circuit_breaker_trips").insert(
+    trips.map((trip) => ({
+      user_id: userId,
+      level: trip.level,
+      trigger: trip.trigger,
+      strategy: trip.strategy,
+      loss_amount: trip.loss,
+      limit_value: trip.limit,
+      unit: trip.unit,
+      position_ids: trip.positionIds,
+      message: trip.message,
+    }))
+  );
+  if (error) console.error("[CircuitBreaker] Failed to record trips:", error);
+}
+
+/**
+ * Evaluate the user's breaker and persist any escalation. A level holds for the cooldown
+ * (`circuit_breaker_time_window_minutes`) after it tripped even if losses recover; a trip
+ * is logged only when it raises the level or pauses a strategy that was not paused.
+ */
+export async function refreshCircuitBreaker(
+  supabase: SupabaseClient,
+  userId: string,
+  settings: BreakerSettings,
+  now: number = Date.now()
+): Promise<BreakerStatus> {
+  if (!settings.circuit_breaker_enabled) {
+    return { level: "none", sizeFactor: 1, pausedStrategies: [], reason: null, triggeredAt: null, cooldownUntil: null, evaluation: null };
+  }
+
+  const config = parseBreakerConfig(settings.circuit_breaker_config);
+  const { positions, walletStrategies } = await loadBreakerPositions(
+    supabase,
+    userId,
+    config.max_consecutive_losses ?? 1,
+    now
+  );
+  // Positions without entry_sol are measured through their USD PnL at the current SOL price
+  const solPriceUsd = needsSolPrice(positions, config) ? await fetchSolPriceUsd() : null;
+  const evaluation = evaluateCircuitBreaker(positions, walletStrategies, config, now, solPriceUsd);
+
+  const cooldownMs = settings.circuit_breaker_time_window_minutes * 60 * 1000;
+  const triggeredAtMs = settings.circuit_breaker_triggered_at ? new Date(settings.circuit_breaker_triggered_at).getTime() : 0;
+  const inCooldown = triggeredAtMs > 0 && now < triggeredAtMs + cooldownMs;
+  const heldLevel = (inCooldown ? settings.circuit_breaker_level || "none" : "none") as BreakerLevel;
+  const heldStrategies = (settings.circuit_breaker_paused_strategies || []) as BreakerStrategy[];
+
+  const escalated = BREAKER_LEVEL_RANK[evaluation.level] > BREAKER_LEVEL_RANK[heldLevel];
+  const newlyPaused = evaluation.pausedStrategies.filter((s) => !heldStrategies.includes(s));
+  const strategiesChanged =
+    newlyPaused.length > 0 || heldStrategies.some((s) => !evaluation.pausedStrategies.includes(s));
+
+  let level: BreakerLevel = escalated ? evaluation.level : heldLevel;
+  let triggeredAt = settings.circuit_breaker_triggered_at;
+
+  if (escalated) {
+    triggeredAt = new Date(now).toISOString();
+    await recordTrips(supabase, userId, [
+      ...evaluation.trips.filter((t) => t.strategy === null && BREAKER_LEVEL_RANK[t.level] > BREAKER_LEVEL_RANK[heldLevel]),
+      ...evaluation.trips.filter((t) => t.strategy !== null && newlyPaused.includes(t.strategy)),
+    ]);
+  } else if (newlyPaused.length > 0) {
+    await recordTrips(supabase, userId, evaluation.trips.filter((t) => t.strategy !== null && newlyPaused.includes(t.strategy)));
+  }
+
+  if (escalated || strategiesChanged || (settings.circuit_breaker_level || "none") !== level) {
+    const update: Record<string, unknown> = {
+      circuit_breaker_level: level,
+      circuit_breaker_triggered_at: level === "none" ? null : triggeredAt,
+      circuit_breaker_paused_strategies: evaluation.pausedStrategies,
+    };
+    if (escalated && level === "emergency_stop") update.emergency_stop_active = true;
+    await supabase.from("risk_settings").update(update).eq("user_id", userId);
+    if (escalated) console.log(`[CircuitBreaker] ${userId} escalated to ${level}`);
+  }
+
+  // An emergency stop the user has since cleared holds entries paused until the cooldown ends
+  if (level === "emergency_stop" && !escalated && !settings.emergency_stop_active) {
+    level = "pause_entries";
+  }
+
+  const activeTrip = evaluation.trips
+    .filter((t) => t.strategy === null)
+    .sort((a, b) => BREAKER_LEVEL_RANK[b.level] - BREAKER_LEVEL_RANK[a.level])[0];
+  const reason = level === "none"
+    ? null
+    : activeTrip?.message ?? `Circuit breaker holding ${level.replace("_", " ")} until the cooldown ends`;
+
+  return {
+    level,
+    sizeFactor: level === "reduce_size" ? config.reduce_size_factor : 1,
+    pausedStrategies: evaluation.pausedStrategies,
+    reason,
+    triggeredAt: level === "none" ? null : triggeredAt,
+    cooldownUntil: level !== "none" && triggeredAt
+      ? new Date(new Date(triggeredAt).getTime() + cooldownMs).toISOString()
+      : null,
+    evaluation,
+  };
+}
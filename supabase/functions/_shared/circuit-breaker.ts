@@ -0,0 +1,359 @@
+/**
+ * Graduated circuit breaker - measures realized and unrealized loss in SOL or USD against
+ * hourly, daily and per-strategy limits plus a consecutive-loss streak, and maps each breach
+ * to a response:
+ *   reduce_size     new entries continue at a fraction of the configured size
+ *   pause_entries   no new entries; exits and open-position management continue
+ *   emergency_stop  sets `emergency_stop_active` - all trading halts until manually cleared
+ *
+ * Evaluation is pure (positions in, decision out); loading and persisting live in
+ * circuit-breaker-state.ts.
+ * - Edge Functions (Deno):  import { ... } from "../_shared/circuit-breaker.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/circuit-breaker";
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BreakerAction = 'reduce_size' | 'pause_entries' | 'emergency_stop';
+export type BreakerLevel = 'none' | BreakerAction;
+export type BreakerUnit = 'sol' | 'usd';
+export type BreakerStrategy = 'sniper' | 'copy_trade' | 'manual' | 'unassigned';
+export type BreakerTrigger = 'hourly_loss' | 'daily_loss' | 'strategy_loss' | 'loss_streak' | 'approaching_limit';
+
+export interface CircuitBreakerConfig {
+  unit: BreakerUnit;
+  // null disables the limit
+  hourly_loss_limit: number | null;
+  hourly_action: BreakerAction;
+  daily_loss_limit: number | null;
+  daily_action: BreakerAction;
+  // Breaching a strategy's limit pauses entries for that strategy only
+  strategy_loss_limits: Partial<Record<BreakerStrategy, number>>;
+  max_consecutive_losses: number | null;
+  streak_action: BreakerAction;
+  // Past this share of the hourly or daily limit, entries are scaled by reduce_size_factor
+  reduce_at_percent: number;
+  reduce_size_factor: number;
+  include_unrealized: boolean;
+}
+
+export interface BreakerPosition {
+  id: string;
+  token_symbol?: string | null;
+  status: string | null;
+  entry_sol: number | null;
+  profit_loss_percent: number | null;
+  profit_loss_value: number | null;
+  closed_at: string | null;
+  wallet_address: string | null;
+}
+
+export interface BreakerTrip {
+  trigger: BreakerTrigger;
+  level: BreakerAction;
+  strategy: BreakerStrategy | null;
+  loss: number;
+  limit: number;
+  unit: BreakerUnit;
+  positionIds: string[];
+  message: string;
+}
+
+export interface WindowLoss {
+  realized: number;
+  unrealized: number;
+  // Net loss (gains offset losses); 0 when the window is up
+  loss: number;
+}
+
+export interface BreakerEvaluation {
+  level: BreakerLevel;
+  // 1 unless reduce_size is the highest active response
+  sizeFactor: number;
+  pausedStrategies: BreakerStrategy[];
+  trips: BreakerTrip[];
+  hourly: WindowLoss;
+  daily: WindowLoss;
+  streak: number;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export const BREAKER_LEVEL_RANK: Record<BreakerLevel, number> = {
+  none: 0,
+  reduce_size: 1,
+  pause_entries: 2,
+  emergency_stop: 3,
+};
+
+export const BREAKER_ACTIONS: BreakerAction[] = ['reduce_size', 'pause_entries', 'emergency_stop'];
+export const BREAKER_STRATEGIES: BreakerStrategy[] = ['sniper', 'copy_trade', 'manual', 'unassigned'];
+
+export const DEFAULT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  unit: 'sol',
+  hourly_loss_limit: 0.5,
+  hourly_action: 'pause_entries',
+  daily_loss_limit: 1.5,
+  daily_action: 'emergency_stop',
+  strategy_loss_limits: {},
+  max_consecutive_losses: 5,
+  streak_action: 'reduce_size',
+  reduce_at_percent: 50,
+  reduce_size_factor: 0.5,
+  include_unrealized: true,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function positiveOrNull(value: unknown, fallback: number | null): number | null {
+  if (value === null) return null;
+  const n = Number(value);
+  return value !== undefined && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function actionOr(value: unknown, fallback: BreakerAction): BreakerAction {
+  return BREAKER_ACTIONS.includes(value as BreakerAction) ? (value as BreakerAction) : fallback;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+/** Config stored as JSON on risk_settings, with defaults for anything missing or invalid */
+export function parseBreakerConfig(raw: unknown): CircuitBreakerConfig {
+  const obj = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const d = DEFAULT_BREAKER_CONFIG;
+
+  const strategyLimits: Partial<Record<BreakerStrategy, number>> = {};
+  const rawLimits = obj.strategy_loss_limits;
+  if (typeof rawLimits === 'object' && rawLimits !== null) {
+    for (const strategy of BREAKER_STRATEGIES) {
+      const limit = positiveOrNull((rawLimits as Record<string, unknown>)[strategy], null);
+      if (limit !== null) strategyLimits[strategy] = limit;
+    }
+  }
+
+  return {
+    unit: obj.unit === 'usd' ? 'usd' : 'sol',
+    hourly_loss_limit: positiveOrNull(obj.hourly_loss_limit, d.hourly_loss_limit),
+    hourly_action: actionOr(obj.hourly_action, d.hourly_action),
+    daily_loss_limit: positiveOrNull(obj.daily_loss_limit, d.daily_loss_limit),
+    daily_action: actionOr(obj.daily_action, d.daily_action),
+    strategy_loss_limits: strategyLimits,
+    max_consecutive_losses: positiveOrNull(obj.max_consecutive_losses, d.max_consecutive_losses),
+    streak_action: actionOr(obj.streak_action, d.streak_action),
+    reduce_at_percent: clamp(obj.reduce_at_percent, 1, 100, d.reduce_at_percent),
+    reduce_size_factor: clamp(obj.reduce_size_factor, 0.05, 1, d.reduce_size_factor),
+    include_unrealized: obj.include_unrealized !== false,
+  };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Signed PnL of a position in the configured unit. SOL is entry size × percent, so a
+ * -10% on 5 SOL weighs 500× a -10% on 0.01 SOL; USD is the stored profit_loss_value.
+ * Positions without entry_sol (opened before it was recorded, or manual) fall back to the
+ * USD value converted at solPriceUsd, and count as 0 only when no SOL price is known.
+ */
+export function positionPnl(position: BreakerPosition, unit: BreakerUnit, solPriceUsd: number | null = null): number {
+  if (unit === 'usd') return Number(position.profit_loss_value) || 0;
+  if (position.entry_sol === null || position.entry_sol === undefined) {
+    const usd = Number(position.profit_loss_value) || 0;
+    return solPriceUsd && solPriceUsd > 0 ? usd / solPriceUsd : 0;
+  }
+  const entry = Number(position.entry_sol) || 0;
+  const percent = Number(position.profit_loss_percent) || 0;
+  return (entry * percent) / 100;
+}
+
+/** Whether SOL-unit evaluation of these positions needs a SOL price for the USD fallback */
+export function needsSolPrice(positions: BreakerPosition[], config: CircuitBreakerConfig): boolean {
+  return config.unit === 'sol' && positions.some((p) => p.entry_sol === null || p.entry_sol === undefined);
+}
+
+// open, pending and waiting_for_liquidity all still hold the tokens
+function isOpen(position: BreakerPosition): boolean {
+  return position.status !== 'closed';
+}
+
+function closedWithin(position: BreakerPosition, since: number): boolean {
+  return !isOpen(position) && position.closed_at !== null && new Date(position.closed_at).getTime() >= since;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function windowLoss(
+  positions: BreakerPosition[],
+  config: CircuitBreakerConfig,
+  since: number,
+  solPriceUsd: number | null
+): WindowLoss & { positionIds: string[] } {
+  let realized = 0;
+  let unrealized = 0;
+  const positionIds: string[] = [];
+
+  for (const position of positions) {
+    const pnl = positionPnl(position, config.unit, solPriceUsd);
+    if (closedWithin(position, since)) {
+      realized += pnl;
+    } else if (config.include_unrealized && isOpen(position)) {
+      unrealized += pnl;
+    } else {
+      continue;
+    }
+    if (pnl < 0) positionIds.push(position.id);
+  }
+
+  // Report losses as positive numbers
+  return {
+    realized: round(Math.max(0, -realized)),
+    unrealized: round(Math.max(0, -unrealized)),
+    loss: round(Math.max(0, -(realized + unrealized))),
+    positionIds,
+  };
+}
+
+/** Losing closed positions since the last winner, most recent first */
+export function lossStreak(positions: BreakerPosition[]): BreakerPosition[] {
+  const closed = positions
+    .filter((p) => !isOpen(p) && p.closed_at !== null)
+    .sort((a, b) => new Date(b.closed_at!).getTime() - new Date(a.closed_at!).getTime());
+
+  const streak: BreakerPosition[] = [];
+  for (const position of closed) {
+    if ((Number(position.profit_loss_percent) || 0) >= 0) break;
+    streak.push(position);
+  }
+  return streak;
+}
+
+function formatAmount(value: number, unit: BreakerUnit): string {
+  return unit === 'usd' ? `$${value.toFixed(2)}` : `${value.toFixed(3)} SOL`;
+}
+
+/**
+ * Evaluate every configured limit. `positions` should hold open positions plus everything
+ * closed in the last 24 hours and at least `max_consecutive_losses` most recent closes;
+ * `walletStrategies` maps trading wallet addresses to the strategy they are assigned to;
+ * `solPriceUsd` converts positions without entry_sol when the unit is SOL.
+ */
+export function evaluateCircuitBreaker(
+  positions: BreakerPosition[],
+  walletStrategies: Record<string, string>,
+  config: CircuitBreakerConfig,
+  now: number = Date.now(),
+  solPriceUsd: number | null = null
+): BreakerEvaluation {
+  const { unit } = config;
+  const trips: BreakerTrip[] = [];
+
+  const hourly = windowLoss(positions, config, now - HOUR_MS, solPriceUsd);
+  const daily = windowLoss(positions, config, now - DAY_MS, solPriceUsd);
+
+  const limitChecks: { trigger: BreakerTrigger; label: string; window: typeof hourly; limit: number | null; action: BreakerAction }[] = [
+    { trigger: 'hourly_loss', label: 'Hourly', window: hourly, limit: config.hourly_loss_limit, action: config.hourly_action },
+    { trigger: 'daily_loss', label: 'Daily', window: daily, limit: config.daily_loss_limit, action: config.daily_action },
+  ];
+
+  for (const check of limitChecks) {
+    if (check.limit === null) continue;
+    if (check.window.loss >= check.limit) {
+      trips.push({
+        trigger: check.trigger,
+        level: check.action,
+        strategy: null,
+        loss: check.window.loss,
+        limit: check.limit,
+        unit,
+        positionIds: check.window.positionIds,
+        message: `${check.label} loss ${formatAmount(check.window.loss, unit)} reached the ${formatAmount(check.limit, unit)} limit`,
+      });
+    } else if (check.window.loss >= (check.limit * config.reduce_at_percent) / 100) {
+      trips.push({
+        trigger: 'approaching_limit',
+        level: 'reduce_size',
+        strategy: null,
+        loss: check.window.loss,
+        limit: check.limit,
+        unit,
+        positionIds: check.window.positionIds,
+        message: `${check.label} loss ${formatAmount(check.window.loss, unit)} is ${Math.round((check.window.loss / check.limit) * 100)}% of the limit - size reduced`,
+      });
+    }
+  }
+
+  // Per-strategy daily loss, attributed through the position's trading wallet
+  const pausedStrategies: BreakerStrategy[] = [];
+  for (const strategy of BREAKER_STRATEGIES) {
+    const limit = config.strategy_loss_limits[strategy];
+    if (limit === undefined) continue;
+    const owned = positions.filter((p) => {
+      const assigned = p.wallet_address ? walletStrategies[p.wallet_address] : undefined;
+      const resolved = assigned && assigned !== 'any' ? assigned : 'unassigned';
+      return resolved === strategy;
+    });
+    const strategyWindow = windowLoss(owned, config, now - DAY_MS, solPriceUsd);
+    if (strategyWindow.loss >= limit) {
+      pausedStrategies.push(strategy);
+      trips.push({
+        trigger: 'strategy_loss',
+        level: 'pause_entries',
+        strategy,
+        loss: strategyWindow.loss,
+        limit,
+        unit,
+        positionIds: strategyWindow.positionIds,
+        message: `${strategy} lost ${formatAmount(strategyWindow.loss, unit)} today (limit ${formatAmount(limit, unit)}) - its entries are paused`,
+      });
+    }
+  }
+
+  const streak = lossStreak(positions);
+  if (config.max_consecutive_losses !== null && streak.length >= config.max_consecutive_losses) {
+    trips.push({
+      trigger: 'loss_streak',
+      level: config.streak_action,
+      strategy: null,
+      loss: round(streak.reduce((sum, p) => sum - Math.min(0, positionPnl(p, unit, solPriceUsd)), 0)),
+      limit: config.max_consecutive_losses,
+      unit,
+      positionIds: streak.map((p) => p.id),
+      message: `${streak.length} losing trades in a row (limit ${config.max_consecutive_losses})`,
+    });
+  }
+
+  // Strategy trips pause one strategy, not everything - they do not raise the global level
+  const level = trips
+    .filter((t) => t.strategy === null)
+    .reduce<BreakerLevel>((highest, t) => (BREAKER_LEVEL_RANK[t.level] > BREAKER_LEVEL_RANK[highest] ? t.level : highest), 'none');
+
+  return {
+    level,
+    sizeFactor: level === 'reduce_size' ? config.reduce_size_factor : 1,
+    pausedStrategies,
+    trips,
+    hourly: { realized: hourly.realized, unrealized: hourly.unrealized, loss: hourly.loss },
+    daily: { realized: daily.realized, unrealized: daily.unrealized, loss: daily.loss },
+    streak: streak.length,
+  };
+}
+
+/** Whether a new entry for `strategy` may open at the given breaker level */
+export function breakerAllowsEntry(
+  level: BreakerLevel,
+  pausedStrategies: BreakerStrategy[],
+  strategy: BreakerStrategy
+): boolean {
+  return BREAKER_LEVEL_RANK[level] < BREAKER_LEVEL_RANK.pause_entries && !pausedStrategies.includes(strategy);
+}
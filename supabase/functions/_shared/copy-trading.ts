@@ -0,0 +1,303 @@
+/**
+ * Copy trading - leader swap parsing, position sizing and leader performance
+ *
+ * Pure and dependency-free like snipe-rules.ts:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/copy-trading.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/copy-trading";
+ */
+
+export const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Programs whose presence marks a transaction as a swap rather than a plain transfer
+export const SWAP_PROGRAMS: Record<string, string> = {
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: 'jupiter',
+  '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8': 'raydium',
+  CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C: 'raydium',
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: 'raydium',
+  '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P': 'pumpfun',
+  pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA: 'pumpfun',
+  whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc: 'orca',
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: 'meteora',
+};
+
+export const COPY_TRADING_CONFIG = {
+  // Leader swaps smaller than this are dust/fees, not trades
+  MIN_LEADER_SOL: 0.001,
+  // Copying a buy long after the leader made it mostly buys their exit liquidity
+  MAX_SIGNAL_AGE_MS: 2 * 60 * 1000,
+  SIGNATURES_PER_POLL: 20,
+  // Pages read back to the cursor when the leader traded more than one page since the last poll
+  MAX_SIGNATURE_PAGES: 10,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CopySizingMode = 'fixed_sol' | 'percent_of_leader';
+
+export interface CopySizing {
+  sizing_mode: CopySizingMode;
+  fixed_sol_amount: number;
+  leader_percent: number;            // 10 = copy 10% of the leader's SOL size
+  max_sol_per_token: number | null;  // Cap on total SOL copied into one token from this leader
+}
+
+export interface LeaderSwapEvent {
+  signature: string;
+  blockTime: number | null;          // unix seconds
+  side: 'buy' | 'sell';
+  tokenMint: string;
+  tokenAmount: number;               // UI units
+  solAmount: number;                 // SOL spent (buy) or received (sell), fees excluded
+  priceSol: number;                  // SOL per token
+  program: string;                   // 'jupiter', 'raydium', 'pumpfun', ...
+}
+
+// Subset of getTransaction(..., { encoding: 'jsonParsed' }) that the parser reads
+interface ParsedTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { uiAmountString?: string; uiAmount: number | null };
+}
+
+interface ParsedInstruction {
+  programId: string;
+}
+
+export interface ParsedSolanaTransaction {
+  blockTime?: number | null;
+  meta: {
+    err: unknown;
+    fee: number;
+    preBalances: number[];
+    postBalances: number[];
+    preTokenBalances?: ParsedTokenBalance[];
+    postTokenBalances?: ParsedTokenBalance[];
+    innerInstructions?: { instructions: ParsedInstruction[] }[];
+  } | null;
+  transaction: {
+    signatures: string[];
+    message: {
+      accountKeys: ({ pubkey: string } | string)[];
+      instructions: ParsedInstruction[];
+    };
+  };
+}
+
+export interface LeaderTradeRecord {
+  action: 'buy' | 'sell';
+  token_address: string;
+  sol_amount: number | null;
+  amount: number;                    // token amount
+}
+
+export interface LeaderStats {
+  buys: number;
+  sells: number;
+  volumeSol: number;
+  realizedPnlSol: number;
+  wins: number;                      // Tokens fully exited at a profit
+  losses: number;
+  winRate: number | null;            // null until a round trip completes
+  openTokens: number;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function tokenAmount(balance: ParsedTokenBalance | undefined): number {
+  if (!balance) return 0;
+  const value = Number(balance.uiTokenAmount.uiAmountString ?? balance.uiTokenAmount.uiAmount ?? 0);
+  return Number.isFinite(value) ? value : 0;
+}
+
+function findSwapProgram(tx: ParsedSolanaTransaction): string | null {
+  const programIds = [
+    ...tx.transaction.message.instructions.map(ix => ix.programId),
+    ...(tx.meta?.innerInstructions || []).flatMap(group => group.instructions.map(ix => ix.programId)),
+  ];
+  for (const id of programIds) {
+    if (SWAP_PROGRAMS[id]) return SWAP_PROGRAMS[id];
+  }
+  return null;
+}
+
+/**
+ * Turn a leader's transaction into a SOL<->token swap event using balance deltas.
+ * Returns null for failed transactions, transfers, token-to-token routes and dust.
+ */
+export function parseLeaderSwap(tx: ParsedSolanaTransaction, leader: string): LeaderSwapEvent | null {
+  const meta = tx.meta;
+  if (!meta || meta.err) return null;
+
+  const program = findSwapProgram(tx);
+  if (!program) return null;
+
+  const keys = tx.transaction.message.accountKeys.map(k => (typeof k === 'string' ? k : k.pubkey));
+  const leaderIndex = keys.indexOf(leader);
+  if (leaderIndex === -1) return null;
+
+  // Native SOL change, with the network fee added back when the leader paid it
+  let solDelta = (meta.postBalances[leaderIndex] - meta.preBalances[leaderIndex]) / 1e9;
+  if (leaderIndex === 0) solDelta += meta.fee / 1e9;
+
+  // Token changes for accounts the leader owns, keyed by mint
+  const deltas = new Map<string, number>();
+  const pre = (meta.preTokenBalances || []).filter(b => b.owner === leader);
+  const post = (meta.postTokenBalances || []).filter(b => b.owner === leader);
+  for (const balance of post) {
+    const before = pre.find(b => b.accountIndex === balance.accountIndex);
+    deltas.set(balance.mint, (deltas.get(balance.mint) || 0) + tokenAmount(balance) - tokenAmount(before));
+  }
+  for (const balance of pre) {
+    if (!post.some(b => b.accountIndex === balance.accountIndex)) {
+      // Account closed in this transaction - everything left
+      deltas.set(balance.mint, (deltas.get(balance.mint) || 0) - tokenAmount(balance));
+    }
+  }
+
+  // Wrapped SOL counts as SOL
+  solDelta += deltas.get(WSOL_MINT) || 0;
+  deltas.delete(WSOL_MINT);
+
+  const changed = [...deltas.entries()].filter(([, delta]) => Math.abs(delta) > 0);
+  if (changed.length !== 1) return null;
+
+  const [tokenMint, delta] = changed[0];
+  const side = delta > 0 && solDelta < 0 ? 'buy' : delta < 0 && solDelta > 0 ? 'sell' : null;
+  const solAmount = Math.abs(solDelta);
+  if (!side || solAmount < COPY_TRADING_CONFIG.MIN_LEADER_SOL) return null;
+
+  return {
+    signature: tx.transaction.signatures[0],
+    blockTime: tx.blockTime ?? null,
+    side,
+    tokenMint,
+    tokenAmount: Math.abs(delta),
+    solAmount,
+    priceSol: solAmount / Math.abs(delta),
+    program,
+  };
+}
+
+// ============================================================================
+// SIZING
+// ============================================================================
+
+/**
+ * SOL to spend copying a leader buy. `alreadyCopiedSol` is what this user already
+ * copied into the same token from the same leader; 0 means the cap is used up.
+ */
+export function computeCopySize(
+  sizing: CopySizing,
+  leaderSol: number,
+  alreadyCopiedSol = 0
+): { amount: number; capped: boolean } {
+  const base = sizing.sizing_mode === 'fixed_sol'
+    ? sizing.fixed_sol_amount
+    : leaderSol * (sizing.leader_percent / 100);
+  const wanted = Math.max(0, Math.round(base * 1e4) / 1e4);
+
+  if (sizing.max_sol_per_token === null || sizing.max_sol_per_token <= 0) {
+    return { amount: wanted, capped: false };
+  }
+  const remaining = Math.max(0, sizing.max_sol_per_token - alreadyCopiedSol);
+  return wanted > remaining
+    ? { amount: Math.round(remaining * 1e4) / 1e4, capped: true }
+    : { amount: wanted, capped: false };
+}
+
+// ============================================================================
+// PERFORMANCE
+// ============================================================================
+
+/**
+ * Realized performance of a leader from their recorded swaps (oldest first), using
+ * average cost per token. A token counts as a win/loss once the leader fully exits it.
+ */
+export function computeLeaderStats(trades: LeaderTradeRecord[]): LeaderStats {
+  const books = new Map<string, { qty: number; cost: number; pnl: number }>();
+  const stats: LeaderStats = { buys: 0, sells: 0, volumeSol: 0, realizedPnlSol: 0, wins: 0, losses: 0, winRate: null, openTokens: 0 };
+
+  for (const trade of trades) {
+    const sol = Number(trade.sol_amount) || 0;
+    const qty = Number(trade.amount) || 0;
+    const book = books.get(trade.token_address) || { qty: 0, cost: 0, pnl: 0 };
+    stats.volumeSol += sol;
+
+    if (trade.action === 'buy') {
+      stats.buys++;
+      book.qty += qty;
+      book.cost += sol;
+    } else {
+      stats.sells++;
+      // Sells of tokens bought before tracking started have no cost basis - skip their PnL
+      if (book.qty <= 0) continue;
+      const fraction = Math.min(1, qty / book.qty);
+      const basis = book.cost * fraction;
+      book.pnl += sol - basis;
+      stats.realizedPnlSol += sol - basis;
+      book.cost -= basis;
+      book.qty = fraction >= 0.999 ? 0 : book.qty - qty;
+
+      if (book.qty === 0) {
+        if (book.pnl >= 0) stats.wins++;
+        else stats.losses++;
+        book.cost = 0;
+        book.pnl = 0;
+      }
+    }
+    books.set(trade.token_address, book);
+  }
+
+  books.forEach(book => {
+    if (book.qty > 0) stats.openTokens++;
+  });
+  const closed = stats.wins + stats.losses;
+  stats.winRate = closed > 0 ? (stats.wins / closed) * 100 : null;
+  stats.volumeSol = Math.round(stats.volumeSol * 1e4) / 1e4;
+  stats.realizedPnlSol = Math.round(stats.realizedPnlSol * 1e4) / 1e4;
+  return stats;
+}
+
+// ============================================================================
+// SIGNATURE CURSOR
+// ============================================================================
+
+export interface LeaderSignature {
+  signature: string;
+  err: unknown;
+  blockTime: number | null;
+}
+
+type SignatureRpc = (method: string, params: unknown[]) => Promise<unknown>;
+
+/**
+ * Every signature of `address` newer than the `until` cursor, newest first. A burst larger than
+ * one page is paged back with `before` until the cursor is reached; `complete` is false when
+ * MAX_SIGNATURE_PAGES cut that short. Without a cursor only the newest page is read.
+ */
+export async function fetchSignaturesSince(
+  rpc: SignatureRpc,
+  address: string,
+  until: string | null
+): Promise<{ signatures: LeaderSignature[]; complete: boolean }> {
+  const limit = COPY_TRADING_CONFIG.SIGNATURES_PER_POLL;
+  const signatures: LeaderSignature[] = [];
+
+  for (let page = 0; page < COPY_TRADING_CONFIG.MAX_SIGNATURE_PAGES; page++) {
+    const before = signatures[signatures.length - 1]?.signature;
+    const batch = (await rpc('getSignaturesForAddress', [
+      address,
+      { limit, ...(until ? { until } : {}), ...(before ? { before } : {}) },
+    ])) as LeaderSignature[];
+    signatures.push(...batch);
+
+    if (!until || batch.length < limit) return { signatures, complete: true };
+  }
+
+  return { signatures, complete: false };
+}
@@ -0,0 +1,125 @@
+// Creator reputation persistence for edge functions: resolves and stores each mint's deployer
+// in token_creators, records launch outcomes, and loads a creator's history and blocklist
+// entry for scoring (creator-reputation.ts). Used by token-scanner, risk-check and creator-reputation.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { RpcCall } from "./holder-clusters.ts";
+import {
+  findMintCreator,
+  summarizeCreator,
+  type CreatorLaunch,
+  type CreatorOutcome,
+  type CreatorReputation,
+} from "./creator-reputation.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Launches loaded per creator when scoring; serial ruggers are obvious well before this
+const HISTORY_LIMIT = 100;
+
+export interface TokenCreatorRow {
+  mint: string;
+  creator: string;
+  creation_signature: string | null;
+  launched_at: string;
+  outcome: CreatorOutcome;
+  outcome_reason: string | null;
+  outcome_at: string | null;
+}
+
+/**
+ * The stored creator of `mint`, resolving it from chain on first sight. Null when the creator
+ * cannot be determined (RPC failure or a mint with very long history).
+ */
+export async function ensureMintCreator(
+  supabase: SupabaseClient,
+  rpc: RpcCall,
+  mint: string
+): Promise<TokenCreatorRow | null> {
+  const { data: existing } = await supabase
+    .from('token_creators')
+    .select('mint, creator, creation_signature, launched_at, outcome, outcome_reason, outcome_at')
+    .eq('mint', mint)
+    .maybeSingle();
+  if (existing) return existing as TokenCreatorRow;
+
+  const creation = await findMintCreator(rpc, mint).catch((error) => {
+    console.warn(`[CreatorReputation] Creator lookup failed for ${mint}:`, error);
+    return null;
+  });
+  if (!creation) return null;
+
+  const { data: inserted, error } = await supabase
+    .from('token_creators')
+    .upsert({
+      mint,
+      creator: creation.creator,
+      creation_signature: creation.signature,
+      creation_slot: creation.slot,
+      launched_at: creation.blockTime ? new Date(creation.blockTime * 1000).toISOString() : new Date().toISOString(),
+    }, { onConflict: 'mint', ignoreDuplicates: false })
+    .select('mint, creator, creation_signature, launched_at, outcome, outcome_reason, outcome_at')
+    .single();
+  if (error) {
+    console.error(`[CreatorReputation] Failed to store creator for ${mint}:`, error);
+    return null;
+  }
+  return inserted as TokenCreatorRow;
+}
+
+/** A creator's launches (newest first) and score, including blocklist status. */
+export async function loadCreatorReputation(
+  supabase: SupabaseClient,
+  creator: string
+): Promise<{ reputation: CreatorReputation; launches: TokenCreatorRow[] }> {
+  const [{ data: rows }, { data: blocked }] = await Promise.all([
+    supabase
+      .from('token_creators')
+      .select('mint, creator, creation_signature, launched_at, outcome, outcome_reason, outcome_at')
+      .eq('creator', creator)
+      .order('launched_at', { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabase
+      .from('creator_blocklist')
+      .select('creator, reason')
+      .eq('creator', creator)
+      .maybeSingle(),
+  ]);
+
+  const launches = (rows || []) as TokenCreatorRow[];
+  const history: CreatorLaunch[] = launches.map((l) => ({ mint: l.mint, outcome: l.outcome, createdAt: l.launched_at }));
+  return {
+    reputation: summarizeCreator(creator, history, blocked ? { creator, reason: blocked.reason ?? null } : null),
+    launches,
+  };
+}
+
+/** Resolve `mint`'s creator and score them; null when the creator is unknown. */
+export async function lookupCreatorReputation(
+  supabase: SupabaseClient,
+  rpc: RpcCall,
+  mint: string
+): Promise<{ creator: TokenCreatorRow; reputation: CreatorReputation; launches: TokenCreatorRow[] } | null> {
+  const creator = await ensureMintCreator(supabase, rpc, mint);
+  if (!creator) return null;
+  return { creator, ...(await loadCreatorReputation(supabase, creator.creator)) };
+}
+
+/**
+ * Record what happened to a launch. Rugs and honeypots are final and override a pending or
+ * survived outcome; survival never overrides a bad outcome.
+ */
+export async function recordLaunchOutcome(
+  supabase: SupabaseClient,
+  mint: string,
+  outcome: Exclude<CreatorOutcome, 'pending'>,
+  reason: string
+): Promise<void> {
+  const overridable = outcome === 'survived' ? ['pending'] : ['pending', 'survived'];
+  const { error } = await supabase
+    .from('token_creators')
+    .update({ outcome, outcome_reason: reason, outcome_at: new Date().toISOString() })
+    .eq('mint', mint)
+    .in('outcome', overridable);
+  if (error) console.error(`[CreatorReputation] Failed to record ${outcome} for ${mint}:`, error);
+}
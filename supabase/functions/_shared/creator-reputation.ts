@@ -0,0 +1,187 @@
+/**
+ * Creator (dev wallet) reputation. Every mint is tied to the wallet that deployed it - the fee
+ * payer of the mint's first transaction - and to what we later observed: rugged, honeypot, or
+ * still trading after SURVIVAL_HOURS. Serial ruggers score high and are rejected at discovery
+ * (checkCreatorReputation in snipe-rules.ts owns the thresholds).
+ *
+ * RPC access is injected like holder-clusters.ts:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/creator-reputation.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/creator-reputation";
+ */
+
+import type { RpcCall } from './holder-clusters.ts';
+import type { CreatorRuleInput } from './snipe-rules.ts';
+
+export const CREATOR_REPUTATION_CONFIG = {
+  // A launch still trading with liquidity after this long counts as survived
+  SURVIVAL_HOURS: 24,
+  // Liquidity (USD) at or below this means the pool was pulled
+  RUG_LIQUIDITY_USD: 500,
+  // Signature pages walked back to find a mint's first transaction
+  MAX_SIGNATURE_PAGES: 5,
+  SIGNATURE_PAGE: 1000,
+} as const;
+
+export type CreatorOutcome = 'pending' | 'rugged' | 'honeypot' | 'survived';
+
+export interface MintCreation {
+  creator: string;
+  signature: string;
+  slot: number;
+  blockTime: number | null; // unix seconds
+}
+
+export interface CreatorLaunch {
+  mint: string;
+  outcome: CreatorOutcome;
+  createdAt: string;
+}
+
+export interface CreatorBlocklistEntry {
+  creator: string;
+  reason: string | null;
+}
+
+export interface CreatorReputation extends CreatorRuleInput {
+  creator: string;
+  launches: number;
+  pending: number;
+}
+
+// ============================================================================
+// CREATOR LOOKUP
+// ============================================================================
+
+/**
+ * The deployer of `mint`: fee payer of the oldest transaction touching it. Returns null when
+ * the history is longer than MAX_SIGNATURE_PAGES (an old token - the deployer no longer matters).
+ */
+export async function findMintCreator(rpc: RpcCall, mint: string): Promise<MintCreation | null> {
+  const { MAX_SIGNATURE_PAGES, SIGNATURE_PAGE } = CREATOR_REPUTATION_CONFIG;
+  let before: string | undefined;
+  let oldest: { signature: string; slot: number; blockTime?: number | null } | null = null;
+
+  for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+    const signatures = await rpc('getSignaturesForAddress', [
+      mint,
+      before ? { limit: SIGNATURE_PAGE, before } : { limit: SIGNATURE_PAGE },
+    ]) as { signature: string; slot: number; blockTime?: number | null }[];
+    if (!signatures?.length) break;
+    oldest = signatures[signatures.length - 1];
+    if (signatures.length < SIGNATURE_PAGE) break;
+    if (page === MAX_SIGNATURE_PAGES - 1) return null;
+    before = oldest.signature;
+  }
+  if (!oldest) return null;
+
+  const tx = await rpc('getTransaction', [
+    oldest.signature,
+    { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+  ]) as { slot: number; blockTime?: number | null; transaction: { message: { accountKeys: ({ pubkey: string } | string)[] } } } | null;
+  const feePayerKey = tx?.transaction.message.accountKeys[0];
+  const creator = typeof feePayerKey === 'string' ? feePayerKey : feePayerKey?.pubkey;
+  if (!tx || !creator) return null;
+
+  return { creator, signature: oldest.signature, slot: tx.slot, blockTime: tx.blockTime ?? oldest.blockTime ?? null };
+}
+
+// ============================================================================
+// OUTCOMES & SCORING
+// ============================================================================
+
+/**
+ * Outcome of a launch from what we can observe now. Rugs are final as soon as liquidity is
+ * gone; survival is only declared after SURVIVAL_HOURS.
+ */
+export function resolveLaunchOutcome(observation: {
+  ageHours: number;
+  liquidityUsd: number | null;
+  honeypot?: boolean;
+}): CreatorOutcome {
+  if (observation.honeypot) return 'honeypot';
+  // No data yet is not evidence of a rug
+  if (observation.liquidityUsd === null) return 'pending';
+  if (observation.liquidityUsd <= CREATOR_REPUTATION_CONFIG.RUG_LIQUIDITY_USD) return 'rugged';
+  return observation.ageHours >= CREATOR_REPUTATION_CONFIG.SURVIVAL_HOURS ? 'survived' : 'pending';
+}
+
+/**
+ * Reputation from a creator's launches. The score is the smoothed share of resolved launches
+ * that rugged or honeypotted, so one survival does not clear a serial rugger.
+ */
+export function summarizeCreator(
+  creator: string,
+  launches: CreatorLaunch[],
+  blocklisted: CreatorBlocklistEntry | null = null
+): CreatorReputation {
+  const count = (outcome: CreatorOutcome) => launches.filter((l) => l.outcome === outcome).length;
+  const rugged = count('rugged');
+  const honeypots = count('honeypot');
+  const survived = count('survived');
+  const bad = rugged + honeypots;
+
+  return {
+    creator,
+    launches: launches.length,
+    pending: count('pending'),
+    rugged,
+    honeypots,
+    survived,
+    score: Math.round((100 * bad) / (bad + survived + 1)),
+    blacklisted: blocklisted !== null,
+    blacklistReason: blocklisted?.reason ?? null,
+  };
+}
+
+// ============================================================================
+// BLOCKLIST IMPORT / EXPORT
+// ============================================================================
+
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Parse a blocklist from JSON (array of addresses or { creator, reason } objects) or from
+ * CSV / plain lines of "address[,reason]". Invalid addresses are returned, not dropped silently.
+ */
+export function parseBlocklist(text: string): { entries: CreatorBlocklistEntry[]; invalid: string[] } {
+  const raw: { creator: string; reason: string | null }[] = [];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error('Blocklist JSON must be an array');
+    for (const item of parsed) {
+      if (typeof item === 'string') raw.push({ creator: item.trim(), reason: null });
+      else if (item && typeof item === 'object') {
+        const record = item as Record<string, unknown>;
+        const creator = record.creator ?? record.address;
+        raw.push({
+          creator: typeof creator === 'string' ? creator.trim() : String(creator),
+          reason: typeof record.reason === 'string' && record.reason.trim() ? record.reason.trim() : null,
+        });
+      }
+    }
+  } else {
+    for (const line of trimmed.split(/\r?\n/)) {
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+      const [creator, ...rest] = line.split(',');
+      // Header row of an exported CSV
+      if (creator.trim().toLowerCase() === 'creator') continue;
+      const reason = rest.join(',').trim().replace(/^"|"$/g, '').replace(/""/g, '"');
+      raw.push({ creator: creator.trim(), reason: reason || null });
+    }
+  }
+
+  const entries = new Map<string, CreatorBlocklistEntry>();
+  const invalid: string[] = [];
+  for (const entry of raw) {
+    if (ADDRESS_PATTERN.test(entry.creator)) entries.set(entry.creator, entry);
+    else invalid.push(entry.creator);
+  }
+  return { entries: [...entries.values()], invalid };
+}
+
+export function formatBlocklistCsv(entries: CreatorBlocklistEntry[]): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return ['creator,reason', ...entries.map((e) => `${e.creator},${escape(e.reason ?? '')}`)].join('\n');
+}
@@ -0,0 +1,135 @@
+/**
+ * Exit plan evaluation for Edge Functions
+ * Trailing stop-loss that follows the high-water mark + tiered take-profit ladder
+ *
+ * Plan shape (stored as JSONB on positions.exit_plan / user_sniper_settings.exit_plan):
+ *   { tiers: [{ gainPercent: 50, sellPercent: 30 }, ...], trailingStopPercent: 25, trailingActivationPercent: 0 }
+ * - tier.sellPercent is a share of the ORIGINAL position size (positions.initial_amount)
+ * - the trailing stop applies to whatever remains once the price has reached the activation gain
+ */
+
+export interface ExitPlanTier {
+  gainPercent: number;  // Trigger when P&L >= this (e.g. 50 = +50%)
+  sellPercent: number;  // Share of the ORIGINAL position to sell at this rung
+}
+
+export interface ExitPlan {
+  tiers: ExitPlanTier[];
+  trailingStopPercent: number | null;  // Drawdown from the peak price that closes the rest
+  trailingActivationPercent: number;   // Trailing stop only arms once the peak gain reached this
+}
+
+export type ExitPlanAction = 'hold' | 'partial_take_profit' | 'take_profit' | 'trailing_stop' | 'stop_loss';
+
+export interface ExitPlanDecision {
+  action: ExitPlanAction;
+  // Fraction (0-1] of the CURRENT remaining amount to sell
+  sellFraction: number;
+  // Ladder tiers filled by this sell (indexes into plan.tiers)
+  tierIndexes: number[];
+  peakPrice: number;
+  drawdownFromPeakPercent: number;
+}
+
+export interface ExitPlanPositionState {
+  entryPrice: number;
+  currentAmount: number;
+  initialAmount: number | null;
+  peakPrice: number | null;
+  tiersFilled: number[];
+  stopLossPercent: number;
+  profitTakePercent: number;
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Parse an untrusted JSON value into an ExitPlan.
+ * Returns null when the value is missing or describes no rules (legacy fixed TP/SL applies).
+ */
+export function parseExitPlan(raw: unknown): ExitPlan | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const obj = raw as Record<string, unknown>;
+
+  const tiers: ExitPlanTier[] = Array.isArray(obj.tiers)
+    ? (obj.tiers as unknown[])
+        .map((t) => {
+          const tier = (t || {}) as Record<string, unknown>;
+          return {
+            gainPercent: toFiniteNumber(tier.gainPercent) ?? 0,
+            sellPercent: toFiniteNumber(tier.sellPercent) ?? 0,
+          };
+        })
+        .filter((t) => t.gainPercent > 0 && t.sellPercent > 0 && t.sellPercent <= 100)
+        .sort((a, b) => a.gainPercent - b.gainPercent)
+    : [];
+
+  const trailing = toFiniteNumber(obj.trailingStopPercent);
+  const trailingStopPercent = trailing !== null && trailing > 0 && trailing < 100 ? trailing : null;
+  const trailingActivationPercent = Math.max(0, toFiniteNumber(obj.trailingActivationPercent) ?? 0);
+
+  if (tiers.length === 0 && trailingStopPercent === null) return null;
+
+  return { tiers, trailingStopPercent, trailingActivationPercent };
+}
+
+/**
+ * Decide what to do with a position under an exit plan.
+ * The hard stop-loss (stop_loss_percent) always applies; the ladder replaces the fixed take-profit.
+ */
+export function evaluateExitPlan(
+  plan: ExitPlan,
+  state: ExitPlanPositionState,
+  currentPrice: number,
+  profitLossPercent: number
+): ExitPlanDecision {
+  const peakPrice = Math.max(state.peakPrice ?? state.entryPrice, currentPrice);
+  const drawdownFromPeakPercent = peakPrice > 0 ? ((peakPrice - currentPrice) / peakPrice) * 100 : 0;
+  const base = { peakPrice, drawdownFromPeakPercent };
+
+  // 1. Hard stop-loss from entry
+  if (profitLossPercent <= -state.stopLossPercent) {
+    return { ...base, action: 'stop_loss', sellFraction: 1, tierIndexes: [] };
+  }
+
+  // 2. Trailing stop on the high-water mark (only once the activation gain was reached)
+  if (plan.trailingStopPercent !== null) {
+    const peakGainPercent = state.entryPrice > 0 ? ((peakPrice - state.entryPrice) / state.entryPrice) * 100 : 0;
+    if (peakGainPercent >= plan.trailingActivationPercent && drawdownFromPeakPercent >= plan.trailingStopPercent) {
+      return { ...base, action: 'trailing_stop', sellFraction: 1, tierIndexes: [] };
+    }
+  }
+
+  // 3. Take-profit ladder - all newly crossed tiers are combined into one sell
+  const crossed = plan.tiers
+    .map((tier, index) => ({ tier, index }))
+    .filter(({ tier, index }) => !state.tiersFilled.includes(index) && profitLossPercent >= tier.gainPercent);
+
+  if (crossed.length > 0) {
+    const tierIndexes = crossed.map((c) => c.index);
+    const filledAfter = new Set([...state.tiersFilled, ...tierIndexes]);
+    const ladderComplete = plan.tiers.every((_, i) => filledAfter.has(i));
+
+    // Nothing left to trail -> the last rung sells everything
+    if (ladderComplete && plan.trailingStopPercent === null) {
+      return { ...base, action: 'take_profit', sellFraction: 1, tierIndexes };
+    }
+
+    const initialAmount = state.initialAmount && state.initialAmount > 0 ? state.initialAmount : state.currentAmount;
+    const sellPercentOfInitial = crossed.reduce((sum, c) => sum + c.tier.sellPercent, 0);
+    const sellAmount = (initialAmount * sellPercentOfInitial) / 100;
+    const sellFraction = state.currentAmount > 0 ? Math.min(1, sellAmount / state.currentAmount) : 1;
+
+    return {
+      ...base,
+      action: sellFraction >= 0.99 ? 'take_profit' : 'partial_take_profit',
+      sellFraction: sellFraction >= 0.99 ? 1 : sellFraction,
+      tierIndexes,
+    };
+  }
+
+  return { ...base, action: 'hold', sellFraction: 0, tierIndexes: [] };
+}
@@ -0,0 +1,370 @@
+/**
+ * Holder distribution and bundled-wallet analysis. Snipers split a launch buy across fresh
+ * wallets funded from one source; each looks small on its own, together they are one holder.
+ *
+ * Reads the largest token accounts, traces every holder wallet's funding transfer one or two
+ * hops back, and merges holders funded by the same wallet in the same slot (or by each other)
+ * into clusters. The effective top-holder % is the largest cluster or lone holder after merging.
+ *
+ * RPC access is injected so the tracing runs against fakes in tests:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/holder-clusters.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/holder-clusters";
+ */
+
+export const HOLDER_ANALYSIS_CONFIG = {
+  MAX_HOLDERS: 20,
+  MAX_HOPS: 2,
+  // A wallet with a full page of history is established, not a fresh bundle wallet
+  SIGNATURE_PAGE: 1000,
+  CONCURRENCY: 4,
+  REQUEST_TIMEOUT_MS: 10_000,
+} as const;
+
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+export type RpcCall = (method: string, params: unknown[]) => Promise<unknown>;
+
+export interface TokenHolder {
+  tokenAccount: string;
+  owner: string;
+  amount: string;  // raw base units
+  percent: number; // of total supply
+}
+
+export interface FundingHop {
+  funder: string;
+  slot: number;
+  signature: string;
+  // transfer = explicit SOL transfer into the wallet; fee_payer = whoever paid its first transaction
+  via: 'transfer' | 'fee_payer';
+}
+
+export interface HolderCluster {
+  members: string[];   // holder wallets
+  percent: number;     // combined share of supply
+  // The shared funding that tied the members together
+  links: { funder: string; slot: number | null; hop: number }[];
+}
+
+export interface HolderAnalysis {
+  status: 'analyzed' | 'unavailable';
+  holdersAnalyzed: number;
+  topHolderPercent: number;
+  effectiveTopHolderPercent: number;
+  clusteredPercent: number;
+  // Held by program-owned accounts (pools, bonding curves) - not holders
+  excludedPercent: number;
+  clusters: HolderCluster[];
+  error?: string;
+}
+
+// ============================================================================
+// RPC
+// ============================================================================
+
+export function createRpcCall(rpcUrl: string, fetchFn: typeof fetch = fetch): RpcCall {
+  return async (method, params) => {
+    const res = await fetchFn(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(HOLDER_ANALYSIS_CONFIG.REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`RPC ${method} failed: ${res.status}`);
+    const data = await res.json();
+    if (data?.error) throw new Error(`RPC ${method}: ${data.error.message ?? 'error'}`);
+    return data?.result;
+  };
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// ============================================================================
+// HOLDERS
+// ============================================================================
+
+interface LargestAccount {
+  address: string;
+  amount: string;
+}
+
+interface ParsedTokenAccount {
+  data?: { parsed?: { info?: { owner?: string } } };
+}
+
+/**
+ * Largest holder wallets with their share of supply. Accounts whose owner is a program
+ * (AMM pools, bonding curves) are returned separately - their balance is liquidity, not a holder.
+ */
+export async function fetchTopHolders(
+  rpc: RpcCall,
+  mint: string,
+  limit: number = HOLDER_ANALYSIS_CONFIG.MAX_HOLDERS
+): Promise<{ holders: TokenHolder[]; excludedPercent: number; programAccounts: TokenHolder[] }> {
+  const [largest, supply] = await Promise.all([
+    rpc('getTokenLargestAccounts', [mint]) as Promise<{ value: LargestAccount[] }>,
+    rpc('getTokenSupply', [mint]) as Promise<{ value: { amount: string } }>,
+  ]);
+  const total = Number(supply.value.amount);
+  const accounts = (largest.value || []).filter((a) => a.amount !== '0').slice(0, limit);
+  if (accounts.length === 0 || !(total > 0)) return { holders: [], excludedPercent: 0, programAccounts: [] };
+
+  const tokenAccounts = await rpc('getMultipleAccounts', [
+    accounts.map((a) => a.address),
+    { encoding: 'jsonParsed' },
+  ]) as { value: (ParsedTokenAccount | null)[] };
+
+  const candidates = accounts
+    .map((account, i) => ({
+      tokenAccount: account.address,
+      owner: tokenAccounts.value[i]?.data?.parsed?.info?.owner ?? '',
+      amount: account.amount,
+      percent: (Number(account.amount) / total) * 100,
+    }))
+    .filter((h) => h.owner);
+
+  // Wallets are system-owned (or unfunded); anything else is a program account
+  const owners = await rpc('getMultipleAccounts', [
+    candidates.map((h) => h.owner),
+    { encoding: 'base64', dataSlice: { offset: 0, length: 0 } },
+  ]) as { value: ({ owner: string } | null)[] };
+
+  const holders: TokenHolder[] = [];
+  const programAccounts: TokenHolder[] = [];
+  let excludedPercent = 0;
+  candidates.forEach((holder, i) => {
+    const programOwner = owners.value[i]?.owner;
+    if (programOwner && programOwner !== SYSTEM_PROGRAM) {
+      excludedPercent += holder.percent;
+      programAccounts.push(holder);
+    } else {
+      holders.push(holder);
+    }
+  });
+  return { holders, excludedPercent, programAccounts };
+}
+
+// ============================================================================
+// FUNDING TRACE
+// ============================================================================
+
+interface ParsedInstruction {
+  program?: string;
+  parsed?: { type?: string; info?: { source?: string; destination?: string; newAccount?: string } };
+}
+
+interface ParsedTransaction {
+  slot: number;
+  transaction: {
+    message: {
+      accountKeys: ({ pubkey: string } | string)[];
+      instructions: ParsedInstruction[];
+    };
+  };
+  meta?: { innerInstructions?: { instructions: ParsedInstruction[] }[] } | null;
+}
+
+// The system transfer (or account creation) that put SOL into `address`
+function findFundingTransfer(tx: ParsedTransaction, address: string): string | null {
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+  for (const ix of instructions) {
+    if (ix.program !== 'system' || !ix.parsed?.info) continue;
+    const { type, info } = ix.parsed;
+    const target = type === 'createAccount' ? info.newAccount : info.destination;
+    if ((type === 'transfer' || type === 'transferWithSeed' || type === 'createAccount') && target === address && info.source) {
+      return info.source;
+    }
+  }
+  return null;
+}
+
+/**
+ * Who funded `address`: the source of the SOL transfer in its first transaction, or that
+ * transaction's fee payer. Null for established wallets and wallets with no other party.
+ */
+export async function traceFundingSource(rpc: RpcCall, address: string): Promise<FundingHop | null> {
+  const signatures = await rpc('getSignaturesForAddress', [
+    address,
+    { limit: HOLDER_ANALYSIS_CONFIG.SIGNATURE_PAGE },
+  ]) as { signature: string; slot: number }[];
+  if (!signatures?.length || signatures.length >= HOLDER_ANALYSIS_CONFIG.SIGNATURE_PAGE) return null;
+
+  const first = signatures[signatures.length - 1];
+  const tx = await rpc('getTransaction', [
+    first.signature,
+    { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+  ]) as ParsedTransaction | null;
+  if (!tx) return null;
+
+  const transferSource = findFundingTransfer(tx, address);
+  if (transferSource && transferSource !== address) {
+    return { funder: transferSource, slot: tx.slot, signature: first.signature, via: 'transfer' };
+  }
+
+  const feePayerKey = tx.transaction.message.accountKeys[0];
+  const feePayer = typeof feePayerKey === 'string' ? feePayerKey : feePayerKey?.pubkey;
+  if (feePayer && feePayer !== address) {
+    return { funder: feePayer, slot: tx.slot, signature: first.signature, via: 'fee_payer' };
+  }
+  return null;
+}
+
+// Funding chain of one wallet, nearest hop first
+async function traceFundingChain(rpc: RpcCall, address: string, hops: number): Promise<FundingHop[]> {
+  const chain: FundingHop[] = [];
+  let current = address;
+  for (let i = 0; i < hops; i++) {
+    const hop = await traceFundingSource(rpc, current);
+    if (!hop) break;
+    chain.push(hop);
+    current = hop.funder;
+  }
+  return chain;
+}
+
+// ============================================================================
+// CLUSTERING
+// ============================================================================
+
+/**
+ * Merge holders that share a funder in the same slot at any traced hop, or where one holder
+ * funded another. Returns clusters of two or more, largest first.
+ */
+export function clusterHolders(
+  holders: TokenHolder[],
+  funding: Map<string, FundingHop[]>
+): { clusters: HolderCluster[]; effectiveTopHolderPercent: number } {
+  const parent = holders.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const links = new Map<number, HolderCluster['links']>();
+  const union = (a: number, b: number, link: HolderCluster['links'][number]) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = [...(links.get(rootA) ?? []), ...(rootA === rootB ? [] : links.get(rootB) ?? [])];
+    if (!merged.some((l) => l.funder === link.funder && l.slot === link.slot)) merged.push(link);
+    parent[rootB] = rootA;
+    links.set(rootA, merged);
+  };
+
+  const indexByOwner = new Map(holders.map((h, i) => [h.owner, i]));
+  const firstByKey = new Map<string, number>();
+
+  holders.forEach((holder, i) => {
+    (funding.get(holder.owner) ?? []).forEach((hop, depth) => {
+      // One holder funding another
+      const funderIndex = indexByOwner.get(hop.funder);
+      if (funderIndex !== undefined && funderIndex !== i) {
+        union(funderIndex, i, { funder: hop.funder, slot: null, hop: depth + 1 });
+      }
+      // Same funder, same slot - one bundled funding transaction
+      const key = `${depth}:${hop.funder}:${hop.slot}`;
+      const first = firstByKey.get(key);
+      if (first === undefined) firstByKey.set(key, i);
+      else union(first, i, { funder: hop.funder, slot: hop.slot, hop: depth + 1 });
+    });
+  });
+
+  const groups = new Map<number, number[]>();
+  holders.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  const clusters: HolderCluster[] = [];
+  let effectiveTopHolderPercent = 0;
+  for (const [root, members] of groups) {
+    const percent = members.reduce((sum, i) => sum + holders[i].percent, 0);
+    effectiveTopHolderPercent = Math.max(effectiveTopHolderPercent, percent);
+    if (members.length > 1) {
+      clusters.push({ members: members.map((i) => holders[i].owner), percent, links: links.get(root) ?? [] });
+    }
+  }
+  clusters.sort((a, b) => b.percent - a.percent);
+  return { clusters, effectiveTopHolderPercent };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+export async function analyzeHolderDistribution(
+  rpc: RpcCall,
+  mint: string,
+  options: { maxHolders?: number; hops?: number } = {}
+): Promise<HolderAnalysis> {
+  const hops = Math.min(options.hops ?? HOLDER_ANALYSIS_CONFIG.MAX_HOPS, HOLDER_ANALYSIS_CONFIG.MAX_HOPS);
+  try {
+    const { holders, excludedPercent } = await fetchTopHolders(rpc, mint, options.maxHolders);
+
+    const chains = await mapWithConcurrency(holders, HOLDER_ANALYSIS_CONFIG.CONCURRENCY, (holder) =>
+      // One wallet's trace failing should not sink the analysis
+      traceFundingChain(rpc, holder.owner, hops).catch(() => [] as FundingHop[])
+    );
+    const funding = new Map(holders.map((h, i) => [h.owner, chains[i]]));
+    const { clusters, effectiveTopHolderPercent } = clusterHolders(holders, funding);
+
+    return {
+      status: 'analyzed',
+      holdersAnalyzed: holders.length,
+      topHolderPercent: holders.reduce((max, h) => Math.max(max, h.percent), 0),
+      effectiveTopHolderPercent,
+      clusteredPercent: clusters.reduce((sum, c) => sum + c.percent, 0),
+      excludedPercent,
+      clusters,
+    };
+  } catch (error) {
+    return {
+      status: 'unavailable',
+      holdersAnalyzed: 0,
+      topHolderPercent: 0,
+      effectiveTopHolderPercent: 0,
+      clusteredPercent: 0,
+      excludedPercent: 0,
+      clusters: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/** Risk points (0-50) and reasons contributed by the holder analysis. */
+export function scoreHolderAnalysis(analysis: HolderAnalysis): { points: number; reasons: string[] } {
+  if (analysis.status !== 'analyzed') return { points: 0, reasons: [] };
+  const reasons: string[] = [];
+  let points = 0;
+
+  if (analysis.clusters.length > 0) {
+    const wallets = analysis.clusters.reduce((sum, c) => sum + c.members.length, 0);
+    reasons.push(
+      `${analysis.clusters.length} bundled cluster${analysis.clusters.length === 1 ? '' : 's'} ` +
+      `(${wallets} wallets) hold ${analysis.clusteredPercent.toFixed(1)}% of supply`
+    );
+    points += analysis.clusteredPercent >= 30 ? 30 : analysis.clusteredPercent >= 15 ? 20 : 10;
+  }
+
+  if (analysis.effectiveTopHolderPercent > 50) {
+    reasons.push(`Effective top holder controls ${analysis.effectiveTopHolderPercent.toFixed(1)}% after merging clusters`);
+    points += 20;
+  } else if (analysis.effectiveTopHolderPercent > 20) {
+    points += 10;
+  }
+
+  return { points, reasons };
+}
@@ -0,0 +1,69 @@
+/**
+ * Authentication for edge-to-edge calls (the bot runner acting for a user, cron-style ticks,
+ * internal key lookups).
+ *
+ * The token is `<unix ms>.<hex HMAC-SHA256>` over the timestamp and the user the call acts
+ * for, keyed with a server-only secret. It cannot be forged without the secret, cannot be
+ * replayed for another user, and expires after INTERNAL_TOKEN_MAX_AGE_MS.
+ * - Edge Functions (Deno):  import { ... } from "../_shared/internal-auth.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/internal-auth";
+ */
+
+export const INTERNAL_TOKEN_MAX_AGE_MS = 60_000;
+
+const encoder = new TextEncoder();
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares every character regardless of where the first mismatch is
+export function timingSafeEqual(a: string, b: string): boolean {
+  const length = Math.max(a.length, b.length);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+const signedMessage = (issuedAt: number, userId: string | null) => `${issuedAt}:${userId ?? ''}`;
+
+/**
+ * Token for a call acting for userId (null for calls that act for no user)
+ */
+export async function signInternalToken(
+  secret: string,
+  userId: string | null,
+  now: number = Date.now()
+): Promise<string> {
+  return `${now}.${await hmacHex(secret, signedMessage(now, userId))}`;
+}
+
+/**
+ * Whether token was signed with secret for exactly this userId within the last minute
+ */
+export async function verifyInternalToken(
+  secret: string,
+  token: string | null,
+  userId: string | null,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!secret || !token) return false;
+
+  const [issuedAtText, signature, ...rest] = token.split('.');
+  const issuedAt = Number(issuedAtText);
+  if (rest.length > 0 || !signature || !Number.isSafeInteger(issuedAt)) return false;
+  // Small allowance for clock skew between isolates
+  if (issuedAt > now + 5_000 || now - issuedAt > INTERNAL_TOKEN_MAX_AGE_MS) return false;
+
+  return timingSafeEqual(signature, await hmacHex(secret, signedMessage(issuedAt, userId)));
+}
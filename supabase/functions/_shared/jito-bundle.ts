@@ -0,0 +1,224 @@
+/**
+ * Jito bundles - block-engine JSON-RPC client, tip accounts and bundle status normalization
+ *
+ * A bundle is an ordered list of signed transactions that lands atomically in one slot or
+ * not at all. We pair the swap with a SOL transfer to a Jito tip account; the tip is what
+ * the block engine auctions on, so it replaces the priority fee race for congested launches.
+ *
+ * Pure apart from the injected fetch, so the same client runs in Edge Functions and in
+ * vitest against a local mock block-engine:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/jito-bundle.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/jito-bundle";
+ */
+
+// Published mainnet tip accounts - any of them works, picking at random spreads write locks
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+] as const;
+
+export const JITO_CONFIG = {
+  DEFAULT_BLOCK_ENGINE_URL: 'https://mainnet.block-engine.jito.wtf',
+  // Block engine rejects bundles tipping less than this
+  MIN_TIP_LAMPORTS: 1_000,
+  DEFAULT_TIP_LAMPORTS: 100_000,
+  // Hard cap so a typo in the admin panel cannot tip away a position
+  MAX_TIP_LAMPORTS: 50_000_000,
+  MAX_BUNDLE_TRANSACTIONS: 5,
+  REQUEST_TIMEOUT_MS: 8_000,
+  // Bundles that have not landed after this are treated as dropped
+  STATUS_POLL_TIMEOUT_MS: 60_000,
+  STATUS_POLL_INTERVAL_MS: 2_000,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JitoBundleSettings {
+  enabled: boolean;
+  blockEngineUrl: string;
+  tipLamports: number;
+  authUuid: string | null;   // Optional x-jito-auth key for higher rate limits
+}
+
+export type BundleStatus = 'pending' | 'landed' | 'failed' | 'invalid';
+
+export interface BundleStatusResult {
+  bundleId: string;
+  status: BundleStatus;
+  slot: number | null;
+  confirmationStatus: 'processed' | 'confirmed' | 'finalized' | null;
+  transactions: string[];    // Signatures, known once landed
+  error: string | null;
+}
+
+export interface SendBundleResult {
+  success: boolean;
+  bundleId?: string;
+  error?: string;
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+interface InflightStatusValue {
+  bundle_id: string;
+  status: 'Invalid' | 'Pending' | 'Failed' | 'Landed';
+  landed_slot: number | null;
+}
+
+interface BundleStatusValue {
+  bundle_id: string;
+  transactions: string[];
+  slot: number;
+  confirmation_status: 'processed' | 'confirmed' | 'finalized';
+  err: { Ok: null } | Record<string, unknown>;
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const DEFAULT_JITO_BUNDLE_SETTINGS: JitoBundleSettings = {
+  enabled: false,
+  blockEngineUrl: JITO_CONFIG.DEFAULT_BLOCK_ENGINE_URL,
+  tipLamports: JITO_CONFIG.DEFAULT_TIP_LAMPORTS,
+  authUuid: null,
+};
+
+/**
+ * Normalize the `jito_bundles` admin setting. Unknown or out-of-range values fall back
+ * to defaults rather than failing the trade.
+ */
+export function parseJitoBundleSettings(raw: unknown): JitoBundleSettings {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_JITO_BUNDLE_SETTINGS };
+  const value = raw as Record<string, unknown>;
+
+  const url = typeof value.blockEngineUrl === 'string' && /^https?:\/\//.test(value.blockEngineUrl.trim())
+    ? value.blockEngineUrl.trim().replace(/\/+$/, '')
+    : DEFAULT_JITO_BUNDLE_SETTINGS.blockEngineUrl;
+  const tip = Number(value.tipLamports);
+
+  return {
+    enabled: value.enabled === true,
+    blockEngineUrl: url,
+    tipLamports: Number.isFinite(tip)
+      ? Math.min(JITO_CONFIG.MAX_TIP_LAMPORTS, Math.max(JITO_CONFIG.MIN_TIP_LAMPORTS, Math.round(tip)))
+      : DEFAULT_JITO_BUNDLE_SETTINGS.tipLamports,
+    authUuid: typeof value.authUuid === 'string' && value.authUuid.trim() ? value.authUuid.trim() : null,
+  };
+}
+
+export function pickTipAccount(random: () => number = Math.random): string {
+  return JITO_TIP_ACCOUNTS[Math.floor(random() * JITO_TIP_ACCOUNTS.length) % JITO_TIP_ACCOUNTS.length];
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * JSON-RPC client for a block engine's /api/v1/bundles endpoint
+ */
+export function createBlockEngineClient(
+  blockEngineUrl: string,
+  options: { authUuid?: string | null; fetchImpl?: FetchLike; timeoutMs?: number } = {}
+) {
+  const fetchImpl = options.fetchImpl ?? ((input: string, init?: RequestInit) => fetch(input, init));
+  const endpoint = `${blockEngineUrl.replace(/\/+$/, '')}/api/v1/bundles`;
+
+  async function call<T>(method: string, params: unknown[]): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.authUuid) headers['x-jito-auth'] = options.authUuid;
+
+    const res = await fetchImpl(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(options.timeoutMs ?? JITO_CONFIG.REQUEST_TIMEOUT_MS),
+    });
+    if (res.status === 429) throw new Error('Block engine rate limited (429)');
+
+    const json = (await res.json()) as JsonRpcResponse<T>;
+    if (json.error) throw new Error(json.error.message || `Block engine error ${json.error.code}`);
+    if (!res.ok) throw new Error(`Block engine HTTP ${res.status}`);
+    return json.result as T;
+  }
+
+  /**
+   * Submit base64-encoded signed transactions as one bundle. The tip transaction must be
+   * the last entry so the tip is only paid when the swap also lands.
+   */
+  async function sendBundle(transactions: string[]): Promise<SendBundleResult> {
+    if (transactions.length === 0 || transactions.length > JITO_CONFIG.MAX_BUNDLE_TRANSACTIONS) {
+      return { success: false, error: `Bundle must contain 1-${JITO_CONFIG.MAX_BUNDLE_TRANSACTIONS} transactions` };
+    }
+    try {
+      const bundleId = await call<string>('sendBundle', [transactions, { encoding: 'base64' }]);
+      if (!bundleId) return { success: false, error: 'Block engine returned no bundle id' };
+      return { success: true, bundleId };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'sendBundle failed' };
+    }
+  }
+
+  /**
+   * Inflight status covers the last ~5 minutes of submissions; landed bundles are then
+   * looked up with getBundleStatuses for their signatures and commitment.
+   */
+  async function getBundleStatus(bundleId: string): Promise<BundleStatusResult> {
+    const result: BundleStatusResult = {
+      bundleId,
+      status: 'pending',
+      slot: null,
+      confirmationStatus: null,
+      transactions: [],
+      error: null,
+    };
+
+    const inflight = await call<{ value: InflightStatusValue[] | null }>('getInflightBundleStatuses', [[bundleId]]);
+    const entry = inflight?.value?.[0];
+    if (entry?.status === 'Pending') return result;
+    if (entry?.status === 'Failed') {
+      return { ...result, status: 'failed', error: 'Bundle failed in the auction - no transaction landed' };
+    }
+
+    // Landed, or Invalid (unknown / aged out of the inflight window) - the landed index decides
+    const landed = await call<{ value: (BundleStatusValue | null)[] | null }>('getBundleStatuses', [[bundleId]]);
+    const status = landed?.value?.[0];
+    if (!status) {
+      return entry?.status === 'Landed'
+        ? { ...result, status: 'landed', slot: entry.landed_slot }
+        : { ...result, status: 'invalid', error: 'Bundle not found - it was dropped or never accepted' };
+    }
+
+    const hasError = status.err && !('Ok' in status.err);
+    return {
+      bundleId,
+      status: hasError ? 'failed' : 'landed',
+      slot: status.slot,
+      confirmationStatus: status.confirmation_status,
+      transactions: status.transactions || [],
+      error: hasError ? `Bundle transaction error: ${JSON.stringify(status.err)}` : null,
+    };
+  }
+
+  async function getTipAccounts(): Promise<string[]> {
+    return call<string[]>('getTipAccounts', []);
+  }
+
+  return { sendBundle, getBundleStatus, getTipAccounts };
+}
+
+export type BlockEngineClient = ReturnType<typeof createBlockEngineClient>;
@@ -0,0 +1,158 @@
+/**
+ * Envelope encryption for secrets stored in the database (API keys in api_configurations).
+ *
+ * Every value gets its own random data key. The value is sealed with AES-GCM under that
+ * data key, and the data key is wrapped with AES-GCM under a master key from the ring. The
+ * master key id travels in the ciphertext, so values sealed under a retired key stay
+ * readable while it is still in the ring, and rotating only has to re-wrap the data key.
+ *
+ * Stored format: `gcm:<keyId>:<wrapped data key>:<sealed value>` (base64, IV first).
+ * - Edge Functions (Deno):  import { ... } from "../_shared/key-ring.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/key-ring";
+ */
+
+import { base64ToBytes } from './round-trip.ts';
+
+export const ENVELOPE_PREFIX = 'gcm:';
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_.-]{1,32}$/;
+const IV_BYTES = 12;
+
+export interface MasterKeyRing {
+  /** New values are wrapped under this key */
+  activeKeyId: string;
+  keys: Map<string, CryptoKey>;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+async function deriveMasterKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+async function importDataKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+async function seal(key: CryptoKey, plaintext: Uint8Array, aad: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(aad) }, key, plaintext)
+  );
+  const out = new Uint8Array(IV_BYTES + sealed.length);
+  out.set(iv);
+  out.set(sealed, IV_BYTES);
+  return bytesToBase64(out);
+}
+
+async function open(key: CryptoKey, sealedBase64: string, aad: string): Promise<Uint8Array> {
+  const bytes = base64ToBytes(sealedBase64);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.subarray(0, IV_BYTES), additionalData: new TextEncoder().encode(aad) },
+    key,
+    bytes.subarray(IV_BYTES)
+  );
+  return new Uint8Array(plaintext);
+}
+
+// The key id is bound to the wrapped data key, so relabelling a value with another id fails to open
+const wrapAad = (keyId: string) => `${ENVELOPE_PREFIX}${keyId}`;
+const VALUE_AAD = 'api-key';
+
+// ============================================================================
+// KEY RING
+// ============================================================================
+
+/**
+ * Parse `id:secret,id:secret` (the first entry is active). Entries with a malformed id or
+ * an empty secret are skipped; returns null when nothing usable is left.
+ */
+export async function parseKeyRing(raw: string | null | undefined): Promise<MasterKeyRing | null> {
+  if (!raw) return null;
+  const keys = new Map<string, CryptoKey>();
+  let activeKeyId: string | null = null;
+
+  for (const entry of raw.split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator < 0) continue;
+    const id = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (!KEY_ID_PATTERN.test(id) || !secret || keys.has(id)) continue;
+    keys.set(id, await deriveMasterKey(secret));
+    activeKeyId ??= id;
+  }
+
+  return activeKeyId ? { activeKeyId, keys } : null;
+}
+
+// ============================================================================
+// ENVELOPES
+// ============================================================================
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: string;
+  sealedValue: string;
+}
+
+function parseEnvelope(value: string): Envelope | null {
+  if (!value.startsWith(ENVELOPE_PREFIX)) return null;
+  const [keyId, wrappedKey, sealedValue, ...rest] = value.slice(ENVELOPE_PREFIX.length).split(':');
+  if (rest.length > 0 || !keyId || !wrappedKey || !sealedValue) return null;
+  return { keyId, wrappedKey, sealedValue };
+}
+
+/** Master key id a stored value is wrapped under, or null for anything that is not an envelope. */
+export function envelopeKeyId(value: string): string | null {
+  return parseEnvelope(value)?.keyId ?? null;
+}
+
+export async function sealWithKeyRing(ring: MasterKeyRing, plaintext: string): Promise<string> {
+  const masterKey = ring.keys.get(ring.activeKeyId)!;
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  const wrappedKey = await seal(masterKey, dataKey, wrapAad(ring.activeKeyId));
+  const sealedValue = await seal(await importDataKey(dataKey), new TextEncoder().encode(plaintext), VALUE_AAD);
+  return `${ENVELOPE_PREFIX}${ring.activeKeyId}:${wrappedKey}:${sealedValue}`;
+}
+
+async function unwrapDataKey(ring: MasterKeyRing, envelope: Envelope): Promise<Uint8Array | null> {
+  const masterKey = ring.keys.get(envelope.keyId);
+  if (!masterKey) return null;
+  try {
+    return await open(masterKey, envelope.wrappedKey, wrapAad(envelope.keyId));
+  } catch {
+    return null;
+  }
+}
+
+/** Plaintext of an envelope; null when its master key is not in the ring or it was tampered with. */
+export async function openWithKeyRing(ring: MasterKeyRing, value: string): Promise<string | null> {
+  const envelope = parseEnvelope(value);
+  if (!envelope) return null;
+  const dataKey = await unwrapDataKey(ring, envelope);
+  if (!dataKey) return null;
+  try {
+    return new TextDecoder().decode(await open(await importDataKey(dataKey), envelope.sealedValue, VALUE_AAD));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-wrap an envelope's data key under the active master key. The sealed value is kept
+ * as-is; returns null when the envelope cannot be opened with this ring.
+ */
+export async function rewrapWithKeyRing(ring: MasterKeyRing, value: string): Promise<string | null> {
+  const envelope = parseEnvelope(value);
+  if (!envelope) return null;
+  if (envelope.keyId === ring.activeKeyId) return value;
+  const dataKey = await unwrapDataKey(ring, envelope);
+  if (!dataKey) return null;
+  const wrappedKey = await seal(ring.keys.get(ring.activeKeyId)!, dataKey, wrapAad(ring.activeKeyId));
+  return `${ENVELOPE_PREFIX}${ring.activeKeyId}:${wrappedKey}:${envelope.sealedValue}`;
+}
@@ -0,0 +1,272 @@
+/**
+ * Notification delivery channels - Telegram, Discord webhooks and generic webhooks
+ *
+ * In-app notifications always land in the `notifications` table; these channels are the
+ * extra destinations a user routes chosen event types to. Config validation and request
+ * building are pure; delivery takes an injected fetch:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/notification-channels.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/notification-channels";
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NotificationEventType =
+  | 'take_profit'
+  | 'stop_loss'
+  | 'trailing_stop'
+  | 'trade_executed'
+  | 'trade_failed'
+  | 'bot_status'
+  | 'scan'
+  | 'system';
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  take_profit: 'Take profit hit',
+  stop_loss: 'Stop loss hit',
+  trailing_stop: 'Trailing stop hit',
+  trade_executed: 'Trade executed',
+  trade_failed: 'Trade failed',
+  bot_status: 'Bot started / stopped',
+  scan: 'Scan results',
+  system: 'System messages',
+};
+
+export const NOTIFICATION_EVENT_TYPES = Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEventType[];
+
+export type ChannelKind = 'telegram' | 'discord' | 'webhook';
+
+export interface TelegramChannelConfig {
+  bot_token: string;
+  chat_id: string;
+}
+
+export interface DiscordChannelConfig {
+  webhook_url: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string | null; // signs the body as X-Signature: sha256=<hex hmac>
+}
+
+export type ChannelConfig = TelegramChannelConfig | DiscordChannelConfig | WebhookChannelConfig;
+
+export interface NotificationChannel {
+  id: string;
+  kind: ChannelKind;
+  label: string | null;
+  config: ChannelConfig;
+  is_enabled: boolean;
+}
+
+export interface DeliverableNotification {
+  id: string;
+  event: NotificationEventType;
+  type: string;
+  title: string;
+  message: string;
+  metadata?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface DeliveryResult {
+  channelId: string;
+  ok: boolean;
+  error?: string;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const DELIVERY_TIMEOUT_MS = 8_000;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const TELEGRAM_TOKEN_PATTERN = /^\d{5,}:[A-Za-z0-9_-]{30,}$/;
+const TELEGRAM_CHAT_PATTERN = /^(-?\d{1,20}|@[A-Za-z0-9_]{5,32})$/;
+const DISCORD_WEBHOOK_PATTERN = /^https:\/\/(discord\.com|discordapp\.com|ptb\.discord\.com|canary\.discord\.com)\/api\/webhooks\/\d+\/[\w-]+$/;
+
+// Webhooks are called from our edge functions - keep them off loopback and private ranges
+function isPublicHttpsUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:') return false;
+  const host = url.hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return false;
+  }
+  if (host.startsWith('[')) return false; // IPv6 literals
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    if (a === 10 || a === 127 || a === 0 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Null when the config is usable for the channel kind, otherwise what is wrong with it
+ */
+export function validateChannelConfig(kind: ChannelKind, config: unknown): string | null {
+  if (!config || typeof config !== 'object') return 'Channel config is required';
+  const c = config as Record<string, unknown>;
+
+  switch (kind) {
+    case 'telegram':
+      if (typeof c.bot_token !== 'string' || !TELEGRAM_TOKEN_PATTERN.test(c.bot_token)) {
+        return 'Telegram bot token must look like 123456:ABC... (from @BotFather)';
+      }
+      if (typeof c.chat_id !== 'string' || !TELEGRAM_CHAT_PATTERN.test(c.chat_id)) {
+        return 'Telegram chat id must be numeric or an @channel name';
+      }
+      return null;
+    case 'discord':
+      if (typeof c.webhook_url !== 'string' || !DISCORD_WEBHOOK_PATTERN.test(c.webhook_url)) {
+        return 'Discord webhook URL must be https://discord.com/api/webhooks/...';
+      }
+      return null;
+    case 'webhook':
+      if (typeof c.url !== 'string' || !isPublicHttpsUrl(c.url)) {
+        return 'Webhook URL must be a public https:// address';
+      }
+      if (c.secret != null && (typeof c.secret !== 'string' || c.secret.length > 256)) {
+        return 'Webhook secret must be a string of at most 256 characters';
+      }
+      return null;
+    default:
+      return `Unknown channel kind: ${String(kind)}`;
+  }
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+const DISCORD_COLORS: Record<string, number> = {
+  success: 0x22c55e,
+  trade: 0x8b5cf6,
+  warning: 0xf59e0b,
+  error: 0xef4444,
+  info: 0x3b82f6,
+};
+
+export function formatPlainText(notification: DeliverableNotification): string {
+  return `${notification.title}\n${notification.message}`;
+}
+
+/**
+ * URL and request body for one channel. Webhook signing happens in deliverToChannel
+ * because HMAC is async.
+ */
+export function buildChannelRequest(
+  channel: Pick<NotificationChannel, 'kind' | 'config'>,
+  notification: DeliverableNotification
+): { url: string; body: string } {
+  switch (channel.kind) {
+    case 'telegram': {
+      const config = channel.config as TelegramChannelConfig;
+      return {
+        url: `https://api.telegram.org/bot${config.bot_token}/sendMessage`,
+        body: JSON.stringify({
+          chat_id: config.chat_id,
+          text: formatPlainText(notification),
+          disable_web_page_preview: true,
+        }),
+      };
+    }
+    case 'discord': {
+      const config = channel.config as DiscordChannelConfig;
+      return {
+        url: config.webhook_url,
+        body: JSON.stringify({
+          embeds: [{
+            title: notification.title.slice(0, 256),
+            description: notification.message.slice(0, 4000),
+            color: DISCORD_COLORS[notification.type] ?? DISCORD_COLORS.info,
+            timestamp: notification.created_at,
+          }],
+        }),
+      };
+    }
+    case 'webhook': {
+      const config = channel.config as WebhookChannelConfig;
+      return {
+        url: config.url,
+        body: JSON.stringify({
+          id: notification.id,
+          event: notification.event,
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          metadata: notification.metadata ?? null,
+          created_at: notification.created_at,
+        }),
+      };
+    }
+  }
+}
+
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return Array.from(signature, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+export async function deliverToChannel(
+  channel: NotificationChannel,
+  notification: DeliverableNotification,
+  fetchImpl: FetchLike = (input, init) => fetch(input, init)
+): Promise<DeliveryResult> {
+  try {
+    const { url, body } = buildChannelRequest(channel, notification);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (channel.kind === 'webhook') {
+      const secret = (channel.config as WebhookChannelConfig).secret;
+      headers['X-Notification-Event'] = notification.event;
+      if (secret) headers['X-Signature'] = `sha256=${await hmacSha256Hex(secret, body)}`;
+    }
+
+    const res = await fetchImpl(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      return { channelId: channel.id, ok: false, error: `HTTP ${res.status}${text ? `: ${text.slice(0, 200)}` : ''}` };
+    }
+    return { channelId: channel.id, ok: true };
+  } catch (error) {
+    return { channelId: channel.id, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' };
+  }
+}
+
+/**
+ * Deliver to every enabled channel in parallel; one failing channel does not block the rest
+ */
+export function deliverNotification(
+  channels: NotificationChannel[],
+  notification: DeliverableNotification,
+  fetchImpl?: FetchLike
+): Promise<DeliveryResult[]> {
+  return Promise.all(
+    channels
+      .filter((channel) => channel.is_enabled)
+      .map((channel) => deliverToChannel(channel, notification, fetchImpl))
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * OHLCV candles for the token price chart: the candle resolution behind each chart timeframe
+ * and normalization of provider responses (GeckoTerminal, Birdeye) and cached rows into one
+ * ascending, de-duplicated series.
+ * - Edge Functions (Deno):  import { ... } from "../_shared/ohlcv.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/ohlcv";
+ */
+
+import type { OhlcvTimeframe } from './validation.ts';
+
+export interface OhlcvCandle {
+  time: number; // bucket start, unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface OhlcvTimeframeConfig {
+  geckoPeriod: 'minute' | 'hour' | 'day';
+  geckoAggregate: number;
+  birdeyeType: string;
+  limit: number;
+  bucketSeconds: number;
+  cacheTtlMs: number; // How long cached candles are served before refetching
+}
+
+export interface BirdeyeCandle {
+  unixTime: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v?: number;
+}
+
+export interface OhlcvCacheRow {
+  bucket_start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  source: string;
+  fetched_at: string;
+}
+
+// Candle resolution per chart timeframe
+export const OHLCV_TIMEFRAMES: Record<OhlcvTimeframe, OhlcvTimeframeConfig> = {
+  '1H': { geckoPeriod: 'minute', geckoAggregate: 1, birdeyeType: '1m', limit: 60, bucketSeconds: 60, cacheTtlMs: 30_000 },
+  '4H': { geckoPeriod: 'minute', geckoAggregate: 5, birdeyeType: '5m', limit: 48, bucketSeconds: 300, cacheTtlMs: 60_000 },
+  '24H': { geckoPeriod: 'minute', geckoAggregate: 15, birdeyeType: '15m', limit: 96, bucketSeconds: 900, cacheTtlMs: 120_000 },
+  '7D': { geckoPeriod: 'hour', geckoAggregate: 4, birdeyeType: '4H', limit: 42, bucketSeconds: 14_400, cacheTtlMs: 600_000 },
+};
+
+export function isValidCandle(c: OhlcvCandle): boolean {
+  return [c.time, c.open, c.high, c.low, c.close].every((v) => Number.isFinite(v) && v > 0) &&
+    Number.isFinite(c.volume);
+}
+
+/**
+ * Drop invalid candles and sort ascending. Providers can repeat a bucket (the still-open one
+ * across pages), and one upsert may not touch a row twice, so the last copy of a bucket wins.
+ */
+export function normalizeCandles(candles: OhlcvCandle[]): OhlcvCandle[] {
+  const byTime = new Map<number, OhlcvCandle>();
+  for (const candle of candles) {
+    if (isValidCandle(candle)) byTime.set(candle.time, candle);
+  }
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+// GeckoTerminal ohlcv_list rows are [time, open, high, low, close, volume], newest first
+export function parseGeckoOhlcv(list: unknown[]): OhlcvCandle[] {
+  return normalizeCandles(
+    list
+      .filter(Array.isArray)
+      .map((row) => {
+        const [time, open, high, low, close, volume] = (row as unknown[]).map(Number);
+        return { time, open, high, low, close, volume };
+      })
+  );
+}
+
+export function parseBirdeyeOhlcv(items: BirdeyeCandle[]): OhlcvCandle[] {
+  return normalizeCandles(
+    items.map((i) => ({
+      time: Number(i.unixTime),
+      open: Number(i.o),
+      high: Number(i.h),
+      low: Number(i.l),
+      close: Number(i.c),
+      volume: Number(i.v ?? 0),
+    }))
+  );
+}
+
+export function cacheRowsToCandles(rows: OhlcvCacheRow[]): OhlcvCandle[] {
+  return normalizeCandles(
+    rows.map((r) => ({
+      time: Math.floor(new Date(r.bucket_start).getTime() / 1000),
+      open: Number(r.open),
+      high: Number(r.high),
+      low: Number(r.low),
+      close: Number(r.close),
+      volume: Number(r.volume),
+    }))
+  );
+}
+
+/** Whether the newest cached fetch is still within the timeframe's TTL */
+export function isCacheFresh(rows: OhlcvCacheRow[], config: OhlcvTimeframeConfig, now: number = Date.now()): boolean {
+  const newestFetch = rows.reduce((max, r) => Math.max(max, new Date(r.fetched_at).getTime()), 0);
+  return rows.length > 0 && now - newestFetch < config.cacheTtlMs;
+}
@@ -0,0 +1,99 @@
+/**
+ * Paper-trading fill model. A paper trade runs the live pipeline up to the real quote and
+ * stops before signing; this module turns that quote into the fill a live trade would
+ * plausibly have got:
+ *   - output = quote outAmount less a realized slippage drawn within the configured tolerance
+ *   - fees   = base signature fee + the priority fee the swap would have paid
+ *   - landing failures at the rate observed for live confirmations (fees are still paid)
+ *
+ * Randomness is injected so fills are reproducible in tests:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/paper-fill.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/paper-fill";
+ */
+
+export const PAPER_FILL_CONFIG = {
+  SIGNATURE_FEE_LAMPORTS: 5_000,
+  // Used until there are enough live confirmations to trust the observed rate
+  DEFAULT_FAILURE_RATE: 0.1,
+  // Confirmations' worth of weight the default keeps; smooths small samples
+  PRIOR_WEIGHT: 20,
+  MAX_FAILURE_RATE: 0.95,
+} as const;
+
+export type PaperSide = 'buy' | 'sell';
+
+export interface PaperFillInput {
+  side: PaperSide;
+  inAmount: number;          // base units in: lamports for buys, raw tokens for sells
+  quotedOutAmount: number;   // quote outAmount in base units
+  slippageBps: number;       // configured tolerance
+  priorityFeeLamports: number;
+  failureRate: number;       // 0-1
+}
+
+export interface PaperFill {
+  status: 'filled' | 'failed';
+  outAmount: number;         // base units received; 0 when failed
+  slippageBps: number;       // realized, never above the tolerance
+  priorityFeeLamports: number;
+  networkFeeLamports: number;
+  // Net SOL change of the wallet in lamports: buys spend input + fees, sells receive output - fees
+  solDeltaLamports: number;
+  failureReason: string | null;
+}
+
+export interface ConfirmationCounts {
+  confirmed: number;
+  failed: number;
+}
+
+// ============================================================================
+// FAILURE RATE
+// ============================================================================
+
+/**
+ * Landing failure rate from live confirmations, pulled toward the default until the sample
+ * is large enough to speak for itself.
+ */
+export function estimateFailureRate(counts: ConfirmationCounts): number {
+  const { DEFAULT_FAILURE_RATE, PRIOR_WEIGHT, MAX_FAILURE_RATE } = PAPER_FILL_CONFIG;
+  const total = counts.confirmed + counts.failed;
+  const rate = (counts.failed + DEFAULT_FAILURE_RATE * PRIOR_WEIGHT) / (total + PRIOR_WEIGHT);
+  return Math.min(MAX_FAILURE_RATE, Math.max(0, rate));
+}
+
+// ============================================================================
+// FILL
+// ============================================================================
+
+export function simulatePaperFill(input: PaperFillInput, random: () => number = Math.random): PaperFill {
+  const priorityFeeLamports = Math.max(0, Math.round(input.priorityFeeLamports));
+  const networkFeeLamports = PAPER_FILL_CONFIG.SIGNATURE_FEE_LAMPORTS;
+  const fees = priorityFeeLamports + networkFeeLamports;
+
+  // A transaction that lands and reverts still pays its fees
+  if (random() < input.failureRate) {
+    return {
+      status: 'failed',
+      outAmount: 0,
+      slippageBps: 0,
+      priorityFeeLamports,
+      networkFeeLamports,
+      solDeltaLamports: -fees,
+      failureReason: `Transaction failed to land (${(input.failureRate * 100).toFixed(1)}% observed failure rate)`,
+    };
+  }
+
+  const slippageBps = Math.round(random() * Math.max(0, input.slippageBps));
+  const outAmount = Math.floor((input.quotedOutAmount * (10_000 - slippageBps)) / 10_000);
+
+  return {
+    status: 'filled',
+    outAmount,
+    slippageBps,
+    priorityFeeLamports,
+    networkFeeLamports,
+    solDeltaLamports: input.side === 'buy' ? -(input.inAmount + fees) : outAmount - fees,
+    failureReason: null,
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * Position guardian: early warning for rugs on open positions. Price-based exits (TP/SL) only
+ * fire after a rug has already happened; the guardian watches the token accounts a rug moves
+ * first - the pool's reserve, the creator's wallet and the top holders' wallets - and asks
+ * auto-exit for an emergency exit that bypasses the stop loss.
+ *
+ * Each auto-exit cycle reads every watched account in one getMultipleAccounts call and compares
+ * the sample with the recent ones kept in positions.guardian_state:
+ * - pool value (token reserve x price; a constant-product pool holds equal value on both sides)
+ *   down LIQUIDITY_DROP % within DROP_WINDOW_SLOTS       -> emergency_liquidity_drop
+ * - pool token reserve gone and value with it             -> emergency_lp_removed
+ * - creator balance down DEV_SELL % of supply from its peak -> emergency_dev_sell
+ * - top holders' combined balance down HOLDER_DUMP % of supply -> emergency_holder_dump
+ *
+ * RPC access is injected like holder-clusters.ts:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/position-guardian.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/position-guardian";
+ */
+
+import { fetchTopHolders, type RpcCall } from './holder-clusters.ts';
+
+export const GUARDIAN_LIMITS = {
+  // Token reserve drop (%) that means liquidity was withdrawn rather than sold into
+  LP_REMOVED_RESERVE_PERCENT: 90,
+  MAX_SAMPLES: 20,
+  MAX_HOLDERS: 10,
+  // Emergency sells start at the simulation slippage cap - getting out matters more than price
+  EMERGENCY_SLIPPAGE_BPS: 3_000,
+} as const;
+
+export type GuardianExitReason =
+  | 'emergency_liquidity_drop'
+  | 'emergency_lp_removed'
+  | 'emergency_dev_sell'
+  | 'emergency_holder_dump';
+
+export const GUARDIAN_EXIT_REASONS: readonly GuardianExitReason[] = [
+  'emergency_liquidity_drop',
+  'emergency_lp_removed',
+  'emergency_dev_sell',
+  'emergency_holder_dump',
+];
+
+/** Per-user thresholds (stored as JSONB on user_sniper_settings.guardian_config). */
+export interface GuardianConfig {
+  enabled: boolean;
+  liquidityDropPercent: number;
+  dropWindowSlots: number; // ~0.4s per slot
+  devSellPercent: number;     // of total supply
+  holderDumpPercent: number;  // of total supply, top holders combined
+}
+
+export const DEFAULT_GUARDIAN_CONFIG: GuardianConfig = {
+  enabled: true,
+  liquidityDropPercent: 30,
+  dropWindowSlots: 300,
+  devSellPercent: 2,
+  holderDumpPercent: 10,
+};
+
+export interface GuardianSample {
+  slot: number;
+  at: string;
+  poolReserve: number;        // raw token units held by the pool accounts
+  poolValue: number | null;   // poolReserve x price; relative units, only compared with itself
+  creatorBalance: number;
+  holdersBalance: number;
+}
+
+export interface GuardianState {
+  supply: number; // raw units
+  creator: string | null;
+  poolAccounts: string[];
+  creatorAccounts: string[];
+  holderAccounts: string[];
+  creatorPeak: number;
+  holdersPeak: number;
+  samples: GuardianSample[];
+  // Sticky once set: an unsigned or failed emergency sell is retried every cycle until closed
+  trigger: GuardianTrigger | null;
+}
+
+export interface GuardianTrigger {
+  reason: GuardianExitReason;
+  detail: string;
+}
+
+export interface GuardianEvaluation {
+  trigger: GuardianTrigger | null;
+  state: GuardianState;
+}
+
+function toPercent(value: unknown, fallback: number, min: number, max: number): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) && num >= min && num <= max ? num : fallback;
+}
+
+/** Normalize a stored config; missing or out-of-range fields fall back to the defaults. */
+export function parseGuardianConfig(raw: unknown): GuardianConfig {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_GUARDIAN_CONFIG };
+  const obj = raw as Record<string, unknown>;
+  const d = DEFAULT_GUARDIAN_CONFIG;
+  return {
+    enabled: typeof obj.enabled === 'boolean' ? obj.enabled : d.enabled,
+    liquidityDropPercent: toPercent(obj.liquidityDropPercent, d.liquidityDropPercent, 1, 99),
+    dropWindowSlots: Math.round(toPercent(obj.dropWindowSlots, d.dropWindowSlots, 10, 10_000)),
+    devSellPercent: toPercent(obj.devSellPercent, d.devSellPercent, 0.1, 100),
+    holderDumpPercent: toPercent(obj.holderDumpPercent, d.holderDumpPercent, 0.1, 100),
+  };
+}
+
+export function isGuardianExitReason(reason: string | null | undefined): reason is GuardianExitReason {
+  return !!reason && (GUARDIAN_EXIT_REASONS as readonly string[]).includes(reason);
+}
+
+// ============================================================================
+// CHAIN READS
+// ============================================================================
+
+interface ParsedTokenAccount {
+  data?: { parsed?: { info?: { tokenAmount?: { amount?: string } } } };
+}
+
+const tokenAmount = (account: ParsedTokenAccount | null | undefined) =>
+  Number(account?.data?.parsed?.info?.tokenAmount?.amount ?? 0);
+
+/**
+ * Accounts to watch for `mint`: the program-owned largest accounts (pool / bonding curve),
+ * the creator's token accounts and the top holder wallets other than `exclude` (our own wallet).
+ */
+export async function initGuardianState(
+  rpc: RpcCall,
+  mint: string,
+  creator: string | null,
+  exclude: string[] = []
+): Promise<GuardianState> {
+  const [{ holders, programAccounts }, supply, creatorAccounts] = await Promise.all([
+    fetchTopHolders(rpc, mint, GUARDIAN_LIMITS.MAX_HOLDERS + exclude.length + 1),
+    rpc('getTokenSupply', [mint]) as Promise<{ value: { amount: string } }>,
+    creator
+      ? rpc('getTokenAccountsByOwner', [creator, { mint }, { encoding: 'jsonParsed' }]) as Promise<{ value: { pubkey: string }[] }>
+      : Promise.resolve({ value: [] }),
+  ]);
+
+  const skip = new Set([...exclude, ...(creator ? [creator] : [])]);
+  return {
+    supply: Number(supply.value.amount),
+    creator,
+    poolAccounts: programAccounts.map((a) => a.tokenAccount),
+    creatorAccounts: creatorAccounts.value.map((a) => a.pubkey),
+    holderAccounts: holders
+      .filter((h) => !skip.has(h.owner))
+      .slice(0, GUARDIAN_LIMITS.MAX_HOLDERS)
+      .map((h) => h.tokenAccount),
+    creatorPeak: 0,
+    holdersPeak: 0,
+    samples: [],
+    trigger: null,
+  };
+}
+
+/** Current balances of every watched account, at the slot the RPC node read them. */
+export async function readGuardianSample(
+  rpc: RpcCall,
+  state: GuardianState,
+  priceUsd: number | null
+): Promise<GuardianSample> {
+  const addresses = [...state.poolAccounts, ...state.creatorAccounts, ...state.holderAccounts];
+  const result = addresses.length
+    ? await rpc('getMultipleAccounts', [addresses, { encoding: 'jsonParsed', commitment: 'confirmed' }]) as {
+        context: { slot: number };
+        value: (ParsedTokenAccount | null)[];
+      }
+    : { context: { slot: await rpc('getSlot', []) as number }, value: [] };
+
+  // Closed accounts come back null and count as empty
+  const sum = (from: number, count: number) =>
+    result.value.slice(from, from + count).reduce((total, account) => total + tokenAmount(account), 0);
+  const pool = state.poolAccounts.length;
+  const creator = state.creatorAccounts.length;
+  const poolReserve = sum(0, pool);
+
+  return {
+    slot: result.context.slot,
+    at: new Date().toISOString(),
+    poolReserve,
+    poolValue: priceUsd !== null && priceUsd > 0 ? poolReserve * priceUsd : null,
+    creatorBalance: sum(pool, creator),
+    holdersBalance: sum(pool + creator, state.holderAccounts.length),
+  };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+const dropPercent = (from: number, to: number) => (from > 0 ? ((from - to) / from) * 100 : 0);
+
+/**
+ * Compare `sample` with the recent samples and decide whether to bail out. LP removal is
+ * checked against the previous sample even outside the window - a pulled pool stays pulled.
+ */
+export function evaluateGuardian(
+  state: GuardianState,
+  sample: GuardianSample,
+  config: GuardianConfig = DEFAULT_GUARDIAN_CONFIG
+): GuardianEvaluation {
+  const earlier = state.samples.filter((s) => s.slot < sample.slot);
+  const windowed = earlier.filter((s) => s.slot >= sample.slot - config.dropWindowSlots);
+  const previous = earlier[earlier.length - 1];
+  const reference = windowed.length ? windowed : previous ? [previous] : [];
+
+  const peakReserve = Math.max(0, ...reference.map((s) => s.poolReserve));
+  const peakValue = (samples: GuardianSample[]) =>
+    Math.max(0, ...samples.map((s) => s.poolValue ?? 0));
+  const reserveDrop = dropPercent(peakReserve, sample.poolReserve);
+  const valueDropSinceReference = sample.poolValue !== null ? dropPercent(peakValue(reference), sample.poolValue) : null;
+  const windowValueDrop = sample.poolValue !== null ? dropPercent(peakValue(windowed), sample.poolValue) : 0;
+  const devSold = state.supply > 0 ? ((state.creatorPeak - sample.creatorBalance) / state.supply) * 100 : 0;
+  const holdersSold = state.supply > 0 ? ((state.holdersPeak - sample.holdersBalance) / state.supply) * 100 : 0;
+
+  let trigger: GuardianTrigger | null = null;
+  // Buys also shrink the token reserve, but they raise the pool value - a withdrawal lowers both
+  if (
+    reserveDrop >= GUARDIAN_LIMITS.LP_REMOVED_RESERVE_PERCENT &&
+    (valueDropSinceReference === null || valueDropSinceReference >= config.liquidityDropPercent)
+  ) {
+    trigger = { reason: 'emergency_lp_removed', detail: `Pool token reserve down ${reserveDrop.toFixed(0)}%` };
+  } else if (state.creator && devSold >= config.devSellPercent) {
+    trigger = { reason: 'emergency_dev_sell', detail: `Creator moved ${devSold.toFixed(2)}% of supply` };
+  } else if (windowValueDrop >= config.liquidityDropPercent) {
+    trigger = {
+      reason: 'emergency_liquidity_drop',
+      detail: `Pool liquidity down ${windowValueDrop.toFixed(0)}% within ${sample.slot - windowed[0].slot} slots`,
+    };
+  } else if (holdersSold >= config.holderDumpPercent) {
+    trigger = { reason: 'emergency_holder_dump', detail: `Top holders sold ${holdersSold.toFixed(2)}% of supply` };
+  }
+
+  // The new sample is the next cycle's `previous`, so nothing older than the window is needed
+  const samples = [...windowed, sample].slice(-GUARDIAN_LIMITS.MAX_SAMPLES);
+
+  trigger = state.trigger ?? trigger;
+  return {
+    trigger,
+    state: {
+      ...state,
+      trigger,
+      creatorPeak: Math.max(state.creatorPeak, sample.creatorBalance),
+      holdersPeak: Math.max(state.holdersPeak, sample.holdersBalance),
+      samples,
+    },
+  };
+}
+
+/**
+ * One guardian cycle for a position: set up the watch list on first sight, sample, evaluate.
+ * An emptied bonding curve is usually a migration to an AMM pool, not a rug: when the
+ * program-held supply reappears in new accounts the watch list is rebuilt instead.
+ */
+export async function runGuardianCheck(
+  rpc: RpcCall,
+  input: {
+    mint: string;
+    owner: string | null;
+    creator: string | null;
+    state: GuardianState | null;
+    priceUsd: number | null;
+    config: GuardianConfig;
+  }
+): Promise<GuardianEvaluation> {
+  const exclude = input.owner ? [input.owner] : [];
+  const state = input.state ?? await initGuardianState(rpc, input.mint, input.creator, exclude);
+  const evaluation = evaluateGuardian(state, await readGuardianSample(rpc, state, input.priceUsd), input.config);
+  if (state.trigger || evaluation.trigger?.reason !== 'emergency_lp_removed') return evaluation;
+
+  const { programAccounts } = await fetchTopHolders(rpc, input.mint, GUARDIAN_LIMITS.MAX_HOLDERS);
+  const moved = programAccounts.filter((a) => !state.poolAccounts.includes(a.tokenAccount));
+  const previousReserve = Math.max(0, ...state.samples.map((s) => s.poolReserve));
+  const movedReserve = moved.reduce((total, a) => total + Number(a.amount), 0);
+  if (moved.length === 0 || movedReserve < previousReserve / 2) return evaluation;
+
+  const rebuilt = await initGuardianState(rpc, input.mint, state.creator, exclude);
+  return evaluateGuardian(rebuilt, await readGuardianSample(rpc, rebuilt, input.priceUsd), input.config);
+}
+
+/** Stored state from positions.guardian_state, or null to start over. */
+export function parseGuardianState(raw: unknown): GuardianState | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const obj = raw as Partial<GuardianState>;
+  if (!Array.isArray(obj.poolAccounts) || !Array.isArray(obj.samples) || typeof obj.supply !== 'number') return null;
+  return {
+    supply: obj.supply,
+    creator: typeof obj.creator === 'string' ? obj.creator : null,
+    poolAccounts: obj.poolAccounts,
+    creatorAccounts: Array.isArray(obj.creatorAccounts) ? obj.creatorAccounts : [],
+    holderAccounts: Array.isArray(obj.holderAccounts) ? obj.holderAccounts : [],
+    creatorPeak: Number(obj.creatorPeak) || 0,
+    holdersPeak: Number(obj.holdersPeak) || 0,
+    samples: obj.samples,
+    trigger: obj.trigger && isGuardianExitReason(obj.trigger.reason) ? obj.trigger : null,
+  };
+}
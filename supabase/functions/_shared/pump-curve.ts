@@ -0,0 +1,351 @@
+/**
+ * Pump.fun bonding curve: on-chain state, local pricing and migration tracking.
+ *
+ * A token launched on Pump.fun trades against its bonding-curve account (a constant-product
+ * curve over virtual reserves) until the curve sells out; then the curve is marked `complete`
+ * and liquidity migrates to an AMM (PumpSwap, formerly Raydium). Decoding the account gives
+ * price, buy impact and progress without a quote API, and `complete` is the migration signal
+ * that flips a position's exit route from the curve to the AMM.
+ *
+ * RPC access is injected like holder-clusters.ts:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/pump-curve.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/pump-curve";
+ */
+
+import { decodeBase58, encodeBase58 } from './base58.ts';
+import type { RpcCall } from './holder-clusters.ts';
+import type { DiscoveryReason } from './snipe-rules.ts';
+
+export const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+export const PUMP_CURVE = {
+  TOKEN_DECIMALS: 6,
+  // Launch parameters (raw units) - every curve starts from these
+  INITIAL_VIRTUAL_TOKEN_RESERVES: 1_073_000_000_000_000,
+  INITIAL_VIRTUAL_SOL_RESERVES: 30_000_000_000,
+  INITIAL_REAL_TOKEN_RESERVES: 793_100_000_000_000,
+  // Protocol fee on curve trades
+  FEE_BPS: 100,
+} as const;
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const TOKEN_UNIT = 10 ** PUMP_CURVE.TOKEN_DECIMALS;
+
+// ============================================================================
+// CURVE STATE
+// ============================================================================
+
+// sha256("account:BondingCurve")[0..8]
+const BONDING_CURVE_DISCRIMINATOR = [23, 183, 248, 55, 96, 216, 172, 96];
+
+/** Decoded bonding-curve account. Reserves are raw units (lamports / 1e-6 token). */
+export interface BondingCurveState {
+  virtualTokenReserves: number;
+  virtualSolReserves: number;
+  realTokenReserves: number;
+  realSolReserves: number;
+  tokenTotalSupply: number;
+  complete: boolean;
+  // Present on curves created after the creator-fee upgrade
+  creator: string | null;
+}
+
+/** What the scanner and positions carry around: state plus derived numbers. */
+export interface CurveSnapshot extends BondingCurveState {
+  address: string;
+  progress: number;  // 0-100, share of the sellable supply already bought
+  priceSol: number;  // SOL per whole token
+}
+
+export function decodeBondingCurve(data: Uint8Array): BondingCurveState | null {
+  if (data.length < 49 || !BONDING_CURVE_DISCRIMINATOR.every((b, i) => data[i] === b)) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const u64 = (offset: number) => Number(view.getBigUint64(offset, true));
+  return {
+    virtualTokenReserves: u64(8),
+    virtualSolReserves: u64(16),
+    realTokenReserves: u64(24),
+    realSolReserves: u64(32),
+    tokenTotalSupply: u64(40),
+    complete: data[48] === 1,
+    creator: data.length >= 81 ? encodeBase58(data.slice(49, 81)) : null,
+  };
+}
+
+/** Spot price in SOL per whole token. */
+export function getCurvePriceSol(state: Pick<BondingCurveState, 'virtualSolReserves' | 'virtualTokenReserves'>): number {
+  if (state.virtualTokenReserves <= 0) return 0;
+  return (state.virtualSolReserves / LAMPORTS_PER_SOL) / (state.virtualTokenReserves / TOKEN_UNIT);
+}
+
+/** Percent of the curve's sellable supply already bought; 100 once complete. */
+export function getCurveProgress(state: Pick<BondingCurveState, 'realTokenReserves' | 'complete'>): number {
+  if (state.complete) return 100;
+  const sold = 1 - state.realTokenReserves / PUMP_CURVE.INITIAL_REAL_TOKEN_RESERVES;
+  return Math.min(100, Math.max(0, sold * 100));
+}
+
+export function toCurveSnapshot(address: string, state: BondingCurveState): CurveSnapshot {
+  return { ...state, address, progress: getCurveProgress(state), priceSol: getCurvePriceSol(state) };
+}
+
+// ============================================================================
+// LOCAL QUOTES
+// ============================================================================
+
+export interface CurveQuote {
+  amountIn: number;          // SOL for buys, whole tokens for sells
+  amountOut: number;         // whole tokens for buys, SOL for sells
+  feeSol: number;
+  effectivePriceSol: number; // SOL per whole token, fee included
+  priceImpactPercent: number; // effective price vs spot, always >= 0
+}
+
+/**
+ * Tokens received for `solIn` SOL. The fee comes off the input; the buy is capped at the
+ * curve's remaining real reserves (the last buyer gets less than the formula says).
+ */
+export function quoteCurveBuy(state: BondingCurveState, solIn: number): CurveQuote | null {
+  if (state.complete || solIn <= 0 || state.virtualSolReserves <= 0) return null;
+  const lamportsIn = solIn * LAMPORTS_PER_SOL;
+  const feeLamports = lamportsIn * PUMP_CURVE.FEE_BPS / 10_000;
+  const netIn = lamportsIn - feeLamports;
+  const k = state.virtualSolReserves * state.virtualTokenReserves;
+  const rawOut = Math.min(
+    state.virtualTokenReserves - k / (state.virtualSolReserves + netIn),
+    state.realTokenReserves
+  );
+  if (rawOut <= 0) return null;
+
+  const amountOut = rawOut / TOKEN_UNIT;
+  const effectivePriceSol = solIn / amountOut;
+  const spot = getCurvePriceSol(state);
+  return {
+    amountIn: solIn,
+    amountOut,
+    feeSol: feeLamports / LAMPORTS_PER_SOL,
+    effectivePriceSol,
+    priceImpactPercent: Math.max(0, (effectivePriceSol / spot - 1) * 100),
+  };
+}
+
+/** SOL received for selling `tokensIn` whole tokens back into the curve. */
+export function quoteCurveSell(state: BondingCurveState, tokensIn: number): CurveQuote | null {
+  if (state.complete || tokensIn <= 0 || state.virtualTokenReserves <= 0) return null;
+  const rawIn = tokensIn * TOKEN_UNIT;
+  const k = state.virtualSolReserves * state.virtualTokenReserves;
+  const grossLamports = Math.min(
+    state.virtualSolReserves - k / (state.virtualTokenReserves + rawIn),
+    state.realSolReserves
+  );
+  if (grossLamports <= 0) return null;
+
+  const feeLamports = grossLamports * PUMP_CURVE.FEE_BPS / 10_000;
+  const amountOut = (grossLamports - feeLamports) / LAMPORTS_PER_SOL;
+  const effectivePriceSol = amountOut / tokensIn;
+  const spot = getCurvePriceSol(state);
+  return {
+    amountIn: tokensIn,
+    amountOut,
+    feeSol: feeLamports / LAMPORTS_PER_SOL,
+    effectivePriceSol,
+    priceImpactPercent: Math.max(0, (1 - effectivePriceSol / spot) * 100),
+  };
+}
+
+// ============================================================================
+// ADDRESS DERIVATION
+// ============================================================================
+
+// ed25519 field prime and curve constant d = -121665/121666
+const ED_P = 2n ** 255n - 19n;
+
+function modPow(base: bigint, exp: bigint, mod: bigint): bigint {
+  let result = 1n;
+  base %= mod;
+  while (exp > 0n) {
+    if (exp & 1n) result = (result * base) % mod;
+    base = (base * base) % mod;
+    exp >>= 1n;
+  }
+  return result;
+}
+
+const ED_D = ((-121665n * modPow(121666n, ED_P - 2n, ED_P)) % ED_P + ED_P) % ED_P;
+
+/** Whether 32 bytes decompress to an ed25519 point - PDAs must not. */
+export function isOnCurve(bytes: Uint8Array): boolean {
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) y = (y << 8n) | BigInt(i === 31 ? bytes[i] & 0x7f : bytes[i]);
+  y %= ED_P;
+  const y2 = (y * y) % ED_P;
+  const u = (y2 - 1n + ED_P) % ED_P;
+  const v = (ED_D * y2 + 1n) % ED_P;
+  const x2 = (u * modPow(v, ED_P - 2n, ED_P)) % ED_P;
+  // x^2 must be a square (Euler's criterion); x = 0 is a valid point
+  return x2 === 0n || modPow(x2, (ED_P - 1n) / 2n, ED_P) === 1n;
+}
+
+/** Solana findProgramAddress: first bump from 255 down whose hash is off the curve. */
+export async function findProgramAddress(seeds: Uint8Array[], programId: string): Promise<{ address: string; bump: number }> {
+  const suffix = [...decodeBase58(programId), ...new TextEncoder().encode('ProgramDerivedAddress')];
+  const prefix = seeds.flatMap((seed) => [...seed]);
+  for (let bump = 255; bump >= 0; bump--) {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array([...prefix, bump, ...suffix])));
+    if (!isOnCurve(digest)) return { address: encodeBase58(digest), bump };
+  }
+  throw new Error('No viable program address bump');
+}
+
+export async function findBondingCurveAddress(mint: string): Promise<string> {
+  const { address } = await findProgramAddress(
+    [new TextEncoder().encode('bonding-curve'), decodeBase58(mint)],
+    PUMP_FUN_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Read the mint's bonding curve. Null when the token never launched on Pump.fun (no account);
+ * a completed curve is still returned - that is how a migration is recognised.
+ */
+export async function fetchBondingCurve(rpc: RpcCall, mint: string, curveAddress?: string): Promise<CurveSnapshot | null> {
+  const address = curveAddress ?? await findBondingCurveAddress(mint);
+  const result = await rpc('getAccountInfo', [address, { encoding: 'base64', commitment: 'confirmed' }]) as
+    { value: { owner: string; data: [string, string] } | null } | null;
+  const account = result?.value;
+  if (!account || account.owner !== PUMP_FUN_PROGRAM_ID) return null;
+
+  const bin = atob(account.data[0]);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  const state = decodeBondingCurve(bytes);
+  return state ? toCurveSnapshot(address, state) : null;
+}
+
+// ============================================================================
+// ENTRY MODE
+// ============================================================================
+
+/** Curve-entry mode (stored as JSONB on user_sniper_settings.curve_entry). */
+export interface CurveEntryConfig {
+  enabled: boolean;
+  // Only buy while the curve's progress is inside this window
+  minProgress: number;
+  maxProgress: number;
+  // Reject when our own buy would move the curve price more than this
+  maxBuyImpactPercent: number;
+}
+
+// Off by default: curve tokens stay out of the pipeline until a user opts in
+export const DEFAULT_CURVE_ENTRY_CONFIG: CurveEntryConfig = {
+  enabled: false,
+  minProgress: 5,
+  maxProgress: 60,
+  maxBuyImpactPercent: 5,
+};
+
+function toNumberInRange(value: unknown, fallback: number, min: number, max: number): number {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(num) && num >= min && num <= max ? num : fallback;
+}
+
+/** Normalize a stored config; missing or out-of-range fields fall back to the defaults. */
+export function parseCurveEntryConfig(raw: unknown): CurveEntryConfig {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_CURVE_ENTRY_CONFIG };
+  const obj = raw as Record<string, unknown>;
+  const d = DEFAULT_CURVE_ENTRY_CONFIG;
+  const minProgress = toNumberInRange(obj.minProgress, d.minProgress, 0, 100);
+  const maxProgress = toNumberInRange(obj.maxProgress, d.maxProgress, 0, 100);
+  return {
+    enabled: typeof obj.enabled === 'boolean' ? obj.enabled : d.enabled,
+    ...(minProgress <= maxProgress ? { minProgress, maxProgress } : { minProgress: d.minProgress, maxProgress: d.maxProgress }),
+    maxBuyImpactPercent: toNumberInRange(obj.maxBuyImpactPercent, d.maxBuyImpactPercent, 0.1, 100),
+  };
+}
+
+/** Entry verdict for a token still on its curve, buying `buyAmountSol`. */
+export function checkCurveEntry(curve: CurveSnapshot, config: CurveEntryConfig, buyAmountSol: number): DiscoveryReason {
+  if (!config.enabled) {
+    return { code: 'CURVE_ENTRY_DISABLED', message: 'Bonding-curve entries are off', severity: 'reject' };
+  }
+  if (curve.complete) {
+    return { code: 'CURVE_WINDOW', message: 'Curve complete - waiting for migration', severity: 'reject' };
+  }
+  if (curve.progress < config.minProgress || curve.progress > config.maxProgress) {
+    return {
+      code: 'CURVE_WINDOW',
+      message: `Curve ${curve.progress.toFixed(1)}% outside ${config.minProgress}-${config.maxProgress}% window`,
+      severity: 'reject',
+    };
+  }
+  const quote = quoteCurveBuy(curve, buyAmountSol);
+  if (!quote) {
+    return { code: 'CURVE_WINDOW', message: 'Curve has no tokens left to buy', severity: 'reject' };
+  }
+  if (quote.priceImpactPercent > config.maxBuyImpactPercent) {
+    return {
+      code: 'CURVE_IMPACT',
+      message: `Buy impact ${quote.priceImpactPercent.toFixed(2)}% above ${config.maxBuyImpactPercent}%`,
+      severity: 'reject',
+    };
+  }
+  return {
+    code: 'CURVE_OK',
+    message: `Curve ${curve.progress.toFixed(1)}%, buy impact ${quote.priceImpactPercent.toFixed(2)}%`,
+    severity: 'pass',
+  };
+}
+
+// ============================================================================
+// MIGRATION / EXIT ROUTE
+// ============================================================================
+
+/** How a position is sold: into the curve, or through the AMM it migrated to. */
+export type ExitRoute = 'pump_curve' | 'pumpswap' | 'raydium' | 'jupiter';
+
+export type CurveStage = 'BONDING_CURVE' | 'MIGRATED';
+
+/** Migration venue from the swap labels of a Jupiter route (routePlan[].swapInfo.label). */
+export function venueFromRouteLabels(labels: string[]): ExitRoute {
+  if (labels.some((l) => /pump\.?fun amm|pumpswap/i.test(l))) return 'pumpswap';
+  if (labels.some((l) => /raydium/i.test(l))) return 'raydium';
+  return 'jupiter';
+}
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/** Jupiter quote lookup, e.g. fetchJupiterQuoteWithRetry from _shared/jupiter-retry.ts */
+export type RouteQuoteFetcher = (params: {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  slippageBps: number;
+}) => Promise<{ ok: true; quote: { routePlan?: { swapInfo?: { label?: string } }[] } | null } | { ok: false }>;
+
+/** AMM a migrated token trades on, from the labels of a Jupiter sell route (null = no route). */
+export async function detectMigrationVenue(
+  mint: string,
+  fetchQuote: RouteQuoteFetcher,
+  slippageBps: number
+): Promise<ExitRoute | null> {
+  const quote = await fetchQuote({ inputMint: mint, outputMint: SOL_MINT, amount: '1000000', slippageBps });
+  if (quote.ok === false) return null;
+  const labels = (quote.quote?.routePlan ?? [])
+    .map((step) => step.swapInfo?.label)
+    .filter((label): label is string => typeof label === 'string');
+  return venueFromRouteLabels(labels);
+}
+
+/**
+ * Stage and exit route for a mint given its curve (null = never on Pump.fun). A completed
+ * curve is migrated; `venue` is where the AMM route was found, when it is known yet.
+ */
+export function resolveCurveRoute(
+  curve: Pick<CurveSnapshot, 'complete'> | null,
+  venue: ExitRoute | null = null
+): { stage: CurveStage | null; exitRoute: ExitRoute } {
+  if (!curve) return { stage: null, exitRoute: 'jupiter' };
+  if (!curve.complete) return { stage: 'BONDING_CURVE', exitRoute: 'pump_curve' };
+  return { stage: 'MIGRATED', exitRoute: venue && venue !== 'pump_curve' ? venue : 'jupiter' };
+}
@@ -0,0 +1,299 @@
+/**
+ * Honeypot detection by simulated round trip - a small buy followed by a sell of exactly what
+ * the buy delivered, executed against the same simulated state via `simulateBundle`.
+ *
+ * A sell quote only proves a route exists; the round trip proves the sell executes and
+ * measures the real buy/sell tax from balance deltas:
+ *   buy tax  = 1 - tokens received / tokens quoted
+ *   sell tax = 1 - SOL returned / SOL quoted for the tokens received
+ *
+ * Swap building is injected (Jupiter in the edge functions, fakes in tests), and so is fetch:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/round-trip.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/round-trip";
+ */
+
+import { encodeBase58 } from './base58.ts';
+import { classifySimulationFailure, type SimulationFailure } from './tx-simulation.ts';
+
+export const ROUND_TRIP_CONFIG = {
+  // Small enough to be harmless, large enough that integer rounding does not read as tax
+  PROBE_AMOUNT_LAMPORTS: 10_000_000, // 0.01 SOL
+  // Base fee per signature - subtracted from the sell's lamport delta
+  SIGNATURE_FEE_LAMPORTS: 5_000,
+  REQUEST_TIMEOUT_MS: 10_000,
+} as const;
+
+export interface BuiltSwap {
+  transaction: string;  // base64 serialized, unsigned
+  expectedOut: string;  // quoted output in base units (tokens for buys, lamports for sells)
+}
+
+export type SwapBuilder = (side: 'buy' | 'sell', amount: string) => Promise<BuiltSwap>;
+
+export interface RoundTripResult {
+  // measured = both legs executed; honeypot = the sell (or a token-level buy check) reverted
+  status: 'measured' | 'honeypot' | 'unavailable';
+  buyTaxPercent: number | null;
+  sellTaxPercent: number | null;
+  tokensQuoted: string | null;
+  tokensReceived: string | null;
+  solQuoted: string | null;
+  solReturned: string | null;
+  failure: SimulationFailure | null;
+  error?: string;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+// Reverts caused by the token itself - a buy failing with these is as good as a honeypot
+const TOKEN_LEVEL_FAILURES = new Set(['frozen_account', 'transfer_hook', 'token_tax']);
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const bin = atob(base64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+export function readCompactU16(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let size = 0;
+  for (;;) {
+    const byte = bytes[offset + size];
+    value |= (byte & 0x7f) << (size * 7);
+    size++;
+    if ((byte & 0x80) === 0) return [value, size];
+  }
+}
+
+/**
+ * Writable static account keys of a serialized (legacy or v0) transaction. The wallet's own
+ * token accounts are always static keys, so one of these is the account the buy credits.
+ */
+export function getWritableAccountKeys(transactionBase64: string): string[] {
+  const bytes = base64ToBytes(transactionBase64);
+  const [signatureCount, sigLen] = readCompactU16(bytes, 0);
+  let offset = sigLen + signatureCount * 64;
+
+  if (bytes[offset] & 0x80) offset++; // versioned message prefix
+  const requiredSignatures = bytes[offset];
+  const readonlySigned = bytes[offset + 1];
+  const readonlyUnsigned = bytes[offset + 2];
+  offset += 3;
+
+  const [keyCount, keyLen] = readCompactU16(bytes, offset);
+  offset += keyLen;
+
+  const writable: string[] = [];
+  for (let i = 0; i < keyCount; i++) {
+    const isWritable = i < requiredSignatures
+      ? i < requiredSignatures - readonlySigned
+      : i < keyCount - readonlyUnsigned;
+    if (isWritable) writable.push(encodeBase58(bytes.subarray(offset + i * 32, offset + (i + 1) * 32)));
+  }
+  return writable;
+}
+
+/**
+ * SPL token account layout (Token and Token-2022 share the first 165 bytes):
+ * mint [0..32), owner [32..64), amount u64 LE [64..72)
+ */
+export function readTokenAccount(dataBase64: string): { mint: string; owner: string; amount: bigint } | null {
+  const bytes = base64ToBytes(dataBase64);
+  if (bytes.length < 165) return null;
+  let amount = 0n;
+  for (let i = 7; i >= 0; i--) amount = (amount << 8n) | BigInt(bytes[64 + i]);
+  return {
+    mint: encodeBase58(bytes.subarray(0, 32)),
+    owner: encodeBase58(bytes.subarray(32, 64)),
+    amount,
+  };
+}
+
+/**
+ * Percent of the quoted amount that did not arrive, clamped to 0-100 with 2 decimals
+ */
+export function measureTaxPercent(quoted: bigint, actual: bigint): number {
+  if (quoted <= 0n) return 0;
+  if (actual >= quoted) return 0;
+  if (actual <= 0n) return 100;
+  const missingBps = Number(((quoted - actual) * 10_000n) / quoted);
+  return Math.round(missingBps) / 100;
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+function unavailable(error: string, partial: Partial<RoundTripResult> = {}): RoundTripResult {
+  return {
+    status: 'unavailable',
+    buyTaxPercent: null,
+    sellTaxPercent: null,
+    tokensQuoted: null,
+    tokensReceived: null,
+    solQuoted: null,
+    solReturned: null,
+    failure: null,
+    error,
+    ...partial,
+  };
+}
+
+/**
+ * Run the round trip. `rpcUrl` must support `simulateBundle` (Jito-enabled RPC) and
+ * `probeWallet` must hold enough SOL for the probe buy - simulation skips signatures,
+ * not balances.
+ */
+export async function simulateRoundTrip(options: {
+  rpcUrl: string;
+  mint: string;
+  probeWallet: string;
+  buildSwap: SwapBuilder;
+  amountLamports?: number;
+  fetchImpl?: FetchLike;
+}): Promise<RoundTripResult> {
+  const { rpcUrl, mint, probeWallet, buildSwap } = options;
+  const fetchImpl = options.fetchImpl ?? ((input: string, init?: RequestInit) => fetch(input, init));
+  const amountLamports = options.amountLamports ?? ROUND_TRIP_CONFIG.PROBE_AMOUNT_LAMPORTS;
+
+  async function rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const res = await fetchImpl(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(ROUND_TRIP_CONFIG.REQUEST_TIMEOUT_MS),
+    });
+    const json = await res.json();
+    if (json?.error) throw new Error(json.error.message || `${method} failed`);
+    if (!res.ok) throw new Error(`RPC HTTP ${res.status}`);
+    return json.result as T;
+  }
+
+  try {
+    // Leg 1: simulate the buy alone to find the probe's token account and what it received
+    const buy = await buildSwap('buy', String(amountLamports));
+    const watched = getWritableAccountKeys(buy.transaction);
+    const buySim = await rpc<{
+      value: { err: unknown; logs: string[] | null; accounts: ({ data: [string, string] } | null)[] | null };
+    }>('simulateTransaction', [
+      buy.transaction,
+      {
+        encoding: 'base64',
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        accounts: { encoding: 'base64', addresses: watched },
+      },
+    ]);
+
+    if (buySim.value.err) {
+      const failure = classifySimulationFailure(buySim.value.err, buySim.value.logs || []);
+      if (TOKEN_LEVEL_FAILURES.has(failure.kind)) {
+        return { ...unavailable(failure.message, { failure }), status: 'honeypot' };
+      }
+      return unavailable(`Probe buy reverted: ${failure.message}`, { failure });
+    }
+
+    const tokenAccountIndex = (buySim.value.accounts || []).findIndex((account) => {
+      const parsed = account ? readTokenAccount(account.data[0]) : null;
+      return parsed !== null && parsed.mint === mint && parsed.owner === probeWallet;
+    });
+    if (tokenAccountIndex < 0) return unavailable('Probe token account not found in buy simulation');
+
+    const tokenAccount = watched[tokenAccountIndex];
+    const postBuy = readTokenAccount(buySim.value.accounts![tokenAccountIndex]!.data[0])!.amount;
+    const existing = await rpc<{ value: { data: [string, string] } | null }>('getAccountInfo', [
+      tokenAccount,
+      { encoding: 'base64' },
+    ]);
+    const preBuy = existing.value ? readTokenAccount(existing.value.data[0])?.amount ?? 0n : 0n;
+    const received = postBuy - preBuy;
+
+    const tokensQuoted = BigInt(buy.expectedOut);
+    const buyTaxPercent = measureTaxPercent(tokensQuoted, received);
+    if (received <= 0n) {
+      return unavailable('Probe buy delivered no tokens', {
+        buyTaxPercent,
+        tokensQuoted: tokensQuoted.toString(),
+        tokensReceived: '0',
+      });
+    }
+
+    // Leg 2: sell exactly what arrived, on top of the buy's state
+    const sell = await buildSwap('sell', received.toString());
+    const probeConfig = { addresses: [probeWallet], encoding: 'base64' };
+    const bundle = await rpc<{
+      value: {
+        summary: 'succeeded' | { failed: { error: unknown; tx_signature: string | null } };
+        transactionResults: {
+          err: unknown;
+          logs: string[] | null;
+          preExecutionAccounts: { lamports: number }[] | null;
+          postExecutionAccounts: { lamports: number }[] | null;
+        }[];
+      };
+    }>('simulateBundle', [
+      { encodedTransactions: [buy.transaction, sell.transaction] },
+      {
+        skipSigVerify: true,
+        replaceRecentBlockhash: true,
+        preExecutionAccountsConfigs: [null, probeConfig],
+        postExecutionAccountsConfigs: [null, probeConfig],
+      },
+    ]);
+
+    const base = {
+      buyTaxPercent,
+      tokensQuoted: tokensQuoted.toString(),
+      tokensReceived: received.toString(),
+      solQuoted: sell.expectedOut,
+    };
+
+    const [buyResult, sellResult] = bundle.value.transactionResults;
+    if (!buyResult || buyResult.err || !sellResult) {
+      // The buy leg reverted inside the bundle - nothing was sold, so nothing says honeypot
+      const error = buyResult?.err ?? (typeof bundle.value.summary === 'object' ? bundle.value.summary.failed.error : null);
+      return unavailable('Probe buy failed inside the bundle', {
+        ...base,
+        failure: classifySimulationFailure(error, buyResult?.logs || []),
+      });
+    }
+    if (bundle.value.summary !== 'succeeded' || sellResult.err) {
+      const error = sellResult.err ?? (typeof bundle.value.summary === 'object' ? bundle.value.summary.failed.error : null);
+      const failure = classifySimulationFailure(error, sellResult.logs || []);
+      // Only a token-level revert means the token cannot be sold; slippage, compute or
+      // blockhash errors say nothing about the token
+      if (!TOKEN_LEVEL_FAILURES.has(failure.kind)) {
+        return unavailable(`Probe sell reverted: ${failure.message}`, { ...base, failure });
+      }
+      return {
+        status: 'honeypot',
+        sellTaxPercent: 100,
+        solReturned: '0',
+        failure,
+        ...base,
+      };
+    }
+
+    const before = sellResult.preExecutionAccounts?.[0]?.lamports;
+    const after = sellResult.postExecutionAccounts?.[0]?.lamports;
+    if (typeof before !== 'number' || typeof after !== 'number') {
+      return unavailable('simulateBundle returned no probe balances', base);
+    }
+
+    const solReturned = BigInt(after - before + ROUND_TRIP_CONFIG.SIGNATURE_FEE_LAMPORTS);
+    return {
+      status: 'measured',
+      sellTaxPercent: measureTaxPercent(BigInt(sell.expectedOut), solReturned),
+      solReturned: solReturned.toString(),
+      failure: null,
+      ...base,
+    };
+  } catch (error) {
+    return unavailable(error instanceof Error ? error.message : 'Round-trip simulation failed');
+  }
+}
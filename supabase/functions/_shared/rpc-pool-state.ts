@@ -0,0 +1,101 @@
+// RPC pool for edge functions: builds the pool (rpc-pool.ts) from admin_settings.rpc_endpoints
+// plus the HELIUS_RPC_URL / SOLANA_RPC_URL env vars, and writes every request's outcome to
+// api_health_metrics. The pool is kept per isolate so endpoint health carries over between
+// requests. Used by auto-exit, bot-runner, confirm-transaction, copy-trade-worker,
+// creator-reputation, solana-balance, token-metadata, trade-execution and wallet-tokens.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildRpcEndpoints,
+  createRpcPool,
+  parseRpcEndpointSettings,
+  type RpcMetric,
+  type RpcPool,
+} from "./rpc-pool.ts";
+
+// Admin changes to the endpoint list are picked up within this long
+const SETTINGS_TTL_MS = 60_000;
+const METRICS_FLUSH_MS = 2_000;
+const METRICS_MAX_BATCH = 50;
+
+let cached: { pool: RpcPool; endpointsKey: string; loadedAt: number } | null = null;
+let loading: Promise<RpcPool> | null = null;
+const metricsBuffer: RpcMetric[] = [];
+let scheduledFlush: Promise<void> | null = null;
+
+// Supabase's edge runtime keeps the isolate alive until promises passed to waitUntil settle
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+function keepAlive(promise: Promise<void>): void {
+  if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(promise);
+}
+
+// admin_settings is admin-only under RLS - always read it with the service role
+const getServiceClient = () =>
+  createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+async function flushMetrics(): Promise<void> {
+  const batch = metricsBuffer.splice(0, metricsBuffer.length);
+  if (batch.length === 0) return;
+  const { error } = await getServiceClient()
+    .from("api_health_metrics")
+    .insert(batch.map((m) => ({
+      api_type: "rpc_provider",
+      endpoint: `${m.endpoint} ${m.method}`,
+      response_time_ms: m.latencyMs,
+      status_code: m.statusCode,
+      is_success: m.success,
+      error_message: m.error,
+    })));
+  if (error) console.error("[RpcPool] Failed to record metrics:", error.message);
+}
+
+// Metrics are batched for up to METRICS_FLUSH_MS; the flush is registered with waitUntil so
+// the isolate is not torn down with the buffer still full once the response has been sent.
+function recordMetric(metric: RpcMetric): void {
+  metricsBuffer.push(metric);
+  if (metricsBuffer.length >= METRICS_MAX_BATCH) {
+    keepAlive(flushMetrics());
+  } else if (!scheduledFlush) {
+    scheduledFlush = new Promise<void>((resolve) => setTimeout(resolve, METRICS_FLUSH_MS))
+      .then(flushMetrics)
+      .finally(() => {
+        scheduledFlush = null;
+      });
+    keepAlive(scheduledFlush);
+  }
+}
+
+async function loadPool(): Promise<RpcPool> {
+  const { data } = await getServiceClient()
+    .from("admin_settings")
+    .select("setting_value")
+    .eq("setting_key", "rpc_endpoints")
+    .maybeSingle();
+
+  const endpoints = buildRpcEndpoints(parseRpcEndpointSettings(data?.setting_value), [
+    Deno.env.get("HELIUS_RPC_URL"),
+    Deno.env.get("SOLANA_RPC_URL"),
+  ]);
+  const endpointsKey = endpoints.map((e) => e.url).join("|");
+
+  // Same endpoints as before: keep the pool and the health it has learned
+  if (cached && cached.endpointsKey === endpointsKey) {
+    cached.loadedAt = Date.now();
+    return cached.pool;
+  }
+
+  const pool = createRpcPool(endpoints, { onMetric: recordMetric });
+  cached = { pool, endpointsKey, loadedAt: Date.now() };
+  console.log(`[RpcPool] Loaded ${endpoints.length} endpoint(s): ${endpoints.map((e) => e.name).join(", ")}`);
+  return pool;
+}
+
+/** The RPC pool for this isolate, reloading the endpoint list when it is older than SETTINGS_TTL_MS */
+export async function getRpcPool(): Promise<RpcPool> {
+  if (cached && Date.now() - cached.loadedAt < SETTINGS_TTL_MS) return cached.pool;
+  loading ??= loadPool().finally(() => {
+    loading = null;
+  });
+  return loading;
+}
@@ -0,0 +1,346 @@
+/**
+ * RPC endpoint pool - health-scored routing and failover across the configured Solana RPCs
+ *
+ * Each endpoint keeps a running latency, error rate and last seen slot. Reads go to the
+ * endpoint with the best score and move on to the next one on a 429, a 5xx or a network
+ * error; the failing endpoint sits out a short cooldown. Sends are broadcast to the best few
+ * endpoints at once and succeed when any of them accepts the transaction.
+ *
+ * Pure apart from the injected fetch and clock, so the routing runs in vitest against mock
+ * endpoints (persistence lives in rpc-pool-state.ts):
+ * - Edge Functions (Deno):  import { ... } from "../_shared/rpc-pool.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/rpc-pool";
+ */
+
+import type { RpcCall } from './holder-clusters.ts';
+
+export const RPC_POOL_CONFIG = {
+  PUBLIC_RPC_URL: 'https://api.mainnet-beta.solana.com',
+  REQUEST_TIMEOUT_MS: 10_000,
+  // Latency assumed for an endpoint that has not answered yet (keeps configured order on ties)
+  DEFAULT_LATENCY_MS: 400,
+  // Weight of the newest sample in the running latency / error rate
+  LATENCY_SMOOTHING: 0.3,
+  ERROR_SMOOTHING: 0.2,
+  // A 100% error rate costs as much as this much latency
+  ERROR_PENALTY_MS: 5_000,
+  // Each slot behind the freshest endpoint costs this much latency (~1 slot = 400ms stale)
+  SLOT_LAG_PENALTY_MS: 400,
+  // Skip an endpoint for this long after a 429 / 5xx / network error
+  COOLDOWN_MS: 30_000,
+  MAX_ATTEMPTS: 3,
+  // Re-read every endpoint's slot when the freshest reading is older than this
+  SLOT_REFRESH_MS: 15_000,
+  BROADCAST_FANOUT: 3,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Shape saved by RpcSettingsPanel into admin_settings.rpc_endpoints */
+export interface RpcEndpointSettings {
+  primary: string | null;
+  helius: string | null;
+  quicknode: string | null;
+  useHelius: boolean;
+}
+
+export interface RpcEndpoint {
+  name: string;
+  url: string;
+}
+
+export interface EndpointHealth {
+  latencyMs: number | null;
+  errorRate: number;
+  slot: number | null;
+  cooldownUntil: number;
+}
+
+export interface EndpointScore extends RpcEndpoint, EndpointHealth {
+  score: number;
+  slotLag: number;
+}
+
+/** One request to one endpoint - what gets written to api_health_metrics */
+export interface RpcMetric {
+  endpoint: string;
+  method: string;
+  latencyMs: number;
+  success: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+export interface BroadcastResult {
+  signature: string;
+  accepted: string[];
+  rejected: Record<string, string>;
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface RpcPoolOptions {
+  fetchImpl?: FetchLike;
+  now?: () => number;
+  onMetric?: (metric: RpcMetric) => void;
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+const isHttpUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\/\S+$/.test(value.trim());
+
+export function parseRpcEndpointSettings(raw: unknown): RpcEndpointSettings {
+  const obj = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    primary: isHttpUrl(obj.primary) ? obj.primary.trim() : null,
+    helius: isHttpUrl(obj.helius) ? obj.helius.trim() : null,
+    quicknode: isHttpUrl(obj.quicknode) ? obj.quicknode.trim() : null,
+    useHelius: obj.useHelius === true,
+  };
+}
+
+/**
+ * Endpoints in preference order: Helius first when the admin switched it on, then the
+ * primary, QuickNode and any env URLs; the public mainnet RPC only when nothing else is set.
+ * Duplicate URLs are dropped.
+ */
+export function buildRpcEndpoints(settings: RpcEndpointSettings, envUrls: (string | null | undefined)[] = []): RpcEndpoint[] {
+  const candidates: [string, string | null | undefined][] = [
+    ...(settings.useHelius ? [['helius', settings.helius] as [string, string | null]] : []),
+    ['primary', settings.primary],
+    ['quicknode', settings.quicknode],
+    ...(settings.useHelius ? [] : [['helius', settings.helius] as [string, string | null]]),
+    ...envUrls.map((url, i) => [`env${i + 1}`, url] as [string, string | null | undefined]),
+  ];
+
+  const endpoints: RpcEndpoint[] = [];
+  const seen = new Set<string>();
+  for (const [name, url] of candidates) {
+    if (!isHttpUrl(url)) continue;
+    const normalized = url.trim().replace(/\/+$/, '');
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+    endpoints.push({ name, url: url.trim() });
+  }
+  if (endpoints.length === 0) endpoints.push({ name: 'public', url: RPC_POOL_CONFIG.PUBLIC_RPC_URL });
+  return endpoints;
+}
+
+/** Endpoint label for logs and metrics - host only, provider URLs carry API keys */
+export function endpointLabel(endpoint: RpcEndpoint): string {
+  try {
+    return `${endpoint.name} (${new URL(endpoint.url).host})`;
+  } catch {
+    return endpoint.name;
+  }
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/** Lower is better: running latency plus penalties for errors and for lagging behind the freshest slot. */
+export function scoreEndpoint(health: EndpointHealth, bestSlot: number | null): { score: number; slotLag: number } {
+  const slotLag = bestSlot !== null && health.slot !== null ? Math.max(0, bestSlot - health.slot) : 0;
+  const score =
+    (health.latencyMs ?? RPC_POOL_CONFIG.DEFAULT_LATENCY_MS) +
+    health.errorRate * RPC_POOL_CONFIG.ERROR_PENALTY_MS +
+    slotLag * RPC_POOL_CONFIG.SLOT_LAG_PENALTY_MS;
+  return { score, slotLag };
+}
+
+const smooth = (previous: number | null, sample: number, weight: number) =>
+  previous === null ? sample : previous + (sample - previous) * weight;
+
+// 429, 5xx and transport failures mean "try another endpoint"; anything else is the request's fault
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+class EndpointUnavailableError extends Error {
+  statusCode: number | null;
+
+  constructor(statusCode: number | null, message: string) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+// ============================================================================
+// POOL
+// ============================================================================
+
+export function createRpcPool(endpoints: RpcEndpoint[], options: RpcPoolOptions = {}) {
+  if (endpoints.length === 0) throw new Error('RPC pool needs at least one endpoint');
+  const fetchImpl = options.fetchImpl ?? ((input: string, init?: RequestInit) => fetch(input, init));
+  const now = options.now ?? Date.now;
+
+  const health = new Map<string, EndpointHealth>(
+    endpoints.map((e) => [e.url, { latencyMs: null, errorRate: 0, slot: null, cooldownUntil: 0 }])
+  );
+  let slotsReadAt = 0;
+  let slotRefresh: Promise<void> | null = null;
+
+  const bestSlot = () => {
+    let best: number | null = null;
+    for (const h of health.values()) if (h.slot !== null && (best === null || h.slot > best)) best = h.slot;
+    return best;
+  };
+
+  /** Endpoints best first; those cooling down go last, still ordered by score */
+  const ranked = (): EndpointScore[] => {
+    const best = bestSlot();
+    const at = now();
+    return endpoints
+      .map((e) => ({ ...e, ...health.get(e.url)!, ...scoreEndpoint(health.get(e.url)!, best) }))
+      .sort((a, b) => Number(a.cooldownUntil > at) - Number(b.cooldownUntil > at) || a.score - b.score);
+  };
+
+  const record = (endpoint: RpcEndpoint, method: string, startedAt: number, success: boolean, statusCode: number | null, error: string | null, cooldown: boolean) => {
+    const h = health.get(endpoint.url)!;
+    const latencyMs = now() - startedAt;
+    if (success) h.latencyMs = smooth(h.latencyMs, latencyMs, RPC_POOL_CONFIG.LATENCY_SMOOTHING);
+    h.errorRate = smooth(h.errorRate, success ? 0 : 1, RPC_POOL_CONFIG.ERROR_SMOOTHING);
+    if (cooldown) h.cooldownUntil = now() + RPC_POOL_CONFIG.COOLDOWN_MS;
+    options.onMetric?.({ endpoint: endpointLabel(endpoint), method, latencyMs, success, statusCode, error });
+  };
+
+  /** One JSON-RPC POST to one endpoint; throws EndpointUnavailableError when another endpoint should be tried */
+  async function post(endpoint: RpcEndpoint, method: string, body: string): Promise<unknown> {
+    const startedAt = now();
+    let res: Response;
+    try {
+      res = await fetchImpl(endpoint.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(RPC_POOL_CONFIG.REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      record(endpoint, method, startedAt, false, null, message, true);
+      throw new EndpointUnavailableError(null, `RPC ${method} failed on ${endpoint.name}: ${message}`);
+    }
+
+    if (!res.ok) {
+      const retryable = isRetryableStatus(res.status);
+      record(endpoint, method, startedAt, false, res.status, `HTTP ${res.status}`, retryable);
+      if (retryable) throw new EndpointUnavailableError(res.status, `RPC ${method} failed on ${endpoint.name}: ${res.status}`);
+      throw new Error(`RPC ${method} failed: ${res.status}`);
+    }
+
+    const data = await res.json();
+    // JSON-RPC errors are answers (bad params, unknown account) - the endpoint itself is fine
+    record(endpoint, method, startedAt, true, res.status, data?.error?.message ?? null, false);
+    if (data?.error) throw new Error(`RPC ${method}: ${data.error.message ?? 'error'}`);
+    if (method === 'getSlot' && typeof data?.result === 'number') health.get(endpoint.url)!.slot = data.result;
+    return data?.result;
+  }
+
+  function refreshSlots(): Promise<void> {
+    slotsReadAt = now();
+    slotRefresh ??= Promise.all(
+      endpoints.map((e) => post(e, 'getSlot', JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getSlot', params: [] })).catch(() => null))
+    ).then(() => {
+      slotRefresh = null;
+    });
+    return slotRefresh;
+  }
+
+  const maybeRefreshSlots = () => {
+    if (endpoints.length > 1 && now() - slotsReadAt > RPC_POOL_CONFIG.SLOT_REFRESH_MS) void refreshSlots();
+  };
+
+  /** Read through the healthiest endpoint, failing over on 429 / 5xx / network errors */
+  const call: RpcCall = async (method, params) => {
+    maybeRefreshSlots();
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method, params });
+    let lastError: unknown = null;
+    for (const endpoint of ranked().slice(0, RPC_POOL_CONFIG.MAX_ATTEMPTS)) {
+      try {
+        return await post(endpoint, method, body);
+      } catch (error) {
+        if (!(error instanceof EndpointUnavailableError)) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error(`RPC ${method} failed on every endpoint`);
+  };
+
+  /**
+   * fetch() stand-in for helpers that take a URL and a fetch implementation (tx-simulation):
+   * the URL is ignored and the JSON-RPC body goes through `call`.
+   */
+  const fetchThroughPool: FetchLike = async (_input, init) => {
+    const request = JSON.parse(String(init?.body ?? '{}')) as { id?: unknown; method: string; params?: unknown[] };
+    try {
+      const result = await call(request.method, request.params ?? []);
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id: request.id ?? 1, result }), { status: 200 });
+    } catch (error) {
+      if (error instanceof EndpointUnavailableError) return new Response(error.message, { status: error.statusCode ?? 503 });
+      const message = error instanceof Error ? error.message : String(error);
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id: request.id ?? 1, error: { code: -32000, message } }), { status: 200 });
+    }
+  };
+
+  /**
+   * Send a signed transaction to the best few endpoints at once; resolves with the first
+   * accepted signature without waiting for the slower sends. `accepted`/`rejected` cover the
+   * endpoints that had answered by then. Fails only once every endpoint has rejected it.
+   */
+  function broadcast(signedBase64: string, sendOptions: Record<string, unknown> = {}): Promise<BroadcastResult> {
+    maybeRefreshSlots();
+    const body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'sendTransaction',
+      params: [signedBase64, { encoding: 'base64', ...sendOptions }],
+    });
+    const targets = ranked().slice(0, RPC_POOL_CONFIG.BROADCAST_FANOUT);
+    const accepted: string[] = [];
+    const rejected: Record<string, string> = {};
+
+    return new Promise<BroadcastResult>((resolve, reject) => {
+      let pending = targets.length;
+      const settle = () => {
+        if (--pending > 0) return;
+        // Every send failed - report all of their errors (a no-op if one already resolved)
+        const reasons = Object.entries(rejected).map(([name, error]) => `${name}: ${error}`);
+        reject(new Error(`sendTransaction failed on every endpoint${reasons.length ? ` (${reasons.join('; ')})` : ''}`));
+      };
+
+      if (targets.length === 0) {
+        reject(new Error('sendTransaction failed on every endpoint'));
+        return;
+      }
+
+      for (const endpoint of targets) {
+        post(endpoint, 'sendTransaction', body)
+          .then((result) => {
+            if (typeof result !== 'string') throw new Error('No signature returned');
+            accepted.push(endpoint.name);
+            resolve({ signature: result, accepted: [...accepted], rejected: { ...rejected } });
+          })
+          .catch((error) => {
+            rejected[endpoint.name] = error instanceof Error ? error.message : String(error);
+          })
+          .finally(settle);
+      }
+    });
+  }
+
+  return {
+    call,
+    fetch: fetchThroughPool,
+    broadcast,
+    refreshSlots,
+    scores: ranked,
+    /** Endpoint the next read goes to - for logging */
+    current: (): RpcEndpoint => ranked()[0],
+  };
+}
+
+export type RpcPool = ReturnType<typeof createRpcPool>;
@@ -0,0 +1,725 @@
+/**
+ * Entry rule expressions - a small, safe filter language for custom snipe rules
+ *
+ * Shared like snipe-rules.ts:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/rule-dsl.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/rule-dsl";
+ *
+ * Example:
+ *   liquidity > 50 && buyerPosition <= 4 && !name.matches(/inu/i) && holders >= 30
+ *
+ * Expressions are tokenized, parsed and type-checked against RULE_FIELDS; nothing is
+ * ever handed to eval/Function. Missing token data evaluates to "unknown" (three-valued
+ * logic) and an unknown verdict never approves a buy.
+ */
+
+import type { DiscoveryReason } from './snipe-rules.ts';
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+export type RuleValueType = 'number' | 'string' | 'boolean' | 'list';
+
+export const RULE_FIELDS = {
+  liquidity:       { type: 'number',  description: 'Pool liquidity in SOL' },
+  buyerPosition:   { type: 'number',  description: 'Our buyer position (1 = first buyer)' },
+  riskScore:       { type: 'number',  description: 'Risk score, 0 (safe) to 100' },
+  holders:         { type: 'number',  description: 'Holder count' },
+  marketCap:       { type: 'number',  description: 'Market cap in USD' },
+  volume24h:       { type: 'number',  description: '24h volume in USD' },
+  priceUsd:        { type: 'number',  description: 'Token price in USD' },
+  ageMinutes:      { type: 'number',  description: 'Minutes since the pool was created' },
+  lockPercentage:  { type: 'number',  description: 'Percent of LP locked' },
+  liquidityLocked: { type: 'boolean', description: 'LP is locked' },
+  name:            { type: 'string',  description: 'Token name' },
+  symbol:          { type: 'string',  description: 'Token symbol' },
+  address:         { type: 'string',  description: 'Mint address' },
+  categories:      { type: 'list',    description: 'Category tags (includes() ignores case)' },
+} as const satisfies Record<string, { type: RuleValueType; description: string }>;
+
+export type RuleFieldName = keyof typeof RULE_FIELDS;
+
+export type RuleFieldValue = number | string | boolean | string[] | null;
+export type RuleContext = Partial<Record<RuleFieldName, RuleFieldValue>>;
+
+// Methods callable on string (and list) fields, e.g. name.matches(/inu/i)
+const RULE_METHODS = {
+  matches:    { targets: ['string'], arg: 'regex' },
+  includes:   { targets: ['string', 'list'], arg: 'string' },
+  startsWith: { targets: ['string'], arg: 'string' },
+  endsWith:   { targets: ['string'], arg: 'string' },
+} as const;
+
+type RuleMethodName = keyof typeof RULE_METHODS;
+
+// Names people reach for from other languages
+const METHOD_ALIASES: Record<string, RuleMethodName> = { contains: 'includes', test: 'matches', match: 'matches', like: 'matches' };
+
+export const MAX_RULE_LENGTH = 500;
+export const MAX_ENTRY_RULES = 10;
+
+// Fields the auto-sniper receives for a scanned token
+export interface RuleTokenInput {
+  address: string;
+  name: string;
+  symbol: string;
+  liquidity: number;
+  liquidityLocked?: boolean | null;
+  lockPercentage?: number | null;
+  buyerPosition?: number | null;
+  riskScore?: number | null;
+  categories?: string[];
+  holders?: number | null;
+  marketCap?: number | null;
+  volume24h?: number | null;
+  priceUsd?: number | null;
+  createdAt?: string | null;
+}
+
+export function buildRuleContext(token: RuleTokenInput, now: number = Date.now()): RuleContext {
+  const created = token.createdAt ? new Date(token.createdAt).getTime() : NaN;
+  return {
+    liquidity: token.liquidity,
+    buyerPosition: token.buyerPosition ?? null,
+    riskScore: token.riskScore ?? null,
+    holders: token.holders ?? null,
+    marketCap: token.marketCap ?? null,
+    volume24h: token.volume24h ?? null,
+    priceUsd: token.priceUsd ?? null,
+    ageMinutes: Number.isFinite(created) ? Math.max(0, (now - created) / 60000) : null,
+    lockPercentage: token.lockPercentage ?? null,
+    liquidityLocked: token.liquidityLocked ?? null,
+    name: token.name,
+    symbol: token.symbol,
+    address: token.address,
+    categories: token.categories ?? [],
+  };
+}
+
+// ============================================================================
+// AST
+// ============================================================================
+
+type BinaryOp = '&&' | '||' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+
+interface NodeSpan {
+  start: number;
+  end: number;
+}
+
+export type RuleNode =
+  | (NodeSpan & { kind: 'literal'; value: number | string | boolean | null })
+  | (NodeSpan & { kind: 'regex'; value: RegExp })
+  | (NodeSpan & { kind: 'field'; name: RuleFieldName })
+  | (NodeSpan & { kind: 'unary'; op: '!' | '-'; operand: RuleNode })
+  | (NodeSpan & { kind: 'binary'; op: BinaryOp; left: RuleNode; right: RuleNode })
+  | (NodeSpan & { kind: 'call'; method: RuleMethodName; target: RuleNode; args: RuleNode[] });
+
+export interface RuleParseError {
+  message: string;
+  position: number;   // 0-based offset into the expression
+  length: number;
+}
+
+export type RuleParseResult =
+  | { ok: true; ast: RuleNode; fields: RuleFieldName[] }
+  | { ok: false; error: RuleParseError };
+
+class RuleSyntaxError extends Error {
+  constructor(message: string, public position: number, public length: number = 1) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+interface LexToken {
+  kind: 'number' | 'string' | 'regex' | 'ident' | 'op' | 'eof';
+  text: string;
+  start: number;
+  end: number;
+  value?: number | string | RegExp;
+}
+
+// Longest first so "<=" wins over "<"
+const OPERATORS = ['===', '!==', '&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', ',', '.'];
+const ALLOWED_REGEX_FLAGS = new Set(['i', 'm', 's', 'u']);
+
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+function tokenize(source: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  // A "/" starts a regex unless it follows something that produces a value
+  const regexAllowed = () => {
+    const prev = tokens[tokens.length - 1];
+    return !prev || (prev.kind === 'op' && prev.text !== ')');
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: 'number', text: match[0], start: i, end: i + match[0].length, value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let value = '';
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) throw new RuleSyntaxError('Unterminated string', i, source.length - i);
+      tokens.push({ kind: 'string', text: source.slice(i, j + 1), start: i, end: j + 1, value });
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === '/' && regexAllowed()) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < source.length && (inClass || source[j] !== '/')) {
+        if (source[j] === '\\') j++;
+        else if (source[j] === '[') inClass = true;
+        else if (source[j] === ']') inClass = false;
+        j++;
+      }
+      if (j >= source.length) throw new RuleSyntaxError('Unterminated regular expression', i, source.length - i);
+      const pattern = source.slice(i + 1, j);
+      let k = j + 1;
+      while (k < source.length && /[a-z]/i.test(source[k])) {
+        if (!ALLOWED_REGEX_FLAGS.has(source[k])) {
+          throw new RuleSyntaxError(`Unsupported regex flag '${source[k]}' (allowed: i, m, s, u)`, k);
+        }
+        k++;
+      }
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, source.slice(j + 1, k));
+      } catch (error) {
+        throw new RuleSyntaxError(`Invalid regular expression: ${(error as Error).message}`, i, k - i);
+      }
+      tokens.push({ kind: 'regex', text: source.slice(i, k), start: i, end: k, value: regex });
+      i = k;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'ident', text: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: 'op', text: op, start: i, end: i + op.length });
+      i += op.length;
+      continue;
+    }
+
+    if (ch === '=') throw new RuleSyntaxError("Unexpected '=' - use '==' to compare", i);
+    if (ch === '&') throw new RuleSyntaxError("Unexpected '&' - use '&&' for AND", i);
+    if (ch === '|') throw new RuleSyntaxError("Unexpected '|' - use '||' for OR", i);
+    throw new RuleSyntaxError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ kind: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+function levenshtein(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j];
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return dp[b.length];
+}
+
+function suggest(word: string, candidates: readonly string[]): string {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshtein(word.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(2, Math.floor(word.length / 3)) ? ` - did you mean '${best}'?` : '';
+}
+
+function describeToken(token: LexToken): string {
+  return token.kind === 'eof' ? 'end of expression' : `'${token.text}'`;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: LexToken[]) {}
+
+  parse(): RuleNode {
+    const node = this.parseBinary(1);
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      const word = next.kind === 'ident' ? WORD_OPERATORS[next.text.toLowerCase()] : undefined;
+      throw new RuleSyntaxError(
+        word ? `Use '${word}' instead of '${next.text}'` : `Unexpected ${describeToken(next)} after end of expression`,
+        next.start,
+        next.end - next.start
+      );
+    }
+    return node;
+  }
+
+  private peek(): LexToken {
+    return this.tokens[this.index];
+  }
+
+  private next(): LexToken {
+    return this.tokens[this.index++];
+  }
+
+  private expectOp(text: string, context: string): LexToken {
+    const token = this.next();
+    if (token.kind !== 'op' || token.text !== text) {
+      throw new RuleSyntaxError(`Expected '${text}' ${context} but found ${describeToken(token)}`, token.start, Math.max(1, token.end - token.start));
+    }
+    return token;
+  }
+
+  private parseBinary(minPrecedence: number): RuleNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.kind === 'op' ? BINARY_PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      // === and !== behave exactly like == and != here
+      const op = (token.text.length === 3 ? token.text.slice(0, 2) : token.text) as BinaryOp;
+      left = { kind: 'binary', op, left, right, start: left.start, end: right.end };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): RuleNode {
+    const token = this.peek();
+    if (token.kind === 'op' && (token.text === '!' || token.text === '-')) {
+      this.next();
+      const operand = this.parseUnary();
+      return { kind: 'unary', op: token.text, operand, start: token.start, end: operand.end };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(target: RuleNode): RuleNode {
+    let node = target;
+
+    while (this.peek().kind === 'op' && this.peek().text === '.') {
+      this.next();
+      const methodToken = this.next();
+      if (methodToken.kind !== 'ident') {
+        throw new RuleSyntaxError(`Expected a method name after '.' but found ${describeToken(methodToken)}`, methodToken.start);
+      }
+      if (!(methodToken.text in RULE_METHODS)) {
+        const alias = METHOD_ALIASES[methodToken.text];
+        throw new RuleSyntaxError(
+          `Unknown method '${methodToken.text}'${alias ? ` - did you mean '${alias}'?` : suggest(methodToken.text, Object.keys(RULE_METHODS))}`,
+          methodToken.start,
+          methodToken.end - methodToken.start
+        );
+      }
+
+      this.expectOp('(', `after '${methodToken.text}'`);
+      const args: RuleNode[] = [];
+      if (!(this.peek().kind === 'op' && this.peek().text === ')')) {
+        args.push(this.parseBinary(1));
+        while (this.peek().kind === 'op' && this.peek().text === ',') {
+          this.next();
+          args.push(this.parseBinary(1));
+        }
+      }
+      const close = this.expectOp(')', `to close '${methodToken.text}('`);
+
+      node = { kind: 'call', method: methodToken.text as RuleMethodName, target: node, args, start: node.start, end: close.end };
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): RuleNode {
+    const token = this.next();
+    const span = { start: token.start, end: token.end };
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value as number | string, ...span };
+      case 'regex':
+        return { kind: 'regex', value: token.value as RegExp, ...span };
+      case 'ident': {
+        if (token.text === 'true' || token.text === 'false') return { kind: 'literal', value: token.text === 'true', ...span };
+        if (token.text === 'null') return { kind: 'literal', value: null, ...span };
+        if (!(token.text in RULE_FIELDS)) {
+          throw new RuleSyntaxError(
+            `Unknown field '${token.text}'${suggest(token.text, Object.keys(RULE_FIELDS))}`,
+            token.start,
+            token.end - token.start
+          );
+        }
+        return { kind: 'field', name: token.text as RuleFieldName, ...span };
+      }
+      case 'op':
+        if (token.text === '(') {
+          const inner = this.parseBinary(1);
+          const close = this.expectOp(')', 'to close the group');
+          return { ...inner, start: token.start, end: close.end };
+        }
+        break;
+    }
+
+    throw new RuleSyntaxError(`Unexpected ${describeToken(token)}`, token.start, Math.max(1, token.end - token.start));
+  }
+}
+
+// ============================================================================
+// TYPE CHECKING
+// ============================================================================
+
+type CheckedType = RuleValueType | 'regex' | 'null';
+
+const TYPE_LABELS: Record<CheckedType, string> = {
+  number: 'a number',
+  string: 'text',
+  boolean: 'true/false',
+  list: 'a list',
+  regex: 'a regex',
+  null: 'null',
+};
+
+function typeError(source: string, node: RuleNode, expected: string, actual: CheckedType): RuleSyntaxError {
+  return new RuleSyntaxError(
+    `Expected ${expected}, but '${source.slice(node.start, node.end)}' is ${TYPE_LABELS[actual]}`,
+    node.start,
+    node.end - node.start
+  );
+}
+
+function checkTypes(node: RuleNode, source: string): CheckedType {
+  const expect = (child: RuleNode, expected: RuleValueType): void => {
+    const actual = checkTypes(child, source);
+    if (actual !== expected) throw typeError(source, child, TYPE_LABELS[expected], actual);
+  };
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value === null ? 'null' : (typeof node.value as RuleValueType);
+    case 'regex':
+      return 'regex';
+    case 'field':
+      return RULE_FIELDS[node.name].type;
+    case 'unary':
+      expect(node.operand, node.op === '!' ? 'boolean' : 'number');
+      return node.op === '!' ? 'boolean' : 'number';
+    case 'binary': {
+      if (node.op === '&&' || node.op === '||') {
+        expect(node.left, 'boolean');
+        expect(node.right, 'boolean');
+        return 'boolean';
+      }
+      if (node.op === '==' || node.op === '!=') {
+        const left = checkTypes(node.left, source);
+        const right = checkTypes(node.right, source);
+        if (left === 'regex' || right === 'regex') {
+          throw typeError(source, left === 'regex' ? node.left : node.right, 'a value to compare', 'regex');
+        }
+        if (left !== 'null' && right !== 'null' && left !== right) {
+          throw typeError(source, node.right, TYPE_LABELS[left], right);
+        }
+        return 'boolean';
+      }
+      expect(node.left, 'number');
+      expect(node.right, 'number');
+      return ['<', '<=', '>', '>='].includes(node.op) ? 'boolean' : 'number';
+    }
+    case 'call': {
+      const signature = RULE_METHODS[node.method];
+      const target = checkTypes(node.target, source);
+      if (!(signature.targets as readonly string[]).includes(target)) {
+        throw typeError(source, node.target, `${signature.targets.map(t => TYPE_LABELS[t]).join(' or ')} before .${node.method}()`, target);
+      }
+      if (node.args.length !== 1) {
+        throw new RuleSyntaxError(`${node.method}() takes exactly one argument`, node.start, node.end - node.start);
+      }
+      const arg = checkTypes(node.args[0], source);
+      if (arg !== signature.arg) {
+        const expected = signature.arg === 'regex' ? 'a regex like /inu/i' : TYPE_LABELS[signature.arg];
+        throw typeError(source, node.args[0], expected, arg);
+      }
+      return 'boolean';
+    }
+  }
+}
+
+function collectFields(node: RuleNode, into: Set<RuleFieldName>): Set<RuleFieldName> {
+  switch (node.kind) {
+    case 'field':
+      into.add(node.name);
+      break;
+    case 'unary':
+      collectFields(node.operand, into);
+      break;
+    case 'binary':
+      collectFields(node.left, into);
+      collectFields(node.right, into);
+      break;
+    case 'call':
+      collectFields(node.target, into);
+      node.args.forEach(arg => collectFields(arg, into));
+      break;
+  }
+  return into;
+}
+
+/**
+ * Parse and type-check an expression. Errors carry the offending offset so editors can underline it.
+ */
+export function parseRule(source: string): RuleParseResult {
+  try {
+    if (source.length > MAX_RULE_LENGTH) {
+      throw new RuleSyntaxError(`Rule is too long (max ${MAX_RULE_LENGTH} characters)`, MAX_RULE_LENGTH, source.length - MAX_RULE_LENGTH);
+    }
+    if (!source.trim()) throw new RuleSyntaxError('Rule is empty', 0, 0);
+
+    const ast = new Parser(tokenize(source)).parse();
+    const type = checkTypes(ast, source);
+    if (type !== 'boolean') {
+      throw new RuleSyntaxError(`Rule must be a true/false condition, but it is ${TYPE_LABELS[type]}`, ast.start, ast.end - ast.start);
+    }
+    return { ok: true, ast, fields: [...collectFields(ast, new Set())] };
+  } catch (error) {
+    if (error instanceof RuleSyntaxError) {
+      return { ok: false, error: { message: error.message, position: error.position, length: error.length } };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+type RuntimeValue = number | string | boolean | string[] | RegExp | null;
+
+export interface RuleEvaluation {
+  result: boolean | null;          // null = unknown because data was missing
+  unknownFields: RuleFieldName[];
+}
+
+function evaluateNode(node: RuleNode, context: RuleContext, unknown: Set<RuleFieldName>): RuntimeValue {
+  switch (node.kind) {
+    case 'literal':
+    case 'regex':
+      return node.value;
+    case 'field': {
+      const value = context[node.name];
+      if (value === undefined || value === null || (typeof value === 'number' && !Number.isFinite(value))) {
+        unknown.add(node.name);
+        return null;
+      }
+      return value;
+    }
+    case 'unary': {
+      const value = evaluateNode(node.operand, context, unknown);
+      if (value === null) return null;
+      return node.op === '!' ? !value : -(value as number);
+    }
+    case 'binary': {
+      // Kleene logic: a definite false (AND) / true (OR) on either side decides
+      if (node.op === '&&' || node.op === '||') {
+        const decisive = node.op === '||';
+        const left = evaluateNode(node.left, context, unknown);
+        if (left === decisive) return decisive;
+        const right = evaluateNode(node.right, context, unknown);
+        if (right === decisive) return decisive;
+        return left === null || right === null ? null : !decisive;
+      }
+
+      const left = evaluateNode(node.left, context, unknown);
+      const right = evaluateNode(node.right, context, unknown);
+
+      if (node.op === '==' || node.op === '!=') {
+        // Comparing against the null literal is how rules test for missing data
+        const explicitNull = (node.left.kind === 'literal' && node.left.value === null)
+          || (node.right.kind === 'literal' && node.right.value === null);
+        if (!explicitNull && (left === null || right === null)) return null;
+        const equal = Array.isArray(left) && Array.isArray(right)
+          ? left.length === right.length && left.every((v, i) => v === right[i])
+          : left === right;
+        return node.op === '==' ? equal : !equal;
+      }
+
+      if (left === null || right === null) return null;
+      const a = left as number;
+      const b = right as number;
+      switch (node.op) {
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+      }
+      const result = node.op === '+' ? a + b : node.op === '-' ? a - b : node.op === '*' ? a * b : node.op === '/' ? a / b : a % b;
+      return Number.isFinite(result) ? result : null;
+    }
+    case 'call': {
+      const target = evaluateNode(node.target, context, unknown);
+      const arg = evaluateNode(node.args[0], context, unknown);
+      if (target === null || arg === null) return null;
+      switch (node.method) {
+        case 'matches':
+          return (arg as RegExp).test(target as string);
+        case 'includes':
+          return Array.isArray(target)
+            ? target.some(item => item.toLowerCase() === (arg as string).toLowerCase())
+            : (target as string).includes(arg as string);
+        case 'startsWith':
+          return (target as string).startsWith(arg as string);
+        case 'endsWith':
+          return (target as string).endsWith(arg as string);
+      }
+    }
+  }
+}
+
+export function evaluateRule(ast: RuleNode, context: RuleContext): RuleEvaluation {
+  const unknown = new Set<RuleFieldName>();
+  const value = evaluateNode(ast, context, unknown);
+  return { result: value === null ? null : value === true, unknownFields: [...unknown] };
+}
+
+function formatFieldValue(value: RuleFieldValue | undefined): string {
+  if (value === undefined || value === null) return 'unknown';
+  if (Array.isArray(value)) return `[${value.join(', ')}]`;
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'number') return String(Math.round(value * 1e4) / 1e4);
+  return String(value);
+}
+
+function andClauses(node: RuleNode): RuleNode[] {
+  return node.kind === 'binary' && node.op === '&&' ? [...andClauses(node.left), ...andClauses(node.right)] : [node];
+}
+
+/**
+ * For a failed rule, the first top-level && clause that was false, with the values it saw,
+ * e.g. "holders >= 30 (holders = 12)"
+ */
+export function explainRuleFailure(source: string, ast: RuleNode, context: RuleContext): string | null {
+  for (const clause of andClauses(ast)) {
+    if (evaluateRule(clause, context).result !== false) continue;
+    const values = [...collectFields(clause, new Set())].map(field => `${field} = ${formatFieldValue(context[field])}`);
+    const text = source.slice(clause.start, clause.end);
+    return values.length > 0 ? `${text} (${values.join(', ')})` : text;
+  }
+  return null;
+}
+
+// ============================================================================
+// ENTRY RULES (user_sniper_settings.entry_rules)
+// ============================================================================
+
+export interface EntryRule {
+  id: string;
+  expression: string;
+  enabled: boolean;
+}
+
+/**
+ * Read the entry_rules JSONB column defensively; malformed entries are dropped
+ */
+export function parseEntryRules(raw: unknown): EntryRule[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((r): r is Record<string, unknown> => typeof r === 'object' && r !== null && typeof (r as Record<string, unknown>).expression === 'string')
+    .slice(0, MAX_ENTRY_RULES)
+    .map((r, i) => ({
+      id: typeof r.id === 'string' && r.id ? r.id : `rule-${i + 1}`,
+      expression: (r.expression as string).slice(0, MAX_RULE_LENGTH),
+      enabled: r.enabled !== false,
+    }));
+}
+
+/**
+ * Evaluate one entry rule. Invalid and unknown rules reject - custom filters fail closed.
+ */
+export function checkEntryRule(rule: EntryRule, context: RuleContext): DiscoveryReason {
+  const label = `Rule "${rule.expression}"`;
+  const parsed = parseRule(rule.expression);
+  if (parsed.ok === false) {
+    return { code: 'ENTRY_RULE_INVALID', message: `${label} is invalid: ${parsed.error.message}`, severity: 'reject' };
+  }
+
+  const { result, unknownFields } = evaluateRule(parsed.ast, context);
+  if (result === true) {
+    return { code: 'ENTRY_RULE_OK', message: `${label} passed`, severity: 'pass' };
+  }
+  if (result === null) {
+    return { code: 'ENTRY_RULE_UNKNOWN', message: `${label} unknown - no data for ${unknownFields.join(', ')}`, severity: 'reject' };
+  }
+  const failedAt = explainRuleFailure(rule.expression, parsed.ast, context);
+  return { code: 'ENTRY_RULE_FAILED', message: `${label} failed${failedAt ? ` at ${failedAt}` : ''}`, severity: 'reject' };
+}
+
+/**
+ * Run every enabled entry rule; all must pass
+ */
+export function evaluateEntryRules(
+  rules: EntryRule[],
+  context: RuleContext,
+  { stopOnReject = true }: { stopOnReject?: boolean } = {}
+): { approved: boolean; reasons: DiscoveryReason[] } {
+  const reasons: DiscoveryReason[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const reason = checkEntryRule(rule, context);
+    reasons.push(reason);
+    if (reason.severity === 'reject' && stopOnReject) break;
+  }
+  return { approved: !reasons.some(r => r.severity === 'reject'), reasons };
+}
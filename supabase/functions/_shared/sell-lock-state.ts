@@ -0,0 +1,72 @@
+// Sell locks for edge functions: the same sell_locks leases the app takes (src/lib/sellLock.ts),
+// so a server-side sell never runs while a tab or another device is selling the position.
+// Used by auto-exit.
+
+// Only the lock RPCs are used, so any client with rpc() will do (tests pass an in-memory one)
+interface SupabaseClient {
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+export type SellSource = "auto_exit" | "manual_sell" | "liquidity_worker" | "partial_retry";
+
+export interface SellLease {
+  positionId: string;
+  fencingToken: number;
+}
+
+const LOCK_TTL_SECONDS = 60;
+
+// One holder id per isolate, tagged with the function that took the lock
+const ISOLATE_ID = crypto.randomUUID();
+
+/**
+ * Take the lease on a position for `holder` (e.g. "auto-exit"). Returns null while someone
+ * else holds it - and when the lock table cannot be reached, since selling unlocked is worse
+ * than retrying on the next check. Needs a service-role client.
+ */
+export async function acquireSellLock(
+  supabase: SupabaseClient,
+  userId: string,
+  position: { id: string; token_address: string },
+  holder: string,
+  source: SellSource
+): Promise<SellLease | null> {
+  const { data, error } = await supabase.rpc("acquire_sell_lock", {
+    p_user_id: userId,
+    p_position_id: position.id,
+    p_token_address: position.token_address,
+    p_holder: `edge:${holder}:${ISOLATE_ID}`,
+    p_source: source,
+    p_ttl_seconds: LOCK_TTL_SECONDS,
+  });
+  if (error) {
+    console.error(`[SellLock] Could not lock ${position.id}:`, error.message);
+    return null;
+  }
+
+  const lock = (data as { acquired: boolean; fencing_token: number; holder: string; source: string }[] | null)?.[0];
+  if (!lock?.acquired) {
+    if (lock) console.log(`[SellLock] ${position.id} already locked by ${lock.source} (${lock.holder})`);
+    return null;
+  }
+  return { positionId: position.id, fencingToken: lock.fencing_token };
+}
+
+/** False once the lease expired and another seller took over - check before broadcasting. */
+export async function holdsSellLock(supabase: SupabaseClient, lease: SellLease): Promise<boolean> {
+  const { data, error } = await supabase.rpc("check_sell_lock", {
+    p_position_id: lease.positionId,
+    p_fencing_token: lease.fencingToken,
+  });
+  return !error && data === true;
+}
+
+export async function releaseSellLock(supabase: SupabaseClient, lease: SellLease | null): Promise<void> {
+  if (!lease) return;
+  const { error } = await supabase.rpc("release_sell_lock", {
+    p_position_id: lease.positionId,
+    p_fencing_token: lease.fencingToken,
+  });
+  // The lease expires on its own
+  if (error) console.error(`[SellLock] Release failed for ${lease.positionId}:`, error.message);
+}
@@ -0,0 +1,218 @@
+/**
+ * Delegated session keys for the headless bot runner.
+ *
+ * The runner cannot reach a browser wallet, so a user delegates trading to a short-lived
+ * Ed25519 key generated server-side. Its seed only ever leaves the keystore sealed with
+ * AES-GCM under a master secret; the user funds the session address with what the bot may
+ * spend. An expired key still signs exits and the final sweep - only a revoked key is gone.
+ *
+ * Storage is injected so the keystore can be backed by a table in the edge functions and
+ * swapped for an in-memory one by a test harness:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/session-keys.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/session-keys";
+ */
+
+import { decodeBase58, encodeBase58 } from './base58.ts';
+import { base64ToBytes, readCompactU16 } from './round-trip.ts';
+
+// PKCS#8 wrapper for a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+]);
+
+export interface SessionSigner {
+  publicKey: string;
+  // Adds this key's signature to a serialized (legacy or v0) transaction
+  signTransaction(transactionBase64: string): Promise<string>;
+}
+
+export interface StoredSessionKey {
+  public_key: string;
+  sealed_secret: string; // base64 AES-GCM ciphertext of the seed
+  iv: string;            // base64
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+export interface KeystoreStorage {
+  load(userId: string): Promise<StoredSessionKey | null>;
+  save(userId: string, record: StoredSessionKey): Promise<void>;
+}
+
+export interface SessionKeyHandle {
+  signer: SessionSigner;
+  expiresAt: string;
+}
+
+export interface SessionKeystore {
+  // Replaces any existing key for the user and returns the new public key
+  create(userId: string, expiresAt: string): Promise<string>;
+  // Null when the user has no key or it was revoked; expiry is the caller's policy
+  open(userId: string): Promise<SessionKeyHandle | null>;
+  revoke(userId: string): Promise<void>;
+}
+
+export function isSessionKeyActive(handle: SessionKeyHandle | null, now: number = Date.now()): handle is SessionKeyHandle {
+  return !!handle && new Date(handle.expiresAt).getTime() > now;
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = '';
+  for (const byte of bytes) bin += String.fromCharCode(byte);
+  return btoa(bin);
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+async function importSeed(seed: Uint8Array): Promise<{ key: CryptoKey; publicKey: string }> {
+  const pkcs8 = new Uint8Array(ED25519_PKCS8_PREFIX.length + seed.length);
+  pkcs8.set(ED25519_PKCS8_PREFIX);
+  pkcs8.set(seed, ED25519_PKCS8_PREFIX.length);
+  const key = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign']);
+  // The private JWK carries the public point, so the address never has to be stored separately
+  const jwk = await crypto.subtle.exportKey('jwk', key);
+  return { key, publicKey: encodeBase58(base64UrlToBytes(jwk.x!)) };
+}
+
+/**
+ * Sign the message of a serialized transaction in the slot of `publicKey` among its
+ * required signers. Throws when the key is not a signer - a swap built for another wallet.
+ */
+export async function signTransaction(transactionBase64: string, key: CryptoKey, publicKey: string): Promise<string> {
+  const bytes = base64ToBytes(transactionBase64);
+  const [signatureCount, sigLen] = readCompactU16(bytes, 0);
+  const messageOffset = sigLen + signatureCount * 64;
+
+  let offset = messageOffset;
+  if (bytes[offset] & 0x80) offset++; // versioned message prefix
+  const requiredSignatures = bytes[offset];
+  offset += 3;
+  const [, keyLen] = readCompactU16(bytes, offset);
+  offset += keyLen;
+
+  let signerIndex = -1;
+  for (let i = 0; i < Math.min(requiredSignatures, signatureCount); i++) {
+    if (encodeBase58(bytes.subarray(offset + i * 32, offset + (i + 1) * 32)) === publicKey) {
+      signerIndex = i;
+      break;
+    }
+  }
+  if (signerIndex === -1) throw new Error(`Session key ${publicKey} is not a signer of this transaction`);
+
+  const signature = await crypto.subtle.sign({ name: 'Ed25519' }, key, bytes.subarray(messageOffset));
+  bytes.set(new Uint8Array(signature), sigLen + signerIndex * 64);
+  return bytesToBase64(bytes);
+}
+
+export async function createSigner(seed: Uint8Array): Promise<SessionSigner> {
+  const { key, publicKey } = await importSeed(seed);
+  return {
+    publicKey,
+    signTransaction: (transactionBase64) => signTransaction(transactionBase64, key, publicKey),
+  };
+}
+
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+/**
+ * Unsigned legacy transaction moving `lamports` from the session key to `to` with the
+ * system program - how the runner returns a session's SOL before revoking it.
+ */
+export function buildTransferTransaction(from: string, to: string, lamports: bigint, recentBlockhash: string): string {
+  const data = new Uint8Array(12);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, 2, true); // SystemInstruction::Transfer
+  view.setBigUint64(4, lamports, true);
+
+  const message = [
+    1, 0, 1, // one signer, no readonly signed, the program is readonly unsigned
+    3, ...decodeBase58(from), ...decodeBase58(to), ...decodeBase58(SYSTEM_PROGRAM),
+    ...decodeBase58(recentBlockhash),
+    1, 2, 2, 0, 1, data.length, ...data,
+  ];
+  return bytesToBase64(new Uint8Array([1, ...new Uint8Array(64), ...message]));
+}
+
+// ============================================================================
+// KEYSTORES
+// ============================================================================
+
+async function deriveSealingKey(masterSecret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(masterSecret));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Keystore that seals seeds with AES-GCM under `masterSecret`. The user id and public key
+ * are bound as additional data, so a sealed seed copied onto another row fails to open.
+ */
+export function createLocalKeystore(storage: KeystoreStorage, masterSecret: string): SessionKeystore {
+  if (!masterSecret) throw new Error('Keystore master secret is not configured');
+  const sealingKey = deriveSealingKey(masterSecret);
+  const aad = (userId: string, publicKey: string) => new TextEncoder().encode(`${userId}:${publicKey}`);
+
+  return {
+    async create(userId, expiresAt) {
+      const seed = crypto.getRandomValues(new Uint8Array(32));
+      const { publicKey } = await importSeed(seed);
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const sealed = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: aad(userId, publicKey) },
+        await sealingKey,
+        seed
+      );
+      await storage.save(userId, {
+        public_key: publicKey,
+        sealed_secret: bytesToBase64(new Uint8Array(sealed)),
+        iv: bytesToBase64(iv),
+        expires_at: expiresAt,
+        revoked_at: null,
+      });
+      return publicKey;
+    },
+
+    async open(userId) {
+      const record = await storage.load(userId);
+      if (!record || record.revoked_at) return null;
+      const seed = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(record.iv), additionalData: aad(userId, record.public_key) },
+        await sealingKey,
+        base64ToBytes(record.sealed_secret)
+      );
+      return { signer: await createSigner(new Uint8Array(seed)), expiresAt: record.expires_at };
+    },
+
+    async revoke(userId) {
+      const record = await storage.load(userId);
+      if (record && !record.revoked_at) await storage.save(userId, { ...record, revoked_at: new Date().toISOString() });
+    },
+  };
+}
+
+/** Unsealed keystore for tests and local harnesses - seeds live only in this process */
+export function createMemoryKeystore(): SessionKeystore {
+  const keys = new Map<string, { seed: Uint8Array; expiresAt: string; revoked: boolean }>();
+  return {
+    async create(userId, expiresAt) {
+      const seed = crypto.getRandomValues(new Uint8Array(32));
+      keys.set(userId, { seed, expiresAt, revoked: false });
+      return (await importSeed(seed)).publicKey;
+    },
+    async open(userId) {
+      const entry = keys.get(userId);
+      if (!entry || entry.revoked) return null;
+      return { signer: await createSigner(entry.seed), expiresAt: entry.expiresAt };
+    },
+    async revoke(userId) {
+      const entry = keys.get(userId);
+      if (entry) entry.revoked = true;
+    },
+  };
+}
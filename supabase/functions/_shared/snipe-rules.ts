@@ -0,0 +1,534 @@
+/**
+ * Snipe decision rules - single source for discovery and approval rules
+ *
+ * Pure and dependency-free so it can be imported by both:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/snipe-rules.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/snipe-rules";
+ *
+ * Every rule returns a structured DiscoveryReason; callers decide how to display or log it.
+ * Keep this file free of Deno/browser globals and imports.
+ */
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const DISCOVERY_CONFIG = {
+  // Token age constraints (in milliseconds)
+  // Age floor is off so freshly launched pools are considered immediately; 2 * 60 * 1000 restores the 2 minute floor
+  MIN_TOKEN_AGE_MS: 0,
+  MAX_TOKEN_AGE_MS: 6 * 60 * 60 * 1000,      // 6 hours
+
+  // Target buyer positions for discovery
+  MIN_BUYER_POSITION: 1,
+  MAX_BUYER_POSITION: 10,
+
+  // Safety thresholds
+  MIN_LIQUIDITY_SOL: 2,
+  MAX_RISK_SCORE: 70,
+  MIN_HOLDERS: 1,
+  MAX_SELL_TAX_PERCENT: 15,
+  MAX_BUY_TAX_PERCENT: 15,
+
+  // Pool verification
+  REQUIRE_SWAP_ROUTE: true,
+
+  // Scam filters
+  BLOCK_FREEZE_AUTHORITY: true,
+  SUSPICIOUS_NAME_PATTERNS: [
+    /test/i,
+    /airdrop/i,
+    /free.*money/i,
+    /rug/i,
+    /scam/i,
+    /fake/i,
+    /honeypot/i,
+  ],
+} as const;
+
+// Auto-sniper entry window when the user has not picked explicit buyer positions
+export const SNIPER_BUYER_POSITION_WINDOW = { min: 2, max: 10 } as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DiscoveryCandidate {
+  address: string;
+  name: string;
+  symbol: string;
+  liquidity: number;          // In SOL
+  createdAt: string;          // ISO timestamp
+  buyerPosition: number | null;
+  riskScore: number;
+  holders: number;
+  freezeAuthority: string | null;
+  mintAuthority: string | null;
+  hasSwapRoute: boolean;
+  source: string;
+  sellTax?: number;
+  buyTax?: number;
+  // Deployer reputation; omitted when the creator could not be resolved
+  creator?: CreatorRuleInput | null;
+}
+
+export interface DiscoveryValidation {
+  eligible: boolean;
+  reasons: DiscoveryReason[];
+  ageMs: number;
+  ageMins: number;
+  buyerPosition: number | null;
+}
+
+export interface DiscoveryReason {
+  code: DiscoveryRejectCode | DiscoveryPassCode;
+  message: string;
+  severity: 'pass' | 'warn' | 'reject';
+}
+
+export type DiscoveryRejectCode =
+  | 'TOO_NEW'              // Younger than MIN_TOKEN_AGE_MS
+  | 'TOO_OLD'              // Older than MAX_TOKEN_AGE_MS
+  | 'BAD_POSITION'         // Buyer position outside the target window
+  | 'LOW_LIQUIDITY'        // Below discovery minimum liquidity
+  | 'HIGH_RISK'            // Risk score above discovery maximum
+  | 'NO_SWAP_ROUTE'        // No Jupiter/Raydium route
+  | 'FREEZE_AUTHORITY'     // Can be frozen
+  | 'LOW_HOLDERS'          // Too few holders
+  | 'HIGH_TAX'             // Excessive buy/sell tax
+  | 'SUSPICIOUS_NAME'      // Name matches scam patterns
+  | 'HONEYPOT'             // Sell simulation failed
+  | 'AIRDROP_ONLY'         // No real trading activity
+  | 'NOT_SELLABLE'         // Scanner found no sell path
+  | 'BELOW_MIN_LIQUIDITY'  // Below the user's min_liquidity
+  | 'ABOVE_MAX_RISK'       // Above the user's max_risk_score
+  | 'LIQUIDITY_UNLOCKED'   // Informational only
+  | 'CATEGORY_MISMATCH'    // No overlap with category_filters
+  | 'BLACKLISTED'
+  | 'NOT_WHITELISTED'
+  | 'ENTRY_RULE_FAILED'    // User entry rule evaluated false (rule-dsl.ts)
+  | 'ENTRY_RULE_UNKNOWN'   // Entry rule needs data the token lacks
+  | 'ENTRY_RULE_INVALID'   // Entry rule no longer parses
+  | 'CREATOR_BLACKLISTED'  // Deployer is on the creator blocklist
+  | 'CREATOR_REPUTATION'   // Deployer has a history of rugs/honeypots
+  | 'CURVE_ENTRY_DISABLED' // Token is on its Pump.fun curve and curve entries are off
+  | 'CURVE_WINDOW'         // Curve progress outside the user's entry window (pump-curve.ts)
+  | 'CURVE_IMPACT';        // Our buy would move the curve price too far
+
+export type DiscoveryPassCode =
+  | 'AGE_OK'
+  | 'POSITION_OK'
+  | 'LIQUIDITY_OK'
+  | 'RISK_OK'
+  | 'ROUTE_OK'
+  | 'SAFE_TOKEN'
+  | 'LIQUIDITY_LOCKED'
+  | 'CATEGORY_OK'
+  | 'LIST_OK'
+  | 'ENTRY_RULE_OK'
+  | 'CREATOR_OK'
+  | 'CURVE_OK';
+
+// Fields the approval rules read from a scanned token
+export interface SniperRuleToken {
+  address: string;
+  liquidity: number;
+  liquidityLocked?: boolean;
+  lockPercentage?: number | null;
+  buyerPosition: number | null;
+  riskScore?: number;
+  categories?: string[];
+  canSell?: boolean;
+}
+
+export interface SniperRuleSettings {
+  min_liquidity: number;
+  category_filters: string[];
+  token_blacklist: string[];
+  token_whitelist: string[];
+  target_buyer_positions?: number[];
+  max_risk_score?: number;
+}
+
+// Creator reputation as the rules see it (computed in creator-reputation.ts)
+export interface CreatorRuleInput {
+  rugged: number;
+  honeypots: number;
+  survived: number;
+  score: number;          // 0-100, higher is worse
+  blacklisted: boolean;
+  blacklistReason: string | null;
+}
+
+export const CREATOR_RULES = {
+  SERIAL_RUGGER_COUNT: 2,
+  REJECT_SCORE: 60,
+} as const;
+
+export interface SniperRulesVerdict {
+  approved: boolean;
+  reasons: DiscoveryReason[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Token age in milliseconds relative to `now` (pass the discovery time when replaying history)
+ */
+export function getTokenAgeMs(createdAt: string, now: number = Date.now()): number {
+  const created = new Date(createdAt).getTime();
+  if (isNaN(created)) return 0;
+  return now - created;
+}
+
+/**
+ * Check if token name matches suspicious patterns
+ */
+export function isSuspiciousName(name: string, symbol: string): boolean {
+  const combined = `${name} ${symbol}`.toLowerCase();
+  return DISCOVERY_CONFIG.SUSPICIOUS_NAME_PATTERNS.some(pattern => pattern.test(combined));
+}
+
+/**
+ * Check if token is within the valid age window
+ */
+export function isInAgeWindow(createdAt: string, now: number = Date.now()): boolean {
+  const ageMs = getTokenAgeMs(createdAt, now);
+  return ageMs >= DISCOVERY_CONFIG.MIN_TOKEN_AGE_MS && ageMs <= DISCOVERY_CONFIG.MAX_TOKEN_AGE_MS;
+}
+
+/**
+ * Check if buyer position is in the discovery target range
+ */
+export function isTargetPosition(position: number | null): boolean {
+  if (position === null) return false;
+  return position >= DISCOVERY_CONFIG.MIN_BUYER_POSITION && position <= DISCOVERY_CONFIG.MAX_BUYER_POSITION;
+}
+
+/**
+ * Prefix a reason the way bot logs and SnipeDecision.reasons display it
+ */
+export function formatRuleReason(reason: DiscoveryReason): string {
+  const icon = reason.severity === 'pass' ? '✓' : reason.severity === 'warn' ? '⚠' : '✗';
+  return `${icon} ${reason.message}`;
+}
+
+export function hasReject(reasons: DiscoveryReason[]): boolean {
+  return reasons.some(r => r.severity === 'reject');
+}
+
+// ============================================================================
+// DISCOVERY RULES
+// ============================================================================
+
+/**
+ * Validate a token candidate against all discovery rules
+ */
+export function validateDiscoveryCandidate(
+  candidate: DiscoveryCandidate,
+  now: number = Date.now()
+): DiscoveryValidation {
+  const reasons: DiscoveryReason[] = [];
+  const ageMs = getTokenAgeMs(candidate.createdAt, now);
+  const ageMins = Math.floor(ageMs / 60000);
+
+  // ========== AGE VALIDATION ==========
+  if (DISCOVERY_CONFIG.MIN_TOKEN_AGE_MS > 0 && ageMs < DISCOVERY_CONFIG.MIN_TOKEN_AGE_MS) {
+    reasons.push({
+      code: 'TOO_NEW',
+      message: `Token is too new (${ageMins}min < ${Math.round(DISCOVERY_CONFIG.MIN_TOKEN_AGE_MS / 60000)}min minimum)`,
+      severity: 'warn',
+    });
+  } else if (ageMs > DISCOVERY_CONFIG.MAX_TOKEN_AGE_MS) {
+    reasons.push({
+      code: 'TOO_OLD',
+      message: `Age: ${Math.floor(ageMins / 60)}h (established token)`,
+      severity: 'warn',
+    });
+  } else {
+    reasons.push({
+      code: 'AGE_OK',
+      message: `Age: ${ageMins > 60 ? Math.floor(ageMins / 60) + 'h' : ageMins + 'min'}`,
+      severity: 'pass',
+    });
+  }
+
+  // ========== BUYER POSITION ==========
+  const pos = candidate.buyerPosition;
+  if (pos === null) {
+    reasons.push({ code: 'BAD_POSITION', message: 'Position unknown', severity: 'warn' });
+  } else {
+    reasons.push({ code: 'POSITION_OK', message: `Position #${pos}`, severity: 'pass' });
+  }
+
+  // ========== LIQUIDITY ==========
+  if (candidate.liquidity < DISCOVERY_CONFIG.MIN_LIQUIDITY_SOL) {
+    reasons.push({
+      code: 'LOW_LIQUIDITY',
+      message: `Liquidity ${candidate.liquidity.toFixed(1)} SOL < ${DISCOVERY_CONFIG.MIN_LIQUIDITY_SOL} SOL minimum`,
+      severity: 'reject',
+    });
+  } else {
+    reasons.push({
+      code: 'LIQUIDITY_OK',
+      message: `Liquidity: ${candidate.liquidity.toFixed(1)} SOL`,
+      severity: 'pass',
+    });
+  }
+
+  // ========== RISK SCORE ==========
+  if (candidate.riskScore > DISCOVERY_CONFIG.MAX_RISK_SCORE) {
+    reasons.push({
+      code: 'HIGH_RISK',
+      message: `Risk score ${candidate.riskScore} > ${DISCOVERY_CONFIG.MAX_RISK_SCORE} maximum`,
+      severity: 'reject',
+    });
+  } else {
+    reasons.push({ code: 'RISK_OK', message: `Risk: ${candidate.riskScore}/100`, severity: 'pass' });
+  }
+
+  // ========== SWAP ROUTE ==========
+  if (DISCOVERY_CONFIG.REQUIRE_SWAP_ROUTE && !candidate.hasSwapRoute) {
+    reasons.push({
+      code: 'NO_SWAP_ROUTE',
+      message: 'No verified swap route (Jupiter/Raydium)',
+      severity: 'reject',
+    });
+  } else if (candidate.hasSwapRoute) {
+    reasons.push({
+      code: 'ROUTE_OK',
+      message: `Swap route verified via ${candidate.source.split(' ')[0]}`,
+      severity: 'pass',
+    });
+  }
+
+  // ========== FREEZE AUTHORITY ==========
+  if (DISCOVERY_CONFIG.BLOCK_FREEZE_AUTHORITY && candidate.freezeAuthority) {
+    reasons.push({
+      code: 'FREEZE_AUTHORITY',
+      message: 'Token has freeze authority - can lock your funds',
+      severity: 'reject',
+    });
+  }
+
+  // ========== HOLDERS ==========
+  if (candidate.holders > 0 && candidate.holders < DISCOVERY_CONFIG.MIN_HOLDERS) {
+    reasons.push({ code: 'LOW_HOLDERS', message: `${candidate.holders} holders`, severity: 'warn' });
+  }
+
+  // ========== TAX ==========
+  if (candidate.sellTax !== undefined && candidate.sellTax >= DISCOVERY_CONFIG.MAX_SELL_TAX_PERCENT) {
+    reasons.push({
+      code: 'HIGH_TAX',
+      message: `Sell tax ${candidate.sellTax}% >= ${DISCOVERY_CONFIG.MAX_SELL_TAX_PERCENT}% maximum`,
+      severity: 'reject',
+    });
+  }
+  if (candidate.buyTax !== undefined && candidate.buyTax >= DISCOVERY_CONFIG.MAX_BUY_TAX_PERCENT) {
+    reasons.push({
+      code: 'HIGH_TAX',
+      message: `Buy tax ${candidate.buyTax}% >= ${DISCOVERY_CONFIG.MAX_BUY_TAX_PERCENT}% maximum`,
+      severity: 'reject',
+    });
+  }
+
+  // ========== SUSPICIOUS NAME ==========
+  if (isSuspiciousName(candidate.name, candidate.symbol)) {
+    reasons.push({
+      code: 'SUSPICIOUS_NAME',
+      message: 'Token name/symbol matches scam patterns',
+      severity: 'reject',
+    });
+  }
+
+  // ========== CREATOR ==========
+  if (candidate.creator) {
+    reasons.push(checkCreatorReputation(candidate.creator));
+  }
+
+  const eligible = !hasReject(reasons);
+  if (eligible) {
+    reasons.push({ code: 'SAFE_TOKEN', message: 'All discovery rules passed', severity: 'pass' });
+  }
+
+  return { eligible, reasons, ageMs, ageMins, buyerPosition: pos };
+}
+
+// ============================================================================
+// APPROVAL RULES (auto-sniper)
+// ============================================================================
+
+/**
+ * Token must be sellable - otherwise the buy becomes a stuck position
+ */
+export function checkSellable(token: SniperRuleToken): DiscoveryReason {
+  return token.canSell === false
+    ? { code: 'NOT_SELLABLE', message: 'Token cannot be sold (would create stuck position)', severity: 'reject' }
+    : { code: 'ROUTE_OK', message: 'Token is sellable', severity: 'pass' };
+}
+
+/**
+ * Liquidity must meet the user's min_liquidity setting
+ */
+export function checkLiquidity(token: SniperRuleToken, settings: Pick<SniperRuleSettings, 'min_liquidity'>): DiscoveryReason {
+  return token.liquidity >= settings.min_liquidity
+    ? {
+        code: 'LIQUIDITY_OK',
+        message: `Liquidity ${token.liquidity.toFixed(2)} SOL meets minimum ${settings.min_liquidity} SOL`,
+        severity: 'pass',
+      }
+    : {
+        code: 'BELOW_MIN_LIQUIDITY',
+        message: `Liquidity ${token.liquidity.toFixed(2)} SOL below minimum ${settings.min_liquidity} SOL`,
+        severity: 'reject',
+      };
+}
+
+/**
+ * Liquidity lock is informational only - many legitimate tokens don't lock
+ */
+export function checkLiquidityLock(token: SniperRuleToken): DiscoveryReason {
+  return token.liquidityLocked === true
+    ? {
+        code: 'LIQUIDITY_LOCKED',
+        message: `Liquidity locked${token.lockPercentage ? ` (${token.lockPercentage}%)` : ''}`,
+        severity: 'pass',
+      }
+    : { code: 'LIQUIDITY_UNLOCKED', message: 'Liquidity not locked - proceed with caution', severity: 'warn' };
+}
+
+/**
+ * Token categories must overlap the user's category filters (skipped when either side is empty)
+ */
+export function checkCategoryMatch(
+  token: SniperRuleToken,
+  settings: Pick<SniperRuleSettings, 'category_filters'>
+): DiscoveryReason {
+  if (settings.category_filters.length === 0) {
+    return { code: 'CATEGORY_OK', message: 'No category filters applied', severity: 'pass' };
+  }
+
+  // Live scans often have no category metadata - don't block every trade on it
+  if (!token.categories || token.categories.length === 0) {
+    return { code: 'CATEGORY_OK', message: 'Category data unavailable - skipping category filter', severity: 'pass' };
+  }
+
+  const matched = token.categories.filter(cat => settings.category_filters.includes(cat.toLowerCase()));
+  return matched.length > 0
+    ? { code: 'CATEGORY_OK', message: `Matches categories: ${matched.join(', ')}`, severity: 'pass' }
+    : { code: 'CATEGORY_MISMATCH', message: `No match for filters: ${settings.category_filters.join(', ')}`, severity: 'reject' };
+}
+
+/**
+ * Buyer position must be in the user's targets, or #2-#10 when none are set.
+ * Unknown positions never block.
+ */
+export function checkBuyerPosition(token: Pick<SniperRuleToken, 'buyerPosition'>, targetPositions: number[] = []): DiscoveryReason {
+  const position = token.buyerPosition;
+  if (position === null || position === undefined) {
+    return { code: 'POSITION_OK', message: 'Buyer position unknown - allowing trade', severity: 'pass' };
+  }
+
+  if (targetPositions.length > 0) {
+    return targetPositions.includes(position)
+      ? { code: 'POSITION_OK', message: `Can enter as buyer #${position}`, severity: 'pass' }
+      : { code: 'BAD_POSITION', message: `Buyer position #${position} not targeted`, severity: 'reject' };
+  }
+
+  const { min, max } = SNIPER_BUYER_POSITION_WINDOW;
+  if (position < min) {
+    return { code: 'BAD_POSITION', message: 'Would be first buyer - waiting for others', severity: 'reject' };
+  }
+  if (position > max) {
+    return { code: 'BAD_POSITION', message: `Buyer position #${position} too late (>${max})`, severity: 'reject' };
+  }
+  return { code: 'POSITION_OK', message: `Can enter as buyer #${position}`, severity: 'pass' };
+}
+
+/**
+ * Blacklist always wins; a non-empty whitelist admits only listed tokens
+ */
+export function checkBlacklistWhitelist(
+  token: Pick<SniperRuleToken, 'address'>,
+  settings: Pick<SniperRuleSettings, 'token_blacklist' | 'token_whitelist'>
+): DiscoveryReason {
+  const address = token.address.toLowerCase();
+
+  if (settings.token_blacklist.some(addr => addr.toLowerCase() === address)) {
+    return { code: 'BLACKLISTED', message: 'Token is blacklisted by user', severity: 'reject' };
+  }
+
+  if (settings.token_whitelist.length > 0) {
+    return settings.token_whitelist.some(addr => addr.toLowerCase() === address)
+      ? { code: 'LIST_OK', message: 'Token is on whitelist', severity: 'pass' }
+      : { code: 'NOT_WHITELISTED', message: 'Token not on whitelist', severity: 'reject' };
+  }
+
+  return { code: 'LIST_OK', message: 'Token not blacklisted', severity: 'pass' };
+}
+
+/**
+ * Risk score must not exceed the user's max_risk_score
+ */
+export function checkRiskScore(riskScore: number, maxRiskScore: number): DiscoveryReason {
+  return riskScore > maxRiskScore
+    ? { code: 'ABOVE_MAX_RISK', message: `Risk score ${riskScore} above maximum ${maxRiskScore}`, severity: 'reject' }
+    : { code: 'RISK_OK', message: `Risk score ${riskScore} within maximum ${maxRiskScore}`, severity: 'pass' };
+}
+
+/**
+ * The deployer must not be blocklisted or a serial rugger; a single past rug only warns
+ */
+export function checkCreatorReputation(creator: CreatorRuleInput): DiscoveryReason {
+  if (creator.blacklisted) {
+    return {
+      code: 'CREATOR_BLACKLISTED',
+      message: `Creator is blacklisted${creator.blacklistReason ? `: ${creator.blacklistReason}` : ''}`,
+      severity: 'reject',
+    };
+  }
+
+  const bad = creator.rugged + creator.honeypots;
+  const history = `${creator.rugged} rugged, ${creator.honeypots} honeypot, ${creator.survived} survived`;
+  if (bad >= CREATOR_RULES.SERIAL_RUGGER_COUNT || creator.score >= CREATOR_RULES.REJECT_SCORE) {
+    return { code: 'CREATOR_REPUTATION', message: `Creator reputation ${creator.score}/100 (${history})`, severity: 'reject' };
+  }
+  if (bad > 0) {
+    return { code: 'CREATOR_REPUTATION', message: `Creator has a prior bad launch (${history})`, severity: 'warn' };
+  }
+  return { code: 'CREATOR_OK', message: `Creator history clean (${history})`, severity: 'pass' };
+}
+
+/**
+ * Run the synchronous auto-sniper rules in order (sellable, liquidity, lock, category, position, lists).
+ * Like the live loop, evaluation stops at the first rejection unless `stopOnReject` is false.
+ */
+export function evaluateSniperRules(
+  token: SniperRuleToken,
+  settings: SniperRuleSettings,
+  options: { stopOnReject?: boolean; useTargetPositions?: boolean } = {}
+): SniperRulesVerdict {
+  const { stopOnReject = true, useTargetPositions = false } = options;
+  const reasons: DiscoveryReason[] = [];
+
+  const sellable = checkSellable(token);
+  // Sellable tokens add no line to the decision log - only the failure is worth showing
+  if (sellable.severity === 'reject') reasons.push(sellable);
+
+  const rules: (() => DiscoveryReason)[] = [
+    () => checkLiquidity(token, settings),
+    () => checkLiquidityLock(token),
+    () => checkCategoryMatch(token, settings),
+    () => checkBuyerPosition(token, useTargetPositions ? settings.target_buyer_positions : []),
+    () => checkBlacklistWhitelist(token, settings),
+  ];
+
+  for (const rule of rules) {
+    if (stopOnReject && hasReject(reasons)) break;
+    reasons.push(rule());
+  }
+
+  return { approved: !hasReject(reasons), reasons };
+}
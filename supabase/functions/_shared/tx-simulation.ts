@@ -0,0 +1,194 @@
+/**
+ * Pre-flight swap simulation - runs a built transaction through RPC simulateTransaction and
+ * turns the program logs into a typed failure before anyone is asked to sign it.
+ *
+ * Pure apart from the injected fetch, so the same code runs in Edge Functions and vitest:
+ * - Edge Functions (Deno):  import { ... } from "../_shared/tx-simulation.ts";
+ * - The app (Vite/vitest):  import { ... } from "@shared/tx-simulation";
+ */
+
+export const SIMULATION_CONFIG = {
+  REQUEST_TIMEOUT_MS: 8_000,
+  // Auto-adjust never raises slippage past this - beyond it the trade is blocked instead
+  MAX_AUTO_SLIPPAGE_BPS: 3_000,
+  // Log lines kept on the report for display
+  MAX_LOG_LINES: 40,
+} as const;
+
+export type SimulationFailureKind =
+  | 'slippage_exceeded'
+  | 'insufficient_funds'
+  | 'frozen_account'
+  | 'transfer_hook'
+  | 'token_tax'
+  | 'unknown';
+
+export interface SimulationFailure {
+  kind: SimulationFailureKind;
+  message: string;
+  programError: string | null;  // e.g. "Custom(6001)" from InstructionError
+  logExcerpt: string[];         // Lines that matched, or the tail of the logs
+}
+
+export interface SwapSimulationReport {
+  // 'unavailable' = the RPC could not simulate; callers proceed without a verdict
+  status: 'ok' | 'failed' | 'unavailable';
+  unitsConsumed: number | null;
+  failure: SimulationFailure | null;
+  logs: string[];
+  error?: string;
+}
+
+export const SIMULATION_FAILURE_LABELS: Record<SimulationFailureKind, string> = {
+  slippage_exceeded: 'Slippage exceeded',
+  insufficient_funds: 'Insufficient funds',
+  frozen_account: 'Token account frozen',
+  transfer_hook: 'Transfer hook rejected',
+  token_tax: 'Transfer tax revert',
+  unknown: 'Simulation failed',
+};
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+// First match wins - specific token-level reverts before the generic slippage/funds errors
+// they often surface as
+const FAILURE_PATTERNS: { kind: SimulationFailureKind; pattern: RegExp; message: string }[] = [
+  {
+    kind: 'frozen_account',
+    pattern: /account is frozen|AccountFrozen/i,
+    message: 'Token account is frozen - the mint authority can block transfers',
+  },
+  {
+    kind: 'transfer_hook',
+    pattern: /transfer.?hook/i,
+    message: 'Token-2022 transfer hook rejected the transfer',
+  },
+  {
+    kind: 'token_tax',
+    pattern: /calculated fee does not match|fee ?mismatch|transfer ?fee|\btax\b/i,
+    message: 'Token transfer fee / tax makes the swap revert',
+  },
+  {
+    kind: 'slippage_exceeded',
+    pattern: /slippage|TooMuchSolRequired|TooLittleSolReceived|0x1771\b/i,
+    message: 'Price moved past the slippage tolerance',
+  },
+  {
+    kind: 'insufficient_funds',
+    pattern: /insufficient (funds|lamports)|InsufficientFunds/i,
+    message: 'Wallet balance is too low for this swap and its fees',
+  },
+];
+
+function describeProgramError(err: unknown): string | null {
+  if (!err || typeof err !== 'object') return typeof err === 'string' ? err : null;
+  const instructionError = (err as { InstructionError?: [number, unknown] }).InstructionError;
+  if (Array.isArray(instructionError)) {
+    const [, detail] = instructionError;
+    if (detail && typeof detail === 'object' && 'Custom' in detail) {
+      return `Custom(${(detail as { Custom: number }).Custom})`;
+    }
+    return typeof detail === 'string' ? detail : JSON.stringify(detail);
+  }
+  return JSON.stringify(err);
+}
+
+/**
+ * Map a simulateTransaction error plus its logs to a failure kind
+ */
+export function classifySimulationFailure(err: unknown, logs: string[]): SimulationFailure {
+  const programError = describeProgramError(err);
+  const errorText = typeof err === 'string' ? err : JSON.stringify(err ?? null);
+
+  for (const { kind, pattern, message } of FAILURE_PATTERNS) {
+    const matching = logs.filter((line) => pattern.test(line));
+    if (matching.length > 0 || pattern.test(errorText)) {
+      return { kind, message, programError, logExcerpt: matching.slice(0, 5) };
+    }
+  }
+
+  return {
+    kind: 'unknown',
+    message: programError ? `Transaction reverted: ${programError}` : 'Transaction reverted',
+    programError,
+    logExcerpt: logs.slice(-5),
+  };
+}
+
+// Only a stale price is fixed by retrying - the rest are properties of the token or wallet
+export function isAdjustableFailure(kind: SimulationFailureKind): boolean {
+  return kind === 'slippage_exceeded';
+}
+
+/**
+ * Slippage to retry with after a slippage failure, or null once the cap is reached
+ */
+export function nextSlippageBps(
+  currentBps: number,
+  maxBps: number = SIMULATION_CONFIG.MAX_AUTO_SLIPPAGE_BPS
+): number | null {
+  if (currentBps >= maxBps) return null;
+  return Math.min(maxBps, Math.max(currentBps * 2, currentBps + 100));
+}
+
+export function formatSimulationFailure(failure: SimulationFailure): string {
+  return `${SIMULATION_FAILURE_LABELS[failure.kind]}: ${failure.message}`;
+}
+
+/**
+ * Simulate a base64 serialized (unsigned) transaction. Signature checks are skipped and the
+ * blockhash replaced, so swaps can be checked the moment they are built.
+ */
+export async function simulateSwapTransaction(
+  rpcUrl: string,
+  transactionBase64: string,
+  options: { fetchImpl?: FetchLike; timeoutMs?: number } = {}
+): Promise<SwapSimulationReport> {
+  const fetchImpl = options.fetchImpl ?? ((input: string, init?: RequestInit) => fetch(input, init));
+
+  try {
+    const res = await fetchImpl(rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'simulateTransaction',
+        params: [
+          transactionBase64,
+          { encoding: 'base64', sigVerify: false, replaceRecentBlockhash: true, commitment: 'processed' },
+        ],
+      }),
+      signal: AbortSignal.timeout(options.timeoutMs ?? SIMULATION_CONFIG.REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`RPC HTTP ${res.status}`);
+
+    const json = await res.json();
+    if (json?.error) throw new Error(json.error.message || 'RPC returned an error');
+
+    const value = json?.result?.value;
+    if (!value) throw new Error('RPC returned no simulation result');
+
+    const logs: string[] = Array.isArray(value.logs) ? value.logs : [];
+    const unitsConsumed = typeof value.unitsConsumed === 'number' ? value.unitsConsumed : null;
+
+    if (value.err) {
+      return {
+        status: 'failed',
+        unitsConsumed,
+        failure: classifySimulationFailure(value.err, logs),
+        logs: logs.slice(-SIMULATION_CONFIG.MAX_LOG_LINES),
+      };
+    }
+
+    return { status: 'ok', unitsConsumed, failure: null, logs: logs.slice(-SIMULATION_CONFIG.MAX_LOG_LINES) };
+  } catch (error) {
+    return {
+      status: 'unavailable',
+      unitsConsumed: null,
+      failure: null,
+      logs: [],
+      error: error instanceof Error ? error.message : 'Simulation unavailable',
+    };
+  }
+}
@@ -123,16 +123,74 @@ export function validateAddress(value: unknown, fieldName: string): ValidationRe
 }
 
 // =============== Token Scanner Validation ===============
+export interface StreamedPoolCandidate {
+  address: string;
+  poolAddress: string;
+  poolType: string;
+  liquidity: number;
+  name: string;
+  symbol: string;
+  detectedAtSlot: number | null;
+}
+
 export interface TokenScannerInput {
   minLiquidity: number;
   chains: string[];
+  // Pools decoded client-side from the log stream; when present polling sources are skipped
+  streamed: StreamedPoolCandidate[];
 }
 
 const ALLOWED_CHAINS = ['solana', 'ethereum', 'bsc', 'eth', 'base', 'arbitrum', 'polygon'];
+const ALLOWED_STREAM_POOL_TYPES = ['pump_fun', 'raydium', 'orca', 'unknown'];
+const MAX_STREAMED_CANDIDATES = 20;
+
+function validateStreamedCandidate(value: unknown, index: number): ValidationResult<StreamedPoolCandidate> {
+  if (typeof value !== 'object' || value === null) {
+    return errorResult(`streamed[${index}] must be an object`);
+  }
+  const obj = value as Record<string, unknown>;
+
+  const address = validateAddress(obj.address, `streamed[${index}].address`);
+  if (!address.success) return errorResult(address.error!);
+  const poolAddress = validateAddress(obj.poolAddress, `streamed[${index}].poolAddress`);
+  if (!poolAddress.success) return errorResult(poolAddress.error!);
+
+  const poolType = typeof obj.poolType === 'string' ? obj.poolType : 'unknown';
+  if (!ALLOWED_STREAM_POOL_TYPES.includes(poolType)) {
+    return errorResult(`streamed[${index}].poolType must be one of: ${ALLOWED_STREAM_POOL_TYPES.join(', ')}`);
+  }
+
+  let liquidity = 0;
+  if (obj.liquidity !== undefined) {
+    const result = validateNumber(obj.liquidity, `streamed[${index}].liquidity`, 0, 10000000);
+    if (!result.success) return errorResult(result.error!);
+    liquidity = result.data!;
+  }
+
+  let detectedAtSlot: number | null = null;
+  if (obj.detectedAtSlot !== undefined && obj.detectedAtSlot !== null) {
+    const result = validateNumber(obj.detectedAtSlot, `streamed[${index}].detectedAtSlot`, 0);
+    if (!result.success) return errorResult(result.error!);
+    detectedAtSlot = result.data!;
+  }
+
+  return {
+    success: true,
+    data: {
+      address: address.data!,
+      poolAddress: poolAddress.data!,
+      poolType,
+      liquidity,
+      name: typeof obj.name === 'string' ? obj.name.slice(0, 100) : '',
+      symbol: typeof obj.symbol === 'string' ? obj.symbol.slice(0, 20) : '',
+      detectedAtSlot,
+    },
+  };
+}
 
 export function validateTokenScannerInput(body: unknown): ValidationResult<TokenScannerInput> {
   if (typeof body !== 'object' || body === null) {
-    return { success: true, data: { minLiquidity: 300, chains: ['solana'] } };
+    return { success: true, data: { minLiquidity: 300, chains: ['solana'], streamed: [] } };
   }
   
   const obj = body as Record<string, unknown>;
@@ -164,7 +222,23 @@ export function validateTokenScannerInput(body: unknown): ValidationResult<Token
     chains = validChains;
   }
   
-  return { success: true, data: { minLiquidity, chains } };
+  // Validate streamed pool candidates
+  const streamed: StreamedPoolCandidate[] = [];
+  if (obj.streamed !== undefined) {
+    if (!Array.isArray(obj.streamed)) {
+      return errorResult('streamed must be an array');
+    }
+    if (obj.streamed.length > MAX_STREAMED_CANDIDATES) {
+      return errorResult(`streamed must have at most ${MAX_STREAMED_CANDIDATES} items`);
+    }
+    for (let i = 0; i < obj.streamed.length; i++) {
+      const result = validateStreamedCandidate(obj.streamed[i], i);
+      if (!result.success) return errorResult(result.error!);
+      streamed.push(result.data!);
+    }
+  }
+  
+  return { success: true, data: { minLiquidity, chains, streamed } };
 }
 
 // =============== Auto-Sniper Validation ===============
@@ -180,6 +254,10 @@ export interface TokenData {
   riskScore: number;
   categories: string[];
   priceUsd?: number;
+  holders?: number;
+  marketCap?: number;
+  volume24h?: number;
+  createdAt?: string;
 }
 
 export interface AutoSniperInput {
@@ -221,6 +299,10 @@ function validateTokenData(item: unknown, index: number): ValidationResult<Token
       riskScore,
       categories: Array.isArray(obj.categories) ? obj.categories.filter(c => typeof c === 'string').slice(0, 20) : [],
       priceUsd: typeof obj.priceUsd === 'number' ? obj.priceUsd : undefined,
+      holders: typeof obj.holders === 'number' && obj.holders >= 0 ? obj.holders : undefined,
+      marketCap: typeof obj.marketCap === 'number' && obj.marketCap >= 0 ? obj.marketCap : undefined,
+      volume24h: typeof obj.volume24h === 'number' && obj.volume24h >= 0 ? obj.volume24h : undefined,
+      createdAt: typeof obj.createdAt === 'string' && !isNaN(Date.parse(obj.createdAt)) ? obj.createdAt.slice(0, 40) : undefined,
     }
   };
 }
@@ -299,7 +381,8 @@ export function validateAutoExitInput(body: unknown): ValidationResult<AutoExitI
 }
 
 // =============== Risk Check Validation ===============
-export type RiskCheckAction = 'get_settings' | 'update_settings' | 'emergency_stop' | 'reset_circuit_breaker' | 'check_tokens' | 'get_logs';
+export type RiskCheckAction = 'get_settings' | 'update_settings' | 'emergency_stop' | 'reset_circuit_breaker' | 'check_tokens' | 'get_logs' | 'get_breaker_status' | 'analyze_holders';
+export type RiskCheckStrategy = 'sniper' | 'copy_trade' | 'manual';
 
 export interface RiskCheckToken {
   address: string;
@@ -313,9 +396,12 @@ export interface RiskCheckInput {
   updates?: Record<string, unknown>;
   active?: boolean;
   limit?: number;
+  // Entry path asking, so a strategy paused by the circuit breaker can be refused
+  strategy?: RiskCheckStrategy;
 }
 
-const RISK_CHECK_ACTIONS: RiskCheckAction[] = ['get_settings', 'update_settings', 'emergency_stop', 'reset_circuit_breaker', 'check_tokens', 'get_logs'];
+const RISK_CHECK_ACTIONS: RiskCheckAction[] = ['get_settings', 'update_settings', 'emergency_stop', 'reset_circuit_breaker', 'check_tokens', 'get_logs', 'get_breaker_status', 'analyze_holders'];
+const RISK_CHECK_STRATEGIES: RiskCheckStrategy[] = ['sniper', 'copy_trade', 'manual'];
 
 export function validateRiskCheckInput(body: unknown): ValidationResult<RiskCheckInput> {
   if (typeof body !== 'object' || body === null) {
@@ -333,7 +419,7 @@ export function validateRiskCheckInput(body: unknown): ValidationResult<RiskChec
   const result: RiskCheckInput = { action };
   
   // Validate action-specific fields
-  if (action === 'check_tokens') {
+  if (action === 'check_tokens' || action === 'analyze_holders') {
     if (obj.tokens !== undefined) {
       if (!Array.isArray(obj.tokens)) {
         return errorResult('tokens must be an array');
@@ -358,6 +444,14 @@ export function validateRiskCheckInput(body: unknown): ValidationResult<RiskChec
       }
       result.tokens = validTokens;
     }
+    if (action === 'analyze_holders' && !result.tokens?.length) {
+      return errorResult('analyze_holders requires one token');
+    }
+    if (obj.strategy !== undefined) {
+      const strategyResult = validateEnum(obj.strategy, 'strategy', RISK_CHECK_STRATEGIES);
+      if (!strategyResult.success) return errorResult(strategyResult.error!);
+      result.strategy = strategyResult.data!;
+    }
   }
   
   if (action === 'update_settings' && obj.updates !== undefined) {
@@ -374,7 +468,7 @@ export function validateRiskCheckInput(body: unknown): ValidationResult<RiskChec
     result.active = obj.active;
   }
   
-  if (action === 'get_logs') {
+  if (action === 'get_logs' || action === 'get_breaker_status') {
     if (obj.limit !== undefined) {
       const limitResult = validateNumber(obj.limit, 'limit', 1, 200);
       if (!limitResult.success) return errorResult(limitResult.error!);
@@ -509,3 +603,267 @@ export function validateAdminAnalyticsInput(body: unknown): ValidationResult<Adm
   
   return { success: true, data: result };
 }
+
+// =============== Token OHLCV Validation ===============
+export type OhlcvTimeframe = '1H' | '4H' | '24H' | '7D';
+
+export interface TokenOhlcvInput {
+  tokenAddress: string;
+  timeframe: OhlcvTimeframe;
+  pairAddress?: string;
+}
+
+const OHLCV_TIMEFRAMES: OhlcvTimeframe[] = ['1H', '4H', '24H', '7D'];
+
+export function validateTokenOhlcvInput(body: unknown): ValidationResult<TokenOhlcvInput> {
+  if (typeof body !== 'object' || body === null) {
+    return errorResult('Request body must be an object');
+  }
+  
+  const obj = body as Record<string, unknown>;
+  
+  const addressResult = validateAddress(obj.tokenAddress, 'tokenAddress');
+  if (!addressResult.success) return errorResult(addressResult.error!);
+  
+  let timeframe: OhlcvTimeframe = '24H';
+  if (obj.timeframe !== undefined) {
+    const tfResult = validateEnum(obj.timeframe, 'timeframe', OHLCV_TIMEFRAMES);
+    if (!tfResult.success) return errorResult(tfResult.error!);
+    timeframe = tfResult.data!;
+  }
+  
+  const result: TokenOhlcvInput = { tokenAddress: addressResult.data!, timeframe };
+  
+  // Optional pool address (skips the pool lookup when the scanner already knows it)
+  if (obj.pairAddress !== undefined && obj.pairAddress !== null && obj.pairAddress !== '') {
+    const pairResult = validateAddress(obj.pairAddress, 'pairAddress');
+    if (!pairResult.success) return errorResult(pairResult.error!);
+    result.pairAddress = pairResult.data!;
+  }
+  
+  return { success: true, data: result };
+}
+
+// =============== Copy Trade Worker Validation ===============
+export interface CopyTradeWorkerInput {
+  leaderId?: string;
+}
+
+export function validateCopyTradeWorkerInput(body: unknown): ValidationResult<CopyTradeWorkerInput> {
+  if (typeof body !== 'object' || body === null) {
+    return { success: true, data: {} };
+  }
+  
+  const obj = body as Record<string, unknown>;
+  
+  // Optional: poll a single leader instead of all active ones
+  if (obj.leaderId !== undefined && obj.leaderId !== null) {
+    const idResult = validateUUID(obj.leaderId, 'leaderId');
+    if (!idResult.success) return errorResult(idResult.error!);
+    return { success: true, data: { leaderId: idResult.data! } };
+  }
+  
+  return { success: true, data: {} };
+}
+
+// =============== Jito Bundle Validation ===============
+export type JitoBundleAction = 'config' | 'send' | 'status' | 'tip_accounts';
+
+export interface JitoBundleInput {
+  action: JitoBundleAction;
+  transactions?: string[];  // base64 signed transactions, tip last
+  bundleId?: string;
+}
+
+const JITO_BUNDLE_ACTIONS: JitoBundleAction[] = ['config', 'send', 'status', 'tip_accounts'];
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export function validateJitoBundleInput(body: unknown): ValidationResult<JitoBundleInput> {
+  if (typeof body !== 'object' || body === null) {
+    return errorResult('Request body is required');
+  }
+  
+  const obj = body as Record<string, unknown>;
+  const actionResult = validateEnum(obj.action, 'action', JITO_BUNDLE_ACTIONS);
+  if (!actionResult.success) return errorResult(actionResult.error!);
+  
+  const action = actionResult.data!;
+  
+  if (action === 'send') {
+    // A serialized transaction is at most 1232 bytes, ~1644 chars of base64
+    const txResult = validateArray<string>(obj.transactions, 'transactions', 5, (item) => {
+      if (typeof item !== 'string' || item.length === 0 || item.length > 1700 || !BASE64_PATTERN.test(item)) {
+        return errorResult('must be a base64-encoded transaction');
+      }
+      return { success: true, data: item };
+    });
+    if (!txResult.success) return errorResult(txResult.error!);
+    if (txResult.data!.length < 2) return errorResult('transactions must include the swap and the tip transaction');
+    return { success: true, data: { action, transactions: txResult.data! } };
+  }
+  
+  if (action === 'status') {
+    const idResult = validateString(obj.bundleId, 'bundleId', 1, 128);
+    if (!idResult.success) return errorResult(idResult.error!);
+    if (!/^[0-9a-fA-F]+$/.test(idResult.data!)) return errorResult('bundleId must be a hex string');
+    return { success: true, data: { action, bundleId: idResult.data! } };
+  }
+  
+  return { success: true, data: { action } };
+}
+
+// =============== Notify Validation ===============
+
+export type NotifyAction = 'dispatch' | 'test_channel';
+
+export interface NotifyInput {
+  action: NotifyAction;
+  notificationId?: string;
+  channelId?: string;
+}
+
+const NOTIFY_ACTIONS: NotifyAction[] = ['dispatch', 'test_channel'];
+
+export function validateNotifyInput(body: unknown): ValidationResult<NotifyInput> {
+  if (typeof body !== 'object' || body === null) {
+    return errorResult('Request body is required');
+  }
+  
+  const obj = body as Record<string, unknown>;
+  const actionResult = validateEnum(obj.action, 'action', NOTIFY_ACTIONS);
+  if (!actionResult.success) return errorResult(actionResult.error!);
+  
+  const action = actionResult.data!;
+  
+  if (action === 'dispatch') {
+    const idResult = validateUUID(obj.notificationId, 'notificationId');
+    if (!idResult.success) return errorResult(idResult.error!);
+    return { success: true, data: { action, notificationId: idResult.data! } };
+  }
+  
+  const channelResult = validateUUID(obj.channelId, 'channelId');
+  if (!channelResult.success) return errorResult(channelResult.error!);
+  return { success: true, data: { action, channelId: channelResult.data! } };
+}
+
+// =============== Bot Runner Validation ===============
+
+export type BotRunnerAction = 'tick' | 'status' | 'configure' | 'create_session_key' | 'revoke_session_key' | 'run_now';
+
+export interface BotRunnerInput {
+  action: BotRunnerAction;
+  enabled?: boolean;
+  autoEntry?: boolean;
+  autoExit?: boolean;
+  maxTradeSol?: number;
+  ttlHours?: number;
+  // Where revoking returns the session key's SOL
+  sweepTo?: string;
+}
+
+const BOT_RUNNER_ACTIONS: BotRunnerAction[] = ['tick', 'status', 'configure', 'create_session_key', 'revoke_session_key', 'run_now'];
+
+export function validateBotRunnerInput(body: unknown): ValidationResult<BotRunnerInput> {
+  if (typeof body !== 'object' || body === null) {
+    return errorResult('Request body is required');
+  }
+  
+  const obj = body as Record<string, unknown>;
+  const actionResult = validateEnum(obj.action, 'action', BOT_RUNNER_ACTIONS);
+  if (!actionResult.success) return errorResult(actionResult.error!);
+  
+  const action = actionResult.data!;
+  
+  if (action === 'configure') {
+    const input: BotRunnerInput = { action };
+    for (const field of ['enabled', 'autoEntry', 'autoExit'] as const) {
+      if (obj[field] === undefined) continue;
+      const result = validateBoolean(obj[field], field);
+      if (!result.success) return errorResult(result.error!);
+      input[field] = result.data!;
+    }
+    if (obj.maxTradeSol !== undefined) {
+      const result = validateNumber(obj.maxTradeSol, 'maxTradeSol', 0.001, 100);
+      if (!result.success) return errorResult(result.error!);
+      input.maxTradeSol = result.data!;
+    }
+    return { success: true, data: input };
+  }
+  
+  if (action === 'create_session_key') {
+    // Session keys are short-lived by design: one hour to one week
+    let ttlHours = 24;
+    if (obj.ttlHours !== undefined) {
+      const result = validateNumber(obj.ttlHours, 'ttlHours', 1, 168);
+      if (!result.success) return errorResult(result.error!);
+      ttlHours = result.data!;
+    }
+    return { success: true, data: { action, ttlHours } };
+  }
+  
+  if (action === 'revoke_session_key' && obj.sweepTo !== undefined) {
+    const result = validateAddress(obj.sweepTo, 'sweepTo');
+    if (!result.success) return errorResult(result.error!);
+    return { success: true, data: { action, sweepTo: result.data! } };
+  }
+  
+  return { success: true, data: { action } };
+}
+
+// =============== Creator Reputation Validation ===============
+
+export type CreatorReputationAction = 'lookup' | 'resolve_outcomes';
+
+export interface CreatorReputationInput {
+  action: CreatorReputationAction;
+  tokenAddress?: string;
+}
+
+const CREATOR_REPUTATION_ACTIONS: CreatorReputationAction[] = ['lookup', 'resolve_outcomes'];
+
+export function validateCreatorReputationInput(body: unknown): ValidationResult<CreatorReputationInput> {
+  if (typeof body !== 'object' || body === null) {
+    return errorResult('Request body is required');
+  }
+  
+  const obj = body as Record<string, unknown>;
+  const actionResult = validateEnum(obj.action, 'action', CREATOR_REPUTATION_ACTIONS);
+  if (!actionResult.success) return errorResult(actionResult.error!);
+  
+  const action = actionResult.data!;
+  if (action === 'lookup') {
+    const addressResult = validateAddress(obj.tokenAddress, 'tokenAddress');
+    if (!addressResult.success) return errorResult(addressResult.error!);
+    return { success: true, data: { action, tokenAddress: addressResult.data! } };
+  }
+  
+  return { success: true, data: { action } };
+}
+
+// =============== API Health Validation ===============
+
+export type ApiHealthAction = 'status' | 'probe';
+
+export interface ApiHealthInput {
+  action: ApiHealthAction;
+}
+
+const API_HEALTH_ACTIONS: ApiHealthAction[] = ['status', 'probe'];
+
+// The widget calls without a body - that is a status request
+export function validateApiHealthInput(body: unknown): ValidationResult<ApiHealthInput> {
+  if (body === null || body === undefined) {
+    return { success: true, data: { action: 'status' } };
+  }
+  if (typeof body !== 'object') {
+    return errorResult('Request body must be an object');
+  }
+  
+  const obj = body as Record<string, unknown>;
+  if (obj.action === undefined) {
+    return { success: true, data: { action: 'status' } };
+  }
+  const actionResult = validateEnum(obj.action, 'action', API_HEALTH_ACTIONS);
+  if (!actionResult.success) return errorResult(actionResult.error!);
+  return { success: true, data: { action: actionResult.data! } };
+}
@@ -1,5 +1,10 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import { getApiKey, API_VALIDATION_ENDPOINTS } from "../_shared/api-keys.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getApiKey, API_VALIDATION_ENDPOINTS, validateInternalToken } from "../_shared/api-keys.ts";
+import { timingSafeEqual } from "../_shared/internal-auth.ts";
+import { validateApiHealthInput } from "../_shared/validation.ts";
+import { probeEntryGate, summarizeProbes, type ProbeSummary } from "../_shared/api-probes.ts";
+import { loadProbeSummaries, runScheduledProbes } from "../_shared/api-probes-state.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,7 +13,8 @@ const corsHeaders = {
 
 interface ApiStatus {
   name: string;
-  status: 'online' | 'degraded' | 'offline';
+  // unknown = probed API with no recent probe results
+  status: 'online' | 'degraded' | 'offline' | 'unknown';
   latency: number | null;
   lastCheck: string;
   lastError?: string;
@@ -25,7 +31,7 @@ const API_ENDPOINTS: { name: string; type: string }[] = [
   { name: 'RugCheck', type: 'honeypot_rugcheck' },
 ];
 
-async function checkEndpoint(endpoint: { name: string; type: string }): Promise<ApiStatus> {
+async function checkEndpoint(endpoint: { name: string; type: string }, probes: ProbeSummary[]): Promise<ApiStatus> {
   const start = Date.now();
   const validationConfig = API_VALIDATION_ENDPOINTS[endpoint.type];
   
@@ -42,18 +48,30 @@ async function checkEndpoint(endpoint: { name: string; type: string }): Promise<
   // Get API key from database/env if configured
   const apiKey = await getApiKey(endpoint.type);
   
-  // CRITICAL FIX: Skip HTTP test for APIs with DNS restrictions in edge functions
-  // Jupiter, Raydium, Pump.fun have known DNS issues - just verify key is configured
+  // Jupiter, Raydium and Pump.fun are judged by the scheduled synthetic probes, which
+  // exercise the real route (a quote, a mint lookup) instead of a bare endpoint
+  const probe = probes.find((p) => p.api === endpoint.name);
+  if (probe) {
+    return {
+      name: endpoint.name,
+      status: probe.status,
+      latency: probe.latencyMs,
+      lastCheck: probe.lastCheck ?? new Date().toISOString(),
+      lastError: probe.status === 'unknown' ? 'No recent probe results - is the probe schedule running?' : probe.lastError ?? undefined,
+      hasApiKey: !!apiKey,
+    };
+  }
+
+  // Dextools and liquidity_lock are not probed - just verify the key is configured
   if (validationConfig.skipHttpTest) {
     const latency = Date.now() - start;
     if (apiKey || !validationConfig.requiresKey) {
       return {
         name: endpoint.name,
-        status: 'online', // Assume online since we can't test
+        status: 'online',
         latency,
         lastCheck: new Date().toISOString(),
         hasApiKey: !!apiKey,
-        // Note: Add metadata that test was skipped (frontend can show this)
       };
     } else {
       return {
@@ -191,17 +209,54 @@ async function checkEndpoint(endpoint: { name: string; type: string }): Promise<
   }
 }
 
+// Called by the API health widget (status), and every two minutes by pg_cron with the
+// service role (probe) to run the synthetic probes and store their results.
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const rawBody = await req.json().catch(() => null);
+    const validation = validateApiHealthInput(rawBody);
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ error: validation.error }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 }
+      );
+    }
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    if (validation.data!.action === 'probe') {
+      const token = req.headers.get("Authorization")?.replace(/^Bearer /, "");
+      if (!timingSafeEqual(token, serviceRoleKey) && !(await validateInternalToken(req.headers.get("x-internal-token")))) {
+        return new Response(
+          JSON.stringify({ error: 'Probe runs require internal authorization' }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 403 }
+        );
+      }
+
+      const samples = await runScheduledProbes(supabase);
+      console.log(`[api-health] Probes: ${samples.map(s => `${s.probe} ${s.success ? 'ok' : s.error} (${s.latencyMs}ms)`).join(', ')}`);
+      return new Response(
+        JSON.stringify({ samples, checkedAt: new Date().toISOString() }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
+      );
+    }
+
     console.log('[api-health] Checking API endpoints with configured keys...');
     
+    // Probe history is read-only here - the widget polls far more often than probes run
+    const probes = await loadProbeSummaries(supabase).catch((err: unknown) => {
+      console.error('[api-health] Probe history unavailable:', err);
+      return summarizeProbes([], Date.now());
+    });
+
     // Check all endpoints in parallel
     const results = await Promise.all(
-      API_ENDPOINTS.map(endpoint => checkEndpoint(endpoint))
+      API_ENDPOINTS.map(endpoint => checkEndpoint(endpoint, probes))
     );
     
     const summary = results.map(r => 
@@ -212,6 +267,8 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         statuses: results,
+        probes,
+        entryGate: probeEntryGate(probes),
         checkedAt: new Date().toISOString(),
       }),
       { 
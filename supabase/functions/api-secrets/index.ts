@@ -6,6 +6,7 @@ import {
   decryptKey,
   validateApiKey,
   getAllApiKeyStatus,
+  rotateStoredApiKeys,
   validateInternalToken,
 } from "../_shared/api-keys.ts";
 
@@ -31,7 +32,7 @@ serve(async (req) => {
     if (action === 'get_key_internal') {
       // Validate internal service token
       const internalToken = req.headers.get('x-internal-token');
-      if (!validateInternalToken(internalToken)) {
+      if (!(await validateInternalToken(internalToken))) {
         console.warn('Invalid internal token attempt for get_key_internal');
         return new Response(JSON.stringify({ error: 'Unauthorized internal request' }), {
           status: 401,
@@ -56,7 +57,7 @@ serve(async (req) => {
       let apiKeyValue: string | null = null;
       
       if (config?.api_key_encrypted) {
-        apiKeyValue = decryptKey(config.api_key_encrypted);
+        apiKeyValue = await decryptKey(config.api_key_encrypted);
       }
       
       // Fall back to environment variable
@@ -128,7 +129,7 @@ serve(async (req) => {
         .maybeSingle();
       
       if (config?.api_key_encrypted) {
-        const decrypted = decryptKey(config.api_key_encrypted);
+        const decrypted = await decryptKey(config.api_key_encrypted);
         if (decrypted) return decrypted;
       }
       
@@ -172,7 +173,7 @@ serve(async (req) => {
 
       console.log(`[api-secrets] Saving API key for ${apiType}, length: ${apiKey.trim().length}`);
       
-      const encryptedKey = encryptKey(apiKey.trim());
+      const encryptedKey = await encryptKey(apiKey.trim());
       console.log(`[api-secrets] Encrypted key prefix: ${encryptedKey.substring(0, 10)}...`);
 
       // Check if configuration exists
@@ -234,6 +235,23 @@ serve(async (req) => {
       });
     }
 
+    if (action === 'rotate_encryption') {
+      // Re-encrypts every stored key under the active master key (legacy enc:/aes: values included)
+      const report = await rotateStoredApiKeys();
+
+      console.log(`[AUDIT] API key encryption rotated by admin ${userId} to key ${report.activeKeyId}: ${report.rotated.length} rotated, ${report.failed.length} failed at ${new Date().toISOString()}`);
+
+      return new Response(JSON.stringify({ 
+        success: report.failed.length === 0,
+        ...report,
+        message: report.failed.length === 0
+          ? `Re-encrypted ${report.rotated.length} of ${report.total} stored keys under ${report.activeKeyId}`
+          : `Could not re-encrypt: ${report.failed.join(', ')}`,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (action === 'delete_api_key') {
       if (!apiType || !API_SECRET_MAPPING[apiType]) {
         return new Response(JSON.stringify({ error: 'Invalid API type' }), {
@@ -2,6 +2,39 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateAutoExitInput } from "../_shared/validation.ts";
 import { fetchJupiterQuoteWithRetry } from "../_shared/jupiter-retry.ts";
+import { parseExitPlan, evaluateExitPlan, type ExitPlan, type ExitPlanAction } from "../_shared/exit-plan.ts";
+import { decryptKey, resolveInternalUser } from "../_shared/api-keys.ts";
+import type { RpcCall } from "../_shared/holder-clusters.ts";
+import type { RpcPool } from "../_shared/rpc-pool.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
+import { ensureMintCreator } from "../_shared/creator-reputation-state.ts";
+import { acquireSellLock, holdsSellLock, releaseSellLock } from "../_shared/sell-lock-state.ts";
+import {
+  GUARDIAN_LIMITS,
+  isGuardianExitReason,
+  parseGuardianConfig,
+  parseGuardianState,
+  runGuardianCheck,
+  type GuardianConfig,
+  type GuardianExitReason,
+  type GuardianTrigger,
+} from "../_shared/position-guardian.ts";
+import {
+  detectMigrationVenue,
+  fetchBondingCurve,
+  quoteCurveSell,
+  resolveCurveRoute,
+  type CurveSnapshot,
+  type CurveStage,
+  type ExitRoute,
+} from "../_shared/pump-curve.ts";
+import {
+  simulateSwapTransaction,
+  formatSimulationFailure,
+  isAdjustableFailure,
+  nextSlippageBps,
+  type SwapSimulationReport,
+} from "../_shared/tx-simulation.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -36,8 +69,18 @@ interface Position {
   stop_loss_percent: number;
   status: 'open' | 'closed' | 'pending';
   created_at: string; // Added for external sale detection timing
+  exit_plan: unknown | null; // Per-position override; null = user's default plan
+  peak_price: number | null; // High-water mark for the trailing stop
+  initial_amount: number | null; // Original size - ladder tiers are a share of this
+  exit_tiers_filled: number[] | null;
+  wallet_address: string | null; // Trading wallet that opened the position (null = legacy)
+  guardian_state: unknown | null; // Watched accounts + recent samples for the position guardian
+  token_stage: CurveStage | null; // BONDING_CURVE / MIGRATED for Pump.fun launches
+  exit_route: ExitRoute | null; // null = not resolved yet
 }
 
+type ExitReason = Exclude<ExitPlanAction, 'hold'> | GuardianExitReason;
+
 // Helper: generate short address format instead of "Unknown"
 function shortAddress(address: string | null | undefined): string {
   if (!address || address.length < 10) return 'TOKEN';
@@ -60,12 +103,25 @@ interface PriceData {
 interface ExitResult {
   positionId: string;
   symbol: string;
-  action: 'hold' | 'take_profit' | 'stop_loss';
+  action: ExitPlanAction | GuardianExitReason;
+  // What the position guardian saw, for emergency exits
+  guardianDetail?: string;
   currentPrice: number;
   profitLossPercent: number;
+  // Fraction of the remaining amount to sell (1 = full exit)
+  sellFraction?: number;
+  tierIndexes?: number[];
   executed: boolean;
   txId?: string;
   error?: string;
+  // Slippage the sell simulated cleanly at - the signing client should quote with it
+  slippageBps?: number;
+  simulation?: SwapSimulationReport | null;
+  // The simulated sell, built for the position's wallet - signable as-is by a holder of that key
+  swapTransaction?: string;
+  tokenAmount?: number;
+  // Where the sell goes - the signing client builds pump_curve sells against the curve
+  exitRoute?: ExitRoute;
 }
 
 // SPL Token Mint layout: decimals at offset 44
@@ -76,24 +132,9 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`RPC error ${res.status}: ${text.slice(0, 160)}`);
-  }
-  const data = await res.json();
-  if (data?.error) throw new Error(data.error?.message || 'RPC returned an error');
-  return data?.result;
-}
-
-async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
+async function getMintDecimals(rpc: RpcCall, mint: string): Promise<number> {
   if (mint === 'So11111111111111111111111111111111111111112') return 9;
-  const result = await rpcRequest(rpcUrl, 'getAccountInfo', [mint, { encoding: 'base64' }]);
+  const result = await rpc('getAccountInfo', [mint, { encoding: 'base64' }]) as { value?: { data?: unknown } | null } | null;
   const value = result?.value;
   const data = value?.data;
   const base64 = Array.isArray(data) ? data[0] : null;
@@ -111,7 +152,7 @@ function toBaseUnits(amountDecimal: number, decimals: number): string {
 }
 
 // Get API key from environment (secure) with fallback to database (legacy)
-function getApiKey(apiType: string, dbApiKey: string | null): string | null {
+async function getApiKey(apiType: string, dbApiKey: string | null): Promise<string | null> {
   // Priority 1: Environment variable (Supabase Secrets - secure)
   const envKey = Deno.env.get(`${apiType.toUpperCase()}_API_KEY`);
   if (envKey) {
@@ -122,7 +163,7 @@ function getApiKey(apiType: string, dbApiKey: string | null): string | null {
   // Priority 2: Database fallback (legacy - less secure)
   if (dbApiKey) {
     console.log(`Warning: Using database-stored API key for ${apiType} - migrate to Supabase Secrets`);
-    return dbApiKey;
+    return decryptKey(dbApiKey);
   }
   
   return null;
@@ -132,6 +173,7 @@ function getApiKey(apiType: string, dbApiKey: string | null): string | null {
 // CRITICAL: This must NOT trigger for newly created positions (< 60 seconds old)
 // to avoid false "sold_externally" closures due to RPC propagation delays
 async function checkOnChainBalance(
+  rpc: RpcCall,
   tokenAddress: string,
   walletAddress: string,
   positionCreatedAt: string
@@ -147,32 +189,13 @@ async function checkOnChainBalance(
       return { hasBalance: true, balance: 0, skipped: true };
     }
     
-    // Use Helius or Solana RPC to check token balance
-    const rpcUrl = Deno.env.get('HELIUS_RPC_URL') || Deno.env.get('SOLANA_RPC_URL') || 'https://api.mainnet-beta.solana.com';
-    
-    // Get token accounts for this mint
-    const response = await fetch(rpcUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'getTokenAccountsByOwner',
-        params: [
-          walletAddress,
-          { mint: tokenAddress },
-          { encoding: 'jsonParsed' }
-        ],
-      }),
-    });
-    
-    if (!response.ok) {
-      console.log(`[AutoExit] RPC balance check failed: ${response.status}`);
-      return { hasBalance: true, balance: 0, skipped: false }; // Assume has balance if check fails
-    }
-    
-    const data = await response.json();
-    const accounts = data?.result?.value || [];
+    // Get token accounts for this mint (an RPC failure lands in the catch below)
+    const result = await rpc('getTokenAccountsByOwner', [
+      walletAddress,
+      { mint: tokenAddress },
+      { encoding: 'jsonParsed' }
+    ]) as { value?: { account?: { data?: { parsed?: { info?: { tokenAmount?: { uiAmount?: number | null } } } } } }[] } | null;
+    const accounts = result?.value || [];
     
     if (accounts.length === 0) {
       console.log(`[AutoExit] No token account found for ${shortAddress(tokenAddress)} - likely sold externally`);
@@ -244,7 +267,7 @@ async function fetchCurrentPrice(
   // Try Birdeye (Solana) - uses secure API key retrieval
   const birdeyeConfig = apiConfigs.find(c => c.api_type === 'birdeye' && c.is_enabled);
   if (birdeyeConfig && chain === 'solana') {
-    const apiKey = getApiKey('birdeye', birdeyeConfig.api_key_encrypted);
+    const apiKey = await getApiKey('birdeye', birdeyeConfig.api_key_encrypted);
     if (apiKey) {
       try {
         const response = await fetch(`${birdeyeConfig.base_url}/defi/price?address=${tokenAddress}`, {
@@ -266,18 +289,46 @@ async function fetchCurrentPrice(
   return null;
 }
 
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const EXIT_SLIPPAGE_BPS = 1500;
+const JUPITER_SWAP_URL = 'https://lite-api.jup.ag/swap/v1/swap';
+
+// Build the sell exactly as the signing client will, so it can be simulated first
+async function buildJupiterSellTransaction(quote: unknown, ownerAddress: string): Promise<string | null> {
+  try {
+    const res = await fetch(JUPITER_SWAP_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        quoteResponse: quote,
+        userPublicKey: ownerAddress,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+      }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return typeof data?.swapTransaction === 'string' ? data.swapTransaction : null;
+  } catch {
+    return null;
+  }
+}
+
 // Execute sell via Jupiter (real on-chain swap)
+// With the owner's address the built sell is simulated first; slippage reverts are re-quoted
+// higher, token-level reverts (frozen, transfer hook, tax) are reported instead of signed.
 async function executeJupiterSell(
   position: Position,
-  reason: 'take_profit' | 'stop_loss',
-  rpcUrl: string,
-  tokenAmountUiOverride?: number
-): Promise<{ success: boolean; txId?: string; quote?: any; error?: string }> {
+  reason: ExitReason,
+  rpcPool: RpcPool,
+  tokenAmountUiOverride?: number,
+  ownerAddress?: string | null,
+  initialSlippageBps: number = EXIT_SLIPPAGE_BPS
+): Promise<{ success: boolean; txId?: string; quote?: any; error?: string; slippageBps?: number; simulation?: SwapSimulationReport | null; swapTransaction?: string }> {
   try {
     console.log(`[AutoExit] Executing SELL via Jupiter for ${position.token_symbol} - Reason: ${reason}`);
-    
-    const SOL_MINT = 'So11111111111111111111111111111111111111112';
-    
+
     const tokenAmountUi = (typeof tokenAmountUiOverride === 'number' && tokenAmountUiOverride > 0)
       ? tokenAmountUiOverride
       : position.amount;
@@ -285,45 +336,73 @@ async function executeJupiterSell(
     // Convert token amount to base units using real mint decimals
     let decimals = 6;
     try {
-      decimals = await getMintDecimals(rpcUrl, position.token_address);
+      decimals = await getMintDecimals(rpcPool.call, position.token_address);
     } catch {
       decimals = 6;
     }
 
     const amountInSmallestUnit = toBaseUnits(tokenAmountUi, decimals);
     
-    // Use retry-enabled Jupiter quote fetcher for rate limit resilience
-    console.log(`[AutoExit] Fetching Jupiter quote with retry...`);
-    const quoteResult = await fetchJupiterQuoteWithRetry({
-      inputMint: position.token_address,
-      outputMint: SOL_MINT,
-      amount: amountInSmallestUnit,
-      slippageBps: 1500,
-    });
-    
-    if (quoteResult.ok === false) {
-      console.error(`[AutoExit] Jupiter quote failed:`, quoteResult.kind, quoteResult.message);
+    let slippageBps: number = initialSlippageBps;
+    let simulation: SwapSimulationReport | null = null;
+
+    for (;;) {
+      // Use retry-enabled Jupiter quote fetcher for rate limit resilience
+      console.log(`[AutoExit] Fetching Jupiter quote with retry (${slippageBps} bps)...`);
+      const quoteResult = await fetchJupiterQuoteWithRetry({
+        inputMint: position.token_address,
+        outputMint: SOL_MINT,
+        amount: amountInSmallestUnit,
+        slippageBps,
+      });
       
-      if (quoteResult.kind === 'NO_ROUTE') {
-        return { success: false, error: 'No Jupiter route available - token may not be indexed or has no liquidity' };
+      if (quoteResult.ok === false) {
+        console.error(`[AutoExit] Jupiter quote failed:`, quoteResult.kind, quoteResult.message);
+        
+        if (quoteResult.kind === 'NO_ROUTE') {
+          return { success: false, error: 'No Jupiter route available - token may not be indexed or has no liquidity' };
+        }
+        if (quoteResult.kind === 'RATE_LIMITED') {
+          return { success: false, error: 'Jupiter rate limited - will retry on next cycle' };
+        }
+        return { success: false, error: quoteResult.message || 'Jupiter quote failed' };
       }
-      if (quoteResult.kind === 'RATE_LIMITED') {
-        return { success: false, error: 'Jupiter rate limited - will retry on next cycle' };
+      
+      const quoteData = quoteResult.quote;
+      console.log(`[AutoExit] Jupiter quote received - Output: ${quoteData.outAmount} lamports`);
+
+      // Pre-flight simulation of the sell the owner will be asked to sign
+      const swapTransaction = ownerAddress ? await buildJupiterSellTransaction(quoteData, ownerAddress) : null;
+      simulation = swapTransaction ? await simulateSwapTransaction(rpcPool.current().url, swapTransaction, { fetchImpl: rpcPool.fetch }) : null;
+
+      if (simulation?.status === 'failed' && simulation.failure) {
+        const retryBps = isAdjustableFailure(simulation.failure.kind) ? nextSlippageBps(slippageBps) : null;
+        if (retryBps !== null) {
+          console.log(`[AutoExit] Sell simulation hit slippage at ${slippageBps} bps, re-quoting at ${retryBps} bps`);
+          slippageBps = retryBps;
+          continue;
+        }
+        console.log(`[AutoExit] ❌ Sell simulation failed for ${position.token_symbol}: ${simulation.failure.kind}`);
+        return {
+          success: false,
+          error: `SIMULATION_FAILED: ${formatSimulationFailure(simulation.failure)}`,
+          slippageBps,
+          simulation,
+        };
       }
-      return { success: false, error: quoteResult.message || 'Jupiter quote failed' };
+      
+      // Return quote data for building transaction
+      // NOTE: Auto-exit cannot sign transactions - it needs to return quote info
+      // The frontend must handle the actual transaction signing and broadcasting
+      return {
+        success: true,
+        quote: quoteData,
+        txId: `jupiter_quote_${Date.now()}`,
+        slippageBps,
+        simulation,
+        swapTransaction: swapTransaction ?? undefined,
+      };
     }
-    
-    const quoteData = quoteResult.quote;
-    console.log(`[AutoExit] Jupiter quote received - Output: ${quoteData.outAmount} lamports`);
-    
-    // Return quote data for building transaction
-    // NOTE: Auto-exit cannot sign transactions - it needs to return quote info
-    // The frontend must handle the actual transaction signing and broadcasting
-    return {
-      success: true,
-      quote: quoteData,
-      txId: `jupiter_quote_${Date.now()}`,
-    };
   } catch (error) {
     console.error('[AutoExit] Jupiter sell error:', error);
     return { 
@@ -336,8 +415,9 @@ async function executeJupiterSell(
 // Execute sell via external trade execution API (if configured)
 async function executeSellViaApi(
   position: Position,
-  reason: 'take_profit' | 'stop_loss',
-  tradeExecutionConfig: ApiConfig
+  reason: ExitReason,
+  tradeExecutionConfig: ApiConfig,
+  tokenAmountUi: number = position.amount
 ): Promise<{ success: boolean; txId?: string; error?: string }> {
   try {
     console.log(`[AutoExit] Executing SELL via API for ${position.token_symbol} - Reason: ${reason}`);
@@ -346,8 +426,8 @@ async function executeSellViaApi(
       tokenAddress: position.token_address,
       chain: position.chain,
       action: 'sell',
-      amount: position.amount,
-      slippage: 10, // Higher slippage for exit
+      amount: tokenAmountUi,
+      slippage: isGuardianExitReason(reason) ? 30 : 10, // Higher slippage for exit, highest for a rug
       reason,
       positionId: position.id,
     };
@@ -356,7 +436,7 @@ async function executeSellViaApi(
       'Content-Type': 'application/json',
     };
     
-    const apiKey = getApiKey('trade_execution', tradeExecutionConfig.api_key_encrypted);
+    const apiKey = await getApiKey('trade_execution', tradeExecutionConfig.api_key_encrypted);
     if (apiKey) {
       headers['Authorization'] = `Bearer ${apiKey}`;
     }
@@ -386,17 +466,30 @@ async function executeSellViaApi(
   }
 }
 
+interface ExitCheckResult {
+  shouldExit: boolean;
+  reason: ExitReason | null;
+  profitLossPercent: number;
+  sellFraction: number;
+  tierIndexes: number[];
+  peakPrice: number | null;
+}
+
 // Check if position should exit
 // CRITICAL: Use entry_price_usd for USD-based price comparisons
 // SANITY CHECK: Clamp P&L to reasonable bounds to prevent numeric overflow
+// With an exit plan, the ladder/trailing stop replace the fixed take-profit (stop-loss still applies)
 function checkExitConditions(
   position: Position,
-  currentPrice: number
-): { shouldExit: boolean; reason: 'take_profit' | 'stop_loss' | null; profitLossPercent: number } {
+  currentPrice: number,
+  exitPlan: ExitPlan | null
+): ExitCheckResult {
+  const noExit = { shouldExit: false, reason: null, profitLossPercent: 0, sellFraction: 0, tierIndexes: [], peakPrice: position.peak_price };
+
   // CRITICAL: Validate input prices to prevent overflow
   if (!currentPrice || currentPrice <= 0 || !Number.isFinite(currentPrice)) {
     console.log(`[AutoExit] Invalid current price for ${position.token_symbol}: ${currentPrice}`);
-    return { shouldExit: false, reason: null, profitLossPercent: 0 };
+    return noExit;
   }
   
   // Use USD entry price if available for accurate P&L
@@ -406,7 +499,7 @@ function checkExitConditions(
   // SANITY CHECK: Entry price must be valid
   if (!entryPriceForCalc || entryPriceForCalc <= 0 || !Number.isFinite(entryPriceForCalc)) {
     console.log(`[AutoExit] Invalid entry price for ${position.token_symbol}: entry_price_usd=${position.entry_price_usd}, entry_price=${position.entry_price}`);
-    return { shouldExit: false, reason: null, profitLossPercent: 0 };
+    return noExit;
   }
   
   // Calculate raw P&L
@@ -423,17 +516,173 @@ function checkExitConditions(
     profitLossPercent = Math.max(MAX_REASONABLE_LOSS, Math.min(MAX_REASONABLE_GAIN, profitLossPercent));
   }
   
+  if (exitPlan) {
+    const decision = evaluateExitPlan(exitPlan, {
+      entryPrice: entryPriceForCalc,
+      currentAmount: position.amount,
+      initialAmount: position.initial_amount,
+      peakPrice: position.peak_price,
+      tiersFilled: Array.isArray(position.exit_tiers_filled) ? position.exit_tiers_filled : [],
+      stopLossPercent: position.stop_loss_percent,
+      profitTakePercent: position.profit_take_percent,
+    }, currentPrice, profitLossPercent);
+
+    return {
+      shouldExit: decision.action !== 'hold',
+      reason: decision.action === 'hold' ? null : decision.action,
+      profitLossPercent,
+      sellFraction: decision.sellFraction,
+      tierIndexes: decision.tierIndexes,
+      peakPrice: decision.peakPrice,
+    };
+  }
+
+  const peakPrice = Math.max(position.peak_price ?? entryPriceForCalc, currentPrice);
+  
   // Check take profit
   if (profitLossPercent >= position.profit_take_percent) {
-    return { shouldExit: true, reason: 'take_profit', profitLossPercent };
+    return { shouldExit: true, reason: 'take_profit', profitLossPercent, sellFraction: 1, tierIndexes: [], peakPrice };
   }
   
   // Check stop loss (negative threshold)
   if (profitLossPercent <= -position.stop_loss_percent) {
-    return { shouldExit: true, reason: 'stop_loss', profitLossPercent };
+    return { shouldExit: true, reason: 'stop_loss', profitLossPercent, sellFraction: 1, tierIndexes: [], peakPrice };
   }
   
-  return { shouldExit: false, reason: null, profitLossPercent };
+  return { shouldExit: false, reason: null, profitLossPercent, sellFraction: 0, tierIndexes: [], peakPrice };
+}
+
+// Rug early warning for one position. Failures are logged and never block the price-based exits.
+const PUMPPORTAL_TRADE_URL = 'https://pumpportal.fun/api/trade-local';
+
+// Build a sell against the Pump.fun curve for the owner's wallet
+async function buildCurveSellTransaction(
+  mint: string,
+  tokenAmountUi: number,
+  ownerAddress: string,
+  slippageBps: number
+): Promise<string | null> {
+  try {
+    const res = await fetch(PUMPPORTAL_TRADE_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        publicKey: ownerAddress,
+        action: 'sell',
+        mint,
+        amount: tokenAmountUi,
+        denominatedInSol: 'false',
+        slippage: slippageBps / 100,
+        priorityFee: 0.0005,
+        pool: 'pump',
+      }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!res.ok) return null;
+    return btoa(String.fromCharCode(...new Uint8Array(await res.arrayBuffer())));
+  } catch {
+    return null;
+  }
+}
+
+// Sell into the bonding curve: quoted locally from the curve account, simulated like a Jupiter sell
+async function executeCurveSell(
+  position: Position,
+  reason: ExitReason,
+  rpcPool: RpcPool,
+  curve: CurveSnapshot,
+  tokenAmountUi: number,
+  ownerAddress?: string | null,
+  initialSlippageBps: number = EXIT_SLIPPAGE_BPS
+): Promise<{ success: boolean; txId?: string; quote?: { route: string; outSol: number; priceImpactPercent: number }; error?: string; slippageBps?: number; simulation?: SwapSimulationReport | null; swapTransaction?: string }> {
+  console.log(`[AutoExit] Executing SELL on Pump.fun curve for ${position.token_symbol} - Reason: ${reason}`);
+
+  const quote = quoteCurveSell(curve, tokenAmountUi);
+  if (!quote) {
+    return { success: false, error: 'No Jupiter route available - bonding curve has no SOL to sell into' };
+  }
+
+  let slippageBps = initialSlippageBps;
+  let simulation: SwapSimulationReport | null = null;
+  for (;;) {
+    const swapTransaction = ownerAddress
+      ? await buildCurveSellTransaction(position.token_address, tokenAmountUi, ownerAddress, slippageBps)
+      : null;
+    simulation = swapTransaction ? await simulateSwapTransaction(rpcPool.current().url, swapTransaction, { fetchImpl: rpcPool.fetch }) : null;
+
+    if (simulation?.status === 'failed' && simulation.failure) {
+      const retryBps = isAdjustableFailure(simulation.failure.kind) ? nextSlippageBps(slippageBps) : null;
+      if (retryBps !== null) {
+        slippageBps = retryBps;
+        continue;
+      }
+      return {
+        success: false,
+        error: `SIMULATION_FAILED: ${formatSimulationFailure(simulation.failure)}`,
+        slippageBps,
+        simulation,
+      };
+    }
+
+    return {
+      success: true,
+      quote: { route: 'pump_curve', outSol: quote.amountOut, priceImpactPercent: quote.priceImpactPercent },
+      txId: `pump_curve_quote_${Date.now()}`,
+      slippageBps,
+      simulation,
+      swapTransaction: swapTransaction ?? undefined,
+    };
+  }
+}
+
+// Stage and exit route of a position. Resolved once for ordinary tokens; re-read every cycle
+// while the token is on its curve so the migration is caught on the next cycle after it happens.
+async function resolvePositionRoute(
+  rpc: RpcCall,
+  position: Position
+): Promise<{ stage: CurveStage | null; exitRoute: ExitRoute; curve: CurveSnapshot | null } | null> {
+  const onCurve = position.token_stage === 'BONDING_CURVE';
+  const venuePending = position.token_stage === 'MIGRATED' && position.exit_route === 'jupiter';
+  if (position.exit_route && !onCurve && !venuePending) {
+    return { stage: position.token_stage, exitRoute: position.exit_route, curve: null };
+  }
+  try {
+    const curve = await fetchBondingCurve(rpc, position.token_address);
+    const venue = curve?.complete
+      ? await detectMigrationVenue(position.token_address, fetchJupiterQuoteWithRetry, EXIT_SLIPPAGE_BPS)
+      : null;
+    return { ...resolveCurveRoute(curve, venue), curve };
+  } catch (error) {
+    console.error(`[AutoExit] Curve lookup failed for ${shortAddress(position.token_address)}:`, error);
+    return null;
+  }
+}
+
+async function checkPositionGuardian(
+  supabase: ReturnType<typeof createClient>,
+  rpc: RpcCall,
+  position: Position,
+  ownerAddress: string | null,
+  priceUsd: number | null,
+  config: GuardianConfig
+) {
+  try {
+    const state = parseGuardianState(position.guardian_state);
+    const creator = state
+      ? state.creator
+      : (await ensureMintCreator(supabase, rpc, position.token_address))?.creator ?? null;
+    return await runGuardianCheck(rpc, {
+      mint: position.token_address,
+      owner: ownerAddress,
+      creator,
+      state,
+      priceUsd,
+      config,
+    });
+  } catch (error) {
+    console.error(`[AutoExit] Guardian check failed for ${shortAddress(position.token_address)}:`, error);
+    return null;
+  }
 }
 
 serve(async (req) => {
@@ -460,10 +709,11 @@ serve(async (req) => {
     });
 
     const token = authHeader.slice('Bearer '.length);
-    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
-    const userId = claimsData?.claims?.sub;
+    // The bot runner calls in on a user's behalf with the internal token instead of a JWT
+    const userId = (await resolveInternalUser(req))
+      ?? (await authClient.auth.getClaims(token)).data?.claims?.sub;
 
-    if (claimsError || !userId) {
+    if (!userId) {
       return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
         status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -525,6 +775,17 @@ serve(async (req) => {
       );
     }
 
+    // User's default exit plan (positions without their own plan inherit it)
+    const { data: sniperSettings } = await supabase
+      .from('user_sniper_settings')
+      .select('exit_plan, guardian_config')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const defaultExitPlan = parseExitPlan(sniperSettings?.exit_plan);
+    const guardianConfig = parseGuardianConfig(sniperSettings?.guardian_config);
+    const rpcPool = await getRpcPool();
+    const rpc = rpcPool.call;
+
     const tradeExecutionConfig = apiConfigs?.find((c: ApiConfig) => c.api_type === 'trade_execution');
     const results: ExitResult[] = [];
     const positionUpdates: { id: string; updates: Partial<Position> }[] = [];
@@ -533,12 +794,15 @@ serve(async (req) => {
     for (const position of positions as Position[]) {
       // Check on-chain balance if wallet address provided (detects externally sold tokens)
       // CRITICAL: Pass created_at to prevent false positives on new positions
+      // Positions opened from another trading wallet are checked against that wallet, never the connected one
+      const ownerAddress = position.wallet_address || walletAddress;
       let onChainBalanceUi: number | null = null;
       let onChainBalanceSkipped = false;
-      if (walletAddress) {
+      if (ownerAddress) {
         const { hasBalance, balance, skipped } = await checkOnChainBalance(
+          rpc,
           position.token_address, 
-          walletAddress,
+          ownerAddress,
           position.created_at || new Date().toISOString()
         );
 
@@ -604,6 +868,7 @@ serve(async (req) => {
       
       // Fetch current price (always try DexScreener first, no config needed)
       let currentPrice: number | null = await fetchCurrentPrice(position.token_address, position.chain, apiConfigs || []);
+      const livePrice = currentPrice;
       
       // If can't fetch price, use last known price (don't simulate)
       if (currentPrice === null) {
@@ -611,8 +876,53 @@ serve(async (req) => {
         console.log(`Using last known price for ${position.token_symbol}: ${currentPrice}`);
       }
 
-      // Check exit conditions
-      const { shouldExit, reason, profitLossPercent } = checkExitConditions(position, currentPrice);
+      // Pump.fun launches: sell into the curve while it trades, through the AMM once it migrated
+      const route = position.chain === 'solana' ? await resolvePositionRoute(rpc, position) : null;
+      if (route && position.token_stage === 'BONDING_CURVE' && route.stage === 'MIGRATED') {
+        console.log(`[AutoExit] ${position.token_symbol} migrated off its curve - exit route now ${route.exitRoute}`);
+        await supabase.from('system_logs').insert({
+          user_id: user.id,
+          event_type: 'position_migrated',
+          event_category: 'trading',
+          message: `${position.token_symbol} completed its bonding curve - exits now route via ${route.exitRoute}`,
+          metadata: {
+            position_id: position.id,
+            token_address: position.token_address,
+            exit_route: route.exitRoute,
+          },
+          severity: 'info',
+        });
+      }
+
+      // Watch the pool, creator and top holders before looking at price (a stale price only skips the value check)
+      const guardian = guardianConfig.enabled && position.chain === 'solana'
+        ? await checkPositionGuardian(supabase, rpc, position, ownerAddress ?? null, livePrice, guardianConfig)
+        : null;
+      const guardianTrigger: GuardianTrigger | null = guardian?.trigger ?? null;
+      if (guardianTrigger) {
+        console.log(`[AutoExit] 🚨 Guardian triggered for ${position.token_symbol}: ${guardianTrigger.reason} - ${guardianTrigger.detail}`);
+        await supabase.from('system_logs').insert({
+          user_id: user.id,
+          event_type: 'position_guardian_triggered',
+          event_category: 'trading',
+          message: `Guardian: ${guardianTrigger.detail} - emergency exit for ${position.token_symbol}`,
+          metadata: {
+            position_id: position.id,
+            token_address: position.token_address,
+            reason: guardianTrigger.reason,
+            samples: guardian?.state.samples.slice(-3),
+          },
+          severity: 'warning',
+        });
+      }
+
+      // Check exit conditions (position plan overrides the user's default plan)
+      const exitPlan = parseExitPlan(position.exit_plan) ?? defaultExitPlan;
+      const planCheck = checkExitConditions(position, currentPrice, exitPlan);
+      // A guardian trigger bypasses the plan and the stop loss: sell everything now, whatever the P&L
+      const { shouldExit, reason, profitLossPercent, sellFraction, tierIndexes, peakPrice } = guardianTrigger
+        ? { ...planCheck, shouldExit: true, reason: guardianTrigger.reason, sellFraction: 1, tierIndexes: [] }
+        : planCheck;
       
       // Calculate P&L using entry_price_usd for accurate USD-based calculations
       const entryPriceForCalc = position.entry_price_usd ?? position.entry_price;
@@ -626,15 +936,20 @@ serve(async (req) => {
       const profitLossValue = currentValue - entryValueForCalc;
 
       // Update position with current price data
-      positionUpdates.push({
-        id: position.id,
-        updates: {
-          current_price: currentPrice,
-          current_value: currentValue,
-          profit_loss_percent: profitLossPercent,
-          profit_loss_value: profitLossValue,
-        },
-      });
+      const priceUpdate: Partial<Position> = {
+        current_price: currentPrice,
+        current_value: currentValue,
+        profit_loss_percent: profitLossPercent,
+        profit_loss_value: profitLossValue,
+        // Persist trailing-stop / ladder state
+        ...(peakPrice !== null ? { peak_price: peakPrice } : {}),
+        ...(position.initial_amount == null ? { initial_amount: position.amount } : {}),
+        ...(guardian ? { guardian_state: guardian.state } : {}),
+        ...(route && (route.stage !== position.token_stage || route.exitRoute !== position.exit_route)
+          ? { token_stage: route.stage, exit_route: route.exitRoute }
+          : {}),
+      };
+      positionUpdates.push({ id: position.id, updates: priceUpdate });
 
       if (shouldExit && reason) {
         console.log(`Exit triggered for ${position.token_symbol}: ${reason} at ${profitLossPercent.toFixed(2)}%`);
@@ -642,27 +957,55 @@ serve(async (req) => {
         let executed = false;
         let txId: string | undefined;
         let error: string | undefined;
+        let exitSlippageBps: number | undefined;
+        let exitSimulation: SwapSimulationReport | null = null;
+        let exitTransaction: string | undefined;
+        let exitTokenAmount: number | undefined;
+
+        // Hold the position's sell lock while selling, so no tab or device sells it at the same time
+        const sellLease = executeExits
+          ? await acquireSellLock(supabase, user.id, position, 'auto-exit', 'auto_exit')
+          : null;
+        if (executeExits && !sellLease) {
+          error = 'SELL_LOCKED: another tab, device or worker is already selling this position';
+        }
+
+        // Fencing check right before selling: a lease that ran out may already belong to another seller
+        const leaseLost = sellLease !== null && !(await holdsSellLock(supabase, sellLease));
+        if (leaseLost) {
+          error = 'SELL_LOCKED: sell lease expired and another seller took over';
+        }
 
-        if (executeExits) {
+        if (sellLease && !leaseLost) {
           // Try external API first, then fallback to Jupiter
           if (tradeExecutionConfig) {
-            const sellResult = await executeSellViaApi(position, reason, tradeExecutionConfig);
+            const apiSellAmount = position.amount * sellFraction;
+            const sellResult = await executeSellViaApi(position, reason, tradeExecutionConfig, apiSellAmount);
+            exitTokenAmount = apiSellAmount;
             executed = sellResult.success;
             txId = sellResult.txId;
             error = sellResult.error;
           } else {
             // Use Jupiter for real sell execution
-             const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
-             const tokenAmountForExit = (!onChainBalanceSkipped && typeof onChainBalanceUi === 'number' && onChainBalanceUi > 0)
-               ? onChainBalanceUi
-               : position.amount;
-             const jupiterResult = await executeJupiterSell(position, reason, rpcUrl, tokenAmountForExit);
+             const tokenAmountForExit = effectiveAmountForValuation * sellFraction;
+             const sellSlippageBps = guardianTrigger ? GUARDIAN_LIMITS.EMERGENCY_SLIPPAGE_BPS : EXIT_SLIPPAGE_BPS;
+             const jupiterResult = route?.exitRoute === 'pump_curve' && route.curve
+               ? await executeCurveSell(position, reason, rpcPool, route.curve, tokenAmountForExit, ownerAddress, sellSlippageBps)
+               : await executeJupiterSell(position, reason, rpcPool, tokenAmountForExit, ownerAddress, sellSlippageBps);
+             exitSlippageBps = jupiterResult.slippageBps;
+             exitSimulation = jupiterResult.simulation ?? null;
+             exitTokenAmount = tokenAmountForExit;
             
-            if (jupiterResult.success && jupiterResult.quote) {
+            if (jupiterResult.success && jupiterResult.quote && !(await holdsSellLock(supabase, sellLease))) {
+              // Quoting and simulating outlived the lease - the new holder sells, not this run
+              executed = false;
+              error = 'SELL_LOCKED: sell lease expired while building the exit';
+            } else if (jupiterResult.success && jupiterResult.quote) {
               // Jupiter quote received - mark position with pending_exit and quote info
               // The frontend's useAutoExit hook must sign and broadcast
               executed = false;
               txId = jupiterResult.txId;
+              exitTransaction = jupiterResult.swapTransaction;
               error = 'PENDING_SIGNATURE: Jupiter quote ready, requires wallet signature';
               console.log(`[AutoExit] Jupiter quote ready for ${position.token_symbol} - requires frontend signature`);
             } else {
@@ -702,6 +1045,21 @@ serve(async (req) => {
                   },
                   severity: 'warning',
                 });
+              } else if (jupiterResult.simulation?.status === 'failed' && jupiterResult.simulation.failure) {
+                await supabase.from('system_logs').insert({
+                  user_id: user.id,
+                  event_type: 'exit_blocked_simulation',
+                  event_category: 'trading',
+                  message: `Exit blocked (simulation): ${position.token_symbol} - ${jupiterResult.simulation.failure.kind}`,
+                  metadata: {
+                    position_id: position.id,
+                    token_symbol: position.token_symbol,
+                    reason,
+                    failure: jupiterResult.simulation.failure,
+                    slippage_bps: jupiterResult.slippageBps,
+                  },
+                  severity: 'warning',
+                });
               }
               
               executed = false;
@@ -711,7 +1069,42 @@ serve(async (req) => {
             }
           }
 
-          if (executed) {
+          if (executed && reason === 'partial_take_profit') {
+            // Ladder rung filled - keep the position open with what the wallet holds after the sell
+            const filled = Array.isArray(position.exit_tiers_filled) ? position.exit_tiers_filled : [];
+            const remainingAmount = Math.max(0, effectiveAmountForValuation - (exitTokenAmount ?? 0));
+            const remainingValue = remainingAmount * currentPrice;
+            const remainingShare = effectiveAmountForValuation > 0 ? remainingAmount / effectiveAmountForValuation : 0;
+            // The price batch at the end of the run must write the remainder's values, not the pre-sell ones
+            priceUpdate.current_value = remainingValue;
+            priceUpdate.profit_loss_value = remainingValue - entryValueForCalc * remainingShare;
+            await supabase
+              .from('positions')
+              .update({
+                amount: remainingAmount,
+                exit_tiers_filled: [...new Set([...filled, ...tierIndexes])],
+                current_price: currentPrice,
+                current_value: remainingValue,
+                profit_loss_percent: profitLossPercent,
+              })
+              .eq('id', position.id);
+
+            await supabase.from('system_logs').insert({
+              user_id: user.id,
+              event_type: 'partial_take_profit_exit',
+              event_category: 'trading',
+              message: `Auto-exit ladder: sold ${(sellFraction * 100).toFixed(0)}% of ${position.token_symbol} at ${profitLossPercent.toFixed(2)}%`,
+              metadata: {
+                position_id: position.id,
+                token_symbol: position.token_symbol,
+                tier_indexes: tierIndexes,
+                sell_fraction: sellFraction,
+                exit_price: currentPrice,
+                profit_loss_percent: profitLossPercent,
+              },
+              severity: 'info',
+            });
+          } else if (executed) {
             // Update position to closed
             await supabase
               .from('positions')
@@ -731,7 +1124,7 @@ serve(async (req) => {
             // Log the exit
             await supabase.from('system_logs').insert({
               user_id: user.id,
-              event_type: reason === 'take_profit' ? 'take_profit_exit' : 'stop_loss_exit',
+              event_type: `${reason}_exit`,
               event_category: 'trading',
               message: `Auto-exit ${reason}: ${position.token_symbol} at ${profitLossPercent.toFixed(2)}%`,
               metadata: {
@@ -746,16 +1139,25 @@ serve(async (req) => {
             });
           }
         }
+        await releaseSellLock(supabase, sellLease);
 
         results.push({
           positionId: position.id,
           symbol: safeTokenSymbol(position.token_symbol, position.token_address),
           action: reason,
+          guardianDetail: guardianTrigger?.detail,
           currentPrice,
           profitLossPercent,
+          sellFraction,
+          tierIndexes,
           executed,
           txId,
           error,
+          slippageBps: exitSlippageBps,
+          simulation: exitSimulation,
+          swapTransaction: exitTransaction,
+          tokenAmount: exitTokenAmount,
+          exitRoute: route?.exitRoute,
         });
       } else {
         results.push({
@@ -786,7 +1188,10 @@ serve(async (req) => {
           total: positions.length,
           holding: results.filter(r => r.action === 'hold').length,
           takeProfitTriggered: results.filter(r => r.action === 'take_profit').length,
+          partialTakeProfitTriggered: results.filter(r => r.action === 'partial_take_profit').length,
+          trailingStopTriggered: results.filter(r => r.action === 'trailing_stop').length,
           stopLossTriggered: results.filter(r => r.action === 'stop_loss').length,
+          emergencyTriggered: results.filter(r => isGuardianExitReason(r.action)).length,
           executed: executedCount,
         },
         timestamp: new Date().toISOString(),
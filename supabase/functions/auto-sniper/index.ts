@@ -2,6 +2,14 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateAutoSniperInput, type TokenData as ValidatedTokenData } from "../_shared/validation.ts";
 import { fetchJupiterQuoteWithRetry } from "../_shared/jupiter-retry.ts";
+import { evaluateSniperRules, formatRuleReason } from "../_shared/snipe-rules.ts";
+import { buildRuleContext, evaluateEntryRules, parseEntryRules } from "../_shared/rule-dsl.ts";
+import { breakerAllowsEntry } from "../_shared/circuit-breaker.ts";
+import { refreshCircuitBreaker, type BreakerSettings } from "../_shared/circuit-breaker-state.ts";
+import { getProbeEntryGate } from "../_shared/api-probes-state.ts";
+import { resolveInternalUser } from "../_shared/api-keys.ts";
+import { createRpcCall } from "../_shared/holder-clusters.ts";
+import { checkCurveEntry, fetchBondingCurve, parseCurveEntryConfig, type CurveSnapshot } from "../_shared/pump-curve.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -34,6 +42,8 @@ interface UserSettings {
   category_filters: string[];
   token_blacklist: string[];
   token_whitelist: string[];
+  entry_rules?: unknown;    // EntryRule[] JSON, see _shared/rule-dsl.ts
+  curve_entry?: unknown;    // CurveEntryConfig JSON, see _shared/pump-curve.ts
 }
 
 interface TokenData {
@@ -48,6 +58,10 @@ interface TokenData {
   riskScore: number;
   categories: string[];
   priceUsd?: number;
+  holders?: number;
+  marketCap?: number;
+  volume24h?: number;
+  createdAt?: string;
   // Scanner validation flags - CRITICAL for bypassing DEX route checks
   isPumpFun?: boolean;      // From token-scanner: on Pump.fun bonding curve
   isTradeable?: boolean;    // From token-scanner: verified as tradeable
@@ -55,6 +69,7 @@ interface TokenData {
   canSell?: boolean;        // From token-scanner: sell is possible
   source?: string;          // API source (e.g., 'Pump.fun', 'DexScreener')
   safetyReasons?: string[]; // Safety check results from scanner
+  curveProgress?: number;   // Set here when the token is bought on its Pump.fun curve
 }
 
 interface SnipeDecision {
@@ -99,79 +114,6 @@ function getApiKey(apiType: string, dbApiKey: string | null): string | null {
   return null;
 }
 
-// Rule 1: Check if liquidity meets user's minimum setting
-function checkLiquidity(token: TokenData, settings: UserSettings): { passed: boolean; reason: string } {
-  const passed = token.liquidity >= settings.min_liquidity;
-  return {
-    passed,
-    reason: passed 
-      ? `✓ Liquidity ${token.liquidity.toFixed(2)} SOL meets minimum ${settings.min_liquidity} SOL`
-      : `✗ Liquidity ${token.liquidity.toFixed(2)} SOL below minimum ${settings.min_liquidity} SOL`,
-  };
-}
-
-// Rule 2: Check if liquidity is locked (OPTIONAL - just informational, don't block)
-function checkLiquidityLock(token: TokenData): { passed: boolean; reason: string } {
-  // Liquidity lock is informational only - many legitimate tokens don't lock
-  const isLocked = token.liquidityLocked === true;
-  return {
-    passed: true, // Always pass - this is just informational
-    reason: isLocked 
-      ? `✓ Liquidity locked${token.lockPercentage ? ` (${token.lockPercentage}%)` : ''}`
-      : '⚠ Liquidity not locked - proceed with caution',
-  };
-}
-
-// Rule 3: Check if token matches user's category filters
-function checkCategoryMatch(token: TokenData, settings: UserSettings): { passed: boolean; reason: string } {
-  // If user didn't set any filters, always pass
-  if (settings.category_filters.length === 0) {
-    return { passed: true, reason: '✓ No category filters applied' };
-  }
-
-  // IMPORTANT: In live scanning, category metadata may be unavailable.
-  // If we have no categories, don't block trading (otherwise nothing ever approves).
-  if (!token.categories || token.categories.length === 0) {
-    return {
-      passed: true,
-      reason: '✓ Category data unavailable - skipping category filter',
-    };
-  }
-
-  const matchedCategories = token.categories.filter((cat) =>
-    settings.category_filters.includes(cat.toLowerCase())
-  );
-
-  const passed = matchedCategories.length > 0;
-  return {
-    passed,
-    reason: passed
-      ? `✓ Matches categories: ${matchedCategories.join(', ')}`
-      : `✗ No match for filters: ${settings.category_filters.join(', ')}`,
-  };
-}
-
-// Rule 4: Check buyer position (allow positions 2-10 for live trading flexibility)
-function checkBuyerPosition(token: TokenData): { passed: boolean; reason: string } {
-  const position = token.buyerPosition;
-  
-  // If position is unknown, allow the trade (don't block on missing data)
-  if (position === null || position === undefined) {
-    return { passed: true, reason: '✓ Buyer position unknown - allowing trade' };
-  }
-  
-  // Allow positions 2-10 (not first buyer, but reasonable entry)
-  const passed = position >= 2 && position <= 10;
-  return {
-    passed,
-    reason: passed 
-      ? `✓ Can enter as buyer #${position}`
-      : position < 2 
-        ? '✗ Would be first buyer - waiting for others'
-        : `✗ Buyer position #${position} too late (>10)`,
-  };
-}
-
 // Rule 5: Risk API approval (honeypot, blacklist, owner-renounced)
 // IMPORTANT: This check is optional - if API fails, we allow the trade with a warning
 async function checkRiskApproval(
@@ -249,7 +191,7 @@ async function checkRiskApproval(
   }
 }
 
-// Rule 6: Check if token is tradeable (Pump.fun bonding curve OR Jupiter/Raydium route)
+// Rule 7: Check if token is tradeable (Pump.fun bonding curve OR Jupiter/Raydium route)
 // New tokens on Pump.fun don't have DEX routes yet - they use the bonding curve
 // CRITICAL: Trust the token-scanner's validation to avoid blocking valid trades
 // IMPORTANT: Edge functions have intermittent DNS issues - be lenient when checks fail
@@ -436,34 +378,6 @@ async function checkTradeRoute(token: TokenData): Promise<{ passed: boolean; rea
   };
 }
 
-// Check blacklist/whitelist
-function checkBlacklistWhitelist(
-  token: TokenData, 
-  settings: UserSettings
-): { passed: boolean; reason: string } {
-  // Check blacklist first
-  if (settings.token_blacklist.some(addr => 
-    addr.toLowerCase() === token.address.toLowerCase()
-  )) {
-    return { passed: false, reason: '✗ Token is blacklisted by user' };
-  }
-
-  // If whitelist exists and is not empty, token must be on it
-  if (settings.token_whitelist.length > 0) {
-    const onWhitelist = settings.token_whitelist.some(addr => 
-      addr.toLowerCase() === token.address.toLowerCase()
-    );
-    return {
-      passed: onWhitelist,
-      reason: onWhitelist 
-        ? '✓ Token is on whitelist'
-        : '✗ Token not on whitelist',
-    };
-  }
-
-  return { passed: true, reason: '✓ Token not blacklisted' };
-}
-
 // Create a trade signal for frontend execution (proper wallet signing)
 async function createTradeSignal(
   token: TokenData,
@@ -502,6 +416,7 @@ async function createTradeSignal(
           buyer_position: token.buyerPosition,
           liquidity_locked: token.liquidityLocked,
           lock_percentage: token.lockPercentage,
+          curve_progress: token.curveProgress ?? null,
           profit_take_percent: settings.profit_take_percentage,
           stop_loss_percent: settings.stop_loss_percentage,
         },
@@ -572,10 +487,11 @@ serve(async (req) => {
     });
 
     const token = authHeader.slice('Bearer '.length);
-    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
-    const userId = claimsData?.claims?.sub;
+    // The bot runner calls in on a user's behalf with the internal token instead of a JWT
+    const userId = (await resolveInternalUser(req))
+      ?? (await authClient.auth.getClaims(token)).data?.claims?.sub;
 
-    if (claimsError || !userId) {
+    if (!userId) {
       return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
         status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -625,6 +541,10 @@ serve(async (req) => {
     const settings: UserSettings = userSettings || defaultSettings;
     console.log(`Using settings for user ${user.id}:`, userSettings ? 'custom' : 'defaults');
 
+    const entryRules = parseEntryRules(settings.entry_rules).filter((r) => r.enabled);
+    const curveEntry = parseCurveEntryConfig(settings.curve_entry);
+    const rpc = createRpcCall(Deno.env.get('HELIUS_RPC_URL') || Deno.env.get('SOLANA_RPC_URL') || 'https://api.mainnet-beta.solana.com');
+
     // Fetch API configurations
     const { data: apiConfigs } = await supabase
       .from('api_configurations')
@@ -649,58 +569,55 @@ serve(async (req) => {
     
     console.log(`User has ${currentOpenPositions} open positions, ${availableSlots} slots available`);
 
+    // Emergency stop and circuit breaker: pause levels block new signals, reduce_size scales them
+    const { data: riskSettings } = await supabase
+      .from('risk_settings')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    let entryBlock: string | null = null;
+    let sizeFactor = 1;
+    if (riskSettings?.emergency_stop_active) {
+      entryBlock = 'EMERGENCY STOP ACTIVE - all trading halted';
+    } else if (riskSettings) {
+      const breaker = await refreshCircuitBreaker(supabase, user.id, riskSettings as BreakerSettings);
+      sizeFactor = breaker.sizeFactor;
+      if (!breakerAllowsEntry(breaker.level, breaker.pausedStrategies, 'sniper')) {
+        entryBlock = breaker.level === 'pause_entries' || breaker.level === 'emergency_stop'
+          ? `Circuit breaker (${breaker.level.replace('_', ' ')}): ${breaker.reason}`
+          : 'Circuit breaker paused sniper entries for today';
+      }
+    }
+    if (!entryBlock) {
+      // A degraded quote route or RPC would strand new entries - wait until the probes recover
+      const probeGate = await getProbeEntryGate(supabase);
+      if (probeGate.paused) entryBlock = `Route degraded, auto-entry paused: ${probeGate.reasons.join('; ')}`;
+    }
+    const entrySettings: UserSettings = sizeFactor < 1
+      ? { ...settings, trade_amount: Number((settings.trade_amount * sizeFactor).toFixed(4)) }
+      : settings;
+
     const decisions: SnipeDecision[] = [];
     const executedTrades: { token: string; txId?: string; error?: string; positionId?: string }[] = [];
     let tradesExecuted = 0;
 
     // Evaluate each token against the rules
     for (const tokenData of tokens as TokenData[]) {
-      const reasons: string[] = [];
-      let allPassed = true;
-
-      // Rule 0: CRITICAL - Token must be sellable to avoid stuck positions
-      if (tokenData.canSell === false) {
-        reasons.push('✗ Token cannot be sold (would create stuck position)');
-        allPassed = false;
-        console.log(`[Sellability] Token ${tokenData.symbol} rejected - not sellable`);
-      }
-
-      // Rule 1: Liquidity check against user's min_liquidity setting
-      if (allPassed) {
-        const liquidityCheck = checkLiquidity(tokenData, settings);
-        reasons.push(liquidityCheck.reason);
-        if (!liquidityCheck.passed) {
-          allPassed = false;
-          console.log(`[Liquidity] Token ${tokenData.symbol} rejected - ${tokenData.liquidity} SOL < ${settings.min_liquidity} SOL minimum`);
-        }
-      }
-
-      // Rule 2: Liquidity lock check (optional - can be bypassed if not required)
-      if (allPassed) {
-        const lockCheck = checkLiquidityLock(tokenData);
-        reasons.push(lockCheck.reason);
-        // Don't fail on lock check alone - just add reason
-      }
-
-      // Rule 3: Category filter check
-      if (allPassed) {
-        const categoryCheck = checkCategoryMatch(tokenData, settings);
-        reasons.push(categoryCheck.reason);
-        if (!categoryCheck.passed) allPassed = false;
-      }
-
-      // Rule 4: Buyer position check
-      if (allPassed) {
-        const positionCheck = checkBuyerPosition(tokenData);
-        reasons.push(positionCheck.reason);
-        if (!positionCheck.passed) allPassed = false;
+      // Rules 0-4: sellability, liquidity, lock (informational), categories, buyer position, black/whitelist
+      const ruleVerdict = evaluateSniperRules(tokenData, settings);
+      const reasons: string[] = ruleVerdict.reasons.map(formatRuleReason);
+      let allPassed = ruleVerdict.approved;
+      if (!allPassed) {
+        const rejection = ruleVerdict.reasons.find((r) => r.severity === 'reject');
+        console.log(`[Rules] Token ${tokenData.symbol} rejected - ${rejection?.code}: ${rejection?.message}`);
       }
 
-      // Check blacklist/whitelist
-      if (allPassed) {
-        const listCheck = checkBlacklistWhitelist(tokenData, settings);
-        reasons.push(listCheck.reason);
-        if (!listCheck.passed) allPassed = false;
+      if (allPassed && entryBlock) {
+        reasons.push(`✗ ${entryBlock}`);
+        allPassed = false;
+      } else if (allPassed && sizeFactor < 1) {
+        reasons.push(`⚠ Circuit breaker reduced size to ${entrySettings.trade_amount} SOL (${Math.round(sizeFactor * 100)}%)`);
       }
 
       // Rule 5: Risk API check (only if other rules pass AND API is configured)
@@ -722,9 +639,36 @@ serve(async (req) => {
         console.log(`Risk check skipped for ${tokenData.symbol} - no honeypot API configured`);
       }
 
-      // Rule 6: CRITICAL - Verify Jupiter/Raydium has a route for this token
+      // Rule 6: User entry rules, after the risk API so they see its riskScore/lock data
+      if (allPassed && entryRules.length > 0) {
+        const entryVerdict = evaluateEntryRules(entryRules, buildRuleContext(tokenData));
+        reasons.push(...entryVerdict.reasons.map(formatRuleReason));
+        if (!entryVerdict.approved) {
+          allPassed = false;
+          console.log(`[EntryRules] Token ${tokenData.symbol} rejected - ${entryVerdict.reasons[entryVerdict.reasons.length - 1].message}`);
+        }
+      }
+
+      // Rule 7a: A token still on its Pump.fun curve is bought on the curve - it has to be inside
+      // the user's curve-entry window instead of having a DEX route
+      const curve: CurveSnapshot | null = allPassed
+        ? await fetchBondingCurve(rpc, tokenData.address).catch(() => null)
+        : null;
+      if (curve && !curve.complete) {
+        const curveCheck = checkCurveEntry(curve, curveEntry, entrySettings.trade_amount);
+        reasons.push(formatRuleReason(curveCheck));
+        if (curveCheck.severity === 'reject') {
+          allPassed = false;
+          console.log(`[Curve] Token ${tokenData.symbol} rejected - ${curveCheck.message}`);
+        } else {
+          tokenData.isPumpFun = true;
+          tokenData.curveProgress = curve.progress;
+        }
+      }
+
+      // Rule 7: CRITICAL - Verify Jupiter/Raydium has a route for this token
       // This prevents ROUTE_NOT_FOUND errors during trade execution
-      if (allPassed) {
+      if (allPassed && !tokenData.isPumpFun) {
         const routeCheck = await checkTradeRoute(tokenData);
         reasons.push(routeCheck.reason);
         if (!routeCheck.passed) {
@@ -742,7 +686,7 @@ serve(async (req) => {
         approved: allPassed,
         reasons,
         tradeParams: allPassed ? {
-          amount: settings.trade_amount,
+          amount: entrySettings.trade_amount,
           // Use user's configured slippage from settings, fallback to priority-based
           slippage: (userSettings as any)?.slippage_tolerance ?? (settings.priority === 'turbo' ? 15 : settings.priority === 'fast' ? 10 : 5),
           priority: settings.priority,
@@ -762,7 +706,7 @@ serve(async (req) => {
         const routeCheck = await checkTradeRoute(tokenData);
         const signalResult = await createTradeSignal(
           tokenData, 
-          settings, 
+          entrySettings, 
           supabase, 
           user.id,
           routeCheck.source
@@ -794,6 +738,8 @@ serve(async (req) => {
           executed: tradesExecuted,
           openPositions: currentOpenPositions + tradesExecuted,
           maxPositions: settings.max_concurrent_trades,
+          entriesBlocked: entryBlock,
+          sizeFactor,
         },
         settings: {
           minLiquidity: settings.min_liquidity,
@@ -0,0 +1,519 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateBotRunnerInput, type BotRunnerInput } from "../_shared/validation.ts";
+import { generateInternalToken, validateInternalToken } from "../_shared/api-keys.ts";
+import { timingSafeEqual } from "../_shared/internal-auth.ts";
+import {
+  buildTransferTransaction,
+  createLocalKeystore,
+  isSessionKeyActive,
+  type SessionKeystore,
+  type SessionSigner,
+  type StoredSessionKey,
+} from "../_shared/session-keys.ts";
+import {
+  DEFAULT_BOT_CYCLE_OPTIONS,
+  runBotCycle,
+  type BotExitResult,
+  type PendingSignal,
+  type StageRun,
+} from "../_shared/bot-cycle.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface RunnerSession {
+  user_id: string;
+  is_enabled: boolean;
+  auto_entry: boolean;
+  auto_exit: boolean;
+  max_trade_sol: number;
+  session_public_key: string | null;
+  last_cycle_started_at: string | null;
+}
+
+const LEASE_TTL_SECONDS = 120;
+// A tick must finish inside the scheduler's request timeout; users past this wait for the next one
+const TICK_BUDGET_MS = 45_000;
+const CONFIRM_TIMEOUT_MS = 30_000;
+const SIGNATURE_FEE_LAMPORTS = 5_000n;
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// ============================================================================
+// KEYSTORE & CHAIN
+// ============================================================================
+
+function getKeystore(supabase: SupabaseClient): SessionKeystore | null {
+  const secret = Deno.env.get("BOT_KEYSTORE_SECRET");
+  if (!secret) return null;
+  return createLocalKeystore(
+    {
+      async load(userId) {
+        const { data } = await supabase
+          .from("bot_session_keys")
+          .select("public_key, sealed_secret, iv, expires_at, revoked_at")
+          .eq("user_id", userId)
+          .maybeSingle();
+        return (data as StoredSessionKey | null) ?? null;
+      },
+      async save(userId, record) {
+        const { error } = await supabase
+          .from("bot_session_keys")
+          .upsert({ user_id: userId, ...record }, { onConflict: "user_id" });
+        if (error) throw error;
+      },
+    },
+    secret
+  );
+}
+
+async function rpc<T>(method: string, params: unknown[]): Promise<T> {
+  const pool = await getRpcPool();
+  return await pool.call(method, params) as T;
+}
+
+// Broadcast to the healthiest few endpoints - the first to accept returns the signature
+async function sendTransaction(signedBase64: string): Promise<string> {
+  const pool = await getRpcPool();
+  const { signature, accepted, rejected } = await pool.broadcast(signedBase64, { maxRetries: 3 });
+  if (Object.keys(rejected).length > 0) {
+    console.warn(`[BotRunner] Sent ${signature.slice(0, 8)} via ${accepted.join(", ")}; rejected by ${Object.keys(rejected).join(", ")}`);
+  }
+  return signature;
+}
+
+async function confirmTransaction(signature: string): Promise<{ confirmed: boolean; error?: string }> {
+  const deadline = Date.now() + CONFIRM_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      const result = await rpc<{ value: ({ err: unknown; confirmationStatus?: string } | null)[] }>(
+        "getSignatureStatuses",
+        [[signature], { searchTransactionHistory: true }]
+      );
+      const status = result?.value?.[0];
+      if (status?.err) return { confirmed: false, error: JSON.stringify(status.err) };
+      if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+        return { confirmed: true };
+      }
+    } catch (error) {
+      console.error("[BotRunner] Confirmation poll failed:", error);
+    }
+    await new Promise((r) => setTimeout(r, 1000));
+  }
+  return { confirmed: false, error: "Confirmation timeout" };
+}
+
+// Calls a trading function as the user - the internal token stands in for their JWT
+function invokerFor(userId: string) {
+  return async <T>(fn: string, body: Record<string, unknown>): Promise<T> => {
+    const res = await fetch(`${supabaseUrl}/functions/v1/${fn}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+        "x-internal-token": await generateInternalToken(userId),
+        "x-bot-user-id": userId,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(25_000),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data?.error || `${fn} returned ${res.status}`);
+    return data as T;
+  };
+}
+
+// ============================================================================
+// CYCLE
+// ============================================================================
+
+async function recordExit(supabase: SupabaseClient, userId: string, exit: BotExitResult, txSignature: string) {
+  const { data: position } = await supabase
+    .from("positions")
+    .select("token_address, token_symbol, token_name, amount, exit_tiers_filled")
+    .eq("id", exit.positionId)
+    .maybeSingle();
+  if (!position) return;
+
+  const sold = exit.tokenAmount ?? position.amount * (exit.sellFraction ?? 1);
+  const remaining = position.amount - sold;
+  // Under 1% left is rounding, not a position
+  const isPartial = exit.action === "partial_take_profit" && remaining > position.amount * 0.01;
+
+  if (isPartial) {
+    const filled = Array.isArray(position.exit_tiers_filled) ? (position.exit_tiers_filled as number[]) : [];
+    await supabase
+      .from("positions")
+      .update({ amount: remaining, exit_tiers_filled: [...new Set([...filled, ...(exit.tierIndexes || [])])] })
+      .eq("id", exit.positionId);
+  } else {
+    await supabase
+      .from("positions")
+      .update({
+        status: "closed",
+        closed_at: new Date().toISOString(),
+        exit_reason: exit.action,
+        exit_price: exit.currentPrice,
+        exit_tx_id: txSignature,
+        profit_loss_percent: exit.profitLossPercent,
+      })
+      .eq("id", exit.positionId);
+  }
+
+  await supabase.from("trade_history").insert({
+    user_id: userId,
+    token_address: position.token_address,
+    token_symbol: position.token_symbol,
+    token_name: position.token_name,
+    trade_type: "sell",
+    amount: sold,
+    price_sol: exit.currentPrice,
+    price_usd: null,
+    status: "confirmed",
+    tx_hash: txSignature,
+    exit_reason: exit.action,
+  });
+}
+
+/**
+ * Run one user's cycle under their lease. Returns null when another runner holds the lease.
+ */
+async function runUserCycle(supabase: SupabaseClient, keystore: SessionKeystore | null, session: RunnerSession) {
+  const userId = session.user_id;
+  const holder = crypto.randomUUID();
+  const heartbeat = async () => {
+    const { data } = await supabase.rpc("claim_bot_lease", {
+      p_user_id: userId,
+      p_holder: holder,
+      p_ttl_seconds: LEASE_TTL_SECONDS,
+    });
+    return data === true;
+  };
+  if (!(await heartbeat())) return null;
+
+  const cycleId = crypto.randomUUID();
+  try {
+    await supabase
+      .from("bot_runner_sessions")
+      .update({ last_cycle_id: cycleId, last_cycle_started_at: new Date().toISOString() })
+      .eq("user_id", userId);
+
+    const handle = keystore ? await keystore.open(userId) : null;
+    const signer: SessionSigner | null = handle?.signer ?? null;
+    const claimed = new Map<string, PendingSignal>();
+
+    const result = await runBotCycle(
+      {
+        invoke: invokerFor(userId),
+        signer,
+        sendTransaction,
+        confirmTransaction,
+        heartbeat,
+        async recordStage(run: StageRun) {
+          await supabase.from("bot_stage_runs").insert({
+            user_id: userId,
+            cycle_id: cycleId,
+            stage: run.stage,
+            status: run.status,
+            started_at: run.startedAt,
+            finished_at: run.finishedAt,
+            duration_ms: run.durationMs,
+            summary: run.summary,
+            error: run.error,
+          });
+        },
+        async knownTokens() {
+          const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+          const [positions, signals] = await Promise.all([
+            supabase.from("positions").select("token_address").eq("user_id", userId).neq("status", "closed"),
+            supabase.from("trade_signals").select("token_address").eq("user_id", userId).gte("created_at", since),
+          ]);
+          return new Set([...(positions.data || []), ...(signals.data || [])].map((r) => r.token_address as string));
+        },
+        async claimSignals(limit) {
+          const { data: pending } = await supabase
+            .from("trade_signals")
+            .select("id")
+            .eq("user_id", userId)
+            .eq("status", "pending")
+            .gt("expires_at", new Date().toISOString())
+            .order("created_at", { ascending: true })
+            .limit(limit);
+          // Claim one by one against status = pending so an open tab cannot execute the same signal
+          for (const { id } of pending || []) {
+            const { data } = await supabase
+              .from("trade_signals")
+              .update({ status: "executing" })
+              .eq("id", id)
+              .eq("status", "pending")
+              .select("id, token_address, token_symbol, token_name, trade_amount, slippage, priority, is_pump_fun")
+              .maybeSingle();
+            if (data) claimed.set(id, data as unknown as PendingSignal);
+          }
+          return [...claimed.values()];
+        },
+        async settleSignal(signal, outcome) {
+          if (outcome.ok) {
+            await supabase
+              .from("trade_signals")
+              .update({ status: "executed", executed_at: new Date().toISOString(), tx_signature: outcome.txSignature })
+              .eq("id", signal.id);
+            if (outcome.positionId) {
+              await supabase.from("positions").update({ status: "open" }).eq("id", outcome.positionId);
+            }
+            return;
+          }
+          await supabase
+            .from("trade_signals")
+            .update({ status: "cancelled", metadata: { error: outcome.error } })
+            .eq("id", signal.id);
+          if (outcome.positionId) {
+            await supabase.from("positions").delete().eq("id", outcome.positionId).eq("status", "pending");
+          }
+        },
+        async sessionPositions() {
+          if (!signer) return [];
+          const { data } = await supabase
+            .from("positions")
+            .select("id")
+            .eq("user_id", userId)
+            .eq("status", "open")
+            .eq("wallet_address", signer.publicKey);
+          return (data || []).map((p) => p.id as string);
+        },
+        recordExit: (exit, txSignature) => recordExit(supabase, userId, exit, txSignature),
+      },
+      {
+        ...DEFAULT_BOT_CYCLE_OPTIONS,
+        autoEntry: session.auto_entry && isSessionKeyActive(handle),
+        autoExit: session.auto_exit,
+        maxTradeSol: Number(session.max_trade_sol),
+      }
+    );
+
+    const failed = result.stages.filter((s) => s.status === "failed");
+    await supabase
+      .from("bot_runner_sessions")
+      .update({
+        last_cycle_finished_at: new Date().toISOString(),
+        last_error: result.leaseLost
+          ? "Lease lost mid-cycle - another runner took over"
+          : failed.length > 0
+            ? failed.map((s) => `${s.stage}: ${s.error ?? "failed"}`).join("; ")
+            : null,
+      })
+      .eq("user_id", userId);
+
+    return { cycleId, ...result };
+  } finally {
+    await supabase.rpc("release_bot_lease", { p_user_id: userId, p_holder: holder });
+  }
+}
+
+async function tick(supabase: SupabaseClient) {
+  const started = Date.now();
+  const keystore = getKeystore(supabase);
+  const { data: sessions } = await supabase
+    .from("bot_runner_sessions")
+    .select("user_id, is_enabled, auto_entry, auto_exit, max_trade_sol, session_public_key, last_cycle_started_at")
+    .eq("is_enabled", true)
+    .order("last_cycle_started_at", { ascending: true, nullsFirst: true });
+
+  let ran = 0;
+  let leased = 0;
+  for (const session of (sessions || []) as RunnerSession[]) {
+    if (Date.now() - started > TICK_BUDGET_MS) break;
+    try {
+      const result = await runUserCycle(supabase, keystore, session);
+      if (result) ran++;
+      else leased++;
+    } catch (error) {
+      console.error(`[BotRunner] Cycle failed for ${session.user_id}:`, error);
+      await supabase
+        .from("bot_runner_sessions")
+        .update({ last_error: error instanceof Error ? error.message : String(error) })
+        .eq("user_id", session.user_id);
+    }
+  }
+
+  console.log(`[BotRunner] Tick: ${ran} cycles run, ${leased} held by another runner, ${(sessions || []).length} enabled`);
+  return { ran, leased, enabled: (sessions || []).length };
+}
+
+// ============================================================================
+// USER ACTIONS
+// ============================================================================
+
+async function getStatus(supabase: SupabaseClient, userId: string) {
+  const [{ data: session }, { data: runs }] = await Promise.all([
+    supabase.from("bot_runner_sessions").select("*").eq("user_id", userId).maybeSingle(),
+    supabase
+      .from("bot_stage_runs")
+      .select("*")
+      .eq("user_id", userId)
+      .order("started_at", { ascending: false })
+      .limit(40),
+  ]);
+  return { session, runs: runs || [], keystoreConfigured: !!Deno.env.get("BOT_KEYSTORE_SECRET") };
+}
+
+// Returns the session's SOL to the user's wallet, leaving nothing for a revoked key to strand
+async function sweepSessionKey(signer: SessionSigner, to: string): Promise<string | null> {
+  const { value: balance } = await rpc<{ value: number }>("getBalance", [signer.publicKey, { commitment: "confirmed" }]);
+  const lamports = BigInt(balance) - SIGNATURE_FEE_LAMPORTS;
+  if (lamports <= 0n) return null;
+
+  const { value } = await rpc<{ value: { blockhash: string } }>("getLatestBlockhash", [{ commitment: "confirmed" }]);
+  const signed = await signer.signTransaction(buildTransferTransaction(signer.publicKey, to, lamports, value.blockhash));
+  const signature = await sendTransaction(signed);
+  const confirmation = await confirmTransaction(signature);
+  if (!confirmation.confirmed) throw new Error(`Sweep did not confirm: ${confirmation.error}`);
+  return signature;
+}
+
+async function handleUserAction(supabase: SupabaseClient, userId: string, input: BotRunnerInput) {
+  switch (input.action) {
+    case "status":
+      return jsonResponse(await getStatus(supabase, userId));
+
+    case "configure": {
+      const updates: Record<string, unknown> = {};
+      if (input.enabled !== undefined) updates.is_enabled = input.enabled;
+      if (input.autoEntry !== undefined) updates.auto_entry = input.autoEntry;
+      if (input.autoExit !== undefined) updates.auto_exit = input.autoExit;
+      if (input.maxTradeSol !== undefined) updates.max_trade_sol = input.maxTradeSol;
+      const { error } = await supabase
+        .from("bot_runner_sessions")
+        .upsert({ user_id: userId, ...updates }, { onConflict: "user_id" });
+      if (error) throw error;
+      return jsonResponse(await getStatus(supabase, userId));
+    }
+
+    case "create_session_key": {
+      const keystore = getKeystore(supabase);
+      if (!keystore) return jsonResponse({ error: "Session keystore is not configured (BOT_KEYSTORE_SECRET)" }, 503);
+
+      // Replacing a key that still holds positions would strand them
+      const existing = await keystore.open(userId);
+      if (existing) {
+        const { count } = await supabase
+          .from("positions")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", userId)
+          .in("status", ["open", "pending", "waiting_for_liquidity"])
+          .eq("wallet_address", existing.signer.publicKey);
+        if ((count ?? 0) > 0) {
+          return jsonResponse({ error: "The current session key still holds positions - close them and revoke it first" }, 409);
+        }
+      }
+
+      const expiresAt = new Date(Date.now() + input.ttlHours! * 60 * 60 * 1000).toISOString();
+      const publicKey = await keystore.create(userId, expiresAt);
+      const { error } = await supabase
+        .from("bot_runner_sessions")
+        .upsert({ user_id: userId, session_public_key: publicKey, session_expires_at: expiresAt }, { onConflict: "user_id" });
+      if (error) throw error;
+      return jsonResponse({ publicKey, expiresAt });
+    }
+
+    case "revoke_session_key": {
+      const keystore = getKeystore(supabase);
+      const handle = keystore ? await keystore.open(userId) : null;
+      if (!keystore || !handle) return jsonResponse({ error: "No active session key" }, 404);
+
+      const { count } = await supabase
+        .from("positions")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .in("status", ["open", "pending", "waiting_for_liquidity"])
+        .eq("wallet_address", handle.signer.publicKey);
+      if ((count ?? 0) > 0) {
+        return jsonResponse({ error: "The session key still holds positions - close them before revoking" }, 409);
+      }
+
+      const sweepSignature = input.sweepTo ? await sweepSessionKey(handle.signer, input.sweepTo) : null;
+
+      await keystore.revoke(userId);
+      await supabase
+        .from("bot_runner_sessions")
+        .update({ is_enabled: false, session_public_key: null, session_expires_at: null })
+        .eq("user_id", userId);
+      return jsonResponse({ revoked: true, sweepSignature });
+    }
+
+    case "run_now": {
+      const { data: session } = await supabase
+        .from("bot_runner_sessions")
+        .select("user_id, is_enabled, auto_entry, auto_exit, max_trade_sol, session_public_key, last_cycle_started_at")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (!session) return jsonResponse({ error: "Set up the bot runner first" }, 404);
+
+      const result = await runUserCycle(supabase, getKeystore(supabase), session as RunnerSession);
+      if (!result) return jsonResponse({ error: "A cycle is already running for this account" }, 409);
+      return jsonResponse(result);
+    }
+
+    default:
+      return jsonResponse({ error: "Tick requires internal authorization" }, 403);
+  }
+}
+
+// Scheduled every minute by pg_cron (action "tick", service role), and called by the status
+// page for the user's own session. Trading calls go out as the user with the internal token.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Authorization required" }, 401);
+    }
+    const token = authHeader.slice("Bearer ".length);
+
+    const rawBody = await req.json().catch(() => null);
+    const validation = validateBotRunnerInput(rawBody);
+    if (!validation.success) {
+      return jsonResponse({ error: validation.error }, 400);
+    }
+    const input = validation.data!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    if (input.action === "tick") {
+      if (!timingSafeEqual(token, serviceRoleKey) && !(await validateInternalToken(req.headers.get("x-internal-token")))) {
+        return jsonResponse({ error: "Tick requires internal authorization" }, 403);
+      }
+      return jsonResponse(await tick(supabase));
+    }
+
+    const authClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: claimsData, error: authError } = await authClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: "Invalid authentication" }, 401);
+    }
+
+    return await handleUserAction(supabase, claimsData.claims.sub, input);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    console.error("[BotRunner] Error:", error);
+    return jsonResponse({ error: message }, 500);
+  }
+});
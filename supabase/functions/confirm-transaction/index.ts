@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { RpcCall } from "../_shared/holder-clusters.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,31 +14,16 @@ interface ConfirmRequest {
 }
 
 async function confirmTransaction(
-  rpcUrl: string,
+  rpc: RpcCall,
   signature: string,
   maxRetries: number = 30
 ): Promise<{ confirmed: boolean; slot?: number; error?: string; isSlippageError?: boolean }> {
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
-      const response = await fetch(rpcUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          id: 1,
-          method: "getSignatureStatuses",
-          params: [[signature], { searchTransactionHistory: true }],
-        }),
-      });
-
-      if (!response.ok) {
-        console.error(`[Confirm] RPC error: ${response.status}`);
-        await new Promise((r) => setTimeout(r, 1000));
-        continue;
-      }
-
-      const data = await response.json();
-      const status = data.result?.value?.[0];
+      const result = await rpc("getSignatureStatuses", [[signature], { searchTransactionHistory: true }]) as {
+        value?: ({ err: unknown; slot: number; confirmationStatus?: string } | null)[];
+      } | null;
+      const status = result?.value?.[0];
 
       if (status) {
         if (status.err) {
@@ -73,23 +60,9 @@ async function confirmTransaction(
   return { confirmed: false, error: "Confirmation timeout" };
 }
 
-async function getTransactionDetails(rpcUrl: string, signature: string): Promise<any> {
+async function getTransactionDetails(rpc: RpcCall, signature: string): Promise<any> {
   try {
-    const response = await fetch(rpcUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getTransaction",
-        params: [signature, { encoding: "jsonParsed", maxSupportedTransactionVersion: 0 }],
-      }),
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      return data.result;
-    }
+    return await rpc("getTransaction", [signature, { encoding: "jsonParsed", maxSupportedTransactionVersion: 0 }]);
   } catch (error) {
     console.error("[Confirm] Failed to get transaction details:", error);
   }
@@ -128,11 +101,11 @@ Deno.serve(async (req) => {
     const body: ConfirmRequest = await req.json();
     console.log(`[Confirm] Checking signature: ${body.signature.slice(0, 16)}...`);
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
-    console.log(`[Confirm] Using RPC: ${rpcUrl.slice(0, 40)}...`);
+    const rpcPool = await getRpcPool();
+    console.log(`[Confirm] Using RPC: ${rpcPool.current().name}`);
 
     // Confirm the transaction
-    const result = await confirmTransaction(rpcUrl, body.signature);
+    const result = await confirmTransaction(rpcPool.call, body.signature);
 
     if (result.confirmed && body.positionId) {
       // Update position status
@@ -149,7 +122,7 @@ Deno.serve(async (req) => {
         console.log(`[Confirm] Position ${body.positionId} marked as open`);
       } else if (body.action === "sell") {
         // Get transaction details to extract actual exit price
-        const txDetails = await getTransactionDetails(rpcUrl, body.signature);
+        const txDetails = await getTransactionDetails(rpcPool.call, body.signature);
         
         await supabase
           .from("positions")
@@ -0,0 +1,404 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateCopyTradeWorkerInput } from "../_shared/validation.ts";
+import { checkBlacklistWhitelist } from "../_shared/snipe-rules.ts";
+import {
+  COPY_TRADING_CONFIG,
+  computeCopySize,
+  computeLeaderStats,
+  fetchSignaturesSince,
+  parseLeaderSwap,
+  type CopySizing,
+  type LeaderSwapEvent,
+  type LeaderTradeRecord,
+  type ParsedSolanaTransaction,
+} from "../_shared/copy-trading.ts";
+import type { RpcCall } from "../_shared/holder-clusters.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface LeaderRow extends CopySizing {
+  id: string;
+  leader_address: string;
+  label: string | null;
+  last_signature: string | null;
+}
+
+interface SniperSettingsRow {
+  token_blacklist: string[] | null;
+  priority: string | null;
+  slippage_tolerance: number | null;
+  profit_take_percentage: number | null;
+  stop_loss_percentage: number | null;
+}
+
+interface TokenInfo {
+  symbol: string;
+  name: string;
+  liquidityUsd: number;
+  priceUsd: number | null;
+}
+
+interface DexScreenerPair {
+  baseToken?: { address?: string; symbol?: string; name?: string };
+  liquidity?: { usd?: number };
+  priceUsd?: string;
+}
+
+interface RiskCheckResponse {
+  canTrade?: boolean;
+  reason?: string;
+  results?: { passed: boolean; riskScore: number; rejectionReasons: string[] }[];
+  circuitBreaker?: { level: string; sizeFactor: number };
+}
+
+interface PollSummary {
+  leaderId: string;
+  events: number;
+  signals: number;
+  skipped: number;
+  error?: string;
+}
+
+// Symbol/name for the copy_trades row and liquidity/price for the signal
+async function fetchTokenInfo(mint: string): Promise<TokenInfo> {
+  const fallback = { symbol: mint.slice(0, 6), name: mint.slice(0, 6), liquidityUsd: 0, priceUsd: null };
+  try {
+    const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${mint}`);
+    if (!response.ok) return fallback;
+    const data = await response.json();
+    const pair = ((data?.pairs || []) as DexScreenerPair[]).find((p) => p.baseToken?.address === mint);
+    if (!pair) return fallback;
+    return {
+      symbol: pair.baseToken?.symbol || fallback.symbol,
+      name: pair.baseToken?.name || fallback.name,
+      liquidityUsd: Number(pair.liquidity?.usd) || 0,
+      priceUsd: pair.priceUsd ? Number(pair.priceUsd) : null,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Decide what to do with a leader buy: size it, run the user's blacklist and the
+ * risk-check function, then emit a pending trade_signal like auto-sniper does.
+ */
+async function handleLeaderBuy(
+  supabase: SupabaseClient,
+  authClient: SupabaseClient,
+  userId: string,
+  leader: LeaderRow,
+  event: LeaderSwapEvent,
+  settings: SniperSettingsRow | null,
+  token: TokenInfo
+): Promise<{ status: "signaled" | "skipped"; reasons: string[]; copyAmount: number | null; signalId: string | null }> {
+  const leaderName = leader.label || `${leader.leader_address.slice(0, 4)}...${leader.leader_address.slice(-4)}`;
+  const reasons: string[] = [`✓ ${leaderName} bought ${event.solAmount.toFixed(3)} SOL of ${token.symbol} via ${event.program}`];
+
+  const ageMs = event.blockTime ? Date.now() - event.blockTime * 1000 : 0;
+  if (ageMs > COPY_TRADING_CONFIG.MAX_SIGNAL_AGE_MS) {
+    reasons.push(`✗ Leader trade is ${Math.round(ageMs / 1000)}s old - too late to copy`);
+    return { status: "skipped", reasons, copyAmount: null, signalId: null };
+  }
+
+  const listCheck = checkBlacklistWhitelist(
+    { address: event.tokenMint },
+    { token_blacklist: settings?.token_blacklist || [], token_whitelist: [] }
+  );
+  if (listCheck.severity === "reject") {
+    reasons.push(`✗ ${listCheck.message}`);
+    return { status: "skipped", reasons, copyAmount: null, signalId: null };
+  }
+
+  // Cap applies to SOL already signaled into this token from this leader
+  const { data: previous } = await supabase
+    .from("copy_trades")
+    .select("copy_amount_sol")
+    .eq("user_id", userId)
+    .eq("leader_id", leader.id)
+    .eq("token_address", event.tokenMint)
+    .eq("action", "buy")
+    .in("status", ["signaled", "executed"]);
+  const alreadyCopied = (previous || []).reduce((sum, row) => sum + (Number(row.copy_amount_sol) || 0), 0);
+
+  const size = computeCopySize(leader, event.solAmount, alreadyCopied);
+  if (size.amount <= 0) {
+    reasons.push(`✗ Max ${leader.max_sol_per_token} SOL per token already copied`);
+    return { status: "skipped", reasons, copyAmount: null, signalId: null };
+  }
+  reasons.push(size.capped ? `⚠ Size capped to ${size.amount} SOL (max per token)` : `✓ Copy size ${size.amount} SOL`);
+
+  // Same risk gate as manual and auto-sniper trades: emergency stop, circuit breaker, honeypot
+  const { data: risk, error: riskError } = await authClient.functions.invoke<RiskCheckResponse>("risk-check", {
+    body: {
+      action: "check_tokens",
+      strategy: "copy_trade",
+      tokens: [{ address: event.tokenMint, symbol: token.symbol, chain: "solana" }],
+    },
+  });
+  if (riskError || !risk) {
+    reasons.push(`✗ Risk check unavailable: ${riskError?.message || "no response"}`);
+    return { status: "skipped", reasons, copyAmount: size.amount, signalId: null };
+  }
+  const result = risk.results?.[0];
+  if (!risk.canTrade || !result?.passed) {
+    reasons.push(`✗ ${result?.rejectionReasons?.join(", ") || risk.reason || "Risk check failed"}`);
+    return { status: "skipped", reasons, copyAmount: size.amount, signalId: null };
+  }
+  reasons.push(`✓ Risk check passed (score: ${result.riskScore})`);
+
+  let copyAmount = size.amount;
+  const sizeFactor = risk.circuitBreaker?.sizeFactor ?? 1;
+  if (sizeFactor < 1) {
+    copyAmount = Number((size.amount * sizeFactor).toFixed(4));
+    reasons.push(`⚠ Circuit breaker reduced size to ${copyAmount} SOL (${Math.round(sizeFactor * 100)}%)`);
+  }
+
+  const priority = settings?.priority || "normal";
+  const { data: signal, error: signalError } = await supabase
+    .from("trade_signals")
+    .insert({
+      user_id: userId,
+      token_address: event.tokenMint,
+      token_symbol: token.symbol,
+      token_name: token.name,
+      chain: "solana",
+      liquidity: token.liquidityUsd,
+      price_usd: token.priceUsd,
+      risk_score: result.riskScore,
+      trade_amount: copyAmount,
+      slippage: settings?.slippage_tolerance ?? (priority === "turbo" ? 15 : priority === "fast" ? 10 : 5),
+      priority,
+      status: "pending",
+      reasons,
+      source: event.program === "pumpfun" ? "pumpfun" : "jupiter",
+      is_pump_fun: event.program === "pumpfun",
+      expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+      metadata: {
+        origin: "copy_trade",
+        leader_id: leader.id,
+        leader_address: leader.leader_address,
+        leader_signature: event.signature,
+        leader_sol_amount: event.solAmount,
+        profit_take_percent: settings?.profit_take_percentage ?? null,
+        stop_loss_percent: settings?.stop_loss_percentage ?? null,
+      },
+    })
+    .select("id")
+    .single();
+
+  if (signalError || !signal) {
+    reasons.push(`✗ Failed to create signal: ${signalError?.message || "unknown error"}`);
+    return { status: "skipped", reasons, copyAmount, signalId: null };
+  }
+
+  return { status: "signaled", reasons, copyAmount, signalId: signal.id };
+}
+
+async function pollLeader(
+  supabase: SupabaseClient,
+  authClient: SupabaseClient,
+  rpc: RpcCall,
+  userId: string,
+  leader: LeaderRow,
+  settings: SniperSettingsRow | null
+): Promise<PollSummary> {
+  const summary: PollSummary = { leaderId: leader.id, events: 0, signals: 0, skipped: 0 };
+
+  // Reads back to the cursor, so a burst of trades between polls is not skipped
+  const { signatures, complete } = await fetchSignaturesSince(rpc, leader.leader_address, leader.last_signature);
+  if (!complete) {
+    console.warn(
+      `[CopyTrade] ${leader.leader_address.slice(0, 8)} made over ${signatures.length} transactions since the last poll - older ones are not copied`
+    );
+  }
+
+  const newest = signatures[0]?.signature ?? leader.last_signature;
+
+  // First poll only sets the cursor - history is not copied
+  if (leader.last_signature) {
+    // RPC returns newest first; replay in the order the leader traded
+    for (const info of [...signatures].reverse()) {
+      if (info.err) continue;
+
+      const tx = (await rpc("getTransaction", [
+        info.signature,
+        { encoding: "jsonParsed", maxSupportedTransactionVersion: 0, commitment: "confirmed" },
+      ])) as ParsedSolanaTransaction | null;
+      const event = tx ? parseLeaderSwap(tx, leader.leader_address) : null;
+      if (!event) continue;
+
+      const token = await fetchTokenInfo(event.tokenMint);
+
+      // Claim the transaction before acting on it: another tab or device polling the same leader
+      // (or a retry after an RPC error mid-batch) loses the insert and does not signal again
+      const { data: claimed, error: claimError } = await supabase
+        .from("copy_trades")
+        .upsert(
+          {
+            user_id: userId,
+            leader_id: leader.id,
+            leader_address: leader.leader_address,
+            leader_name: leader.label,
+            token_address: event.tokenMint,
+            token_symbol: token.symbol,
+            action: event.side,
+            amount: event.tokenAmount,
+            price: event.priceSol,
+            sol_amount: event.solAmount,
+            tx_id: event.signature,
+            block_time: event.blockTime ? new Date(event.blockTime * 1000).toISOString() : null,
+            status: "pending",
+          },
+          { onConflict: "user_id,leader_address,tx_id", ignoreDuplicates: true }
+        )
+        .select("id");
+      if (claimError) throw new Error(`Failed to record ${event.signature}: ${claimError.message}`);
+
+      if (claimed && claimed.length > 0) {
+        summary.events++;
+        let outcome: { status: "signaled" | "skipped"; reasons: string[]; copyAmount: number | null; signalId: string | null };
+        if (event.side === "buy") {
+          outcome = await handleLeaderBuy(supabase, authClient, userId, leader, event, settings, token);
+        } else {
+          // Exits stay with the user's own TP/SL and exit plan; the sell is recorded for stats
+          outcome = { status: "skipped", reasons: [`Leader sold ${event.solAmount.toFixed(3)} SOL of ${token.symbol} - recorded only`], copyAmount: null, signalId: null };
+        }
+
+        if (outcome.status === "signaled") summary.signals++;
+        else summary.skipped++;
+
+        const { error: updateError } = await supabase
+          .from("copy_trades")
+          .update({
+            copy_amount_sol: outcome.copyAmount,
+            signal_id: outcome.signalId,
+            status: outcome.status,
+            reasons: outcome.reasons,
+          })
+          .eq("id", claimed[0].id);
+        if (updateError) {
+          console.error(`[CopyTrade] Failed to record outcome of ${event.signature}:`, updateError.message);
+        }
+        console.log(`[CopyTrade] ${leader.leader_address.slice(0, 8)} ${event.side} ${token.symbol}: ${outcome.status}`);
+      }
+
+      // A failure on a later signature resumes after this one
+      await supabase.from("copy_trade_leaders").update({ last_signature: info.signature }).eq("id", leader.id);
+    }
+  }
+
+  // Performance from everything recorded for this leader
+  const { data: history } = await supabase
+    .from("copy_trades")
+    .select("action, token_address, sol_amount, amount")
+    .eq("user_id", userId)
+    .eq("leader_id", leader.id)
+    .order("block_time", { ascending: true })
+    .limit(1000);
+
+  await supabase
+    .from("copy_trade_leaders")
+    .update({
+      last_signature: newest,
+      last_polled_at: new Date().toISOString(),
+      stats: computeLeaderStats((history || []) as LeaderTradeRecord[]),
+    })
+    .eq("id", leader.id);
+
+  return summary;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Authorization required" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: authError } = await authClient.auth.getClaims(token);
+    const userId = claimsData?.claims?.sub;
+    if (authError || !userId) {
+      return new Response(JSON.stringify({ error: "Invalid authentication" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const rawBody = await req.json().catch(() => null);
+    const validation = validateCopyTradeWorkerInput(rawBody);
+    if (!validation.success) {
+      return new Response(JSON.stringify({ error: validation.error }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const rpcPool = await getRpcPool();
+
+    let leaderQuery = supabase
+      .from("copy_trade_leaders")
+      .select("id, leader_address, label, last_signature, sizing_mode, fixed_sol_amount, leader_percent, max_sol_per_token")
+      .eq("user_id", userId)
+      .eq("is_active", true);
+    if (validation.data!.leaderId) {
+      leaderQuery = leaderQuery.eq("id", validation.data!.leaderId);
+    }
+    const { data: leaders, error: leadersError } = await leaderQuery;
+    if (leadersError) throw leadersError;
+
+    const { data: settings } = await supabase
+      .from("user_sniper_settings")
+      .select("token_blacklist, priority, slippage_tolerance, profit_take_percentage, stop_loss_percentage")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    const results: PollSummary[] = [];
+    for (const leader of (leaders || []) as LeaderRow[]) {
+      try {
+        results.push(await pollLeader(supabase, authClient, rpcPool.call, userId, leader, settings as SniperSettingsRow | null));
+      } catch (error) {
+        // One bad leader (RPC hiccup, bad address) must not block the others
+        const message = error instanceof Error ? error.message : "Poll failed";
+        console.error(`[CopyTrade] Leader ${leader.leader_address} poll failed:`, message);
+        results.push({ leaderId: leader.id, events: 0, signals: 0, skipped: 0, error: message });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        leaders: results,
+        signals: results.reduce((sum, r) => sum + r.signals, 0),
+        polledAt: new Date().toISOString(),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[CopyTrade] Error:", error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
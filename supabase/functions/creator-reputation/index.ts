@@ -0,0 +1,142 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateCreatorReputationInput } from "../_shared/validation.ts";
+import { validateInternalToken } from "../_shared/api-keys.ts";
+import { timingSafeEqual } from "../_shared/internal-auth.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
+import { resolveLaunchOutcome } from "../_shared/creator-reputation.ts";
+import {
+  lookupCreatorReputation,
+  recordLaunchOutcome,
+  type TokenCreatorRow,
+} from "../_shared/creator-reputation-state.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Pending launches checked per run, oldest first
+const RESOLVE_BATCH = 150;
+// DexScreener accepts up to 30 addresses per tokens request
+const DEXSCREENER_CHUNK = 30;
+// Launches still unresolved after this long are left pending (never listed anywhere)
+const RESOLVE_WINDOW_DAYS = 7;
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// Best pool liquidity (USD) per mint; mints without any pair are absent
+async function fetchLiquidityUsd(mints: string[]): Promise<Map<string, number>> {
+  const liquidity = new Map<string, number>();
+  for (let i = 0; i < mints.length; i += DEXSCREENER_CHUNK) {
+    const chunk = mints.slice(i, i + DEXSCREENER_CHUNK);
+    try {
+      const response = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${chunk.join(",")}`, {
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (!response.ok) continue;
+      const data = await response.json();
+      for (const pair of data?.pairs || []) {
+        const mint = pair?.baseToken?.address;
+        const usd = Number(pair?.liquidity?.usd ?? 0);
+        if (chunk.includes(mint)) liquidity.set(mint, Math.max(liquidity.get(mint) ?? 0, usd));
+      }
+    } catch (error) {
+      console.warn("[CreatorReputation] DexScreener lookup failed:", error);
+    }
+  }
+  return liquidity;
+}
+
+async function resolveOutcomes(supabase: SupabaseClient) {
+  const since = new Date(Date.now() - RESOLVE_WINDOW_DAYS * 86_400_000).toISOString();
+  const { data: pending, error } = await supabase
+    .from("token_creators")
+    .select("mint, launched_at")
+    .eq("outcome", "pending")
+    .gte("launched_at", since)
+    .order("launched_at", { ascending: true })
+    .limit(RESOLVE_BATCH);
+  if (error) throw error;
+
+  const rows = (pending || []) as Pick<TokenCreatorRow, "mint" | "launched_at">[];
+  const liquidity = await fetchLiquidityUsd(rows.map((r) => r.mint));
+  const resolved = { rugged: 0, survived: 0, pending: 0 };
+
+  for (const row of rows) {
+    const ageHours = (Date.now() - new Date(row.launched_at).getTime()) / 3_600_000;
+    const liquidityUsd = liquidity.get(row.mint) ?? null;
+    const outcome = resolveLaunchOutcome({ ageHours, liquidityUsd });
+    if (outcome === "pending" || outcome === "honeypot") {
+      resolved.pending++;
+      continue;
+    }
+    await recordLaunchOutcome(
+      supabase,
+      row.mint,
+      outcome,
+      outcome === "rugged"
+        ? `Liquidity fell to $${(liquidityUsd ?? 0).toFixed(0)}`
+        : `Still trading after ${Math.floor(ageHours)}h with $${(liquidityUsd ?? 0).toFixed(0)} liquidity`
+    );
+    resolved[outcome]++;
+  }
+
+  console.log(`[CreatorReputation] Resolved ${rows.length} pending launches:`, resolved);
+  return { checked: rows.length, ...resolved };
+}
+
+// lookup: a signed-in user viewing a token's creator history.
+// resolve_outcomes: scheduled by pg_cron with the service role key.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Authorization required" }, 401);
+    }
+    const token = authHeader.slice("Bearer ".length);
+
+    const rawBody = await req.json().catch(() => null);
+    const validation = validateCreatorReputationInput(rawBody);
+    if (!validation.success) {
+      return jsonResponse({ error: validation.error }, 400);
+    }
+    const input = validation.data!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    if (input.action === "resolve_outcomes") {
+      if (!timingSafeEqual(token, serviceRoleKey) && !(await validateInternalToken(req.headers.get("x-internal-token")))) {
+        return jsonResponse({ error: "resolve_outcomes requires internal authorization" }, 403);
+      }
+      return jsonResponse(await resolveOutcomes(supabase));
+    }
+
+    const authClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: claimsData, error: authError } = await authClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: "Invalid authentication" }, 401);
+    }
+
+    const result = await lookupCreatorReputation(supabase, (await getRpcPool()).call, input.tokenAddress!);
+    return jsonResponse(result ?? { creator: null, reputation: null, launches: [] });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    console.error("[CreatorReputation] Error:", error);
+    return jsonResponse({ error: message }, 500);
+  }
+});
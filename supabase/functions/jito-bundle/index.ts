@@ -0,0 +1,111 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateJitoBundleInput } from "../_shared/validation.ts";
+import {
+  createBlockEngineClient,
+  parseJitoBundleSettings,
+  pickTipAccount,
+  type JitoBundleSettings,
+} from "../_shared/jito-bundle.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Proxies bundle submission to the configured block engine. The browser cannot call it
+// directly (no CORS, and the auth key must stay server-side).
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Authorization required" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: authError } = await authClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: "Invalid authentication" }, 401);
+    }
+
+    const rawBody = await req.json().catch(() => null);
+    const validation = validateJitoBundleInput(rawBody);
+    if (!validation.success) {
+      return jsonResponse({ error: validation.error }, 400);
+    }
+    const input = validation.data!;
+
+    // admin_settings is admin-only under RLS - read it with the service role
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const { data: setting } = await supabase
+      .from("admin_settings")
+      .select("setting_value")
+      .eq("setting_key", "jito_bundles")
+      .maybeSingle();
+
+    const settings: JitoBundleSettings = parseJitoBundleSettings(setting?.setting_value);
+    // Env override points every function at a local mock block engine during testing
+    const engineOverride = Deno.env.get("JITO_BLOCK_ENGINE_URL");
+    if (engineOverride) settings.blockEngineUrl = engineOverride.replace(/\/+$/, "");
+
+    if (input.action === "config") {
+      return jsonResponse({
+        enabled: settings.enabled,
+        tipLamports: settings.tipLamports,
+        tipAccount: pickTipAccount(),
+      });
+    }
+
+    const client = createBlockEngineClient(settings.blockEngineUrl, { authUuid: settings.authUuid });
+
+    // Connectivity check for the admin panel - allowed before bundle mode is switched on
+    if (input.action === "tip_accounts") {
+      const startTime = Date.now();
+      const tipAccounts = await client.getTipAccounts();
+      return jsonResponse({
+        success: true,
+        blockEngineUrl: settings.blockEngineUrl,
+        latencyMs: Date.now() - startTime,
+        tipAccounts,
+      });
+    }
+
+    if (!settings.enabled) {
+      return jsonResponse({ error: "Bundle mode is disabled" }, 409);
+    }
+
+    if (input.action === "send") {
+      const result = await client.sendBundle(input.transactions!);
+      if (!result.success) {
+        console.error(`[JitoBundle] sendBundle rejected: ${result.error}`);
+        return jsonResponse({ success: false, error: result.error }, 502);
+      }
+      console.log(`[JitoBundle] Bundle ${result.bundleId} submitted (${input.transactions!.length} txs)`);
+      return jsonResponse({ success: true, bundleId: result.bundleId });
+    }
+
+    const status = await client.getBundleStatus(input.bundleId!);
+    return jsonResponse({ success: true, ...status });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[JitoBundle] Error:", message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,135 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateNotifyInput } from "../_shared/validation.ts";
+import {
+  deliverNotification,
+  deliverToChannel,
+  type DeliverableNotification,
+  type DeliveryResult,
+  type NotificationChannel,
+} from "../_shared/notification-channels.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Remember the outcome on each channel so the settings panel can show broken ones
+async function recordDeliveries(supabase: SupabaseClient, results: DeliveryResult[]) {
+  const now = new Date().toISOString();
+  await Promise.all(results.map((r) =>
+    supabase
+      .from("notification_channels")
+      .update(r.ok ? { last_delivery_at: now, last_error: null } : { last_error: r.error ?? "Delivery failed" })
+      .eq("id", r.channelId)
+  ));
+}
+
+// Routes a stored notification to the external channels its event type is routed to.
+// In-app delivery already happened when the row was inserted (realtime on `notifications`).
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Authorization required" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    // User-scoped client: RLS limits every read and write to the caller's own rows
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: authError } = await supabase.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: "Invalid authentication" }, 401);
+    }
+    const userId = claimsData.claims.sub;
+
+    const rawBody = await req.json().catch(() => null);
+    const validation = validateNotifyInput(rawBody);
+    if (!validation.success) {
+      return jsonResponse({ error: validation.error }, 400);
+    }
+    const input = validation.data!;
+
+    if (input.action === "test_channel") {
+      const { data: channel } = await supabase
+        .from("notification_channels")
+        .select("id, kind, label, config, is_enabled")
+        .eq("id", input.channelId!)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (!channel) return jsonResponse({ error: "Channel not found" }, 404);
+
+      const result = await deliverToChannel(channel as unknown as NotificationChannel, {
+        id: crypto.randomUUID(),
+        event: "system",
+        type: "info",
+        title: "Test notification",
+        message: `This channel${channel.label ? ` (${channel.label})` : ""} is connected and will receive routed alerts.`,
+        created_at: new Date().toISOString(),
+      });
+      await recordDeliveries(supabase, [result]);
+      return jsonResponse({ success: result.ok, error: result.error });
+    }
+
+    // dispatch - claim the notification first so concurrent calls deliver it once
+    const { data: claimed } = await supabase
+      .from("notifications")
+      .update({ dispatched_at: new Date().toISOString() })
+      .eq("id", input.notificationId!)
+      .eq("user_id", userId)
+      .is("dispatched_at", null)
+      .select("id, event, type, title, message, metadata, created_at")
+      .maybeSingle();
+    if (!claimed) {
+      return jsonResponse({ success: true, delivered: 0, skipped: "not found or already dispatched" });
+    }
+    const notification = claimed as unknown as DeliverableNotification;
+
+    const { data: routes } = await supabase
+      .from("notification_routes")
+      .select("channel:notification_channels(id, kind, label, config, is_enabled)")
+      .eq("user_id", userId)
+      .eq("event", notification.event);
+
+    const channels = (routes || [])
+      .map((r) => (r as unknown as { channel: NotificationChannel | null }).channel)
+      .filter((c): c is NotificationChannel => c !== null);
+    if (channels.length === 0) {
+      return jsonResponse({ success: true, delivered: 0 });
+    }
+
+    const results = await deliverNotification(channels, notification);
+    await recordDeliveries(supabase, results);
+    const failed = results.filter((r) => !r.ok);
+    if (failed.length > 0) {
+      console.warn(`[Notify] ${failed.length}/${results.length} deliveries failed for ${notification.id}:`, failed);
+    }
+
+    return jsonResponse({
+      success: true,
+      delivered: results.length - failed.length,
+      failed: failed.map((r) => ({ channelId: r.channelId, error: r.error })),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Internal server error";
+    console.error("[Notify] Error:", error);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,18 +1,25 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateRiskCheckInput } from "../_shared/validation.ts";
+import { fetchJupiterQuoteWithRetry } from "../_shared/jupiter-retry.ts";
+import { simulateRoundTrip, type RoundTripResult, type SwapBuilder } from "../_shared/round-trip.ts";
+import { formatSimulationFailure } from "../_shared/tx-simulation.ts";
+import { breakerAllowsEntry, parseBreakerConfig } from "../_shared/circuit-breaker.ts";
+import { refreshCircuitBreaker, type BreakerSettings } from "../_shared/circuit-breaker-state.ts";
+import {
+  analyzeHolderDistribution,
+  createRpcCall,
+  scoreHolderAnalysis,
+  type HolderAnalysis,
+} from "../_shared/holder-clusters.ts";
+import { ensureMintCreator, recordLaunchOutcome } from "../_shared/creator-reputation-state.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface RiskSettings {
-  emergency_stop_active: boolean;
-  circuit_breaker_enabled: boolean;
-  circuit_breaker_loss_threshold: number;
-  circuit_breaker_time_window_minutes: number;
-  circuit_breaker_triggered_at: string | null;
+interface RiskSettings extends BreakerSettings {
   max_risk_score: number;
   require_ownership_renounced: boolean;
   require_liquidity_locked: boolean;
@@ -25,6 +32,13 @@ interface TokenRiskData {
   chain?: string;
 }
 
+type TaxSource = 'simulation' | 'api' | 'default';
+
+// Holder analyses are reused across users and scans for this long
+const HOLDER_ANALYSIS_TTL_MS = 10 * 60 * 1000;
+// One wallet (or bundled cluster) holding more than this can dump the whole pool
+const MAX_EFFECTIVE_TOP_HOLDER_PERCENT = 50;
+
 interface RiskCheckResult {
   token: TokenRiskData;
   passed: boolean;
@@ -34,7 +48,15 @@ interface RiskCheckResult {
     blacklist: { passed: boolean; blacklisted: boolean };
     ownershipRenounced: { passed: boolean; renounced: boolean };
     liquidityLocked: { passed: boolean; locked: boolean; percentage: number | null };
-    taxCheck: { passed: boolean; buyTax: number; sellTax: number };
+    // source: measured by round-trip simulation, reported by the risk API, or never measured
+    taxCheck: { passed: boolean; buyTax: number; sellTax: number; source: TaxSource };
+    // null percentages when the holder analysis could not run
+    holderDistribution: {
+      passed: boolean;
+      topHolderPercent: number | null;
+      effectiveTopHolderPercent: number | null;
+      bundledClusters: number;
+    };
   };
   rejectionReasons: string[];
   circuitBreakerTriggered: boolean;
@@ -83,63 +105,95 @@ async function callSolanaRugcheck(tokenAddress: string): Promise<any> {
   }
 }
 
-// Check if circuit breaker should be triggered based on recent losses
-async function checkCircuitBreaker(
-  supabase: any,
-  userId: string,
-  settings: RiskSettings
-): Promise<{ triggered: boolean; reason?: string }> {
-  if (!settings.circuit_breaker_enabled) {
-    return { triggered: false };
-  }
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const JUPITER_SWAP_URL = 'https://lite-api.jup.ag/swap/v1/swap';
+
+// Jupiter-built, unsigned swaps for the probe wallet
+function createJupiterSwapBuilder(mint: string, probeWallet: string): SwapBuilder {
+  return async (side, amount) => {
+    const quote = await fetchJupiterQuoteWithRetry({
+      inputMint: side === 'buy' ? SOL_MINT : mint,
+      outputMint: side === 'buy' ? mint : SOL_MINT,
+      amount,
+      slippageBps: 5000, // taxes are measured against the quote, so slippage only has to let it execute
+    });
+    if (quote.ok === false) throw new Error(`Jupiter ${side} quote: ${quote.message}`);
+
+    const res = await fetch(JUPITER_SWAP_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        quoteResponse: quote.quote,
+        userPublicKey: probeWallet,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+        prioritizationFeeLamports: 0,
+      }),
+      signal: AbortSignal.timeout(10000),
+    });
+    const data = res.ok ? await res.json() : null;
+    if (typeof data?.swapTransaction !== 'string') throw new Error(`Jupiter ${side} swap build failed`);
+    return { transaction: data.swapTransaction, expectedOut: String(quote.quote.outAmount) };
+  };
+}
 
-  // Check if already triggered
-  if (settings.circuit_breaker_triggered_at) {
-    const triggeredTime = new Date(settings.circuit_breaker_triggered_at);
-    const resetTime = new Date(triggeredTime.getTime() + settings.circuit_breaker_time_window_minutes * 60 * 1000);
-    if (new Date() < resetTime) {
-      return { triggered: true, reason: 'Circuit breaker still active from previous trigger' };
-    }
+// Simulated buy+sell round trip. Needs a funded probe wallet and a simulateBundle-capable RPC;
+// returns null when either is not configured.
+async function runRoundTripCheck(tokenAddress: string): Promise<RoundTripResult | null> {
+  const probeWallet = Deno.env.get('HONEYPOT_PROBE_WALLET');
+  const rpcUrl = Deno.env.get('HONEYPOT_SIM_RPC_URL') || Deno.env.get('SOLANA_RPC_URL');
+  if (!probeWallet || !rpcUrl) return null;
+
+  const result = await simulateRoundTrip({
+    rpcUrl,
+    mint: tokenAddress,
+    probeWallet,
+    buildSwap: createJupiterSwapBuilder(tokenAddress, probeWallet),
+  });
+  if (result.status === 'unavailable') {
+    console.warn(`[RiskCheck] Round-trip simulation unavailable for ${tokenAddress}: ${result.error}`);
   }
+  return result;
+}
 
-  // Calculate losses in time window
-  const windowStart = new Date();
-  windowStart.setMinutes(windowStart.getMinutes() - settings.circuit_breaker_time_window_minutes);
-
-  const { data: recentTrades } = await supabase
-    .from('positions')
-    .select('profit_loss_percent, closed_at')
-    .eq('user_id', userId)
-    .eq('status', 'closed')
-    .gte('closed_at', windowStart.toISOString());
-
-  if (recentTrades && recentTrades.length > 0) {
-    const totalLoss = recentTrades
-      .filter((t: any) => t.profit_loss_percent < 0)
-      .reduce((sum: number, t: any) => sum + Math.abs(t.profit_loss_percent), 0);
+// Cached holder/bundle analysis, recomputed once the cached one is older than the TTL
+async function getHolderAnalysis(
+  supabase: ReturnType<typeof createClient>,
+  tokenAddress: string
+): Promise<HolderAnalysis | null> {
+  const { data: cached } = await supabase
+    .from('token_holder_analyses')
+    .select('analysis, analyzed_at')
+    .eq('token_address', tokenAddress)
+    .maybeSingle();
+  if (cached && Date.now() - new Date(cached.analyzed_at).getTime() < HOLDER_ANALYSIS_TTL_MS) {
+    return cached.analysis as HolderAnalysis;
+  }
 
-    if (totalLoss >= settings.circuit_breaker_loss_threshold) {
-      // Trigger circuit breaker
-      await supabase
-        .from('risk_settings')
-        .update({ circuit_breaker_triggered_at: new Date().toISOString() })
-        .eq('user_id', userId);
+  const rpcUrl = Deno.env.get('SOLANA_RPC_URL');
+  if (!rpcUrl) return null;
 
-      return { 
-        triggered: true, 
-        reason: `Circuit breaker triggered: ${totalLoss.toFixed(1)}% cumulative loss in ${settings.circuit_breaker_time_window_minutes} mins` 
-      };
-    }
+  const analysis = await analyzeHolderDistribution(createRpcCall(rpcUrl), tokenAddress);
+  if (analysis.status === 'unavailable') {
+    console.warn(`[RiskCheck] Holder analysis unavailable for ${tokenAddress}: ${analysis.error}`);
+    return analysis;
   }
 
-  return { triggered: false };
+  await supabase.from('token_holder_analyses').upsert({
+    token_address: tokenAddress,
+    analysis,
+    effective_top_holder_percent: analysis.effectiveTopHolderPercent,
+    analyzed_at: new Date().toISOString(),
+  }, { onConflict: 'token_address' });
+  return analysis;
 }
 
 // Perform comprehensive risk check on a token
 async function performRiskCheck(
   token: TokenRiskData,
   settings: RiskSettings,
-  honeypotApiUrl: string | null
+  honeypotApiUrl: string | null,
+  holderAnalysis: HolderAnalysis | null
 ): Promise<Omit<RiskCheckResult, 'circuitBreakerTriggered' | 'emergencyStopActive'>> {
   const rejectionReasons: string[] = [];
   let riskScore = 0;
@@ -150,7 +204,13 @@ async function performRiskCheck(
     blacklist: { passed: true, blacklisted: false },
     ownershipRenounced: { passed: true, renounced: true },
     liquidityLocked: { passed: true, locked: true, percentage: null as number | null },
-    taxCheck: { passed: true, buyTax: 0, sellTax: 0 },
+    taxCheck: { passed: true, buyTax: 0, sellTax: 0, source: 'default' as TaxSource },
+    holderDistribution: {
+      passed: true,
+      topHolderPercent: null as number | null,
+      effectiveTopHolderPercent: null as number | null,
+      bundledClusters: 0,
+    },
   };
 
   // Try to get data from APIs
@@ -165,6 +225,10 @@ async function performRiskCheck(
     apiData = await callSolanaRugcheck(token.address);
   }
 
+  const roundTrip = !token.chain || token.chain === 'solana'
+    ? await runRoundTripCheck(token.address)
+    : null;
+
   if (apiData) {
     // Honeypot check
     const isHoneypot = apiData.honeypotResult?.isHoneypot || apiData.is_honeypot || false;
@@ -214,16 +278,13 @@ async function performRiskCheck(
       riskScore += 25;
     }
 
-    // Tax check
-    const buyTax = apiData.simulationResult?.buyTax || apiData.buy_tax || 0;
-    const sellTax = apiData.simulationResult?.sellTax || apiData.sell_tax || 0;
-    checks.taxCheck.buyTax = buyTax;
-    checks.taxCheck.sellTax = sellTax;
-    const maxTax = Math.max(buyTax, sellTax);
-    checks.taxCheck.passed = maxTax <= settings.max_tax_percent;
-    if (maxTax > settings.max_tax_percent) {
-      rejectionReasons.push(`HIGH TAX DETECTED - Buy: ${buyTax}%, Sell: ${sellTax}%`);
-      riskScore += 20;
+    // API-reported taxes - replaced below when the round trip measured real ones
+    const apiBuyTax = apiData.simulationResult?.buyTax ?? apiData.buy_tax;
+    const apiSellTax = apiData.simulationResult?.sellTax ?? apiData.sell_tax;
+    if (apiBuyTax !== undefined || apiSellTax !== undefined) {
+      checks.taxCheck.buyTax = apiBuyTax || 0;
+      checks.taxCheck.sellTax = apiSellTax || 0;
+      checks.taxCheck.source = 'api';
     }
 
     // Get risk score from API if available
@@ -240,6 +301,48 @@ async function performRiskCheck(
     checks.honeypot.passed = false;
   }
 
+  // On-chain round trip: a sell that reverts is a honeypot whatever the APIs say,
+  // and measured taxes take precedence over reported ones
+  if (roundTrip?.status === 'honeypot') {
+    checks.honeypot.detected = true;
+    checks.honeypot.passed = false;
+    const detail = roundTrip.failure ? formatSimulationFailure(roundTrip.failure) : 'sell reverted';
+    rejectionReasons.push(`HONEYPOT DETECTED - Simulated sell failed: ${detail}`);
+    riskScore += 100;
+  }
+  if (roundTrip && roundTrip.buyTaxPercent !== null && roundTrip.sellTaxPercent !== null) {
+    checks.taxCheck.buyTax = roundTrip.buyTaxPercent;
+    checks.taxCheck.sellTax = roundTrip.sellTaxPercent;
+    checks.taxCheck.source = 'simulation';
+  }
+
+  // Tax check
+  const { buyTax, sellTax } = checks.taxCheck;
+  const maxTax = Math.max(buyTax, sellTax);
+  checks.taxCheck.passed = maxTax <= settings.max_tax_percent;
+  if (maxTax > settings.max_tax_percent) {
+    rejectionReasons.push(`HIGH TAX DETECTED - Buy: ${buyTax}%, Sell: ${sellTax}%`);
+    riskScore += 20;
+  }
+
+  // Holder distribution - bundled wallets count as one holder
+  if (holderAnalysis?.status === 'analyzed') {
+    const { points } = scoreHolderAnalysis(holderAnalysis);
+    const effective = holderAnalysis.effectiveTopHolderPercent;
+    checks.holderDistribution.topHolderPercent = holderAnalysis.topHolderPercent;
+    checks.holderDistribution.effectiveTopHolderPercent = effective;
+    checks.holderDistribution.bundledClusters = holderAnalysis.clusters.length;
+    checks.holderDistribution.passed = effective <= MAX_EFFECTIVE_TOP_HOLDER_PERCENT;
+    riskScore += points;
+    if (effective > MAX_EFFECTIVE_TOP_HOLDER_PERCENT) {
+      rejectionReasons.push(
+        holderAnalysis.clusters.length > 0
+          ? `BUNDLED SUPPLY - ${holderAnalysis.clusters.length} wallet cluster(s) control ${effective.toFixed(1)}% combined`
+          : `CONCENTRATED SUPPLY - Top holder owns ${effective.toFixed(1)}%`
+      );
+    }
+  }
+
   // Check against max risk score setting
   const passed = riskScore <= settings.max_risk_score && rejectionReasons.length === 0;
   if (riskScore > settings.max_risk_score && !rejectionReasons.includes('Risk score exceeds threshold')) {
@@ -293,7 +396,7 @@ serve(async (req) => {
       });
     }
     
-    const { action, tokens, updates, active, limit } = validationResult.data!;
+    const { action, tokens, updates, active, limit, strategy } = validationResult.data!;
 
     // Fetch user's risk settings
     let { data: riskSettings, error: settingsError } = await supabase
@@ -322,9 +425,13 @@ serve(async (req) => {
     }
 
     if (action === 'update_settings') {
+      const sanitizedUpdates = { ...(updates || {}) };
+      if (sanitizedUpdates.circuit_breaker_config !== undefined) {
+        sanitizedUpdates.circuit_breaker_config = parseBreakerConfig(sanitizedUpdates.circuit_breaker_config);
+      }
       const { data: updatedSettings, error: updateError } = await supabase
         .from('risk_settings')
-        .update(updates || {})
+        .update(sanitizedUpdates)
         .eq('user_id', user.id)
         .select()
         .single();
@@ -358,7 +465,7 @@ serve(async (req) => {
     if (action === 'reset_circuit_breaker') {
       await supabase
         .from('risk_settings')
-        .update({ circuit_breaker_triggered_at: null })
+        .update({ circuit_breaker_triggered_at: null, circuit_breaker_level: 'none', circuit_breaker_paused_strategies: [] })
         .eq('user_id', user.id);
 
       return new Response(JSON.stringify({ 
@@ -381,13 +488,28 @@ serve(async (req) => {
         });
       }
 
-      // Check circuit breaker
-      const circuitBreakerStatus = await checkCircuitBreaker(supabase, user.id, settings);
-      if (circuitBreakerStatus.triggered) {
+      // Check circuit breaker - pause and emergency levels block entries, reduce_size only scales them
+      const breaker = await refreshCircuitBreaker(supabase, user.id, settings);
+      if (breaker.level === 'emergency_stop') {
+        return new Response(JSON.stringify({
+          canTrade: false,
+          reason: `EMERGENCY STOP ACTIVE - ${breaker.reason}`,
+          circuitBreakerTriggered: true,
+          circuitBreaker: breaker,
+          results: [],
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (!breakerAllowsEntry(breaker.level, breaker.pausedStrategies, strategy ?? 'manual')) {
+        const strategyPaused = breaker.level !== 'pause_entries';
         return new Response(JSON.stringify({
           canTrade: false,
-          reason: circuitBreakerStatus.reason,
+          reason: strategyPaused
+            ? `Circuit breaker paused ${strategy ?? 'manual'} entries for today`
+            : `Circuit breaker paused new entries: ${breaker.reason}`,
           circuitBreakerTriggered: true,
+          circuitBreaker: breaker,
           results: [],
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -407,7 +529,19 @@ serve(async (req) => {
       // Check each token
       const results: RiskCheckResult[] = [];
       for (const tokenData of tokens) {
-        const checkResult = await performRiskCheck(tokenData, settings, honeypotApiUrl);
+        const holderAnalysis = !tokenData.chain || tokenData.chain === 'solana'
+          ? await getHolderAnalysis(supabase, tokenData.address)
+          : null;
+        const checkResult = await performRiskCheck(tokenData, settings, honeypotApiUrl, holderAnalysis);
+
+        // A honeypot counts against its deployer's reputation
+        const rpcUrl = Deno.env.get('SOLANA_RPC_URL');
+        if (checkResult.checks.honeypot.detected && rpcUrl) {
+          const creator = await ensureMintCreator(supabase, createRpcCall(rpcUrl), tokenData.address);
+          if (creator) {
+            await recordLaunchOutcome(supabase, tokenData.address, 'honeypot', checkResult.rejectionReasons[0] ?? 'Honeypot detected');
+          }
+        }
         
         // Log the check
         await supabase.from('risk_check_logs').insert({
@@ -422,6 +556,7 @@ serve(async (req) => {
           lock_percentage: checkResult.checks.liquidityLocked.percentage,
           buy_tax: checkResult.checks.taxCheck.buyTax,
           sell_tax: checkResult.checks.taxCheck.sellTax,
+          tax_source: checkResult.checks.taxCheck.source,
           risk_score: checkResult.riskScore,
           passed_checks: checkResult.passed,
           rejection_reasons: checkResult.rejectionReasons,
@@ -440,6 +575,8 @@ serve(async (req) => {
         canTrade: allPassed,
         reason: allPassed ? 'All tokens passed risk checks' : 'One or more tokens failed risk checks',
         results,
+        // Callers scale their entry size by circuitBreaker.sizeFactor
+        circuitBreaker: breaker,
         settings: {
           maxRiskScore: settings.max_risk_score,
           requireOwnershipRenounced: settings.require_ownership_renounced,
@@ -452,6 +589,31 @@ serve(async (req) => {
       });
     }
 
+    if (action === 'analyze_holders' && tokens?.length) {
+      const analysis = await getHolderAnalysis(supabase, tokens[0].address);
+      return new Response(JSON.stringify({
+        analysis,
+        score: analysis ? scoreHolderAnalysis(analysis) : null,
+        maxEffectiveTopHolderPercent: MAX_EFFECTIVE_TOP_HOLDER_PERCENT,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (action === 'get_breaker_status') {
+      const breaker = await refreshCircuitBreaker(supabase, user.id, settings);
+      const { data: trips } = await supabase
+        .from('circuit_breaker_trips')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit ?? 20);
+
+      return new Response(JSON.stringify({ status: breaker, trips: trips || [] }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (action === 'get_logs') {
       const queryLimit = limit ?? 50;
       const { data: logs } = await supabase
@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { RpcCall } from "../_shared/holder-clusters.ts";
+import { endpointLabel } from "../_shared/rpc-pool.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,29 +12,9 @@ interface BalanceRequest {
   publicKey: string;
 }
 
-async function getBalanceLamports(rpcUrl: string, publicKey: string): Promise<number> {
-  const response = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method: "getBalance",
-      params: [publicKey],
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    throw new Error(`RPC error ${response.status}: ${text.slice(0, 120)}`);
-  }
-
-  const data = await response.json();
-  if (data?.error) {
-    throw new Error(data.error?.message || "RPC returned an error");
-  }
-
-  const lamports = Number(data?.result?.value ?? 0);
+async function getBalanceLamports(rpc: RpcCall, publicKey: string): Promise<number> {
+  const result = await rpc("getBalance", [publicKey]) as { value?: number } | null;
+  const lamports = Number(result?.value ?? 0);
   return Number.isFinite(lamports) ? lamports : 0;
 }
 
@@ -78,18 +61,10 @@ Deno.serve(async (req) => {
       });
     }
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
-
-    let rpcHost = "unknown";
-    try {
-      rpcHost = new URL(rpcUrl).host;
-    } catch {
-      rpcHost = rpcUrl.slice(0, 32);
-    }
-
-    console.log(`[SolanaBalance] user=${userId} rpcHost=${rpcHost}`);
+    const rpcPool = await getRpcPool();
+    console.log(`[SolanaBalance] user=${userId} rpc=${endpointLabel(rpcPool.current())}`);
 
-    const balanceLamports = await getBalanceLamports(rpcUrl, body.publicKey);
+    const balanceLamports = await getBalanceLamports(rpcPool.call, body.publicKey);
     const balanceSol = balanceLamports / 1e9;
 
     return new Response(
@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { RpcCall } from "../_shared/holder-clusters.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,6 +14,11 @@ interface TokenMetadataRequest {
   owner?: string;
 }
 
+// jsonParsed getTokenAccountsByOwner entry (only the fields read here)
+interface ParsedTokenAccount {
+  account?: { data?: { parsed?: { info?: { mint?: string; tokenAmount?: { uiAmount?: number | null; decimals?: number } } } } };
+}
+
 function base64ToBytes(base64: string): Uint8Array {
   const bin = atob(base64);
   const bytes = new Uint8Array(bin.length);
@@ -19,27 +26,12 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`RPC error ${res.status}: ${text.slice(0, 160)}`);
-  }
-  const data = await res.json();
-  if (data?.error) throw new Error(data.error?.message || "RPC returned an error");
-  return data?.result;
-}
-
 // SPL Token Mint layout (spl-token)
 // offset 44 = decimals (u8)
-async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
+async function getMintDecimals(rpc: RpcCall, mint: string): Promise<number> {
   if (mint === SOL_MINT) return 9;
 
-  const result = await rpcRequest(rpcUrl, "getAccountInfo", [mint, { encoding: "base64" }]);
+  const result = await rpc("getAccountInfo", [mint, { encoding: "base64" }]) as { value?: { data?: unknown } | null } | null;
   const value = result?.value;
   const data = value?.data;
   const base64 = Array.isArray(data) ? data[0] : null;
@@ -56,15 +48,15 @@ async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
 }
 
 async function getOwnerTokenBalanceUi(
-  rpcUrl: string,
+  rpc: RpcCall,
   owner: string,
   mint: string
 ): Promise<{ balanceUi: number; decimals: number } | null> {
-  const result = await rpcRequest(rpcUrl, "getTokenAccountsByOwner", [
+  const result = await rpc("getTokenAccountsByOwner", [
     owner,
     { mint },
     { encoding: "jsonParsed" },
-  ]);
+  ]) as { value?: ParsedTokenAccount[] } | null;
 
   const accounts = result?.value || [];
   if (!Array.isArray(accounts) || accounts.length === 0) return null;
@@ -121,14 +113,14 @@ Deno.serve(async (req) => {
       });
     }
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
-    const decimals = await getMintDecimals(rpcUrl, body.mint);
+    const rpcPool = await getRpcPool();
+    const decimals = await getMintDecimals(rpcPool.call, body.mint);
 
     let balanceUi: number | null = null;
     let ownerDecimals: number | null = null;
 
     if (body.owner && typeof body.owner === "string") {
-      const bal = await getOwnerTokenBalanceUi(rpcUrl, body.owner, body.mint);
+      const bal = await getOwnerTokenBalanceUi(rpcPool.call, body.owner, body.mint);
       if (bal) {
         balanceUi = bal.balanceUi;
         ownerDecimals = bal.decimals;
@@ -0,0 +1,229 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateTokenOhlcvInput } from "../_shared/validation.ts";
+import { getApiConfig } from "../_shared/api-keys.ts";
+import {
+  OHLCV_TIMEFRAMES,
+  cacheRowsToCandles,
+  isCacheFresh,
+  parseBirdeyeOhlcv,
+  parseGeckoOhlcv,
+  type BirdeyeCandle,
+  type OhlcvCacheRow,
+  type OhlcvCandle,
+  type OhlcvTimeframeConfig,
+} from "../_shared/ohlcv.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface GeckoPool {
+  attributes?: { address?: string; reserve_in_usd?: string | number };
+}
+
+const GECKO_DEFAULT_BASE = "https://api.geckoterminal.com";
+const BIRDEYE_DEFAULT_BASE = "https://public-api.birdeye.so";
+
+// GeckoTerminal: resolve the most liquid pool for a token
+async function fetchGeckoTopPool(baseUrl: string, tokenAddress: string): Promise<string | null> {
+  const res = await fetch(`${baseUrl}/api/v2/networks/solana/tokens/${tokenAddress}/pools?page=1`, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(6000),
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  const pools: GeckoPool[] = Array.isArray(data?.data) ? data.data : [];
+  if (pools.length === 0) return null;
+
+  const best = pools.reduce((a, b) =>
+    Number(b?.attributes?.reserve_in_usd || 0) > Number(a?.attributes?.reserve_in_usd || 0) ? b : a
+  );
+  return best?.attributes?.address || null;
+}
+
+async function fetchGeckoCandles(
+  baseUrl: string,
+  poolAddress: string,
+  config: OhlcvTimeframeConfig
+): Promise<OhlcvCandle[]> {
+  const url = `${baseUrl}/api/v2/networks/solana/pools/${poolAddress}/ohlcv/${config.geckoPeriod}` +
+    `?aggregate=${config.geckoAggregate}&limit=${config.limit}&currency=usd`;
+  const res = await fetch(url, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!res.ok) throw new Error(`GeckoTerminal OHLCV ${res.status}`);
+
+  const data = await res.json();
+  const list: unknown[] = data?.data?.attributes?.ohlcv_list || [];
+  return parseGeckoOhlcv(list);
+}
+
+async function fetchBirdeyeCandles(
+  baseUrl: string,
+  apiKey: string,
+  tokenAddress: string,
+  config: OhlcvTimeframeConfig
+): Promise<OhlcvCandle[]> {
+  const timeTo = Math.floor(Date.now() / 1000);
+  const timeFrom = timeTo - config.limit * config.bucketSeconds;
+  const url = `${baseUrl}/defi/ohlcv?address=${tokenAddress}&type=${config.birdeyeType}&time_from=${timeFrom}&time_to=${timeTo}`;
+  const res = await fetch(url, {
+    headers: { "X-API-KEY": apiKey, "x-chain": "solana", Accept: "application/json" },
+    signal: AbortSignal.timeout(8000),
+  });
+  if (!res.ok) throw new Error(`Birdeye OHLCV ${res.status}`);
+
+  const data = await res.json();
+  const items: BirdeyeCandle[] = data?.data?.items || [];
+  return parseBirdeyeOhlcv(items);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Authorization required" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: claimsData, error: authError } = await authClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return new Response(JSON.stringify({ error: "Invalid authentication" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const rawBody = await req.json().catch(() => null);
+    const validation = validateTokenOhlcvInput(rawBody);
+    if (!validation.success) {
+      return new Response(JSON.stringify({ error: validation.error }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { tokenAddress, timeframe, pairAddress } = validation.data!;
+    const config = OHLCV_TIMEFRAMES[timeframe];
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // 1. Serve from cache while it is fresh
+    const windowStart = new Date(Date.now() - config.limit * config.bucketSeconds * 1000).toISOString();
+    const { data: cachedRows } = await supabase
+      .from("token_ohlcv_cache")
+      .select("bucket_start, open, high, low, close, volume, source, fetched_at")
+      .eq("token_address", tokenAddress)
+      .eq("timeframe", timeframe)
+      .gte("bucket_start", windowStart)
+      .order("bucket_start", { ascending: true });
+
+    const rows = (cachedRows || []) as OhlcvCacheRow[];
+    const cached = cacheRowsToCandles(rows);
+
+    if (cached.length > 0 && isCacheFresh(rows, config)) {
+      return new Response(
+        JSON.stringify({ candles: cached, source: rows[0].source, cached: true, timeframe }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // 2. Refresh from GeckoTerminal, then Birdeye
+    let candles: OhlcvCandle[] = [];
+    let source: "geckoterminal" | "birdeye" | null = null;
+    let poolAddress: string | null = pairAddress ?? null;
+    const errors: string[] = [];
+
+    const geckoConfig = await getApiConfig("geckoterminal");
+    if (geckoConfig?.isEnabled !== false) {
+      const baseUrl = geckoConfig?.baseUrl || GECKO_DEFAULT_BASE;
+      try {
+        if (!poolAddress) poolAddress = await fetchGeckoTopPool(baseUrl, tokenAddress);
+        if (poolAddress) {
+          candles = await fetchGeckoCandles(baseUrl, poolAddress, config);
+          if (candles.length > 0) source = "geckoterminal";
+        } else {
+          errors.push("GeckoTerminal: no pool found");
+        }
+      } catch (e) {
+        errors.push(`GeckoTerminal: ${e instanceof Error ? e.message : "request failed"}`);
+      }
+    }
+
+    if (!source) {
+      const birdeyeConfig = await getApiConfig("birdeye");
+      const birdeyeKey = birdeyeConfig?.apiKey || Deno.env.get("BIRDEYE_API_KEY");
+      if (birdeyeKey && birdeyeConfig?.isEnabled !== false) {
+        try {
+          candles = await fetchBirdeyeCandles(birdeyeConfig?.baseUrl || BIRDEYE_DEFAULT_BASE, birdeyeKey, tokenAddress, config);
+          if (candles.length > 0) source = "birdeye";
+        } catch (e) {
+          errors.push(`Birdeye: ${e instanceof Error ? e.message : "request failed"}`);
+        }
+      }
+    }
+
+    // 3. Providers down - fall back to whatever is cached, even if stale
+    if (!source) {
+      console.log(`[OHLCV] No fresh candles for ${tokenAddress.slice(0, 8)}... (${errors.join("; ")})`);
+      return new Response(
+        JSON.stringify({
+          candles: cached,
+          source: rows[0]?.source ?? null,
+          cached: true,
+          stale: cached.length > 0,
+          timeframe,
+          error: cached.length === 0 ? (errors[0] || "No candle data available for this token") : undefined,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const { error: upsertError } = await supabase
+      .from("token_ohlcv_cache")
+      .upsert(
+        candles.map((c) => ({
+          token_address: tokenAddress,
+          timeframe,
+          bucket_start: new Date(c.time * 1000).toISOString(),
+          open: c.open,
+          high: c.high,
+          low: c.low,
+          close: c.close,
+          volume: c.volume,
+          source,
+          pool_address: poolAddress,
+          fetched_at: fetchedAt,
+        })),
+        { onConflict: "token_address,timeframe,bucket_start" }
+      );
+    if (upsertError) console.error("[OHLCV] Cache write failed:", upsertError.message);
+
+    return new Response(
+      JSON.stringify({ candles, source, cached: false, timeframe, poolAddress }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[OHLCV] Error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,7 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateTokenScannerInput } from "../_shared/validation.ts";
-import { getApiKey, decryptKey as sharedDecryptKey } from "../_shared/api-keys.ts";
+import { getApiKey, decryptKey as sharedDecryptKey, resolveInternalUser } from "../_shared/api-keys.ts";
+import { DISCOVERY_CONFIG, getTokenAgeMs, validateDiscoveryCandidate } from "../_shared/snipe-rules.ts";
+import { createRpcCall } from "../_shared/holder-clusters.ts";
+import type { CreatorReputation } from "../_shared/creator-reputation.ts";
+import { lookupCreatorReputation } from "../_shared/creator-reputation-state.ts";
+import { fetchBondingCurve, type CurveSnapshot } from "../_shared/pump-curve.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,35 +26,6 @@ const RUGCHECK_API = "https://api.rugcheck.xyz/v1";
 const SOL_MINT = "So11111111111111111111111111111111111111112";
 const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
 
- // ============================================================================
- // DISCOVERY RULES - Production Sniper Configuration
- // ============================================================================
- const DISCOVERY_RULES = {
-   // Token age constraints
-  MIN_TOKEN_AGE_MS: 0,                        // Disabled for testing - allow any age
-   MAX_TOKEN_AGE_MS: 6 * 60 * 60 * 1000,      // 6 hours
-   
-  // Target buyer positions (widened for better discovery)
-  MIN_BUYER_POSITION: 1,
-  MAX_BUYER_POSITION: 10,
-   
-   // Safety thresholds
-  MIN_LIQUIDITY_SOL: 2,                       // Lower minimum for more results
-   MAX_RISK_SCORE: 70,
-  MIN_HOLDERS: 1,                              // Allow new tokens with few holders
-   MAX_TAX_PERCENT: 15,
-   
-   // Pool verification
-   REQUIRE_SWAP_ROUTE: true,
-   BLOCK_FREEZE_AUTHORITY: true,
-   
-   // Scam name patterns
-   SUSPICIOUS_PATTERNS: [
-     /test/i, /airdrop/i, /free.*money/i, /rug/i, 
-     /scam/i, /fake/i, /honeypot/i,
-   ],
- } as const;
-
 // Retry helper with exponential backoff for rate limits
 async function fetchWithRetry(
   url: string, 
@@ -116,104 +92,9 @@ interface DexScreenerPairResult {
   retryAt?: number;
 }
 
-// Token lifecycle stages (only tradable stages now)
-type TokenStage = 'LP_LIVE' | 'INDEXING' | 'LISTED';
+// Token lifecycle stages - BONDING_CURVE trades on its Pump.fun curve, MIGRATED just left it for an AMM
+type TokenStage = 'BONDING_CURVE' | 'MIGRATED' | 'LP_LIVE' | 'INDEXING' | 'LISTED';
 
- // ============================================================================
- // DISCOVERY VALIDATION HELPERS
- // ============================================================================
- 
- function getTokenAgeMs(createdAt: string): number {
-   const created = new Date(createdAt).getTime();
-   if (isNaN(created)) return 0;
-   return Date.now() - created;
- }
- 
- function isInAgeWindow(createdAt: string): boolean {
-   const ageMs = getTokenAgeMs(createdAt);
-   return ageMs >= DISCOVERY_RULES.MIN_TOKEN_AGE_MS && 
-          ageMs <= DISCOVERY_RULES.MAX_TOKEN_AGE_MS;
- }
- 
- function isTargetPosition(position: number | null): boolean {
-   if (position === null) return false;
-   return position >= DISCOVERY_RULES.MIN_BUYER_POSITION && 
-          position <= DISCOVERY_RULES.MAX_BUYER_POSITION;
- }
- 
- function isSuspiciousName(name: string, symbol: string): boolean {
-   const combined = `${name} ${symbol}`.toLowerCase();
-   return DISCOVERY_RULES.SUSPICIOUS_PATTERNS.some(p => p.test(combined));
- }
- 
- interface DiscoveryValidation {
-   eligible: boolean;
-   reasons: string[];
-   ageMs: number;
-   buyerPosition: number | null;
- }
- 
- function validateDiscoveryRules(token: TokenData): DiscoveryValidation {
-   const reasons: string[] = [];
-   const ageMs = getTokenAgeMs(token.createdAt);
-   const ageMins = Math.floor(ageMs / 60000);
-   
-   let eligible = true;
-   
-   // Age validation
-  if (DISCOVERY_RULES.MIN_TOKEN_AGE_MS > 0 && ageMs < DISCOVERY_RULES.MIN_TOKEN_AGE_MS) {
-    reasons.push(`⏳ Too new: ${ageMins}min`);
-    // Don't reject - just note it
-   } else {
-    const ageDisplay = ageMins > 60 ? `${Math.floor(ageMins / 60)}h` : `${ageMins}min`;
-    reasons.push(`✅ Age: ${ageDisplay}`);
-   }
-   
-   // Position validation
-   const pos = token.buyerPosition;
-  if (pos !== null) {
-     reasons.push(`✅ Position #${pos}`);
-   }
-   
-   // Liquidity validation
-   if (token.liquidity < DISCOVERY_RULES.MIN_LIQUIDITY_SOL) {
-     reasons.push(`❌ Low liquidity: ${token.liquidity.toFixed(1)} SOL`);
-     eligible = false;
-   }
-   
-   // Risk score validation
-   if (token.riskScore > DISCOVERY_RULES.MAX_RISK_SCORE) {
-     reasons.push(`❌ High risk: ${token.riskScore}/100`);
-     eligible = false;
-   }
-   
-   // Freeze authority check
-   if (DISCOVERY_RULES.BLOCK_FREEZE_AUTHORITY && token.freezeAuthority) {
-     reasons.push(`🚨 FREEZE AUTHORITY ACTIVE`);
-     eligible = false;
-   }
-   
-   // Holders check
-   if (token.holders > 0 && token.holders < DISCOVERY_RULES.MIN_HOLDERS) {
-     reasons.push(`❌ Only ${token.holders} holders`);
-     eligible = false;
-   }
-   
-   // Suspicious name check
-   if (isSuspiciousName(token.name, token.symbol)) {
-     reasons.push(`🚨 SUSPICIOUS NAME PATTERN`);
-     eligible = false;
-   }
-   
-   // Swap route required
-   if (DISCOVERY_RULES.REQUIRE_SWAP_ROUTE && !token.isTradeable) {
-     reasons.push(`⏳ No swap route yet`);
-     // Don't reject - may still be indexing
-   }
-   
-   return { eligible, reasons, ageMs, buyerPosition: pos };
- }
- 
 // Helper: generate short address format instead of "Unknown"
 function shortAddress(address: string | null | undefined): string {
   if (!address || address.length < 10) return 'TOKEN';
@@ -284,6 +165,10 @@ interface TokenData {
   isPumpFun: boolean;
   safetyReasons: string[];
   tokenStatus?: TokenStatus;
+  // Deployer and their launch history; null when the creator could not be resolved
+  creator?: CreatorReputation | null;
+  // Decoded Pump.fun curve for curve launches (price, progress, reserves)
+  curve?: CurveSnapshot | null;
 }
 
 interface ApiError {
@@ -325,10 +210,11 @@ serve(async (req) => {
       ? authHeader.slice('Bearer '.length)
       : authHeader;
 
-    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
-    const userId = claimsData?.claims?.sub;
+    // The bot runner calls in on a user's behalf with the internal token instead of a JWT
+    const userId = (await resolveInternalUser(req))
+      ?? (await authClient.auth.getClaims(token)).data?.claims?.sub;
 
-    if (claimsError || !userId) {
+    if (!userId) {
       return new Response(JSON.stringify({ error: 'Invalid or expired token' }), {
         status: 401,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -348,7 +234,7 @@ serve(async (req) => {
       });
     }
     
-    const { minLiquidity, chains } = validationResult.data!;
+    const { minLiquidity, chains, streamed } = validationResult.data!;
 
     const { data: apiConfigs } = await supabase
       .from('api_configurations')
@@ -387,7 +273,7 @@ serve(async (req) => {
     const decryptKey = sharedDecryptKey;
 
     const getApiKeyForType = async (apiType: string, dbApiKey: string | null): Promise<string | null> => {
-      const decrypted = decryptKey(dbApiKey);
+      const decrypted = await decryptKey(dbApiKey);
       if (decrypted) return decrypted;
       return await getApiKey(apiType);
     };
@@ -1007,6 +893,16 @@ serve(async (req) => {
     // TRADABILITY VERIFICATION
     // ============================================================================
     const verifyTradability = async (tokenData: TokenData): Promise<TokenData> => {
+      // A live curve is its own market - buys and sells go to the curve program, not a DEX route
+      if (tokenData.curve && !tokenData.curve.complete) {
+        tokenData.isTradeable = true;
+        tokenData.canBuy = true;
+        tokenData.canSell = true;
+        tokenData.tokenStatus!.tradable = true;
+        tokenData.safetyReasons.push(`✅ Pump.fun curve ${tokenData.curve.progress.toFixed(1)}% (${tokenData.liquidity.toFixed(1)} SOL)`);
+        return tokenData;
+      }
+
       // Simulate swap via Jupiter to confirm tradability
       const swapResult = await simulateJupiterSwap(tokenData.address);
       
@@ -1036,10 +932,83 @@ serve(async (req) => {
       return tokenData;
     };
 
+    // ============================================================================
+    // STREAMED POOLS - decoded client-side from program logs
+    // ============================================================================
+    const rpcUrl = Deno.env.get('SOLANA_RPC_URL');
+    const STREAM_SOURCES: Record<string, string> = {
+      pump_fun: 'Pump.fun (Stream)',
+      raydium: 'Raydium (Stream)',
+      orca: 'Orca (Stream)',
+      unknown: 'Stream',
+    };
+
+    const addStreamedCandidates = async () => {
+      for (const candidate of streamed) {
+        if (tokens.find(t => t.address === candidate.address)) continue;
+
+        // Curve launches are priced from the curve account itself - nothing indexes them this early
+        const curve = candidate.poolType === 'pump_fun' && rpcUrl
+          ? await fetchBondingCurve(createRpcCall(rpcUrl), candidate.address, candidate.poolAddress).catch(() => null)
+          : null;
+
+        // Concentrated pools report no reserves in their init event. A curve prices off its
+        // virtual SOL reserve, so that is its depth for impact purposes, not the real SOL in it.
+        let liquidity = curve ? curve.virtualSolReserves / 1e9 : candidate.liquidity;
+        let priceUsd = 0;
+        const pair = await fetchDexScreenerPair(candidate.poolAddress);
+        if (pair.pairFound) {
+          if (liquidity === 0) liquidity = (pair.liquidity || 0) / 150; // Rough USD to SOL conversion
+          priceUsd = pair.priceUsd || 0;
+        }
+
+        tokens.push({
+          id: `stream-${candidate.poolAddress}`,
+          address: candidate.address,
+          name: safeTokenName(candidate.name, candidate.address),
+          symbol: safeTokenSymbol(candidate.symbol, candidate.address),
+          chain: 'solana',
+          liquidity,
+          liquidityLocked: false,
+          lockPercentage: null,
+          priceUsd,
+          priceChange24h: 0,
+          volume24h: pair.volume24h || 0,
+          marketCap: 0,
+          holders: 0,
+          createdAt: new Date().toISOString(),
+          earlyBuyers: 0,
+          buyerPosition: null,
+          riskScore: 50,
+          source: STREAM_SOURCES[candidate.poolType] ?? STREAM_SOURCES.unknown,
+          pairAddress: candidate.poolAddress,
+          isTradeable: false, // Will be verified
+          canBuy: false,
+          canSell: false,
+          freezeAuthority: null,
+          mintAuthority: null,
+          isPumpFun: candidate.poolType === 'pump_fun',
+          safetyReasons: [],
+          curve,
+          tokenStatus: {
+            tradable: false,
+            stage: curve ? (curve.complete ? 'MIGRATED' : 'BONDING_CURVE') : 'LP_LIVE',
+            poolAddress: candidate.poolAddress,
+            detectedAtSlot: candidate.detectedAtSlot ?? undefined,
+            dexScreener: { pairFound: pair.pairFound, retryAt: pair.retryAt },
+          },
+        });
+      }
+      console.log(`[Scanner] Stream: ${tokens.length}/${streamed.length} candidates queued for validation`);
+    };
+
     // ============================================================================
     // EXECUTE DISCOVERY (parallel API calls)
     // ============================================================================
-    if (chains.includes('solana')) {
+    if (streamed.length > 0) {
+      // The stream already found these pools - validate them without re-polling every source
+      await addStreamedCandidates();
+    } else if (chains.includes('solana')) {
       console.log('[Scanner] Starting multi-source pool discovery (Raydium, GeckoTerminal, Birdeye, DexScreener)...');
       
       await Promise.allSettled([
@@ -1090,7 +1059,19 @@ serve(async (req) => {
     const validatedTokens = await Promise.all(
       tokensToValidate.map(async (t) => {
         const verified = await verifyTradability(t);
-        return await validateTokenSafety(verified);
+        const validated = await validateTokenSafety(verified);
+        // Deployer reputation - resolved from chain once per mint, then read from token_creators
+        if (rpcUrl) {
+          const creator = await lookupCreatorReputation(supabase, createRpcCall(rpcUrl), validated.address)
+            .catch(() => null);
+          validated.creator = creator?.reputation ?? null;
+          if (creator && creator.reputation.rugged + creator.reputation.honeypots > 0) {
+            validated.safetyReasons.push(
+              `⚠️ Creator has ${creator.reputation.rugged} rugged / ${creator.reputation.honeypots} honeypot launches`
+            );
+          }
+        }
+        return validated;
       })
     );
 
@@ -1103,19 +1084,25 @@ serve(async (req) => {
         return false;
       }
       
-      // Only reject for critical safety issues
-      if (t.freezeAuthority && DISCOVERY_RULES.BLOCK_FREEZE_AUTHORITY) {
-        console.log(`[Scanner] Rejected ${t.symbol}: Freeze authority active`);
-        return false;
-      }
-      
-      if (t.riskScore > DISCOVERY_RULES.MAX_RISK_SCORE) {
-        console.log(`[Scanner] Rejected ${t.symbol}: High risk ${t.riskScore}/100`);
-        return false;
-      }
-      
-      if (t.liquidity < DISCOVERY_RULES.MIN_LIQUIDITY_SOL) {
-        console.log(`[Scanner] Rejected ${t.symbol}: Low liquidity ${t.liquidity.toFixed(1)} SOL`);
+      // Shared discovery rules (same verdicts as the app and the backtester)
+      const discovery = validateDiscoveryCandidate({
+        address: t.address,
+        name: t.name,
+        symbol: t.symbol,
+        liquidity: t.liquidity,
+        createdAt: t.createdAt,
+        buyerPosition: t.buyerPosition,
+        riskScore: t.riskScore,
+        holders: t.holders,
+        freezeAuthority: t.freezeAuthority,
+        mintAuthority: t.mintAuthority,
+        hasSwapRoute: t.isTradeable,
+        source: t.source,
+        creator: t.creator,
+      });
+      if (!discovery.eligible) {
+        const rejections = discovery.reasons.filter(r => r.severity === 'reject').map(r => r.code).join(', ');
+        console.log(`[Scanner] Rejected ${t.symbol}: ${rejections}`);
         return false;
       }
       
@@ -1127,7 +1114,7 @@ serve(async (req) => {
     tradeableTokens.sort((a, b) => b.liquidity - a.liquidity);
 
     console.log(`[Scanner] Returning ${tradeableTokens.length} tradable tokens (verified via Jupiter)`);
-   console.log(`[Scanner] Discovery rules: Min ${DISCOVERY_RULES.MIN_LIQUIDITY_SOL} SOL, Max risk ${DISCOVERY_RULES.MAX_RISK_SCORE}`);
+   console.log(`[Scanner] Discovery rules: Min ${DISCOVERY_CONFIG.MIN_LIQUIDITY_SOL} SOL, Max risk ${DISCOVERY_CONFIG.MAX_RISK_SCORE}`);
 
     return new Response(
       JSON.stringify({
@@ -1140,7 +1127,7 @@ serve(async (req) => {
         stats: {
           total: uniqueTokens.length,
           tradeable: tradeableTokens.length,
-          pumpFun: 0,
+          pumpFun: uniqueTokens.filter(t => t.tokenStatus?.stage === 'BONDING_CURVE').length,
           filtered: uniqueTokens.length - tradeableTokens.length,
           stages: {
             lpLive: uniqueTokens.filter(t => t.tokenStatus?.stage === 'LP_LIVE').length,
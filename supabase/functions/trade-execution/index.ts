@@ -1,5 +1,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { getApiKey, getApiConfig } from "../_shared/api-keys.ts";
+import { getApiKey, getApiConfig, resolveInternalUser } from "../_shared/api-keys.ts";
+import {
+  simulateSwapTransaction,
+  formatSimulationFailure,
+  isAdjustableFailure,
+  nextSlippageBps,
+} from "../_shared/tx-simulation.ts";
+import { estimateFailureRate, simulatePaperFill, type PaperSide } from "../_shared/paper-fill.ts";
+import type { RpcCall } from "../_shared/holder-clusters.ts";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -56,24 +65,9 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`RPC error ${res.status}: ${text.slice(0, 160)}`);
-  }
-  const data = await res.json();
-  if (data?.error) throw new Error(data.error?.message || "RPC returned an error");
-  return data?.result;
-}
-
-async function getMintDecimals(rpcUrl: string, mint: string): Promise<number> {
+async function getMintDecimals(rpc: RpcCall, mint: string): Promise<number> {
   if (mint === SOL_MINT) return 9;
-  const result = await rpcRequest(rpcUrl, "getAccountInfo", [mint, { encoding: "base64" }]);
+  const result = await rpc("getAccountInfo", [mint, { encoding: "base64" }]) as { value?: { data?: unknown } | null } | null;
   const value = result?.value;
   const data = value?.data;
   const base64 = Array.isArray(data) ? data[0] : null;
@@ -99,7 +93,7 @@ interface SwapRequest {
 }
 
 interface TradeRequest {
-  action: "quote" | "swap" | "execute" | "validate";
+  action: "quote" | "swap" | "execute" | "validate" | "paper_sell" | "simulate";
   inputMint?: string;
   outputMint?: string;
   amount?: string;
@@ -112,6 +106,12 @@ interface TradeRequest {
   profitTakePercent?: number;
   stopLossPercent?: number;
   isPumpFun?: boolean;
+  // Stop before signing and fill against the quote instead (paper trading)
+  paper?: boolean;
+  positionId?: string;
+  exitReason?: string;
+  // Base64 transaction built in the browser, for "simulate"
+  transaction?: string;
 }
 
 interface TokenValidation {
@@ -671,6 +671,75 @@ async function getPriorityFee(level: "low" | "medium" | "high" | "veryHigh"): Pr
   return PRIORITY_FEES[level];
 }
 
+// Pump.fun trades pay the flat priority fee set in getPumpFunSwap; Jupiter and Raydium pay ours
+const PUMPFUN_PRIORITY_FEE_LAMPORTS = 500_000;
+
+// How far back live confirmations count toward the paper failure rate
+const FAILURE_RATE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Landing failure rate of live trades on one side, from confirm-transaction's logs
+async function getObservedFailureRate(supabase: ReturnType<typeof createClient>, side: PaperSide): Promise<number> {
+  const { data, error } = await supabase
+    .from("system_logs")
+    .select("severity")
+    .eq("event_type", "transaction_confirmation")
+    .eq("metadata->>action", side)
+    .gte("created_at", new Date(Date.now() - FAILURE_RATE_WINDOW_MS).toISOString())
+    .limit(1000);
+
+  if (error) {
+    console.log(`[Paper] Failure rate lookup failed, using default: ${error.message}`);
+    return estimateFailureRate({ confirmed: 0, failed: 0 });
+  }
+  const failed = (data || []).filter((row: { severity: string }) => row.severity === "error").length;
+  return estimateFailureRate({ confirmed: (data || []).length - failed, failed });
+}
+
+// USD prices from DexScreener's deepest Solana pairs; SOL falls back to an estimate
+async function fetchUsdPrices(tokenMint: string): Promise<{ solPriceUsd: number; tokenPriceUsd: number | null }> {
+  let solPriceUsd = 150; // Fallback SOL price
+  let tokenPriceUsd: number | null = null;
+
+  try {
+    // Fetch SOL price in USD from DexScreener
+    const solPriceRes = await fetch(
+      `https://api.dexscreener.com/latest/dex/tokens/${SOL_MINT}`,
+      { signal: AbortSignal.timeout(3000) }
+    );
+    if (solPriceRes.ok) {
+      const solData = await solPriceRes.json();
+      const solPairs = solData?.pairs || [];
+      const bestSolPair = solPairs
+        .filter((p: any) => p?.chainId === 'solana' && p?.quoteToken?.symbol === 'USDC')
+        .sort((a: any, b: any) => (b?.liquidity?.usd || 0) - (a?.liquidity?.usd || 0))[0];
+      if (bestSolPair?.priceUsd) {
+        solPriceUsd = parseFloat(bestSolPair.priceUsd) || solPriceUsd;
+      }
+    }
+
+    // Fetch token price in USD from DexScreener
+    const tokenPriceRes = await fetch(
+      `https://api.dexscreener.com/latest/dex/tokens/${tokenMint}`,
+      { signal: AbortSignal.timeout(3000) }
+    );
+    if (tokenPriceRes.ok) {
+      const tokenData = await tokenPriceRes.json();
+      const tokenPairs = tokenData?.pairs || [];
+      const bestTokenPair = tokenPairs
+        .filter((p: any) => p?.chainId === 'solana')
+        .sort((a: any, b: any) => (b?.liquidity?.usd || 0) - (a?.liquidity?.usd || 0))[0];
+      if (bestTokenPair?.priceUsd) {
+        tokenPriceUsd = parseFloat(bestTokenPair.priceUsd) || null;
+        console.log(`[Trade] Token USD price from DexScreener: $${tokenPriceUsd}`);
+      }
+    }
+  } catch (priceErr) {
+    console.log(`[Trade] USD price fetch failed (non-blocking): ${priceErr}`);
+  }
+
+  return { solPriceUsd, tokenPriceUsd };
+}
+
 // Main handler
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -700,10 +769,11 @@ Deno.serve(async (req) => {
     });
 
     const token = authHeader.slice("Bearer ".length);
-    const { data: claimsData, error: claimsError } = await authClient.auth.getClaims(token);
-    const userId = claimsData?.claims?.sub;
+    // The bot runner calls in on a user's behalf with the internal token instead of a JWT
+    const userId = (await resolveInternalUser(req))
+      ?? (await authClient.auth.getClaims(token)).data?.claims?.sub;
 
-    if (claimsError || !userId) {
+    if (!userId) {
       return new Response(
         JSON.stringify({ error: "Invalid or expired token" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -873,8 +943,30 @@ Deno.serve(async (req) => {
         );
       }
 
+      // Pre-flight check for swaps the browser built itself (bot snipes, pending exits)
+      case "simulate": {
+        if (!body.transaction) {
+          return new Response(
+            JSON.stringify({ error: "Missing required field: transaction" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const rpcPool = await getRpcPool();
+        const simulation = await simulateSwapTransaction(rpcPool.current().url, body.transaction, { fetchImpl: rpcPool.fetch });
+        if (simulation.status === "failed" && simulation.failure) {
+          console.log(`[Trade] Client swap failed simulation: ${simulation.failure.kind}`);
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, simulation }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
       case "execute": {
-        if (!body.inputMint || !body.outputMint || !body.amount || !body.userPublicKey) {
+        // Paper trades never build a transaction, so they need no wallet
+        if (!body.inputMint || !body.outputMint || !body.amount || (!body.userPublicKey && !body.paper)) {
           return new Response(
             JSON.stringify({ 
               error: "Missing required fields: inputMint, outputMint, amount, userPublicKey" 
@@ -1069,22 +1161,24 @@ Deno.serve(async (req) => {
         // Step 3: Get priority fee
         const priorityFee = await getPriorityFee(body.priorityLevel || "medium");
 
-        // Step 4: Build swap transaction
-        let swapData: any;
+        // Step 4: Build swap transaction (paper trades stop here and fill against the quote)
+        let swapData: any = {};
         
-        if (pumpCheck.isPumpFun) {
+        if (body.paper) {
+          console.log(`[Paper] Skipping swap build for ${body.outputMint}`);
+        } else if (pumpCheck.isPumpFun) {
           const amountInSol = parseInt(body.amount) / 1e9;
           swapData = await getPumpFunSwap(
             "buy",
             body.outputMint,
             amountInSol,
-            body.userPublicKey,
+            body.userPublicKey!,
             body.slippageBps || 100
           );
         } else if (source === "raydium") {
           swapData = await getRaydiumSwap(
             quoteData.raydiumData,
-            body.userPublicKey,
+            body.userPublicKey!,
             priorityFee
           );
           const transactions = swapData.data || [];
@@ -1094,64 +1188,57 @@ Deno.serve(async (req) => {
         } else {
           swapData = await getJupiterSwap({
             quoteResponse: quoteData,
-            userPublicKey: body.userPublicKey,
+            userPublicKey: body.userPublicKey!,
             priorityFee,
           });
         }
 
+        const rpcPool = await getRpcPool();
+
+        // Step 4.5: Pre-flight simulation - never hand the wallet a swap that is going to revert.
+        // Runs before the position row so a blocked trade leaves nothing behind.
+        const simulation = swapData.swapTransaction
+          ? await simulateSwapTransaction(rpcPool.current().url, swapData.swapTransaction, { fetchImpl: rpcPool.fetch })
+          : null;
+
+        if (simulation?.status === "failed" && simulation.failure) {
+          const failure = simulation.failure;
+          const suggestedSlippageBps = isAdjustableFailure(failure.kind)
+            ? nextSlippageBps(body.slippageBps || 100)
+            : null;
+          console.log(`[Trade] ❌ BLOCKED by simulation: ${failure.kind} (${failure.programError ?? "no program error"})`);
+
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: `🧪 ${formatSimulationFailure(failure)}`,
+              errorCode: "SIMULATION_FAILED",
+              simulation,
+              suggestedSlippageBps,
+              validation,
+            }),
+            { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        if (simulation?.status === "unavailable") {
+          console.log(`[Trade] Simulation unavailable (non-blocking): ${simulation.error}`);
+        }
+
         // Step 5: Create pending position
         const inputAmountLamports = parseInt(body.amount);
         const outputAmountLamports = parseInt(quoteData.outAmount || quoteData.outputAmount);
         const inputAmountDecimal = inputAmountLamports / 1e9;
 
-        const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
         const outputDecimals = pumpCheck.isPumpFun
           ? 6
-          : await getMintDecimals(rpcUrl, body.outputMint);
+          : await getMintDecimals(rpcPool.call, body.outputMint);
         const outputAmountDecimal = outputAmountLamports / Math.pow(10, outputDecimals);
         
         // CRITICAL FIX: Fetch USD prices at execution time to ensure unit consistency
         // entry_price_usd must be in USD to match DexScreener's current_price (also USD)
-        let entryPriceUsd: number | null = null;
-        let solPriceUsd = 150; // Fallback SOL price
-        
-        try {
-          // Fetch SOL price in USD from DexScreener
-          const solPriceRes = await fetch(
-            `https://api.dexscreener.com/latest/dex/tokens/${SOL_MINT}`,
-            { signal: AbortSignal.timeout(3000) }
-          );
-          if (solPriceRes.ok) {
-            const solData = await solPriceRes.json();
-            const solPairs = solData?.pairs || [];
-            const bestSolPair = solPairs
-              .filter((p: any) => p?.chainId === 'solana' && p?.quoteToken?.symbol === 'USDC')
-              .sort((a: any, b: any) => (b?.liquidity?.usd || 0) - (a?.liquidity?.usd || 0))[0];
-            if (bestSolPair?.priceUsd) {
-              solPriceUsd = parseFloat(bestSolPair.priceUsd) || solPriceUsd;
-            }
-          }
-          
-          // Fetch token price in USD from DexScreener
-          const tokenPriceRes = await fetch(
-            `https://api.dexscreener.com/latest/dex/tokens/${body.outputMint}`,
-            { signal: AbortSignal.timeout(3000) }
-          );
-          if (tokenPriceRes.ok) {
-            const tokenData = await tokenPriceRes.json();
-            const tokenPairs = tokenData?.pairs || [];
-            const bestTokenPair = tokenPairs
-              .filter((p: any) => p?.chainId === 'solana')
-              .sort((a: any, b: any) => (b?.liquidity?.usd || 0) - (a?.liquidity?.usd || 0))[0];
-            if (bestTokenPair?.priceUsd) {
-              entryPriceUsd = parseFloat(bestTokenPair.priceUsd) || null;
-              console.log(`[Trade] Token USD price from DexScreener: $${entryPriceUsd}`);
-            }
-          }
-        } catch (priceErr) {
-          console.log(`[Trade] USD price fetch failed (non-blocking): ${priceErr}`);
-        }
-        
+        const { solPriceUsd, tokenPriceUsd } = await fetchUsdPrices(body.outputMint);
+        let entryPriceUsd = tokenPriceUsd;
+
         // Calculate entry price in SOL (for backwards compatibility)
         const entryPrice = inputAmountDecimal / outputAmountDecimal;
         
@@ -1244,6 +1331,74 @@ Deno.serve(async (req) => {
             : (body.outputMint ? `Token ${body.outputMint.slice(0, 4)}…${body.outputMint.slice(-4)}` : "New Token");
         }
 
+        if (body.paper) {
+          const fill = simulatePaperFill({
+            side: "buy",
+            inAmount: inputAmountLamports,
+            quotedOutAmount: outputAmountLamports,
+            slippageBps: body.slippageBps || 100,
+            priorityFeeLamports: pumpCheck.isPumpFun ? PUMPFUN_PRIORITY_FEE_LAMPORTS : priorityFee,
+            failureRate: await getObservedFailureRate(supabase, "buy"),
+          });
+          const filledAmount = fill.outAmount / Math.pow(10, outputDecimals);
+          const solSpent = -fill.solDeltaLamports / 1e9;
+
+          const { data: paperPosition, error: paperError } = await supabase
+            .from("paper_positions")
+            .insert({
+              user_id: user.id,
+              token_address: body.outputMint,
+              token_symbol: finalTokenSymbol,
+              token_name: finalTokenName,
+              status: fill.status === "filled" ? "open" : "failed",
+              source,
+              token_decimals: outputDecimals,
+              token_amount_raw: String(fill.outAmount),
+              amount: filledAmount,
+              entry_sol: solSpent,
+              // What the fill actually cost per token, fees included
+              entry_price_usd: filledAmount > 0 ? (solSpent * solPriceUsd) / filledAmount : null,
+              sol_price_usd: solPriceUsd,
+              entry_slippage_bps: fill.slippageBps,
+              entry_fee_lamports: fill.priorityFeeLamports + fill.networkFeeLamports,
+              profit_take_percent: body.profitTakePercent || 100,
+              stop_loss_percent: body.stopLossPercent || 20,
+              failure_reason: fill.failureReason,
+            })
+            .select()
+            .single();
+
+          if (paperError) {
+            console.error("[Paper] Failed to record paper position:", paperError);
+          }
+          console.log(`[Paper] Buy ${fill.status}: ${filledAmount} ${finalTokenSymbol} for ${solSpent} SOL (${fill.slippageBps} bps slippage)`);
+
+          return new Response(
+            JSON.stringify({
+              success: fill.status === "filled",
+              paper: true,
+              error: fill.failureReason ?? undefined,
+              fill,
+              quote: {
+                inputAmount: inputAmountLamports,
+                outputAmount: fill.outAmount,
+                inputAmountDecimal,
+                outputAmountDecimal: filledAmount,
+                priceImpactPct: quoteData.priceImpactPct || 0,
+                slippageBps: body.slippageBps || 100,
+              },
+              quotedOutputAmount: outputAmountLamports,
+              priorityFeeUsed: priorityFee,
+              positionId: paperPosition?.id,
+              entryPriceUsd: paperPosition?.entry_price_usd ?? null,
+              source,
+              isPumpFun: pumpCheck.isPumpFun,
+              validation,
+            }),
+            { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
         const { data: position, error: posError } = await supabase
           .from("positions")
           .insert({
@@ -1261,6 +1416,9 @@ Deno.serve(async (req) => {
             profit_take_percent: body.profitTakePercent || 100,
             stop_loss_percent: body.stopLossPercent || 20,
             status: "pending",
+            // Exits sign from the wallet that bought
+            wallet_address: body.userPublicKey,
+            entry_sol: inputAmountDecimal,
           })
           .select()
           .single();
@@ -1286,6 +1444,136 @@ Deno.serve(async (req) => {
             source,
             isPumpFun: pumpCheck.isPumpFun,
             validation,
+            simulation,
+          }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // Close a paper position against a real sell quote
+      case "paper_sell": {
+        if (!body.positionId) {
+          return new Response(
+            JSON.stringify({ error: "Missing required field: positionId" }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const { data: paperPosition } = await supabase
+          .from("paper_positions")
+          .select("*")
+          .eq("id", body.positionId)
+          .eq("user_id", user.id)
+          .eq("status", "open")
+          .maybeSingle();
+
+        if (!paperPosition) {
+          return new Response(
+            JSON.stringify({ error: "Paper position not found or already closed" }),
+            { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const tokenMint: string = paperPosition.token_address;
+        const amountRaw: string = paperPosition.token_amount_raw;
+        const slippageBps = body.slippageBps || 150;
+
+        // Same venue order as a live sell: bonding curve while the token is on it, else Jupiter then Raydium
+        const pumpCheck = await isPumpFunToken(tokenMint);
+        const virtualSolReserves = pumpCheck.bondingCurve?.virtual_sol_reserves || 0;
+        const virtualTokenReserves = pumpCheck.bondingCurve?.virtual_token_reserves || 0;
+        let quotedOut: number;
+        let source: string;
+
+        if (pumpCheck.isPumpFun && virtualSolReserves > 0 && virtualTokenReserves > 0) {
+          quotedOut = Math.floor(parseInt(amountRaw) * (virtualSolReserves / virtualTokenReserves));
+          source = "pumpfun";
+        } else {
+          const quoteRequest = { inputMint: tokenMint, outputMint: SOL_MINT, amount: amountRaw, slippageBps };
+          try {
+            const quote = await getJupiterQuote(quoteRequest);
+            quotedOut = parseInt(quote.outAmount);
+            source = "jupiter";
+          } catch (jupiterError: unknown) {
+            const message = jupiterError instanceof Error ? jupiterError.message : String(jupiterError);
+            console.log(`[Paper] Jupiter sell quote failed: ${message}, trying Raydium...`);
+            const raydiumQuote = await getRaydiumQuote(quoteRequest);
+            quotedOut = parseInt(raydiumQuote.data.outputAmount);
+            source = "raydium";
+          }
+        }
+
+        const priorityFee = await getPriorityFee(body.priorityLevel || "high");
+        const fill = simulatePaperFill({
+          side: "sell",
+          inAmount: parseInt(amountRaw),
+          quotedOutAmount: quotedOut,
+          slippageBps,
+          priorityFeeLamports: source === "pumpfun" ? PUMPFUN_PRIORITY_FEE_LAMPORTS : priorityFee,
+          failureRate: await getObservedFailureRate(supabase, "sell"),
+        });
+        const exitFeeLamports = fill.priorityFeeLamports + fill.networkFeeLamports;
+
+        // A failed sell keeps the tokens, as it would live; its fees are added to the cost basis
+        if (fill.status === "failed") {
+          await supabase
+            .from("paper_positions")
+            .update({
+              failed_exit_attempts: (paperPosition.failed_exit_attempts || 0) + 1,
+              entry_sol: Number(paperPosition.entry_sol) + exitFeeLamports / 1e9,
+            })
+            .eq("id", paperPosition.id);
+
+          return new Response(
+            JSON.stringify({ success: false, paper: true, error: fill.failureReason, fill, source }),
+            { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+
+        const { solPriceUsd } = await fetchUsdPrices(tokenMint);
+        const exitSol = fill.solDeltaLamports / 1e9;
+        const entrySol = Number(paperPosition.entry_sol);
+        const amount = Number(paperPosition.amount);
+
+        const { error: closeError } = await supabase
+          .from("paper_positions")
+          .update({
+            status: "closed",
+            exit_sol: exitSol,
+            exit_price_usd: amount > 0 ? (exitSol * solPriceUsd) / amount : null,
+            exit_slippage_bps: fill.slippageBps,
+            exit_fee_lamports: exitFeeLamports,
+            exit_reason: body.exitReason || "manual",
+            profit_loss_sol: exitSol - entrySol,
+            profit_loss_percent: entrySol > 0 ? ((exitSol - entrySol) / entrySol) * 100 : null,
+            closed_at: new Date().toISOString(),
+          })
+          .eq("id", paperPosition.id)
+          .eq("status", "open");
+
+        if (closeError) {
+          console.error("[Paper] Failed to close paper position:", closeError);
+        }
+        console.log(`[Paper] Sell filled: ${paperPosition.token_symbol} for ${exitSol} SOL via ${source}`);
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            paper: true,
+            fill,
+            positionId: paperPosition.id,
+            exitSol,
+            profitLossSol: exitSol - entrySol,
+            quote: {
+              inputAmount: parseInt(amountRaw),
+              outputAmount: fill.outAmount,
+              inputAmountDecimal: amount,
+              outputAmountDecimal: fill.outAmount / 1e9,
+              priceImpactPct: 0,
+              slippageBps,
+            },
+            quotedOutputAmount: quotedOut,
+            source,
           }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
@@ -1293,7 +1581,7 @@ Deno.serve(async (req) => {
 
       default:
         return new Response(
-          JSON.stringify({ error: "Invalid action. Use: validate, quote, swap, or execute" }),
+          JSON.stringify({ error: "Invalid action. Use: validate, quote, swap, execute, or paper_sell" }),
           { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
     }
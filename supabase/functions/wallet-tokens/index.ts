@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getRpcPool } from "../_shared/rpc-pool-state.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,19 +19,9 @@ interface WalletToken {
   valueUsd: number | null;
 }
 
-async function rpcRequest(rpcUrl: string, method: string, params: unknown[]): Promise<any> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`RPC error ${res.status}: ${text.slice(0, 160)}`);
-  }
-  const data = await res.json();
-  if (data?.error) throw new Error(data.error?.message || "RPC returned an error");
-  return data?.result;
+// jsonParsed getTokenAccountsByOwner entry (only the fields read here)
+interface ParsedTokenAccount {
+  account?: { data?: { parsed?: { info?: { mint?: string; tokenAmount?: { uiAmount?: number | null; decimals?: number } } } } };
 }
 
 async function getTokenMetadata(mint: string): Promise<{ symbol: string | null; name: string | null }> {
@@ -121,14 +112,14 @@ Deno.serve(async (req) => {
       });
     }
 
-    const rpcUrl = Deno.env.get("SOLANA_RPC_URL") || "https://api.mainnet-beta.solana.com";
+    const rpcPool = await getRpcPool();
 
     // Fetch all SPL token accounts for the owner
-    const result = await rpcRequest(rpcUrl, "getTokenAccountsByOwner", [
+    const result = await rpcPool.call("getTokenAccountsByOwner", [
       owner,
       { programId: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA" },
       { encoding: "jsonParsed" },
-    ]);
+    ]) as { value?: ParsedTokenAccount[] } | null;
 
     const accounts = result?.value || [];
     if (!Array.isArray(accounts)) {
@@ -0,0 +1,19 @@
+-- Per-position exit plans: trailing stop + tiered take-profit ladder
+-- exit_plan shape: { "tiers": [{ "gainPercent": 50, "sellPercent": 30 }], "trailingStopPercent": 25, "trailingActivationPercent": 0 }
+-- NULL on a position means "use the user's default plan from user_sniper_settings"
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS exit_plan JSONB,
+  ADD COLUMN IF NOT EXISTS peak_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS initial_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS exit_tiers_filled JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Default exit plan applied to new positions (NULL keeps fixed TP/SL behaviour)
+ALTER TABLE public.user_sniper_settings
+  ADD COLUMN IF NOT EXISTS exit_plan JSONB;
+
+-- Backfill: existing open positions start tracking from their current amount and best known price
+UPDATE public.positions
+SET initial_amount = amount,
+    peak_price = GREATEST(COALESCE(entry_price_usd, entry_price), COALESCE(current_price, 0))
+WHERE status IN ('open', 'waiting_for_liquidity')
+  AND initial_amount IS NULL;
@@ -0,0 +1,43 @@
+-- OHLCV candle cache for token price charts
+-- Written by the token-ohlcv edge function (service role); readable by any signed-in user
+CREATE TABLE public.token_ohlcv_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token_address TEXT NOT NULL,
+  timeframe TEXT NOT NULL CHECK (timeframe IN ('1H', '4H', '24H', '7D')),
+  bucket_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  open NUMERIC NOT NULL,
+  high NUMERIC NOT NULL,
+  low NUMERIC NOT NULL,
+  close NUMERIC NOT NULL,
+  volume NUMERIC NOT NULL DEFAULT 0,
+  source TEXT NOT NULL, -- 'geckoterminal' | 'birdeye'
+  pool_address TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT unique_ohlcv_candle UNIQUE (token_address, timeframe, bucket_start)
+);
+
+CREATE INDEX idx_ohlcv_token_timeframe ON public.token_ohlcv_cache (token_address, timeframe, bucket_start DESC);
+CREATE INDEX idx_ohlcv_fetched_at ON public.token_ohlcv_cache (fetched_at);
+
+ALTER TABLE public.token_ohlcv_cache ENABLE ROW LEVEL SECURITY;
+
+-- Market data is not user-specific
+CREATE POLICY "Authenticated users can view candles"
+  ON public.token_ohlcv_cache
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Keep the cache bounded: candles older than 14 days are never charted
+CREATE OR REPLACE FUNCTION public.cleanup_old_ohlcv_cache()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.token_ohlcv_cache
+  WHERE bucket_start < now() - interval '14 days';
+END;
+$$;
@@ -0,0 +1,11 @@
+-- Discovery snapshots for the backtester: the scanner fields our rules read that
+-- token_processing_states did not keep (price, holders, token creation time, authorities, route)
+-- discovery_snapshot shape: { "priceUsd": 0.0012, "holders": 42, "createdAt": "...", "freezeAuthority": null,
+--   "mintAuthority": null, "hasSwapRoute": true, "liquidityLocked": false, "pairAddress": "...", "isPumpFun": false }
+ALTER TABLE public.token_processing_states
+  ADD COLUMN IF NOT EXISTS price_usd_at_discovery NUMERIC,
+  ADD COLUMN IF NOT EXISTS discovery_snapshot JSONB;
+
+-- Backtests replay discoveries in time order
+CREATE INDEX IF NOT EXISTS idx_token_processing_states_user_discovered
+  ON public.token_processing_states (user_id, discovered_at DESC);
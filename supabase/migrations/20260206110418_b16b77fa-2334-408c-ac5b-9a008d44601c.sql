@@ -0,0 +1,5 @@
+-- User-defined entry rules evaluated by auto-sniper after the built-in checks
+-- entry_rules shape: [{ "id": "rule-1", "expression": "liquidity > 50 && holders >= 30", "enabled": true }]
+-- Expressions use the language in supabase/functions/_shared/rule-dsl.ts
+ALTER TABLE public.user_sniper_settings
+  ADD COLUMN IF NOT EXISTS entry_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,55 @@
+-- Copy trading: leader wallets a user follows and the sizing rules applied to their buys
+CREATE TABLE IF NOT EXISTS public.copy_trade_leaders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    leader_address TEXT NOT NULL,
+    label TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    sizing_mode TEXT NOT NULL DEFAULT 'fixed_sol' CHECK (sizing_mode IN ('fixed_sol', 'percent_of_leader')),
+    fixed_sol_amount NUMERIC NOT NULL DEFAULT 0.1 CHECK (fixed_sol_amount > 0),
+    leader_percent NUMERIC NOT NULL DEFAULT 10 CHECK (leader_percent > 0 AND leader_percent <= 100),
+    max_sol_per_token NUMERIC CHECK (max_sol_per_token IS NULL OR max_sol_per_token > 0),
+    -- Newest signature already processed; polling resumes after it
+    last_signature TEXT,
+    last_polled_at TIMESTAMP WITH TIME ZONE,
+    -- LeaderStats from supabase/functions/_shared/copy-trading.ts, refreshed after each poll
+    stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, leader_address)
+);
+
+ALTER TABLE public.copy_trade_leaders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own copy trade leaders"
+ON public.copy_trade_leaders FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_copy_trade_leaders_updated_at
+BEFORE UPDATE ON public.copy_trade_leaders
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- copy_trades now records every detected leader swap and what we did with it
+ALTER TABLE public.copy_trades
+  ADD COLUMN IF NOT EXISTS leader_id UUID REFERENCES public.copy_trade_leaders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sol_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS copy_amount_sol NUMERIC,
+  ADD COLUMN IF NOT EXISTS signal_id UUID,
+  ADD COLUMN IF NOT EXISTS block_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reasons TEXT[] DEFAULT '{}';
+
+-- signaled: trade_signal emitted; skipped: detected but not copied (sizing, risk, stale, sell)
+ALTER TABLE public.copy_trades DROP CONSTRAINT IF EXISTS copy_trades_status_check;
+ALTER TABLE public.copy_trades
+  ADD CONSTRAINT copy_trades_status_check CHECK (status IN ('pending', 'signaled', 'skipped', 'executed', 'failed'));
+
+-- A leader transaction is recorded once per follower. A plain constraint, not a partial index:
+-- the worker's upsert (onConflict user_id,leader_address,tx_id) cannot pass an index predicate.
+-- NULL tx_ids stay distinct, so rows without one are unaffected.
+ALTER TABLE public.copy_trades
+  ADD CONSTRAINT copy_trades_user_leader_tx_key UNIQUE (user_id, leader_address, tx_id);
+
+CREATE INDEX IF NOT EXISTS idx_copy_trades_leader_time
+  ON public.copy_trades (leader_id, block_time);
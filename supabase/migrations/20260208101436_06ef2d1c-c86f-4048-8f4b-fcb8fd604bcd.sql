@@ -0,0 +1,37 @@
+-- Trading wallets: the Solana wallets a user trades from, each with its own risk budget
+CREATE TABLE IF NOT EXISTS public.trading_wallets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    address TEXT NOT NULL,
+    label TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    -- Max SOL deployed across this wallet's open positions
+    budget_sol NUMERIC NOT NULL DEFAULT 1 CHECK (budget_sol > 0),
+    max_open_positions INTEGER NOT NULL DEFAULT 5 CHECK (max_open_positions > 0),
+    -- Which flow may open positions from this wallet
+    strategy TEXT NOT NULL DEFAULT 'any' CHECK (strategy IN ('any', 'sniper', 'copy_trade', 'manual')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, address)
+);
+
+ALTER TABLE public.trading_wallets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own trading wallets"
+ON public.trading_wallets FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_trading_wallets_updated_at
+BEFORE UPDATE ON public.trading_wallets
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Positions remember the wallet that opened them so exits sign from the same wallet.
+-- NULL = opened before multi-wallet support; exits fall back to the connected wallet.
+ALTER TABLE public.positions
+  ADD COLUMN IF NOT EXISTS wallet_address TEXT,
+  ADD COLUMN IF NOT EXISTS entry_sol NUMERIC;
+
+CREATE INDEX IF NOT EXISTS idx_positions_user_wallet_status
+  ON public.positions (user_id, wallet_address, status);
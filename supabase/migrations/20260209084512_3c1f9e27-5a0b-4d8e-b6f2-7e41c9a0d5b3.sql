@@ -0,0 +1,4 @@
+-- Where the logged buy/sell tax came from: round-trip simulation, the risk API, or neither
+ALTER TABLE public.risk_check_logs
+ADD COLUMN IF NOT EXISTS tax_source TEXT NOT NULL DEFAULT 'default'
+CHECK (tax_source IN ('simulation', 'api', 'default'));
@@ -0,0 +1,65 @@
+-- Server copy of the bot activity log so it survives browser switches and can be audited later
+CREATE TABLE IF NOT EXISTS public.bot_activity_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- BotLogEntry.id from the client; makes retried batches idempotent
+    client_id TEXT NOT NULL,
+    logged_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    level TEXT NOT NULL CHECK (level IN ('info', 'success', 'warning', 'error', 'skip')),
+    category TEXT NOT NULL CHECK (category IN ('scan', 'evaluate', 'trade', 'exit', 'system')),
+    message TEXT NOT NULL,
+    details TEXT,
+    token_symbol TEXT,
+    token_address TEXT,
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('simple', coalesce(message, '') || ' ' || coalesce(details, ''))
+    ) STORED,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, client_id)
+);
+
+ALTER TABLE public.bot_activity_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bot logs"
+ON public.bot_activity_logs FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bot logs"
+ON public.bot_activity_logs FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bot logs"
+ON public.bot_activity_logs FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_bot_activity_logs_user_logged_at ON public.bot_activity_logs(user_id, logged_at DESC);
+CREATE INDEX idx_bot_activity_logs_token ON public.bot_activity_logs(user_id, token_address);
+CREATE INDEX idx_bot_activity_logs_search ON public.bot_activity_logs USING GIN (search_vector);
+
+-- How long each user keeps server-side bot logs
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS bot_log_retention_days INTEGER NOT NULL DEFAULT 30
+CHECK (bot_log_retention_days BETWEEN 1 AND 365);
+
+-- Remove bot logs older than their owner's retention window
+CREATE OR REPLACE FUNCTION public.cleanup_old_bot_activity_logs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.bot_activity_logs l
+  USING public.profiles p
+  WHERE p.user_id = l.user_id
+    AND l.logged_at < NOW() - make_interval(days => p.bot_log_retention_days);
+
+  -- Users without a profile row fall back to the default window
+  DELETE FROM public.bot_activity_logs l
+  WHERE l.logged_at < NOW() - INTERVAL '30 days'
+    AND NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = l.user_id);
+END;
+$$;
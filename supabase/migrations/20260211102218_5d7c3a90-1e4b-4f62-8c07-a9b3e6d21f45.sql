@@ -0,0 +1,62 @@
+-- Notifications move from localStorage to this table (realtime is already enabled on it).
+-- 'trade' was used by the app but never allowed here.
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check CHECK (type IN ('info', 'success', 'warning', 'error', 'trade'));
+
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS event TEXT NOT NULL DEFAULT 'system'
+    CHECK (event IN ('take_profit', 'stop_loss', 'trailing_stop', 'trade_executed', 'trade_failed', 'bot_status', 'scan', 'system')),
+ADD COLUMN IF NOT EXISTS metadata JSONB,
+-- Set once the notify function has routed it, so a notification is delivered at most once
+ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at ON public.notifications(user_id, created_at DESC);
+
+-- External destinations for notifications
+CREATE TABLE IF NOT EXISTS public.notification_channels (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('telegram', 'discord', 'webhook')),
+    label TEXT,
+    -- telegram: {bot_token, chat_id}; discord: {webhook_url}; webhook: {url, secret?}
+    config JSONB NOT NULL,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    last_delivery_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_channels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification channels"
+ON public.notification_channels FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_channels_updated_at
+BEFORE UPDATE ON public.notification_channels
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which event types go to which channel; in-app delivery needs no route
+CREATE TABLE IF NOT EXISTS public.notification_routes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    event TEXT NOT NULL
+        CHECK (event IN ('take_profit', 'stop_loss', 'trailing_stop', 'trade_executed', 'trade_failed', 'bot_status', 'scan', 'system')),
+    channel_id UUID REFERENCES public.notification_channels(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, event, channel_id)
+);
+
+ALTER TABLE public.notification_routes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification routes"
+ON public.notification_routes FOR ALL
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_notification_routes_user_event ON public.notification_routes(user_id, event);
@@ -0,0 +1,36 @@
+-- Graduated circuit breaker: loss limits in SOL/USD replace the summed-percent threshold.
+-- circuit_breaker_loss_threshold is no longer read; the time window now sets the cooldown.
+ALTER TABLE public.risk_settings
+-- {unit, hourly_loss_limit, hourly_action, daily_loss_limit, daily_action, strategy_loss_limits,
+--  max_consecutive_losses, streak_action, reduce_at_percent, reduce_size_factor, include_unrealized}
+ADD COLUMN IF NOT EXISTS circuit_breaker_config JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS circuit_breaker_level TEXT NOT NULL DEFAULT 'none'
+    CHECK (circuit_breaker_level IN ('none', 'reduce_size', 'pause_entries', 'emergency_stop')),
+ADD COLUMN IF NOT EXISTS circuit_breaker_paused_strategies TEXT[] NOT NULL DEFAULT '{}';
+
+-- Every escalation, with the positions whose losses caused it
+CREATE TABLE IF NOT EXISTS public.circuit_breaker_trips (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    level TEXT NOT NULL CHECK (level IN ('reduce_size', 'pause_entries', 'emergency_stop')),
+    trigger TEXT NOT NULL
+        CHECK (trigger IN ('hourly_loss', 'daily_loss', 'strategy_loss', 'loss_streak', 'approaching_limit')),
+    strategy TEXT,
+    loss_amount NUMERIC NOT NULL,
+    limit_value NUMERIC NOT NULL,
+    unit TEXT NOT NULL CHECK (unit IN ('sol', 'usd')),
+    position_ids UUID[] NOT NULL DEFAULT '{}',
+    message TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_trips_user_created_at
+ON public.circuit_breaker_trips(user_id, created_at DESC);
+
+ALTER TABLE public.circuit_breaker_trips ENABLE ROW LEVEL SECURITY;
+
+-- Written by edge functions with the service role; users only read theirs
+CREATE POLICY "Users can view their own circuit breaker trips"
+ON public.circuit_breaker_trips FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
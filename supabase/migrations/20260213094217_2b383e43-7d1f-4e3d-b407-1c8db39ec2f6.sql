@@ -0,0 +1,155 @@
+-- Headless bot runner: the scan → evaluate → execute → exit cycle runs server-side on a
+-- schedule, signing with a delegated session key, so the bot keeps trading without a tab open.
+
+-- One row per user who has set up the runner
+CREATE TABLE IF NOT EXISTS public.bot_runner_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    is_enabled BOOLEAN NOT NULL DEFAULT false,
+    auto_entry BOOLEAN NOT NULL DEFAULT true,
+    auto_exit BOOLEAN NOT NULL DEFAULT true,
+    -- Per-trade cap for the session key, whatever the sniper trade amount is
+    max_trade_sol NUMERIC NOT NULL DEFAULT 0.1 CHECK (max_trade_sol > 0),
+    session_public_key TEXT,
+    session_expires_at TIMESTAMP WITH TIME ZONE,
+    -- Lease: only the holder may run this user's cycle until it expires
+    lease_holder TEXT,
+    lease_expires_at TIMESTAMP WITH TIME ZONE,
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    last_cycle_id UUID,
+    last_cycle_started_at TIMESTAMP WITH TIME ZONE,
+    last_cycle_finished_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bot_runner_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the bot-runner function so keys and leases stay consistent
+CREATE POLICY "Users can view their own bot runner session"
+ON public.bot_runner_sessions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bot_runner_sessions_updated_at
+BEFORE UPDATE ON public.bot_runner_sessions
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sealed session key seeds. No policies: only the service role can read them.
+CREATE TABLE IF NOT EXISTS public.bot_session_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    sealed_secret TEXT NOT NULL,
+    iv TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bot_session_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_bot_session_keys_updated_at
+BEFORE UPDATE ON public.bot_session_keys
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per stage per cycle
+CREATE TABLE IF NOT EXISTS public.bot_stage_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    cycle_id UUID NOT NULL,
+    stage TEXT NOT NULL CHECK (stage IN ('scan', 'evaluate', 'execute', 'exit')),
+    status TEXT NOT NULL CHECK (status IN ('ok', 'skipped', 'failed')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bot_stage_runs_user_stage_started
+ON public.bot_stage_runs(user_id, stage, started_at DESC);
+
+ALTER TABLE public.bot_stage_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bot stage runs"
+ON public.bot_stage_runs FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Take (or renew, for the current holder) a user's lease. Returns false while another
+-- runner holds an unexpired lease, so one user's cycle never runs twice concurrently.
+CREATE OR REPLACE FUNCTION public.claim_bot_lease(p_user_id UUID, p_holder TEXT, p_ttl_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimed BOOLEAN;
+BEGIN
+  UPDATE public.bot_runner_sessions
+  SET lease_holder = p_holder,
+      lease_expires_at = NOW() + make_interval(secs => p_ttl_seconds),
+      heartbeat_at = NOW()
+  WHERE user_id = p_user_id
+    AND (lease_holder IS NULL OR lease_holder = p_holder OR lease_expires_at < NOW())
+  RETURNING true INTO claimed;
+
+  RETURN COALESCE(claimed, false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_bot_lease(p_user_id UUID, p_holder TEXT)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.bot_runner_sessions
+  SET lease_holder = NULL, lease_expires_at = NULL
+  WHERE user_id = p_user_id AND lease_holder = p_holder;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_bot_lease(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_bot_lease(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Keep a week of stage history
+CREATE OR REPLACE FUNCTION public.cleanup_old_bot_stage_runs()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.bot_stage_runs WHERE started_at < NOW() - INTERVAL '7 days';
+$$;
+
+-- Tick the runner every minute. Reads the project URL and service role key from Vault
+-- (secrets 'project_url' and 'service_role_key') so neither is stored in the schedule.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'bot-runner-tick',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/bot-runner',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "tick"}'::jsonb,
+    timeout_milliseconds := 55000
+  );
+  $$
+);
+
+SELECT cron.schedule('bot-stage-runs-cleanup', '17 3 * * *', 'SELECT public.cleanup_old_bot_stage_runs()');
+
+-- The status page follows heartbeats and stage results live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bot_runner_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bot_stage_runs;
@@ -0,0 +1,60 @@
+-- Paper trading: demo trades go through trade-execution up to the real quote and are filled
+-- with slippage, fees and observed failure rates instead of being signed. Fills persist here
+-- so a paper run can be compared with live positions.
+CREATE TABLE IF NOT EXISTS public.paper_positions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    token_address TEXT NOT NULL,
+    token_symbol TEXT,
+    token_name TEXT,
+    -- failed = the entry did not land; only its fees were spent
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'failed')),
+    source TEXT,
+    token_decimals INTEGER NOT NULL,
+    -- Raw base units, kept as text so large supplies stay exact
+    token_amount_raw TEXT NOT NULL DEFAULT '0',
+    amount NUMERIC NOT NULL DEFAULT 0,
+    -- SOL spent including fees
+    entry_sol NUMERIC NOT NULL,
+    entry_price_usd NUMERIC,
+    sol_price_usd NUMERIC,
+    entry_slippage_bps INTEGER,
+    entry_fee_lamports BIGINT NOT NULL DEFAULT 0,
+    profit_take_percent NUMERIC,
+    stop_loss_percent NUMERIC,
+    -- SOL received net of fees
+    exit_sol NUMERIC,
+    exit_price_usd NUMERIC,
+    exit_slippage_bps INTEGER,
+    exit_fee_lamports BIGINT,
+    exit_reason TEXT,
+    failed_exit_attempts INTEGER NOT NULL DEFAULT 0,
+    profit_loss_sol NUMERIC,
+    profit_loss_percent NUMERIC,
+    failure_reason TEXT,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paper_positions_user_created
+ON public.paper_positions(user_id, created_at DESC);
+
+ALTER TABLE public.paper_positions ENABLE ROW LEVEL SECURITY;
+
+-- Fills are written by trade-execution only, so users cannot edit their paper results
+CREATE POLICY "Users can view their own paper positions"
+ON public.paper_positions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own paper positions"
+ON public.paper_positions FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_paper_positions_updated_at
+BEFORE UPDATE ON public.paper_positions
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.paper_positions;
@@ -0,0 +1,34 @@
+-- Holder distribution / bundled-wallet analysis per token
+-- Written by the risk-check edge function (service role); readable by any signed-in user.
+-- Tracing funding sources costs dozens of RPC calls, so results are reused for a few minutes.
+CREATE TABLE public.token_holder_analyses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token_address TEXT NOT NULL UNIQUE,
+  analysis JSONB NOT NULL,
+  effective_top_holder_percent NUMERIC,
+  analyzed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_holder_analyses_analyzed_at ON public.token_holder_analyses (analyzed_at);
+
+ALTER TABLE public.token_holder_analyses ENABLE ROW LEVEL SECURITY;
+
+-- Market data is not user-specific
+CREATE POLICY "Authenticated users can view holder analyses"
+  ON public.token_holder_analyses
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Holder sets change quickly after launch; a day-old analysis is never reused
+CREATE OR REPLACE FUNCTION public.cleanup_old_holder_analyses()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.token_holder_analyses
+  WHERE analyzed_at < now() - interval '1 day';
+END;
+$$;
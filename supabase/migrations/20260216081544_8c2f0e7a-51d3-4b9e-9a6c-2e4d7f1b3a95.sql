@@ -0,0 +1,79 @@
+-- Creator reputation: each mint's deployer (fee payer of the mint's first transaction) and the
+-- outcome we observed for the launch. Written by the token-scanner, risk-check and
+-- creator-reputation edge functions (service role); readable by any signed-in user.
+CREATE TABLE public.token_creators (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mint TEXT NOT NULL UNIQUE,
+  creator TEXT NOT NULL,
+  creation_signature TEXT,
+  creation_slot BIGINT,
+  launched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  outcome TEXT NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'rugged', 'honeypot', 'survived')),
+  outcome_reason TEXT,
+  outcome_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_token_creators_creator ON public.token_creators (creator, launched_at DESC);
+CREATE INDEX idx_token_creators_pending ON public.token_creators (launched_at) WHERE outcome = 'pending';
+
+ALTER TABLE public.token_creators ENABLE ROW LEVEL SECURITY;
+
+-- Market data is not user-specific
+CREATE POLICY "Authenticated users can view token creators"
+  ON public.token_creators
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_token_creators_updated_at
+BEFORE UPDATE ON public.token_creators
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Creators rejected outright at discovery, maintained by admins (manually or by import)
+CREATE TABLE public.creator_blocklist (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  creator TEXT NOT NULL UNIQUE,
+  reason TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.creator_blocklist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the creator blocklist"
+  ON public.creator_blocklist
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage the creator blocklist"
+  ON public.creator_blocklist
+  FOR ALL
+  TO authenticated
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_creator_blocklist_updated_at
+BEFORE UPDATE ON public.creator_blocklist
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resolve pending launch outcomes (rugged / survived) every 15 minutes
+SELECT cron.schedule(
+  'creator-outcomes-resolve',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/creator-reputation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "resolve_outcomes"}'::jsonb,
+    timeout_milliseconds := 55000
+  );
+  $$
+);
@@ -0,0 +1,14 @@
+-- Position guardian: auto-exit watches pool reserves and the creator's / top holders' token
+-- accounts of every open position and exits early on a liquidity pull or dev sell.
+
+-- Watched accounts and recent balance samples (see _shared/position-guardian.ts)
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS guardian_state JSONB;
+
+-- {enabled, liquidityDropPercent, dropWindowSlots, devSellPercent, holderDumpPercent}; null = defaults
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS guardian_config JSONB;
+
+-- Why an automated sell happened (take_profit, stop_loss, emergency_lp_removed, ...); null = manual
+ALTER TABLE public.trade_history
+ADD COLUMN IF NOT EXISTS exit_reason TEXT;
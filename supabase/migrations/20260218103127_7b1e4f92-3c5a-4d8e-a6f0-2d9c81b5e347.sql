@@ -0,0 +1,14 @@
+-- Pump.fun bonding-curve support: curve tokens enter through their own entry window and
+-- positions follow the token from the curve to the AMM it migrates to.
+
+-- BONDING_CURVE while the token trades on its curve, MIGRATED once the curve completed; null = never on a curve
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS token_stage TEXT;
+
+-- Where auto-exit sells: pump_curve, pumpswap, raydium or jupiter; null = not resolved yet
+ALTER TABLE public.positions
+ADD COLUMN IF NOT EXISTS exit_route TEXT;
+
+-- {enabled, minProgress, maxProgress, maxBuyImpactPercent}; null = defaults (curve entries off)
+ALTER TABLE public.user_sniper_settings
+ADD COLUMN IF NOT EXISTS curve_entry JSONB;
@@ -0,0 +1,125 @@
+-- Sell locks: one lease per (user, position) shared by every seller - open tabs, other devices
+-- and the auto-exit function - so a position is never sold twice at the same time.
+
+CREATE TABLE IF NOT EXISTS public.sell_locks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    position_id UUID REFERENCES public.positions(id) ON DELETE CASCADE NOT NULL,
+    -- Base58 mints are case-sensitive - stored exactly as given
+    token_address TEXT NOT NULL,
+    -- Who holds the lease, e.g. browser:<tab id> or edge:auto-exit:<isolate id>
+    holder TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('auto_exit', 'manual_sell', 'liquidity_worker', 'partial_retry')),
+    -- Increases on every acquisition; a holder whose token no longer matches has lost the lease
+    fencing_token BIGINT NOT NULL,
+    acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, position_id)
+);
+
+CREATE SEQUENCE IF NOT EXISTS public.sell_lock_fencing_seq;
+
+ALTER TABLE public.sell_locks ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through acquire_sell_lock / release_sell_lock so fencing tokens stay monotonic
+CREATE POLICY "Users can view their own sell locks"
+ON public.sell_locks FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_sell_locks_updated_at
+BEFORE UPDATE ON public.sell_locks
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Take the lease on a position. Returns the lease as it stands afterwards: acquired = false
+-- with the current holder while someone else's lease is unexpired, so callers can report who.
+CREATE OR REPLACE FUNCTION public.acquire_sell_lock(
+  p_user_id UUID,
+  p_position_id UUID,
+  p_token_address TEXT,
+  p_holder TEXT,
+  p_source TEXT,
+  p_ttl_seconds INTEGER
+)
+RETURNS TABLE (acquired BOOLEAN, fencing_token BIGINT, holder TEXT, source TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed to lock positions of another user';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.positions p WHERE p.id = p_position_id AND p.user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Position not found';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.sell_locks AS l (user_id, position_id, token_address, holder, source, fencing_token, expires_at)
+  VALUES (
+    p_user_id, p_position_id, p_token_address, p_holder, p_source,
+    nextval('public.sell_lock_fencing_seq'), NOW() + make_interval(secs => p_ttl_seconds)
+  )
+  ON CONFLICT (user_id, position_id) DO UPDATE
+  SET token_address = EXCLUDED.token_address,
+      holder = EXCLUDED.holder,
+      source = EXCLUDED.source,
+      fencing_token = EXCLUDED.fencing_token,
+      acquired_at = NOW(),
+      expires_at = EXCLUDED.expires_at
+  WHERE l.expires_at < NOW()
+  RETURNING true, l.fencing_token, l.holder, l.source, l.expires_at;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT false, l.fencing_token, l.holder, l.source, l.expires_at
+    FROM public.sell_locks l
+    WHERE l.user_id = p_user_id AND l.position_id = p_position_id;
+  END IF;
+END;
+$$;
+
+-- True while the lease with this fencing token is still held. Checked right before a sell is
+-- broadcast, so a holder that stalled past its TTL cannot sell over the one that took over.
+CREATE OR REPLACE FUNCTION public.check_sell_lock(p_position_id UUID, p_fencing_token BIGINT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.sell_locks
+    WHERE position_id = p_position_id
+      AND fencing_token = p_fencing_token
+      AND expires_at > NOW()
+      AND (auth.role() = 'service_role' OR user_id = auth.uid())
+  );
+$$;
+
+-- Only the holder of this fencing token can release; a stale holder releasing late is a no-op
+CREATE OR REPLACE FUNCTION public.release_sell_lock(p_position_id UUID, p_fencing_token BIGINT)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.sell_locks
+  WHERE position_id = p_position_id
+    AND fencing_token = p_fencing_token
+    AND (auth.role() = 'service_role' OR user_id = auth.uid());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_sell_lock(UUID, UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.check_sell_lock(UUID, BIGINT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.release_sell_lock(UUID, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acquire_sell_lock(UUID, UUID, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.check_sell_lock(UUID, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_sell_lock(UUID, BIGINT) TO authenticated;
+
+-- Recovery controls show who is selling what
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sell_locks;
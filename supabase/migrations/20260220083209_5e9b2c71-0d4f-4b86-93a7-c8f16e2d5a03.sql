@@ -0,0 +1,27 @@
+-- Synthetic API probes: api-health runs a SOL→USDC quote on Jupiter and Raydium, a known-mint
+-- lookup on Pump.fun and an RPC getSlot, and stores each result in api_health_metrics under
+-- endpoint 'probe:<id>'. The widget and the auto-entry gate read that history back.
+
+CREATE INDEX IF NOT EXISTS idx_api_health_metrics_endpoint_created
+ON public.api_health_metrics(endpoint, created_at DESC);
+
+-- Probe every two minutes. Reads the project URL and service role key from Vault
+-- (secrets 'project_url' and 'service_role_key'), like the bot runner tick.
+SELECT cron.schedule(
+  'api-health-probes',
+  '*/2 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/api-health',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "probe"}'::jsonb,
+    timeout_milliseconds := 30000
+  );
+  $$
+);
+
+-- Probes add ~2,900 rows a day; keep the existing 7-day retention actually running
+SELECT cron.schedule('api-health-metrics-cleanup', '41 3 * * *', 'SELECT public.cleanup_old_api_health_metrics()');